@@ -31,12 +31,14 @@ const nextConfig = {
       },
     ],
   },
-  serverExternalPackages: ['@google/generative-ai'],
+  serverExternalPackages: ['@google/generative-ai', 'better-sqlite3', 'ssh2', 'ssh2-sftp-client'],
   experimental: {
     // Enable larger body size limits for file uploads
     serverActions: {
       bodySizeLimit: '150mb',
     },
+    // Requests pass through the auth middleware, which otherwise truncates bodies over 10MB.
+    middlewareClientMaxBodySize: '150mb',
   },
 };
 
@@ -1,8 +1,19 @@
 /**
  * Centralized list of managed AI model identifiers used by the paid/working build.
  * These default to Google Gemini family models but can be overridden via env vars.
+ *
+ * Each key can also be routed to another provider:
+ * - `AI_PROVIDER` sets the default provider for every key (`googleai` | `ollama` | `openai`).
+ * - `AI_PROVIDER_<KEY>` (e.g. `AI_PROVIDER_TEXT_ONLY=ollama`) overrides it for one key.
+ * - `<PROVIDER>_MODEL_<KEY>` (e.g. `OLLAMA_MODEL_TEXT_ONLY=qwen2.5:14b`) picks the model,
+ *   falling back to `OLLAMA_MODEL` / `OPENAI_COMPATIBLE_MODEL`.
+ *
+ * Non-Google values are emitted as `<provider>/<model>` references that
+ * `src/ai/providers` resolves at call time.
  */
 
+type ModelProvider = 'googleai' | 'ollama' | 'openai';
+
 const PRIMARY_MULTIMODAL_MODEL =
   process.env.GOOGLE_AI_MULTIMODAL_MODEL || 'gemini-1.5-pro-latest';
 const SECONDARY_MULTIMODAL_MODEL =
@@ -12,31 +23,55 @@ const COST_EFFICIENT_MODEL =
 const BASIC_TEXT_MODEL =
   process.env.GOOGLE_AI_TEXT_FALLBACK_MODEL || 'gemini-1.5-flash-8b';
 
+const asProvider = (value: string | undefined): ModelProvider | undefined =>
+  value === 'googleai' || value === 'ollama' || value === 'openai' ? value : undefined;
+
+const DEFAULT_PROVIDER: ModelProvider = asProvider(process.env.AI_PROVIDER) ?? 'googleai';
+
+const PROVIDER_DEFAULT_MODELS: Record<Exclude<ModelProvider, 'googleai'>, string> = {
+  ollama: process.env.OLLAMA_MODEL || 'llama2',
+  openai: process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o-mini',
+};
+
+const PROVIDER_ENV_PREFIX: Record<Exclude<ModelProvider, 'googleai'>, string> = {
+  ollama: 'OLLAMA_MODEL_',
+  openai: 'OPENAI_COMPATIBLE_MODEL_',
+};
+
+const resolveModelRef = (key: string, googleModel: string): string => {
+  const provider = asProvider(process.env[`AI_PROVIDER_${key}`]) ?? DEFAULT_PROVIDER;
+  if (provider === 'googleai') {
+    return googleModel;
+  }
+  const model = process.env[`${PROVIDER_ENV_PREFIX[provider]}${key}`] || PROVIDER_DEFAULT_MODELS[provider];
+  return `${provider}/${model}`;
+};
+
 export const AI_MODELS = {
   /**
    * Fast, lower-cost model for general text generation tasks.
    */
-  COST_EFFICIENT: COST_EFFICIENT_MODEL,
+  COST_EFFICIENT: resolveModelRef('COST_EFFICIENT', COST_EFFICIENT_MODEL),
 
   /**
    * Primary multimodal model (audio + text) for transcription and scoring.
    */
-  MULTIMODAL_PRIMARY: PRIMARY_MULTIMODAL_MODEL,
+  MULTIMODAL_PRIMARY: resolveModelRef('MULTIMODAL_PRIMARY', PRIMARY_MULTIMODAL_MODEL),
 
   /**
    * Secondary multimodal model used as a fallback.
    */
-  MULTIMODAL_SECONDARY: SECONDARY_MULTIMODAL_MODEL,
+  MULTIMODAL_SECONDARY: resolveModelRef('MULTIMODAL_SECONDARY', SECONDARY_MULTIMODAL_MODEL),
 
   /**
    * Text-only model for pure language tasks when audio is already processed.
    */
-  TEXT_ONLY: COST_EFFICIENT_MODEL,
+  TEXT_ONLY: resolveModelRef('TEXT_ONLY', COST_EFFICIENT_MODEL),
 
   /**
    * Ultra-lightweight model for quick responses or backup text usage.
    */
-  BASIC_TEXT: BASIC_TEXT_MODEL,
+  BASIC_TEXT: resolveModelRef('BASIC_TEXT', BASIC_TEXT_MODEL),
 } as const;
 
 export type AiModelKey = keyof typeof AI_MODELS;
@@ -5,11 +5,27 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
-import type { ScoreCallInput, ScoreCallOutput, TranscriptionInput } from '@/types';
+import type { ConversationAnalytics, ScoreCallInput, ScoreCallOutput, ScoringRubric, TranscriptionInput } from '@/types';
 import { ScoreCallInputSchema, ScoreCallOutputSchema } from '@/types';
 import { resolveGeminiAudioReference } from '@/ai/utils/media';
+import { downloadAudioUrlAsDataUri } from '@/ai/utils/remote-audio';
 import { AI_MODELS } from '@/ai/config/models';
 import { callScoringRetryManager } from '@/ai/utils/retry-manager';
+import {
+  assignRubricCategories,
+  buildRubricPrompt,
+  calculateCallScore,
+  countRubricMetrics,
+  getBuiltInRubric,
+  rubricReference,
+} from '@/lib/scoring-rubrics';
+import { detectTranscriptFormat, TRANSCRIPT_FORMAT_LABELS } from '@/lib/transcript/importers';
+import { normalizeTranscript, transcriptToDiarizedText } from '@/lib/transcript/normalize';
+import {
+  computeConversationAnalytics,
+  formatConversationAnalyticsForPrompt,
+  getMeasuredMetricValue,
+} from '@/lib/transcript/analytics';
 import { transcribeAudio } from './transcription-flow';
 
 const InternalScoreCallInputSchema = ScoreCallInputSchema;
@@ -24,10 +40,22 @@ const ImprovementSituationSchema = z.object({
   suggestedResponse: z.string().describe("The more suitable, improved response the agent could have used."),
 });
 
+// Fields filled in from the rubric after generation; the model never produces them.
+const COMPUTED_SCORE_FIELDS = {
+  overallScore: true,
+  callCategorisation: true,
+  categoryScores: true,
+  criticalFailures: true,
+  rubric: true,
+  conversationAnalytics: true,
+} as const;
+type ModelScoreOutput = Omit<ScoreCallOutput, keyof typeof COMPUTED_SCORE_FIELDS>;
+
 // This is the schema the primary AI will be asked to generate.
 const DeepAnalysisOutputSchema = ScoreCallOutputSchema.omit({
   transcript: true,
   transcriptAccuracy: true,
+  ...COMPUTED_SCORE_FIELDS,
 }).extend({
   improvementSituations: z.array(ImprovementSituationSchema).optional().describe("An array of specific situations where the agent could have responded better."),
 });
@@ -38,6 +66,7 @@ const TextOnlyFallbackOutputSchema = ScoreCallOutputSchema.omit({
   transcript: true,
   transcriptAccuracy: true,
   improvementSituations: true,
+  ...COMPUTED_SCORE_FIELDS,
 });
 type TextOnlyFallbackOutput = z.infer<typeof TextOnlyFallbackOutputSchema>;
 
@@ -45,7 +74,9 @@ type PromptPart =
   | { text: string }
   | { media: { url: string; contentType?: string } };
 
-const deepAnalysisPrompt = `You are a world-class, exceptionally detailed telesales performance coach and revenue optimization expert. Your primary goal is to provide an exhaustive, deeply analytical quality assessment against a detailed, multi-category rubric containing over 75 distinct metrics. You will analyze the provided call by listening to the audio for **tonality, pacing, and sentiment**, while reading the transcript for **content, strategy, and adherence to process**. You must identify specific, actionable insights that will directly lead to increased sales and higher subscription conversion rates.
+const buildDeepAnalysisPrompt = (rubric: ScoringRubric) => {
+  const metricCount = countRubricMetrics(rubric);
+  return `You are a world-class, exceptionally detailed telesales performance coach and revenue optimization expert. Your primary goal is to provide an exhaustive, deeply analytical quality assessment against a detailed, multi-category rubric containing ${metricCount} distinct metrics. You will analyze the provided call by listening to the audio for **tonality, pacing, and sentiment**, while reading the transcript for **content, strategy, and adherence to process**. You must identify specific, actionable insights that will directly lead to increased sales and higher subscription conversion rates.
 
 **Primary Directive:** You MUST provide a score and detailed feedback for EVERY SINGLE metric listed in the rubric below. No metric should be skipped. For every piece of feedback, you MUST explain *how* the suggested change will improve the sales outcome. Be specific and strategic. Your analysis must be grounded in both the audio and the text content.
 
@@ -54,105 +85,18 @@ const deepAnalysisPrompt = `You are a world-class, exceptionally detailed telesa
 Your output must be a single, valid JSON object that strictly conforms to the required schema.
 
 ---
-**EVALUATION RUBRIC & REVENUE-FOCUSED ANALYSIS (You MUST score all 75+ metrics):**
+**EVALUATION RUBRIC & REVENUE-FOCUSED ANALYSIS (You MUST score all ${metricCount} metrics):**
 ---
 
-For EACH metric below, provide a score (1-5) and detailed feedback in the \`metricScores\` array. The feedback must explain the commercial impact of the agent's performance, considering both audio and text.
-
-**CATEGORY 1: Introduction & Rapport Building (First 30 Seconds)**
-1.  **Introduction Quality:** Overall effectiveness of the opening.
-2.  **Intro Hook Line:** Was the opening line attention-grabbing and relevant?
-3.  **Opening Greeting (Tone & Words):** Analyze tone and word choice. Was it confident, energetic, and engaging?
-4.  **Purpose of Call Statement:** Was the reason for the call stated clearly and compellingly?
-5.  **Rapport Building (Initial):** Did the agent's voice sound genuine and empathetic?
-6.  **Energy and Enthusiasm (Opening):** Did the agent sound motivated and positive?
-7.  **Clarity & Pacing (Opening):** Was the agent's initial speech clear and well-paced, or rushed/mumbled?
-
-**CATEGORY 2: Pitch & Product Communication**
-8.  **Pitch Adherence:** Did the agent follow the core structure of the expected pitch?
-9.  **Feature-to-Benefit Translation:** Did the agent sell benefits (e.g., "save 2 hours a day") or just list features (e.g., "it has a dashboard")?
-10. **Value Justification (ROI):** Did the agent effectively communicate the value to justify the price? Was there a clear return on investment communicated?
-11. **Monetary Value Communication (Benefits vs. Cost):** Was the agent able to effectively articulate the monetary value and justify the cost?
-12. **Clarity of Product Explanation:** Was the explanation of the product simple and easy to understand?
-13. **Premium Content Explained:** Was the value of premium content clearly articulated?
-14. **Epaper Explained:** If applicable, was the Epaper feature explained well?
-15. **TOI Plus Explained:** If applicable, was the TOI Plus value proposition clear?
-16. **Times Prime Explained:** If applicable, was the Times Prime value proposition clear?
-17. **Docubay Explained:** If applicable, was Docubay explained correctly?
-18. **Stock Report Explained:** If applicable, was the Stock Report feature explained?
-19. **Upside Radar Explained:** If applicable, was the Upside Radar feature explained?
-20. **Market Mood Explained:** If applicable, was the Market Mood feature explained?
-21. **Big Bull Explained:** If applicable, was the Big Bull feature explained?
-22. **Cross-Sell/Up-sell Opportunity:** Did the agent identify and act on any opportunities to cross-sell or up-sell?
-
-**CATEGORY 3: Customer Engagement & Control**
-23. **Talk-Listen Ratio:** Analyze the audio for the balance of speech. Ideal is often agent speaking 40-50%.
-24. **Talk Ratio (Agent vs User):** Similar to above, assess the balance of dialogue.
-25. **Engagement Duration % (User vs Agent):** What percentage of the engagement was driven by the user vs the agent?
-26. **Active Listening Cues:** Did the agent use verbal cues ('I see', 'that makes sense') to show they were listening?
-27. **Questioning Skills (Open vs Closed):** Did the agent use a mix of open-ended and closed-ended questions effectively?
-28. **Questions Asked by Customer:** How many questions did the customer ask? Does this indicate engagement or confusion?
-29. **User Interest (Offer/Feature):** Assess the user's level of interest when offers or features were mentioned.
-30. **Premium Content Interest:** Did the user show specific interest in Premium Content?
-31. **Epaper Interest:** Did the user show specific interest in Epaper?
-32. **TOI Plus Interest:** Did the user show specific interest in TOI Plus?
-33. **Times Prime Interest:** Did the user show specific interest in Times Prime?
-
-**CATEGORY 4: Agent's Tonality & Soft Skills (Audio Analysis)**
-34. **Conviction & Enthusiasm (Tone):** Did the agent sound convinced and enthusiastic about the product's value?
-35. **Clarity & Articulation:** Was the agent's speech clear and easy to understand throughout the call?
-36. **Pacing and Pauses:** Did the agent use strategic pauses, or did they speak too quickly or slowly?
-37. **Agent's Tone (Overall):** Assess the overall tone - was it professional, friendly, aggressive, or passive?
-38. **Empathy Demonstration (Tone):** Did the agent's tone convey genuine empathy when required?
-39. **Confidence Level (Vocal):** Did the agent's voice project confidence?
-40. **Friendliness & Politeness:** Was the agent polite and friendly in their language and tone?
-41. **Active Listening (Vocal Cues):** Did the agent use vocal affirmations ('mm-hmm', 'I see') to signal they were listening?
-42. **User's Perceived Sentiment (from Tone):** From the user's tone, gauge their level of interest, frustration, or engagement.
-
-**CATEGORY 5: Needs Discovery & Qualification**
-43. **Situation Questions:** Did the agent effectively understand the customer's current situation?
-44. **Problem Identification & Probing:** Did the agent successfully uncover or highlight a problem the product solves?
-45. **Implication/Impact Questions:** Did the agent make the customer feel the pain of their problem?
-46. **Need-Payoff (Value Proposition):** Did the agent connect the product's benefits directly to solving the customer's stated problem?
-47. **Budget & Authority Qualification:** Did the agent subtly qualify if the user has the authority and financial capacity to purchase?
-48. **First Discovery Question Time (sec):** How long did it take to ask the first discovery question?
-49. **First Question Time (sec):** How long did it take to ask the first question of any kind?
-
-**CATEGORY 6: Sales Process & Hygiene**
-50. **Misleading Information by Agent:** Did the agent provide any information that was factually incorrect or misleading?
-51. **Call Control:** Did the agent maintain control of the conversation's direction?
-52. **Time to First Offer (sec):** How long did it take for the agent to present the first offer?
-53. **First Price Mention (sec):** How long into the call was price first mentioned?
-54. **Compliance & Adherence:** Did the agent adhere to all required compliance scripts and procedures?
-55. **Call Opening (Satisfactory/Unsatisfactory):** A binary judgment on the overall opening.
-56. **Call Closing (Satisfactory/Unsatisfactory):** A binary judgment on the overall closing.
-57. **Agent Professionalism:** Did the agent maintain a professional demeanor throughout?
-
-**CATEGORY 7: Objection Handling & Closing**
-58. **Objection Recognition & Tone:** How did the agent's tone shift when faced with an objection?
-59. **Empathize, Clarify, Isolate, Respond (ECIR):** Assess the agent's technique. Did they show empathy, understand the real issue, confirm it was the main blocker, and then respond?
-60. **Price Objection Response:** Was the price objection handled by reinforcing value or by immediately offering a discount?
-61. **"I'm Not Interested" Handling:** How did the agent handle this classic stall?
-62. **"Send Me Details" Handling:** How did the agent manage the request to just send details?
-63. **Competition Mention Handling:** How did the agent respond when a competitor was mentioned?
-64. **Handling "I need to think about it":** Did the agent have an effective response to this common stall?
-65. **Trial Closes:** Did the agent use trial closes (e.g., "If we could handle that, would you be interested?") to gauge interest?
-66. **Urgency Creation:** Did the agent effectively create a sense of urgency for the offer?
-67. **Final Call to Action (CTA):** Was the closing CTA clear, confident, and specific?
-68. **Next Steps Definition:** Were the next steps, if any, clearly defined?
-69. **Closing Strength (Tone):** Did the agent's tone convey confidence or weakness during the close?
-70. **Assumptive Close Attempt:** Did the agent attempt an assumptive close?
-71. **Benefit-driven Close:** Was the close tied back to the customer's key needs/benefits?
-72. **Handling Final Questions:** How were the customer's final questions before the close handled?
-73. **Post-CTA Silence:** Did the agent use silence effectively after asking for the sale?
-74. **Payment Process Explanation:** Was the payment process explained clearly and simply?
-75. **Confirmation of Sale/Next Step:** Did the agent confirm the final outcome clearly?
+For EACH metric below, provide a score (1-5) and detailed feedback in the \`metricScores\` array. The feedback must explain the commercial impact of the agent's performance, considering both audio and text. Use each metric name exactly as it is written in the rubric. The overall score and call categorisation are calculated from your metric scores using the rubric weights, so score every metric on its own merits; critical metrics fail the whole call when scored low.
+
+Talk ratio, question timing, first offer, first price mention and post-CTA silence are measured from the transcript timestamps and given to you in the **[MEASURED CONVERSATION ANALYTICS]** section. Score those metrics from the measured values and do not estimate them yourself.
+
+${buildRubricPrompt(rubric)}
 
 ---
 **FINAL OUTPUT SECTIONS (Top-level fields):**
 ---
-- **overallScore:** Calculate the average of all individual metric scores.
-- **callCategorisation:** Categorize the call (Excellent, Good, Average, Needs Improvement, Poor) based on the overall score.
 - **callDisposition:** Select the most appropriate call disposition from these standard telecom categories:
   * "Interested" - Customer showed genuine interest and engagement
   * "Not Interested" - Customer clearly declined or showed no interest
@@ -200,7 +144,7 @@ For EACH metric below, provide a score (1-5) and detailed feedback in the \`metr
     - Avoid phrases like "sounds young", "mature voice", "foreign accent", "native speaker"
     - Judge communication clarity, not accent; judge professionalism, not voice characteristics
     
-- **metricScores:** An array containing an object for EACH of the 75+ metrics from the rubric above, with 'metric', 'score', and 'feedback'.
+- **metricScores:** An array containing an object for EACH of the ${metricCount} metrics from the rubric above, with 'metric', 'score', and 'feedback'.
 - **improvementSituations**: Identify 2-4 specific moments in the call. For each situation, you MUST provide:
     - **timeInCall**: The timestamp from the transcript (e.g., "[45 seconds - 58 seconds]").
     - **context**: A brief summary of what was being discussed.
@@ -210,8 +154,9 @@ For EACH metric below, provide a score (1-5) and detailed feedback in the \`metr
 
 Your analysis must be exhaustive for every single point. No shortcuts.
 `;
+};
 
-const textOnlyFallbackPrompt = `You are a world-class telesales performance coach. Analyze the provided call transcript for **content and structure**. You cannot analyze audio tone. Your output must be a valid JSON object.
+const buildTextOnlyFallbackPrompt = (rubric: ScoringRubric) => `You are a world-class telesales performance coach. Analyze the provided call transcript for **content and structure**. You cannot analyze audio tone. Your output must be a valid JSON object.
 
 **TRANSCRIPT FORMAT NOTES:**
 The transcript includes speaker labels: AGENT (company rep), USER (customer), and SYSTEM (IVR, ringing, hold, background noise).
@@ -220,23 +165,11 @@ The transcript includes speaker labels: AGENT (company rep), USER (customer), an
 - Note IVR interactions, hold times, and call quality issues in your summary
 
 **EVALUATION RUBRIC (TEXT-ONLY MODE):**
-Base *only* on the transcript, provide a score (1-5) and detailed feedback for each metric listed below so that the downstream UI still receives dialogue profiling insights.
-
-- **Introduction Quality:** How effective was the opening?
-- **Pitch Adherence:** Did the agent follow the expected script structure?
-- **Needs Discovery:** Did the agent ask good questions to understand the user's situation?
-- **Value Communication:** How well was the product's value communicated in text?
-- **Objection Handling:** How were objections handled based on the dialogue?
-- **Closing Effectiveness:** Was the closing statement clear and effective?
-- **Talk-Listen Ratio:** Estimate the overall balance of speaking time between the agent and user based purely on the transcript volume.
-- **Talk Ratio (Agent vs User):** Provide a numerical score representing whether the agent dominated the conversation or allowed user airtime.
-- **Engagement Duration % (User vs Agent):** Infer engagement by tracking how frequently the user responds and provide a score.
-- **Active Listening Cues:** Did the agent acknowledge or mirror the user's statements?
-- **Questioning Skills (Open vs Closed):** Evaluate the mix and effectiveness of questions asked.
+Base *only* on the transcript, provide a score (1-5) and detailed feedback for each metric listed below so that the downstream UI still receives dialogue profiling insights. Use each metric name exactly as it is written. Metrics that can only be judged from audio are left out. The overall score is calculated from your metric scores. Use the **[MEASURED CONVERSATION ANALYTICS]** section for talk ratio, timing and question-count metrics instead of estimating them.
+
+${buildRubricPrompt(rubric, { textOnly: true })}
 
 **FINAL OUTPUT SECTIONS:**
-- **overallScore:** Average of all metric scores.
-- **callCategorisation:** Categorize the call based on the score.
 - **callDisposition:** Select the most appropriate disposition from standard telecom categories: Interested, Not Interested, Callback Requested, Wrong Number, Voicemail, DNC - Do Not Call, Language Barrier, Busy, No Answer, Already Subscribed, Price Too High, Wants More Information, Switched Off, Invalid Number, Sale Completed, Follow-up Required.
 - **suggestedDisposition**: Suggest a final call disposition (legacy field).
 - **conversionReadiness**: Assess conversion readiness.
@@ -250,7 +183,11 @@ Base *only* on the transcript, provide a score (1-5) and detailed feedback for e
 Your analysis is based only on the transcript. State this limitation in your summary.`;
 
 
-const getContextualPrompt = (input: InternalScoreCallInput, isTextOnly: boolean = false) => `
+const getContextualPrompt = (
+  input: InternalScoreCallInput,
+  isTextOnly: boolean = false,
+  analytics?: ConversationAnalytics
+) => `
 **[CALL CONTEXT]**
 - **Product Name:** ${input.product}
 - **Agent Name (if provided):** ${input.agentName || 'Not Provided'}
@@ -289,6 +226,8 @@ ${input.transcriptOverride}
 \`\`\`
 **[END TRANSCRIPT]**
 
+${analytics ? formatConversationAnalyticsForPrompt(analytics) : ''}
+
 ${!isTextOnly && input.audioDataUri ? `
 **[AUDIO DATA]**
 The audio for this call is provided as a separate input. You must analyze it for tone, sentiment, and pacing.` : `
@@ -306,19 +245,26 @@ const scoreCallFlow = ai.defineFlow(
   async (input: InternalScoreCallInput): Promise<ScoreCallOutput> => {
     console.log("Starting call scoring flow...");
 
+    // Download the recording once, where the host is checked, instead of handing the URL to the model's media download.
+    if (input.audioUrl) {
+      input.audioDataUri = await downloadAudioUrlAsDataUri(input.audioUrl);
+      input.audioUrl = undefined;
+    }
+
     // Generate transcript if not provided
+    let conversationAnalytics: ConversationAnalytics | undefined;
     if (!input.transcriptOverride) {
       console.log("No transcript override provided. Generating transcript from audio...");
-      if (!input.audioDataUri && !input.audioUrl) {
+      if (!input.audioDataUri) {
         console.error("Audio input is missing. Cannot generate transcript.");
         throw new Error("Either transcriptOverride or audio input must be provided for scoring.");
       }
       const transcriptionInput: TranscriptionInput = {
-        audioUrl: input.audioUrl,
         audioDataUri: input.audioDataUri,
       };
       const transcriptionOutput = await transcribeAudio(transcriptionInput);
       console.log("Transcript generated successfully.");
+      conversationAnalytics = computeConversationAnalytics(normalizeTranscript(transcriptionOutput, { source: 'call-scoring' }));
       // Build the transcript string from segments
       input.transcriptOverride = transcriptionOutput.segments.map(segment => {
         const startTime = new Date(segment.startSeconds * 1000).toISOString().substr(11, 8); // HH:MM:SS
@@ -327,8 +273,40 @@ const scoreCallFlow = ai.defineFlow(
       }).join('\n\n');
     } else {
       console.log("Using provided transcript override.");
+      const overrideDoc = normalizeTranscript(input.transcriptOverride, { source: 'call-scoring' });
+      const importedFormat = detectTranscriptFormat(input.transcriptOverride);
+      if (importedFormat) {
+        // Third-party exports are rewritten in the app's own diarized format for the prompt
+        console.log(`Transcript override is a ${TRANSCRIPT_FORMAT_LABELS[importedFormat]} export; converting it.`);
+        input.transcriptOverride = transcriptToDiarizedText(overrideDoc);
+      }
+      conversationAnalytics = computeConversationAnalytics(overrideDoc);
     }
 
+    const rubric = input.rubric ?? getBuiltInRubric(input.product);
+    const deepAnalysisPrompt = buildDeepAnalysisPrompt(rubric);
+    const withRubric = (output: ModelScoreOutput): ScoreCallOutput => {
+      const metricScores = assignRubricCategories(output.metricScores ?? [], rubric).map((score) => ({
+        ...score,
+        measuredValue: conversationAnalytics ? getMeasuredMetricValue(score.metric, conversationAnalytics) : undefined,
+      }));
+      if (metricScores.length === 0) {
+        throw new Error("Model returned no metric scores to calculate the overall score from.");
+      }
+      const breakdown = calculateCallScore(metricScores, rubric);
+      const criticalFlags = breakdown.criticalFailures
+        .map((metric) => `Critical metric failed: ${metric}`)
+        .filter((flag) => !output.redFlags?.includes(flag));
+      return {
+        ...output,
+        ...breakdown,
+        metricScores,
+        redFlags: [...(output.redFlags ?? []), ...criticalFlags],
+        rubric: rubricReference(rubric),
+        conversationAnalytics,
+      };
+    };
+
     // Use the robust retry manager that will keep trying until success
     return await callScoringRetryManager.execute(async (attempt: number) => {
       console.log(`Call Scoring Attempt #${attempt}`);
@@ -337,10 +315,7 @@ const scoreCallFlow = ai.defineFlow(
       const textOnlyModel = AI_MODELS.TEXT_ONLY;
       let audioMediaReference: { url: string; contentType?: string } | undefined = undefined;
 
-      if (input.audioUrl) {
-          console.log(`[Attempt ${attempt}] Using provided audio URL: ${input.audioUrl}`);
-          audioMediaReference = { url: input.audioUrl };
-      } else if (input.audioDataUri) {
+      if (input.audioDataUri) {
           console.log(`[Attempt ${attempt}] Processing audio data URI to get Gemini reference...`);
           try {
               // We resolve the data URI to a Gemini-compatible reference.
@@ -364,7 +339,7 @@ const scoreCallFlow = ai.defineFlow(
 
           const promptParts: PromptPart[] = [
               { text: deepAnalysisPrompt },
-              { text: getContextualPrompt(input) }
+              { text: getContextualPrompt(input, false, conversationAnalytics) }
           ];
 
           // Only include audio data if it's available.
@@ -394,11 +369,11 @@ const scoreCallFlow = ai.defineFlow(
 
           // Success with deep analysis - ensure transcript is passed through.
           console.log(`[Attempt ${attempt}] Successfully generated deep analysis.`);
-          return {
-            ...output,
+          return withRubric({
+            ...(output as DeepAnalysisOutput),
             transcript: input.transcriptOverride!,
             transcriptAccuracy: "N/A (pre-transcribed)", // Not assessed here
-          };
+          });
 
       } catch (primaryError: unknown) {
           const primaryMessage = primaryError instanceof Error ? primaryError.message : String(primaryError);
@@ -409,7 +384,7 @@ const scoreCallFlow = ai.defineFlow(
               console.log(`[Attempt ${attempt}] Trying deep analysis with fallback audio model: ${fallbackAudioModel}. Audio available: ${!!audioMediaReference}`);
               const promptParts: PromptPart[] = [
                   { text: deepAnalysisPrompt },
-                  { text: getContextualPrompt(input) }
+                  { text: getContextualPrompt(input, false, conversationAnalytics) }
               ];
 
               if (audioMediaReference) {
@@ -435,11 +410,11 @@ const scoreCallFlow = ai.defineFlow(
               }
 
               console.log(`[Attempt ${attempt}] Successfully generated deep analysis with fallback audio model.`);
-              return {
-                ...output,
+              return withRubric({
+                ...(output as DeepAnalysisOutput),
                 transcript: input.transcriptOverride!,
                 transcriptAccuracy: "N/A (pre-transcribed)",
-              };
+              });
 
           } catch (fallbackAudioError: unknown) {
               const fallbackAudioMessage = fallbackAudioError instanceof Error ? fallbackAudioError.message : String(fallbackAudioError);
@@ -451,8 +426,8 @@ const scoreCallFlow = ai.defineFlow(
                 const { output, usage } = await ai.generate({
                     model: textOnlyModel,
                     prompt: [
-                      { text: textOnlyFallbackPrompt },
-                      { text: getContextualPrompt(input, true) }
+                      { text: buildTextOnlyFallbackPrompt(rubric) },
+                      { text: getContextualPrompt(input, true, conversationAnalytics) }
                     ],
                     output: { schema: TextOnlyFallbackOutputSchema, format: 'json' },
                     config: { temperature: 0.25 },
@@ -471,13 +446,13 @@ const scoreCallFlow = ai.defineFlow(
 
                 console.log(`[Attempt ${attempt}] Successfully generated analysis with text-only fallback.`);
                 // Ensure transcript is passed through on fallback as well.
-                return {
+                return withRubric({
                   ...fallbackOutput,
                   improvementSituations: [],
                   summary: fallbackSummary,
                   transcript: input.transcriptOverride!,
                   transcriptAccuracy: "N/A (pre-transcribed)",
-                };
+                });
               } catch (textOnlyError: unknown) {
                 console.error(`[Attempt ${attempt}] CRITICAL FAILURE: All models, including text-only fallback, have failed.`);
                 console.error(`[Attempt ${attempt}] Primary Error:`, primaryError);
@@ -1,14 +1,11 @@
 /**
  * @fileOverview AI-powered telecalling performance data analysis.
- * This AI acts as an expert data analyst. It takes a detailed user prompt describing their data files (Excel, CSV, etc.),
- * their likely structure (including potential messiness), and their specific analytical goals. It then performs the analysis based on a comprehensive
- * internal prompt and outputs a structured report, simulating advanced data cleaning and interpretation.
- *
- * If a small sample of a text-based file (CSV/TXT) is provided via the input, the AI will also attempt
- * to derive direct, concrete insights from that sample, in addition to the main analysis.
- *
- * The AI does NOT directly process or perform calculations on the internal content of large binary files like Excel.
- * Its analysis is based on the user's descriptions, file metadata, and any provided text samples.
+ * CSV, XLSX/XLS and ZIP-of-CSV uploads are parsed on the server (`@/lib/data-analysis`):
+ * their columns are profiled and the key metrics (connection, conversion and follow-up
+ * rates, revenue, call duration, top agent, monthly volume) are computed from the rows.
+ * The AI only receives those aggregates, plus the user's goals, and writes the narrative
+ * around them, so the numbers in the report are real. Files that cannot be parsed (PDF,
+ * DOCX, ...) are still analysed from the user's description, as before.
  *
  * - analyzeData - a function that generates an analysis report.
  * - DataAnalysisInput - The input type for the function.
@@ -18,21 +15,30 @@
 import {ai} from '@/ai/genkit';
 import { AI_MODELS } from '@/ai/config/models';
 import { DataAnalysisInputSchema, DataAnalysisReportSchema } from '@/types';
-import type { DataAnalysisInput, DataAnalysisReportOutput } from '@/types';
+import type { DataAnalysisInput, DataAnalysisReportOutput, KeyMetric } from '@/types';
+import { formatDatasetSummary, ingestDataFiles, type DataIngestionResult, type UploadedDataFile } from '@/lib/data-analysis';
 
 const dataAnalysisReportPrompt = ai.definePrompt<DataAnalysisInput, DataAnalysisReportOutput>({
   name: 'dataAnalysisReportPrompt',
   input: {schema: DataAnalysisInputSchema},
-  output: {schema: DataAnalysisReportSchema},
-  prompt: `You are an advanced Excel analyst AI, specializing in telesales and subscription operations. Your job is not just to describe uploaded Excel files — your job is to intelligently clean, reformat, and analyze business data (as described by the user) for actionable insights.
+  output: {schema: DataAnalysisReportSchema.omit({ dataProfile: true })},
+  prompt: `You are an advanced Excel analyst AI, specializing in telesales and subscription operations. Your job is not just to describe uploaded Excel files — your job is to interpret business data for actionable insights.
 
-User's File Context (Names & Types ONLY - you will NOT see the content of binary files like Excel/PDF):
+User's Files:
 {{#each fileDetails}}
 - File Name: {{fileName}} (Type: {{fileType}})
 {{/each}}
 
-CRITICAL: User's Detailed Data Description & Analysis Prompt:
-This is your PRIMARY and ESSENTIAL source of information about the data structure, contents (including any messiness like misaligned headers, merged rows, nulls like "NA" or "—", specific date formats), specific file mappings (e.g., 'File sales_oct.xlsx is the Monthly Revenue Tracker for Oct.'), decoding rules for coded fields (e.g., 'NR' = Not Reachable, 'CALLB' = Call Back), and the user's analytical goals for this run. Your entire analysis of complex files like Excel hinges on the detail provided here.
+{{#if datasetSummary}}
+PARSED DATA (computed by the system directly from the CSV/XLSX/ZIP files above; every number here is exact):
+This lists each parsed table with its column profiles (type, detected role such as agent/outcome/duration/revenue/date, filled and missing counts, statistics, top values), the COMPUTED KPIs, and breakdowns by agent, month, cohort and source. Outcomes were classified from disposition codes: not reachable/busy/no answer codes (e.g. 'NR') count as not connected, call-back codes (e.g. 'CALLB') as follow-ups, and interested/subscribed codes (e.g. 'INT') as conversions.
+"""
+{{{datasetSummary}}}
+"""
+{{/if}}
+
+User's Analysis Goals & Data Notes:
+This states what the user wants from this run (e.g., 'Focus the trend analysis on Q1', 'Identify top agents'), decoding rules for coded fields, and a description of any file that was NOT parsed (PDF, DOCX, ...). {{#if datasetSummary}}Where it conflicts with the PARSED DATA, trust the PARSED DATA.{{else}}It is your only source of information about the data, so your analysis hinges on the detail provided here.{{/if}}
 """
 {{{userAnalysisPrompt}}}
 """
@@ -44,57 +50,50 @@ Small Sampled Text Content (from FIRST provided CSV/TXT file ONLY, use for direc
 """
 {{/if}}
 
+{{#if datasetSummary}}
+Your Analytical Process (on the PARSED DATA):
+
+1.  **Data Reconstruction**: In \`dataReconstructionAndNormalizationSummary\`, summarise what the parser found: the header row of each table, rows it skipped, columns with many missing values, and the type of each key column. Do not describe cleaning steps that were not done.
+
+2.  **Smart Table Recognition**: In \`smartTableRecognitionSummary\`, state what each table is (CDR, Daily MIS, Source Dump, Monthly Tracker, ...) based on its columns and detected roles, and which columns drove each KPI.
+
+3.  **KPIs**: Copy every COMPUTED KPI into \`keyMetrics\` with exactly the same \`metricName\` and \`value\`, and add a short \`insight\` for each. Do NOT recompute, round differently, or add metrics whose numbers are not in the PARSED DATA. If a KPI could not be computed (e.g., no outcome or revenue column was detected), say so in the insight of the most related metric or in the analysis sections.
+
+4.  **Insights**: Write \`timeSeriesTrends\` from the BY MONTH tables, \`comparativePerformance\` from the BY AGENT / BY COHORT / BY SOURCE tables, and \`useCaseSpecificInsights\` on funnel leakages, follow-up gaps and red flags (e.g., a high share of very short calls). Every number you quote must appear in, or be directly derived from, the PARSED DATA. Suggest fixes (agent coaching, lead rerouting, incentive changes) in \`recommendations\`, and address the user's goals.
+
+5.  **directInsightsFromSampleText**: Omit this field.
+{{else}}
 Your Analytical Process (Simulated based on User's Description):
-Based *solely* on the user's "Detailed Data Description & Analysis Prompt" and the "File Context" (and "Sampled Text Content" if available), generate a comprehensive analysis report. You will *act as if* you have performed the following steps on the data as described by the user. Explicitly reference how the user's detailed prompt guided your simulation for steps 1 and 2.
-
-1.  **Data Reconstruction (Simulated Pre-analysis Cleanup)**:
-    *   Based on the user's description of their data (e.g., any mentioned malformed tables, misaligned headers, merged rows, repeated titles, varied column formats, hidden headers, merged agent names/cohorts, nulls like "NA", "—"), explain briefly in the \`dataReconstructionAndNormalizationSummary\` section how you would hypothetically identify and correct these issues. For example, if the user states "headers are in row 3 for SheetX", mention how you'd skip initial rows based on this. If they describe specific null values, explain how you'd handle them based on their input.
-
-2.  **Table Normalization (Simulated)**:
-    *   Describe in the \`dataReconstructionAndNormalizationSummary\` how you would reconstruct each described sheet or data source into clean, properly labeled tables. For example, based on the user stating "Sheet 'Agent Data' has columns 'Agent', 'Sales', 'Calls'", explain you'd form a conceptual clean dataframe for agent-level data.
-
-3.  **Smart Table Recognition (Based on User's Description)**:
-    *   In the \`smartTableRecognitionSummary\` section, explain how you are inferring the purpose of different data tables/sheets described by the user. For instance, if the user describes columns like "Call Status", "Duration", "Follow-up", state you're treating it as CDR data. If they mention "Revenue", "Agent", "Login Hours", you'd treat it as Daily MIS, and so on for "Cohort", "Lead ID", "Source" (Source Dump) or month names + revenue (Monthly Tracker). Explicitly mention if the user's mapping of a file (e.g., 'File sales_oct.xlsx is the Monthly Revenue Tracker for Oct') helped your recognition.
-
-4.  **KPI Calculation (Based on User's Description and Assumed Clean Data)**:
-    *   From the *assumed* clean tables (derived from the user's description and your hypothetical cleaning), calculate or explain how you would calculate key KPIs. Populate the \`keyMetrics\` section with these. Use these definitions if applicable and if the user's data description supports them:
-        *   Conversion Rate = (Interested + Subscribed outcomes) / Total leads or Total calls (Clarify which based on user's description of available fields like 'Lead ID' vs 'Call ID')
-        *   Avg Revenue per Call = Total Revenue / Connected Calls (Specify how 'Connected Calls' is determined, e.g., based on user-defined outcome codes for connection)
-        *   Lead Follow-up Rate = (# of CALLB or follow-up attempts) / Total Leads (Relies on user defining follow-up codes)
-        *   Connection Rate = (# Connected outcomes like 'INT', 'CALLB', 'ALREAD') / Total Calls (Relies on user defining connected outcome codes)
-    *   If revenue is missing from the description, state you are inferring performance using proxy indicators like intent outcome distribution (based on user-defined outcome codes).
-    *   Mention how you might rank agents, cohorts, or sources by performance in the \`detailedAnalysis.comparativePerformance\` section.
-
-5.  **Insight Generation (From Assumed Clean Data)**:
-    *   Populate the \`detailedAnalysis\` sections (\`timeSeriesTrends\`, \`comparativePerformance\`, \`useCaseSpecificInsights\`) with insights derived from your simulated analysis of the (hypothetically) cleaned data.
-    *   Output clean summaries per conceptual table within these sections if appropriate.
-    *   Highlight top trends, bottlenecks, and agent or cohort gaps. Refer to user-defined goals (e.g., "Focus on Q1 trends") if provided.
-    *   Suggest fixes (e.g., agent coaching, lead rerouting, incentive misalignment) in the \`recommendations\` section.
-    *   Be proactive: if something seems off (e.g., very low call duration *as described by the user in their prompt regarding a 'Duration' column*), flag it as a red flag and suggest possible causes.
-
-6.  **Output Style & Structure (Strictly adhere to 'DataAnalysisReportSchema')**:
-    *   Be sharp, tabular (use markdown for tables within content strings if helpful), and insight-driven.
-    *   Use bullet points or markdown tables for clarity.
-    *   Always base insights on the (hypothetically) reconstructed, clean version of the data as understood from the user's prompt.
-    *   Do not just say “value cannot be determined” unless data is truly missing or unreadable from the user's description.
-    *   **reportTitle**: A comprehensive title.
-    *   **executiveSummary**: Critical findings. Explain what the data *means*.
-    *   **directInsightsFromSampleText (if applicable)**: 2-3 specific insights *directly* from 'sampledFileContent'.
-    *   **keyMetrics**: Quantified KPIs.
-    *   **detailedAnalysis**: Include \`dataReconstructionAndNormalizationSummary\`, \`smartTableRecognitionSummary\`, then the analytical findings.
-    *   **chartsOrTablesSuggestions (Optional)**: 1-2 suggestions.
-    *   **recommendations**: Actionable next steps.
-    *   **limitationsAndDisclaimer**: CRITICALLY IMPORTANT - Always include the standard disclaimer: "This AI-generated analysis is based on the user's description of their data and any provided text samples. The AI has NOT directly processed or validated the content of complex binary files (Excel, DOCX, PDF, ZIP). The user is responsible for verifying all findings against their actual full datasets and business context. The accuracy and depth of this analysis are directly proportional to the detail provided in the user's input prompt."
+No files could be parsed, so base the report *solely* on the user's description and the file names. Act as if you have performed the following steps on the data as described, and say so.
+
+1.  **Data Reconstruction & Table Normalization (Simulated)**: In \`dataReconstructionAndNormalizationSummary\`, explain how you would clean and reconstruct the tables the user described (misaligned headers, merged rows, nulls like "NA" or "—").
+
+2.  **Smart Table Recognition**: In \`smartTableRecognitionSummary\`, explain how you are inferring the purpose of each described table (e.g., "Call Status", "Duration" → CDR; "Revenue", "Agent", "Login Hours" → Daily MIS; "Cohort", "Lead ID", "Source" → Source Dump).
+
+3.  **KPI Calculation**: Populate \`keyMetrics\` with the KPIs the description supports, using these definitions: Conversion Rate = (Interested + Subscribed outcomes) / total calls; Connection Rate = connected outcomes / total calls; Lead Follow-up Rate = call-back outcomes / total leads; Avg Revenue per Call = Total Revenue / Connected Calls. Where a value cannot be quantified from the description, state the formula and the columns it would use instead of inventing a number.
+
+4.  **Insight Generation**: Populate \`detailedAnalysis\` and \`recommendations\` from the described data, and flag anything that seems off.
+{{#if sampledFileContent}}
+
+5.  **directInsightsFromSampleText**: 2-3 specific insights *directly* from the sampled text content.
+{{/if}}
+{{/if}}
+
+Output Style & Structure (Strictly adhere to the output schema):
+*   Be sharp, tabular (use markdown tables within content strings if helpful), and insight-driven.
+*   **reportTitle**: A comprehensive title.
+*   **executiveSummary**: Critical findings. Explain what the data *means*.
+*   **chartsOrTablesSuggestions (Optional)**: 1-2 suggestions, naming the columns they would use.
+*   **limitationsAndDisclaimer**: One or two sentences on the limits of this data (e.g., missing columns, unparsed files). The system adds its own disclaimer.
 
 Guiding Principles:
 *   **Interpret, Don't Just Describe**: Explain what the data *means* for the business.
-*   **Specificity**: Provide actual numbers and specific examples where possible, *based on the user's textual description and sample data*.
-*   **Relevance**: Focus on telesales and subscription operations if user context implies it.
+*   **Specificity**: Quote actual numbers and specific agents, cohorts or months from the data.
+*   **Relevance**: Focus on telesales and subscription operations if the data implies it.
 *   **Actionable**: Recommendations should be practical.
-*   **Based on User's Text**: Your entire analysis is constrained by the textual information provided by the user. Do not invent data or structures not described. Your ability to perform well on "messy" data depends entirely on how well the user describes that messiness and the desired clean state.
-*   **Assume User Description is Accurate**: Trust the user's prompt about their data's structure and content for your analysis.
+*   **No Invented Data**: Do not invent numbers, columns or structures that are not in the PARSED DATA or the user's description.
 
-If the user's prompt is insufficient to perform a section of the analysis meaningfully, state that clearly (e.g., "Time-series trend analysis cannot be performed as date information or relevant metrics were not described in the prompt."). Do NOT ask follow-up questions. Generate the best possible report based on the information given.
+If the data is insufficient to perform a section of the analysis meaningfully, state that clearly (e.g., "Time-series trend analysis cannot be performed as no date column was found."). Do NOT ask follow-up questions. Generate the best possible report based on the information given.
 `,
   model: AI_MODELS.MULTIMODAL_PRIMARY, // Using a powerful model for this complex task
   config: {
@@ -102,6 +101,37 @@ If the user's prompt is insufficient to perform a section of the analysis meanin
   }
 });
 
+const DESCRIPTION_ONLY_DISCLAIMER = "This AI-generated analysis is based on the user's description of their data and any provided text samples. The AI has NOT directly processed or validated the content of complex binary files (Excel, DOCX, PDF, ZIP). The user is responsible for verifying all findings against their actual full datasets and business context. The accuracy and depth of this analysis are directly proportional to the detail provided in the user's input prompt.";
+
+function parsedDataDisclaimer({ profile }: DataIngestionResult): string {
+  const rows = profile.tables.reduce((total, table) => total + table.rowCount, 0);
+  const unparsed = profile.files.filter((file) => file.status !== 'parsed').map((file) => file.fileName);
+  return `Key metrics and the data profile were computed directly from ${profile.tables.length} parsed table(s) (${rows.toLocaleString('en-US')} rows)` +
+    (unparsed.length > 0 ? `; ${unparsed.join(', ')} could not be parsed and were considered from your description only` : '') +
+    '. The narrative sections are AI-generated from those figures; verify them against your business context before acting on them.';
+}
+
+/** Computed metrics win; the model only contributes its commentary on them. */
+function mergeKeyMetrics(computed: KeyMetric[], generated: KeyMetric[]): KeyMetric[] {
+  const byName = new Map(generated.map((metric) => [metric.metricName.trim().toLowerCase(), metric]));
+  return computed.map((metric) => {
+    const match = byName.get(metric.metricName.toLowerCase());
+    return { ...metric, trendOrComparison: metric.trendOrComparison ?? match?.trendOrComparison, insight: match?.insight };
+  });
+}
+
+function finalizeReport(report: DataAnalysisReportOutput, ingestion: DataIngestionResult | null): DataAnalysisReportOutput {
+  const parsed = ingestion && ingestion.profile.tables.length > 0 ? ingestion : null;
+  const disclaimer = parsed ? parsedDataDisclaimer(parsed) : DESCRIPTION_ONLY_DISCLAIMER;
+  const limitations = report.limitationsAndDisclaimer?.trim() ?? '';
+  return {
+    ...report,
+    keyMetrics: parsed && parsed.keyMetrics.length > 0 ? mergeKeyMetrics(parsed.keyMetrics, report.keyMetrics) : report.keyMetrics,
+    dataProfile: ingestion?.profile,
+    limitationsAndDisclaimer: limitations.includes(disclaimer) ? limitations : [limitations, disclaimer].filter(Boolean).join(' '),
+  };
+}
+
 const dataAnalysisReportFlow = ai.defineFlow(
   {
     name: 'dataAnalysisReportFlow',
@@ -109,19 +139,18 @@ const dataAnalysisReportFlow = ai.defineFlow(
     outputSchema: DataAnalysisReportSchema,
   },
   async (input: DataAnalysisInput): Promise<DataAnalysisReportOutput> => {
-    const defaultDisclaimer = "This AI-generated analysis is based on the user's description of their data and any provided text samples. The AI has NOT directly processed or validated the content of complex binary files (Excel, DOCX, PDF, ZIP). The user is responsible for verifying all findings against their actual full datasets and business context. The accuracy and depth of this analysis are directly proportional to the detail provided in the user's input prompt.";
     try {
-      if (!input.userAnalysisPrompt || input.userAnalysisPrompt.length < 50) {
+      if (!input.datasetSummary && (!input.userAnalysisPrompt || input.userAnalysisPrompt.length < 50)) {
         return {
             reportTitle: "Data Analysis Not Performed",
-            executiveSummary: "The user's analysis prompt was too short or missing. Please provide a detailed description of your data and analysis goals (min 50 characters).",
+            executiveSummary: "None of the files could be parsed (only CSV, XLSX/XLS and ZIP archives of them are), and the analysis prompt was too short to work from. Upload a spreadsheet, or describe your data and analysis goals in detail (min 50 characters).",
             keyMetrics: [],
             detailedAnalysis: {
-                dataReconstructionAndNormalizationSummary: "Input prompt insufficient. Describe your data's structure, sheets, columns, and any known issues.",
-                smartTableRecognitionSummary: "Input prompt insufficient. Describe the purpose of your files/sheets."
+                dataReconstructionAndNormalizationSummary: "No parsed data and insufficient prompt. Describe your data's structure, sheets, columns, and any known issues.",
+                smartTableRecognitionSummary: "No parsed data and insufficient prompt. Describe the purpose of your files/sheets."
             },
-            recommendations: [{ area: "Input", recommendation: "Provide a more detailed analysis prompt.", justification: "Prompt was insufficient." }],
-            limitationsAndDisclaimer: `Analysis not performed due to insufficient input. ${defaultDisclaimer}`,
+            recommendations: [{ area: "Input", recommendation: "Upload CSV/XLSX files or provide a more detailed analysis prompt.", justification: "No data to analyse." }],
+            limitationsAndDisclaimer: "Analysis not performed due to insufficient input.",
         };
       }
 
@@ -129,10 +158,6 @@ const dataAnalysisReportFlow = ai.defineFlow(
       if (!output) {
         throw new Error("AI failed to generate data analysis report.");
       }
-      // Ensure the disclaimer is always present and emphasizes prompt quality.
-      if (!output.limitationsAndDisclaimer || !output.limitationsAndDisclaimer.includes("proportional to the detail")) {
-          output.limitationsAndDisclaimer = defaultDisclaimer;
-      }
       return output;
     } catch (err) {
       const error = err as Error;
@@ -152,21 +177,32 @@ const dataAnalysisReportFlow = ai.defineFlow(
         chartsOrTablesSuggestions: [],
         recommendations: [{ area: "System Error", recommendation: `Analysis failed: ${error.message}`, justification: "AI service error." }],
         directInsightsFromSampleText: input.sampledFileContent ? "Sample not processed due to error." : undefined,
-        limitationsAndDisclaimer: `Error occurred during analysis. ${defaultDisclaimer}`,
+        limitationsAndDisclaimer: "Error occurred during analysis.",
       };
     }
   }
 );
 
-export async function analyzeData(input: DataAnalysisInput): Promise<DataAnalysisReportOutput> {
-  const defaultDisclaimer = "This AI-generated analysis is based on the user's description of their data and any provided text samples. The AI has NOT directly processed or validated the content of complex binary files (Excel, DOCX, PDF, ZIP). The user is responsible for verifying all findings against their actual full datasets and business context. The accuracy and depth of this analysis are directly proportional to the detail provided in the user's input prompt.";
+/**
+ * `files` are the uploaded files themselves; CSV, XLSX/XLS and ZIP archives of them
+ * are parsed and the rest are known to the model by `input.fileDetails` only.
+ */
+export async function analyzeData(input: DataAnalysisInput, files: UploadedDataFile[] = []): Promise<DataAnalysisReportOutput> {
+  let ingestion: DataIngestionResult | null = null;
   try {
-    return await dataAnalysisReportFlow(input);
+    ingestion = files.length > 0 ? await ingestDataFiles(files) : null;
+    const parsed = ingestion && ingestion.profile.tables.length > 0;
+    const report = await dataAnalysisReportFlow({
+      ...input,
+      datasetSummary: parsed && ingestion ? formatDatasetSummary(ingestion) : undefined,
+      sampledFileContent: parsed ? undefined : input.sampledFileContent,
+    });
+    return finalizeReport(report, ingestion);
   } catch (e) {
     const error = e as Error;
     console.error("Catastrophic error calling dataAnalysisReportFlow:", error);
     // Fallback structure for catastrophic errors
-    return {
+    return finalizeReport({
         reportTitle: "Critical System Error in Data Analysis",
         executiveSummary: `A server-side error occurred: ${error.message}. Please check server logs.`,
         keyMetrics: [{metricName: "System Error", value:"N/A", insight: "Critical failure."}],
@@ -180,7 +216,7 @@ export async function analyzeData(input: DataAnalysisInput): Promise<DataAnalysi
         chartsOrTablesSuggestions: [],
         recommendations: [{ area: "System Error", recommendation: `Critical failure: ${error.message}`, justification: "System error." }],
         directInsightsFromSampleText: input.sampledFileContent ? "Sample not processed due to critical error." : undefined,
-        limitationsAndDisclaimer: `Critical error occurred. ${defaultDisclaimer}`,
-    };
+        limitationsAndDisclaimer: "Critical error occurred.",
+    }, ingestion);
   }
 }
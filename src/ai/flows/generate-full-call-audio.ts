@@ -1,16 +1,18 @@
 /**
- * @fileOverview A flow to generate a single audio file from a conversation history.
- * It synthesizes speech for each AI turn and silences for user turns, then concatenates them.
- * This version uses the client-side TTS utility for generation.
+ * @fileOverview A flow to assemble a single recording from a conversation history.
+ * Each turn's audio is decoded, resampled to a common rate and concatenated in
+ * order with a configurable gap between turns (`@/lib/audio`). The result is one
+ * stereo WAV with the agent on the left channel and the customer on the right.
+ * Only WAV and raw PCM turn audio can be decoded; other turns are kept in the
+ * timeline as silence and reported in `segments`.
  */
 
 import { ai } from '@/ai/genkit';
+import { mixCallAudio } from '@/lib/audio';
 import { GenerateFullCallAudioInputSchema, GenerateFullCallAudioOutputSchema } from '@/types';
 import type { GenerateFullCallAudioInput, GenerateFullCallAudioOutput } from '@/types';
 
 
-// This flow is now a placeholder as TTS is handled client-side.
-// The logic is kept for future server-side enhancements if needed.
 const generateFullCallAudioFlow = ai.defineFlow(
   {
     name: 'generateFullCallAudioFlow',
@@ -19,29 +21,28 @@ const generateFullCallAudioFlow = ai.defineFlow(
   },
   async (input: GenerateFullCallAudioInput): Promise<GenerateFullCallAudioOutput> => {
     await Promise.resolve();
-    // Since TTS is client-side, this flow will just return a placeholder or error.
-    // In a real server-side implementation, this would involve complex audio processing.
-    
-    // In a real implementation, you would iterate through input.conversationHistory,
-    // call a TTS service for each 'AI' turn, generate silence for 'User' turns,
-    // and concatenate the audio files.
-    
-    // Instead, we will simulate by concatenating existing audio URIs if they exist.
-    // This part of the logic is complex and requires server-side libraries for audio manipulation (e.g., ffmpeg),
-    // which are not available in this environment. So we will return the first available audio URI.
-    
-    const firstAudioTurn = input.conversationHistory?.find(t => t.audioDataUri && t.speaker === 'AI');
-    
-    if(firstAudioTurn?.audioDataUri) {
-        // This is a simplified approach. A real implementation would concatenate all audio segments.
-        return {
-            audioDataUri: firstAudioTurn.audioDataUri,
-        }
+    const turns = input.conversationHistory ?? [];
+    if (turns.length === 0) {
+      return {
+        audioDataUri: "",
+        errorMessage: "No conversation turns were provided to generate a full recording.",
+      };
     }
-    
-    return {
+
+    const mix = mixCallAudio(turns, { sampleRate: input.sampleRate, interTurnGapMs: input.interTurnGapMs });
+    if (mix.mixedTurns === 0) {
+      const reasons = [...new Set(mix.segments.map(segment => segment.note).filter(Boolean))];
+      return {
         audioDataUri: "",
-        errorMessage: "No audio was found in the conversation turns to generate a full recording.",
+        segments: mix.segments,
+        errorMessage: `No decodable audio was found in the conversation turns to generate a full recording. ${reasons.join(' ')}`.trim(),
+      };
+    }
+
+    return {
+        audioDataUri: `data:audio/wav;base64,${Buffer.from(mix.wav).toString('base64')}`,
+        durationSeconds: mix.durationSeconds,
+        segments: mix.segments,
     };
   }
 );
@@ -9,6 +9,7 @@ import {ai} from '@/ai/genkit';
 import { AI_MODELS } from '@/ai/config/models';
 import { GeneratePitchInputSchema, GeneratePitchOutputSchema } from '@/types';
 import type { GeneratePitchInput, GeneratePitchOutput } from '@/types';
+import { groundKnowledgeContext, type KnowledgeRetrievalOptions } from '@/lib/knowledge-retrieval';
 
 const PITCH_PROMPT_TEMPLATE = `You are a world-class sales agent. Your goal is to be empathetic, persuasive, and clear, using the provided KB to drive conversion. Your responses must be of the absolute highest quality.
 
@@ -72,7 +73,7 @@ Generate the pitch.
 const generatePitchPrompt = ai.definePrompt<GeneratePitchInput, GeneratePitchOutput>({
   name: 'generatePitchPrompt',
   input: {schema: GeneratePitchInputSchema},
-  output: {schema: GeneratePitchOutputSchema},
+  output: {schema: GeneratePitchOutputSchema.omit({ sourcesUsed: true })},
   prompt: PITCH_PROMPT_TEMPLATE,
   model: AI_MODELS.COST_EFFICIENT, // Use cost-efficient model for pitch generation
   config: { temperature: 0.4 },
@@ -81,7 +82,7 @@ const generatePitchPrompt = ai.definePrompt<GeneratePitchInput, GeneratePitchOut
 const generatePitchPromptFallback = ai.definePrompt<GeneratePitchInput, GeneratePitchOutput>({
   name: 'generatePitchPromptFallback',
   input: {schema: GeneratePitchInputSchema},
-  output: {schema: GeneratePitchOutputSchema},
+  output: {schema: GeneratePitchOutputSchema.omit({ sourcesUsed: true })},
   prompt: PITCH_PROMPT_TEMPLATE,
   model: AI_MODELS.MULTIMODAL_PRIMARY, // Only use better model as fallback
   config: { temperature: 0.35 },
@@ -139,7 +140,32 @@ const generatePitchFlow = ai.defineFlow(
 );
 
 
-export async function generatePitch(input: GeneratePitchInput): Promise<GeneratePitchOutput> {
+/** Pitches draw on several kinds of KB content, so they retrieve more passages than single-question flows. */
+const PITCH_RETRIEVAL_TOP_K = 10;
+
+export async function generatePitch(
+  input: GeneratePitchInput,
+  options: KnowledgeRetrievalOptions = {}
+): Promise<GeneratePitchOutput> {
+  const grounded = await groundKnowledgeContext({
+    workspaceId: options.workspaceId,
+    product: input.product,
+    queries: [
+      [input.product, input.customerCohort, input.salesPlan, input.offer].filter(Boolean).join(' '),
+      `${input.product} product description key benefits features`,
+      `${input.product} pricing plans offers discounts ${input.salesPlan ?? ''}`,
+      `${input.product} sales pitch structure objections rebuttals`,
+    ],
+    baseContext: input.knowledgeBaseContext,
+    topK: PITCH_RETRIEVAL_TOP_K,
+  });
+  if (!grounded) return generateUngroundedPitch(input);
+
+  const output = await generateUngroundedPitch({ ...input, knowledgeBaseContext: grounded.knowledgeBaseContext });
+  return { ...output, sourcesUsed: grounded.sourcesUsed };
+}
+
+async function generateUngroundedPitch(input: GeneratePitchInput): Promise<GeneratePitchOutput> {
   const parseResult = GeneratePitchInputSchema.safeParse(input);
   if (!parseResult.success) {
     console.error("Invalid input for generatePitch:", parseResult.error.format());
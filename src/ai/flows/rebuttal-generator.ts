@@ -11,12 +11,13 @@ import {ai} from '@/ai/genkit';
 import { AI_MODELS } from '@/ai/config/models';
 import { GenerateRebuttalInputSchema, GenerateRebuttalOutputSchema } from '@/types';
 import type { GenerateRebuttalInput, GenerateRebuttalOutput } from '@/types';
+import { groundKnowledgeContext, type KnowledgeRetrievalOptions } from '@/lib/knowledge-retrieval';
 
 
 const generateRebuttalPrompt = ai.definePrompt<GenerateRebuttalInput, GenerateRebuttalOutput>({
     name: 'generateRebuttalPrompt',
     input: { schema: GenerateRebuttalInputSchema },
-    output: { schema: GenerateRebuttalOutputSchema },
+    output: { schema: GenerateRebuttalOutputSchema.omit({ sourcesUsed: true }) },
     prompt: `You are a world-class sales coach and linguist, specializing in crafting perfect rebuttals for telesales agents selling {{{product}}} subscriptions. Your responses must be of the absolute highest quality: crystal-clear, empathetic, strategic, and self-explanatory based on the context.
 
 **Customer's Objection:** "{{{objection}}}"
@@ -174,7 +175,24 @@ const generateRebuttalFlow = ai.defineFlow(
 );
 
 
-export async function generateRebuttal(input: GenerateRebuttalInput): Promise<GenerateRebuttalOutput> {
+export async function generateRebuttal(
+  input: GenerateRebuttalInput,
+  options: KnowledgeRetrievalOptions = {}
+): Promise<GenerateRebuttalOutput> {
+  const grounded = await groundKnowledgeContext({
+    workspaceId: options.workspaceId,
+    product: input.product,
+    queries: [input.objection],
+    baseContext: input.knowledgeBaseContext,
+  });
+  if (grounded) {
+    const output = await generateUngroundedRebuttal({ ...input, knowledgeBaseContext: grounded.knowledgeBaseContext });
+    return { ...output, sourcesUsed: grounded.sourcesUsed };
+  }
+  return generateUngroundedRebuttal(input);
+}
+
+async function generateUngroundedRebuttal(input: GenerateRebuttalInput): Promise<GenerateRebuttalOutput> {
   try {
     const parseResult = GenerateRebuttalInputSchema.safeParse(input);
     if (!parseResult.success) {
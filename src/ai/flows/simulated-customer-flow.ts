@@ -0,0 +1,161 @@
+/**
+ * @fileOverview Plays the customer's side of a voice sales call for practice and
+ * regression runs. The persona policy in '@/lib/simulated-customer' decides what the
+ * customer does each turn; scripted objections with a fixed line and hang-ups are
+ * returned as-is, everything else is voiced by a model in the persona's words.
+ * - generateSimulatedCustomerTurn - Produces the customer's reply to the agent's last turn.
+ */
+
+import { ai } from '@/ai/genkit';
+import { AI_MODELS } from '@/ai/config/models';
+import { z } from 'zod';
+import {
+  SIMULATED_CUSTOMER_INTENTS,
+  SimulatedCustomerTurnInputSchema,
+  SimulatedCustomerTurnOutputSchema,
+} from '@/types';
+import type { ConversationTurn, SimulatedCustomerIntent, SimulatedCustomerTurnInput, SimulatedCustomerTurnOutput } from '@/types';
+import {
+  createSimulatedCustomerState,
+  planSimulatedCustomerTurn,
+  recordSimulatedCustomerReply,
+  type SimulatedCustomerDirective,
+} from '@/lib/simulated-customer';
+
+const customerReplyPromptText = `You are role-playing a customer who has picked up a sales call about {{{productDisplayName}}}. Stay in character; you are NOT an assistant.
+
+**Who you are:** {{{personaName}}} ({{{cohort}}} cohort). {{{personaDescription}}}
+
+**The call so far:**
+\`\`\`
+{{{conversation}}}
+\`\`\`
+
+**What you do now:** {{{instruction}}}
+
+Reply as this customer would speak on the phone: one to three short sentences, natural spoken language, no stage directions, no quotation marks. Then classify your own reply:
+- ENGAGE: you let the agent carry on or acknowledge what they said.
+- SHARE_NEEDS: you answer a question about your situation or needs.
+- ASK_QUESTION: you ask about the product, price or plans.
+- OBJECT: you push back with a concern.
+- AGREE: you commit to buying.
+- DECLINE: you clearly refuse the offer.`;
+
+const instructionFor = (directive: SimulatedCustomerDirective): string => {
+  if (directive.kind === 'RAISE_OBJECTION') {
+    const category = directive.objection.category.replace(/_/g, ' ').toLowerCase();
+    return `Raise an objection about ${category}, in your own words. Your intent is OBJECT.`;
+  }
+  return directive.kind === 'RESPOND' && directive.willingToBuy
+    ? "Respond naturally to the agent. Your concerns have been heard; if the agent asks you to buy or sign up, agree to it."
+    : "Respond naturally to the agent. You are not ready to buy: if the agent asks you to commit, hesitate, ask something or decline, but do not agree to buy.";
+};
+
+const replySchema = (allowAgree: boolean) =>
+  z.object({
+    reply: z.string().min(1).describe("The customer's spoken reply."),
+    intent: z.enum(SIMULATED_CUSTOMER_INTENTS).exclude(allowAgree ? ['HANG_UP'] : ['HANG_UP', 'AGREE']),
+  });
+
+type CustomerReply = { reply: string; intent: SimulatedCustomerIntent };
+
+const HANG_UP_LINES = [
+  "Sorry, I really have to go now. Bye.",
+  "Look, I don't have time for this right now. Goodbye.",
+  "I'll have to stop you there, I need to go. Thanks.",
+];
+
+const formatConversation = (turns: ConversationTurn[], agentSpeaker: ConversationTurn['speaker'], userName?: string): string =>
+  turns
+    .filter((turn) => !turn.isLive)
+    .slice(-12)
+    .map((turn) => `${turn.speaker === agentSpeaker ? 'Agent' : userName || 'You'}: ${turn.text}`)
+    .join('\n');
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const isServiceUnavailableError = (error: unknown): boolean => {
+  const message = getErrorMessage(error);
+  return message.includes('overloaded') || message.includes('503');
+};
+
+const generateSimulatedCustomerTurnFlow = ai.defineFlow(
+  {
+    name: 'generateSimulatedCustomerTurnFlow',
+    inputSchema: SimulatedCustomerTurnInputSchema,
+    outputSchema: SimulatedCustomerTurnOutputSchema,
+  },
+  async (input: SimulatedCustomerTurnInput): Promise<SimulatedCustomerTurnOutput> => {
+    const { persona } = input;
+    const startState = input.customerState ?? createSimulatedCustomerState(persona, input.seed ?? Date.now());
+    const agentSpeaker = input.agentSpeaker ?? 'AI';
+    const lastAgentText = [...input.conversationHistory].reverse().find((turn) => turn.speaker === agentSpeaker)?.text ?? '';
+    const { state, directive } = planSimulatedCustomerTurn(persona, startState, lastAgentText);
+
+    if (directive.kind === 'HANG_UP') {
+      return {
+        replyText: HANG_UP_LINES[state.agentTurnsHeard % HANG_UP_LINES.length],
+        intent: 'HANG_UP',
+        customerState: state,
+        endsCall: true,
+      };
+    }
+    if (directive.kind === 'RAISE_OBJECTION' && directive.objection.line) {
+      return { replyText: directive.objection.line, intent: 'OBJECT', customerState: state, endsCall: false };
+    }
+
+    const schema = replySchema(directive.kind === 'RESPOND' && directive.willingToBuy);
+    const prompt = customerReplyPromptText
+      .replace('{{{productDisplayName}}}', input.productDisplayName)
+      .replace('{{{personaName}}}', persona.name)
+      .replace('{{{cohort}}}', persona.cohort)
+      .replace('{{{personaDescription}}}', persona.description)
+      .replace('{{{conversation}}}', formatConversation(input.conversationHistory, agentSpeaker, input.userName))
+      .replace('{{{instruction}}}', instructionFor(directive));
+    const generate = async (model: string) => {
+      const { output } = await ai.generate({
+        model,
+        prompt,
+        output: { schema, format: 'json' },
+        config: { temperature: 0.8 },
+      });
+      return output as CustomerReply | null;
+    };
+
+    let output: CustomerReply | null;
+    try {
+      output = await generate(AI_MODELS.MULTIMODAL_PRIMARY);
+    } catch (primaryError: unknown) {
+      console.warn(`Primary model failed for simulated customer: ${getErrorMessage(primaryError)}`);
+      if (!isServiceUnavailableError(primaryError)) throw primaryError;
+      output = await generate(AI_MODELS.MULTIMODAL_SECONDARY);
+    }
+    if (!output) {
+      throw new Error('The model returned no reply for the simulated customer.');
+    }
+    const intent = directive.kind === 'RAISE_OBJECTION' ? 'OBJECT' : output.intent;
+    return {
+      replyText: output.reply.trim(),
+      intent,
+      customerState: recordSimulatedCustomerReply(state, intent),
+      endsCall: false,
+    };
+  }
+);
+
+export async function generateSimulatedCustomerTurn(input: SimulatedCustomerTurnInput): Promise<SimulatedCustomerTurnOutput> {
+  try {
+    return await generateSimulatedCustomerTurnFlow(input);
+  } catch (error: unknown) {
+    const errorMessage = getErrorMessage(error);
+    console.error('Error in generateSimulatedCustomerTurn flow:', error);
+    return {
+      replyText: '',
+      intent: 'ENGAGE',
+      customerState: input.customerState ?? createSimulatedCustomerState(input.persona, input.seed ?? 0),
+      endsCall: false,
+      errorMessage: `Simulated customer failed: ${errorMessage}`,
+    };
+  }
+}
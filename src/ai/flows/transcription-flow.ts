@@ -4,8 +4,13 @@ import {ai} from '@/ai/genkit';
 import { TranscriptionInputSchema, TranscriptionOutputSchema } from '@/types';
 import type { TranscriptionInput, TranscriptionOutput } from '@/types';
 import { resolveGeminiAudioReference } from '@/ai/utils/media';
+import { downloadAudioUrlAsDataUri } from '@/ai/utils/remote-audio';
 import { AI_MODELS } from '@/ai/config/models';
 import { transcriptionRetryManager } from '@/ai/utils/retry-manager';
+import { getChunkOptionsFromEnv, planAudioChunks, type AudioChunk } from '@/ai/utils/audio-chunker';
+import { stitchChunkTranscripts } from '@/ai/utils/transcript-stitcher';
+import { parseDataUri } from '@/ai/providers/types';
+import { queueAIRequest } from '@/lib/ai-rate-limiter';
 
 export const TRANSCRIPTION_PROMPT: string = `You are an advanced transcription and audio analysis engine designed for ETPrime and Times Health+ call recordings. You must perform BOTH accurate speech transcription AND comprehensive audio environment analysis.
 
@@ -579,109 +584,226 @@ function validateRomanScript(output: TranscriptionOutput): void {
   }
 }
 
-const transcriptionFlow = ai.defineFlow(
-  {
-    name: 'transcriptionFlow',
-    inputSchema: TranscriptionInputSchema,
-    outputSchema: TranscriptionOutputSchema,
-  },
-  async (input: TranscriptionInput): Promise<TranscriptionOutput> => {
-    console.log('Starting transcription flow for audio input...');
-    const audioReference = input.audioUrl
-      ? { url: input.audioUrl }
-      : await resolveGeminiAudioReference(input.audioDataUri!, { displayName: 'transcription-audio' });
+type AudioReference = { url: string; contentType?: string };
 
-    if (!audioReference) {
-      console.error("Failed to resolve audio reference. Input provided:", { audioUrl: input.audioUrl, hasAudioDataUri: !!input.audioDataUri });
-      throw new Error("Could not resolve audio reference from either URL or data URI.");
-    }
+/**
+ * One transcription model call with the usual primary → fallback → retry
+ * behaviour. `prompt` is the full instruction text for this call.
+ */
+async function transcribeReference(audioReference: AudioReference, prompt: string, label: string): Promise<TranscriptionOutput> {
+  // Use the robust retry manager that will keep trying until success
+  return await transcriptionRetryManager.execute(async (attempt) => {
+    const primaryModel = AI_MODELS.MULTIMODAL_PRIMARY;
+    const fallbackModel = AI_MODELS.MULTIMODAL_SECONDARY;
+    console.log(`${label} Transcription Attempt #${attempt}`);
+
+    // Try primary model first
+    try {
+      console.log(`${label}[Attempt ${attempt}] Trying primary model: ${primaryModel}`);
+
+      const { output, usage } = await ai.generate<TranscriptionOutput>({
+        model: primaryModel,
+        prompt: [
+          { media: audioReference },
+          { text: prompt },
+        ],
+        output: { schema: TranscriptionOutputSchema, format: 'json' },
+        config: { temperature: 0.1 },
+      });
+
+      console.log(`${label}[Attempt ${attempt}] Primary model (${primaryModel}) succeeded.`);
+      console.log(`${label}[Attempt ${attempt}] Usage:`, usage);
+
+      if (!output) {
+        console.error(`${label}[Attempt ${attempt}] Primary model ${primaryModel} returned empty output despite success status.`);
+        throw new Error(`Primary model ${primaryModel} returned empty output.`);
+      }
 
-    console.log('Audio reference resolved successfully. Beginning transcription attempts.');
-    // Use the robust retry manager that will keep trying until success
-    return await transcriptionRetryManager.execute(async (attempt) => {
-      const primaryModel = AI_MODELS.MULTIMODAL_PRIMARY;
-      const fallbackModel = AI_MODELS.MULTIMODAL_SECONDARY;
-      console.log(`Transcription Attempt #${attempt}`);
+      return output;
 
-      // Try primary model first
-      try {
-        console.log(`[Attempt ${attempt}] Trying primary model: ${primaryModel}`);
+    } catch (primaryError: unknown) {
+      const primaryMessage = primaryError instanceof Error ? primaryError.message : String(primaryError);
+      console.warn(`${label}[Attempt ${attempt}] Primary model (${primaryModel}) failed. Error: ${primaryMessage}`);
+      console.log(`${label}[Attempt ${attempt}] Trying fallback model: ${fallbackModel}`);
 
-        const { output, usage } = await ai.generate({
-          model: primaryModel,
+      // Try fallback model
+      try {
+        const { output, usage } = await ai.generate<TranscriptionOutput>({
+          model: fallbackModel,
           prompt: [
             { media: audioReference },
-            { text: TRANSCRIPTION_PROMPT },
+            { text: prompt },
           ],
           output: { schema: TranscriptionOutputSchema, format: 'json' },
           config: { temperature: 0.1 },
         });
 
-        console.log(`[Attempt ${attempt}] Primary model (${primaryModel}) succeeded.`);
-        console.log(`[Attempt ${attempt}] Usage:`, usage);
+        console.log(`${label}[Attempt ${attempt}] Fallback model (${fallbackModel}) succeeded.`);
+        console.log(`${label}[Attempt ${attempt}] Usage:`, usage);
 
         if (!output) {
-          console.error(`[Attempt ${attempt}] Primary model ${primaryModel} returned empty output despite success status.`);
-          throw new Error(`Primary model ${primaryModel} returned empty output.`);
+          console.error(`${label}[Attempt ${attempt}] Fallback model ${fallbackModel} also returned empty output.`);
+          throw new Error(`Fallback model ${fallbackModel} also returned empty output.`);
         }
 
-        // Validate that output is in Roman script only
-        validateRomanScript(output);
-        
-        // Validate speaker consistency (same name = same speaker type throughout)
-        validateSpeakerConsistency(output);
-
         return output;
 
-      } catch (primaryError: unknown) {
-        const primaryMessage = primaryError instanceof Error ? primaryError.message : String(primaryError);
-        console.warn(`[Attempt ${attempt}] Primary model (${primaryModel}) failed. Error: ${primaryMessage}`);
-        console.log(`[Attempt ${attempt}] Trying fallback model: ${fallbackModel}`);
-
-        // Try fallback model
-        try {
-          const { output, usage } = await ai.generate({
-            model: fallbackModel,
-            prompt: [
-              { media: audioReference },
-              { text: TRANSCRIPTION_PROMPT },
-            ],
-            output: { schema: TranscriptionOutputSchema, format: 'json' },
-            config: { temperature: 0.1 },
-          });
+      } catch (fallbackError: unknown) {
+        const fallbackMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+        console.error(`${label}[Attempt ${attempt}] Both primary and fallback models failed.`);
+        console.error(`${label}[Attempt ${attempt}] Primary Error:`, primaryError);
+        console.error(`${label}[Attempt ${attempt}] Fallback Error:`, fallbackError);
+        // Both models failed, let the retry manager handle it
+        const combinedError: Error & {
+          originalErrors?: { primary: unknown; fallback: unknown };
+        } = new Error(
+          `Both primary and fallback models failed. Primary: ${primaryMessage}, Fallback: ${fallbackMessage}`
+        );
+        combinedError.originalErrors = { primary: primaryError, fallback: fallbackError };
+        throw combinedError;
+      }
+    }
+  }, 'transcription');
+}
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const buildChunkPrompt = (chunk: AudioChunk, chunkCount: number, durationSeconds: number) => `${TRANSCRIPTION_PROMPT}
+
+### LONG CALL - PARTIAL AUDIO
+This audio is part ${chunk.index + 1} of ${chunkCount} of a single ${formatClock(durationSeconds)} call. It covers ${formatClock(chunk.startSeconds)} to ${formatClock(chunk.endSeconds)} of the call.
+- Report startSeconds/endSeconds relative to the start of THIS audio clip (the clip starts at 0).
+- The clip may start or end in the middle of a sentence. Transcribe the partial words you hear; do not invent the missing part.
+- ${chunk.index > 0 ? 'The greeting and introductions happened in an earlier part. Identify the agent and customer from context and keep the standard "Agent (Name)" / "User (Name)" labels when names are mentioned.' : 'Later parts of the call are transcribed separately.'}
+- The summary must describe only this part of the call.
+`;
+
+const SUMMARY_TRANSCRIPT_CHAR_LIMIT = 120_000;
+
+/**
+ * Summarises a stitched long-call transcript in one text-only call, since each
+ * window's own summary only saw part of the call.
+ */
+async function summarizeStitchedTranscript(
+  segments: TranscriptionOutput['segments']
+): Promise<TranscriptionOutput['summary'] | null> {
+  const transcript = segments
+    .map((segment) => `[${formatClock(segment.startSeconds)}] ${segment.speakerProfile}: ${segment.text}`)
+    .join('\n')
+    .slice(0, SUMMARY_TRANSCRIPT_CHAR_LIMIT);
+  try {
+    const { output } = await ai.generate<TranscriptionOutput['summary']>({
+      model: AI_MODELS.TEXT_ONLY,
+      prompt: `Summarise this call transcript. Write in English Roman script only.
+Return JSON: { "overview": string, "keyPoints": string[], "actions": string[] }
+- overview: call type, participants, IVR interactions, hold times and outcome
+- keyPoints: important moments such as IVR encounters, hold periods, objections and decisions
+- actions: follow-up tasks, commitments and next steps
+
+Transcript:
+${transcript}`,
+      output: { schema: TranscriptionOutputSchema.shape.summary, format: 'json' },
+      config: { temperature: 0.2 },
+    });
+    return output ?? null;
+  } catch (error) {
+    console.warn('Could not summarise the stitched transcript; merging per-chunk summaries instead.', error);
+    return null;
+  }
+}
 
-          console.log(`[Attempt ${attempt}] Fallback model (${fallbackModel}) succeeded.`);
-          console.log(`[Attempt ${attempt}] Usage:`, usage);
-
-          if (!output) {
-            console.error(`[Attempt ${attempt}] Fallback model ${fallbackModel} also returned empty output.`);
-            throw new Error(`Fallback model ${fallbackModel} also returned empty output.`);
-          }
-
-          // Validate that output is in Roman script only
-          validateRomanScript(output);
-          
-          // Validate speaker consistency (same name = same speaker type throughout)
-          validateSpeakerConsistency(output);
-
-          return output;
-
-        } catch (fallbackError: unknown) {
-          const fallbackMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-          console.error(`[Attempt ${attempt}] Both primary and fallback models failed.`);
-          console.error(`[Attempt ${attempt}] Primary Error:`, primaryError);
-          console.error(`[Attempt ${attempt}] Fallback Error:`, fallbackError);
-          // Both models failed, let the retry manager handle it
-          const combinedError: Error & {
-            originalErrors?: { primary: unknown; fallback: unknown };
-          } = new Error(
-            `Both primary and fallback models failed. Primary: ${primaryMessage}, Fallback: ${fallbackMessage}`
-          );
-          combinedError.originalErrors = { primary: primaryError, fallback: fallbackError };
-          throw combinedError;
+function loadAudioBytes(input: TranscriptionInput): { audio: Buffer; mimeType?: string } | null {
+  if (input.audioDataUri) {
+    const parsed = parseDataUri(input.audioDataUri);
+    return parsed ? { audio: Buffer.from(parsed.data, 'base64'), mimeType: parsed.mimeType } : null;
+  }
+  return null;
+}
+
+/**
+ * Splits recordings longer than one window and transcribes the windows
+ * concurrently through the shared AI request queue. Returns null when the audio
+ * is short enough for a single call or its format cannot be split.
+ */
+async function transcribeInChunks(input: TranscriptionInput): Promise<TranscriptionOutput | null> {
+  const options = getChunkOptionsFromEnv();
+  let loaded: ReturnType<typeof loadAudioBytes>;
+  try {
+    loaded = loadAudioBytes(input);
+  } catch (error) {
+    console.warn('Could not read the audio for chunking; transcribing it in one call.', error);
+    return null;
+  }
+  const plan = loaded ? planAudioChunks(loaded.audio, loaded.mimeType, options) : null;
+  if (!plan || plan.chunks.length < 2) {
+    if (!plan && loaded) {
+      console.log(`Audio format (${loaded.mimeType ?? 'unknown'}) cannot be split without re-encoding; transcribing it in one call.`);
+    }
+    return null;
+  }
+
+  console.log(
+    `Long call detected (${formatClock(plan.durationSeconds)}). Transcribing ${plan.chunks.length} overlapping ${plan.format.toUpperCase()} chunks.`
+  );
+  const chunkOutputs = await Promise.all(
+    plan.chunks.map((chunk) =>
+      queueAIRequest(async () => {
+        const label = `[Chunk ${chunk.index + 1}/${plan.chunks.length}]`;
+        const dataUri = `data:${chunk.mimeType};base64,${chunk.data.toString('base64')}`;
+        const reference = await resolveGeminiAudioReference(dataUri, { displayName: `transcription-chunk-${chunk.index + 1}` });
+        if (!reference) {
+          throw new Error(`${label} Could not resolve audio reference for chunk.`);
         }
-      }
-    }, 'transcription');
+        const output = await transcribeReference(reference, buildChunkPrompt(chunk, plan.chunks.length, plan.durationSeconds), label);
+        return { startSeconds: chunk.startSeconds, endSeconds: chunk.endSeconds, output };
+      })
+    )
+  );
+
+  const stitched = stitchChunkTranscripts(chunkOutputs, {
+    sampleRateHz: plan.sampleRateHz,
+    durationSeconds: Math.round(plan.durationSeconds * 100) / 100,
+  });
+  const summary = await summarizeStitchedTranscript(stitched.segments);
+  return summary ? { ...stitched, summary } : stitched;
+}
+
+const transcriptionFlow = ai.defineFlow(
+  {
+    name: 'transcriptionFlow',
+    inputSchema: TranscriptionInputSchema,
+    outputSchema: TranscriptionOutputSchema,
+  },
+  async (input: TranscriptionInput): Promise<TranscriptionOutput> => {
+    console.log('Starting transcription flow for audio input...');
+
+    // Download URLs here, where the host is checked, instead of handing them to the model's media download.
+    if (input.audioUrl) {
+      input = { audioDataUri: await downloadAudioUrlAsDataUri(input.audioUrl) };
+    }
+
+    const chunked = await transcribeInChunks(input);
+    if (chunked) {
+      // Validate that output is in Roman script only
+      validateRomanScript(chunked);
+      // Validate speaker consistency (same name = same speaker type throughout)
+      validateSpeakerConsistency(chunked);
+      return TranscriptionOutputSchema.parse(chunked);
+    }
+
+    const audioReference = await resolveGeminiAudioReference(input.audioDataUri!, { displayName: 'transcription-audio' });
+
+    console.log('Audio reference resolved successfully. Beginning transcription attempts.');
+    const output = await transcribeReference(audioReference, TRANSCRIPTION_PROMPT, '');
+
+    // Validate that output is in Roman script only
+    validateRomanScript(output);
+
+    // Validate speaker consistency (same name = same speaker type throughout)
+    validateSpeakerConsistency(output);
+
+    return output;
   }
 );
 
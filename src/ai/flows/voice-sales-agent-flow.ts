@@ -1,7 +1,10 @@
 /**
  * @fileOverview Orchestrates an AI Voice Sales Agent conversation.
  * This flow is now optimized for speed by separating initial pitch generation from the conversational loop.
- * It uses a router prompt to determine the next action based on conversational context.
+ * Each customer reply is classified by a small intent prompt; the dialogue state machine in
+ * '@/lib/sales-dialogue' then decides the next step (opening, discovery, pitch sections, objection
+ * loop, pricing, close, wrap-up). The dialogue state is returned with every turn and sent back by
+ * the client with the next one.
  */
 
 import { ai } from '@/ai/genkit';
@@ -9,62 +12,55 @@ import {
   VoiceSalesAgentFlowInputSchema,
   VoiceSalesAgentFlowOutputSchema,
   ConversationTurn,
-  GeneratePitchOutputSchema,
+  SalesObjectionCategorySchema,
 } from '@/types';
-import type { VoiceSalesAgentFlowInput, VoiceSalesAgentFlowOutput, GeneratePitchOutput } from '@/types';
+import type { VoiceSalesAgentFlowInput, VoiceSalesAgentFlowOutput } from '@/types';
 import { z } from 'zod';
 import { generatePitch } from './pitch-generator';
 import { AI_MODELS } from '@/ai/config/models';
-
-// This prompt is lean and fast. It only gets the history and the last user input.
-// Its job is to decide WHAT to do next, not to generate long content from scratch.
-const conversationRouterPromptText = `You are an AI sales agent controller. Your task is to analyze the user's last response within the context of the conversation history and decide the next logical action for the AI agent to take.
-
-**Conversation History:**
+import {
+  SALES_DIALOGUE_INTENTS,
+  advanceSalesDialogue,
+  createSalesDialogueState,
+  recordAgentUtterance,
+  type SalesDialogueOutcome,
+} from '@/lib/sales-dialogue';
+
+// This prompt is lean and fast. It only classifies the customer's last reply; what the agent
+// does about it is decided by the dialogue state machine in '@/lib/sales-dialogue'.
+const intentClassifierPromptText = `You are analysing a live sales phone call. Classify the customer's last reply so the AI agent can decide what to do next.
+
+**Current stage of the call:** {{{stage}}}
+**What the agent said last:** "{{{lastAgentUtterance}}}"
+**Objections raised so far:** {{{objections}}}
+
+**Recent Conversation:**
 \`\`\`
 {{{conversationHistory}}}
 \`\`\`
 
-**User's Last Response:** "{{{lastUserResponse}}}"
-
-**Decision Framework:**
-
-1.  **If the user asks a SUPPORT-related question** (keywords like "login", "OTP", "error", "help", "password", "not working", "fail", "issue", "bug", "cannot", "problem"):
-    *   **Action:** \`ANSWER_SUPPORT_QUESTION\`
-    *   **Thought:** The user has a technical or support query that needs a factual answer.
-
-2.  **If the user asks a SALES-related question** (keywords like "renewal", "price", "discount", "plan", "offer", "benefits", "features", "upgrade", "payment", "subscribe"):
-    *   **Action:** \`ANSWER_SALES_QUESTION\`
-    *   **Thought:** The user is asking for more details about the sales proposition.
-
-3.  **If the user raises a sales OBJECTION** (e.g., "it's too expensive", "I don't have time", "I get this for free", "I'm not sure"):
-    *   **Action:** \`HANDLE_SALES_OBJECTION\`
-    *   **Thought:** The user has a concern about the sale that needs to be addressed before continuing.
-
-4.  **If the user gives a positive or neutral continuation signal** (e.g., "okay", "tell me more", "I see", "hmm", "go on"):
-    *   **Action:** \`CONTINUE_PITCH\`
-    *   **Thought:** The user is engaged and ready for the next part of the sales pitch. Default to this if no other category fits.
-    
-5.  **If the user is clearly trying to end the conversation** (e.g., "I'm not interested", "goodbye", "I have to go"):
-    *   **Action:** \`CLOSING_STATEMENT\`
-    *   **Thought:** The conversation is over. The agent should provide a polite closing remark.
-    
-6.  **If the user's response is unclear, very short, or just an acknowledgement** (e.g., "ok", "yes", "no"):
-    *   **Action:** \`ACKNOWLEDGE_AND_WAIT\`
-    *   **Thought:** The user's input doesn't require a detailed response. A simple acknowledgement is best to keep the floor open for them.
-
-Analyze the user's last response and determine the single best action. Default to sales-related actions if uncertain.`;
-
-const conversationRouterSchema = z.object({
-  action: z.enum([
-      "CONTINUE_PITCH", 
-      "ANSWER_SALES_QUESTION",
-      "HANDLE_SALES_OBJECTION",
-      "ANSWER_SUPPORT_QUESTION",
-      "CLOSING_STATEMENT",
-      "ACKNOWLEDGE_AND_WAIT"
-    ]).describe("The category of action the AI should take next based on the user's last response."),
-  thought: z.string().describe("A brief internal thought process on why this action was chosen."),
+**Customer's Last Reply:** "{{{lastUserResponse}}}"
+
+**Intents:**
+- \`CONTINUE\`: The customer acknowledges or is happy for the agent to go on ("okay", "go ahead", "tell me more", "hmm").
+- \`SHARE_NEEDS\`: The customer answers the agent's question about their situation, needs or current habits.
+- \`SALES_QUESTION\`: A question about the product, its features, benefits or plans, other than its price.
+- \`PRICE_QUESTION\`: A question about price, cost, discounts, offers or payment options.
+- \`SUPPORT_QUESTION\`: A technical or account problem (login, OTP, payment failure, app errors).
+- \`OBJECTION\`: A concern that stands in the way of buying. Also set \`objectionCategory\`: PRICE (too expensive), TIME (no time to use it), NEED (doesn't need it), TRUST (doubts the product or the company), COMPETITOR (uses or prefers something else, or gets it free elsewhere), THINK_ABOUT_IT (wants to think or ask someone), OTHER.
+- \`BUYING_SIGNAL\`: Interest in buying without yet committing ("sounds good", "how would I sign up?").
+- \`AGREE\`: The customer commits to buying or subscribing. Agreeing to listen is CONTINUE, not AGREE.
+- \`DECLINE\`: A clear refusal ("I'm not interested", "no thanks").
+- \`CALLBACK\`: Asks to be called at another time.
+- \`END_CALL\`: Wants to hang up without refusing the offer ("I have to go", "bye").
+- \`UNCLEAR\`: Unintelligible, off-topic or too ambiguous to act on.
+
+Read the reply in light of the current stage and what the agent just said: a bare "yes" after a call to action is AGREE, while after "shall I go on?" it is CONTINUE. Choose the single best intent.`;
+
+const intentClassifierSchema = z.object({
+  intent: z.enum(SALES_DIALOGUE_INTENTS).describe("The intent of the customer's last reply."),
+  objectionCategory: SalesObjectionCategorySchema.optional().describe("The kind of objection. Only set when the intent is OBJECTION."),
+  thought: z.string().describe("A brief internal thought process on why this intent was chosen."),
 });
 
 // A separate, specialized prompt for generating sales-focused answers from the KB.
@@ -151,20 +147,30 @@ const isServiceUnavailableError = (error: unknown): boolean => {
 };
 
 
-// Helper to get the next logical section from the pre-generated pitch
-const getNextPitchSection = (
-  conversation: ConversationTurn[],
-  pitch: GeneratePitchOutput
-): { text: string; isFinal: boolean } => {
-    const saidTexts = new Set(conversation.filter(t => t.speaker === 'AI').map(t => t.text));
-    
-    if (!saidTexts.has(pitch.personalizedHook)) return { text: pitch.personalizedHook, isFinal: false };
-    if (!saidTexts.has(pitch.productExplanation)) return { text: pitch.productExplanation, isFinal: false };
-    if (!saidTexts.has(pitch.keyBenefitsAndBundles)) return { text: pitch.keyBenefitsAndBundles, isFinal: false };
-    if (!saidTexts.has(pitch.discountOrDealExplanation)) return { text: pitch.discountOrDealExplanation, isFinal: false };
-    if (!saidTexts.has(pitch.objectionHandlingPreviews)) return { text: pitch.objectionHandlingPreviews, isFinal: false };
-    
-    return { text: pitch.finalCallToAction, isFinal: true };
+const generateWithFallback = async <T,>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    purpose: string
+): Promise<T | null> => {
+    const request = async (model: string) => {
+        const { output } = await ai.generate({
+            model,
+            prompt: prompt,
+            output: { schema, format: 'json' },
+            config: { temperature: 0.1 },
+        });
+        return output as T | null;
+    };
+    try {
+        return await request(AI_MODELS.MULTIMODAL_PRIMARY);
+    } catch (primaryError: unknown) {
+        const primaryMessage = getErrorMessage(primaryError);
+        console.warn(`Primary model failed for ${purpose}: ${primaryMessage}`);
+        if (isServiceUnavailableError(primaryError)) {
+            return request(AI_MODELS.MULTIMODAL_SECONDARY);
+        }
+        throw primaryError;
+    }
 };
 
 const serializeRecentHistory = (turns: ConversationTurn[], limit: number = 12): string => {
@@ -172,6 +178,30 @@ const serializeRecentHistory = (turns: ConversationTurn[], limit: number = 12):
     return JSON.stringify(recent);
 };
 
+const discoveryQuestions = (productDisplayName: string): string[] => [
+    `Before I go on, may I ask what you look for most when it comes to ${productDisplayName}?`,
+    "That's helpful, thank you. And how are you keeping up with that at the moment?",
+];
+
+const followUpCloses = (flowInput: VoiceSalesAgentFlowInput): string[] => [
+    `Shall I go ahead and activate the ${flowInput.salesPlan || flowInput.productDisplayName} plan for you today?`,
+    "It only takes a minute. Would you like me to send the payment link to your registered number right now?",
+];
+
+const wrapUpLine = (outcome: SalesDialogueOutcome, flowInput: VoiceSalesAgentFlowInput): string => {
+    const name = flowInput.userName ? `, ${flowInput.userName}` : '';
+    switch (outcome) {
+        case 'SALE':
+            return `Wonderful, thank you${name}! I'll share the payment link and your plan details on your registered number right away. Welcome to ${flowInput.productDisplayName}, and have a great day!`;
+        case 'CALLBACK':
+            return `Of course${name}. I'll arrange a call back at a better time for you. Thank you, and have a great day!`;
+        case 'DECLINED':
+            return `I understand${name}, and I appreciate your time. If anything changes, we're just a call away. Have a great day!`;
+        case 'NO_DECISION':
+            return `Thank you for your time${name}. I'll share the details so you can take a look whenever it suits you. Have a great day!`;
+    }
+};
+
 
 const runVoiceSalesAgentTurnFlow = ai.defineFlow(
   {
@@ -179,10 +209,11 @@ const runVoiceSalesAgentTurnFlow = ai.defineFlow(
     inputSchema: VoiceSalesAgentFlowInputSchema,
     outputSchema: VoiceSalesAgentFlowOutputSchema,
   },
-  async (flowInput): Promise<VoiceSalesAgentFlowOutput> => {
+  async (flowInput: VoiceSalesAgentFlowInput): Promise<VoiceSalesAgentFlowOutput> => {
     const response: VoiceSalesAgentFlowOutput = {
       conversationTurns: Array.isArray(flowInput.conversationHistory) ? [...flowInput.conversationHistory] : [],
       generatedPitch: flowInput.currentPitchState,
+      dialogueState: flowInput.dialogueState ?? null,
       nextExpectedAction: 'USER_RESPONSE',
       errorMessage: undefined,
       currentAiResponseText: undefined,
@@ -195,7 +226,8 @@ const runVoiceSalesAgentTurnFlow = ai.defineFlow(
         } = flowInput;
 
         if (action === 'START_CONVERSATION') {
-            const pitch = await generatePitch({
+            // A pitch passed in is reused as-is, so simulation runs can compare fixed pitch versions.
+            const pitch = flowInput.currentPitchState ?? await generatePitch({
                 product: flowInput.product,
                 customerCohort: flowInput.customerCohort,
                 knowledgeBaseContext: knowledgeBaseContext,
@@ -212,6 +244,7 @@ const runVoiceSalesAgentTurnFlow = ai.defineFlow(
             }
             response.generatedPitch = pitch;
             response.currentAiResponseText = pitch.warmIntroduction;
+            response.dialogueState = createSalesDialogueState();
 
         } else if (action === 'PROCESS_USER_RESPONSE') {
             if (!currentUserInputText) {
@@ -230,160 +263,109 @@ const runVoiceSalesAgentTurnFlow = ai.defineFlow(
                  throw new Error("Cannot process response: The initial sales pitch has not been generated yet.");
             }
 
-            const routerResult = await (async () => {
-                const prompt = conversationRouterPromptText
+            const dialogueState = flowInput.dialogueState ?? createSalesDialogueState();
+            const lastAgentUtterance = [...response.conversationTurns].reverse().find(turn => turn.speaker === 'AI')?.text ?? '';
+            const classification = await generateWithFallback(
+                intentClassifierPromptText
+                    .replace('{{{stage}}}', dialogueState.stage)
+                    .replace('{{{lastAgentUtterance}}}', lastAgentUtterance)
+                    .replace('{{{objections}}}', dialogueState.objections.map(objection => objection.category).join(', ') || 'none')
                     .replace('{{{conversationHistory}}}', serializeRecentHistory(response.conversationTurns, 6))
-                    .replace('{{{lastUserResponse}}}', currentUserInputText);
-                try {
-                    const { output } = await ai.generate({
-                        model: AI_MODELS.MULTIMODAL_PRIMARY,
-                        prompt: prompt,
-                        output: { schema: conversationRouterSchema, format: 'json' },
-                        config: { temperature: 0.1 },
-                    });
-                    return { output };
-                } catch (primaryError: unknown) {
-                    const primaryMessage = getErrorMessage(primaryError);
-                    console.warn(`Primary model failed for conversation router: ${primaryMessage}`);
-                    if (isServiceUnavailableError(primaryError)) {
-                        const { output } = await ai.generate({
-                            model: AI_MODELS.MULTIMODAL_SECONDARY,
-                            prompt: prompt,
-                            output: { schema: conversationRouterSchema, format: 'json' },
-                            config: { temperature: 0.1 },
-                        });
-                        return { output };
-                    } else {
-                        throw primaryError;
-                    }
+                    .replace('{{{lastUserResponse}}}', currentUserInputText),
+                intentClassifierSchema,
+                'intent classifier'
+            );
+            const transition = advanceSalesDialogue(dialogueState, {
+                intent: classification?.intent ?? 'UNCLEAR',
+                objectionCategory: classification?.objectionCategory,
+                text: currentUserInputText,
+            });
+            const pitch = response.generatedPitch;
+            const recentHistory = serializeRecentHistory(response.conversationTurns, 8);
+
+            const answerSalesQuestion = async () => {
+                const output = await generateWithFallback(
+                    salesAnswerGeneratorPromptText
+                        .replace('{{{userQuestion}}}', currentUserInputText)
+                        .replace('{{{knowledgeBaseContext}}}', knowledgeBaseContext)
+                        .replace('{{{conversationHistory}}}', recentHistory),
+                    salesAnswerSchema,
+                    'sales answer'
+                );
+                return output?.answer;
+            };
+
+            const { action: dialogueAction } = transition;
+            switch (dialogueAction.type) {
+                case 'ASK_DISCOVERY_QUESTION': {
+                    const questions = discoveryQuestions(flowInput.productDisplayName);
+                    response.currentAiResponseText = questions[Math.min(dialogueAction.questionIndex, questions.length - 1)];
+                    break;
                 }
-            })();
-            
-            switch (routerResult.output?.action) {
-                case 'CONTINUE_PITCH':
-                    const nextSection = getNextPitchSection(response.conversationTurns, response.generatedPitch);
-                    response.currentAiResponseText = nextSection.text;
-                    if(nextSection.isFinal) response.nextExpectedAction = 'INTERACTION_ENDED';
+                case 'SPEAK_PITCH_SECTION':
+                    response.currentAiResponseText = pitch[dialogueAction.section];
                     break;
-                
+
                 case 'ANSWER_SALES_QUESTION':
-                    const salesAnswerResult = await (async () => {
-                        const prompt = salesAnswerGeneratorPromptText
-                            .replace('{{{userQuestion}}}', currentUserInputText)
-                            .replace('{{{knowledgeBaseContext}}}', knowledgeBaseContext)
-                            .replace('{{{conversationHistory}}}', serializeRecentHistory(response.conversationTurns, 8));
-                        try {
-                            const { output } = await ai.generate({
-                                model: AI_MODELS.MULTIMODAL_PRIMARY,
-                                prompt: prompt,
-                                output: { schema: salesAnswerSchema, format: 'json' },
-                                config: { temperature: 0.1 },
-                            });
-                            return { output };
-                        } catch (primaryError: unknown) {
-                            const primaryMessage = getErrorMessage(primaryError);
-                            console.warn(`Primary model failed for sales answer: ${primaryMessage}`);
-                            if (isServiceUnavailableError(primaryError)) {
-                                const { output } = await ai.generate({
-                                    model: AI_MODELS.MULTIMODAL_SECONDARY,
-                                    prompt: prompt,
-                                    output: { schema: salesAnswerSchema, format: 'json' },
-                                    config: { temperature: 0.1 },
-                                });
-                                return { output };
-                            } else {
-                                throw primaryError;
-                            }
-                        }
-                    })();
-                    response.currentAiResponseText = salesAnswerResult.output?.answer;
+                    response.currentAiResponseText = await answerSalesQuestion();
                     break;
-                
-                case 'ANSWER_SUPPORT_QUESTION':
-                    const supportAnswerResult = await (async () => {
-                        const prompt = supportAnswerGeneratorPromptText
+
+                case 'PRESENT_PRICING':
+                    response.currentAiResponseText = dialogueAction.firstMention
+                        ? pitch.discountOrDealExplanation
+                        : await answerSalesQuestion();
+                    break;
+
+                case 'ANSWER_SUPPORT_QUESTION': {
+                    const output = await generateWithFallback(
+                        supportAnswerGeneratorPromptText
                             .replace('{{{userQuestion}}}', currentUserInputText)
                             .replace('{{{knowledgeBaseContext}}}', knowledgeBaseContext)
-                            .replace('{{{conversationHistory}}}', serializeRecentHistory(response.conversationTurns, 8));
-                        try {
-                            const { output } = await ai.generate({
-                                model: AI_MODELS.MULTIMODAL_PRIMARY,
-                                prompt: prompt,
-                                output: { schema: supportAnswerSchema, format: 'json' },
-                                config: { temperature: 0.1 },
-                            });
-                            return { output };
-                        } catch (primaryError: unknown) {
-                            const primaryMessage = getErrorMessage(primaryError);
-                            console.warn(`Primary model failed for support answer: ${primaryMessage}`);
-                            if (isServiceUnavailableError(primaryError)) {
-                                const { output } = await ai.generate({
-                                    model: AI_MODELS.MULTIMODAL_SECONDARY,
-                                    prompt: prompt,
-                                    output: { schema: supportAnswerSchema, format: 'json' },
-                                    config: { temperature: 0.1 },
-                                });
-                                return { output };
-                            } else {
-                                throw primaryError;
-                            }
-                        }
-                    })();
-                    response.currentAiResponseText = supportAnswerResult.output?.answer;
+                            .replace('{{{conversationHistory}}}', recentHistory),
+                        supportAnswerSchema,
+                        'support answer'
+                    );
+                    response.currentAiResponseText = output?.answer;
                     break;
-
-                case 'HANDLE_SALES_OBJECTION':
-                     const rebuttalResult = await (async () => {
-                        const prompt = objectionHandlerPromptText
+                }
+                case 'HANDLE_OBJECTION': {
+                    const output = await generateWithFallback(
+                        objectionHandlerPromptText
                             .replace('{{{userObjection}}}', currentUserInputText)
                             .replace('{{{knowledgeBaseContext}}}', knowledgeBaseContext)
-                            .replace('{{{conversationHistory}}}', serializeRecentHistory(response.conversationTurns, 8));
-                        try {
-                            const { output } = await ai.generate({
-                                model: AI_MODELS.MULTIMODAL_PRIMARY,
-                                prompt: prompt,
-                                output: { schema: objectionHandlerSchema, format: 'json' },
-                                config: { temperature: 0.1 },
-                            });
-                            return { output };
-                        } catch (primaryError: unknown) {
-                            const primaryMessage = getErrorMessage(primaryError);
-                            console.warn(`Primary model failed for objection handler: ${primaryMessage}`);
-                            if (isServiceUnavailableError(primaryError)) {
-                                const { output } = await ai.generate({
-                                    model: AI_MODELS.MULTIMODAL_SECONDARY,
-                                    prompt: prompt,
-                                    output: { schema: objectionHandlerSchema, format: 'json' },
-                                    config: { temperature: 0.1 },
-                                });
-                                return { output };
-                            } else {
-                                throw primaryError;
-                            }
-                        }
-                    })();
-                    response.currentAiResponseText = rebuttalResult.output?.rebuttal;
+                            .replace('{{{conversationHistory}}}', recentHistory),
+                        objectionHandlerSchema,
+                        'objection handler'
+                    );
+                    response.currentAiResponseText = output?.rebuttal;
                     break;
-
-                case 'CLOSING_STATEMENT':
-                    response.currentAiResponseText = "I understand. Thank you for your time. Have a great day!";
-                    response.nextExpectedAction = 'INTERACTION_ENDED';
+                }
+                case 'ATTEMPT_CLOSE': {
+                    const followUps = followUpCloses(flowInput);
+                    response.currentAiResponseText = dialogueAction.attempt === 1
+                        ? pitch.finalCallToAction
+                        : followUps[Math.min(dialogueAction.attempt - 2, followUps.length - 1)];
                     break;
-
-                case 'ACKNOWLEDGE_AND_WAIT':
-                    response.currentAiResponseText = "Okay.";
+                }
+                case 'ACKNOWLEDGE':
+                    response.currentAiResponseText = "Sorry, I didn't quite catch that. Could you say that again?";
                     break;
-                
-                default:
-                    response.currentAiResponseText = "I'm sorry, I'm not sure how to respond to that. Could you clarify?";
+
+                case 'WRAP_UP':
+                    response.currentAiResponseText = wrapUpLine(dialogueAction.outcome, flowInput);
+                    response.nextExpectedAction = 'INTERACTION_ENDED';
                     break;
             }
 
+            response.dialogueState = response.currentAiResponseText
+                ? recordAgentUtterance(transition.state, response.currentAiResponseText, pitch)
+                : transition.state;
+
         } else if (action === 'END_CALL') {
             response.currentAiResponseText = `Thank you for your time, ${flowInput.userName || "sir/ma'am"}. Have a great day.`;
             response.nextExpectedAction = 'INTERACTION_ENDED';
         } else {
-             throw new Error(`Invalid action received by the flow: ${action}.`);
+             throw new Error(`Invalid action received by the flow: ${String(action)}.`);
         }
         
         return response;
@@ -9,6 +9,7 @@ import { ai } from '@/ai/genkit';
 import { AI_MODELS } from '@/ai/config/models';
 import { VoiceSupportAgentFlowInputSchema, VoiceSupportAgentFlowOutputSchema } from '@/types';
 import type { VoiceSupportAgentFlowInput, VoiceSupportAgentFlowOutput } from '@/types';
+import { groundKnowledgeContext, type KnowledgeRetrievalOptions } from '@/lib/knowledge-retrieval';
 
 
 const generateSupportResponsePromptText = `You are a clear, factual, step-by-step support agent for {{{product}}}. Your name is {{{agentName}}}.
@@ -163,6 +164,18 @@ const runVoiceSupportAgentQueryFlow = ai.defineFlow(
   }
 );
 
-export async function runVoiceSupportAgentQuery(flowInput: VoiceSupportAgentFlowInput): Promise<VoiceSupportAgentFlowOutput> {
-  return runVoiceSupportAgentQueryFlow(flowInput);
+export async function runVoiceSupportAgentQuery(
+  flowInput: VoiceSupportAgentFlowInput,
+  options: KnowledgeRetrievalOptions = {}
+): Promise<VoiceSupportAgentFlowOutput> {
+  const grounded = await groundKnowledgeContext({
+    workspaceId: options.workspaceId,
+    product: flowInput.product,
+    queries: [flowInput.userQuery],
+    baseContext: flowInput.knowledgeBaseContext,
+  });
+  if (!grounded) return runVoiceSupportAgentQueryFlow(flowInput);
+
+  const result = await runVoiceSupportAgentQueryFlow({ ...flowInput, knowledgeBaseContext: grounded.knowledgeBaseContext });
+  return { ...result, sourcesUsed: grounded.sourcesUsed };
 }
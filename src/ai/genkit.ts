@@ -1,7 +1,6 @@
-import { GoogleGenerativeAI, type GenerativeModel, type Part } from '@google/generative-ai';
 import type { ZodTypeAny } from 'zod';
-
-type PromptPart = { text: string } | { media: { url: string; contentType?: string } };
+import { AI_MODELS } from '@/ai/config/models';
+import { parseModelRef, resolveModel, type PromptPart } from '@/ai/providers';
 
 type GenerateOptions = {
   model: string;
@@ -30,10 +29,11 @@ type PromptConfig<I extends TemplateContext> = {
   config?: { temperature?: number };
 };
 
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY;
-const GOOGLE_API_VERSION = process.env.GOOGLE_AI_API_VERSION || 'v1';
+const usesGoogleModels = Object.values(AI_MODELS).some(
+  (modelRef) => parseModelRef(modelRef).providerId === 'googleai'
+);
 
-if (!GOOGLE_API_KEY) {
+if (usesGoogleModels && !process.env.GOOGLE_API_KEY) {
   console.warn('⚠️ GOOGLE_API_KEY is not defined. Paid AI features will be disabled until it is configured.');
 }
 
@@ -151,84 +151,34 @@ const extractJson = (text: string): unknown => {
   }
 };
 
-const partFromPrompt = (part: PromptPart): Part => {
-  if ('text' in part) {
-    return { text: part.text };
-  }
-  const media = part.media;
-  if (!media?.url) {
-    return { text: '' };
-  }
-  if (media.url.startsWith('data:')) {
-    const match = media.url.match(/^data:(.+?);base64,(.+)$/);
-    if (!match) {
-      throw new Error('Invalid data URI media source.');
-    }
-    return {
-      inlineData: {
-        mimeType: media.contentType || match[1],
-        data: match[2],
-      },
-    };
-  }
-  return {
-    fileData: {
-      fileUri: media.url,
-      mimeType: media.contentType,
-    },
-  };
-};
-
-class GoogleAIClient {
-  private client: GoogleGenerativeAI | null;
-  private modelCache = new Map<string, GenerativeModel>();
-
-  constructor(apiKey?: string) {
-    this.client = apiKey ? new GoogleGenerativeAI(apiKey) : null;
-  }
-
-  private ensureModel(modelName: string): GenerativeModel {
-    if (!this.client) {
-      throw new Error('GOOGLE_API_KEY is not configured. Paid AI features cannot run.');
-    }
-    if (!this.modelCache.has(modelName)) {
-      this.modelCache.set(
-        modelName,
-        this.client.getGenerativeModel(
-          { model: modelName },
-          { apiVersion: GOOGLE_API_VERSION }
-        )
-      );
-    }
-    return this.modelCache.get(modelName)!;
-  }
-
-  private normalizePrompt(prompt: string | PromptPart[]): Part[] {
+/**
+ * Provider-agnostic client exposing the genkit-style `generate`, `defineFlow`
+ * and `definePrompt` API. The backend is chosen per call from the model
+ * reference (see `src/ai/providers`), while JSON extraction and schema
+ * validation are applied identically for every provider.
+ */
+class AIClient {
+  private normalizePrompt(prompt: string | PromptPart[]): PromptPart[] {
     if (typeof prompt === 'string') {
       return [{ text: prompt }];
     }
-    return prompt.map(partFromPrompt);
+    return prompt;
   }
 
   async generate<TOutput = unknown>(options: GenerateOptions): Promise<{ output: TOutput; usage?: unknown }> {
-    const model = this.ensureModel(options.model);
-    const wantsJson = options.output?.format === 'json';
-    const contents = [
-      {
-        role: 'user',
-        parts: this.normalizePrompt(options.prompt),
-      },
-    ];
-
-    const response = await model.generateContent({
-      contents,
-      generationConfig: {
-        temperature: options.config?.temperature ?? 0.4,
-        responseMimeType: wantsJson ? 'application/json' : undefined,
-      },
+    const { provider, model } = resolveModel(options.model);
+    const wantsJson =
+      options.output?.format === 'json' ||
+      (options.output?.format !== 'text' && Boolean(options.output?.schema));
+
+    const response = await provider.generate({
+      model,
+      prompt: this.normalizePrompt(options.prompt),
+      json: wantsJson,
+      temperature: options.config?.temperature ?? 0.4,
     });
 
-    const text = response.response.text() ?? '';
+    const text = response.text;
     let parsed: unknown = text;
 
     if (wantsJson) {
@@ -244,7 +194,7 @@ class GoogleAIClient {
 
     return {
       output: parsed as TOutput,
-      usage: response.response.usageMetadata,
+      usage: response.usage,
     };
   }
 
@@ -282,5 +232,5 @@ class GoogleAIClient {
   }
 }
 
-export const ai = new GoogleAIClient(GOOGLE_API_KEY);
+export const ai = new AIClient();
 export type { PromptPart };
@@ -0,0 +1,89 @@
+import { GoogleGenerativeAI, type GenerativeModel, type Part } from '@google/generative-ai';
+import {
+  parseDataUri,
+  type LLMProvider,
+  type PromptPart,
+  type ProviderGenerateRequest,
+  type ProviderGenerateResponse,
+} from './types';
+
+const GOOGLE_API_VERSION = process.env.GOOGLE_AI_API_VERSION || 'v1';
+
+const partFromPrompt = (part: PromptPart): Part => {
+  if ('text' in part) {
+    return { text: part.text };
+  }
+  const media = part.media;
+  if (!media?.url) {
+    return { text: '' };
+  }
+  const inline = parseDataUri(media.url);
+  if (inline) {
+    return {
+      inlineData: {
+        mimeType: media.contentType || inline.mimeType,
+        data: inline.data,
+      },
+    };
+  }
+  return {
+    fileData: {
+      fileUri: media.url,
+      mimeType: media.contentType ?? '',
+    },
+  };
+};
+
+/**
+ * Google Gemini backend. Supports inline and remote audio/image media.
+ */
+export class GoogleAIProvider implements LLMProvider {
+  readonly id = 'googleai' as const;
+  private client: GoogleGenerativeAI | null;
+  private modelCache = new Map<string, GenerativeModel>();
+
+  constructor(apiKey?: string) {
+    this.client = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+  }
+
+  unavailableReason(): string | null {
+    return this.client ? null : 'GOOGLE_API_KEY is not configured.';
+  }
+
+  private ensureModel(modelName: string): GenerativeModel {
+    if (!this.client) {
+      throw new Error('GOOGLE_API_KEY is not configured. Paid AI features cannot run.');
+    }
+    if (!this.modelCache.has(modelName)) {
+      this.modelCache.set(
+        modelName,
+        this.client.getGenerativeModel(
+          { model: modelName },
+          { apiVersion: GOOGLE_API_VERSION }
+        )
+      );
+    }
+    return this.modelCache.get(modelName)!;
+  }
+
+  async generate(request: ProviderGenerateRequest): Promise<ProviderGenerateResponse> {
+    const model = this.ensureModel(request.model);
+    const response = await model.generateContent({
+      contents: [
+        {
+          role: 'user',
+          parts: request.prompt.map(partFromPrompt),
+        },
+      ],
+      generationConfig: {
+        temperature: request.temperature,
+        responseMimeType: request.json ? 'application/json' : undefined,
+      },
+    });
+
+    return {
+      text: response.response.text() ?? '',
+      usage: response.response.usageMetadata,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Provider registry. Model references are either a bare model name (routed to
+ * Google Gemini, the historical default) or `<provider>/<model>`, e.g.
+ * `ollama/llama2` or `openai/gpt-4o-mini`.
+ */
+
+import { GoogleAIProvider } from './google';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider, ProviderId } from './types';
+
+export type { LLMProvider, PromptPart, ProviderGenerateRequest, ProviderGenerateResponse, ProviderId } from './types';
+
+const PROVIDER_IDS: readonly ProviderId[] = ['googleai', 'ollama', 'openai'];
+
+const providers = new Map<ProviderId, LLMProvider>();
+
+const createProvider = (id: ProviderId): LLMProvider => {
+  switch (id) {
+    case 'googleai':
+      return new GoogleAIProvider(process.env.GOOGLE_API_KEY);
+    case 'ollama':
+      return new OllamaProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+  }
+};
+
+export const isProviderId = (value: string): value is ProviderId =>
+  (PROVIDER_IDS as readonly string[]).includes(value);
+
+export function getProvider(id: ProviderId): LLMProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id);
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replaces the provider instance for an id. Useful for pointing a provider at
+ * a different endpoint at runtime or injecting a stub backend.
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function parseModelRef(modelRef: string): { providerId: ProviderId; model: string } {
+  const slash = modelRef.indexOf('/');
+  if (slash > 0) {
+    const prefix = modelRef.slice(0, slash);
+    if (isProviderId(prefix)) {
+      return { providerId: prefix, model: modelRef.slice(slash + 1) };
+    }
+  }
+  return { providerId: 'googleai', model: modelRef };
+}
+
+export function resolveModel(modelRef: string): { provider: LLMProvider; model: string } {
+  const { providerId, model } = parseModelRef(modelRef);
+  return { provider: getProvider(providerId), model };
+}
+
+/**
+ * Checks the configured models a feature needs before it starts work. Returns
+ * a message naming the first model whose provider cannot be used, or null when
+ * all of them can.
+ */
+export function unavailableModelsMessage(modelRefs: readonly string[]): string | null {
+  for (const modelRef of new Set(modelRefs)) {
+    const reason = resolveModel(modelRef).provider.unavailableReason();
+    if (reason) return `The configured model '${modelRef}' cannot be used: ${reason}`;
+  }
+  return null;
+}
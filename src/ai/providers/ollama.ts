@@ -0,0 +1,81 @@
+import {
+  parseDataUri,
+  type LLMProvider,
+  type ProviderGenerateRequest,
+  type ProviderGenerateResponse,
+} from './types';
+
+export const DEFAULT_OLLAMA_ENDPOINT = process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llama2';
+
+type OllamaChatResponse = {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+/**
+ * Local Ollama backend using the `/api/chat` endpoint.
+ * Only inline images are forwarded; audio prompts are rejected so that flows
+ * with a text-only fallback (transcript-based scoring, etc.) can take over.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly id = 'ollama' as const;
+
+  constructor(private endpoint: string = DEFAULT_OLLAMA_ENDPOINT) {}
+
+  // Whether the local server is running only shows when it is called.
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  async generate(request: ProviderGenerateRequest): Promise<ProviderGenerateResponse> {
+    const textParts: string[] = [];
+    const images: string[] = [];
+
+    for (const part of request.prompt) {
+      if ('text' in part) {
+        textParts.push(part.text);
+        continue;
+      }
+      const inline = part.media?.url ? parseDataUri(part.media.url) : null;
+      const mimeType = part.media?.contentType || inline?.mimeType || '';
+      if (!inline || !mimeType.startsWith('image/')) {
+        throw new Error(`Ollama provider does not support media of type "${mimeType || 'remote URL'}".`);
+      }
+      images.push(inline.data);
+    }
+
+    const response = await fetch(`${this.endpoint.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          {
+            role: 'user',
+            content: textParts.join('\n\n'),
+            ...(images.length > 0 ? { images } : {}),
+          },
+        ],
+        stream: false,
+        format: request.json ? 'json' : undefined,
+        options: { temperature: request.temperature },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Ollama error ${response.status}: ${errorBody}`);
+    }
+
+    const data = (await response.json()) as OllamaChatResponse;
+    return {
+      text: data.message?.content ?? '',
+      usage: {
+        promptTokenCount: data.prompt_eval_count,
+        candidatesTokenCount: data.eval_count,
+      },
+    };
+  }
+}
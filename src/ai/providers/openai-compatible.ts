@@ -0,0 +1,100 @@
+import {
+  parseDataUri,
+  type LLMProvider,
+  type PromptPart,
+  type ProviderGenerateRequest,
+  type ProviderGenerateResponse,
+} from './types';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL =
+  process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8000/v1';
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o-mini';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' | 'mp3' } };
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+const AUDIO_FORMATS: Record<string, 'wav' | 'mp3'> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+const contentFromPrompt = (part: PromptPart): ChatContentPart => {
+  if ('text' in part) {
+    return { type: 'text', text: part.text };
+  }
+  const url = part.media?.url ?? '';
+  const inline = parseDataUri(url);
+  const mimeType = part.media?.contentType || inline?.mimeType || '';
+
+  if (mimeType.startsWith('image/') || (!inline && !mimeType)) {
+    return { type: 'image_url', image_url: { url } };
+  }
+  const audioFormat = AUDIO_FORMATS[mimeType];
+  if (inline && audioFormat) {
+    return { type: 'input_audio', input_audio: { data: inline.data, format: audioFormat } };
+  }
+  throw new Error(`OpenAI-compatible provider does not support media of type "${mimeType}".`);
+};
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` API (OpenAI, vLLM,
+ * LM Studio, llama.cpp server, LiteLLM, Ollama's `/v1` shim, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+
+  constructor(
+    private baseUrl: string = DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    private apiKey: string | undefined = process.env.OPENAI_COMPATIBLE_API_KEY
+  ) {}
+
+  // Self-hosted servers usually need no key, so there is nothing to check up front.
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  async generate(request: ProviderGenerateRequest): Promise<ProviderGenerateResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt.map(contentFromPrompt) }],
+        temperature: request.temperature,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`OpenAI-compatible endpoint error ${response.status}: ${errorBody}`);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      usage: data.usage
+        ? {
+            promptTokenCount: data.usage.prompt_tokens,
+            candidatesTokenCount: data.usage.completion_tokens,
+            totalTokenCount: data.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+}
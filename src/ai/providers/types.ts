@@ -0,0 +1,46 @@
+/**
+ * Shared contract implemented by every LLM backend that `ai.generate`,
+ * `ai.definePrompt` and `ai.defineFlow` can route to.
+ *
+ * Providers only turn a prompt into raw text. JSON extraction and zod schema
+ * validation stay in `src/ai/genkit.ts` so every backend is held to the same
+ * output contract.
+ */
+
+export type PromptPart = { text: string } | { media: { url: string; contentType?: string } };
+
+export type ProviderId = 'googleai' | 'ollama' | 'openai';
+
+export interface ProviderGenerateRequest {
+  /** Provider-local model name (the `ollama/` or `openai/` prefix is already stripped). */
+  model: string;
+  prompt: PromptPart[];
+  /** When true the provider should ask the backend for a JSON-only response. */
+  json: boolean;
+  temperature: number;
+}
+
+export interface ProviderGenerateResponse {
+  text: string;
+  usage?: unknown;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  /** Why the provider cannot serve requests in this deployment (e.g. a missing key); null when it can. */
+  unavailableReason(): string | null;
+  generate(_request: ProviderGenerateRequest): Promise<ProviderGenerateResponse>;
+}
+
+/**
+ * Splits a `data:` URI into its MIME type and base64 payload.
+ * Returns null for remote URLs.
+ */
+export const parseDataUri = (url: string): { mimeType: string; data: string } | null => {
+  if (!url.startsWith('data:')) return null;
+  const match = url.match(/^data:(.+?);base64,(.+)$/);
+  if (!match) {
+    throw new Error('Invalid data URI media source.');
+  }
+  return { mimeType: match[1], data: match[2] };
+};
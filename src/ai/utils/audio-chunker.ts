@@ -0,0 +1,259 @@
+/**
+ * Splits long recordings into overlapping windows so each window can be
+ * transcribed in its own model call.
+ *
+ * Only formats that can be cut without re-encoding are supported: PCM WAV is cut
+ * on sample boundaries and MP3 on frame boundaries. Other formats return `null`
+ * from `planAudioChunks`, and callers fall back to a single model call.
+ */
+
+export const DEFAULT_CHUNK_SECONDS = 600;
+export const DEFAULT_CHUNK_OVERLAP_SECONDS = 15;
+
+export interface AudioChunkOptions {
+  /** Maximum length of one window, overlap included. */
+  chunkSeconds: number;
+  /** Audio shared by consecutive windows, used to stitch them back together. */
+  overlapSeconds: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  /** Position of the window within the full recording. */
+  startSeconds: number;
+  endSeconds: number;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface AudioChunkPlan {
+  format: 'wav' | 'mp3';
+  durationSeconds: number;
+  sampleRateHz: number;
+  chunks: AudioChunk[];
+}
+
+export function getChunkOptionsFromEnv(): AudioChunkOptions {
+  const chunkSeconds = Number(process.env.TRANSCRIPTION_CHUNK_SECONDS);
+  const overlapSeconds = Number(process.env.TRANSCRIPTION_CHUNK_OVERLAP_SECONDS);
+  const chunk = Number.isFinite(chunkSeconds) && chunkSeconds >= 60 ? chunkSeconds : DEFAULT_CHUNK_SECONDS;
+  const overlap =
+    Number.isFinite(overlapSeconds) && overlapSeconds >= 0 && overlapSeconds < chunk / 2
+      ? overlapSeconds
+      : Math.min(DEFAULT_CHUNK_OVERLAP_SECONDS, chunk / 4);
+  return { chunkSeconds: chunk, overlapSeconds: overlap };
+}
+
+/**
+ * Evenly sized windows covering `[0, durationSeconds]`, each at most
+ * `chunkSeconds` long and overlapping its neighbour by `overlapSeconds`.
+ */
+export function computeChunkWindows(
+  durationSeconds: number,
+  { chunkSeconds, overlapSeconds }: AudioChunkOptions
+): Array<{ startSeconds: number; endSeconds: number }> {
+  if (durationSeconds <= chunkSeconds) {
+    return [{ startSeconds: 0, endSeconds: durationSeconds }];
+  }
+  const count = Math.ceil((durationSeconds - overlapSeconds) / (chunkSeconds - overlapSeconds));
+  const step = (durationSeconds - overlapSeconds) / count;
+  return Array.from({ length: count }, (_, index) => ({
+    startSeconds: index * step,
+    endSeconds: index === count - 1 ? durationSeconds : index * step + step + overlapSeconds,
+  }));
+}
+
+export function detectSplittableFormat(audio: Buffer, mimeType?: string): 'wav' | 'mp3' | null {
+  if (audio.length >= 12 && audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (audio.length >= 3 && audio.toString('ascii', 0, 3) === 'ID3') {
+    return 'mp3';
+  }
+  if (audio.length >= 2 && audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0) {
+    return 'mp3';
+  }
+  if (mimeType && /mpeg|mp3/i.test(mimeType)) {
+    return 'mp3';
+  }
+  return null;
+}
+
+/**
+ * Cuts `audio` into overlapping windows. Returns `null` when the format cannot be
+ * split losslessly; a recording shorter than one window yields a single chunk.
+ */
+export function planAudioChunks(audio: Buffer, mimeType: string | undefined, options: AudioChunkOptions): AudioChunkPlan | null {
+  const format = detectSplittableFormat(audio, mimeType);
+  if (format === 'wav') return planWavChunks(audio, options);
+  if (format === 'mp3') return planMp3Chunks(audio, options);
+  return null;
+}
+
+// --- WAV ---
+
+interface WavLayout {
+  fmtChunk: Buffer;
+  sampleRate: number;
+  blockAlign: number;
+  byteRate: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+function parseWav(audio: Buffer): WavLayout | null {
+  let offset = 12;
+  let fmtChunk: Buffer | null = null;
+  while (offset + 8 <= audio.length) {
+    const id = audio.toString('ascii', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      fmtChunk = audio.subarray(offset, body + size);
+    } else if (id === 'data' && fmtChunk) {
+      const audioFormat = fmtChunk.readUInt16LE(8);
+      // 1 = PCM, 3 = IEEE float, 0xFFFE = extensible (PCM in practice for call recordings).
+      if (![1, 3, 0xfffe].includes(audioFormat)) return null;
+      const sampleRate = fmtChunk.readUInt32LE(12);
+      const byteRate = fmtChunk.readUInt32LE(16);
+      const blockAlign = fmtChunk.readUInt16LE(20);
+      if (!sampleRate || !byteRate || !blockAlign) return null;
+      // Streaming recorders sometimes leave the data size at 0 or 0xFFFFFFFF.
+      const dataLength = size === 0 || body + size > audio.length ? audio.length - body : size;
+      return { fmtChunk, sampleRate, blockAlign, byteRate, dataOffset: body, dataLength };
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+function buildWav(fmtChunk: Buffer, pcm: Buffer): Buffer {
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(4 + fmtChunk.length + 8 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write('data', 0, 'ascii');
+  dataHeader.writeUInt32LE(pcm.length, 4);
+  return Buffer.concat([header, fmtChunk, dataHeader, pcm]);
+}
+
+function planWavChunks(audio: Buffer, options: AudioChunkOptions): AudioChunkPlan | null {
+  const layout = parseWav(audio);
+  if (!layout) return null;
+  const durationSeconds = layout.dataLength / layout.byteRate;
+  const toByte = (seconds: number) =>
+    layout.dataOffset + Math.min(layout.dataLength, Math.round((seconds * layout.byteRate) / layout.blockAlign) * layout.blockAlign);
+
+  const chunks = computeChunkWindows(durationSeconds, options).map((window, index) => ({
+    index,
+    ...window,
+    mimeType: 'audio/wav',
+    data: buildWav(layout.fmtChunk, audio.subarray(toByte(window.startSeconds), toByte(window.endSeconds))),
+  }));
+  return { format: 'wav', durationSeconds, sampleRateHz: layout.sampleRate, chunks };
+}
+
+// --- MP3 ---
+
+const MP3_BITRATES_KBPS = {
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+interface Mp3Frame {
+  offset: number;
+  length: number;
+  samples: number;
+  sampleRate: number;
+}
+
+/** Parses a Layer II/III frame header at `offset`, or returns null if there is none. */
+function readMp3Frame(audio: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > audio.length || audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (audio[offset + 1] >> 3) & 0x3;
+  const layer = (audio[offset + 1] >> 1) & 0x3; // 1 = Layer III, 2 = Layer II
+  const bitrateIndex = audio[offset + 2] >> 4;
+  const sampleRateIndex = (audio[offset + 2] >> 2) & 0x3;
+  const padding = (audio[offset + 2] >> 1) & 0x1;
+  if (version === 1 || (layer !== 1 && layer !== 2) || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  const table = isMpeg1 ? (layer === 1 ? MP3_BITRATES_KBPS.v1l3 : MP3_BITRATES_KBPS.v1l2) : MP3_BITRATES_KBPS.v2;
+  const bitrate = table[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const samples = layer === 1 && !isMpeg1 ? 576 : 1152;
+  const length = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  return length > 4 ? { offset, length, samples, sampleRate } : null;
+}
+
+function skipId3(audio: Buffer): number {
+  if (audio.length < 10 || audio.toString('ascii', 0, 3) !== 'ID3') return 0;
+  const size = ((audio[6] & 0x7f) << 21) | ((audio[7] & 0x7f) << 14) | ((audio[8] & 0x7f) << 7) | (audio[9] & 0x7f);
+  return 10 + size + (audio[5] & 0x10 ? 10 : 0);
+}
+
+/** A Xing/Info frame carries the whole file's frame count, which would be wrong for a slice. */
+const isVbrInfoFrame = (audio: Buffer, frame: Mp3Frame): boolean => {
+  const head = audio.toString('latin1', frame.offset, Math.min(frame.offset + 48, frame.offset + frame.length));
+  return head.includes('Xing') || head.includes('Info') || head.includes('VBRI');
+};
+
+function planMp3Chunks(audio: Buffer, options: AudioChunkOptions): AudioChunkPlan | null {
+  const frames: Mp3Frame[] = [];
+  let offset = skipId3(audio);
+  while (offset + 4 <= audio.length) {
+    const frame = readMp3Frame(audio, offset);
+    // Require the next header to line up as well, so stray 0xFF bytes are not taken for a frame.
+    if (frame && (offset + frame.length >= audio.length || readMp3Frame(audio, offset + frame.length))) {
+      frames.push(frame);
+      offset += frame.length;
+    } else {
+      offset += 1;
+    }
+  }
+  if (frames.length > 0 && isVbrInfoFrame(audio, frames[0])) frames.shift();
+  if (frames.length === 0) return null;
+
+  const startTimes: number[] = [];
+  let elapsed = 0;
+  for (const frame of frames) {
+    startTimes.push(elapsed);
+    elapsed += frame.samples / frame.sampleRate;
+  }
+  const durationSeconds = elapsed;
+  // First frame starting at or after `seconds`.
+  const frameIndexAt = (seconds: number) => {
+    let low = 0;
+    let high = frames.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (startTimes[mid] < seconds) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const chunks = computeChunkWindows(durationSeconds, options).map((window, index) => {
+    const first = frameIndexAt(window.startSeconds);
+    const end = frameIndexAt(window.endSeconds);
+    const startByte = frames[first]?.offset ?? audio.length;
+    const endByte = end < frames.length ? frames[end].offset : frames[frames.length - 1].offset + frames[frames.length - 1].length;
+    return {
+      index,
+      startSeconds: startTimes[first] ?? window.startSeconds,
+      endSeconds: end < frames.length ? startTimes[end] : durationSeconds,
+      mimeType: 'audio/mpeg',
+      data: audio.subarray(startByte, Math.min(endByte, audio.length)),
+    };
+  });
+  return { format: 'mp3', durationSeconds, sampleRateHz: frames[0].sampleRate, chunks };
+}
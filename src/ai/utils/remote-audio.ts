@@ -0,0 +1,175 @@
+/**
+ * Downloads recordings referenced by `audioUrl`. The URL comes from API
+ * clients, so it is only fetched over http(s) from hosts that resolve to public
+ * addresses; otherwise a request could make the server read internal services
+ * or the cloud metadata endpoint. Addresses are checked when the connection is
+ * opened, so redirects and DNS changes after validation are covered too.
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { MAX_AUDIO_FILE_SIZE_BYTES, MAX_AUDIO_FILE_SIZE_MB } from "@/config/media";
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 120_000;
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["64:ff9b::", 96], // NAT64 of IPv4 addresses
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Servers often answer with a generic content type; fall back to the file extension.
+const AUDIO_MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  webm: "audio/webm",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  opus: "audio/opus",
+  aac: "audio/aac",
+  amr: "audio/amr",
+  "3gp": "audio/3gpp",
+};
+
+export interface RemoteAudio {
+  audio: Buffer;
+  mimeType: string;
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 subnets.
+const isBlockedAddress = (address: string): boolean =>
+  BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+const blockedHostError = (hostname: string, address: string) =>
+  new Error(`Audio URL host ${hostname} resolves to a private or reserved address (${address}); only public hosts can be fetched.`);
+
+/** `dns.lookup` that refuses private, loopback and link-local answers. */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      callback(blockedHostError(hostname, blocked.address), "", 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Throws unless `value` is an http(s) URL whose host is not a private, loopback
+ * or link-local IP literal. Hostnames are checked again when they are resolved.
+ */
+export function assertFetchableAudioUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Audio URL is not a valid URL.");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Audio URL must use http or https.");
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw blockedHostError(host, host);
+  }
+  return url;
+}
+
+function guessMimeType(url: URL, contentType: string | undefined): string {
+  const declared = contentType?.split(";")[0].trim().toLowerCase();
+  if (declared?.startsWith("audio/") || declared === "video/mp4") {
+    return declared === "video/mp4" ? "audio/mp4" : declared;
+  }
+  const extension = url.pathname.split(".").pop()?.toLowerCase() ?? "";
+  return AUDIO_MIME_TYPES_BY_EXTENSION[extension] ?? declared ?? "application/octet-stream";
+}
+
+function getOnce(url: URL): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { lookup: publicOnlyLookup, timeout: DOWNLOAD_TIMEOUT_MS }, resolve);
+    request.on("timeout", () => request.destroy(new Error("Timed out downloading the audio URL.")));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Downloads the recording at `audioUrl`, following up to five redirects.
+ * Rejects non-public hosts and recordings over the audio upload limit.
+ */
+export async function downloadAudioUrl(audioUrl: string): Promise<RemoteAudio> {
+  let url = assertFetchableAudioUrl(audioUrl);
+  for (let redirects = 0; ; redirects++) {
+    const response = await getOnce(url);
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error("Audio URL redirected too many times.");
+      }
+      url = assertFetchableAudioUrl(new URL(response.headers.location, url).toString());
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Audio URL answered with status ${status}.`);
+    }
+    if (Number(response.headers["content-length"]) > MAX_AUDIO_FILE_SIZE_BYTES) {
+      response.destroy();
+      throw new Error(`Audio URL points to a file larger than ${MAX_AUDIO_FILE_SIZE_MB}MB.`);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > MAX_AUDIO_FILE_SIZE_BYTES) {
+        response.destroy();
+        throw new Error(`Audio URL points to a file larger than ${MAX_AUDIO_FILE_SIZE_MB}MB.`);
+      }
+      chunks.push(chunk);
+    }
+    return { audio: Buffer.concat(chunks), mimeType: guessMimeType(url, response.headers["content-type"]) };
+  }
+}
+
+/** `downloadAudioUrl` as a data URI, the form the flows pass to the model. */
+export async function downloadAudioUrlAsDataUri(audioUrl: string): Promise<string> {
+  const { audio, mimeType } = await downloadAudioUrl(audioUrl);
+  return `data:${mimeType};base64,${audio.toString("base64")}`;
+}
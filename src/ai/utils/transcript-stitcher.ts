@@ -0,0 +1,187 @@
+/**
+ * Stitches per-window transcripts of one long call back into a single
+ * `TranscriptionOutput`. Windows come from `planAudioChunks` and overlap their
+ * neighbour, which is what lets this module line speakers up across windows and
+ * drop the text that was transcribed twice.
+ */
+import type { TranscriptionOutput } from '@/types';
+
+type Segment = TranscriptionOutput['segments'][number];
+
+export interface ChunkTranscript {
+  /** Position of the window within the full recording. */
+  startSeconds: number;
+  endSeconds: number;
+  /** Model output with timestamps relative to the start of the window. */
+  output: TranscriptionOutput;
+}
+
+/** Below this word-overlap ratio two segments are treated as different utterances. */
+const DUPLICATE_SIMILARITY = 0.6;
+/** How far apart (seconds) the same utterance may be timestamped by two windows. */
+const MATCH_TOLERANCE_SECONDS = 4;
+
+const normalizeWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/**
+ * Share of the shorter text's words that also appear in the longer one, so a
+ * sentence cut off at a window edge still matches its complete version.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = normalizeWords(a);
+  const wordsB = normalizeWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  const pool = new Map<string, number>();
+  longer.forEach((word) => pool.set(word, (pool.get(word) ?? 0) + 1));
+  let shared = 0;
+  for (const word of shorter) {
+    const count = pool.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      pool.set(word, count - 1);
+    }
+  }
+  return shared / shorter.length;
+}
+
+const speakerKey = (segment: Pick<Segment, 'speaker' | 'speakerProfile'>) => `${segment.speaker}|${segment.speakerProfile}`;
+
+const profileName = (profile: string): string | null => profile.match(/\(([^)]+)\)/)?.[1]?.trim().toLowerCase() ?? null;
+
+const isSameUtterance = (a: Segment, b: Segment) =>
+  Math.abs(a.startSeconds - b.startSeconds) <= MATCH_TOLERANCE_SECONDS &&
+  textSimilarity(a.text, b.text) >= DUPLICATE_SIMILARITY;
+
+/**
+ * Maps each speaker label of the incoming window onto the label already used for
+ * the same voice. Labels are matched by the utterances both windows heard in
+ * their overlap, then by the name in `speakerProfile`, then — when the earlier
+ * windows only ever had one agent or one customer — by role.
+ */
+function reconcileSpeakers(stitched: Segment[], incoming: Segment[], overlapEnd: number): Map<string, Pick<Segment, 'speaker' | 'speakerProfile'>> {
+  const mapping = new Map<string, Pick<Segment, 'speaker' | 'speakerProfile'>>();
+  type Tally = Map<string, { label: Pick<Segment, 'speaker' | 'speakerProfile'>; count: number }>;
+  const votes = new Map<string, Tally>();
+
+  const overlapStart = incoming[0]?.startSeconds ?? overlapEnd;
+  const previous = stitched.filter((segment) => segment.endSeconds >= overlapStart - MATCH_TOLERANCE_SECONDS);
+  for (const segment of incoming) {
+    if (segment.startSeconds > overlapEnd || segment.speaker === 'SYSTEM') continue;
+    const match = previous.find((candidate) => candidate.speaker !== 'SYSTEM' && isSameUtterance(candidate, segment));
+    if (!match) continue;
+    const tally = votes.get(speakerKey(segment)) ?? (new Map() as Tally);
+    const entry = tally.get(speakerKey(match)) ?? { label: { speaker: match.speaker, speakerProfile: match.speakerProfile }, count: 0 };
+    entry.count++;
+    tally.set(speakerKey(match), entry);
+    votes.set(speakerKey(segment), tally);
+  }
+  votes.forEach((tally, key) => {
+    const best = [...tally.values()].sort((a, b) => b.count - a.count)[0];
+    if (best) mapping.set(key, best.label);
+  });
+
+  const known = new Map<string, Pick<Segment, 'speaker' | 'speakerProfile'>>();
+  stitched.forEach((segment) => {
+    if (segment.speaker !== 'SYSTEM') known.set(speakerKey(segment), { speaker: segment.speaker, speakerProfile: segment.speakerProfile });
+  });
+  const knownLabels = [...known.values()];
+
+  for (const segment of incoming) {
+    const key = speakerKey(segment);
+    if (segment.speaker === 'SYSTEM' || mapping.has(key) || known.has(key)) continue;
+    const name = profileName(segment.speakerProfile);
+    const byName = name ? knownLabels.filter((label) => profileName(label.speakerProfile) === name) : [];
+    const byRole = knownLabels.filter((label) => label.speaker === segment.speaker);
+    if (byName.length === 1) {
+      mapping.set(key, byName[0]);
+    } else if (byRole.length === 1 && (!name || !profileName(byRole[0].speakerProfile))) {
+      mapping.set(key, byRole[0]);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Merges window transcripts (in recording order) into one transcript covering
+ * the whole call. The returned `summary` is a plain merge of the window
+ * summaries; callers that can afford another model call should replace it with
+ * a summary of the stitched segments.
+ */
+export function stitchChunkTranscripts(
+  chunks: ChunkTranscript[],
+  callMeta: TranscriptionOutput['callMeta']
+): TranscriptionOutput {
+  const stitched: Segment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const windowLength = chunk.endSeconds - chunk.startSeconds;
+    const offsetSegments = chunk.output.segments
+      .map((segment) => ({
+        ...segment,
+        startSeconds: chunk.startSeconds + Math.max(0, Math.min(segment.startSeconds, windowLength)),
+        endSeconds: chunk.startSeconds + Math.max(0, Math.min(segment.endSeconds, windowLength)),
+      }))
+      .sort((a, b) => a.startSeconds - b.startSeconds);
+
+    if (index === 0) {
+      stitched.push(...offsetSegments);
+      return;
+    }
+
+    const previousEnd = chunks[index - 1].endSeconds;
+    const mapping = reconcileSpeakers(stitched, offsetSegments, previousEnd);
+    const relabelled = offsetSegments.map((segment) => ({ ...segment, ...mapping.get(speakerKey(segment)) }));
+
+    // Each window owns the first half of the overlap it shares with the next one.
+    const cut = (chunk.startSeconds + previousEnd) / 2;
+    const handedOver: Segment[] = [];
+    while (stitched.length > 0 && stitched[stitched.length - 1].startSeconds >= cut) {
+      handedOver.push(stitched.pop()!);
+    }
+    // An utterance the new window timestamps just before the cut would otherwise be lost.
+    const claimed = relabelled.filter((segment) => segment.startSeconds >= cut);
+    stitched.push(...handedOver.filter((segment) => !claimed.some((candidate) => isSameUtterance(candidate, segment))).reverse());
+    const boundary = stitched.filter((segment) => segment.endSeconds >= chunk.startSeconds - MATCH_TOLERANCE_SECONDS);
+
+    for (const segment of relabelled) {
+      if (segment.startSeconds < cut) continue;
+      if (segment.startSeconds <= previousEnd) {
+        const duplicate = boundary.find((kept) => isSameUtterance(kept, segment));
+        if (duplicate) {
+          // Keep the fuller rendering; the earlier window may have cut the utterance off.
+          if (normalizeWords(segment.text).length > normalizeWords(duplicate.text).length) {
+            duplicate.text = segment.text;
+            duplicate.endSeconds = Math.max(duplicate.endSeconds, segment.endSeconds);
+          }
+          continue;
+        }
+      }
+      stitched.push(segment);
+    }
+    stitched.sort((a, b) => a.startSeconds - b.startSeconds);
+  });
+
+  return {
+    callMeta,
+    segments: stitched.map((segment) => ({ ...segment, endSeconds: Math.max(segment.endSeconds, segment.startSeconds) })),
+    summary: mergeChunkSummaries(chunks.map((chunk) => chunk.output.summary)),
+  };
+}
+
+export function mergeChunkSummaries(summaries: TranscriptionOutput['summary'][]): TranscriptionOutput['summary'] {
+  const unique = (items: string[]) => [...new Set(items.map((item) => item.trim()).filter(Boolean))];
+  return {
+    overview: summaries
+      .map((summary, index) => (summaries.length > 1 ? `Part ${index + 1}: ${summary.overview}` : summary.overview))
+      .join('\n'),
+    keyPoints: unique(summaries.flatMap((summary) => summary.keyPoints)),
+    actions: unique(summaries.flatMap((summary) => summary.actions)),
+  };
+}
@@ -2,7 +2,8 @@
 "use client";
 
 import { useState, useMemo, useEffect } from 'react';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { ActivityTable } from '@/components/features/activity-dashboard/activity-table';
 import { ActivityDashboardFilters, ActivityFilters } from '@/components/features/activity-dashboard/filters';
 import { PageHeader } from '@/components/layout/page-header';
@@ -194,9 +195,7 @@ export default function ActivityDashboardPage() {
             <Skeleton className="h-20 w-full" />
           </div>
         )}
-         <div className="text-xs text-muted-foreground p-4 border-t">
-          Note: Activity details are textual summaries. Direct links to generated outputs are not available in this version. Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries.
-        </div>
+         <ActivityHistoryPager note="Note: Activity details are textual summaries. Direct links to generated outputs are not available in this version." />
       </main>
     </div>
   );
@@ -0,0 +1,286 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, FileJson, KeyRound, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  API_KEY_HEADER,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  API_KEY_SCOPES,
+  DEFAULT_API_KEY_QUOTA_PER_HOUR,
+  type ApiKey,
+  type ApiKeyInput,
+  type ApiKeyScope,
+  type ApiKeyWithSecret,
+} from '@/lib/public-api/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  scopes: [] as ApiKeyScope[],
+  quotaPerHour: String(DEFAULT_API_KEY_QUOTA_PER_HOUR),
+};
+
+type KeyForm = typeof EMPTY_FORM;
+
+const toInput = (form: KeyForm): ApiKeyInput => ({
+  name: form.name.trim(),
+  scopes: form.scopes,
+  quotaPerHour: Number(form.quotaPerHour),
+});
+
+const toForm = (key: ApiKey): KeyForm => ({
+  name: key.name,
+  scopes: key.scopes,
+  quotaPerHour: String(key.quotaPerHour),
+});
+
+export default function ApiKeysPage() {
+  const { toast } = useToast();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<KeyForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<ApiKeyWithSecret | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      setKeys(await apiRequest<ApiKey[]>('/api/admin/api-keys'));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Load API Keys', description: (error as Error).message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) =>
+    setForm((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter((entry) => entry !== scope),
+    }));
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await apiRequest<ApiKey>(`/api/admin/api-keys/${encodeURIComponent(editingId)}`, {
+          method: 'PUT',
+          body: JSON.stringify(toInput(form)),
+        });
+        toast({ title: 'API Key Updated', description: `"${form.name}" now allows ${form.quotaPerHour} requests per hour.` });
+      } else {
+        setIssuedKey(
+          await apiRequest<ApiKeyWithSecret>('/api/admin/api-keys', { method: 'POST', body: JSON.stringify(toInput(form)) })
+        );
+        toast({ title: 'API Key Issued', description: 'Copy the key now; it is not shown again.' });
+      }
+      resetForm();
+      await loadKeys();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Save API Key', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Integrations using it stop working straight away.`)) return;
+    try {
+      await apiRequest(`/api/admin/api-keys/${encodeURIComponent(key.id)}`, { method: 'DELETE' });
+      if (editingId === key.id) resetForm();
+      setKeys((prev) => prev.filter((entry) => entry.id !== key.id));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Revoke Failed', description: (error as Error).message });
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!issuedKey) return;
+    try {
+      await navigator.clipboard.writeText(issuedKey.key);
+      toast({ title: 'API Key Copied' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy Failed', description: 'Select the key and copy it manually.' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="API Keys" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        {issuedKey && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Key for &quot;{issuedKey.name}&quot;</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>
+                Store it with the integration now; it is not shown again. Send it as <code>Authorization: Bearer &lt;key&gt;</code>{' '}
+                or in the <code>{API_KEY_HEADER}</code> header.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="rounded bg-muted px-2 py-1 text-xs break-all">{issuedKey.key}</code>
+                <Button size="sm" variant="outline" onClick={() => void handleCopyKey()}>
+                  <Copy className="mr-1 h-3 w-3" /> Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIssuedKey(null)}>Done</Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><KeyRound className="mr-2 h-5 w-5 text-primary" /> Keys</CardTitle>
+            <CardDescription>
+              Keys authenticate calls to the <code>/api/v1</code> routes. Each key works in the workspace it was issued in, only
+              for the scopes it was granted, and up to its hourly quota.{' '}
+              <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="inline-flex items-center text-primary underline">
+                <FileJson className="mr-1 h-3 w-3" /> OpenAPI document
+              </a>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading keys…
+              </div>
+            ) : keys.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No keys yet. Issue one below.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Quota</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((key) => (
+                    <TableRow key={key.id}>
+                      <TableCell className="font-medium">
+                        {key.name}
+                        <div className="text-xs text-muted-foreground">by {key.createdByName}</div>
+                      </TableCell>
+                      <TableCell><code className="text-xs">{key.prefix}…</code></TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{key.quotaPerHour}/hour</TableCell>
+                      <TableCell className="text-xs">
+                        {key.lastUsedAt ? formatDistanceToNow(parseISO(key.lastUsedAt), { addSuffix: true }) : <span className="text-muted-foreground">Never</span>}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button size="icon" variant="ghost" onClick={() => { setForm(toForm(key)); setEditingId(key.id); }} aria-label={`Edit ${key.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => void handleRevoke(key)} aria-label={`Revoke ${key.name}`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              {editingId ? <Pencil className="mr-2 h-5 w-5 text-primary" /> : <Plus className="mr-2 h-5 w-5 text-primary" />}
+              {editingId ? `Edit "${form.name}"` : 'Issue Key'}
+            </CardTitle>
+            <CardDescription>New keys are issued in your workspace: its rubrics, knowledge base and webhooks apply to their requests.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={(event) => void handleSubmit(event)}>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="key-name">Name</Label>
+                  <Input id="key-name" value={form.name} placeholder="e.g. CRM production" onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-quota">Requests per hour</Label>
+                  <Input
+                    id="key-quota"
+                    type="number"
+                    min={1}
+                    value={form.quotaPerHour}
+                    onChange={(event) => setForm((prev) => ({ ...prev, quotaPerHour: event.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid gap-3 md:grid-cols-2">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <div key={scope} className="flex items-start gap-2">
+                      <Checkbox id={`scope-${scope}`} checked={form.scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                      <div className="grid gap-0.5">
+                        <Label htmlFor={`scope-${scope}`} className="font-mono text-xs">{scope}</Label>
+                        <p className="text-xs text-muted-foreground">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving || form.scopes.length === 0}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingId ? 'Save Changes' : 'Issue Key'}
+                </Button>
+                {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
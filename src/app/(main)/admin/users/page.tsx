@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building2, Loader2, UserPlus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ROLE_LABELS } from '@/lib/auth/roles';
+import { DEFAULT_WORKSPACE_ID, USER_ROLES, type AuthUser, type UserRole, type Workspace } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const EMPTY_NEW_USER = {
+  username: '',
+  displayName: '',
+  password: '',
+  role: 'agent' as UserRole,
+  workspaceId: DEFAULT_WORKSPACE_ID,
+};
+
+export default function UserManagementPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newUser, setNewUser] = useState(EMPTY_NEW_USER);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [userList, workspaceList] = await Promise.all([
+        apiRequest<AuthUser[]>('/api/admin/users'),
+        apiRequest<Workspace[]>('/api/admin/workspaces'),
+      ]);
+      setUsers(userList);
+      setWorkspaces(workspaceList);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Load Users', description: (error as Error).message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const updateUser = async (id: string, changes: Partial<Pick<AuthUser, 'role' | 'workspaceId' | 'disabled'>>) => {
+    try {
+      const updated = await apiRequest<AuthUser>(`/api/admin/users/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      setUsers((prev) => prev.map((user) => (user.id === id ? updated : user)));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Update Failed', description: (error as Error).message });
+    }
+  };
+
+  const handleCreateUser = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const created = await apiRequest<AuthUser>('/api/admin/users', {
+        method: 'POST',
+        body: JSON.stringify({ ...newUser, displayName: newUser.displayName.trim() || undefined }),
+      });
+      setUsers((prev) => [...prev, created]);
+      setNewUser(EMPTY_NEW_USER);
+      toast({ title: 'User Created', description: `"${created.displayName}" can now sign in.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Create User', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateWorkspace = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      const created = await apiRequest<Workspace>('/api/admin/workspaces', {
+        method: 'POST',
+        body: JSON.stringify({ name: newWorkspaceName }),
+      });
+      setWorkspaces((prev) => [...prev, created]);
+      setNewWorkspaceName('');
+      toast({ title: 'Workspace Created', description: `"${created.name}" is ready for users.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Create Workspace', description: (error as Error).message });
+    }
+  };
+
+  const workspaceName = (id: string) => workspaces.find((workspace) => workspace.id === id)?.name ?? id;
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="User Management" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><Users className="mr-2 h-5 w-5 text-primary" /> Users</CardTitle>
+            <CardDescription>
+              Roles decide what each person can do; workspaces decide whose products, knowledge base and activity history they see.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading users…
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Sign-in</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Workspace</TableHead>
+                    <TableHead className="text-right">Active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id}>
+                        <TableCell className="font-medium">{user.displayName}</TableCell>
+                        <TableCell>{user.username}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{user.authProvider === 'oidc' ? 'SSO' : 'Password'}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(role) => void updateUser(user.id, { role: role as UserRole })}
+                            disabled={isSelf}
+                          >
+                            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.workspaceId}
+                            onValueChange={(workspaceId) => void updateUser(user.id, { workspaceId })}
+                          >
+                            <SelectTrigger className="w-48"><SelectValue>{workspaceName(user.workspaceId)}</SelectValue></SelectTrigger>
+                            <SelectContent>
+                              {workspaces.map((workspace) => (
+                                <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Switch
+                            checked={!user.disabled}
+                            onCheckedChange={(active) => void updateUser(user.id, { disabled: !active })}
+                            disabled={isSelf}
+                            aria-label={`Toggle access for ${user.displayName}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center"><UserPlus className="mr-2 h-5 w-5 text-primary" /> Add User</CardTitle>
+              <CardDescription>Creates a password account. SSO users are added automatically on their first sign-in.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form className="space-y-4" onSubmit={(event) => void handleCreateUser(event)}>
+                <div className="space-y-2">
+                  <Label htmlFor="new-username">Username</Label>
+                  <Input
+                    id="new-username"
+                    value={newUser.username}
+                    onChange={(event) => setNewUser((prev) => ({ ...prev, username: event.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-display-name">Display Name</Label>
+                  <Input
+                    id="new-display-name"
+                    value={newUser.displayName}
+                    placeholder="Defaults to the username"
+                    onChange={(event) => setNewUser((prev) => ({ ...prev, displayName: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">Initial Password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newUser.password}
+                    onChange={(event) => setNewUser((prev) => ({ ...prev, password: event.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Role</Label>
+                    <Select value={newUser.role} onValueChange={(role) => setNewUser((prev) => ({ ...prev, role: role as UserRole }))}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Workspace</Label>
+                    <Select value={newUser.workspaceId} onValueChange={(workspaceId) => setNewUser((prev) => ({ ...prev, workspaceId }))}>
+                      <SelectTrigger><SelectValue>{workspaceName(newUser.workspaceId)}</SelectValue></SelectTrigger>
+                      <SelectContent>
+                        {workspaces.map((workspace) => (
+                          <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                  Create User
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center"><Building2 className="mr-2 h-5 w-5 text-primary" /> Workspaces</CardTitle>
+              <CardDescription>Each team gets its own catalog, knowledge base and activity history.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-1 text-sm">
+                {workspaces.map((workspace) => (
+                  <li key={workspace.id} className="flex items-center justify-between">
+                    <span>{workspace.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {users.filter((user) => user.workspaceId === workspace.id).length} user(s)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <form className="flex gap-2" onSubmit={(event) => void handleCreateWorkspace(event)}>
+                <Input
+                  value={newWorkspaceName}
+                  placeholder="New workspace name"
+                  onChange={(event) => setNewWorkspaceName(event.target.value)}
+                  required
+                />
+                <Button type="submit" variant="outline">Add</Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,511 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Eye, KeyRound, Loader2, Pencil, Plus, RefreshCw, RotateCcw, Trash2, Webhook } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_HEADERS,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  type WebhookSubscription,
+  type WebhookSubscriptionInput,
+  type WebhookSubscriptionWithSecret,
+} from '@/lib/webhooks/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  url: '',
+  events: [] as WebhookEventType[],
+  enabled: true,
+};
+
+type SubscriptionForm = typeof EMPTY_FORM;
+
+const ALL_FILTER = 'all';
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  Pending: 'secondary',
+  Delivered: 'default',
+  Failed: 'destructive',
+};
+
+const toInput = (form: SubscriptionForm, rotateSecret?: boolean): WebhookSubscriptionInput => ({
+  name: form.name.trim(),
+  url: form.url.trim(),
+  events: form.events,
+  enabled: form.enabled,
+  rotateSecret,
+});
+
+const toForm = (subscription: WebhookSubscription): SubscriptionForm => ({
+  name: subscription.name,
+  url: subscription.url,
+  events: subscription.events,
+  enabled: subscription.enabled,
+});
+
+const prettyPayload = (payload: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+export default function WebhooksPage() {
+  const { toast } = useToast();
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [subscriptionFilter, setSubscriptionFilter] = useState(ALL_FILTER);
+  const [statusFilter, setStatusFilter] = useState(ALL_FILTER);
+  const [replayingIds, setReplayingIds] = useState<Set<string>>(new Set());
+  const [viewedDelivery, setViewedDelivery] = useState<WebhookDelivery | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setSubscriptions(await apiRequest<WebhookSubscription[]>('/api/admin/webhooks/subscriptions'));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Load Subscriptions', description: (error as Error).message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const loadDeliveries = useCallback(async () => {
+    setIsLoadingDeliveries(true);
+    const params = new URLSearchParams({ limit: '100' });
+    if (subscriptionFilter !== ALL_FILTER) params.set('subscriptionId', subscriptionFilter);
+    if (statusFilter !== ALL_FILTER) params.set('status', statusFilter);
+    try {
+      setDeliveries(await apiRequest<WebhookDelivery[]>(`/api/admin/webhooks/deliveries?${params.toString()}`));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Load Deliveries', description: (error as Error).message });
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  }, [subscriptionFilter, statusFilter, toast]);
+
+  useEffect(() => {
+    void loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  useEffect(() => {
+    void loadDeliveries();
+  }, [loadDeliveries]);
+
+  const setField = <K extends keyof SubscriptionForm>(field: K, value: SubscriptionForm[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const toggleEvent = (eventType: WebhookEventType, checked: boolean) =>
+    setForm((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, eventType] : prev.events.filter((entry) => entry !== eventType),
+    }));
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const subscriptionName = (id: string) => subscriptions.find((subscription) => subscription.id === id)?.name ?? 'Deleted subscription';
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await apiRequest(`/api/admin/webhooks/subscriptions/${encodeURIComponent(editingId)}`, {
+          method: 'PUT',
+          body: JSON.stringify(toInput(form)),
+        });
+        toast({ title: 'Subscription Updated', description: `"${form.name}" now receives ${form.events.length} event type(s).` });
+      } else {
+        const created = await apiRequest<WebhookSubscriptionWithSecret>('/api/admin/webhooks/subscriptions', {
+          method: 'POST',
+          body: JSON.stringify(toInput(form)),
+        });
+        setRevealedSecret({ name: created.name, secret: created.secret });
+        toast({ title: 'Subscription Added', description: 'Copy the signing secret now; it is not shown again.' });
+      }
+      resetForm();
+      await loadSubscriptions();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Save Subscription', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (subscription: WebhookSubscription, enabled: boolean) => {
+    try {
+      await apiRequest(`/api/admin/webhooks/subscriptions/${encodeURIComponent(subscription.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(toInput({ ...toForm(subscription), enabled })),
+      });
+      await loadSubscriptions();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Update Failed', description: (error as Error).message });
+    }
+  };
+
+  const handleRotateSecret = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Generate a new signing secret for "${subscription.name}"? The receiver must be updated before it can verify new deliveries.`)) return;
+    try {
+      const updated = await apiRequest<WebhookSubscriptionWithSecret>(`/api/admin/webhooks/subscriptions/${encodeURIComponent(subscription.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(toInput(toForm(subscription), true)),
+      });
+      setRevealedSecret({ name: updated.name, secret: updated.secret });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Rotate Secret', description: (error as Error).message });
+    }
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete "${subscription.name}" and its delivery log?`)) return;
+    try {
+      await apiRequest(`/api/admin/webhooks/subscriptions/${encodeURIComponent(subscription.id)}`, { method: 'DELETE' });
+      if (editingId === subscription.id) resetForm();
+      if (subscriptionFilter === subscription.id) setSubscriptionFilter(ALL_FILTER);
+      setSubscriptions((prev) => prev.filter((entry) => entry.id !== subscription.id));
+      await loadDeliveries();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Delete Failed', description: (error as Error).message });
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingIds((prev) => new Set(prev).add(delivery.id));
+    try {
+      await apiRequest<WebhookDelivery>(`/api/admin/webhooks/deliveries/${encodeURIComponent(delivery.id)}/replay`, { method: 'POST' });
+      toast({ title: 'Replay Queued', description: `${delivery.eventType} is being sent to "${subscriptionName(delivery.subscriptionId)}" again.` });
+      await loadDeliveries();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Replay Failed', description: (error as Error).message });
+    } finally {
+      setReplayingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(delivery.id);
+        return next;
+      });
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!revealedSecret) return;
+    try {
+      await navigator.clipboard.writeText(revealedSecret.secret);
+      toast({ title: 'Secret Copied' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy Failed', description: 'Select the secret and copy it manually.' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="Webhooks" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        {revealedSecret && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Signing secret for &quot;{revealedSecret.name}&quot;</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>
+                Store it with the receiver now; it is not shown again. Each request carries{' '}
+                <code>{WEBHOOK_HEADERS.signature}: sha256=HMAC(secret, timestamp + &quot;.&quot; + body)</code>, with the timestamp
+                in <code>{WEBHOOK_HEADERS.timestamp}</code>.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="rounded bg-muted px-2 py-1 text-xs break-all">{revealedSecret.secret}</code>
+                <Button size="sm" variant="outline" onClick={() => void handleCopySecret()}>
+                  <Copy className="mr-1 h-3 w-3" /> Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setRevealedSecret(null)}>Done</Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><Webhook className="mr-2 h-5 w-5 text-primary" /> Subscriptions</CardTitle>
+            <CardDescription>
+              Each subscription receives the selected events from the workspace it was created in, as signed JSON POSTs.
+              Failed deliveries are retried with backoff; server errors, 408 and 429 responses and network errors count as
+              failures.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading subscriptions…
+              </div>
+            ) : subscriptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No subscriptions yet. Add one below.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => (
+                    <TableRow key={subscription.id}>
+                      <TableCell className="font-medium">{subscription.name}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground break-all">{subscription.url}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {subscription.events.map((eventType) => (
+                            <Badge key={eventType} variant="outline">{eventType}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={subscription.enabled}
+                          onCheckedChange={(enabled) => void handleToggle(subscription, enabled)}
+                          aria-label={`Toggle deliveries to ${subscription.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button size="sm" variant="outline" onClick={() => void handleRotateSecret(subscription)}>
+                          <KeyRound className="mr-1 h-3 w-3" /> New Secret
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => { setForm(toForm(subscription)); setEditingId(subscription.id); }} aria-label={`Edit ${subscription.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => void handleDelete(subscription)} aria-label={`Delete ${subscription.name}`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              {editingId ? <Pencil className="mr-2 h-5 w-5 text-primary" /> : <Plus className="mr-2 h-5 w-5 text-primary" />}
+              {editingId ? `Edit "${form.name}"` : 'Add Subscription'}
+            </CardTitle>
+            <CardDescription>New subscriptions receive events from your workspace. The signing secret is shown once, after saving.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={(event) => void handleSubmit(event)}>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-name">Name</Label>
+                  <Input id="webhook-name" value={form.name} onChange={(event) => setField('name', event.target.value)} required />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="webhook-url">Endpoint URL</Label>
+                  <Input
+                    id="webhook-url"
+                    type="url"
+                    value={form.url}
+                    placeholder="https://crm.example.com/hooks/telesuite"
+                    onChange={(event) => setField('url', event.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid gap-3 md:grid-cols-2">
+                  {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                    <div key={eventType} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`event-${eventType}`}
+                        checked={form.events.includes(eventType)}
+                        onCheckedChange={(checked) => toggleEvent(eventType, checked === true)}
+                      />
+                      <div className="grid gap-0.5">
+                        <Label htmlFor={`event-${eventType}`} className="font-mono text-xs">{eventType}</Label>
+                        <p className="text-xs text-muted-foreground">{WEBHOOK_EVENT_DESCRIPTIONS[eventType]}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch id="webhook-enabled" checked={form.enabled} onCheckedChange={(checked) => setField('enabled', checked)} />
+                <Label htmlFor="webhook-enabled">Send deliveries</Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving || form.events.length === 0}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingId ? 'Save Changes' : 'Add Subscription'}
+                </Button>
+                {editingId && <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>
+              The last 500 deliveries of each subscription are kept. Replaying sends the same event id and body again, signed
+              with the current secret.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2 w-56">
+                <Label>Subscription</Label>
+                <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FILTER}>All subscriptions</SelectItem>
+                    {subscriptions.map((subscription) => (
+                      <SelectItem key={subscription.id} value={subscription.id}>{subscription.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 w-40">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FILTER}>All statuses</SelectItem>
+                    {(Object.keys(STATUS_VARIANTS) as WebhookDeliveryStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={() => void loadDeliveries()} disabled={isLoadingDeliveries}>
+                {isLoadingDeliveries ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Refresh
+              </Button>
+            </div>
+
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{isLoadingDeliveries ? 'Loading deliveries…' : 'No deliveries yet.'}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Subscription</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {formatDistanceToNow(parseISO(delivery.createdAt), { addSuffix: true })}
+                        {delivery.replayOf && <div className="text-muted-foreground">Replay</div>}
+                      </TableCell>
+                      <TableCell>{subscriptionName(delivery.subscriptionId)}</TableCell>
+                      <TableCell><Badge variant="outline">{delivery.eventType}</Badge></TableCell>
+                      <TableCell><Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge></TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs">
+                        {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—'}
+                        {delivery.durationMs !== undefined && <span className="text-muted-foreground"> · {delivery.durationMs} ms</span>}
+                        {delivery.error && <div className="text-destructive break-all">{delivery.error}</div>}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button size="icon" variant="ghost" onClick={() => setViewedDelivery(delivery)} aria-label="View payload">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void handleReplay(delivery)}
+                          disabled={delivery.status === 'Pending' || replayingIds.has(delivery.id)}
+                        >
+                          {replayingIds.has(delivery.id) ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                          Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!viewedDelivery} onOpenChange={(open) => !open && setViewedDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewedDelivery?.eventType}</DialogTitle>
+            <DialogDescription>Event {viewedDelivery?.eventId}</DialogDescription>
+          </DialogHeader>
+          {viewedDelivery && (
+            <div className="space-y-3 text-sm">
+              <div>
+                <Label>Payload</Label>
+                <pre className="mt-1 max-h-72 overflow-auto rounded bg-muted p-3 text-xs">{prettyPayload(viewedDelivery.payload)}</pre>
+              </div>
+              {viewedDelivery.responseBody && (
+                <div>
+                  <Label>Last response body</Label>
+                  <pre className="mt-1 max-h-40 overflow-auto rounded bg-muted p-3 text-xs whitespace-pre-wrap">{viewedDelivery.responseBody}</pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,461 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { ConversationTurn as ConversationTurnComponent } from '@/components/features/voice-agents/conversation-turn';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GraduationCap, History, Loader2, Mic, PhoneCall, PhoneOff, Volume2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { useProductContext } from '@/hooks/useProductContext';
+import { useWhisper } from '@/hooks/useWhisper';
+import { GOOGLE_PRESET_VOICES } from '@/hooks/use-voice-samples';
+import { buildProductKnowledgeBaseContext } from '@/lib/knowledge-base-context';
+import { getSimulatedCustomerPersonas } from '@/lib/simulated-customer';
+import { cancelCurrentSynthesis, playAudioDataUri, synthesizeSpeechOnClient } from '@/lib/tts-client';
+import type {
+  ConversationTurn,
+  SimulatedCustomerState,
+  SimulatedCustomerTurnOutput,
+  SubmitTrainingSessionInput,
+  TrainingSession,
+} from '@/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const SILENCE_TIMEOUT_MS = 650;
+const HISTORY_LIMIT = 20;
+// The trainee rings the customer, so the customer speaks first.
+const CUSTOMER_GREETING = 'Hello?';
+
+type SessionPhase = 'CONFIGURING' | 'CUSTOMER_SPEAKING' | 'LISTENING' | 'WAITING' | 'SCORING' | 'ENDED' | 'ERROR';
+
+export default function AgentTrainingPage() {
+  const { toast } = useToast();
+  const { availableProducts, getProductByName } = useProductContext();
+  const { files: allKbFiles } = useKnowledgeBase();
+
+  const [selectedProduct, setSelectedProduct] = useState<string>(availableProducts[0]?.name ?? '');
+  const productInfo = getProductByName(selectedProduct);
+  const availableCohorts = useMemo(() => productInfo?.customerCohorts || [], [productInfo]);
+  const [selectedCohort, setSelectedCohort] = useState<string>('');
+  const personas = useMemo(
+    () => getSimulatedCustomerPersonas(availableCohorts).filter((persona) => persona.cohort === selectedCohort),
+    [availableCohorts, selectedCohort]
+  );
+  const [personaId, setPersonaId] = useState<string>('');
+  const persona = personas.find((candidate) => candidate.id === personaId) ?? null;
+  const [voiceId, setVoiceId] = useState<string>(GOOGLE_PRESET_VOICES[0].id);
+
+  const [phase, setPhase] = useState<SessionPhase>('CONFIGURING');
+  const phaseRef = useRef(phase);
+  // Audio and network callbacks read the phase from the ref, so it is updated before React re-renders.
+  const updatePhase = useCallback((next: SessionPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  }, []);
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const conversationRef = useRef(conversation);
+  useEffect(() => { conversationRef.current = conversation; }, [conversation]);
+  const [liveTranscript, setLiveTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const customerStateRef = useRef<SimulatedCustomerState | null>(null);
+  const seedRef = useRef(Date.now());
+  const startedAtRef = useRef<string>(new Date().toISOString());
+  const customerHungUpRef = useRef(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const conversationEndRef = useRef<HTMLDivElement | null>(null);
+
+  const [result, setResult] = useState<TrainingSession | null>(null);
+  const [history, setHistory] = useState<TrainingSession[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  const isSessionActive = phase === 'CUSTOMER_SPEAKING' || phase === 'LISTENING' || phase === 'WAITING';
+
+  useEffect(() => {
+    if (availableCohorts.length > 0 && !availableCohorts.includes(selectedCohort)) {
+      setSelectedCohort(availableCohorts[0]);
+    }
+  }, [availableCohorts, selectedCohort]);
+
+  useEffect(() => {
+    if (!personas.some((candidate) => candidate.id === personaId)) {
+      setPersonaId(personas[0]?.id ?? '');
+    }
+  }, [personas, personaId]);
+
+  useEffect(() => {
+    conversationEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [conversation, liveTranscript]);
+
+  const loadHistory = useCallback(async () => {
+    setIsHistoryLoading(true);
+    try {
+      setHistory(await apiRequest<TrainingSession[]>(`/api/agent-training/sessions?limit=${HISTORY_LIMIT}`));
+    } catch (loadError) {
+      toast({ variant: 'destructive', title: 'Could not load practice history', description: getErrorMessage(loadError) });
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  const stopCustomerAudio = useCallback(() => {
+    cancelCurrentSynthesis();
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+  }, []);
+
+  const finishSessionRef = useRef<((endedBy: SubmitTrainingSessionInput['endedBy']) => Promise<void>) | null>(null);
+
+  const speakCustomer = useCallback(async (text: string) => {
+    updatePhase('CUSTOMER_SPEAKING');
+    const afterSpeaking = () => {
+      if (phaseRef.current !== 'CUSTOMER_SPEAKING') return;
+      if (customerHungUpRef.current) {
+        void finishSessionRef.current?.('CUSTOMER');
+      } else {
+        updatePhase('LISTENING');
+      }
+    };
+    try {
+      const { audioDataUri } = await synthesizeSpeechOnClient({ text, voice: voiceId });
+      if (phaseRef.current !== 'CUSTOMER_SPEAKING') return;
+      audioRef.current = await playAudioDataUri(audioDataUri, afterSpeaking, (playbackError) => {
+        console.warn('AgentTraining: customer playback failed', playbackError);
+        afterSpeaking();
+      });
+    } catch (speechError) {
+      console.warn('AgentTraining: customer speech failed', speechError);
+      afterSpeaking();
+    }
+  }, [voiceId, updatePhase]);
+
+  const requestCustomerReply = useCallback(async (turns: ConversationTurn[]) => {
+    if (!persona) return;
+    updatePhase('WAITING');
+    try {
+      const response = await fetch('/api/voice-sales-agent/simulated-customer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          persona,
+          productDisplayName: productInfo?.displayName ?? selectedProduct,
+          conversationHistory: turns,
+          agentSpeaker: 'User',
+          customerState: customerStateRef.current,
+          seed: seedRef.current,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Simulated customer API failed: ${response.statusText}`);
+      }
+      const reply = (await response.json()) as SimulatedCustomerTurnOutput;
+      if (reply.errorMessage) {
+        throw new Error(reply.errorMessage);
+      }
+      if (phaseRef.current !== 'WAITING') return;
+      customerStateRef.current = reply.customerState;
+      customerHungUpRef.current = reply.endsCall;
+      setConversation((prev) => [
+        ...prev,
+        { id: `customer-${Date.now()}`, speaker: 'AI', text: reply.replyText, timestamp: new Date().toISOString() },
+      ]);
+      await speakCustomer(reply.replyText);
+    } catch (replyError) {
+      setError(getErrorMessage(replyError));
+      updatePhase('ERROR');
+    }
+  }, [persona, productInfo, selectedProduct, speakCustomer, updatePhase]);
+
+  const onTranscribe = useCallback((text: string) => {
+    if (phaseRef.current === 'LISTENING') {
+      setLiveTranscript(text.trim());
+    }
+  }, []);
+
+  const onTranscriptionComplete = useCallback((text: string) => {
+    const spoken = text.trim();
+    setLiveTranscript('');
+    if (phaseRef.current !== 'LISTENING' || !spoken) return;
+    const traineeTurn: ConversationTurn = { id: `trainee-${Date.now()}`, speaker: 'User', text: spoken, timestamp: new Date().toISOString() };
+    const updated = [...conversationRef.current, traineeTurn];
+    conversationRef.current = updated;
+    setConversation(updated);
+    void requestCustomerReply(updated);
+  }, [requestCustomerReply]);
+
+  const { isRecording, startRecording, stopRecording } = useWhisper({
+    onTranscribe,
+    onTranscriptionComplete,
+    silenceTimeout: SILENCE_TIMEOUT_MS,
+    enableVAD: true,
+  });
+
+  // The microphone is only open while it is the trainee's turn, so the customer's voice is never transcribed.
+  useEffect(() => {
+    if (phase === 'LISTENING' && !isRecording) {
+      startRecording();
+    } else if (phase !== 'LISTENING' && isRecording) {
+      stopRecording();
+    }
+  }, [phase, isRecording, startRecording, stopRecording]);
+
+  const finishSession = useCallback(async (endedBy: SubmitTrainingSessionInput['endedBy']) => {
+    if (!persona || !productInfo) return;
+    stopCustomerAudio();
+    stopRecording();
+    setLiveTranscript('');
+    const finalConversation = conversationRef.current.filter((turn) => !turn.isLive);
+    if (!finalConversation.some((turn) => turn.speaker === 'User')) {
+      updatePhase('ENDED');
+      toast({ title: 'Session ended', description: 'You did not say anything, so there is nothing to score.' });
+      return;
+    }
+    updatePhase('SCORING');
+    try {
+      const productKbFiles = (allKbFiles ?? []).filter((file) => file.product === productInfo.name);
+      const payload: SubmitTrainingSessionInput = {
+        product: productInfo.name,
+        persona,
+        conversation: finalConversation,
+        customerState: customerStateRef.current,
+        endedBy,
+        startedAt: startedAtRef.current,
+        productContext: buildProductKnowledgeBaseContext(productKbFiles, productInfo, { customerCohort: persona.cohort }),
+        brandUrl: productInfo.brandUrl,
+      };
+      const session = await apiRequest<TrainingSession>('/api/agent-training/sessions', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+      setResult(session);
+      setHistory((prev) => [session, ...prev].slice(0, HISTORY_LIMIT));
+      updatePhase('ENDED');
+      toast({ title: 'Session scored', description: `Overall score ${session.overallScore.toFixed(1)}/5 (${session.callCategorisation}).` });
+    } catch (scoreError) {
+      setError(getErrorMessage(scoreError));
+      updatePhase('ERROR');
+    }
+  }, [persona, productInfo, allKbFiles, stopCustomerAudio, stopRecording, toast, updatePhase]);
+
+  useEffect(() => {
+    finishSessionRef.current = finishSession;
+  }, [finishSession]);
+
+  const handleStart = useCallback(() => {
+    if (!persona) return;
+    stopCustomerAudio();
+    setError(null);
+    setResult(null);
+    customerStateRef.current = null;
+    customerHungUpRef.current = false;
+    seedRef.current = Date.now();
+    startedAtRef.current = new Date().toISOString();
+    setConversation([{ id: `customer-${Date.now()}`, speaker: 'AI', text: CUSTOMER_GREETING, timestamp: new Date().toISOString() }]);
+    void speakCustomer(CUSTOMER_GREETING);
+  }, [persona, speakCustomer, stopCustomerAudio]);
+
+  useEffect(() => () => stopCustomerAudio(), [stopCustomerAudio]);
+
+  const historyAverage = history.length > 0 ? history.reduce((sum, session) => sum + session.overallScore, 0) / history.length : null;
+
+  const getPhaseBadge = () => {
+    switch (phase) {
+      case 'LISTENING': return <Badge className="bg-green-100 text-green-800"><Mic className="mr-1.5 h-3.5 w-3.5" />Your turn</Badge>;
+      case 'CUSTOMER_SPEAKING': return <Badge variant="secondary"><Volume2 className="mr-1.5 h-3.5 w-3.5" />Customer speaking</Badge>;
+      case 'WAITING': return <Badge variant="secondary"><Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />Customer thinking</Badge>;
+      case 'SCORING': return <Badge variant="secondary"><Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />Scoring</Badge>;
+      case 'ENDED': return <Badge variant="outline">Ended</Badge>;
+      case 'ERROR': return <Badge variant="destructive">Error</Badge>;
+      default: return <Badge variant="outline">Not started</Badge>;
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="Agent Role-Play Training" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><GraduationCap className="mr-2 h-5 w-5 text-primary" /> Role-Play Session</CardTitle>
+            <CardDescription>
+              You are the agent. The AI plays a customer from the chosen cohort and raises that persona&apos;s objections.
+              When the call ends, your side of the conversation is scored against the product&apos;s active rubric.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="training-product">Product</Label>
+                <Select value={selectedProduct} onValueChange={setSelectedProduct} disabled={isSessionActive}>
+                  <SelectTrigger id="training-product"><SelectValue placeholder="Select a product" /></SelectTrigger>
+                  <SelectContent>{availableProducts.map((p) => <SelectItem key={p.name} value={p.name}>{p.displayName}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="training-cohort">Customer Cohort</Label>
+                <Select value={selectedCohort} onValueChange={setSelectedCohort} disabled={isSessionActive || availableCohorts.length === 0}>
+                  <SelectTrigger id="training-cohort"><SelectValue placeholder="Select a cohort" /></SelectTrigger>
+                  <SelectContent>{availableCohorts.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="training-persona">Customer Persona</Label>
+                <Select value={personaId} onValueChange={setPersonaId} disabled={isSessionActive || personas.length === 0}>
+                  <SelectTrigger id="training-persona"><SelectValue placeholder="Select a persona" /></SelectTrigger>
+                  <SelectContent>{personas.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="training-voice">Customer Voice</Label>
+                <Select value={voiceId} onValueChange={setVoiceId} disabled={isSessionActive}>
+                  <SelectTrigger id="training-voice"><SelectValue /></SelectTrigger>
+                  <SelectContent>{GOOGLE_PRESET_VOICES.map((v) => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+            </div>
+            {persona && (
+              <p className="text-xs text-muted-foreground">
+                {persona.description} Patience: {persona.patience} agent turns. Long turns cost double.
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              {isSessionActive ? (
+                <Button variant="destructive" onClick={() => void finishSession('TRAINEE')}>
+                  <PhoneOff className="mr-2 h-4 w-4" /> End Call &amp; Score
+                </Button>
+              ) : (
+                <Button onClick={handleStart} disabled={!persona || !productInfo || phase === 'SCORING'}>
+                  <PhoneCall className="mr-2 h-4 w-4" /> {phase === 'CONFIGURING' ? 'Start Role-Play' : 'Start New Role-Play'}
+                </Button>
+              )}
+              {getPhaseBadge()}
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertTitle>Session problem</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        {conversation.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-md">Conversation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[360px] pr-3">
+                {conversation.map((turn) => <ConversationTurnComponent key={turn.id} turn={turn} />)}
+                {liveTranscript && (
+                  <ConversationTurnComponent turn={{ id: 'trainee-live', speaker: 'User', text: liveTranscript, timestamp: new Date().toISOString(), isLive: true }} />
+                )}
+                <div ref={conversationEndRef} />
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        )}
+
+        {result && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-md">Session Feedback</CardTitle>
+              <CardDescription>
+                {result.overallScore.toFixed(1)}/5 · {result.callCategorisation} · {result.personaName}
+                {result.customerOutcome && ` · Customer ${result.customerOutcome === 'HUNG_UP' ? 'hung up' : result.customerOutcome.toLowerCase()}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <p>{result.summary}</p>
+              {result.improvementSituations.length > 0 ? (
+                <div className="space-y-3">
+                  {result.improvementSituations.map((situation, index) => (
+                    <div key={index} className="rounded-md border p-3 space-y-1">
+                      <p className="font-semibold">Situation {index + 1}: {situation.context}</p>
+                      {situation.userDialogue && <p className="text-muted-foreground">Customer said: &quot;{situation.userDialogue}&quot;</p>}
+                      <p className="text-red-600">You said: &quot;{situation.agentResponse}&quot;</p>
+                      <p className="text-blue-600">Try instead: &quot;{situation.suggestedResponse}&quot;</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground">No specific improvement situations were highlighted for this session.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-md flex items-center"><History className="mr-2 h-4 w-4" /> Practice History</CardTitle>
+            <CardDescription>
+              {historyAverage === null
+                ? 'Scored sessions appear here.'
+                : `Last ${history.length} sessions · average score ${historyAverage.toFixed(2)}/5. Select a session to review its feedback.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isHistoryLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading history…</div>
+            ) : history.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Trainee</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Persona</TableHead>
+                    <TableHead>Your turns</TableHead>
+                    <TableHead>Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((session) => (
+                    <TableRow key={session.id} className="cursor-pointer" onClick={() => setResult(session)}>
+                      <TableCell>{format(parseISO(session.endedAt), 'PP p')}</TableCell>
+                      <TableCell>{session.traineeName}</TableCell>
+                      <TableCell>{session.product}</TableCell>
+                      <TableCell>{session.personaName}</TableCell>
+                      <TableCell>{session.traineeTurns}</TableCell>
+                      <TableCell>{session.overallScore.toFixed(1)} <span className="text-xs text-muted-foreground">({session.callCategorisation})</span></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -3,12 +3,13 @@
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import JSZip from 'jszip';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { CallScoringDashboardTable } from '@/components/features/call-scoring-dashboard/dashboard-table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { FileText, List, FileSpreadsheet, Download, FileArchive, Trash2, Mic, Bot } from 'lucide-react';
+import { FileText, List, FileSpreadsheet, Download, FileArchive, Trash2, Mic, Bot, CloudDownload } from 'lucide-react';
 import { exportToCsv, exportTableDataForDoc, exportTableDataToPdf } from '@/lib/export';
 import { generateCallScoreReportPdfBlob } from '@/lib/pdf-utils';
 import { useToast } from '@/hooks/use-toast';
@@ -206,13 +207,15 @@ export default function CallScoringDashboardPage() {
       return;
     }
     try {
-      const headers = ["Timestamp", "Agent Name", "Product", "File Name / Source", "Source", "Overall Score", "Categorization", "Status", "Error"];
+      const headers = ["Timestamp", "Agent Name", "Product", "File Name / Source", "Source", "Campaign", "Dialer Disposition", "Overall Score", "Categorization", "Status", "Error"];
       const dataForExportObjects = filteredHistory.map(item => ({
         Timestamp: format(parseISO(item.timestamp), 'yyyy-MM-dd HH:mm:ss'),
         AgentName: item.agentName || 'N/A',
         Product: item.product || 'N/A',
         FileName: item.details.fileName,
         Source: item.details.source || 'N/A',
+        Campaign: item.details.callMetadata?.campaign ?? '',
+        DialerDisposition: item.details.callMetadata?.disposition ?? '',
         OverallScore: item.details.scoreOutput?.overallScore?.toFixed(1) ?? 'N/A',
         CallCategorisation: item.details.scoreOutput?.callCategorisation ?? 'N/A',
         Status: item.details.status || (item.module.includes("Voice") ? "Complete" : "Unknown"),
@@ -273,6 +276,7 @@ export default function CallScoringDashboardPage() {
                               <SelectItem value="All">All Sources</SelectItem>
                               <SelectItem value="Manual"><div className='flex items-center'><Mic className='w-4 h-4 mr-2'/>Manual Upload</div></SelectItem>
                               <SelectItem value="Voice Agent"><div className='flex items-center'><Bot className='w-4 h-4 mr-2'/>Voice Agent</div></SelectItem>
+                              <SelectItem value="Ingestion"><div className='flex items-center'><CloudDownload className='w-4 h-4 mr-2'/>Scheduled Ingestion</div></SelectItem>
                           </SelectContent>
                       </Select>
                   </div>
@@ -330,9 +334,7 @@ export default function CallScoringDashboardPage() {
               <Skeleton className="h-20 w-full" />
             </div>
           )}
-           <div className="text-xs text-muted-foreground p-4 border-t">
-            This dashboard displays a history of scored calls from all sources. Original audio playback/download is not available for historical entries to conserve browser storage. Full scoring reports can be viewed and exported. Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries.
-          </div>
+           <ActivityHistoryPager note="This dashboard displays a history of scored calls from all sources. Full scoring reports can be viewed and exported." />
         </main>
       </div>
 
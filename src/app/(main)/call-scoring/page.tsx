@@ -1,19 +1,21 @@
 
 "use client";
 
-import { useMemo, useState, useId } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { CallScoringForm } from '@/components/features/call-scoring/call-scoring-form';
 import { CallScoringResultsTable } from '@/components/features/call-scoring/call-scoring-results-table';
 import { LoadingSpinner } from '@/components/common/loading-spinner';
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
-import { Terminal, ListChecks } from 'lucide-react';
+import { Terminal, ListChecks, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useActivityLogger } from '@/hooks/use-activity-logger';
 import { PageHeader } from '@/components/layout/page-header';
-import { fileToDataUrl } from '@/lib/file-utils';
-import { formatTranscriptSegments } from '@/lib/transcript-utils';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import type { ActivityLogEntry, ScoreCallOutput, HistoricalScoreItem, KnowledgeFile, ProductObject, TranscriptionOutput } from '@/types';
+import type { HistoricalScoreItem, KnowledgeFile, ProductObject } from '@/types';
+import type { ApiResult } from '@/types/common';
+import { isJobFinished, type ScoringJob, type ScoringJobEvent, type ScoringJobItem, type ScoringJobItemStatus, type ScoringJobWithItems } from '@/lib/jobs/types';
+import { useAuth, workspaceStorageKey } from '@/hooks/useAuth';
 import { useProductContext } from '@/hooks/useProductContext';
 import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
 import {
@@ -63,7 +65,7 @@ const prepareKnowledgeBaseContext = (
           combinedContext += `--- ${title.toUpperCase()} ---\n`;
           files.forEach(file => {
               let itemContext = `\n--- Item: ${file.name} ---\n`;
-              if (file.isTextEntry && file.textContent) {
+              if (file.textContent) {
                   itemContext += `Content:\n${file.textContent}\n`;
               } else {
                   itemContext += `(This is a reference to a ${file.type} file named '${file.name}'. The AI should infer context from its name, type, and category.)\n`;
@@ -97,36 +99,189 @@ const prepareKnowledgeBaseContext = (
   return combinedContext.substring(0, MAX_CONTEXT_LENGTH);
 };
 
+const ACTIVE_SCORING_JOB_KEY = 'aiTeleSuiteActiveScoringJob';
+
+const ITEM_STEP_LABELS: Record<ScoringJobItemStatus, string> = {
+  Pending: 'Uploading audio',
+  Queued: 'Queued',
+  Transcribing: 'Transcribing audio',
+  Scoring: 'Scoring insights',
+  Complete: 'Completed',
+  Failed: 'Failed',
+};
+
+const ITEM_PROGRESS_STATUS: Record<ScoringJobItemStatus, BatchProgressItem['status']> = {
+  Pending: 'queued',
+  Queued: 'queued',
+  Transcribing: 'running',
+  Scoring: 'running',
+  Complete: 'success',
+  Failed: 'failed',
+};
+
+async function jobRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, cache: 'no-store' });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const itemToResult = (job: ScoringJob, item: ScoringJobItem, audioUrl?: string): HistoricalScoreItem => ({
+  id: item.id,
+  timestamp: item.updatedAt,
+  module: 'Call Scoring',
+  product: job.product,
+  agentName: job.agentName,
+  details: {
+    fileName: item.fileName,
+    status: item.status,
+    scoreOutput: item.scoreOutput,
+    error: item.error,
+    agentNameFromForm: job.agentName,
+    audioDataUri: audioUrl,
+  },
+});
+
+const itemToProgress = (item: ScoringJobItem): BatchProgressItem => ({
+  id: item.id,
+  fileName: item.fileName,
+  step: ITEM_STEP_LABELS[item.status],
+  status: ITEM_PROGRESS_STATUS[item.status],
+  progress: item.progress,
+  message: item.message,
+});
+
 export default function CallScoringPage() {
-  const [results, setResults] = useState<HistoricalScoreItem[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [job, setJob] = useState<ScoringJob | null>(null);
+  const [jobItems, setJobItems] = useState<ScoringJobItem[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const { toast } = useToast();
   const { appVersion } = useAppVersion();
   const isOpenSourceVersion = appVersion === 'open-source';
-  const { logBatchActivities } = useActivityLogger();
+  const { refreshHistory } = useActivityLogger();
+  const { workspaceId } = useAuth();
   const { getProductByName } = useProductContext();
   const { files: knowledgeBaseFiles } = useKnowledgeBase();
-  const uniqueIdPrefix = useId();
-  const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  const [totalFiles, setTotalFiles] = useState(0);
-  const [currentStatus, setCurrentStatus] = useState('');
-  const [progressItems, setProgressItems] = useState<BatchProgressItem[]>([]);
+  // Object URLs of recordings picked in this tab, for playback in the results table.
+  const audioUrlsRef = useRef<Record<string, string>>({});
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const activeJobKey = workspaceStorageKey(ACTIVE_SCORING_JOB_KEY, workspaceId);
+
+  const isLoading = isSubmitting || (job !== null && !isJobFinished(job));
+
+  const results = useMemo(
+    () => (job ? jobItems.map(item => itemToResult(job, item, audioUrlsRef.current[item.id])) : []),
+    [job, jobItems]
+  );
   const progressById = useMemo(() => {
-    return progressItems.reduce<Record<string, BatchProgressItem>>((acc, item) => {
-      acc[item.id] = item;
+    return jobItems.reduce<Record<string, BatchProgressItem>>((acc, item) => {
+      acc[item.id] = itemToProgress(item);
       return acc;
     }, {});
-  }, [progressItems]);
-
-  const updateProgress = (id: string, updates: Partial<BatchProgressItem>) => {
-    setProgressItems(prev => {
-      const idx = prev.findIndex(item => item.id === id);
-      if (idx === -1) return prev;
-      const next = [...prev];
-      next[idx] = { ...next[idx], ...updates };
-      return next;
+  }, [jobItems]);
+  const finishedCount = jobItems.filter(item => item.status === 'Complete' || item.status === 'Failed').length;
+  const currentItem = jobItems.find(item => item.status === 'Transcribing' || item.status === 'Scoring');
+
+  const handleJobFinished = useCallback((finishedJob: ScoringJob) => {
+    localStorage.removeItem(activeJobKey);
+    void refreshHistory();
+    toast({
+      title: finishedJob.status === 'Cancelled' ? 'Batch cancelled' : 'All jobs finished',
+      description: `${finishedJob.completedItems} scored, ${finishedJob.failedItems} failed. Check table for results.`,
+    });
+  }, [activeJobKey, refreshHistory, toast]);
+
+  const watchJob = useCallback((jobId: string) => {
+    eventSourceRef.current?.close();
+    const source = new EventSource(`/api/call-scoring/jobs/${encodeURIComponent(jobId)}/events`);
+    eventSourceRef.current = source;
+
+    const applyJob = (next: ScoringJob) => {
+      setJob(next);
+      if (isJobFinished(next)) {
+        source.close();
+        handleJobFinished(next);
+      }
+    };
+    source.addEventListener('snapshot', (event) => {
+      const { job: snapshot } = JSON.parse((event as MessageEvent<string>).data) as Extract<ScoringJobEvent, { type: 'snapshot' }>;
+      const { items, ...summary } = snapshot;
+      setJobItems(items);
+      applyJob(summary);
     });
+    source.addEventListener('item', (event) => {
+      const { item } = JSON.parse((event as MessageEvent<string>).data) as Extract<ScoringJobEvent, { type: 'item' }>;
+      setJobItems(prev => prev.map(existing => (existing.id === item.id ? item : existing)));
+    });
+    source.addEventListener('job', (event) => {
+      const { job: next } = JSON.parse((event as MessageEvent<string>).data) as Extract<ScoringJobEvent, { type: 'job' }>;
+      applyJob(next);
+    });
+    source.onerror = () => {
+      // The browser reconnects on its own unless the server refused the stream (e.g. the job no longer exists).
+      if (source.readyState !== EventSource.CLOSED) return;
+      jobRequest<ScoringJobWithItems>(`/api/call-scoring/jobs/${encodeURIComponent(jobId)}`)
+        .then(({ items, ...summary }) => {
+          setJobItems(items);
+          setJob(summary);
+          if (isJobFinished(summary)) {
+            handleJobFinished(summary);
+          } else {
+            setTimeout(() => watchJob(jobId), 5000);
+          }
+        })
+        .catch(() => {
+          localStorage.removeItem(activeJobKey);
+          setJob(null);
+          setJobItems([]);
+        });
+    };
+  }, [activeJobKey, handleJobFinished]);
+
+  // Reattach to a batch that was still running when the page was closed or reloaded.
+  useEffect(() => {
+    const storedJobId = localStorage.getItem(activeJobKey);
+    if (storedJobId) watchJob(storedJobId);
+    return () => eventSourceRef.current?.close();
+  }, [activeJobKey, watchJob]);
+
+  useEffect(() => {
+    const urls = audioUrlsRef.current;
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const uploadRecordings = async (createdJob: ScoringJobWithItems, files: File[]) => {
+    for (const [index, item] of createdJob.items.entries()) {
+      const file = files[index];
+      const itemUrl = `/api/call-scoring/jobs/${encodeURIComponent(createdJob.id)}/items/${encodeURIComponent(item.id)}`;
+      try {
+        await jobRequest<ScoringJobItem>(itemUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+          body: file,
+        });
+      } catch (error) {
+        const reason = `Audio upload failed: ${(error as Error).message}`;
+        toast({ variant: 'destructive', title: `Could not upload ${file.name}`, description: (error as Error).message });
+        await jobRequest<ScoringJobItem>(itemUrl, {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason }),
+        }).catch(() => undefined);
+      }
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!job) return;
+    try {
+      await jobRequest<ScoringJobWithItems>(`/api/call-scoring/jobs/${encodeURIComponent(job.id)}`, { method: 'DELETE' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not cancel batch', description: (error as Error).message });
+    }
   };
 
   const handleAnalyzeCall = async (data: CallScoringFormValues) => {
@@ -138,228 +293,68 @@ export default function CallScoringPage() {
       });
       return;
     }
-    setIsLoading(true);
     setFormError(null);
-    setResults([]);
-    setProgressItems([]);
-    
+
     const product = data.product;
     if (!product) {
       setFormError("Product selection is required.");
-      setIsLoading(false);
       return;
     }
-    
+
     const productObject = getProductByName(product);
     if (!productObject) {
        setFormError("Selected product could not be found in the catalog.");
-       setIsLoading(false);
        return;
     }
 
-    const productContext = prepareKnowledgeBaseContext(productObject, knowledgeBaseFiles);
-
-    const itemsToProcess: Array<{ name: string; audioDataUri: string; }> = [];
-
-    if (data.audioFiles && data.audioFiles.length > 0) {
-      for (const file of Array.from(data.audioFiles)) {
-        if (file.size > MAX_AUDIO_FILE_SIZE) {
-          setFormError(`File "${file.name}" exceeds the ${MAX_AUDIO_FILE_SIZE / (1024*1024)}MB limit. Please use a smaller file or contact support for larger file processing.`);
-          setIsLoading(false);
-          return;
-        }
-        if (file.size > LARGE_FILE_THRESHOLD) {
-          console.warn(`Large file detected: ${file.name} (${(file.size / (1024*1024)).toFixed(1)}MB). Processing may take longer.`);
-          toast({
-            title: "Large File Detected",
-            description: `${file.name} is ${(file.size / (1024*1024)).toFixed(1)}MB. Processing may take 10-20 minutes.`,
-            duration: 5000,
-          });
-        }
-        const audioDataUri = await fileToDataUrl(file);
-        itemsToProcess.push({ name: file.name, audioDataUri });
-      }
-    } else {
+    const files = data.audioFiles ? Array.from(data.audioFiles) : [];
+    if (files.length === 0) {
       setFormError("Please provide at least one audio file to analyze.");
-      setIsLoading(false);
       return;
     }
-
-    setTotalFiles(itemsToProcess.length);
-    const initialResults: HistoricalScoreItem[] = itemsToProcess.map((item, index) => ({
-      id: `${uniqueIdPrefix}-${item.name}-${index}`,
-      timestamp: new Date().toISOString(),
-      module: 'Call Scoring',
-      product: product,
-      agentName: data.agentName,
-      details: {
-        fileName: item.name,
-        status: 'Queued',
-        audioDataUri: item.audioDataUri,
+    for (const file of files) {
+      if (file.size > MAX_AUDIO_FILE_SIZE) {
+        setFormError(`File "${file.name}" exceeds the ${MAX_AUDIO_FILE_SIZE / (1024*1024)}MB limit. Please use a smaller file or contact support for larger file processing.`);
+        return;
       }
-    }));
-    setResults(initialResults);
-    setProgressItems(initialResults.map(item => ({
-      id: item.id,
-      fileName: item.details.fileName,
-      step: 'Queued',
-      status: 'queued',
-      progress: 0,
-      message: 'Waiting to start transcription',
-    })));
-
-    const completedActivitiesToLog: ActivityLogEntry[] = [];
-
-    for (let i = 0; i < itemsToProcess.length; i++) {
-      const item = itemsToProcess[i];
-      const itemId = `${uniqueIdPrefix}-${item.name}-${i}`;
-      let finalScoreOutput: ScoreCallOutput | null = null;
-      let finalError: string | undefined = undefined;
-      
-      const updateResultStatus = (status: HistoricalScoreItem['details']['status'], updates: Partial<HistoricalScoreItem['details']> = {}) => {
-        setResults(prev => prev.map(r => r.id === itemId ? { ...r, details: { ...r.details, ...updates, status } } : r));
-      };
-      
-      setCurrentFileIndex(i + 1);
-      updateProgress(itemId, {
-        step: 'Transcribing audio',
-        status: 'running',
-        progress: 20,
-        message: 'Uploading audio & requesting transcript',
-      });
-      
-      try {
-        // Step 1: Transcription
-        setCurrentStatus('Transcribing...');
-        updateResultStatus('Transcribing');
-        const transcriptionResponse = await fetch('/api/transcription', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ audioDataUri: item.audioDataUri }),
-        });
-        if (!transcriptionResponse.ok) {
-          throw new Error('Transcription API failed');
-        }
-        const transcriptionResult = await transcriptionResponse.json() as TranscriptionOutput;
-
-        // Format the transcript using standard utility
-        const diarizedTranscript = formatTranscriptSegments(transcriptionResult);
-
-        const accuracyAssessment = transcriptionResult.summary.overview.includes('Error') ? 'Error' : 'High';
-
-        updateProgress(itemId, {
-          step: 'Analyzing transcript',
-          status: 'running',
-          progress: 55,
-          message: 'Transcription complete, preparing scoring request',
-        });
-
-        if (accuracyAssessment === "Error" || diarizedTranscript.includes("[Critical Transcription System Error")) {
-          throw new Error(`Transcription failed: ${diarizedTranscript}`);
-        }
-
-        // Step 2: Scoring
-        setCurrentStatus('Scoring...');
-        updateResultStatus('Scoring');
-
-        const scoreInput = {
-          product,
-          agentName: data.agentName,
-          audioDataUri: item.audioDataUri,
-          transcriptOverride: diarizedTranscript,
-          productContext,
-          brandUrl: productObject.brandUrl,
-        };
-
-        const response = await fetch('/api/call-scoring', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(scoreInput),
-        });
-        if (!response.ok) {
-          throw new Error(`Call Scoring API failed: ${response.statusText}`);
-        }
-        finalScoreOutput = await response.json() as ScoreCallOutput;
-        updateProgress(itemId, {
-          step: 'Scoring insights',
-          status: 'running',
-          progress: 85,
-          message: 'Aggregating rubric scores and insights',
-        });
-
-        // Ensure the final transcript from scoring is the one from the transcription step.
-        if (finalScoreOutput) {
-          finalScoreOutput.transcript = diarizedTranscript;
-          finalScoreOutput.transcriptAccuracy = accuracyAssessment;
-        } else {
-          throw new Error("Scoring function returned undefined result");
-        }
-
-        if (finalScoreOutput.callCategorisation === "Error") {
-          throw new Error(finalScoreOutput.summary);
-        }
-        
-        updateResultStatus('Complete', { scoreOutput: finalScoreOutput });
-        updateProgress(itemId, {
-          step: 'Completed',
-          status: 'success',
-          progress: 100,
-          message: `Overall score: ${finalScoreOutput.overallScore?.toFixed?.(1) || finalScoreOutput.overallScore}`,
-        });
-        
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        finalError = errorMessage || "An unexpected error occurred.";
-        
-        finalScoreOutput = {
-          transcript: (errorMessage.includes("Transcription failed:") ? errorMessage : `[Error processing ${item.name}. Raw Error: ${finalError}]`),
-          transcriptAccuracy: "System Error",
-          overallScore: 0, callCategorisation: "Error", summary: `Processing failed: ${finalError}`,
-          strengths: [], areasForImprovement: [`Investigate and resolve the processing error.`],
-          redFlags: [`System-level error during processing: ${finalError?.substring(0,100) || 'Unknown error'}...`],
-          metricScores: [], improvementSituations: [], conversionReadiness: 'Low', suggestedDisposition: "Error",
-          callDisposition: "Error",
-          evidence: []
-        };
-        updateResultStatus('Failed', { error: finalError, scoreOutput: finalScoreOutput });
-        updateProgress(itemId, {
-          step: 'Failed',
-          status: 'failed',
-          progress: 100,
-          message: finalError,
+      if (file.size > LARGE_FILE_THRESHOLD) {
+        console.warn(`Large file detected: ${file.name} (${(file.size / (1024*1024)).toFixed(1)}MB). Processing may take longer.`);
+        toast({
+          title: "Large File Detected",
+          description: `${file.name} is ${(file.size / (1024*1024)).toFixed(1)}MB. Processing may take 10-20 minutes.`,
+          duration: 5000,
         });
-        
-        const lowerCaseError = (finalError || '').toLowerCase();
-        if (lowerCaseError.includes('429') || lowerCaseError.includes('quota') || lowerCaseError.includes('rate limit')) {
-          toast({
-            variant: 'destructive', title: 'API Rate Limit Reached',
-            description: `The AI is busy or the daily quota has been met. Stopping batch.`, duration: 7000,
-          });
-          completedActivitiesToLog.push({
-            id: itemId, module: 'Call Scoring', product, agentName: data.agentName, timestamp: new Date().toISOString(),
-            details: { fileName: item.name, status: 'Failed', agentNameFromForm: data.agentName, scoreOutput: finalScoreOutput, error: finalError }
-          });
-          break; // Stop the whole batch on a quota error.
-        }
-      } finally {
-         completedActivitiesToLog.push({
-            id: itemId, module: 'Call Scoring', product, agentName: data.agentName, timestamp: new Date().toISOString(),
-            details: {
-              fileName: item.name, status: finalError ? 'Failed' : 'Complete',
-              agentNameFromForm: data.agentName, scoreOutput: finalScoreOutput, error: finalError || undefined
-            }
-         });
       }
     }
-    
-    // Batch log all completed activities at once
-    if (completedActivitiesToLog.length > 0) {
-      logBatchActivities(completedActivitiesToLog);
-    }
 
-    setIsLoading(false);
-    setCurrentStatus('');
-    toast({ title: "All jobs finished or stopped", description: `Finished processing all submitted item(s). Check table for results.` });
+    setIsSubmitting(true);
+    try {
+      const createdJob = await jobRequest<ScoringJobWithItems>('/api/call-scoring/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product,
+          agentName: data.agentName || undefined,
+          productContext: prepareKnowledgeBaseContext(productObject, knowledgeBaseFiles),
+          brandUrl: productObject.brandUrl || undefined,
+          fileNames: files.map(file => file.name),
+        }),
+      });
+      Object.values(audioUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+      audioUrlsRef.current = Object.fromEntries(createdJob.items.map((item, index) => [item.id, URL.createObjectURL(files[index])]));
+      const { items, ...summary } = createdJob;
+      setJob(summary);
+      setJobItems(items);
+      localStorage.setItem(activeJobKey, createdJob.id);
+      watchJob(createdJob.id);
+
+      await uploadRecordings(createdJob, files);
+      toast({ title: "Batch queued", description: `${files.length} recording(s) uploaded. Scoring continues on the server even if you close this tab.` });
+    } catch (error) {
+      setFormError((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
   };
   
   return (
@@ -384,8 +379,15 @@ export default function CallScoringPage() {
           <div className="mt-4 flex flex-col items-center gap-2">
             <LoadingSpinner size={32} />
             <p className="text-muted-foreground">
-              {totalFiles > 1 ? `Processing ${currentFileIndex} of ${totalFiles}: ${currentStatus}` : `${currentStatus || 'Processing...'}`}
+              {isSubmitting
+                ? 'Uploading recordings...'
+                : `Processed ${finishedCount} of ${jobItems.length}${currentItem ? `: ${ITEM_STEP_LABELS[currentItem.status]} ${currentItem.fileName}` : ''}`}
             </p>
+            {job && !isSubmitting && (
+              <Button variant="outline" size="sm" onClick={() => void handleCancelJob()}>
+                <XCircle className="mr-2 h-4 w-4" /> Cancel Batch
+              </Button>
+            )}
           </div>
         )}
         {formError && !isLoading && ( 
@@ -415,7 +417,7 @@ export default function CallScoringPage() {
             </CardHeader>
             <CardContent className="text-sm text-muted-foreground space-y-2">
                 <p>
-                    1. Upload one or more audio files (up to 100MB each). The system will process them one by one.
+                    1. Upload one or more audio files (up to 100MB each). Once uploaded, they are scored on the server, so you can close this page and come back later.
                 </p>
                 <p>
                     2. Select a <strong>Product Focus</strong>. The AI uses the product&#39;s description and its linked Knowledge Base entries as context for scoring.
@@ -425,7 +427,7 @@ export default function CallScoringPage() {
                 </p>
                 <div>
                   <p>                <p>
-                    4. Click <strong>Score Call(s)</strong>. The process will start immediately. The AI will first transcribe the audio and then score it based on both the content and tonality. For large files (50MB+), processing may take 10-20 minutes per file. Please wait for it to complete.
+                    4. Click <strong>Score Call(s)</strong>. Keep the page open until the upload finishes. The AI will first transcribe the audio and then score it based on both the content and tonality. For large files (50MB+), processing may take 10-20 minutes per file; results also appear in the activity history.
                 </p></p>
                 </div>
             </CardContent>
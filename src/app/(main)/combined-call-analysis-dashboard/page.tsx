@@ -2,6 +2,7 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -187,6 +188,7 @@ export default function CombinedCallAnalysisDashboardPage() {
             <Skeleton className="h-12 w-full" /> <Skeleton className="h-20 w-full" /> <Skeleton className="h-20 w-full" /> <Skeleton className="h-20 w-full" />
           </div>
         )}
+        <ActivityHistoryPager />
 
         {selectedItem && (
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -61,7 +61,7 @@ const prepareKnowledgeBaseContext = (
   let combinedContext = `Knowledge Base Context for Product: ${productObject.displayName}\n---\n`;
   for (const file of productSpecificFiles) {
     let contentToInclude = `(File: ${file.name}, Type: ${file.type}. Content not directly viewed for non-text or large files; AI should use name/type as context.)`;
-    if (file.isTextEntry && file.textContent) {
+    if (file.textContent) {
         contentToInclude = file.textContent.substring(0,2000) + (file.textContent.length > 2000 ? "..." : "");
     }
     const itemContent = `Item: ${file.name}\nType: ${file.isTextEntry ? 'Text Entry' : 'File'}\nCategory: ${file.category || 'General'}\nContent Summary/Reference:\n${contentToInclude}\n---\n`;
@@ -16,7 +16,8 @@ import { Product } from "@/types";
 import type { GenerateTrainingDeckInput, GenerateTrainingDeckOutput, TrainingDeckFlowKnowledgeBaseItem } from "@/types";
 import { useActivityLogger } from "@/hooks/use-activity-logger";
 import { exportTextContentToPdf } from "@/lib/pdf-utils";
-import { exportPlainTextFile } from "@/lib/export";
+import { downloadBlobFile } from "@/lib/export";
+import { createTrainingMaterialOfficeFile } from "@/lib/office-export";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { LoadingSpinner } from "@/components/common/loading-spinner";
 import { Alert as UiAlert, AlertDescription as UiAlertDescription, AlertTitle as UiAlertTitle } from "@/components/ui/alert";
@@ -79,7 +80,7 @@ export default function CreateTrainingDeckPage() {
   const mapKbFilesToFlowItems = (items: KnowledgeFile[]): TrainingDeckFlowKnowledgeBaseItem[] => {
     return items.map(item => ({
         name: item.name,
-        textContent: item.isTextEntry ? item.textContent : undefined, 
+        textContent: item.textContent,
         isTextEntry: !!item.isTextEntry,
         fileType: item.isTextEntry ? 'text/plain' : item.type,
     }));
@@ -294,25 +295,36 @@ export default function CreateTrainingDeckPage() {
     return output;
   };
 
-  const handleExportMaterial = (material: GenerateTrainingDeckOutput | null, format: DeckFormat | undefined) => {
+  const handleExportMaterial = async (material: GenerateTrainingDeckOutput | null, format: DeckFormat | undefined) => {
     if (!material || !format || !selectedProduct) return;
 
-    const materialTypeName = format === "Brochure" ? "Brochure" : (format === "PDF" ? "Document" : "Outline");
+    const materialTypeName = format === "Brochure" ? "Brochure" : (format === "PPT" ? "Deck" : "Document");
     const filenameBase = `Training_${materialTypeName}_${selectedProduct.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}`;
-    const textContent = formatMaterialForTextExport(material, format);
 
-    if (format === "PDF" || format === "Brochure") {
+    if (format === "PDF") {
       const pdfFilename = `${filenameBase}.pdf`;
-      exportTextContentToPdf(textContent, pdfFilename);
-      toast({ title: `${format} Content Exported as PDF`, description: `${pdfFilename} has been downloaded. This PDF contains the structured text and any AI-suggested placements for visuals.` });
-    } else if (format === "Word Doc") { 
-      const docFilename = `${filenameBase}.doc`;
-      exportPlainTextFile(docFilename, textContent);
-      toast({ title: `Word Doc Text Outline Downloaded`, description: `${docFilename} is a text file. Open it in Word (you may need to rename to .txt if it doesn't open easily) and copy the content to apply styling.` });
-    } else if (format === "PPT") {
-      const pptFilename = `${filenameBase}.doc`;
-      exportPlainTextFile(pptFilename, textContent);
-      toast({ title: `PPT Text Outline Downloaded`, description: `${pptFilename} is a text file. Open it in PowerPoint and copy the content to apply styling.` });
+      exportTextContentToPdf(formatMaterialForTextExport(material, format), pdfFilename);
+      toast({ title: `${format} Content Exported as PDF`, description: `${pdfFilename} has been downloaded.` });
+      return;
+    }
+
+    try {
+      const { blob, extension } = await createTrainingMaterialOfficeFile(material, {
+        format,
+        productName: selectedProduct,
+        brandName: getProductByName(selectedProduct)?.brandName,
+      });
+      const filename = `${filenameBase}.${extension}`;
+      downloadBlobFile(blob, filename);
+      const descriptions: Record<Exclude<DeckFormat, "PDF">, string> = {
+        "PPT": `${filename} has one slide per section, with the notes as speaker notes.`,
+        "Word Doc": `${filename} has a heading per section, ready for your own styling.`,
+        "Brochure": `${filename} is a tri-fold layout, one panel per section, with placeholders for the suggested visuals.`,
+      };
+      toast({ title: `${format} Downloaded`, description: descriptions[format] });
+    } catch (e) {
+      console.error(`Failed to build ${format} file:`, e);
+      toast({ variant: "destructive", title: "Export Failed", description: `Could not create the ${format} file.` });
     }
   };
 
@@ -521,7 +533,7 @@ export default function CreateTrainingDeckPage() {
                     <Button variant="outline" size="sm" onClick={() => handleCopyToClipboard(generatedMaterial)}>
                         <Copy className="mr-2 h-4 w-4" /> Copy
                     </Button>
-                    <Button variant="outline" size="sm" onClick={() => handleExportMaterial(generatedMaterial, selectedFormat)}>
+                    <Button variant="outline" size="sm" onClick={() => void handleExportMaterial(generatedMaterial, selectedFormat)}>
                         <Download className="mr-2 h-4 w-4" /> Download
                     </Button>
                 </div>
@@ -565,16 +577,17 @@ export default function CreateTrainingDeckPage() {
             </CardHeader>
             <CardContent className="text-sm text-muted-foreground space-y-2">
                 <p>
-                    This AI feature generates <strong>structured text content</strong> for your training materials based on the context you provide.
-                    It assists with content creation and organization, not with full graphical design or native file formatting.
+                    This AI feature generates <strong>structured content</strong> for your training materials based on the context you provide,
+                    and downloads it as a native file in the format you choose.
                 </p>
                 <ul className="list-disc list-inside space-y-1 pl-4">
-                    <li><strong>PDF Format:</strong> Downloads a text-based PDF document. The content is structured as a readable document with sections. If you selected "Brochure" as the format, this PDF will contain persuasive text suitable for brochure panels, including AI's textual suggestions for visuals (e.g., "[Visual: Chart showing growth]").</li>
-                    <li><strong>Word Doc Format:</strong> Downloads a <strong>plain text outline file (.doc)</strong>. Open this file (you might need to rename it to .txt if it doesn't open as text) and copy the structured content (titles, bullet points, paragraphs) into Microsoft Word. You can then apply your own styling, templates, and add graphics.</li>
-                    <li><strong>PPT Format:</strong> Downloads a <strong>plain text outline file (.doc)</strong>. Similar to Word Doc, open this file and copy the structured content (slide titles, bullet points) into Microsoft PowerPoint. You can then apply your presentation themes, layouts, and add visuals.</li>
+                    <li><strong>PDF Format:</strong> Downloads a text-based PDF document, structured as a readable document with sections.</li>
+                    <li><strong>Word Doc Format:</strong> Downloads a <strong>Word document (.docx)</strong> with a heading per section, bulleted content and the notes under each section, using the product&apos;s brand name in the header and footer.</li>
+                    <li><strong>PPT Format:</strong> Downloads a <strong>PowerPoint presentation (.pptx)</strong> with a title slide and one slide per section: the section title, its content as bullets, and its notes as speaker notes. The slides carry the product&apos;s brand name.</li>
+                    <li><strong>Brochure Format:</strong> Downloads a <strong>tri-fold Word document (.docx)</strong> in landscape, one panel per section. Each visual the AI suggests (e.g., &quot;(Visual: Happy customer using product)&quot;) becomes a framed image placeholder in its panel.</li>
                 </ul>
                  <p className="font-semibold mt-2">
-                    The AI focuses on generating high-quality textual content and logical structure. The final design and formatting in tools like Word, PowerPoint, or design software for brochures remain under your creative control.
+                    The files are a starting point: apply your own templates, images and final design in Word or PowerPoint.
                 </p>
             </CardContent>
         </Card>
@@ -2,7 +2,8 @@
 "use client";
 
 import { useState, useMemo, useEffect } from 'react';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { DataAnalysisDashboardTable } from '@/components/features/data-analysis-dashboard/dashboard-table'; 
 import type { ActivityLogEntry, HistoricalAnalysisReportItem } from '@/types'; // Updated import
@@ -191,11 +192,7 @@ export default function DataAnalysisDashboardPage() {
               <Skeleton className="h-20 w-full" />
             </div>
           )}
-           <div className="text-xs text-muted-foreground p-4 border-t">
-            This dashboard displays a history of generated Data Analysis Reports. Each entry provides an AI-generated report based on your detailed prompts and file context. 
-            Original uploaded files (e.g., Excel, PDF) are not stored and cannot be re-downloaded from here. The AI analyzes based on descriptions and (for CSV/TXT) small samples.
-            Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries.
-          </div>
+           <ActivityHistoryPager note="This dashboard displays a history of generated Data Analysis Reports. Each entry provides an AI-generated report based on your detailed prompts and file context. Original uploaded files (e.g., Excel, PDF) are not stored and cannot be re-downloaded from here. The AI analyzes based on descriptions and (for CSV/TXT) small samples." />
         </main>
       </div>
       <AlertDialog open={isClearAlertOpen} onOpenChange={setIsClearAlertOpen}>
@@ -29,8 +29,6 @@ export interface AnalysisReportResultItem {
   error?: string;
 }
 
-const MAX_TEXT_CONTENT_SAMPLE_LENGTH = 10000;
-
 export default function DataAnalysisPage() {
   const [analysisResult, setAnalysisResult] = useState<AnalysisReportResultItem | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -50,40 +48,27 @@ export default function DataAnalysisPage() {
     const files = Array.from(formValues.analysisFiles);
     setSelectedFileCountInForm(files.length);
     
-    let sampledFileContent: string | undefined = undefined;
     const fileDetailsForFlow: DataAnalysisInput['fileDetails'] = files.map(file => ({
         fileName: file.name,
         fileType: file.type || "unknown"
     }));
 
-    // Try to get a sample from the first text-based file
-    const firstTextFile = files.find(f => f.type === 'text/csv' || f.type === 'text/plain' || f.name.toLowerCase().endsWith('.txt') || f.name.toLowerCase().endsWith('.csv'));
-    if (firstTextFile) {
-      try {
-        const text = await firstTextFile.text();
-        sampledFileContent = text.substring(0, MAX_TEXT_CONTENT_SAMPLE_LENGTH);
-      } catch (error) {
-        console.error(`Error reading content sample for ${firstTextFile.name}:`, error);
-        // Non-fatal, proceed without sample if read fails
-      }
-    }
-
     const flowInput: DataAnalysisInput = {
         fileDetails: fileDetailsForFlow,
         userAnalysisPrompt: formValues.userAnalysisPrompt,
-        sampledFileContent: sampledFileContent
     };
 
     try {
-      const response = await fetch('/api/data-analysis', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(flowInput),
-      });
+      // The files themselves are sent: spreadsheets are parsed and their metrics computed on the server.
+      const body = new FormData();
+      files.forEach(file => body.append('files', file));
+      body.append('userAnalysisPrompt', formValues.userAnalysisPrompt);
+      const response = await fetch('/api/data-analysis', { method: 'POST', body });
       if (!response.ok) {
-        throw new Error(`Data Analysis API failed: ${response.statusText}`);
+        const errorBody = await response.json().catch(() => null) as { error?: string } | null;
+        throw new Error(`Data Analysis API failed: ${errorBody?.error || response.statusText}`);
       }
-      const result = await response.json(); 
+      const result = await response.json() as DataAnalysisReportOutput;
       
       const resultItem: AnalysisReportResultItem = {
           id: `${uniqueIdPrefix}-analysis`,
@@ -212,28 +197,15 @@ export default function DataAnalysisPage() {
             </CardHeader>
             <CardContent className="text-sm text-muted-foreground space-y-2">
                 <p>
-                    The AI Data Analyst helps you derive insights from your data files (like Excel, CSVs, or text-based reports).
-                    It <strong>does not directly process the full binary content</strong> of large files like Excel or PDFs. Instead, it intelligently works based on:
+                    The AI Data Analyst reads your spreadsheets and turns them into a report:
                 </p>
                 <ul className="list-disc list-inside pl-4 space-y-1">
-                    <li><strong>Your Detailed Prompt:</strong> This is the most crucial input. Describe:
-                        <ul className="list-circle list-inside pl-5 text-xs">
-                            <li>The files you've "uploaded" (their names & types are context).</li>
-                            <li>The likely structure of data within those files (e.g., sheet names, column headers, data types like numeric/text/date, date formats).</li>
-                            <li>Any specific decoding rules for coded fields (e.g., "NR" = Not Reachable, "CALLB" = Call Back, "INT" = Interested).</li>
-                            <li>Specific file mappings if relevant (e.g., "My file 'sales_oct.xlsx' is the 'Monthly Revenue Tracker for Oct'").</li>
-                            <li>Your specific analytical goals for *this* analysis run (e.g., "Focus on Q1 trends for conversion rates," "Identify top 3 performing agents based on revenue described in MIS").</li>
-                            <li>Any known "messiness" in the data (e.g., misaligned headers, merged rows) so the AI can simulate cleaning steps.</li>
-                        </ul>
-                    </li>
-                    <li><strong>File Metadata:</strong> The names and types of the files you "upload" are sent to the AI.</li>
-                    <li><strong>Text Sample (Optional):</strong> If one of your primary files is a CSV or TXT, a small sample of its content (first ~10k characters) can be sent for more direct initial observations.</li>
+                    <li><strong>Parsed Data:</strong> CSV, Excel (XLSX/XLS) and ZIP archives of CSVs are parsed on the server. Header rows are detected, title and repeated header rows are skipped, and each column is profiled (type, missing values, statistics).</li>
+                    <li><strong>Computed Metrics:</strong> Connection, conversion and follow-up rates, revenue, call duration, top agents and monthly volume are calculated from the rows when matching columns (agent, disposition, talk time, revenue, date) are found.</li>
+                    <li><strong>Your Prompt (Optional):</strong> Your goals for this run (e.g., &quot;Focus on Q1 trends&quot;, &quot;Why did April conversions drop?&quot;), decoding rules for unusual disposition codes, and a description of any PDF/DOCX files, which are not parsed.</li>
                 </ul>
                 <p className="mt-2">
-                    The AI then simulates data cleaning, interpretation, and analysis based on your textual descriptions to generate a comprehensive report covering trends, performance, and recommendations.
-                </p>
-                <p className="font-semibold mt-2 text-foreground">
-                    The accuracy and depth of the analysis are directly proportional to the detail and clarity of your prompt.
+                    The AI only sees the computed aggregates and writes the narrative, trends and recommendations around them, so the figures in the report come from your data.
                 </p>
             </CardContent>
           </Card>
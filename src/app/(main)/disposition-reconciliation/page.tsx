@@ -0,0 +1,288 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { format, parseISO } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, GitCompare, LifeBuoy, Loader2, RefreshCw, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useProductContext } from '@/hooks/useProductContext';
+import { exportToCsv } from '@/lib/export';
+import type { DispositionImportResult, DispositionReconciliationReport, ReconciledCall } from '@/lib/dispositions/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const ALL_PRODUCTS = 'All';
+
+const callExportRow = (call: ReconciledCall) => ({
+  CallId: call.callId,
+  Agent: call.agentName,
+  Product: call.product ?? '',
+  DialerDisposition: call.dialerDisposition,
+  DialerCategory: call.dialerCategory ?? 'Unmapped',
+  AiDisposition: call.aiDisposition,
+  SuggestedDisposition: call.suggestedDisposition ?? '',
+  ConversionReadiness: call.conversionReadiness ?? '',
+  OverallScore: call.overallScore?.toFixed(1) ?? '',
+  ScoredAt: format(parseISO(call.scoredAt), 'yyyy-MM-dd HH:mm:ss'),
+  FileName: call.fileName,
+  Summary: call.summary ?? '',
+});
+
+export default function DispositionReconciliationPage() {
+  const { toast } = useToast();
+  const { availableProducts } = useProductContext();
+  const [product, setProduct] = useState(ALL_PRODUCTS);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<DispositionReconciliationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    const params = new URLSearchParams();
+    if (product !== ALL_PRODUCTS) params.set('product', product);
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+    try {
+      setReport(await apiRequest<DispositionReconciliationReport>(`/api/dispositions/reconciliation?${params.toString()}`));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Build Report', description: (error as Error).message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [product, from, to, toast]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const result = await apiRequest<DispositionImportResult>('/api/dispositions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: await file.text(),
+      });
+      toast({
+        title: 'Dispositions Imported',
+        description: `${result.imported} call(s) imported from ${file.name}${result.skipped ? `, ${result.skipped} row(s) without a call id or disposition skipped` : ''}.`,
+      });
+      await loadReport();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Import Failed', description: (error as Error).message });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const leadRecoveryCalls = useMemo(() => report?.calls.filter((call) => call.leadRecovery) ?? [], [report]);
+
+  const exportCalls = (calls: ReconciledCall[], name: string) => {
+    if (calls.length === 0) {
+      toast({ title: 'No Data', description: 'There are no calls to export for these filters.' });
+      return;
+    }
+    exportToCsv(`${name}_${new Date().toISOString().slice(0, 10)}.csv`, calls.map(callExportRow));
+  };
+
+  const exportGroups = () => {
+    if (!report?.groups.length) {
+      toast({ title: 'No Data', description: 'There are no mismatches to export for these filters.' });
+      return;
+    }
+    exportToCsv(
+      `disposition_mismatches_${new Date().toISOString().slice(0, 10)}.csv`,
+      report.groups.map((group) => ({ Agent: group.agentName, DialerDisposition: group.dialerDisposition, AiDisposition: group.aiDisposition, Calls: group.count }))
+    );
+  };
+
+  const matchRate = report && report.compared > 0 ? Math.round((report.matched / report.compared) * 100) : null;
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="Disposition Reconciliation" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><GitCompare className="mr-2 h-5 w-5 text-primary" /> Dialer vs. AI Dispositions</CardTitle>
+            <CardDescription>
+              Compares the disposition the AI gave each scored call with the one the agent tagged in the dialer. Import a dialer or
+              CRM export with call id and disposition columns, or push records to <code>POST /api/dispositions</code>. Recordings
+              from scheduled ingestion are compared with their CDR row automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Select value={product} onValueChange={setProduct}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PRODUCTS}>All Products</SelectItem>
+                    {availableProducts.map((entry) => (
+                      <SelectItem key={entry.name} value={entry.name}>{entry.displayName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reconcile-from">Scored From</Label>
+                <Input id="reconcile-from" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reconcile-to">Scored To</Label>
+                <Input id="reconcile-to" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+              </div>
+              <Button variant="outline" onClick={() => void loadReport()} disabled={isLoading}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+              </Button>
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={(event) => void handleImport(event)} />
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import Dispositions CSV
+              </Button>
+            </div>
+
+            {report && (
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+                {[
+                  { label: 'Scored calls', value: report.scoredCalls },
+                  { label: 'With a dialer disposition', value: report.compared },
+                  { label: 'Agreement', value: matchRate === null ? 'N/A' : `${matchRate}%` },
+                  { label: 'Mismatched', value: report.mismatched },
+                  { label: 'Unmapped dialer codes', value: report.unmapped },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-4 border rounded-lg bg-card">
+                    <div className="text-xs text-muted-foreground">{stat.label}</div>
+                    <div className="text-2xl font-semibold">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Mismatches by Agent</CardTitle>
+              <CardDescription>Each row is one &quot;agent tagged X, AI says Y&quot; pair. Unmapped dialer codes are shown as tagged.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={exportGroups}><Download className="mr-2 h-4 w-4" /> Pairs CSV</Button>
+              <Button variant="outline" size="sm" onClick={() => exportCalls(report?.calls ?? [], 'disposition_mismatch_calls')}>
+                <Download className="mr-2 h-4 w-4" /> Calls CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && !report ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Comparing dispositions…
+              </div>
+            ) : !report?.groups.length ? (
+              <p className="text-sm text-muted-foreground">
+                {report?.compared ? 'Every compared call agrees with the dialer.' : 'No scored calls have a dialer disposition yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead>Agent Tagged</TableHead>
+                    <TableHead>AI Says</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.groups.map((group) => (
+                    <TableRow key={`${group.agentName}-${group.dialerDisposition}-${group.aiDisposition}`}>
+                      <TableCell className="font-medium">{group.agentName}</TableCell>
+                      <TableCell>{group.dialerDisposition}</TableCell>
+                      <TableCell>{group.aiDisposition}</TableCell>
+                      <TableCell className="text-right">{group.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center"><LifeBuoy className="mr-2 h-5 w-5 text-primary" /> Lead Recovery</CardTitle>
+              <CardDescription>
+                Calls the dialer closed out but the AI heard interest, a callback request, a follow-up or a sale. Worth calling again.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => exportCalls(leadRecoveryCalls, 'lead_recovery')}>
+              <Download className="mr-2 h-4 w-4" /> Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {leadRecoveryCalls.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No leads to recover for these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Call ID</TableHead>
+                    <TableHead>Agent</TableHead>
+                    <TableHead>Agent Tagged</TableHead>
+                    <TableHead>AI Says</TableHead>
+                    <TableHead>Readiness</TableHead>
+                    <TableHead>Scored</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leadRecoveryCalls.map((call) => (
+                    <TableRow key={call.activityId}>
+                      <TableCell className="font-medium" title={call.fileName}>{call.callId}</TableCell>
+                      <TableCell>{call.agentName}</TableCell>
+                      <TableCell>
+                        {call.dialerDisposition}
+                        {call.status === 'UNMAPPED' && <Badge variant="outline" className="ml-2">Unmapped</Badge>}
+                      </TableCell>
+                      <TableCell>{call.aiDisposition}</TableCell>
+                      <TableCell>
+                        <Badge variant={call.conversionReadiness === 'High' ? 'default' : 'secondary'}>{call.conversionReadiness ?? 'N/A'}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{format(parseISO(call.scoredAt), 'PP p')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
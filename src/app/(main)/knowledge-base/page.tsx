@@ -8,6 +8,7 @@ import { KnowledgeFile } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Download, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
 import { useActivityLogger } from "@/hooks/use-activity-logger";
 import { exportPlainTextFile } from "@/lib/export";
 import { KnowledgeBaseTable } from "@/components/features/knowledge-base/knowledge-base-table";
@@ -63,7 +64,7 @@ Instructions:
 - **Implementation:** A form built with \`react-hook-form\` and \`zod\` for validation.
 - **Logic:**
     1.  The user selects a product, category, and entry type (file or text).
-    2.  For files, it reads metadata. For text, it captures content.
+    2.  For files, it sends PDF, DOCX, PPTX, XLSX and text uploads to \`/api/knowledge-base/extract\` and keeps the extracted text (other files keep metadata only). For text, it captures content.
     3.  On submission, it calls the \`useKnowledgeBase\` hook's \`addFile\` or \`addFilesBatch\` function to persist to \`localStorage\`.
 */
 
@@ -248,26 +249,25 @@ Logic & Reliability:
   4. Turn-taking vs. Inactivity: useWhisper has a short silenceTimeout (~50ms)
      for immediate turn-taking and a separate inactivityTimeout (~3000ms) to
      remind the user if no speech is detected.
-  5. Routing (Sales Agent): runVoiceSalesAgentTurn uses a fast "router" prompt
-     to classify user intent (continue pitch, answer question, handle objection)
-     and delegates to smaller prompts.
+  5. Dialogue (Sales Agent): runVoiceSalesAgentTurn uses a fast prompt to
+     classify the intent of the user's reply, and the sales dialogue state
+     machine (opening, discovery, pitch, objections, pricing, close, wrap-up)
+     decides the next step. The state travels with every turn.
   6. Post-Call: When the call ends, a full transcript is constructed and the
      scoreCall flow analyzes the interaction.
 */
 
-// --- Prompts: Voice Sales Agent (Router & Answer Generators) --- //
+// --- Prompts: Voice Sales Agent (Intent Classifier & Answer Generators) --- //
 /*
-Router Prompt:
-  You are an AI sales agent controller. Your task is to analyze the user's last response within
-  the context of the conversation history and decide the next logical action for the AI agent to take.
-  User's Last Response: "{{{lastUserResponse}}}"
-  Decision Framework:
-    1. If user asks a SUPPORT question -> Action: ANSWER_SUPPORT_QUESTION
-    2. If user asks a SALES question -> Action: ANSWER_SALES_QUESTION
-    3. If user raises an OBJECTION -> Action: HANDLE_SALES_OBJECTION
-    4. If user gives a positive signal -> Action: CONTINUE_PITCH
-    5. If user wants to end -> Action: CLOSING_STATEMENT
-    6. If response is unclear -> Action: ACKNOWLEDGE_AND_WAIT
+Intent Classifier Prompt:
+  You are analysing a live sales phone call. Classify the customer's last reply so the AI agent
+  can decide what to do next.
+  Current stage of the call: {{{stage}}}
+  What the agent said last: "{{{lastAgentUtterance}}}"
+  Customer's Last Reply: "{{{lastUserResponse}}}"
+  Intents: CONTINUE, SHARE_NEEDS, SALES_QUESTION, PRICE_QUESTION, SUPPORT_QUESTION,
+    OBJECTION (with a category: PRICE, TIME, NEED, TRUST, COMPETITOR, THINK_ABOUT_IT, OTHER),
+    BUYING_SIGNAL, AGREE, DECLINE, CALLBACK, END_CALL, UNCLEAR
 
 Answer Generator Prompts (Sales, Support, Objection):
   You are a helpful AI assistant. Use the provided Knowledge Base context to answer.
@@ -369,6 +369,7 @@ export default function KnowledgeBaseManagementPage() {
   const { files, addFile, addFilesBatch, deleteFile, setFiles } = useKnowledgeBase();
   const { logActivity } = useActivityLogger();
   const { toast } = useToast();
+  const { hasPermission } = useAuth();
   const [isClearAlertOpen, setIsClearAlertOpen] = useState(false);
   const [isClient, setIsClient] = useState(false);
 
@@ -376,7 +377,14 @@ export default function KnowledgeBaseManagementPage() {
     setIsClient(true);
   }, []);
 
+  const ensureCanEditCatalog = (): boolean => {
+    if (hasPermission('catalog:write')) return true;
+    toast({ variant: "destructive", title: "Not Allowed", description: "Your role cannot change the knowledge base." });
+    return false;
+  };
+
   const handleAddSingleEntry = async (entry: RawTextKnowledgeEntry) => {
+    if (!ensureCanEditCatalog()) return;
     const newEntry = await addFile(entry);
     logActivity({
       module: "Knowledge Base Management",
@@ -386,15 +394,25 @@ export default function KnowledgeBaseManagementPage() {
   };
 
   const handleAddMultipleFiles = async (entries: RawKnowledgeEntry[]) => {
+    if (!ensureCanEditCatalog()) return;
     const newEntries = await addFilesBatch(entries);
     logActivity({
       module: "Knowledge Base Management",
       product: newEntries[0]?.product,
-      details: { action: "add_batch", filesData: newEntries.map(f => ({ name: f.name, type: f.type, size: f.size })) }
+      details: { action: "add_batch", filesData: newEntries.map(f => ({ name: f.name, type: f.type, size: f.size, extraction: f.extraction?.status })) }
     });
+    const failed = newEntries.filter(f => f.extraction?.status === 'failed');
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: `Text Extraction Failed for ${failed.length} File(s)`,
+        description: failed.map(f => `${f.name}: ${f.extraction?.error || 'unknown error'}`).join(' | '),
+      });
+    }
   };
 
   const handleDeleteFile = (fileId: string) => {
+    if (!ensureCanEditCatalog()) return;
     const fileName = files.find(f => f.id === fileId)?.name || "Unknown file";
     deleteFile(fileId);
     toast({
@@ -408,6 +426,7 @@ export default function KnowledgeBaseManagementPage() {
   };
 
   const handleClearAllKnowledgeBase = () => {
+    if (!ensureCanEditCatalog()) return;
     const count = files.length;
     setFiles([]);
     toast({
@@ -4,13 +4,12 @@
 import { AppSidebar } from '@/components/layout/app-sidebar';
 import { SidebarInset } from '@/components/ui/sidebar';
 import React, { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { Loader2, Info } from 'lucide-react';
 import { AppVersionSwitcher } from '@/components/layout/app-version-switcher';
 import { useAppVersion } from '@/context/app-version-context';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-
-const AUTH_STORAGE_KEY = 'aiTeleSuiteDemoAuth';
+import { useAuth } from '@/hooks/useAuth';
 
 export default function MainAppLayout({
   children,
@@ -20,21 +19,20 @@ export default function MainAppLayout({
   // The state for the loading overlay is being removed.
   // A simple state is kept for the sidebar's setIsPageLoading prop, though it won't have a visible effect anymore.
   const [isPageLoading, setIsPageLoading] = useState(false);
-  const [isAuthorized, setIsAuthorized] = useState(false);
+  const { user, isLoading } = useAuth();
   const { appVersion } = useAppVersion();
   const router = useRouter();
+  const pathname = usePathname();
 
+  // middleware.ts already redirects requests without a session; this covers sessions
+  // that expire or are revoked while the app is open.
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const session = window.localStorage.getItem(AUTH_STORAGE_KEY);
-    if (!session) {
-      router.replace('/login');
-      return;
+    if (!isLoading && !user) {
+      router.replace(`/login?next=${encodeURIComponent(pathname || '/home')}`);
     }
-    setIsAuthorized(true);
-  }, [router]);
+  }, [isLoading, user, router, pathname]);
 
-  if (!isAuthorized) {
+  if (!user) {
     return (
       <div className="flex min-h-screen w-full items-center justify-center bg-background text-muted-foreground">
         <div className="flex flex-col items-center gap-3">
@@ -0,0 +1,310 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Loader2, MessageSquareReply, Mic, MicOff, ShieldAlert, X } from 'lucide-react';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { useProductContext } from '@/hooks/useProductContext';
+import { useWhisper } from '@/hooks/useWhisper';
+import { buildProductKnowledgeBaseContext } from '@/lib/knowledge-base-context';
+import {
+  LIVE_ASSIST_COMPLIANCE_RULES,
+  assistCueKey,
+  complianceRemindersFor,
+  detectAssistCue,
+  type ComplianceRule,
+} from '@/lib/live-assist';
+import type { LiveAssistCue, LiveAssistRequest, LiveAssistSuggestion } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Short pauses finalize an utterance quickly; cues are then batched for a moment so
+// one sentence split across two results produces one suggestion.
+const SILENCE_TIMEOUT_MS = 500;
+const CUE_DEBOUNCE_MS = 700;
+/** The same objection category or question is not looked up again within this window. */
+const CUE_COOLDOWN_MS = 45_000;
+const MAX_TRANSCRIPT_LINES = 200;
+const MAX_SUGGESTIONS = 12;
+
+interface TranscriptLine {
+  id: string;
+  text: string;
+  at: Date;
+}
+
+interface SuggestionCard {
+  id: string;
+  cue: LiveAssistCue;
+  status: 'loading' | 'ready' | 'error';
+  rebuttal?: string;
+  snippets: LiveAssistSuggestion['snippets'];
+  error?: string;
+  at: Date;
+}
+
+const OBJECTION_LABELS: Record<string, string> = {
+  PRICE: 'Price',
+  TIME: 'Timing',
+  NEED: 'No need',
+  TRUST: 'Trust',
+  COMPETITOR: 'Competitor',
+  THINK_ABOUT_IT: 'Think about it',
+  OTHER: 'Objection',
+};
+
+export default function LiveAssistPage() {
+  const { availableProducts, getProductByName } = useProductContext();
+  const { files: allKbFiles } = useKnowledgeBase();
+  const [selectedProduct, setSelectedProduct] = useState<string>(availableProducts[0]?.name ?? '');
+  const productInfo = getProductByName(selectedProduct);
+
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [interimText, setInterimText] = useState('');
+  const [suggestions, setSuggestions] = useState<SuggestionCard[]>([]);
+  const [reminders, setReminders] = useState<ComplianceRule[]>([]);
+  const shownReminderIdsRef = useRef<Set<string>>(new Set());
+  const pendingUtterancesRef = useRef<string[]>([]);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastCueAtRef = useRef<Map<string, number>>(new Map());
+  const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+
+  const knowledgeBaseContext = useMemo(() => {
+    if (!productInfo) return '';
+    const productKbFiles = (allKbFiles ?? []).filter((file) => file.product === productInfo.name);
+    return buildProductKnowledgeBaseContext(productKbFiles, productInfo);
+  }, [allKbFiles, productInfo]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript, interimText]);
+
+  const requestSuggestion = useCallback(async (cue: LiveAssistCue) => {
+    if (!productInfo) return;
+    const id = `suggestion-${Date.now()}`;
+    setSuggestions((prev) => [{ id, cue, status: 'loading' as const, snippets: [], at: new Date() }, ...prev].slice(0, MAX_SUGGESTIONS));
+    try {
+      const payload: LiveAssistRequest = { product: productInfo.name, cue, knowledgeBaseContext, brandUrl: productInfo.brandUrl };
+      const suggestion = await apiRequest<LiveAssistSuggestion>('/api/live-assist', { method: 'POST', body: JSON.stringify(payload) });
+      setSuggestions((prev) => prev.map((card) => (
+        card.id === id ? { ...card, status: 'ready', rebuttal: suggestion.rebuttal, snippets: suggestion.snippets } : card
+      )));
+    } catch (error) {
+      setSuggestions((prev) => prev.map((card) => (card.id === id ? { ...card, status: 'error', error: getErrorMessage(error) } : card)));
+    }
+  }, [productInfo, knowledgeBaseContext]);
+
+  const flushPendingCues = useCallback(() => {
+    debounceTimerRef.current = null;
+    const utterances = pendingUtterancesRef.current;
+    pendingUtterancesRef.current = [];
+    // The whole batch is read as one utterance so a sentence split across results is still recognised.
+    const cue = detectAssistCue(utterances.join(' '));
+    if (!cue) return;
+    const key = assistCueKey(cue);
+    const now = Date.now();
+    const lastAt = lastCueAtRef.current.get(key);
+    if (lastAt !== undefined && now - lastAt < CUE_COOLDOWN_MS) return;
+    lastCueAtRef.current.set(key, now);
+    void requestSuggestion(cue);
+  }, [requestSuggestion]);
+
+  const onTranscribe = useCallback((text: string) => {
+    setInterimText(text.trim());
+  }, []);
+
+  const onTranscriptionComplete = useCallback((text: string) => {
+    const utterance = text.trim();
+    setInterimText('');
+    if (!utterance) return;
+    setTranscript((prev) => [...prev, { id: `line-${Date.now()}`, text: utterance, at: new Date() }].slice(-MAX_TRANSCRIPT_LINES));
+
+    // Compliance reminders need no lookup, so they are shown straight away.
+    const triggered = complianceRemindersFor(utterance, shownReminderIdsRef.current);
+    if (triggered.length > 0) {
+      triggered.forEach((rule) => shownReminderIdsRef.current.add(rule.id));
+      setReminders((prev) => [...triggered, ...prev]);
+    }
+
+    pendingUtterancesRef.current.push(utterance);
+    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+    debounceTimerRef.current = setTimeout(flushPendingCues, CUE_DEBOUNCE_MS);
+  }, [flushPendingCues]);
+
+  const { isRecording, startRecording, stopRecording } = useWhisper({
+    onTranscribe,
+    onTranscriptionComplete,
+    silenceTimeout: SILENCE_TIMEOUT_MS,
+    inactivityTimeout: 60_000,
+    enableVAD: true,
+  });
+
+  // Browsers end speech recognition after a stretch of silence; keep it running for the whole call.
+  useEffect(() => {
+    if (isListening && !isRecording) {
+      startRecording();
+    } else if (!isListening && isRecording) {
+      stopRecording();
+    }
+  }, [isListening, isRecording, startRecording, stopRecording]);
+
+  useEffect(() => () => {
+    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+  }, []);
+
+  const handleStart = () => {
+    setTranscript([]);
+    setSuggestions([]);
+    pendingUtterancesRef.current = [];
+    lastCueAtRef.current = new Map();
+    const openingReminders = LIVE_ASSIST_COMPLIANCE_RULES.filter((rule) => !rule.pattern);
+    shownReminderIdsRef.current = new Set(openingReminders.map((rule) => rule.id));
+    setReminders(openingReminders);
+    setIsListening(true);
+  };
+
+  const handleStop = () => {
+    setIsListening(false);
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      flushPendingCues();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="Live Call Assist" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><Mic className="mr-2 h-5 w-5 text-primary" /> Listen to a Call</CardTitle>
+            <CardDescription>
+              Keeps a rolling transcript of a live call and suggests rebuttals, knowledge base passages and compliance reminders as
+              objections and questions come up. To hear both sides, route the call audio into the browser&apos;s microphone input, for
+              example with a headset loopback device.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-4">
+            <div className="w-56 space-y-1">
+              <Label htmlFor="assist-product">Product</Label>
+              <Select value={selectedProduct} onValueChange={setSelectedProduct} disabled={isListening}>
+                <SelectTrigger id="assist-product"><SelectValue placeholder="Select a product" /></SelectTrigger>
+                <SelectContent>{availableProducts.map((p) => <SelectItem key={p.name} value={p.name}>{p.displayName}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            {isListening ? (
+              <Button variant="destructive" onClick={handleStop}><MicOff className="mr-2 h-4 w-4" /> Stop Listening</Button>
+            ) : (
+              <Button onClick={handleStart} disabled={!productInfo}><Mic className="mr-2 h-4 w-4" /> Start Listening</Button>
+            )}
+            {isListening && <Badge className="bg-green-100 text-green-800">{isRecording ? 'Listening…' : 'Reconnecting…'}</Badge>}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-md">Transcript</CardTitle></CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[520px] pr-3">
+                {transcript.length === 0 && !interimText && (
+                  <p className="text-sm text-muted-foreground">Nothing heard yet.</p>
+                )}
+                {transcript.map((line) => (
+                  <p key={line.id} className="text-sm py-1">
+                    <span className="mr-2 text-xs text-muted-foreground">{format(line.at, 'HH:mm:ss')}</span>
+                    {line.text}
+                  </p>
+                ))}
+                {interimText && <p className="text-sm py-1 italic text-muted-foreground">{interimText}</p>}
+                <div ref={transcriptEndRef} />
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {reminders.length > 0 && (
+              <div className="space-y-2">
+                {reminders.map((rule) => (
+                  <Alert key={rule.id} className="border-amber-300 bg-amber-50">
+                    <ShieldAlert className="h-4 w-4 text-amber-700" />
+                    <AlertDescription className="flex items-start justify-between gap-2 text-xs">
+                      <span>{rule.reminder}</span>
+                      <button type="button" aria-label="Dismiss reminder" onClick={() => setReminders((prev) => prev.filter((r) => r.id !== rule.id))}>
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            )}
+            {suggestions.length === 0 && (
+              <p className="text-sm text-muted-foreground">Suggestions appear here when the customer objects or asks a question.</p>
+            )}
+            {suggestions.map((card) => (
+              <Card key={card.id}>
+                <CardHeader className="pb-2 pt-3 px-4">
+                  <div className="flex items-center justify-between gap-2">
+                    {card.cue.kind === 'OBJECTION'
+                      ? <Badge variant="destructive">{OBJECTION_LABELS[card.cue.category ?? 'OTHER']}</Badge>
+                      : <Badge variant="secondary">Question</Badge>}
+                    <span className="text-xs text-muted-foreground">{format(card.at, 'HH:mm:ss')}</span>
+                  </div>
+                  <CardDescription className="text-xs italic">&quot;{card.cue.utterance}&quot;</CardDescription>
+                </CardHeader>
+                <CardContent className="px-4 pb-3 space-y-2 text-sm">
+                  {card.status === 'loading' && (
+                    <div className="flex items-center gap-2 text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Finding a response…</div>
+                  )}
+                  {card.status === 'error' && <p className="text-destructive text-xs">{card.error}</p>}
+                  {card.rebuttal && (
+                    <div>
+                      <h4 className="font-semibold flex items-center text-xs"><MessageSquareReply className="mr-1.5 h-3.5 w-3.5" /> Suggested rebuttal</h4>
+                      <p className="mt-1">{card.rebuttal}</p>
+                    </div>
+                  )}
+                  {card.snippets.length > 0 && (
+                    <div className="space-y-1">
+                      <h4 className="font-semibold flex items-center text-xs"><BookOpen className="mr-1.5 h-3.5 w-3.5" /> From the knowledge base</h4>
+                      {card.snippets.map((snippet) => (
+                        <p key={snippet.chunkId} className="text-xs text-muted-foreground">
+                          <span className="font-medium text-foreground">{snippet.fileName}:</span> {snippet.text}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {card.status === 'ready' && !card.rebuttal && card.snippets.length === 0 && (
+                    <p className="text-xs text-muted-foreground">No indexed knowledge matched this question.</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -44,7 +44,7 @@ const prepareKnowledgeBaseContext = (
           combinedContext += `--- ${title.toUpperCase()} ---\n`;
           files.forEach(file => {
               let itemContext = `\n--- Item: ${file.name} ---\n`;
-              if (file.isTextEntry && file.textContent) {
+              if (file.textContent) {
                   itemContext += `Content:\n${file.textContent}\n`;
               } else {
                   itemContext += `(This is a reference to a ${file.type} file named '${file.name}'. The AI should infer context from its name, type, and category.)\n`;
@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { PageHeader } from '@/components/layout/page-header';
+import { RubricEditor } from '@/components/features/scoring-rubrics/rubric-editor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, History, Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useProductContext } from '@/hooks/useProductContext';
+import { BUILT_IN_RUBRIC_VERSION, countRubricMetrics, formatRubricReference } from '@/lib/scoring-rubrics';
+import type { ScoringRubricResponse } from '@/lib/rubric-store';
+import type { ScoringRubric } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<T>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const rubricUrl = (product: string, version?: number) =>
+  `/api/scoring-rubrics?product=${encodeURIComponent(product)}${version === undefined ? '' : `&version=${version}`}`;
+
+export default function ScoringRubricsPage() {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const { availableProducts } = useProductContext();
+  const canEdit = hasPermission('catalog:write');
+
+  const [product, setProduct] = useState<string>(availableProducts[0]?.name ?? '');
+  const [draft, setDraft] = useState<ScoringRubric | null>(null);
+  const [versions, setVersions] = useState<ScoringRubricResponse['versions']>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeVersion = versions[0]?.version;
+
+  const loadRubric = useCallback(async (productName: string, version?: number) => {
+    if (!productName) return;
+    setIsLoading(true);
+    try {
+      const data = await apiRequest<ScoringRubricResponse>(rubricUrl(productName, version));
+      setDraft(data.rubric);
+      setVersions(data.versions);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Load Rubric', description: (error as Error).message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void loadRubric(product);
+  }, [product, loadRubric]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const data = await apiRequest<ScoringRubricResponse>('/api/scoring-rubrics', {
+        method: 'PUT',
+        body: JSON.stringify({ product: draft.product, name: draft.name, categories: draft.categories }),
+      });
+      setDraft(data.rubric);
+      setVersions(data.versions);
+      toast({ title: 'Rubric Saved', description: `${formatRubricReference(data.rubric)} is now used for new ${data.rubric.product} scores.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Save Rubric', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader title="Scoring Rubrics" />
+      <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center"><ClipboardList className="mr-2 h-5 w-5 text-primary" /> Rubric</CardTitle>
+            <CardDescription>
+              Categories, metrics, weights and guidance used by AI Call Scoring for each product. Saving creates a new
+              version; earlier scores keep a reference to the version they were scored against.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="w-56 space-y-1">
+                <Label htmlFor="rubric-product">Product</Label>
+                <Select value={product} onValueChange={setProduct}>
+                  <SelectTrigger id="rubric-product"><SelectValue placeholder="Select a product" /></SelectTrigger>
+                  <SelectContent>
+                    {availableProducts.map((item) => (
+                      <SelectItem key={item.name} value={item.name}>{item.displayName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1 min-w-[220px] space-y-1">
+                <Label htmlFor="rubric-name">Rubric name</Label>
+                <Input
+                  id="rubric-name"
+                  value={draft?.name ?? ''}
+                  disabled={!canEdit || !draft}
+                  onChange={(event) => setDraft((current) => (current ? { ...current, name: event.target.value } : current))}
+                />
+              </div>
+              {canEdit && (
+                <Button onClick={() => void handleSave()} disabled={!draft || isSaving || isLoading}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save as New Version
+                </Button>
+              )}
+            </div>
+            {draft && (
+              <p className="text-sm text-muted-foreground">
+                Editing {formatRubricReference(draft)} · {countRubricMetrics(draft)} metrics
+                {draft.version === activeVersion ? <Badge className="ml-2">Active</Badge> : <Badge variant="outline" className="ml-2">Saving makes this the active version</Badge>}
+              </p>
+            )}
+            {!canEdit && (
+              <Alert><AlertDescription className="text-xs">Your role can view rubrics but not change them.</AlertDescription></Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
+          <div>
+            {isLoading || !draft ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading rubric…
+              </div>
+            ) : (
+              <RubricEditor
+                categories={draft.categories}
+                readOnly={!canEdit}
+                onChange={(categories) => setDraft((current) => (current ? { ...current, categories } : current))}
+              />
+            )}
+          </div>
+          <Card className="h-fit">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md flex items-center"><History className="mr-2 h-4 w-4" /> Versions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {versions.map((version) => (
+                <button
+                  key={version.version}
+                  type="button"
+                  className="w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-muted/50 disabled:opacity-60"
+                  disabled={isLoading || version.version === draft?.version}
+                  onClick={() => void loadRubric(product, version.version)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {version.version === BUILT_IN_RUBRIC_VERSION ? 'Built-in' : `v${version.version}`}
+                    </span>
+                    {version.version === activeVersion && <Badge variant="secondary">Active</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {version.metricCount} metrics
+                    {version.updatedAt && ` · ${format(parseISO(version.updatedAt), 'PP p')}`}
+                    {version.updatedBy && ` · ${version.updatedBy}`}
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
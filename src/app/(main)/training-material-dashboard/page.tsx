@@ -2,7 +2,8 @@
 "use client";
 
 import { useState, useMemo, useEffect } from 'react';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { TrainingMaterialDashboardTable } from '@/components/features/training-material-dashboard/dashboard-table';
 import type { HistoricalMaterialItem, ActivityLogEntry } from '@/types';
@@ -133,11 +134,7 @@ export default function TrainingMaterialDashboardPage() {
             <Skeleton className="h-20 w-full" />
           </div>
         )}
-         <div className="text-xs text-muted-foreground p-4 border-t">
-          This dashboard displays a history of generated Training Materials (Decks/Brochures). Each entry's content outline can be viewed and downloaded.
-          Original uploaded files used as context are not stored and cannot be re-downloaded from here. The AI generates content based on file names/types and (for text-based files/prompts) their content.
-          Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries.
-        </div>
+         <ActivityHistoryPager note="This dashboard displays a history of generated Training Materials (Decks/Brochures). Each entry's content outline can be viewed and downloaded. Original uploaded files used as context are not stored and cannot be re-downloaded from here. The AI generates content based on file names/types and (for text-based files/prompts) their content." />
       </main>
     </div>
   );
@@ -3,19 +3,36 @@
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import JSZip from 'jszip';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { TranscriptionDashboardTable } from '@/components/features/transcription-dashboard/dashboard-table';
 import { ActivityLogEntry, HistoricalTranscriptionItem } from '@/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button'; 
-import { Download, FileArchive, Trash2 } from 'lucide-react'; 
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Download, FileArchive, FileSpreadsheet, Trash2 } from 'lucide-react'; 
 import { useToast } from '@/hooks/use-toast'; 
+import { useAuth } from '@/hooks/useAuth';
 import { generateTextPdfBlob } from '@/lib/pdf-utils';
 import { formatTranscriptSegments } from '@/lib/transcript-utils';
+import { normalizeTranscript } from '@/lib/transcript/normalize';
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  TRANSCRIPT_EXPORT_FORMAT_LABELS,
+  createTranscriptExportFile,
+  type TranscriptExportFormat,
+} from '@/lib/transcript/export';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 
+type ExportFormat = 'pdf' | TranscriptExportFormat;
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = { pdf: 'PDF', ...TRANSCRIPT_EXPORT_FORMAT_LABELS };
+
 const isTranscriptionHistoryEntry = (activity: ActivityLogEntry): activity is HistoricalTranscriptionItem => {
   const { details } = activity;
   return (
@@ -34,6 +51,9 @@ export default function TranscriptionDashboardPage() {
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const { toast } = useToast(); 
   const [isClearAlertOpen, setIsClearAlertOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
+  const [includePreCall, setIncludePreCall] = useState(true);
+  const { hasPermission } = useAuth();
 
   useEffect(() => {
     setIsClient(true);
@@ -74,7 +94,7 @@ export default function TranscriptionDashboardPage() {
     
     toast({
         title: "Preparing ZIP...",
-        description: `Bundling ${itemsToExport.length} transcript(s) as PDFs. This may take a moment.`,
+        description: `Bundling ${itemsToExport.length} transcript(s) as ${EXPORT_FORMAT_LABELS[exportFormat]} files. This may take a moment.`,
     });
 
     try {
@@ -82,10 +102,22 @@ export default function TranscriptionDashboardPage() {
       for (const item of itemsToExport) {
         // Format segments using standard utility instead of old diarizedTranscript field
         if (item.details.transcriptionOutput?.segments && !item.details.error) {
-          const formattedTranscript = formatTranscriptSegments(item.details.transcriptionOutput);
-          const pdfBlob = generateTextPdfBlob(formattedTranscript);
           const baseName = item.details.fileName.includes('.') ? item.details.fileName.substring(0, item.details.fileName.lastIndexOf('.')) : item.details.fileName;
-          zip.file(`${baseName}_Transcript.pdf`, pdfBlob);
+          if (exportFormat === 'pdf') {
+            const formattedTranscript = formatTranscriptSegments(item.details.transcriptionOutput);
+            zip.file(`${baseName}_Transcript.pdf`, generateTextPdfBlob(formattedTranscript));
+            continue;
+          }
+          const doc = normalizeTranscript(
+            { segments: item.details.transcriptionOutput.segments },
+            { source: 'transcription-dashboard', mergeConsecutiveTurns: true }
+          );
+          const { blob, extension } = await createTranscriptExportFile(doc, exportFormat, {
+            includePreCall,
+            title: item.details.fileName,
+            summary: item.details.transcriptionOutput.summary,
+          });
+          zip.file(`${baseName}_Transcript.${extension}`, blob);
         }
       }
       
@@ -101,7 +133,7 @@ export default function TranscriptionDashboardPage() {
 
       toast({
         title: "Export Successful",
-        description: `${itemsToExport.length} transcript(s) have been downloaded as a ZIP file of PDFs.`,
+        description: `${itemsToExport.length} transcript(s) have been downloaded as a ZIP file of ${EXPORT_FORMAT_LABELS[exportFormat]} files.`,
       });
 
     } catch (error) {
@@ -113,7 +145,7 @@ export default function TranscriptionDashboardPage() {
       });
     }
 
-  }, [transcriptionHistory, toast]);
+  }, [transcriptionHistory, toast, exportFormat, includePreCall]);
 
   const handleSelectionChange = useCallback((ids: string[]) => {
     setSelectedIds(ids);
@@ -125,7 +157,29 @@ export default function TranscriptionDashboardPage() {
     <div className="flex flex-col h-full">
       <PageHeader title="Transcription Dashboard" />
       <main className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
-        <div className="flex justify-end gap-2">
+        <div className="flex flex-wrap items-center justify-end gap-2">
+            <div className="flex items-center gap-2 mr-auto">
+              <Label htmlFor="export-format" className="text-sm">Export as</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger id="export-format" className="w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['pdf', ...TRANSCRIPT_EXPORT_FORMATS] as ExportFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Switch
+                id="include-pre-call"
+                checked={includePreCall}
+                onCheckedChange={setIncludePreCall}
+                disabled={exportFormat === 'pdf'}
+              />
+              <Label htmlFor="include-pre-call" className="text-sm" title="IVR, hold and ringing before the agent and customer start talking">
+                Include pre-call
+              </Label>
+            </div>
             <Button
                 onClick={handleDeleteSelected}
                 disabled={selectedIds.length === 0}
@@ -139,6 +193,24 @@ export default function TranscriptionDashboardPage() {
             >
                 <Download className="mr-2 h-4 w-4" /> Export Selected as ZIP ({selectedIds.length})
             </Button>
+            {hasPermission('activity:read:workspace') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" title="Word error rate of the machine transcripts against reviewer corrections">
+                    <FileSpreadsheet className="mr-2 h-4 w-4" /> Accuracy Dataset
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Corrected calls (CSV)</DropdownMenuLabel>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/transcript-corrections/dataset?format=csv&by=call" download>WER per call</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/transcript-corrections/dataset?format=csv&by=agent" download>WER per agent</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
            <Button
                 onClick={() => handleExport([], true)}
                 variant="outline"
@@ -169,9 +241,7 @@ export default function TranscriptionDashboardPage() {
             <Skeleton className="h-20 w-full" />
           </div>
         )}
-         <div className="text-xs text-muted-foreground p-4 border-t">
-          This dashboard displays a history of successful transcriptions. Each entry now includes audio playback and download controls alongside the transcript. Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries.
-        </div>
+         <ActivityHistoryPager note="This dashboard displays a history of successful transcriptions. Each entry now includes audio playback and download controls alongside the transcript." />
       </main>
     </div>
      <AlertDialog open={isClearAlertOpen} onOpenChange={setIsClearAlertOpen}>
@@ -22,6 +22,7 @@ import { useWhisper } from '@/hooks/useWhisper';
 import { useProductContext } from '@/hooks/useProductContext';
 import { GOOGLE_PRESET_VOICES, SAMPLE_TEXT } from '@/hooks/use-voice-samples';
 import { synthesizeSpeechOnClient } from '@/lib/tts-client';
+import { createTurnAudioCapture, type TurnAudioCapture } from '@/lib/audio/turn-capture';
 import { formatTranscriptSegments } from '@/lib/transcript-utils';
 import { buildProductKnowledgeBaseContext } from '@/lib/knowledge-base-context';
 import { downloadDataUriFile } from '@/lib/export';
@@ -31,8 +32,11 @@ import {
     Product, SalesPlan, CustomerCohort,
     ConversationTurn, GeneratePitchOutput,
     ScoreCallOutput,
-    VoiceSalesAgentFlowInput, VoiceSalesAgentActivityDetails, TranscriptionOutput
+    VoiceSalesAgentFlowInput, VoiceSalesAgentFlowOutput, VoiceSalesAgentActivityDetails, TranscriptionOutput,
+    GenerateFullCallAudioOutput, SalesDialogueState, SimulatedCustomerState, SimulatedCustomerTurnOutput
 } from '@/types';
+import { advanceSalesDialogue, recordAgentUtterance } from '@/lib/sales-dialogue';
+import { getSimulatedCustomerPersonas } from '@/lib/simulated-customer';
 
 import { PhoneCall, AlertTriangle, Bot, User as UserIcon, Info, Mic, Radio, PhoneOff, Redo, Settings, Volume2, Loader2, SquareTerminal, Star, PlayCircle, FileAudio } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
@@ -89,37 +93,6 @@ const shouldAutoContinuePitch = (userInput: string): boolean => {
   return normalized.length <= 18 && normalized.split(/\s+/).length <= 3;
 };
 
-const getNextPitchSection = (
-  conversation: ConversationTurn[],
-  pitch?: GeneratePitchOutput | null
-): { text: string; isFinal: boolean } | null => {
-  if (!pitch) return null;
-  const saidTexts = new Set(
-    conversation
-      .filter(turn => turn.speaker === 'AI')
-      .map(turn => turn.text?.trim())
-      .filter(Boolean)
-  );
-
-  const sectionOrder: Array<{ key: keyof GeneratePitchOutput; isFinal?: boolean }> = [
-    { key: 'personalizedHook' },
-    { key: 'productExplanation' },
-    { key: 'keyBenefitsAndBundles' },
-    { key: 'discountOrDealExplanation' },
-    { key: 'objectionHandlingPreviews' },
-    { key: 'finalCallToAction', isFinal: true },
-  ];
-
-  for (const section of sectionOrder) {
-    const value = pitch[section.key];
-    if (typeof value === 'string' && value.trim().length > 0 && !saidTexts.has(value.trim())) {
-      return { text: value, isFinal: Boolean(section.isFinal) };
-    }
-  }
-  return null;
-};
-
-
 const mapSpeakerToRole = (speaker: ConversationTurn['speaker']): 'AGENT' | 'USER' =>
   speaker === 'AI' ? 'AGENT' : 'USER';
 
@@ -127,6 +100,8 @@ const SILENCE_TIMEOUT_MS = 650; // Wait ~0.65s before finalizing user turn
 const MAX_SILENCE_DURATION_MS = 1600;
 const MIN_VOICE_DURATION_MS = 260;
 const VOICE_SALES_MODULE = 'AI Voice Sales Agent';
+const LIVE_CUSTOMER = 'live';
+const SIMULATED_PERSONAS = getSimulatedCustomerPersonas();
 
 type CallState = "IDLE" | "CONFIGURING" | "LISTENING" | "PROCESSING" | "AI_SPEAKING" | "ENDED" | "ERROR";
 
@@ -152,6 +127,14 @@ export default function VoiceSalesAgentPage() {
   const [conversation, setConversation] = useState<ConversationTurn[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [currentPitch, setCurrentPitch] = useState<GeneratePitchOutput | null>(null);
+  const [dialogueState, setDialogueState] = useState<SalesDialogueState | null>(null);
+  // The customer side is either the microphone or a simulated persona that replies to each agent turn.
+  const [customerPersonaId, setCustomerPersonaId] = useState<string>(LIVE_CUSTOMER);
+  const simulatedPersona = useMemo(() => SIMULATED_PERSONAS.find(p => p.id === customerPersonaId) ?? null, [customerPersonaId]);
+  const simulatedCustomerStateRef = useRef<SimulatedCustomerState | null>(null);
+  const simulationSeedRef = useRef(Date.now());
+  const isSimulatedReplyPendingRef = useRef(false);
+  const [simulatedCustomerHungUp, setSimulatedCustomerHungUp] = useState(false);
   const [finalCallArtifacts, setFinalCallArtifacts] = useState<{ transcript: string, transcriptAccuracy?: string, audioUri?: string, score?: ScoreCallOutput } | null>(null);
 
   // Store last call config for redial functionality
@@ -276,6 +259,8 @@ export default function VoiceSalesAgentPage() {
   const micStreamRef = useRef<MediaStream | null>(null);
   const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const agentSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  // PCM of the customer's current turn, attached to the turn so the full-call mix has a customer channel
+  const turnCaptureRef = useRef<TurnAudioCapture | null>(null);
 
   const setupRecordingGraph = useCallback(async () => {
     if (!supportsMediaRecorder || !audioPlayerRef.current) {
@@ -307,6 +292,9 @@ export default function VoiceSalesAgentPage() {
       micSourceRef.current = audioContextRef.current.createMediaStreamSource(micStreamRef.current);
       micSourceRef.current.connect(recordingDestinationRef.current);
     }
+    if (micSourceRef.current && !turnCaptureRef.current) {
+      turnCaptureRef.current = createTurnAudioCapture(audioContextRef.current, micSourceRef.current);
+    }
     // Only create MediaElementSource if it doesn't exist yet to prevent "already connected" error
     if (!agentSourceRef.current && recordingDestinationRef.current && audioPlayerRef.current) {
       agentSourceRef.current = audioContextRef.current.createMediaElementSource(audioPlayerRef.current);
@@ -371,6 +359,8 @@ export default function VoiceSalesAgentPage() {
       });
     }
 
+    turnCaptureRef.current?.stop();
+    turnCaptureRef.current = null;
     micStreamRef.current?.getTracks().forEach((track) => track.stop());
     micStreamRef.current = null;
     micSourceRef.current?.disconnect();
@@ -510,6 +500,7 @@ export default function VoiceSalesAgentPage() {
       }
 
       const userInputText = text.trim();
+      const customerAudioUri = turnCaptureRef.current?.take() ?? undefined;
       setCurrentTranscription("");
 
       let conversationSnapshot: ConversationTurn[] = [];
@@ -527,6 +518,7 @@ export default function VoiceSalesAgentPage() {
           speaker: 'User',
           text: userInputText,
           timestamp: new Date().toISOString(),
+          audioDataUri: customerAudioUri,
         };
         const merged = [...withoutLiveTurns, finalizedTurn];
         conversationSnapshot = merged;
@@ -570,7 +562,7 @@ export default function VoiceSalesAgentPage() {
 
       const textToSynthesize = trimmed.replace(/\bET\b/g, 'E T');
       const ttsStartTime = performance.now();
-      const synthesisResult = await synthesizeSpeechOnClient({ text: textToSynthesize, voice: selectedVoiceId });
+      const synthesisResult = await synthesizeSpeechOnClient({ text: textToSynthesize, voice: selectedVoiceId, audioEncoding: 'LINEAR16' });
       const ttsEndTime = performance.now();
       console.log(`VoiceAgent: TTS synthesis completed in ${(ttsEndTime - ttsStartTime).toFixed(2)}ms for ${textToSynthesize.length} characters`);
       
@@ -596,6 +588,8 @@ export default function VoiceSalesAgentPage() {
         audioPlayerRef.current.pause();
         audioPlayerRef.current.src = audioUri;
         audioPlayerRef.current.currentTime = 0;
+        // The customer's next turn starts once the agent finishes, unless they talk over it
+        turnCaptureRef.current?.reset();
         playAudioSafely(audioPlayerRef.current, (error) => {
           console.error("Audio playback error:", error);
           toast({ variant: 'destructive', title: 'Playback Error', description: `Could not play audio: ${getErrorMessage(error)}` });
@@ -623,29 +617,28 @@ export default function VoiceSalesAgentPage() {
     if (!selectedProduct || !selectedCohort || !productInfo) return;
     setError(null);
     
-    const nextPitchSection =
-      currentPitch && shouldAutoContinuePitch(userInputText)
-        ? getNextPitchSection(currentConversation, currentPitch)
+    // A plain go-ahead during the pitch needs no intent classification: the dialogue
+    // state machine is advanced here and the next section is spoken without a server round trip.
+    const localTransition =
+      currentPitch && dialogueState && shouldAutoContinuePitch(userInputText)
+        ? advanceSalesDialogue(dialogueState, { intent: 'CONTINUE', text: userInputText })
         : null;
+    const localSectionText =
+      currentPitch && localTransition?.action.type === 'SPEAK_PITCH_SECTION'
+        ? currentPitch[localTransition.action.section].trim()
+        : '';
 
-    if (nextPitchSection) {
+    if (currentPitch && localTransition && localSectionText) {
       inactivityCounter.current = 0;
+      setDialogueState(recordAgentUtterance(localTransition.state, localSectionText, currentPitch));
       const aiTurn: ConversationTurn = {
         id: `ai-${Date.now()}`,
         speaker: 'AI',
-        text: nextPitchSection.text,
+        text: localSectionText,
         timestamp: new Date().toISOString(),
       };
       setConversation(prev => [...prev, aiTurn]);
-      if (nextPitchSection.isFinal) {
-        setIsAutoEnding(true);
-        setTimeout(() => {
-          if (callStateRef.current !== 'ENDED' && handleEndInteractionRef.current) {
-            handleEndInteractionRef.current();
-          }
-        }, 500);
-      }
-      await synthesizeAndPlay(nextPitchSection.text, aiTurn.id);
+      await synthesizeAndPlay(localSectionText, aiTurn.id);
       return;
     }
 
@@ -680,6 +673,7 @@ export default function VoiceSalesAgentPage() {
         customerCohort: selectedCohort, agentName, userName,
         knowledgeBaseContext: kbContext,
         conversationHistory: currentConversation, currentPitchState: currentPitch,
+        dialogueState,
         currentUserInputText: userInputText,
         inactivityCounter: inactivityCounter.current,
         brandUrl: productInfo.brandUrl,
@@ -693,8 +687,9 @@ export default function VoiceSalesAgentPage() {
       if (!response.ok) {
         throw new Error(`Voice sales agent API failed: ${response.statusText}`);
       }
-      const flowResult = await response.json();
+      const flowResult = await response.json() as VoiceSalesAgentFlowOutput;
       if (flowResult.generatedPitch) setCurrentPitch(flowResult.generatedPitch);
+      if (flowResult.dialogueState) setDialogueState(flowResult.dialogueState);
 
       if (flowResult.errorMessage) {
           throw new Error(flowResult.errorMessage);
@@ -736,7 +731,7 @@ export default function VoiceSalesAgentPage() {
     const endTime = performance.now();
     const duration = endTime - startTime;
     console.log(`VoiceAgent: Agent turn completed in ${duration.toFixed(2)}ms (${currentConversation.length} turns in conversation)`);
-  }, [selectedProduct, productInfo, agentName, userName, selectedSalesPlan, selectedSpecialConfig, offerDetails, selectedCohort, currentPitch, productKbFiles, toast, synthesizeAndPlay, isOpenSourceVersion, requestOpenSourceAgentResponse, getCachedKnowledgeContext]);
+  }, [selectedProduct, productInfo, agentName, userName, selectedSalesPlan, selectedSpecialConfig, offerDetails, selectedCohort, currentPitch, dialogueState, productKbFiles, toast, synthesizeAndPlay, isOpenSourceVersion, requestOpenSourceAgentResponse, getCachedKnowledgeContext]);
 
   processAgentTurnRef.current = processAgentTurn;
 
@@ -838,13 +833,36 @@ export default function VoiceSalesAgentPage() {
       console.warn('VoiceAgent: failed to capture live recording', err);
     }
 
+    if (!audioDataUri) {
+      // Without a live recording, assemble one from the audio of the individual turns.
+      try {
+        const response = await fetch('/api/generate-full-call-audio', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ conversationHistory: finalConversation }),
+        });
+        const assembled = response.ok ? await response.json() as GenerateFullCallAudioOutput : null;
+        audioDataUri = assembled?.audioDataUri || undefined;
+        const silentTurns = assembled?.segments?.filter(segment => segment.source === 'silence') ?? [];
+        if (audioDataUri && silentTurns.length > 0) {
+          console.warn('VoiceAgent: turns held as silence in the assembled call audio', silentTurns);
+          toast({
+            title: "Partial Call Recording",
+            description: `${silentTurns.length} of ${assembled?.segments?.length ?? 0} turns had no usable audio and are silent in the recording.`,
+          });
+        }
+      } catch (err) {
+        console.warn('VoiceAgent: failed to assemble the call audio from its turns', err);
+      }
+    }
+
     if (audioDataUri) {
       setCurrentRecordingDataUri(audioDataUri);
     } else {
       toast({
         variant: 'destructive',
         title: "Recording Unavailable",
-        description: "Live call recording could not be captured. Please ensure microphone access is granted and that you're using a supported browser.",
+        description: "Live call recording could not be captured, and the turns had no audio to assemble one from. Please ensure microphone access is granted and that you're using a supported browser.",
       });
     }
 
@@ -886,6 +904,7 @@ export default function VoiceSalesAgentPage() {
             fullTranscriptText: transcriptText,
             fullConversation: finalConversation,
             fullCallAudioDataUri: audioDataUri,
+            dialogueState,
             selectedKbIds: productKbFiles.map(f => f.id)
           });
         }
@@ -899,7 +918,7 @@ export default function VoiceSalesAgentPage() {
         handleScorePostCall({ transcript: transcriptText, audioDataUri, transcriptAccuracy });
       }, 100);
     }
-  }, [conversation, stopRecording, cancelAudio, stopRecordingGraph, blobToDataUri, toast, activities, updateActivity, productKbFiles, handleScorePostCall]);
+  }, [conversation, dialogueState, stopRecording, cancelAudio, stopRecordingGraph, blobToDataUri, toast, activities, updateActivity, productKbFiles, handleScorePostCall]);
 
 
   const handleStartConversation = useCallback(async () => {
@@ -932,11 +951,13 @@ export default function VoiceSalesAgentPage() {
     });
 
     inactivityCounter.current = 0;
-    setConversation([]); setCurrentPitch(null); setFinalCallArtifacts(null);
+    setConversation([]); setCurrentPitch(null); setDialogueState(null); setFinalCallArtifacts(null);
+    simulatedCustomerStateRef.current = null;
+    simulationSeedRef.current = Date.now();
     setCallState("PROCESSING");
 
     const activityDetails: Partial<VoiceSalesAgentActivityDetails> = {
-      input: { product: selectedProduct, customerCohort: selectedCohort, agentName, userName, voiceName: selectedVoiceId, selectedKbIds: productKbFiles.map(f=>f.id) },
+      input: { product: selectedProduct, customerCohort: selectedCohort, agentName, userName, voiceName: selectedVoiceId, selectedKbIds: productKbFiles.map(f=>f.id), simulatedCustomerPersona: simulatedPersona?.name },
       status: 'In Progress',
       origin: isOpenSourceVersion ? 'voice-agent' : undefined,
     };
@@ -975,13 +996,14 @@ export default function VoiceSalesAgentPage() {
         if (!response.ok) {
           throw new Error(`Voice sales agent API failed: ${response.statusText}`);
         }
-        const pitchResult = await response.json();
+        const pitchResult = await response.json() as VoiceSalesAgentFlowOutput;
 
         if (pitchResult.errorMessage || !pitchResult.generatedPitch || !pitchResult.currentAiResponseText) {
           throw new Error(pitchResult.errorMessage || "Failed to generate initial pitch.");
         }
 
         setCurrentPitch(pitchResult.generatedPitch);
+        setDialogueState(pitchResult.dialogueState);
         const openingText = pitchResult.currentAiResponseText;
         const aiTurn: ConversationTurn = { id: `ai-${Date.now()}`, speaker: 'AI' as const, text: openingText, timestamp: new Date().toISOString()};
         setConversation([aiTurn]);
@@ -1012,7 +1034,7 @@ export default function VoiceSalesAgentPage() {
       setIsVoicePreviewPlaying(true);
       try {
         const textToSynthesize = SAMPLE_TEXT.replace(/\bET\b/g, 'E T');
-        const result = await synthesizeSpeechOnClient({ text: textToSynthesize, voice: selectedVoiceId });
+        const result = await synthesizeSpeechOnClient({ text: textToSynthesize, voice: selectedVoiceId, audioEncoding: 'LINEAR16' });
         player.src = result.audioDataUri;
         const playPromise = player.play();
         if (playPromise && typeof playPromise.catch === 'function') {
@@ -1051,6 +1073,9 @@ export default function VoiceSalesAgentPage() {
     setCallState("CONFIGURING");
     setConversation([]); 
     setCurrentPitch(null); 
+    setDialogueState(null);
+    simulatedCustomerStateRef.current = null;
+    setSimulatedCustomerHungUp(false);
     setFinalCallArtifacts(null);
     setError(null); 
     setCurrentTranscription("");
@@ -1105,6 +1130,7 @@ export default function VoiceSalesAgentPage() {
         } else {
             setCurrentlyPlayingId(null);
             setCurrentWordIndex(-1);
+            turnCaptureRef.current?.reset();
             if (isAutoEnding) {
                 if (handleEndInteractionRef.current) {
                   handleEndInteractionRef.current();
@@ -1144,12 +1170,68 @@ export default function VoiceSalesAgentPage() {
   }, [conversation, currentlyPlayingId, isAutoEnding, playAudioSafely]);
 
   useEffect(() => {
-    if (callState === 'LISTENING' && !isRecording) {
+    if (callState === 'LISTENING' && !isRecording && !simulatedPersona) {
         startRecording();
-    } else if (callState !== 'LISTENING' && isRecording) {
+    } else if ((callState !== 'LISTENING' || simulatedPersona) && isRecording) {
         stopRecording();
     }
-  }, [callState, isRecording, startRecording, stopRecording]);
+  }, [callState, isRecording, startRecording, stopRecording, simulatedPersona]);
+
+  // With a simulated customer, the persona replies whenever the agent has finished speaking.
+  useEffect(() => {
+    const lastTurn = conversation[conversation.length - 1];
+    if (!simulatedPersona || callState !== 'LISTENING' || isAutoEnding || lastTurn?.speaker !== 'AI' || isSimulatedReplyPendingRef.current) {
+      return;
+    }
+    isSimulatedReplyPendingRef.current = true;
+    setCallState('PROCESSING');
+    void (async () => {
+      try {
+        const response = await fetch('/api/voice-sales-agent/simulated-customer', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            persona: simulatedPersona,
+            productDisplayName: productInfo?.displayName ?? selectedProduct ?? '',
+            userName,
+            conversationHistory: conversation,
+            customerState: simulatedCustomerStateRef.current,
+            seed: simulationSeedRef.current,
+          }),
+        });
+        if (!response.ok) {
+          throw new Error(`Simulated customer API failed: ${response.statusText}`);
+        }
+        const reply = await response.json() as SimulatedCustomerTurnOutput;
+        if (reply.errorMessage) {
+          throw new Error(reply.errorMessage);
+        }
+        if (callStateRef.current === 'ENDED') return;
+        simulatedCustomerStateRef.current = reply.customerState;
+        const userTurn: ConversationTurn = { id: `user-${Date.now()}`, speaker: 'User', text: reply.replyText, timestamp: new Date().toISOString() };
+        const updatedConversation = [...conversation, userTurn];
+        setConversation(updatedConversation);
+        if (reply.endsCall) {
+          setSimulatedCustomerHungUp(true);
+        } else if (processAgentTurnRef.current) {
+          await processAgentTurnRef.current(updatedConversation, reply.replyText);
+        }
+      } catch (error) {
+        setError(getErrorMessage(error));
+        setCallState('ERROR');
+      } finally {
+        isSimulatedReplyPendingRef.current = false;
+      }
+    })();
+  }, [simulatedPersona, callState, isAutoEnding, conversation, productInfo, selectedProduct, userName]);
+
+  useEffect(() => {
+    if (!simulatedCustomerHungUp) return;
+    setSimulatedCustomerHungUp(false);
+    if (callStateRef.current !== 'ENDED') {
+      void handleEndInteraction();
+    }
+  }, [simulatedCustomerHungUp, handleEndInteraction]);
 
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -1251,6 +1333,19 @@ export default function VoiceSalesAgentPage() {
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div className="space-y-1"><Label htmlFor="agent-name">Agent Name <span className="text-destructive">*</span></Label><Input id="agent-name" placeholder="e.g., Samantha" value={agentName} onChange={e => setAgentName(e.target.value)} disabled={isCallInProgress} /></div>
                             <div className="space-y-1"><Label htmlFor="user-name">Customer Name <span className="text-destructive">*</span></Label><Input id="user-name" placeholder="e.g., Rohan" value={userName} onChange={e => setUserName(e.target.value)} disabled={isCallInProgress} /></div>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="customer-persona-select">Customer</Label>
+                            <Select value={customerPersonaId} onValueChange={setCustomerPersonaId} disabled={isCallInProgress}>
+                                <SelectTrigger id="customer-persona-select"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={LIVE_CUSTOMER}>Live (speak into the microphone)</SelectItem>
+                                    {SIMULATED_PERSONAS.map(p => <SelectItem key={p.id} value={p.id}>Simulated: {p.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                            {simulatedPersona && (
+                                <p className="text-xs text-muted-foreground">{simulatedPersona.description} Patience: {simulatedPersona.patience} agent turns. Purchase intent: {Math.round(simulatedPersona.purchaseIntent * 100)}%.</p>
+                            )}
                         </div>
                           {isClient && (
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -2,7 +2,8 @@
 "use client";
 
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { useActivityLogger, MAX_ACTIVITIES_TO_STORE } from '@/hooks/use-activity-logger';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { ActivityHistoryPager } from '@/components/common/activity-history-pager';
 import { PageHeader } from '@/components/layout/page-header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -49,7 +50,7 @@ const prepareKnowledgeBaseContext = (
   let combinedContext = `Knowledge Base Context for Product: ${productObject.displayName}\n---\n`;
   for (const file of productSpecificFiles) {
     let contentToInclude = `(File: ${file.name}, Type: ${file.type}. Content not directly viewed for non-text or large files; AI should use name/type as context.)`;
-    if (file.isTextEntry && file.textContent) {
+    if (file.textContent) {
         contentToInclude = file.textContent;
     }
     const itemContent = `Item: ${file.name}\nType: ${file.isTextEntry ? 'Text Entry' : 'File'}\nContent Summary/Reference:\n${contentToInclude}\n---\n`;
@@ -344,9 +345,7 @@ export default function VoiceSupportDashboardPage() {
             <Skeleton className="h-12 w-full" /> <Skeleton className="h-20 w-full" /> <Skeleton className="h-20 w-full" /> <Skeleton className="h-20 w-full" />
           </div>
         )}
-         <div className="text-xs text-muted-foreground p-4 border-t">
-          Activity log is limited to the most recent {MAX_ACTIVITIES_TO_STORE} entries. Detailed interaction logs are available in the "View" dialog.
-        </div>
+         <ActivityHistoryPager note={'Detailed interaction logs are available in the "View" dialog.'} />
 
         {selectedInteraction && (
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
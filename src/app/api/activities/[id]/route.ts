@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Single activity entry
+ *
+ * GET    /api/activities/:id
+ * PATCH  /api/activities/:id   body: { details?: object (shallow-merged), userFeedback?: TranscriptFeedback }
+ * DELETE /api/activities/:id
+ *
+ * Entries outside the caller's scope answer 404, so ids from other users or
+ * workspaces are indistinguishable from missing ones.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  activityScopeFor,
+  deleteActivities,
+  getActivity,
+  ownershipScopeFor,
+  updateActivityDetails,
+  updateActivityFeedback,
+} from '@/lib/activity-log-server';
+import { entryInScope, type ActivityScope } from '@/lib/activity-store';
+import { requireIdentity } from '@/lib/auth/server';
+import { TranscriptFeedbackSchema, type ActivityLogEntry } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const PatchActivitySchema = z
+  .object({
+    details: z.record(z.unknown()).optional(),
+    userFeedback: TranscriptFeedbackSchema.optional(),
+  })
+  .refine((body) => body.details !== undefined || body.userFeedback !== undefined, {
+    message: 'Provide details and/or userFeedback.',
+  });
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const notFound = (id: string) => errorResponse(`Activity '${id}' not found.`, 404);
+
+const getScopedActivity = async (id: string, scope: ActivityScope): Promise<ActivityLogEntry | null> => {
+  const entry = await getActivity(id);
+  return entry && entryInScope(entry, scope) ? entry : null;
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'activity:read:own');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const entry = await getScopedActivity(id, activityScopeFor(identity));
+    if (!entry) return notFound(id);
+    return NextResponse.json<ApiResult<ActivityLogEntry>>({ ok: true, data: entry });
+  } catch (error) {
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'activity:write');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const parsed = PatchActivitySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid activity update: ${parsed.error.message}`, 400);
+    }
+    // Reviewers may leave feedback on any entry they can read; details stay owner-only.
+    const scope = parsed.data.details ? ownershipScopeFor(identity) : activityScopeFor(identity);
+    if (!(await getScopedActivity(id, scope))) return notFound(id);
+
+    let entry: ActivityLogEntry | null = null;
+    if (parsed.data.details) {
+      entry = await updateActivityDetails(id, parsed.data.details);
+      if (!entry) return notFound(id);
+    }
+    if (parsed.data.userFeedback) {
+      entry = await updateActivityFeedback(id, parsed.data.userFeedback);
+      if (!entry) return notFound(id);
+    }
+    return NextResponse.json<ApiResult<ActivityLogEntry>>({ ok: true, data: entry! });
+  } catch (error) {
+    console.error('Activity update API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'activity:delete');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const deleted = await deleteActivities([id], ownershipScopeFor(identity));
+    if (deleted === 0) return notFound(id);
+    return NextResponse.json<ApiResult<{ deleted: number }>>({ ok: true, data: { deleted } });
+  } catch (error) {
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileOverview Shared activity history
+ *
+ * GET    /api/activities?module=A&module=B&product=&agentName=&cursor=&limit=
+ *        Newest-first page of entries as `Paginated<ActivityLogEntry>`.
+ * POST   /api/activities   body: ActivityLogEntry | ActivityLogEntry[]
+ * DELETE /api/activities   body: { ids: string[] } | { all: true }
+ *
+ * Every response is an `ApiResult<T>`. Reads are limited to the caller's
+ * workspace (and to their own entries unless their role can review the
+ * workspace); writes are attributed to the caller and deletes only touch
+ * entries they own.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  activityScopeFor,
+  attributeActivities,
+  clearActivities,
+  deleteActivities,
+  listActivities,
+  ownershipScopeFor,
+  saveActivities,
+} from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { TranscriptFeedbackSchema, type ActivityLogEntry } from '@/types';
+import type { ApiResult, Paginated } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const ActivityLogEntrySchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.string().datetime(),
+  module: z.string().min(1),
+  product: z.string().optional(),
+  agentName: z.string().optional(),
+  details: z.unknown().optional(),
+  userFeedback: TranscriptFeedbackSchema.optional(),
+});
+
+const CreateActivitiesSchema = z.union([ActivityLogEntrySchema, z.array(ActivityLogEntrySchema).max(500)]);
+
+const DeleteActivitiesSchema = z.union([
+  z.object({ ids: z.array(z.string().min(1)).min(1) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:read:own');
+  if (response) return response;
+  try {
+    const params = request.nextUrl.searchParams;
+    const limitParam = params.get('limit');
+    const page = await listActivities({
+      ...activityScopeFor(identity),
+      module: params.getAll('module').filter(Boolean),
+      product: params.get('product') || undefined,
+      agentName: params.get('agentName') || undefined,
+      cursor: params.get('cursor'),
+      limit: limitParam ? Number(limitParam) : undefined,
+    });
+    return NextResponse.json<ApiResult<Paginated<ActivityLogEntry>>>({ ok: true, data: page });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Activity list API error:', message);
+    return errorResponse(message, message.includes('cursor') ? 400 : 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:write');
+  if (response) return response;
+  try {
+    const parsed = CreateActivitiesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid activity payload: ${parsed.error.message}`, 400);
+    }
+    const entries = attributeActivities(Array.isArray(parsed.data) ? parsed.data : [parsed.data], identity);
+    const saved = await saveActivities(entries, ownershipScopeFor(identity));
+    return NextResponse.json<ApiResult<ActivityLogEntry[]>>({ ok: true, data: saved }, { status: 201 });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Activity create API error:', message);
+    return errorResponse(message, message.includes('belongs to another') ? 403 : 500);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:delete');
+  if (response) return response;
+  try {
+    const parsed = DeleteActivitiesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse('Provide { ids: string[] } or { all: true }.', 400);
+    }
+    const scope = ownershipScopeFor(identity);
+    const deleted =
+      'all' in parsed.data ? await clearActivities(scope) : await deleteActivities(parsed.data.ids, scope);
+    return NextResponse.json<ApiResult<{ deleted: number }>>({ ok: true, data: { deleted } });
+  } catch (error) {
+    console.error('Activity delete API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * PUT    /api/admin/api-keys/:id   Change the key's name, scopes and hourly quota.
+ * DELETE /api/admin/api-keys/:id   Revoke the key; requests made with it are rejected straight away.
+ *
+ * Only keys in the caller's workspace can be changed; other keys answer 404.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { revokeApiKey, updateApiKey } from '@/lib/public-api/store';
+import { ApiKeyInputSchema, type ApiKey } from '@/lib/public-api/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error: `API key '${id}' not found.` }, { status: 404 });
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const parsed = ApiKeyInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const key = updateApiKey(id, identity.workspaceId, parsed.data);
+    if (!key) return notFound(id);
+    return NextResponse.json<ApiResult<ApiKey>>({ ok: true, data: key });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  if (!revokeApiKey(id, identity.workspaceId)) return notFound(id);
+  return NextResponse.json<ApiResult<{ id: string }>>({ ok: true, data: { id } });
+}
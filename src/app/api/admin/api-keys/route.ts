@@ -0,0 +1,35 @@
+/**
+ * GET  /api/admin/api-keys   The caller's workspace's keys for the public `/api/v1` routes (system admins only).
+ * POST /api/admin/api-keys   Issue a key in the caller's workspace. The response carries the key; it is not returned again.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { createApiKey, listApiKeys } from '@/lib/public-api/store';
+import { ApiKeyInputSchema, type ApiKey, type ApiKeyWithSecret } from '@/lib/public-api/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  return NextResponse.json<ApiResult<ApiKey[]>>({ ok: true, data: listApiKeys(identity.workspaceId) });
+}
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  try {
+    const parsed = ApiKeyInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const key = createApiKey(parsed.data, identity);
+    return NextResponse.json<ApiResult<ApiKeyWithSecret>>({ ok: true, data: key }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
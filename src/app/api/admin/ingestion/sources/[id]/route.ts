@@ -0,0 +1,65 @@
+/**
+ * GET    /api/admin/ingestion/sources/:id   The source with its last 20 runs.
+ * PUT    /api/admin/ingestion/sources/:id   Replace its settings; omitted passwords and keys are kept.
+ * DELETE /api/admin/ingestion/sources/:id   Stop polling it. Recordings it took in are still skipped by other sources.
+ *
+ * Only sources in the caller's workspace can be read or changed; other sources answer 404.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import {
+  deleteIngestionSource,
+  getIngestionSource,
+  listIngestionRuns,
+  redactIngestionSource,
+  updateIngestionSource,
+} from '@/lib/ingestion/store';
+import { IngestionSourceInputSchema, type IngestionSource, type IngestionSourceWithRuns } from '@/lib/ingestion/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error: `Ingestion source '${id}' not found.` }, { status: 404 });
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  const source = getIngestionSource(id, identity.workspaceId);
+  if (!source) return notFound(id);
+  return NextResponse.json<ApiResult<IngestionSourceWithRuns>>({
+    ok: true,
+    data: { ...redactIngestionSource(source), runs: listIngestionRuns(id) },
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const parsed = IngestionSourceInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const source = updateIngestionSource(id, identity.workspaceId, parsed.data);
+    if (!source) return notFound(id);
+    return NextResponse.json<ApiResult<IngestionSource>>({ ok: true, data: redactIngestionSource(source) });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  if (!deleteIngestionSource(id, identity.workspaceId)) return notFound(id);
+  return NextResponse.json<ApiResult<{ id: string }>>({ ok: true, data: { id } });
+}
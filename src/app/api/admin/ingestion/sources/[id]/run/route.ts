@@ -0,0 +1,32 @@
+/**
+ * POST /api/admin/ingestion/sources/:id/run   Poll the source now instead of waiting for its schedule.
+ *      Responds when the run has finished: the recordings are queued, not yet scored.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { runIngestion } from '@/lib/ingestion/scheduler';
+import { getIngestionSource } from '@/lib/ingestion/store';
+import type { IngestionRun } from '@/lib/ingestion/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  const source = getIngestionSource(id, identity.workspaceId);
+  if (!source) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: `Ingestion source '${id}' not found.` }, { status: 404 });
+  }
+  try {
+    const run = await runIngestion(source, 'Manual');
+    return NextResponse.json<ApiResult<IngestionRun>>({ ok: true, data: run });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 409 });
+  }
+}
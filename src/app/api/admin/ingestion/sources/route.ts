@@ -0,0 +1,43 @@
+/**
+ * GET  /api/admin/ingestion/sources   The caller's workspace's recording ingestion sources with their recent runs (system admins only).
+ * POST /api/admin/ingestion/sources   Add a source; its first poll runs within a minute.
+ *
+ * Passwords and keys are accepted but never returned.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { createIngestionSource, listIngestionRuns, listIngestionSources, redactIngestionSource } from '@/lib/ingestion/store';
+import { IngestionSourceInputSchema, type IngestionSource, type IngestionSourceWithRuns } from '@/lib/ingestion/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const RECENT_RUNS = 5;
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const sources = listIngestionSources(identity.workspaceId).map((source) => ({
+    ...redactIngestionSource(source),
+    runs: listIngestionRuns(source.id, RECENT_RUNS),
+  }));
+  return NextResponse.json<ApiResult<IngestionSourceWithRuns[]>>({ ok: true, data: sources });
+}
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  try {
+    const parsed = IngestionSourceInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const source = createIngestionSource(parsed.data, identity);
+    return NextResponse.json<ApiResult<IngestionSource>>({ ok: true, data: redactIngestionSource(source) }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
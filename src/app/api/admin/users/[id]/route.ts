@@ -0,0 +1,50 @@
+/**
+ * PATCH /api/admin/users/:id   Change role, workspace, display name, password or disable an account.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateUser } from '@/lib/auth/user-store';
+import { requireIdentity } from '@/lib/auth/server';
+import { USER_ROLES, type AuthUser } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const UpdateUserSchema = z.object({
+  displayName: z.string().trim().min(1).max(100).optional(),
+  email: z.string().email().optional(),
+  role: z.enum(USER_ROLES).optional(),
+  workspaceId: z.string().min(1).optional(),
+  disabled: z.boolean().optional(),
+  password: z.string().min(8, 'Password must be at least 8 characters.').optional(),
+});
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'users:manage');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const parsed = UpdateUserSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    if (id === identity.userId && (parsed.data.disabled || (parsed.data.role && parsed.data.role !== 'admin'))) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: 'You cannot disable or demote your own account.' },
+        { status: 400 }
+      );
+    }
+    const user = await updateUser(id, parsed.data);
+    if (!user) {
+      return NextResponse.json<ApiResult<never>>({ ok: false, error: `User '${id}' not found.` }, { status: 404 });
+    }
+    return NextResponse.json<ApiResult<AuthUser>>({ ok: true, data: user });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 400 });
+  }
+}
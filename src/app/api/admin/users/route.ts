@@ -0,0 +1,46 @@
+/**
+ * GET  /api/admin/users   All users (admin only; enforced by middleware).
+ * POST /api/admin/users   Create a local user.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUser, listUsers } from '@/lib/auth/user-store';
+import { requireIdentity } from '@/lib/auth/server';
+import { USER_ROLES, type AuthUser } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const CreateUserSchema = z.object({
+  username: z.string().trim().min(3).max(100),
+  displayName: z.string().trim().min(1).max(100).optional(),
+  email: z.string().email().optional(),
+  role: z.enum(USER_ROLES),
+  workspaceId: z.string().min(1).optional(),
+  password: z.string().min(8, 'Password must be at least 8 characters.'),
+});
+
+export async function GET(request: NextRequest) {
+  const { response } = requireIdentity(request, 'users:manage');
+  if (response) return response;
+  const users = await listUsers();
+  return NextResponse.json<ApiResult<AuthUser[]>>({ ok: true, data: users });
+}
+
+export async function POST(request: NextRequest) {
+  const { response } = requireIdentity(request, 'users:manage');
+  if (response) return response;
+  try {
+    const parsed = CreateUserSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const user = await createUser(parsed.data);
+    return NextResponse.json<ApiResult<AuthUser>>({ ok: true, data: user }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 409 });
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * POST /api/admin/webhooks/deliveries/:id/replay   Send a logged delivery again with the same event id
+ *      and body. Responds with the new delivery while it is still pending. Deliveries of
+ *      subscriptions in other workspaces are not found.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { replayWebhookDelivery } from '@/lib/webhooks/dispatcher';
+import type { WebhookDelivery } from '@/lib/webhooks/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const delivery = replayWebhookDelivery(id, identity.workspaceId);
+    return NextResponse.json<ApiResult<WebhookDelivery>>({ ok: true, data: delivery }, { status: 202 });
+  } catch (error) {
+    const message = (error as Error).message;
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: message }, { status: message.includes('not found') ? 404 : 409 });
+  }
+}
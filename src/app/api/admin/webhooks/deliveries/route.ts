@@ -0,0 +1,30 @@
+/**
+ * GET /api/admin/webhooks/deliveries?subscriptionId=&status=&limit=   The delivery log, most recent first.
+ *     `status` is Pending, Delivered or Failed; `limit` defaults to 50 (at most 200). Only deliveries
+ *     of subscriptions in the caller's workspace are listed, since they carry that workspace's data.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { listWebhookDeliveries } from '@/lib/webhooks/store';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/lib/webhooks/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const DELIVERY_STATUSES: readonly WebhookDeliveryStatus[] = ['Pending', 'Delivered', 'Failed'];
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { searchParams } = request.nextUrl;
+  const status = searchParams.get('status') as WebhookDeliveryStatus | null;
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: `Unknown delivery status '${status}'.` }, { status: 400 });
+  }
+  const deliveries = listWebhookDeliveries(
+    identity.workspaceId,
+    { subscriptionId: searchParams.get('subscriptionId') || undefined, status: status ?? undefined },
+    Number(searchParams.get('limit')) || 50
+  );
+  return NextResponse.json<ApiResult<WebhookDelivery[]>>({ ok: true, data: deliveries });
+}
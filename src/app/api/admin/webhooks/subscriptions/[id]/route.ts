@@ -0,0 +1,51 @@
+/**
+ * PUT    /api/admin/webhooks/subscriptions/:id   Replace its settings. With `rotateSecret: true` a new
+ *        signing secret is generated and returned once.
+ * DELETE /api/admin/webhooks/subscriptions/:id   Remove it together with its delivery log.
+ *
+ * Subscriptions in other workspaces are not found.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { deleteWebhookSubscription, updateWebhookSubscription } from '@/lib/webhooks/store';
+import {
+  WebhookSubscriptionInputSchema,
+  type WebhookSubscription,
+  type WebhookSubscriptionWithSecret,
+} from '@/lib/webhooks/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error: `Webhook subscription '${id}' not found.` }, { status: 404 });
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const parsed = WebhookSubscriptionInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const subscription = updateWebhookSubscription(id, identity.workspaceId, parsed.data);
+    if (!subscription) return notFound(id);
+    return NextResponse.json<ApiResult<WebhookSubscription | WebhookSubscriptionWithSecret>>({ ok: true, data: subscription });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  const { id } = await params;
+  if (!deleteWebhookSubscription(id, identity.workspaceId)) return notFound(id);
+  return NextResponse.json<ApiResult<{ id: string }>>({ ok: true, data: { id } });
+}
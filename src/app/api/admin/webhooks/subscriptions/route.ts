@@ -0,0 +1,40 @@
+/**
+ * GET  /api/admin/webhooks/subscriptions   The webhook subscriptions of the caller's workspace (system admins only).
+ * POST /api/admin/webhooks/subscriptions   Subscribe a URL to events from the caller's workspace.
+ *      The response carries the signing secret; it is not returned again.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { createWebhookSubscription, listWebhookSubscriptions } from '@/lib/webhooks/store';
+import {
+  WebhookSubscriptionInputSchema,
+  type WebhookSubscription,
+  type WebhookSubscriptionWithSecret,
+} from '@/lib/webhooks/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  return NextResponse.json<ApiResult<WebhookSubscription[]>>({ ok: true, data: listWebhookSubscriptions(identity.workspaceId) });
+}
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'system:admin');
+  if (response) return response;
+  try {
+    const parsed = WebhookSubscriptionInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+    const subscription = createWebhookSubscription(parsed.data, identity);
+    return NextResponse.json<ApiResult<WebhookSubscriptionWithSecret>>({ ok: true, data: subscription }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 500 });
+  }
+}
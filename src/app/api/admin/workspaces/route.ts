@@ -0,0 +1,35 @@
+/**
+ * GET  /api/admin/workspaces
+ * POST /api/admin/workspaces   body: { name }
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createWorkspace, listWorkspaces } from '@/lib/auth/user-store';
+import { requireIdentity } from '@/lib/auth/server';
+import type { Workspace } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const CreateWorkspaceSchema = z.object({ name: z.string().trim().min(2).max(80) });
+
+export async function GET(request: NextRequest) {
+  const { response } = requireIdentity(request, 'users:manage');
+  if (response) return response;
+  return NextResponse.json<ApiResult<Workspace[]>>({ ok: true, data: await listWorkspaces() });
+}
+
+export async function POST(request: NextRequest) {
+  const { response } = requireIdentity(request, 'users:manage');
+  if (response) return response;
+  try {
+    const parsed = CreateWorkspaceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>({ ok: false, error: 'Workspace name must be 2-80 characters.' }, { status: 400 });
+    }
+    const workspace = await createWorkspace(parsed.data.name);
+    return NextResponse.json<ApiResult<Workspace>>({ ok: true, data: workspace }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: (error as Error).message }, { status: 409 });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Role-play training sessions
+ *
+ * POST /api/agent-training/sessions   body: SubmitTrainingSessionInput
+ *      Scores the finished role-play against the product's active rubric, with
+ *      the caller as the agent, and adds it to the caller's practice history.
+ * GET  /api/agent-training/sessions?traineeId=&limit=
+ *      Newest-first practice history. Trainees see their own sessions; roles
+ *      that can review the workspace see everyone's, or one trainee's with `traineeId`.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AI_MODELS } from '@/ai/config/models';
+import { scoreCall } from '@/ai/flows/call-scoring';
+import { unavailableModelsMessage } from '@/ai/providers';
+import { activityScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getActiveRubric } from '@/lib/rubric-store';
+import { listTrainingSessions, saveTrainingSession } from '@/lib/training-store';
+import { SubmitTrainingSessionInputSchema } from '@/types';
+import type { ConversationTurn, TrainingImprovementSituation, TrainingSession } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 60;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+// The trainee plays the agent, so their turns are the AGENT lines the rubric scores.
+const toTrainingTranscript = (conversation: ConversationTurn[]): string =>
+  conversation
+    .filter((turn) => !turn.isLive && turn.text.trim())
+    .map((turn) => `${turn.speaker === 'User' ? 'AGENT' : 'USER'}: ${turn.text.trim()}`)
+    .join('\n');
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    const parsed = SubmitTrainingSessionInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const input = parsed.data;
+    const traineeTurns = input.conversation.filter((turn) => turn.speaker === 'User' && !turn.isLive).length;
+    if (traineeTurns === 0) {
+      return errorResponse('The trainee did not say anything, so there is nothing to score.', 400);
+    }
+    const unavailable = unavailableModelsMessage([AI_MODELS.MULTIMODAL_PRIMARY]);
+    if (unavailable) {
+      return errorResponse(`Training sessions cannot be scored. ${unavailable}`, 500);
+    }
+
+    const transcript = toTrainingTranscript(input.conversation);
+    const traineeName = identity.displayName || identity.userId;
+    const score = await scoreCall({
+      product: input.product,
+      agentName: traineeName,
+      transcriptOverride: transcript,
+      productContext: input.productContext,
+      brandUrl: input.brandUrl,
+      rubric: getActiveRubric(identity.workspaceId, input.product),
+    });
+    rateLimiter.incrementOnly({ identifier: 'call-scoring', ...RATE_LIMITS.EXPENSIVE });
+    if (score.callCategorisation === 'Error') {
+      return errorResponse(`Scoring failed: ${score.summary}`, 502);
+    }
+
+    const session = saveTrainingSession({
+      traineeId: identity.userId,
+      traineeName,
+      workspaceId: identity.workspaceId,
+      product: input.product,
+      cohort: input.persona.cohort,
+      personaId: input.persona.id,
+      personaName: input.persona.name,
+      endedBy: input.endedBy,
+      customerOutcome: input.customerState?.outcome,
+      traineeTurns,
+      startedAt: input.startedAt,
+      endedAt: new Date().toISOString(),
+      transcript,
+      overallScore: score.overallScore,
+      callCategorisation: score.callCategorisation,
+      summary: score.summary,
+      improvementSituations: (score.improvementSituations ?? []) as TrainingImprovementSituation[],
+      rubric: score.rubric,
+    });
+    return NextResponse.json<ApiResult<TrainingSession>>({ ok: true, data: session }, { status: 201 });
+  } catch (error) {
+    console.error('Training session API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    const params = request.nextUrl.searchParams;
+    const limitParam = params.get('limit');
+    const sessions = listTrainingSessions(activityScopeFor(identity), {
+      traineeId: params.get('traineeId') ?? undefined,
+      limit: limitParam ? Number(limitParam) || undefined : undefined,
+    });
+    return NextResponse.json<ApiResult<TrainingSession[]>>({ ok: true, data: sessions });
+  } catch (error) {
+    console.error('Training history API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
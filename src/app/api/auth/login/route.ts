@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateLocalUser } from '@/lib/auth/user-store';
+import { setSessionCookie } from '@/lib/auth/server';
+import type { AuthUser } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const LoginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = LoginSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json<ApiResult<never>>({ ok: false, error: 'Username and password are required.' }, { status: 400 });
+    }
+
+    const user = await authenticateLocalUser(parsed.data.username, parsed.data.password);
+    if (!user) {
+      return NextResponse.json<ApiResult<never>>(
+        { ok: false, error: 'The username or password you entered is incorrect.' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json<ApiResult<{ user: AuthUser }>>({ ok: true, data: { user } });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Login API error:', (error as Error).message);
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: 'Sign-in is temporarily unavailable.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth/server';
+import type { ApiResult } from '@/types/common';
+
+export function POST() {
+  const response = NextResponse.json<ApiResult<null>>({ ok: true, data: null });
+  clearSessionCookie(response);
+  return response;
+}
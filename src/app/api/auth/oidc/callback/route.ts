@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeAuthorization, OIDC_STATE_COOKIE, parsePendingLogin } from '@/lib/auth/oidc';
+import { upsertOidcUser } from '@/lib/auth/user-store';
+import { setSessionCookie } from '@/lib/auth/server';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const pending = parsePendingLogin(request.cookies.get(OIDC_STATE_COOKIE)?.value);
+  const code = params.get('code');
+
+  const fail = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, request.url));
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  };
+
+  if (params.get('error') || !code || !pending || params.get('state') !== pending.state) {
+    return fail('oidc_failed');
+  }
+
+  try {
+    const identity = await completeAuthorization(request.nextUrl.origin, code, pending);
+    const user = await upsertOidcUser(identity);
+    if (user.disabled) {
+      return fail('account_disabled');
+    }
+    // `next` comes from the login request: only ever redirect within this site
+    const next = new URL(pending.next, request.url);
+    const response = NextResponse.redirect(next.origin === request.nextUrl.origin ? next : new URL('/home', request.url));
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('OIDC callback error:', (error as Error).message);
+    return fail('oidc_failed');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthorizationRequest, isOidcEnabled, OIDC_STATE_COOKIE } from '@/lib/auth/oidc';
+import { safeNextPath } from '@/lib/auth/roles';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  if (!isOidcEnabled()) {
+    return NextResponse.redirect(new URL('/login?error=oidc_disabled', request.url));
+  }
+  try {
+    const { url, pending } = await createAuthorizationRequest(
+      request.nextUrl.origin,
+      safeNextPath(request.nextUrl.searchParams.get('next'))
+    );
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, JSON.stringify(pending), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/auth/oidc',
+      maxAge: 600,
+    });
+    return response;
+  } catch (error) {
+    console.error('OIDC login error:', (error as Error).message);
+    return NextResponse.redirect(new URL('/login?error=oidc_unavailable', request.url));
+  }
+}
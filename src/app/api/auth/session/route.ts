@@ -0,0 +1,45 @@
+/**
+ * GET /api/auth/session
+ * Current user, workspace and effective permissions. Public so the login page
+ * can call it; returns `user: null` when there is no valid session.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveSessionVersion, getUserById, getWorkspace } from '@/lib/auth/user-store';
+import { isOidcEnabled } from '@/lib/auth/oidc';
+import { ROLE_PERMISSIONS, type SessionInfo } from '@/lib/auth/roles';
+import { clearSessionCookie } from '@/lib/auth/server';
+import { getAuthSecret, SESSION_COOKIE, verifySession } from '@/lib/auth/session';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const anonymous: SessionInfo = { user: null, workspace: null, permissions: [], oidcEnabled: isOidcEnabled() };
+  try {
+    const secret = getAuthSecret();
+    const claims = secret ? await verifySession(request.cookies.get(SESSION_COOKIE)?.value, secret) : null;
+    if (!claims) {
+      return NextResponse.json<ApiResult<SessionInfo>>({ ok: true, data: anonymous });
+    }
+
+    const user = await getUserById(claims.sub);
+    if (!user || getActiveSessionVersion(user.id) !== claims.ver) {
+      const response = NextResponse.json<ApiResult<SessionInfo>>({ ok: true, data: anonymous });
+      clearSessionCookie(response);
+      return response;
+    }
+
+    return NextResponse.json<ApiResult<SessionInfo>>({
+      ok: true,
+      data: {
+        user,
+        workspace: await getWorkspace(user.workspaceId),
+        permissions: [...ROLE_PERMISSIONS[user.role]],
+        oidcEnabled: anonymous.oidcEnabled,
+      },
+    });
+  } catch (error) {
+    console.error('Session API error:', (error as Error).message);
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: 'Could not load the current session.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Progress stream for a batch call-scoring job (server-sent events)
+ *
+ * GET /api/call-scoring/jobs/:id/events
+ *     Sends a `snapshot` event with the full job first, then `item` and `job`
+ *     events as workers make progress. The stream closes once the job is
+ *     complete or cancelled; clients that reconnect get a fresh snapshot.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { getScoringJob } from '@/lib/jobs/store';
+import { startScoringWorkers, subscribeToScoringJob } from '@/lib/jobs/worker';
+import { isJobFinished, type ScoringJobEvent } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Keeps proxies from closing an idle connection while a long call is being scored. */
+const HEARTBEAT_MS = 20_000;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  startScoringWorkers();
+  const job = getScoringJob(id, activityScopeFor(identity));
+  if (!job) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: `Scoring job '${id}' not found.` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: ScoringJobEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away.
+        }
+      };
+
+      const unsubscribe = subscribeToScoringJob(id, (event) => {
+        send(event);
+        if (event.type === 'job' && isJobFinished(event.job)) close();
+      });
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', close);
+
+      send({ type: 'snapshot', job });
+      if (isJobFinished(job)) close();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Audio upload for one item of a batch call-scoring job
+ *
+ * PUT /api/call-scoring/jobs/:id/items/:itemId
+ *     body: the raw recording, with its MIME type as `Content-Type`.
+ *     Queues the item for the workers and returns it.
+ * DELETE /api/call-scoring/jobs/:id/items/:itemId   body: { reason?: string }
+ *     Marks an item still waiting for its upload as failed, so the rest of the
+ *     job can complete.
+ *
+ * Only the job's creator (or an admin) can upload or skip items.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ownershipScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { attachScoringItemAudio, getScoringJob, settleScoringJob, skipScoringItem } from '@/lib/jobs/store';
+import { publishScoringJobChange, pumpScoringQueue } from '@/lib/jobs/worker';
+import type { ScoringJobItem } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string; itemId: string }> };
+
+const MAX_AUDIO_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const SkipItemSchema = z.object({ reason: z.string().max(500).optional() });
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id, itemId } = await params;
+  try {
+    const job = getScoringJob(id, ownershipScopeFor(identity));
+    if (!job || !job.items.some((item) => item.id === itemId)) {
+      return errorResponse(`Item '${itemId}' not found in scoring job '${id}'.`, 404);
+    }
+    const declaredLength = Number(request.headers.get('content-length'));
+    if (declaredLength > MAX_AUDIO_UPLOAD_BYTES) {
+      return errorResponse(`Recordings are limited to ${MAX_AUDIO_UPLOAD_BYTES / (1024 * 1024)}MB.`, 413);
+    }
+    const audio = Buffer.from(await request.arrayBuffer());
+    if (audio.length === 0) {
+      return errorResponse('The request body must contain the recording.', 400);
+    }
+    if (audio.length > MAX_AUDIO_UPLOAD_BYTES) {
+      return errorResponse(`Recordings are limited to ${MAX_AUDIO_UPLOAD_BYTES / (1024 * 1024)}MB.`, 413);
+    }
+    const mimeType = request.headers.get('content-type')?.split(';')[0].trim() || 'audio/mpeg';
+    const item = attachScoringItemAudio(id, itemId, audio, mimeType);
+    publishScoringJobChange(job, [item]);
+    pumpScoringQueue();
+    return NextResponse.json<ApiResult<ScoringJobItem>>({ ok: true, data: item });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Scoring job upload API error:', message);
+    return errorResponse(message, /already been uploaded|cancelled/.test(message) ? 409 : 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id, itemId } = await params;
+  try {
+    const job = getScoringJob(id, ownershipScopeFor(identity));
+    if (!job || !job.items.some((item) => item.id === itemId)) {
+      return errorResponse(`Item '${itemId}' not found in scoring job '${id}'.`, 404);
+    }
+    const parsed = SkipItemSchema.safeParse(await request.json().catch(() => ({})));
+    const item = skipScoringItem(id, itemId, (parsed.success && parsed.data.reason) || 'Audio upload failed');
+    publishScoringJobChange(settleScoringJob(id) ?? job, [item]);
+    return NextResponse.json<ApiResult<ScoringJobItem>>({ ok: true, data: item });
+  } catch (error) {
+    const message = (error as Error).message;
+    return errorResponse(message, message.includes('not waiting') ? 409 : 500);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Single batch call-scoring job
+ *
+ * GET    /api/call-scoring/jobs/:id   The job with all its items (for polling).
+ * DELETE /api/call-scoring/jobs/:id   Cancels the job. Items not yet started are
+ *                                      marked failed; an item already being
+ *                                      processed still finishes.
+ *
+ * Jobs outside the caller's scope answer 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor, ownershipScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { cancelScoringJob, getScoringJob } from '@/lib/jobs/store';
+import { publishScoringJobChange, startScoringWorkers } from '@/lib/jobs/worker';
+import type { ScoringJobWithItems } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const notFound = (id: string) => errorResponse(`Scoring job '${id}' not found.`, 404);
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    startScoringWorkers();
+    const job = getScoringJob(id, activityScopeFor(identity));
+    if (!job) return notFound(id);
+    return NextResponse.json<ApiResult<ScoringJobWithItems>>({ ok: true, data: job });
+  } catch (error) {
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const job = cancelScoringJob(id, ownershipScopeFor(identity));
+    if (!job) return notFound(id);
+    publishScoringJobChange(job, job.items);
+    return NextResponse.json<ApiResult<ScoringJobWithItems>>({ ok: true, data: job });
+  } catch (error) {
+    console.error('Scoring job cancel API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Batch call-scoring jobs
+ *
+ * POST /api/call-scoring/jobs   body: { product, agentName?, productContext?, brandUrl?, fileNames: string[] }
+ *      Creates a job with one `Pending` item per file and returns it. Upload each
+ *      recording to `PUT /api/call-scoring/jobs/:id/items/:itemId`; workers pick
+ *      items up as soon as their audio arrives.
+ * GET  /api/call-scoring/jobs?limit=
+ *      Newest-first jobs visible to the caller.
+ *
+ * Every response is an `ApiResult<T>`. Jobs are visible with the same scope as
+ * activity history: the caller's workspace, narrowed to their own jobs unless
+ * their role can review the workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AI_MODELS } from '@/ai/config/models';
+import { unavailableModelsMessage } from '@/ai/providers';
+import { activityScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { createScoringJob, listScoringJobs } from '@/lib/jobs/store';
+import { startScoringWorkers } from '@/lib/jobs/worker';
+import type { ScoringJob, ScoringJobWithItems } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const MAX_FILES_PER_JOB = 200;
+
+const CreateJobSchema = z.object({
+  product: z.string().min(1, 'Product is required.'),
+  agentName: z.string().optional(),
+  productContext: z.string().optional(),
+  brandUrl: z.string().url().optional(),
+  fileNames: z.array(z.string().min(1)).min(1).max(MAX_FILES_PER_JOB),
+});
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    const parsed = CreateJobSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid job payload: ${parsed.error.message}`, 400);
+    }
+    // Transcription and scoring both start on the primary model.
+    const unavailable = unavailableModelsMessage([AI_MODELS.MULTIMODAL_PRIMARY]);
+    if (unavailable) {
+      return errorResponse(`Call scoring is unavailable. ${unavailable}`, 500);
+    }
+    startScoringWorkers();
+    const job = createScoringJob(parsed.data, identity);
+    return NextResponse.json<ApiResult<ScoringJobWithItems>>({ ok: true, data: job }, { status: 201 });
+  } catch (error) {
+    console.error('Scoring job create API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    startScoringWorkers();
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const jobs = listScoringJobs(activityScopeFor(identity), limitParam ? Number(limitParam) || undefined : undefined);
+    return NextResponse.json<ApiResult<ScoringJob[]>>({ ok: true, data: jobs });
+  } catch (error) {
+    console.error('Scoring job list API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
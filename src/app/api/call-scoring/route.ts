@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { scoreCall } from '@/ai/flows/call-scoring';
 import { ScoreCallInputSchema, ScoreCallOutput } from '@/types';
+import { AI_MODELS } from '@/ai/config/models';
+import { unavailableModelsMessage } from '@/ai/providers';
 import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getRequestIdentity } from '@/lib/auth/server';
+import { getActiveRubric } from '@/lib/rubric-store';
+import { emitCallScoredEvents } from '@/lib/webhooks/dispatcher';
+
+export const runtime = 'nodejs';
 
 // Reduced timeout for cost savings
 export const maxDuration = 60;
@@ -23,19 +30,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GOOGLE_API_KEY) {
-      console.error('GOOGLE_API_KEY missing in environment');
+    const unavailable = unavailableModelsMessage([AI_MODELS.MULTIMODAL_PRIMARY]);
+    if (unavailable) {
+      console.error('Call scoring model unavailable:', unavailable);
       return NextResponse.json(
         {
-          error: 'Google AI key not configured',
-          details: 'Set GOOGLE_API_KEY before using call scoring features.',
+          error: 'AI model not configured',
+          details: `Call scoring is unavailable. ${unavailable}`,
         },
         { status: 500 }
       );
     }
 
+    // Score against the workspace's active rubric unless the caller pinned one
+    const identity = getRequestIdentity(request);
+    const rubric = parsed.data.rubric ?? (identity ? getActiveRubric(identity.workspaceId, parsed.data.product) : undefined);
+
     // Perform call scoring
-    const result: ScoreCallOutput = await scoreCall(parsed.data);
+    const result: ScoreCallOutput = await scoreCall({ ...parsed.data, rubric });
 
     // After successful scoring, update quota usage
     const rateLimitCheck = rateLimiter.check({
@@ -53,6 +65,20 @@ export async function POST(request: NextRequest) {
       ...RATE_LIMITS.EXPENSIVE,
     });
 
+    if (identity && result.callCategorisation !== 'Error') {
+      emitCallScoredEvents(identity.workspaceId, {
+        product: parsed.data.product,
+        agentName: parsed.data.agentName,
+        source: 'Manual',
+        overallScore: result.overallScore,
+        callCategorisation: result.callCategorisation,
+        callDisposition: result.callDisposition,
+        conversionReadiness: result.conversionReadiness,
+        summary: result.summary,
+        redFlags: result.redFlags,
+      });
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     const err = error as Error;
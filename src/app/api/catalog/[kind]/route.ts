@@ -0,0 +1,100 @@
+/**
+ * @fileOverview Product catalog and knowledge base of the caller's workspace
+ *
+ * GET /api/catalog/products | /api/catalog/knowledge-files
+ *     The workspace's list; `items` is null until it is first saved, in which
+ *     case the app starts from its built-in defaults.
+ * PUT /api/catalog/products | /api/catalog/knowledge-files   body: { items }
+ *     Replaces the list. Requires `catalog:write`.
+ *
+ * Every response is an `ApiResult<CatalogResponse>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireIdentity } from '@/lib/auth/server';
+import { CATALOG_KINDS, getCatalog, saveCatalog, type CatalogItems, type CatalogKind, type CatalogResponse } from '@/lib/catalog-store';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ kind: string }> };
+
+const ProductObjectSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().trim().min(1, 'Display name cannot be empty.'),
+  description: z.string().optional(),
+  brandName: z.string().optional(),
+  brandUrl: z.string().optional(),
+  customerCohorts: z.array(z.string()).optional(),
+  salesPlans: z.array(z.string()).optional(),
+  specialPlanConfigurations: z.array(z.string()).optional(),
+});
+
+const KnowledgeFileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+  product: z.string().optional(),
+  persona: z.string().optional(),
+  category: z.string().optional(),
+  uploadDate: z.string(),
+  textContent: z.string().optional(),
+  isTextEntry: z.boolean().optional(),
+  dataUri: z.string().optional(),
+  extraction: z
+    .object({
+      status: z.enum(['extracted', 'failed']),
+      sectionCount: z.number().optional(),
+      truncated: z.boolean().optional(),
+      error: z.string().optional(),
+    })
+    .optional(),
+});
+
+const ITEM_SCHEMAS: Record<CatalogKind, z.ZodTypeAny> = {
+  products: ProductObjectSchema,
+  'knowledge-files': KnowledgeFileSchema,
+};
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const isCatalogKind = (value: string): value is CatalogKind => (CATALOG_KINDS as readonly string[]).includes(value);
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { kind } = await params;
+  if (!isCatalogKind(kind)) return errorResponse(`Unknown catalog '${kind}'.`, 404);
+  try {
+    return NextResponse.json<ApiResult<CatalogResponse<CatalogKind>>>({ ok: true, data: getCatalog(identity.workspaceId, kind) });
+  } catch (error) {
+    console.error('Catalog read API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'catalog:write');
+  if (response) return response;
+  const { kind } = await params;
+  if (!isCatalogKind(kind)) return errorResponse(`Unknown catalog '${kind}'.`, 404);
+  try {
+    const parsed = z.object({ items: z.array(ITEM_SCHEMAS[kind]) }).safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const saved = saveCatalog(
+      identity.workspaceId,
+      kind,
+      parsed.data.items as CatalogItems[typeof kind],
+      identity.displayName || identity.userId
+    );
+    return NextResponse.json<ApiResult<CatalogResponse<CatalogKind>>>({ ok: true, data: saved });
+  } catch (error) {
+    console.error('Catalog save API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeCallBatch, generateOptimizedPitches } from '@/ai/flows/combined-call-scoring-analysis';
+import { getRequestIdentity } from '@/lib/auth/server';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatcher';
 import type { CombinedCallAnalysisInput, OptimizedPitchGenerationInput } from '@/types';
 
 export const maxDuration = 300; // 5 minutes max for Vercel Hobby plan
@@ -11,7 +13,20 @@ export async function POST(request: NextRequest) {
     // Check if this is a batch analysis or pitch optimization request
     if (body.callReports) {
       // Combined call analysis
-      const result = await analyzeCallBatch(body as CombinedCallAnalysisInput);
+      const input = body as CombinedCallAnalysisInput;
+      const result = await analyzeCallBatch(input);
+      const identity = getRequestIdentity(request);
+      // analyzeCallBatch reports its own failures as a "Critical Error" report
+      if (identity && !result.reportTitle.startsWith('Critical Error')) {
+        emitWebhookEvent(identity.workspaceId, 'batch.analysis.completed', {
+          kind: 'CombinedAnalysis',
+          product: input.product,
+          totalCalls: result.numberOfCallsAnalyzed,
+          averageOverallScore: result.averageOverallScore,
+          reportTitle: result.reportTitle,
+          summary: result.batchExecutiveSummary,
+        });
+      }
       return NextResponse.json(result);
     } else if (body.analysisReport) {
       // Optimized pitch generation
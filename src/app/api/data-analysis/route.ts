@@ -1,14 +1,52 @@
+/**
+ * @fileOverview Data analysis report
+ *
+ * POST /api/data-analysis
+ *     multipart/form-data: `files` (one or more uploads) and `userAnalysisPrompt`.
+ *     CSV, XLSX/XLS and ZIP archives of them are parsed and their metrics computed
+ *     on the server; other files are passed to the AI by name and type only.
+ *     A JSON `DataAnalysisInput` body (file names only) is still accepted.
+ * Responds with the `DataAnalysisReportOutput`.
+ */
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeData } from '@/ai/flows/data-analyzer';
+import type { UploadedDataFile } from '@/lib/data-analysis';
 import type { DataAnalysisInput } from '@/types';
 
+export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes max for Vercel Hobby plan
 
+const MAX_ANALYSIS_REQUEST_BYTES = 250 * 1024 * 1024;
+const MAX_ANALYSIS_FILES = 20;
+
 export async function POST(request: NextRequest) {
   try {
-    const body: DataAnalysisInput = await request.json();
+    if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const body = await request.json() as DataAnalysisInput;
+      return NextResponse.json(await analyzeData(body));
+    }
+
+    if (Number(request.headers.get('content-length')) > MAX_ANALYSIS_REQUEST_BYTES) {
+      return NextResponse.json(
+        { error: `Uploads are limited to ${MAX_ANALYSIS_REQUEST_BYTES / (1024 * 1024)}MB per analysis.` },
+        { status: 413 }
+      );
+    }
+    const formData = await request.formData();
+    const uploads = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+    if (uploads.length === 0 || uploads.length > MAX_ANALYSIS_FILES) {
+      return NextResponse.json({ error: `Upload between 1 and ${MAX_ANALYSIS_FILES} files.` }, { status: 400 });
+    }
+    const prompt = formData.get('userAnalysisPrompt');
+    const files: UploadedDataFile[] = await Promise.all(
+      uploads.map(async (file) => ({ name: file.name, type: file.type, data: Buffer.from(await file.arrayBuffer()) }))
+    );
+    const input: DataAnalysisInput = {
+      fileDetails: files.map((file) => ({ fileName: file.name, fileType: file.type || 'unknown' })),
+      userAnalysisPrompt: typeof prompt === 'string' ? prompt.slice(0, 10000) : '',
+    };
 
-    const result = await analyzeData(body);
+    const result = await analyzeData(input, files);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -18,4 +56,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
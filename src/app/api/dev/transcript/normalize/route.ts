@@ -4,13 +4,16 @@
  * POST /api/dev/transcript/normalize
  * 
  * Accepts any transcript format and returns canonical TranscriptDoc.
- * Used for testing normalization with different vendor formats.
+ * Used for testing normalization with different vendor formats: WebVTT and
+ * SRT (as text), Whisper, AWS Transcribe, Deepgram and AssemblyAI JSON, and
+ * diarized CSV (as text). The format is detected unless `format` is given.
  * 
  * Only available in development mode.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { normalizeTranscript } from '@/lib/transcript/normalize';
+import { detectTranscriptFormat, TRANSCRIPT_FORMATS, type TranscriptFormat } from '@/lib/transcript/importers';
 import type { TranscriptDoc } from '@/types/transcript';
 
 export async function POST(request: NextRequest) {
@@ -31,23 +34,28 @@ export async function POST(request: NextRequest) {
       defaultAgentName,
       defaultUserName,
       mergeConsecutiveTurns = true,
-      source = 'dev-test',
+      source,
       language,
     } = body;
+    const { format, agentSpeaker } = body as { format?: string; agentSpeaker?: string };
+    const transcriptInput: unknown = input || body;
 
     // Normalize the input
-    const normalized: TranscriptDoc = normalizeTranscript(input || body, {
+    const normalized: TranscriptDoc = normalizeTranscript(transcriptInput, {
       defaultAgentName,
       defaultUserName,
       mergeConsecutiveTurns,
       source,
       language,
+      format: TRANSCRIPT_FORMATS.includes(format as TranscriptFormat) ? (format as TranscriptFormat) : undefined,
+      agentSpeaker,
     });
 
     return NextResponse.json({
       success: true,
       data: normalized,
       stats: {
+        detectedFormat: detectTranscriptFormat(transcriptInput) ?? null,
         turnCount: normalized.turns.length,
         durationS: normalized.metadata.durationS,
         agentTurns: normalized.turns.filter(t => t.speaker === 'AGENT').length,
@@ -84,6 +92,7 @@ export async function GET() {
   return NextResponse.json({
     message: 'Transcript normalization test endpoint',
     method: 'POST',
+    supportedFormats: TRANSCRIPT_FORMATS,
     examplePayload: {
       input: {
         segments: [
@@ -108,6 +117,8 @@ export async function GET() {
       mergeConsecutiveTurns: true,
       source: 'test',
       language: 'en',
+      format: 'optional; one of supportedFormats, detected when omitted',
+      agentSpeaker: 'optional; speaker label or channel of the agent in vendor transcripts, e.g. "spk_0"',
     },
   });
 }
@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Disposition reconciliation report
+ *
+ * GET /api/dispositions/reconciliation?product=&from=&to=
+ *     Compares the AI's `callDisposition` on scored calls with the dispositions
+ *     agents tagged in the dialer, and returns the mismatches grouped by agent
+ *     and disposition pair. `from` and `to` are ISO dates on the scoring time.
+ *
+ * Every response is an `ApiResult<DispositionReconciliationReport>`. The report
+ * covers the caller's workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor, listActivities } from '@/lib/activity-log-server';
+import { MAX_ACTIVITY_PAGE_SIZE } from '@/lib/activity-store';
+import { requireIdentity } from '@/lib/auth/server';
+import { reconcileDispositions } from '@/lib/dispositions/reconcile';
+import { listDialerDispositions } from '@/lib/dispositions/store';
+import type { DispositionReconciliationReport } from '@/lib/dispositions/types';
+import type { ActivityLogEntry } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+/** Scored calls read per report, newest first. */
+const MAX_REPORT_CALLS = 5000;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const parseDateParam = (value: string | null): string | undefined => {
+  if (!value) return undefined;
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) throw new Error(`Invalid date '${value}'.`);
+  return new Date(timestamp).toISOString();
+};
+
+export async function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:read:workspace');
+  if (response) return response;
+  let from: string | undefined;
+  let to: string | undefined;
+  try {
+    from = parseDateParam(request.nextUrl.searchParams.get('from'));
+    to = parseDateParam(request.nextUrl.searchParams.get('to'));
+  } catch (error) {
+    return errorResponse((error as Error).message, 400);
+  }
+  try {
+    const entries: ActivityLogEntry[] = [];
+    let cursor: string | null | undefined;
+    // Pages are newest first, so reading stops once it is past `from`.
+    do {
+      const page = await listActivities({
+        ...activityScopeFor(identity),
+        module: ['Call Scoring'],
+        product: request.nextUrl.searchParams.get('product') || undefined,
+        cursor,
+        limit: MAX_ACTIVITY_PAGE_SIZE,
+      });
+      entries.push(...page.items.filter((entry) => (!from || entry.timestamp >= from) && (!to || entry.timestamp <= to)));
+      const oldest = page.items[page.items.length - 1];
+      cursor = from && oldest && oldest.timestamp < from ? null : page.nextCursor;
+    } while (cursor && entries.length < MAX_REPORT_CALLS);
+
+    const report = reconcileDispositions(entries.slice(0, MAX_REPORT_CALLS), listDialerDispositions(identity.workspaceId));
+    return NextResponse.json<ApiResult<DispositionReconciliationReport>>({ ok: true, data: report });
+  } catch (error) {
+    console.error('Disposition reconciliation API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Dispositions tagged in the dialer or CRM
+ *
+ * POST /api/dispositions   body: { records: DialerDispositionInput[] }
+ *      Push from a dialer or CRM integration.
+ * POST /api/dispositions   Content-Type: text/csv
+ *      A dialer export. Columns are recognised by their usual names (call id,
+ *      disposition/status, agent, campaign, call date); rows without a call id
+ *      or disposition are skipped.
+ *
+ * Records are keyed by call id: importing a call again replaces its disposition.
+ * Every response is an `ApiResult<DispositionImportResult>`. Imports land in
+ * the caller's workspace and need `activity:write`; integrations without a
+ * session push to `POST /api/v1/dispositions` with an API key instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { readDispositionImport } from '@/lib/dispositions/request';
+import { importDialerDispositions } from '@/lib/dispositions/store';
+import type { DispositionImportResult } from '@/lib/dispositions/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:write');
+  if (response) return response;
+  try {
+    const body = await readDispositionImport(request);
+    if ('error' in body) return errorResponse(body.error, body.status);
+    const imported = importDialerDispositions(identity.workspaceId, body.records, body.source);
+    return NextResponse.json<ApiResult<DispositionImportResult>>({ ok: true, data: { imported, skipped: body.skipped } });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Disposition import API error:', message);
+    return errorResponse(message, 500);
+  }
+}
@@ -1,12 +1,22 @@
+/**
+ * @fileOverview Full-call audio assembly
+ *
+ * POST /api/generate-full-call-audio
+ *     JSON `GenerateFullCallAudioInput`. Responds with a stereo WAV data URI of the
+ *     whole conversation (agent left, customer right) and the timeline of its turns.
+ */
 import { NextRequest, NextResponse } from 'next/server';
 import { generateFullCallAudio } from '@/ai/flows/generate-full-call-audio';
+import type { GenerateFullCallAudioInput } from '@/types';
+
+export const runtime = 'nodejs';
 
 // Set maxDuration to prevent timeout errors during audio generation
 export const maxDuration = 300; // 5 minutes max for Vercel Hobby plan
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const body = await request.json() as GenerateFullCallAudioInput;
     const result = await generateFullCallAudio(body);
     return NextResponse.json(result);
   } catch (error) {
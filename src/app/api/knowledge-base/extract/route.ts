@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Text extraction for knowledge base uploads
+ *
+ * POST /api/knowledge-base/extract   multipart/form-data with one or more `files`
+ *      Extracts the text of PDF, DOCX, PPTX, XLSX/CSV and plain-text files,
+ *      with `--- Page N ---` / `--- Slide N ---` / `--- Sheet X ---` markers.
+ *      Results are returned in upload order; a file that cannot be read gets
+ *      `extraction.status = 'failed'` and the reason instead of failing the
+ *      request. Requires `catalog:write`.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { extractUploadedFile, type FileExtractionResult } from '@/lib/document-extraction';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const MAX_EXTRACTION_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_FILES_PER_REQUEST = 20;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { response } = requireIdentity(request, 'catalog:write');
+  if (response) return response;
+  try {
+    const form = await request.formData().catch(() => null);
+    const files = form?.getAll('files').filter((entry): entry is File => entry instanceof File) ?? [];
+    if (files.length === 0) return errorResponse('Attach at least one file as `files`.', 400);
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return errorResponse(`At most ${MAX_FILES_PER_REQUEST} files can be extracted per request.`, 400);
+    }
+
+    const results: FileExtractionResult[] = [];
+    for (const file of files) {
+      results.push(
+        file.size > MAX_EXTRACTION_FILE_BYTES
+          ? {
+              name: file.name,
+              extraction: {
+                status: 'failed',
+                error: `Files over ${MAX_EXTRACTION_FILE_BYTES / (1024 * 1024)}MB are not extracted.`,
+              },
+            }
+          : await extractUploadedFile(file)
+      );
+    }
+    return NextResponse.json<ApiResult<FileExtractionResult[]>>({ ok: true, data: results });
+  } catch (error) {
+    console.error('Knowledge base extraction API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Knowledge base retrieval index for the caller's workspace
+ *
+ * GET  /api/knowledge-base/index?product=
+ *      The indexed documents (optionally for one product) with their chunk
+ *      counts and status.
+ * POST /api/knowledge-base/index   body: { documents, prune? }
+ *      Chunks and embeds the given entries. Unchanged entries are skipped;
+ *      with `prune`, entries missing from `documents` are dropped from the
+ *      index. Requires `catalog:write`.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireIdentity } from '@/lib/auth/server';
+import {
+  listKnowledgeIndex,
+  syncKnowledgeIndex,
+  type IndexedDocument,
+  type KnowledgeSyncResult,
+} from '@/lib/knowledge-retrieval';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+/** Base64 roughly adds a third, so this admits uploads of about 30MB. */
+const MAX_DATA_URI_LENGTH = 40 * 1024 * 1024;
+
+const SyncIndexSchema = z.object({
+  documents: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1),
+        type: z.string(),
+        product: z.string().optional(),
+        category: z.string().optional(),
+        text: z.string().optional(),
+        dataUri: z.string().max(MAX_DATA_URI_LENGTH, 'Uploads larger than 30MB cannot be indexed.').optional(),
+      })
+    )
+    .max(2000),
+  prune: z.boolean().optional(),
+});
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    const product = request.nextUrl.searchParams.get('product') ?? undefined;
+    return NextResponse.json<ApiResult<IndexedDocument[]>>({
+      ok: true,
+      data: listKnowledgeIndex(identity.workspaceId, product),
+    });
+  } catch (error) {
+    console.error('Knowledge index read API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'catalog:write');
+  if (response) return response;
+  try {
+    const parsed = SyncIndexSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const result = await syncKnowledgeIndex(identity.workspaceId, parsed.data.documents, {
+      prune: parsed.data.prune,
+    });
+    return NextResponse.json<ApiResult<KnowledgeSyncResult>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Knowledge index sync API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
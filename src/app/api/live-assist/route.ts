@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Suggestions for the live assist panel
+ *
+ * POST /api/live-assist   body: LiveAssistRequest
+ *      Returns the knowledge base passages most relevant to the cue and, for
+ *      objections, a rebuttal grounded in them. Passages are retrieved once and
+ *      reused as the rebuttal's context to keep the round trip short.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRebuttal } from '@/ai/flows/rebuttal-generator';
+import { requireIdentity } from '@/lib/auth/server';
+import { buildRetrievedKnowledgeContext, retrieveKnowledge } from '@/lib/knowledge-retrieval';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { LiveAssistRequestSchema } from '@/types';
+import type { LiveAssistSuggestion } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 30;
+
+const SNIPPET_COUNT = 3;
+const MAX_SNIPPET_LENGTH = 320;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const truncate = (text: string): string =>
+  text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH).trimEnd()}…` : text;
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    const parsed = LiveAssistRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const { product, cue, knowledgeBaseContext, brandUrl } = parsed.data;
+
+    const chunks = await retrieveKnowledge({ workspaceId: identity.workspaceId, product, query: cue.utterance });
+    const suggestion: LiveAssistSuggestion = {
+      cue,
+      snippets: chunks.slice(0, SNIPPET_COUNT).map((chunk) => ({
+        chunkId: chunk.chunkId,
+        fileName: chunk.fileName,
+        text: truncate(chunk.text.trim()),
+      })),
+    };
+
+    if (cue.kind === 'OBJECTION') {
+      const context = chunks.length > 0 ? buildRetrievedKnowledgeContext(chunks, knowledgeBaseContext) : knowledgeBaseContext ?? '';
+      // No workspace is passed, so the flow uses the passages above instead of retrieving them again.
+      const { rebuttal } = await generateRebuttal({ objection: cue.utterance, product, knowledgeBaseContext: context, brandUrl });
+      rateLimiter.incrementOnly({ identifier: 'rebuttal-generator', ...RATE_LIMITS.MODERATE });
+      suggestion.rebuttal = rebuttal;
+    }
+    return NextResponse.json<ApiResult<LiveAssistSuggestion>>({ ok: true, data: suggestion });
+  } catch (error) {
+    console.error('Live assist API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -1,33 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ai } from '@/ai/genkit';
+import { parseModelRef, type ProviderId } from '@/ai/providers';
+import { DEFAULT_OLLAMA_MODEL } from '@/ai/providers/ollama';
 
-const DEFAULT_OLLAMA_ENDPOINT = process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
-const DEFAULT_OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llama2';
+type OssLlmRequest = {
+  prompt?: unknown;
+  temperature?: number;
+  /** Optional `ollama/<model>` or `openai/<model>` reference; defaults to the configured Ollama model. */
+  model?: unknown;
+};
+
+// The open-source mode only runs self-hosted models, so clients cannot spend the Gemini quota through it.
+const LOCAL_PROVIDERS: readonly ProviderId[] = ['ollama', 'openai'];
 
 export async function POST(req: NextRequest) {
   try {
-    const { prompt, temperature = 0.7 } = await req.json();
+    const { prompt, temperature = 0.7, model } = (await req.json()) as OssLlmRequest;
     if (!prompt || typeof prompt !== 'string') {
       return NextResponse.json({ error: 'Missing prompt string' }, { status: 400 });
     }
+    const modelRef = model || `ollama/${DEFAULT_OLLAMA_MODEL}`;
+    if (typeof modelRef !== 'string' || !LOCAL_PROVIDERS.includes(parseModelRef(modelRef).providerId)) {
+      return NextResponse.json({ error: 'model must be an ollama/<model> or openai/<model> reference' }, { status: 400 });
+    }
 
-    const response = await fetch(`${DEFAULT_OLLAMA_ENDPOINT.replace(/\/$/, '')}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: DEFAULT_OLLAMA_MODEL,
-        prompt,
-        stream: false,
-        options: { temperature, top_p: 0.95 },
-      }),
+    const { output } = await ai.generate<string>({
+      model: modelRef,
+      prompt,
+      output: { format: 'text' },
+      config: { temperature },
     });
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`Ollama error ${response.status}: ${errorBody}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json({ text: data?.response ?? '' });
+    return NextResponse.json({ text: output ?? '' });
   } catch (error) {
     return NextResponse.json(
       { error: 'Open source LLM call failed', message: (error as Error).message },
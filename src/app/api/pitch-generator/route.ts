@@ -3,6 +3,9 @@ import { generatePitch } from '@/ai/flows/pitch-generator';
 import { GeneratePitchInputSchema } from '@/types';
 import type { GeneratePitchInput, GeneratePitchOutput } from '@/types';
 import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getRequestIdentity } from '@/lib/auth/server';
+
+export const runtime = 'nodejs';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -19,7 +22,9 @@ export async function POST(request: NextRequest) {
     }
 
     const body: GeneratePitchInput = parsed.data;
-    const responsePayload: GeneratePitchOutput = await generatePitch(body);
+    const responsePayload: GeneratePitchOutput = await generatePitch(body, {
+      workspaceId: getRequestIdentity(request)?.workspaceId,
+    });
 
     const rateLimitCheck = rateLimiter.check({
       identifier: 'pitch-generator',
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ai } from '@/ai/genkit';
+import { AI_MODELS } from '@/ai/config/models';
+import { unavailableModelsMessage } from '@/ai/providers';
 import type { GenerateRebuttalInput, GenerateRebuttalOutput } from '@/types';
+import { getRequestIdentity } from '@/lib/auth/server';
+import { groundKnowledgeContext } from '@/lib/knowledge-retrieval';
+
+export const runtime = 'nodejs';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -8,21 +14,20 @@ export async function POST(request: NextRequest) {
   try {
     console.log('🔄 Rebuttal Generator API called');
     
-    // Check if Google AI API key is available
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      console.error('❌ GOOGLE_API_KEY not found in environment variables');
+    // Try the configured text models in turn to maximize real AI usage
+    const models = [...new Set([AI_MODELS.COST_EFFICIENT, AI_MODELS.TEXT_ONLY, AI_MODELS.BASIC_TEXT])];
+    const unavailable = unavailableModelsMessage(models);
+    if (unavailable) {
+      console.error('❌ Rebuttal model unavailable:', unavailable);
       return NextResponse.json(
-        { 
-          error: 'Google AI API key not configured',
-          details: 'GOOGLE_API_KEY environment variable is missing'
+        {
+          error: 'AI model not configured',
+          details: unavailable
         },
         { status: 500 }
       );
     }
 
-    console.log('✅ API Key found:', apiKey.substring(0, 10) + '...');
-
     // Parse the request body
     let body: GenerateRebuttalInput;
     try {
@@ -54,25 +59,28 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('🔄 Processing rebuttal generation...');
-    
-    // Try multiple models to maximize real AI usage
-    const models = ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'];
+
+    const grounded = await groundKnowledgeContext({
+      workspaceId: getRequestIdentity(request)?.workspaceId,
+      product: body.product,
+      queries: [body.objection],
+      baseContext: body.knowledgeBaseContext,
+    });
+    const knowledgeBaseContext = grounded?.knowledgeBaseContext ?? body.knowledgeBaseContext;
+
     let aiResponse = '';
     let aiError: Error | null = null;
 
     for (const modelName of models) {
       try {
         console.log(`🤖 Attempting rebuttal generation with ${modelName}...`);
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({ model: modelName });
-        
         // Create detailed rebuttal generation prompt
         const rebuttalPrompt = `You are an expert sales trainer and objection handling specialist. Generate a professional, empathetic, and effective rebuttal to handle a customer objection.
 
 **Context:**
 - Product/Service: ${body.product}
 - Customer Objection: "${body.objection}"
-- Knowledge Base Context: ${body.knowledgeBaseContext || 'Use standard sales and product knowledge'}
+- Knowledge Base Context: ${knowledgeBaseContext || 'Use standard sales and product knowledge'}
 - Brand URL: ${body.brandUrl || 'N/A'}
 
 **Rebuttal Requirements:**
@@ -96,8 +104,12 @@ Generate a comprehensive rebuttal that addresses the customer's objection about
 The rebuttal should be well-structured, typically 2-4 sentences, and directly address the customer's concern while highlighting the product's value.`;
 
         console.log('🤖 Generating AI rebuttal...');
-        const result = await model.generateContent(rebuttalPrompt);
-        aiResponse = result.response.text();
+        const { output } = await ai.generate<string>({
+          model: modelName,
+          prompt: rebuttalPrompt,
+          output: { format: 'text' },
+        });
+        aiResponse = output;
         console.log(`✅ ${modelName} succeeded - generated ${aiResponse.length} chars`);
         break; // Success! Exit the retry loop
       } catch (error) {
@@ -121,7 +133,7 @@ The rebuttal should be well-structured, typically 2-4 sentences, and directly ad
         console.log('⚠️ All AI models failed due to quota limits');
         return NextResponse.json({
           error: 'AI Quota Exceeded',
-          message: '🚨 Google AI quota limit reached. Please upgrade your quota to generate real AI rebuttals.',
+          message: '🚨 AI quota limit reached. Please upgrade your quota to generate real AI rebuttals.',
           upgradeUrl: 'https://ai.google.dev/pricing',
           fallbackAvailable: false,
           details: 'All AI models failed due to quota limits. No fallback available - real AI required.'
@@ -154,7 +166,8 @@ The rebuttal should be well-structured, typically 2-4 sentences, and directly ad
 
     // Construct the final response according to the actual schema
     const response: GenerateRebuttalOutput = {
-      rebuttal: aiRebuttal || `I understand your concern about "${body.objection}". Let me address this for ${body.product}.`
+      rebuttal: aiRebuttal || `I understand your concern about "${body.objection}". Let me address this for ${body.product}.`,
+      sourcesUsed: grounded?.sourcesUsed,
     };
 
     console.log('✅ AI rebuttal generation completed successfully');
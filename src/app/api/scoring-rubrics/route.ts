@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Per-product scoring rubrics for the caller's workspace
+ *
+ * GET /api/scoring-rubrics?product=&version=
+ *     The requested version (default: the active one) and the list of all
+ *     versions for the product, newest first. Version 0 is the built-in rubric.
+ * PUT /api/scoring-rubrics   body: { product, name, categories }
+ *     Saves the rubric as a new version, which becomes the active one for new
+ *     scoring runs. Requires `catalog:write`.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireIdentity } from '@/lib/auth/server';
+import {
+  getActiveRubric,
+  getRubricVersion,
+  listRubricVersions,
+  saveRubric,
+  type ScoringRubricResponse,
+} from '@/lib/rubric-store';
+import { RubricCategorySchema } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const SaveRubricSchema = z
+  .object({
+    product: z.string().min(1, 'Product is required.'),
+    name: z.string().trim().min(1, 'Rubric name is required.').max(120),
+    categories: z.array(RubricCategorySchema).min(1, 'Add at least one category.'),
+  })
+  .superRefine((rubric, ctx) => {
+    // Metric scores are matched back to the rubric by name, so names must be unique.
+    const seen = new Set<string>();
+    rubric.categories.forEach((category) =>
+      category.metrics.forEach((metric) => {
+        const key = metric.name.trim().toLowerCase();
+        if (seen.has(key)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Metric '${metric.name}' appears more than once.` });
+        }
+        seen.add(key);
+      })
+    );
+  });
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const product = request.nextUrl.searchParams.get('product');
+  if (!product) return errorResponse('The product query parameter is required.', 400);
+  try {
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const rubric =
+      versionParam === null
+        ? getActiveRubric(identity.workspaceId, product)
+        : getRubricVersion(identity.workspaceId, product, Number(versionParam));
+    if (!rubric) return errorResponse(`Version ${versionParam} of the ${product} rubric was not found.`, 404);
+    const versions = listRubricVersions(identity.workspaceId, product);
+    return NextResponse.json<ApiResult<ScoringRubricResponse>>({ ok: true, data: { rubric, versions } });
+  } catch (error) {
+    console.error('Scoring rubric read API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'catalog:write');
+  if (response) return response;
+  try {
+    const parsed = SaveRubricSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const rubric = saveRubric(identity.workspaceId, parsed.data, identity.displayName || identity.userId);
+    const versions = listRubricVersions(identity.workspaceId, rubric.product);
+    return NextResponse.json<ApiResult<ScoringRubricResponse>>({ ok: true, data: { rubric, versions } });
+  } catch (error) {
+    console.error('Scoring rubric save API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
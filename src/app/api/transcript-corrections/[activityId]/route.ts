@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Reviewer corrections of one call's transcript
+ *
+ * GET /api/transcript-corrections/:activityId?version=
+ *     The requested version (default: the latest) and the list of all
+ *     versions, newest first. Version 0 is the machine transcript.
+ * PUT /api/transcript-corrections/:activityId   body: { baseVersion, edits, note? }
+ *     Applies the edits to the latest version and saves the result as the
+ *     next one. Answers 409 when `baseVersion` is no longer the latest.
+ *
+ * The activity is a transcription or call scoring entry. Reviewers may correct
+ * any entry they can read, as with transcript feedback; entries outside the
+ * caller's scope answer 404. Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor, getActivity } from '@/lib/activity-log-server';
+import { entryInScope } from '@/lib/activity-store';
+import { requireIdentity, type RequestIdentity } from '@/lib/auth/server';
+import {
+  getTranscriptVersion,
+  listTranscriptVersions,
+  machineTranscriptFor,
+  machineVersion,
+  saveTranscriptCorrection,
+  type TranscriptCorrectionsResponse,
+} from '@/lib/transcript-corrections-store';
+import { SaveTranscriptCorrectionSchema } from '@/lib/transcript/corrections';
+import type { ActivityLogEntry } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ activityId: string }> };
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const notFound = (activityId: string) => errorResponse(`Activity '${activityId}' not found.`, 404);
+
+const noTranscript = (activityId: string) => errorResponse(`Activity '${activityId}' has no transcript to correct.`, 422);
+
+const getScopedActivity = async (activityId: string, identity: RequestIdentity): Promise<ActivityLogEntry | null> => {
+  const entry = await getActivity(activityId);
+  return entry && entryInScope(entry, activityScopeFor(identity)) ? entry : null;
+};
+
+/** Versions of a call that has never been corrected: just the machine transcript. */
+const listVersions = (workspaceId: string, activityId: string): TranscriptCorrectionsResponse['versions'] => {
+  const versions = listTranscriptVersions(workspaceId, activityId);
+  return versions.length > 0 ? versions : [{ version: 0, changeCount: 0 }];
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'activity:read:own');
+  if (response) return response;
+  const { activityId } = await params;
+  try {
+    const entry = await getScopedActivity(activityId, identity);
+    if (!entry) return notFound(activityId);
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const requested = versionParam === null ? undefined : Number(versionParam);
+    if (requested !== undefined && !Number.isInteger(requested)) {
+      return errorResponse('The version query parameter must be a whole number.', 400);
+    }
+    // Before any correction only version 0, the machine transcript, exists
+    let version = getTranscriptVersion(identity.workspaceId, activityId, requested);
+    if (!version && !requested) {
+      const machineTranscript = machineTranscriptFor(entry);
+      if (!machineTranscript) return noTranscript(activityId);
+      version = machineVersion(activityId, machineTranscript);
+    }
+    if (!version) return errorResponse(`Version ${versionParam} of the transcript was not found.`, 404);
+    const versions = listVersions(identity.workspaceId, activityId);
+    return NextResponse.json<ApiResult<TranscriptCorrectionsResponse>>({ ok: true, data: { version, versions } });
+  } catch (error) {
+    console.error('Transcript corrections read API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'activity:write');
+  if (response) return response;
+  const { activityId } = await params;
+  try {
+    const parsed = SaveTranscriptCorrectionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errorResponse(parsed.error.issues.map((issue) => issue.message).join(' '), 400);
+    }
+    const entry = await getScopedActivity(activityId, identity);
+    if (!entry) return notFound(activityId);
+    const machineTranscript = machineTranscriptFor(entry);
+    if (!machineTranscript) return noTranscript(activityId);
+
+    const details = (entry.details ?? {}) as { fileName?: string };
+    const version = saveTranscriptCorrection(
+      identity.workspaceId,
+      {
+        activityId,
+        fileName: details.fileName,
+        agentName: machineTranscript.metadata.agentName ?? entry.agentName,
+        machineTranscript,
+      },
+      parsed.data,
+      identity.displayName || identity.userId
+    );
+    const versions = listVersions(identity.workspaceId, activityId);
+    return NextResponse.json<ApiResult<TranscriptCorrectionsResponse>>({ ok: true, data: { version, versions } });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes('has changed since')) return errorResponse(message, 409);
+    if (message.startsWith('Edit ')) return errorResponse(message, 400);
+    console.error('Transcript corrections save API error:', message);
+    return errorResponse(message, 500);
+  }
+}
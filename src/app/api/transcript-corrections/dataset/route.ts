@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Transcription accuracy dataset from reviewer corrections
+ *
+ * GET /api/transcript-corrections/dataset?format=json|csv&by=call|agent
+ *     Every corrected call in the caller's workspace, with the machine
+ *     transcript's word error rate (WER) and speaker-attributed WER against the
+ *     latest correction. JSON (the default) is an
+ *     `ApiResult<TranscriptAccuracyDataset>` with both the calls and the
+ *     per-agent totals; CSV is a download of one of them (`by`, default `call`).
+ *
+ * Requires `activity:read:workspace`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireIdentity } from '@/lib/auth/server';
+import { listTranscriptAccuracy, type TranscriptAccuracyDataset } from '@/lib/transcript-corrections-store';
+import { accuracyByAgent, agentAccuracyToCsv, callAccuracyToCsv } from '@/lib/transcript/corrections';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'activity:read:workspace');
+  if (response) return response;
+  const format = request.nextUrl.searchParams.get('format') ?? 'json';
+  const by = request.nextUrl.searchParams.get('by') ?? 'call';
+  if (format !== 'json' && format !== 'csv') return errorResponse("format must be 'json' or 'csv'.", 400);
+  if (by !== 'call' && by !== 'agent') return errorResponse("by must be 'call' or 'agent'.", 400);
+  try {
+    const calls = listTranscriptAccuracy(identity.workspaceId);
+    const agents = accuracyByAgent(calls);
+    if (format === 'json') {
+      return NextResponse.json<ApiResult<TranscriptAccuracyDataset>>({ ok: true, data: { calls, agents } });
+    }
+    const csv = by === 'agent' ? agentAccuracyToCsv(agents) : callAccuracyToCsv(calls);
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="transcript-accuracy-by-${by}-${new Date().toISOString().split('T')[0]}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Transcript accuracy dataset API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { transcribeAudio } from '@/ai/flows/transcription-flow';
 import { TranscriptionInputSchema, TranscriptionOutput } from '@/types';
+import { AI_MODELS } from '@/ai/config/models';
+import { unavailableModelsMessage } from '@/ai/providers';
 import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getRequestIdentity } from '@/lib/auth/server';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatcher';
 
 const DEFAULT_TRANSCRIPTION_LIMIT = parseInt(process.env.TRANSCRIPTION_CALLS_PER_HOUR || process.env.MAX_EXPENSIVE_CALLS_PER_HOUR || '5', 10);
 const TRANSCRIPTION_LIMIT = Number.isFinite(DEFAULT_TRANSCRIPTION_LIMIT) && DEFAULT_TRANSCRIPTION_LIMIT > 0 ? DEFAULT_TRANSCRIPTION_LIMIT : 5;
@@ -13,14 +17,9 @@ const transcriptionRateLimitConfig = {
   windowMs: TRANSCRIPTION_WINDOW_MS,
 };
 
-export const maxDuration = 180; // allow longer audio payloads similar to earlier behavior
-export const config = {
-  api: {
-    bodyParser: {
-      sizeLimit: '15mb',
-    },
-  },
-};
+// Long calls are split into overlapping chunks (see transcribeAudio), which takes
+// several model calls; allow up to 10 minutes.
+export const maxDuration = 600;
 
 export async function POST(request: NextRequest) {
   try {
@@ -39,12 +38,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GOOGLE_API_KEY) {
-      console.error('GOOGLE_API_KEY missing in environment');
+    const unavailable = unavailableModelsMessage([AI_MODELS.MULTIMODAL_PRIMARY]);
+    if (unavailable) {
+      console.error('Transcription model unavailable:', unavailable);
       return NextResponse.json(
         {
-          error: 'Google AI key not configured',
-          details: 'Set GOOGLE_API_KEY before using transcription features.',
+          error: 'AI model not configured',
+          details: `Transcription is unavailable. ${unavailable}`,
         },
         { status: 500 }
       );
@@ -63,6 +63,15 @@ export async function POST(request: NextRequest) {
     // Always increment usage for this completed request
     rateLimiter.incrementOnly(transcriptionRateLimitConfig);
 
+    const identity = getRequestIdentity(request);
+    if (identity && !result.summary.overview.includes('Error')) {
+      emitWebhookEvent(identity.workspaceId, 'transcription.completed', {
+        durationSeconds: result.callMeta.durationSeconds,
+        segmentCount: result.segments.length,
+        transcription: result,
+      });
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     const err = error as Error;
@@ -119,7 +119,8 @@ export async function POST(req: NextRequest) {
 
     if (!data.length) return new Response("Empty audio", { status: 502 });
 
-    const type = audioEncoding === "LINEAR16" ? "audio/wav" : "audio/mpeg";
+    // edge-tts always writes MP3, so label the bytes by what they are rather than what was asked for
+    const type = data.subarray(0, 4).toString("ascii") === "RIFF" ? "audio/wav" : "audio/mpeg";
     return new Response(data, {
       status: 200,
       headers: {
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Public API: call scoring
+ *
+ * POST /api/v1/call-scoring   body: ScoreCallInput   scope: calls:score
+ *      Scores the call against the rubric sent, or the active rubric of the
+ *      key's workspace for the product. Subscribers to `call.scored` and
+ *      `call.redflag` are notified as for calls scored in the app.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { scoreCall } from '@/ai/flows/call-scoring';
+import { assertFetchableAudioUrl } from '@/ai/utils/remote-audio';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getActiveRubric } from '@/lib/rubric-store';
+import { emitCallScoredEvents } from '@/lib/webhooks/dispatcher';
+import { ScoreCallInputSchema, type ScoreCallOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'calls:score');
+  if (response) return response;
+  try {
+    const parsed = ScoreCallInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    if (parsed.data.audioUrl) {
+      try {
+        assertFetchableAudioUrl(parsed.data.audioUrl);
+      } catch (error) {
+        return errorResponse((error as Error).message, 400);
+      }
+    }
+    const rubric = parsed.data.rubric ?? getActiveRubric(key.workspaceId, parsed.data.product);
+    const result = await scoreCall({ ...parsed.data, rubric });
+    rateLimiter.incrementOnly({ identifier: 'call-scoring', ...RATE_LIMITS.EXPENSIVE });
+    if (result.callCategorisation === 'Error') {
+      return errorResponse(result.summary, 500);
+    }
+
+    emitCallScoredEvents(key.workspaceId, {
+      product: parsed.data.product,
+      agentName: parsed.data.agentName,
+      source: 'Manual',
+      overallScore: result.overallScore,
+      callCategorisation: result.callCategorisation,
+      callDisposition: result.callDisposition,
+      conversionReadiness: result.conversionReadiness,
+      summary: result.summary,
+      redFlags: result.redFlags,
+    });
+    return NextResponse.json<ApiResult<ScoreCallOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public call scoring API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Public API: data analysis report
+ *
+ * POST /api/v1/data-analysis   scope: data:analyze
+ *      multipart/form-data: `files` (one or more CSV, XLSX/XLS or ZIP uploads)
+ *      and `userAnalysisPrompt`; the files are parsed and profiled on the server.
+ *      A JSON `DataAnalysisInput` body, which only describes the files, is also
+ *      accepted.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeData } from '@/ai/flows/data-analyzer';
+import type { UploadedDataFile } from '@/lib/data-analysis';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { DataAnalysisInputSchema, type DataAnalysisInput, type DataAnalysisReportOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const MAX_ANALYSIS_REQUEST_BYTES = 250 * 1024 * 1024;
+const MAX_ANALYSIS_FILES = 20;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+async function readUploads(request: NextRequest): Promise<{ input: DataAnalysisInput; files: UploadedDataFile[] } | string> {
+  const formData = await request.formData();
+  const uploads = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+  if (uploads.length === 0 || uploads.length > MAX_ANALYSIS_FILES) {
+    return `Upload between 1 and ${MAX_ANALYSIS_FILES} files.`;
+  }
+  const prompt = formData.get('userAnalysisPrompt');
+  const files: UploadedDataFile[] = await Promise.all(
+    uploads.map(async (file) => ({ name: file.name, type: file.type, data: Buffer.from(await file.arrayBuffer()) }))
+  );
+  return {
+    input: {
+      fileDetails: files.map((file) => ({ fileName: file.name, fileType: file.type || 'unknown' })),
+      userAnalysisPrompt: typeof prompt === 'string' ? prompt.slice(0, 10000) : '',
+    },
+    files,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const { response } = requireApiKey(request, 'data:analyze');
+  if (response) return response;
+  try {
+    let result: DataAnalysisReportOutput;
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      if (Number(request.headers.get('content-length')) > MAX_ANALYSIS_REQUEST_BYTES) {
+        return errorResponse(`Uploads are limited to ${MAX_ANALYSIS_REQUEST_BYTES / (1024 * 1024)}MB per analysis.`, 413);
+      }
+      const uploads = await readUploads(request);
+      if (typeof uploads === 'string') return errorResponse(uploads, 400);
+      result = await analyzeData(uploads.input, uploads.files);
+    } else {
+      const parsed = DataAnalysisInputSchema.safeParse(await request.json().catch(() => undefined));
+      if (!parsed.success) {
+        return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+      }
+      result = await analyzeData(parsed.data);
+    }
+    rateLimiter.incrementOnly({ identifier: 'data-analysis', ...RATE_LIMITS.MODERATE });
+    return NextResponse.json<ApiResult<DataAnalysisReportOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public data analysis API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileOverview Public API: dialer dispositions
+ *
+ * POST /api/v1/dispositions   body: { records: DialerDispositionInput[] }   scope: dispositions:write
+ *      Push from a dialer or CRM integration, as on `POST /api/dispositions`;
+ *      a CSV export can be sent with `Content-Type: text/csv`. Records land in
+ *      the API key's workspace, keyed by call id.
+ *
+ * Every response is an `ApiResult<DispositionImportResult>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { readDispositionImport } from '@/lib/dispositions/request';
+import { importDialerDispositions } from '@/lib/dispositions/store';
+import type { DispositionImportResult } from '@/lib/dispositions/types';
+import { requireApiKey } from '@/lib/public-api/auth';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'dispositions:write');
+  if (response) return response;
+  try {
+    const body = await readDispositionImport(request);
+    if ('error' in body) return errorResponse(body.error, body.status);
+    const imported = importDialerDispositions(key.workspaceId, body.records, body.source);
+    return NextResponse.json<ApiResult<DispositionImportResult>>({ ok: true, data: { imported, skipped: body.skipped } });
+  } catch (error) {
+    console.error('Public disposition import API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
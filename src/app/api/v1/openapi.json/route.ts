@@ -0,0 +1,15 @@
+/**
+ * @fileOverview OpenAPI 3 document for the public API
+ *
+ * GET /api/v1/openapi.json
+ *     Served without an API key, and as the bare document rather than an
+ *     `ApiResult`, so code generators and API clients can load it directly.
+ */
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+
+export const runtime = 'nodejs';
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileOverview Public API: sales pitch generation
+ *
+ * POST /api/v1/pitch-generator   body: GeneratePitchInput   scope: pitches:generate
+ *      Generates a pitch grounded in the knowledge base indexed for the key's
+ *      workspace; `knowledgeBaseContext` is added to the retrieved passages.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePitch } from '@/ai/flows/pitch-generator';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { GeneratePitchInputSchema, type GeneratePitchOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'pitches:generate');
+  if (response) return response;
+  try {
+    const parsed = GeneratePitchInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const result = await generatePitch(parsed.data, { workspaceId: key.workspaceId });
+    rateLimiter.incrementOnly({ identifier: 'pitch-generator', ...RATE_LIMITS.MODERATE });
+    return NextResponse.json<ApiResult<GeneratePitchOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public pitch generator API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
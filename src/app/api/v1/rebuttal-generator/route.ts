@@ -0,0 +1,39 @@
+/**
+ * @fileOverview Public API: objection rebuttals
+ *
+ * POST /api/v1/rebuttal-generator   body: GenerateRebuttalInput   scope: rebuttals:generate
+ *      Generates a rebuttal grounded in the knowledge base indexed for the
+ *      key's workspace.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRebuttal } from '@/ai/flows/rebuttal-generator';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { GenerateRebuttalInputSchema, type GenerateRebuttalOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 120;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'rebuttals:generate');
+  if (response) return response;
+  try {
+    const parsed = GenerateRebuttalInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const result = await generateRebuttal(parsed.data, { workspaceId: key.workspaceId });
+    rateLimiter.incrementOnly({ identifier: 'rebuttal-generator', ...RATE_LIMITS.MODERATE });
+    return NextResponse.json<ApiResult<GenerateRebuttalOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public rebuttal generator API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Public API: training material
+ *
+ * POST /api/v1/training-deck   body: GenerateTrainingDeckInput   scope: training-decks:generate
+ *      Generates the sections of a deck or brochure from the items sent.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { generateTrainingDeck } from '@/ai/flows/training-deck-generator';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { GenerateTrainingDeckInputSchema, type GenerateTrainingDeckOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { response } = requireApiKey(request, 'training-decks:generate');
+  if (response) return response;
+  try {
+    const parsed = GenerateTrainingDeckInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const result = await generateTrainingDeck(parsed.data);
+    rateLimiter.incrementOnly({ identifier: 'training-deck', ...RATE_LIMITS.MODERATE });
+    return NextResponse.json<ApiResult<GenerateTrainingDeckOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public training deck API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
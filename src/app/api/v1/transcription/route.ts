@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Public API: transcription
+ *
+ * POST /api/v1/transcription   body: TranscriptionInput   scope: transcripts:create
+ *      Transcribes the recording into diarized, timestamped segments.
+ *      Subscribers to `transcription.completed` are notified.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { transcribeAudio } from '@/ai/flows/transcription-flow';
+import { assertFetchableAudioUrl } from '@/ai/utils/remote-audio';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { TranscriptionInputSchema, type TranscriptionOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+// Long calls are transcribed in overlapping chunks, as in /api/transcription.
+export const maxDuration = 600;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'transcripts:create');
+  if (response) return response;
+  try {
+    const parsed = TranscriptionInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    if (parsed.data.audioUrl) {
+      try {
+        assertFetchableAudioUrl(parsed.data.audioUrl);
+      } catch (error) {
+        return errorResponse((error as Error).message, 400);
+      }
+    }
+    const result = await transcribeAudio(parsed.data);
+    rateLimiter.incrementOnly({ identifier: 'transcription', ...RATE_LIMITS.EXPENSIVE });
+    if (result.summary.overview.includes('Error')) {
+      return errorResponse(result.summary.overview, 500);
+    }
+
+    emitWebhookEvent(key.workspaceId, 'transcription.completed', {
+      durationSeconds: result.callMeta.durationSeconds,
+      segmentCount: result.segments.length,
+      transcription: result,
+    });
+    return NextResponse.json<ApiResult<TranscriptionOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public transcription API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Public API: support agent answers
+ *
+ * POST /api/v1/voice-support-agent   body: VoiceSupportAgentInput   scope: support:query
+ *      Answers the query from the knowledge base indexed for the key's
+ *      workspace. Subscribers to `support.escalation` are notified when the
+ *      answer suggests escalating to a human.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { runVoiceSupportAgentQuery } from '@/ai/flows/voice-support-agent-flow';
+import { requireApiKey } from '@/lib/public-api/auth';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatcher';
+import { VoiceSupportAgentFlowInputSchema, type VoiceSupportAgentFlowOutput } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { key, response } = requireApiKey(request, 'support:query');
+  if (response) return response;
+  try {
+    const parsed = VoiceSupportAgentFlowInputSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const input = parsed.data;
+    const result = await runVoiceSupportAgentQuery(input, { workspaceId: key.workspaceId });
+    rateLimiter.incrementOnly({ identifier: 'voice-support-agent', ...RATE_LIMITS.MODERATE });
+
+    if (result.escalationSuggested) {
+      emitWebhookEvent(key.workspaceId, 'support.escalation', {
+        product: input.product,
+        userName: input.userName,
+        userQuery: input.userQuery,
+        aiResponseText: result.aiResponseText,
+        isUnanswerableFromKB: result.isUnanswerableFromKB,
+        errorMessage: result.errorMessage,
+      });
+    }
+    return NextResponse.json<ApiResult<VoiceSupportAgentFlowOutput>>({ ok: true, data: result });
+  } catch (error) {
+    console.error('Public support agent API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileOverview Simulated customer for the voice sales agent
+ *
+ * POST /api/voice-sales-agent/simulated-customer   body: SimulatedCustomerTurnInput
+ *      Returns the persona's reply to the agent's last turn, with the customer
+ *      state to send back with the next request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSimulatedCustomerTurn } from '@/ai/flows/simulated-customer-flow';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { SimulatedCustomerTurnInputSchema } from '@/types';
+
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = SimulatedCustomerTurnInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: `Invalid simulated customer input: ${parsed.error.message}` }, { status: 400 });
+    }
+    const result = await generateSimulatedCustomerTurn(parsed.data);
+    rateLimiter.incrementOnly({ identifier: 'voice-sales-agent', ...RATE_LIMITS.MODERATE });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Simulated customer error:', error);
+    return NextResponse.json({ error: 'Failed to run simulated customer' }, { status: 500 });
+  }
+}
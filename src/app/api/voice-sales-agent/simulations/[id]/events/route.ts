@@ -0,0 +1,85 @@
+/**
+ * @fileOverview Progress stream for a headless voice simulation batch (server-sent events)
+ *
+ * GET /api/voice-sales-agent/simulations/:id/events
+ *     Sends a `snapshot` event with the batch and the conversations finished so
+ *     far, then a `call` event per finished conversation and `job` events as
+ *     its status changes. The stream closes once the batch is complete or
+ *     cancelled; clients that reconnect get a fresh snapshot.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { getSimulationJob } from '@/lib/jobs/simulation-store';
+import { startSimulationWorkers, subscribeToSimulationJob } from '@/lib/jobs/simulation-worker';
+import { isJobFinished, type SimulationJobEvent } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Keeps proxies from closing an idle connection while a long conversation runs. */
+const HEARTBEAT_MS = 20_000;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  startSimulationWorkers();
+  const job = getSimulationJob(id, activityScopeFor(identity));
+  if (!job) {
+    return NextResponse.json<ApiResult<never>>({ ok: false, error: `Simulation batch '${id}' not found.` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: SimulationJobEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away.
+        }
+      };
+
+      const unsubscribe = subscribeToSimulationJob(id, (event) => {
+        send(event);
+        if (event.type === 'job' && isJobFinished(event.job)) close();
+      });
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', close);
+
+      send({ type: 'snapshot', job });
+      if (isJobFinished(job)) close();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
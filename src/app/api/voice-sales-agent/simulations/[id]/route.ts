@@ -0,0 +1,57 @@
+/**
+ * @fileOverview Single headless voice simulation batch
+ *
+ * GET    /api/voice-sales-agent/simulations/:id   The batch with its finished
+ *                                                  conversations and summary (for polling).
+ * DELETE /api/voice-sales-agent/simulations/:id   Cancels the batch. Conversations
+ *                                                  not yet started are dropped; those
+ *                                                  already running still finish.
+ *
+ * Batches outside the caller's scope answer 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activityScopeFor, ownershipScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { cancelSimulationJob, getSimulationJob } from '@/lib/jobs/simulation-store';
+import { publishSimulationJobChange, startSimulationWorkers } from '@/lib/jobs/simulation-worker';
+import type { SimulationJobWithResults } from '@/lib/jobs/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+const notFound = (id: string) => errorResponse(`Simulation batch '${id}' not found.`, 404);
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    startSimulationWorkers();
+    const job = getSimulationJob(id, activityScopeFor(identity));
+    if (!job) return notFound(id);
+    return NextResponse.json<ApiResult<SimulationJobWithResults>>({ ok: true, data: job });
+  } catch (error) {
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  const { id } = await params;
+  try {
+    const job = cancelSimulationJob(id, ownershipScopeFor(identity));
+    if (!job) return notFound(id);
+    publishSimulationJobChange(job);
+    return NextResponse.json<ApiResult<SimulationJobWithResults>>({ ok: true, data: job });
+  } catch (error) {
+    console.error('Voice simulation cancel API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileOverview Headless voice sales simulations
+ *
+ * POST /api/voice-sales-agent/simulations
+ *      body: { agent, personas?, pitchVariants?, runsPerPersona?, seed?, maxAgentTurns?, score? }
+ *      Queues a batch that runs every persona (default: all built-in personas)
+ *      against every pitch version and returns the job. The batch runs on the
+ *      server's simulation workers, so it outlives this request; follow it on
+ *      `GET /api/voice-sales-agent/simulations/:id/events` or poll
+ *      `GET /api/voice-sales-agent/simulations/:id`, which include each finished
+ *      conversation and the sale rate and mean score per pitch version and
+ *      persona. Conversations are scored with the workspace's active rubric
+ *      unless `score` is false.
+ * GET  /api/voice-sales-agent/simulations?limit=
+ *      Newest-first batches visible to the caller.
+ *
+ * Every response is an `ApiResult<T>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AI_MODELS } from '@/ai/config/models';
+import { unavailableModelsMessage } from '@/ai/providers';
+import { activityScopeFor } from '@/lib/activity-log-server';
+import { requireIdentity } from '@/lib/auth/server';
+import { createSimulationJob, listSimulationJobs } from '@/lib/jobs/simulation-store';
+import { startSimulationWorkers } from '@/lib/jobs/simulation-worker';
+import type { SimulationJob, SimulationJobWithResults } from '@/lib/jobs/types';
+import { getActiveRubric } from '@/lib/rubric-store';
+import { getSimulatedCustomerPersonas } from '@/lib/simulated-customer';
+import { GeneratePitchOutputSchema, SimulatedCustomerPersonaSchema, VoiceSalesAgentFlowInputSchema } from '@/types';
+import type { ApiResult } from '@/types/common';
+
+export const runtime = 'nodejs';
+
+const MAX_CONVERSATIONS_PER_BATCH = 500;
+
+const SimulationBatchSchema = z.object({
+  agent: VoiceSalesAgentFlowInputSchema.pick({
+    product: true,
+    productDisplayName: true,
+    brandName: true,
+    brandUrl: true,
+    salesPlan: true,
+    specialPlanConfigurations: true,
+    offer: true,
+    agentName: true,
+    userName: true,
+    knowledgeBaseContext: true,
+  }),
+  personas: z.array(SimulatedCustomerPersonaSchema).min(1).optional(),
+  pitchVariants: z.array(z.object({ label: z.string().min(1), pitch: GeneratePitchOutputSchema })).max(10).default([]),
+  runsPerPersona: z.number().int().min(1).max(100).default(1),
+  seed: z.number().int().default(1),
+  maxAgentTurns: z.number().int().min(2).max(60).optional(),
+  score: z.boolean().default(true),
+});
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status });
+
+export async function POST(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+
+  const parsed = SimulationBatchSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return errorResponse(`Invalid simulation payload: ${parsed.error.message}`, 400);
+  }
+  // The agent, the simulated customer and the scoring all start on the primary model.
+  const unavailable = unavailableModelsMessage([AI_MODELS.MULTIMODAL_PRIMARY]);
+  if (unavailable) {
+    return errorResponse(`Simulations cannot run. ${unavailable}`, 500);
+  }
+  const spec = parsed.data;
+  const personas = spec.personas ?? getSimulatedCustomerPersonas();
+  const total = personas.length * Math.max(1, spec.pitchVariants.length) * spec.runsPerPersona;
+  if (total > MAX_CONVERSATIONS_PER_BATCH) {
+    return errorResponse(`A batch is limited to ${MAX_CONVERSATIONS_PER_BATCH} conversations; this one has ${total}.`, 400);
+  }
+
+  try {
+    startSimulationWorkers();
+    const job = createSimulationJob(
+      {
+        ...spec,
+        personas,
+        rubric: spec.score ? getActiveRubric(identity.workspaceId, spec.agent.product) : undefined,
+      },
+      identity
+    );
+    return NextResponse.json<ApiResult<SimulationJobWithResults>>({ ok: true, data: job }, { status: 201 });
+  } catch (error) {
+    console.error('Voice simulation create API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
+
+export function GET(request: NextRequest) {
+  const { identity, response } = requireIdentity(request, 'ai:use');
+  if (response) return response;
+  try {
+    startSimulationWorkers();
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const jobs = listSimulationJobs(activityScopeFor(identity), limitParam ? Number(limitParam) || undefined : undefined);
+    return NextResponse.json<ApiResult<SimulationJob[]>>({ ok: true, data: jobs });
+  } catch (error) {
+    console.error('Voice simulation list API error:', (error as Error).message);
+    return errorResponse((error as Error).message, 500);
+  }
+}
@@ -1,13 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runVoiceSupportAgentQuery } from '@/ai/flows/voice-support-agent-flow';
+import { getRequestIdentity } from '@/lib/auth/server';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatcher';
+import type { VoiceSupportAgentFlowInput } from '@/types';
+
+export const runtime = 'nodejs';
 
 // Set maxDuration to prevent timeout errors during query processing
 export const maxDuration = 300; // 5 minutes max for Vercel Hobby plan
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const result = await runVoiceSupportAgentQuery(body);
+    const body = (await request.json()) as VoiceSupportAgentFlowInput;
+    const identity = getRequestIdentity(request);
+    const result = await runVoiceSupportAgentQuery(body, {
+      workspaceId: identity?.workspaceId,
+    });
+    if (identity && result.escalationSuggested) {
+      emitWebhookEvent(identity.workspaceId, 'support.escalation', {
+        product: body.product,
+        userName: body.userName,
+        userQuery: body.userQuery,
+        aiResponseText: result.aiResponseText,
+        isUnanswerableFromKB: result.isUnanswerableFromKB,
+        errorMessage: result.errorMessage,
+      });
+    }
     return NextResponse.json(result);
   } catch (error) {
     console.error('Voice support agent error:', error);
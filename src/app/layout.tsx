@@ -6,10 +6,8 @@ import './globals.css';
 import '@/styles/transcript.css'; // Import transcript styles
 import { Toaster } from "@/components/ui/toaster";
 import { SidebarProvider } from '@/components/ui/sidebar';
-import { ProductProvider } from '@/hooks/useProductContext';
-import { UserProfileProvider } from '@/hooks/useUserProfile';
-import { KnowledgeBaseProvider } from '@/hooks/use-knowledge-base';
-import { ActivityLogProvider } from '@/hooks/use-activity-logger';
+import { AuthProvider } from '@/hooks/useAuth';
+import { WorkspaceProviders } from '@/components/layout/workspace-providers';
 import { AppVersionProvider } from '@/context/app-version-context';
 
 export const metadata: Metadata = {
@@ -31,17 +29,13 @@ export default function RootLayout({
     <html lang="en" className={`${GeistSans.variable} ${GeistMono.variable}`} suppressHydrationWarning>
       <body className={`font-sans antialiased`}>
         <AppVersionProvider>
-          <UserProfileProvider>
-           <ProductProvider>
-            <KnowledgeBaseProvider>
-             <ActivityLogProvider>
+          <AuthProvider>
+           <WorkspaceProviders>
               <SidebarProvider defaultOpen={true}>
                 {children}
               </SidebarProvider>
-             </ActivityLogProvider>
-            </KnowledgeBaseProvider>
-           </ProductProvider>
-          </UserProfileProvider>
+           </WorkspaceProviders>
+          </AuthProvider>
         </AppVersionProvider>
         <Toaster />
       </body>
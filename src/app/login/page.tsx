@@ -1,63 +1,67 @@
 "use client";
 
-import { useEffect, useState, type FormEvent } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useEffect, useState, type FormEvent } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Eye, EyeOff, ShieldCheck, LockKeyhole, CheckCircle2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/hooks/useAuth';
+import { safeNextPath } from '@/lib/auth/roles';
 
-const AUTH_STORAGE_KEY = 'aiTeleSuiteDemoAuth';
-const DEMO_USERNAME = 'Anchit';
-const DEMO_PASSWORD = 'AnchitAnya';
+// Error codes set by the SSO routes under /api/auth/oidc.
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  oidc_disabled: 'Single sign-on is not configured for this deployment.',
+  oidc_unavailable: 'The single sign-on provider could not be reached. Please try again.',
+  oidc_failed: 'Single sign-on did not complete. Please try again.',
+  account_disabled: 'Your account has been disabled. Contact an administrator.',
+};
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const { user, isLoading, login, oidcEnabled } = useAuth();
   const [credentials, setCredentials] = useState({ identifier: '', password: '' });
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [statusVariant, setStatusVariant] = useState<'default' | 'error' | 'success'>('default');
+  const errorCode = searchParams.get('error');
+  const [statusMessage, setStatusMessage] = useState<string | null>(
+    errorCode ? SSO_ERROR_MESSAGES[errorCode] ?? 'Sign in failed. Please try again.' : null
+  );
+  const [statusVariant, setStatusVariant] = useState<'default' | 'error' | 'success'>(errorCode ? 'error' : 'default');
 
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const session = window.localStorage.getItem(AUTH_STORAGE_KEY);
-    if (session) {
-      router.replace('/home');
+    if (!isLoading && user) {
+      router.replace(nextPath);
     }
-  }, [router]);
+  }, [isLoading, user, router, nextPath]);
 
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setIsSubmitting(true);
     setStatusMessage(null);
     setStatusVariant('default');
 
-    setTimeout(() => {
-      const identifier = credentials.identifier.trim();
-      const password = credentials.password.trim();
-
-      if (identifier === DEMO_USERNAME && password === DEMO_PASSWORD) {
-        window.localStorage.setItem(
-          AUTH_STORAGE_KEY,
-          JSON.stringify({
-            user: DEMO_USERNAME,
-            issuedAt: new Date().toISOString(),
-          })
-        );
-        setStatusVariant('success');
-        setStatusMessage('Credentials verified. Redirecting to dashboard...');
-        setTimeout(() => {
-          router.replace('/home');
-        }, 500);
-      } else {
-        setStatusVariant('error');
-        setStatusMessage('The username or password you entered is incorrect.');
-      }
-      setIsSubmitting(false);
-    }, 350);
+    const result = await login(credentials.identifier.trim(), credentials.password);
+    if (result.ok) {
+      setStatusVariant('success');
+      setStatusMessage('Credentials verified. Redirecting to dashboard...');
+    } else {
+      setStatusVariant('error');
+      setStatusMessage(result.error);
+    }
+    setIsSubmitting(false);
   };
 
   return (
@@ -69,12 +73,11 @@ export default function LoginPage() {
           </div>
           <CardTitle className="text-2xl">Secure Sign In</CardTitle>
           <CardDescription>
-            No usernames or passwords are displayed anywhere on this page. Provide your credentials only when the official
-            authentication service is enabled.
+            Sign in with the account your administrator created for you{oidcEnabled ? ', or use your company single sign-on' : ''}.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form className="space-y-5" onSubmit={handleSubmit}>
+          <form className="space-y-5" onSubmit={(event) => void handleSubmit(event)}>
             <div className="space-y-2">
               <Label htmlFor="identifier">Email or Username</Label>
               <Input
@@ -123,19 +126,21 @@ export default function LoginPage() {
             <Button type="submit" className="w-full" disabled={isSubmitting}>
               {isSubmitting ? "Securing..." : "Sign In"}
             </Button>
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full"
-              onClick={() => router.push('/home')}
-            >
-              Back to Home
-            </Button>
+            {oidcEnabled && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => window.location.assign(`/api/auth/oidc/login?next=${encodeURIComponent(nextPath)}`)}
+              >
+                Sign in with SSO
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
       <p className="text-xs text-muted-foreground mt-6 text-center max-w-sm">
-        Demo environment — Integrate OAuth, SAML, or JWT based auth before using this screen in production.
+        Access is limited to your workspace and role. Contact an administrator if you need an account.
       </p>
     </div>
   );
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/common/loading-spinner';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+
+interface ActivityHistoryPagerProps {
+  /** Dashboard-specific note shown before the shared history notice. */
+  note?: string;
+}
+
+/**
+ * Footer shared by the dashboards: explains where history is stored and lets the
+ * user page older entries in from the server-side activity store.
+ */
+export function ActivityHistoryPager({ note }: ActivityHistoryPagerProps) {
+  const { hasMoreHistory, loadMoreHistory, isLoadingHistory } = useActivityLogger();
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await loadMoreHistory();
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="text-xs text-muted-foreground p-4 border-t flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+      <span>
+        {note ? `${note} ` : ''}
+        Activity history is stored on the server and shared across browsers.
+        {isLoadingHistory && ' Loading latest history...'}
+      </span>
+      {hasMoreHistory && (
+        <Button variant="outline" size="sm" onClick={() => void handleLoadMore()} disabled={isLoadingMore}>
+          {isLoadingMore ? <LoadingSpinner size={14} className="mr-2" /> : <History className="mr-2 h-4 w-4" />}
+          Load older activity
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ import {
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Eye, Star, ArrowUpDown, AlertTriangle, CheckCircle, Download, FileText, ChevronDown, Loader2, Clock, Mic, Bot } from 'lucide-react';
+import { Eye, Star, ArrowUpDown, AlertTriangle, CheckCircle, Download, FileText, ChevronDown, Loader2, Clock, Mic, Bot, CloudDownload } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { CallScoringResultsCard } from '../call-scoring/call-scoring-results-card';
 import { useToast } from '@/hooks/use-toast';
@@ -29,11 +29,11 @@ import { generateCallScoreReportPdfBlob } from '@/lib/pdf-utils';
 import { exportPlainTextFile } from '@/lib/export';
 import {
   groupMetricScoresByCategory,
-  computeMetricCategoryAverages,
+  getCategoryAverages,
   formatCategoryAverage,
-  metricCategoryDefinitions,
-  UNCATEGORIZED_CATEGORY_KEY,
+  orderMetricCategories,
 } from '@/lib/call-scoring-categories';
+import { formatRubricReference } from '@/lib/scoring-rubrics';
 import type { HistoricalScoreItem, Product, ScoreCallOutput } from '@/types';
 
 interface CallScoringDashboardTableProps {
@@ -83,7 +83,7 @@ export function CallScoringDashboardTable({ history, selectedIds, onSelectionCha
         return `--- Call Scoring Report for: ${fileName} ---\n\nStatus: ${status}\n${error ? `Error: ${error}\n` : ''}`;
     }
 
-    const { overallScore, callCategorisation, summary, strengths, areasForImprovement, redFlags, metricScores, transcript, conversionReadiness, suggestedDisposition, improvementSituations } = scoreOutput;
+    const { overallScore, callCategorisation, summary, strengths, areasForImprovement, redFlags, metricScores, transcript, conversionReadiness, suggestedDisposition, improvementSituations, rubric } = scoreOutput;
     
     let output = `--- Call Scoring Report ---\n\n`;
     output += `File Name: ${fileName}\n`;
@@ -93,6 +93,8 @@ export function CallScoringDashboardTable({ history, selectedIds, onSelectionCha
     
     output += `Overall Score: ${overallScore?.toFixed(1) || 'N/A'}/5\n`;
     output += `Categorization: ${callCategorisation || 'N/A'}\n`;
+    if (rubric) output += `Rubric: ${formatRubricReference(rubric)}\n`;
+    if (scoreOutput.criticalFailures?.length) output += `Critical Failures: ${scoreOutput.criticalFailures.join(', ')}\n`;
     output += `Conversion Readiness: ${conversionReadiness || 'N/A'}\n`;
     output += `Suggested Disposition: ${suggestedDisposition || 'N/A'}\n\n`;
     
@@ -106,13 +108,8 @@ export function CallScoringDashboardTable({ history, selectedIds, onSelectionCha
     
     output += `--- DETAILED METRICS ---\n`;
     const grouped = groupMetricScoresByCategory(metricScores);
-    const averages = computeMetricCategoryAverages(metricScores);
-    const orderedCategories = [
-      ...metricCategoryDefinitions.map((definition) => definition.key),
-      ...(grouped.has(UNCATEGORIZED_CATEGORY_KEY) ? [UNCATEGORIZED_CATEGORY_KEY] : []),
-    ];
-
-    orderedCategories.forEach((category) => {
+    const averages = getCategoryAverages(scoreOutput);
+    orderMetricCategories(grouped.keys()).forEach((category) => {
       const metrics = grouped.get(category);
       if (!metrics || metrics.length === 0) return;
       const avgLabel = formatCategoryAverage(averages.get(category));
@@ -309,7 +306,7 @@ export function CallScoringDashboardTable({ history, selectedIds, onSelectionCha
                       </TableCell>
                       <TableCell>
                           <Badge variant={item.details.source === 'Manual' ? 'outline' : 'secondary'}>
-                              {item.details.source === 'Manual' ? <Mic className="w-3 h-3 mr-1.5"/> : <Bot className="w-3 h-3 mr-1.5"/>}
+                              {item.details.source === 'Manual' ? <Mic className="w-3 h-3 mr-1.5"/> : item.details.source === 'Ingestion' ? <CloudDownload className="w-3 h-3 mr-1.5"/> : <Bot className="w-3 h-3 mr-1.5"/>}
                               {item.details.source}
                           </Badge>
                       </TableCell>
@@ -371,6 +368,8 @@ export function CallScoringDashboardTable({ history, selectedIds, onSelectionCha
                 <DialogDescription>
                     File: {selectedItem.details.fileName} (Scored on: {format(parseISO(selectedItem.timestamp), 'PP p')})
                     {selectedItem.details.agentNameFromForm && `, Agent: ${selectedItem.details.agentNameFromForm}`}
+                    {selectedItem.details.callMetadata?.campaign && `, Campaign: ${selectedItem.details.callMetadata.campaign}`}
+                    {selectedItem.details.callMetadata?.disposition && `, Dialer disposition: ${selectedItem.details.callMetadata.disposition}`}
                 </DialogDescription>
             </DialogHeader>
             <ScrollArea className="flex-grow overflow-y-auto">
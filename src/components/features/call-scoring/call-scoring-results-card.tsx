@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import type { ScoreCallOutput } from "@/types";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
@@ -11,19 +11,24 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TranscriptViewer } from "@/components/transcript/TranscriptViewer";
+import { TranscriptAudioPlayer } from "@/components/transcript/TranscriptAudioPlayer";
+import { ConversationAnalyticsCard } from "./conversation-analytics-card";
 import { normalizeTranscript } from "@/lib/transcript/normalize";
+import { evidenceToMarkers, parseEvidenceTimestamp } from "@/lib/transcript/timeline";
+import { useTranscriptPlayback } from "@/hooks/use-transcript-playback";
 import { useToast } from "@/hooks/use-toast";
 import { downloadDataUriFile, exportPlainTextFile } from "@/lib/export";
 import { generateCallScoreReportPdfBlob } from "@/lib/pdf-utils";
 import type { HistoricalScoreItem } from '@/types';
 import { Product } from "@/types";
 import {
-  metricCategoryDefinitions,
   UNCATEGORIZED_CATEGORY_KEY,
   groupMetricScoresByCategory,
-  computeMetricCategoryAverages,
+  getCategoryAverages,
   formatCategoryAverage,
+  orderMetricCategories,
 } from '@/lib/call-scoring-categories';
+import { formatRubricReference } from '@/lib/scoring-rubrics';
 import {
   ThumbsUp, ThumbsDown, Star, AlertCircle, PlayCircle, Download, FileText,
   ChevronDown, TrendingUp, ShieldAlert, CheckSquare, MessageSquare, Goal,
@@ -61,7 +66,10 @@ const renderStars = (score: number) => {
 const formatReportForTextExport = (results: ScoreCallOutput, fileName?: string, agentName?: string, product?: string): string => {
   let output = `--- Call Scoring Report: ${fileName || 'N/A'} ---\n\n`;
   output += `Overall Score: ${results.overallScore?.toFixed(1) || 'N/A'}/5\n`;
-  output += `Categorization: ${results.callCategorisation || 'N/A'}\n\n`;
+  output += `Categorization: ${results.callCategorisation || 'N/A'}\n`;
+  if (results.rubric) output += `Rubric: ${formatRubricReference(results.rubric)}\n`;
+  if (results.criticalFailures?.length) output += `Critical Failures: ${results.criticalFailures.join(', ')}\n`;
+  output += `\n`;
   output += `Conversion Readiness: ${results.conversionReadiness || 'N/A'}\n`;
   output += `Suggested Disposition: ${results.suggestedDisposition || 'N/A'}\n\n`;
   
@@ -75,13 +83,8 @@ const formatReportForTextExport = (results: ScoreCallOutput, fileName?: string,
   
   output += `--- DETAILED METRICS ---\n`;
   const grouped = groupMetricScoresByCategory(results.metricScores ?? []);
-  const averages = computeMetricCategoryAverages(results.metricScores ?? []);
-  const orderedCategories = [
-    ...metricCategoryDefinitions.map((definition) => definition.key),
-    ...(grouped.has(UNCATEGORIZED_CATEGORY_KEY) ? [UNCATEGORIZED_CATEGORY_KEY] : []),
-  ];
-
-  orderedCategories.forEach((category) => {
+  const averages = getCategoryAverages(results);
+  orderMetricCategories(grouped.keys()).forEach((category) => {
     const metrics = grouped.get(category);
     if (!metrics || metrics.length === 0) return;
     const avgLabel = formatCategoryAverage(averages.get(category));
@@ -89,6 +92,7 @@ const formatReportForTextExport = (results: ScoreCallOutput, fileName?: string,
     metrics.forEach((metric) => {
       output += `  Metric: ${metric.metric}\n`;
       output += `    Score: ${metric.score}/5\n`;
+      if (metric.measuredValue) output += `    Measured: ${metric.measuredValue}\n`;
       output += `    Category Avg: ${avgLabel}\n`;
       output += `    Feedback: ${metric.feedback}\n\n`;
     });
@@ -185,6 +189,9 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
           <div className="text-[11px] text-muted-foreground mt-1 sm:hidden">
             Category Avg: {formatCategoryAverage(categoryAverage)}
           </div>
+          {metric.measuredValue && (
+            <p className="text-xs mt-1.5 pl-1 flex items-center gap-1"><Clock size={12} className="text-primary"/><span className="font-medium">Measured:</span> {metric.measuredValue}</p>
+          )}
           <p className="text-xs text-muted-foreground mt-1.5 pl-1">{metric.feedback}</p>
       </div>
   );
@@ -208,18 +215,25 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
   );
 
   const categoryAverages = useMemo(
-    () => computeMetricCategoryAverages(metricScores),
-    [metricScores]
+    () => getCategoryAverages({ metricScores, categoryScores: results.categoryScores }),
+    [metricScores, results.categoryScores]
+  );
+
+  const orderedCategories = useMemo(() => orderMetricCategories(groupedMetrics.keys()), [groupedMetrics]);
+
+  const transcriptDoc = useMemo(
+    () => normalizeTranscript(results.transcript || "", { source: 'call-scoring', mergeConsecutiveTurns: true }),
+    [results.transcript]
   );
+  const evidenceMarkers = useMemo(() => evidenceToMarkers(results.evidence), [results.evidence]);
+  const playback = useTranscriptPlayback();
+  const [activeTab, setActiveTab] = useState("summary");
 
-  const unmatchedMetrics = groupedMetrics.get(UNCATEGORIZED_CATEGORY_KEY) ?? [];
-  const accordionDefaultValues =
-    metricScores.length > 0
-      ? [
-          ...metricCategoryDefinitions.map((definition) => definition.key),
-          UNCATEGORIZED_CATEGORY_KEY,
-        ]
-      : metricCategoryDefinitions.map((definition) => definition.key);
+  // Evidence timestamps seek the recording and show the quote in the transcript
+  const handleEvidenceSeek = (seconds: number) => {
+    playback.seek(seconds);
+    setActiveTab("transcript");
+  };
 
   if (results.callCategorisation === "Error") {
       return (
@@ -259,9 +273,13 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
               <div className="mb-4">
                   <h3 className="text-md font-semibold text-foreground mb-2 flex items-center"><PlayCircle className="mr-2 h-5 w-5 text-primary"/>Audio Playback</h3>
                   <div className="flex items-center gap-2">
-                     <audio controls src={audioDataUri} className="w-full h-10">
-                        Your browser does not support the audio element.
-                     </audio>
+                     <TranscriptAudioPlayer
+                        src={audioDataUri}
+                        transcript={transcriptDoc}
+                        playback={playback}
+                        markers={evidenceMarkers}
+                        className="flex-1"
+                     />
                       <Button variant="outline" size="icon" title="Download audio file" onClick={() => downloadDataUriFile(audioDataUri, fileName || 'audio_file')}>
                           <Download className="h-4 w-4"/>
                       </Button>
@@ -269,7 +287,7 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
               </div>
           )}
           
-          <Tabs defaultValue="summary" className="w-full">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 h-auto">
                 <TabsTrigger value="summary" className="text-xs md:text-sm">Summary & Coaching</TabsTrigger>
                 <TabsTrigger value="metrics" className="text-xs md:text-sm">Detailed Metrics</TabsTrigger>
@@ -285,11 +303,25 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
                     <div className="p-4 border rounded-lg bg-card"><div className="text-xs text-muted-foreground">Suggested Disposition</div><div className="font-semibold">{results.suggestedDisposition || 'N/A'}</div></div>
                 </div>
                 
+                 {results.rubric && (
+                    <p className="text-xs text-muted-foreground">Scored against: <Badge variant="outline" className="ml-1">{formatRubricReference(results.rubric)}</Badge></p>
+                 )}
+
                  {results.transcriptAccuracy && results.transcriptAccuracy !== 'Provided as Text' && (
                     <Alert><AlertDescription className="text-xs">Transcript Accuracy Assessment: {results.transcriptAccuracy}</AlertDescription></Alert>
                 )}
 
 
+                {results.criticalFailures && results.criticalFailures.length > 0 && (
+                    <Alert variant="destructive">
+                        <ShieldAlert className="h-4 w-4" />
+                        <AlertTitle>Critical Failure</AlertTitle>
+                        <AlertDescription className="text-xs">
+                            Categorised as Poor because these critical metrics failed: {results.criticalFailures.join(', ')}.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
                 {results.redFlags && results.redFlags.length > 0 && (
                     <Card className="border-destructive bg-destructive/15">
                         <CardHeader className="pb-2">
@@ -307,6 +339,7 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
                         </CardContent>
                     </Card>
                 )}
+                {results.conversationAnalytics && <ConversationAnalyticsCard analytics={results.conversationAnalytics} />}
                 <Card>
                     <CardHeader className="pb-2"><CardTitle className="text-md flex items-center gap-2"><ThumbsUp className="text-green-500"/>Key Strengths</CardTitle></CardHeader>
                     <CardContent>
@@ -323,11 +356,41 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
                       </ul>
                     </CardContent>
                 </Card>
+                {results.evidence && results.evidence.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-md flex items-center gap-2"><MessageSquare className="text-primary"/>Evidence</CardTitle>
+                      <CardDescription className="text-xs">Click a timestamp to jump to it in the {audioDataUri ? "recording and " : ""}transcript.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {results.evidence.map((item, i) => {
+                        const seconds = parseEvidenceTimestamp(item.timestamp);
+                        return (
+                          <div key={`evidence-${i}`} className="text-sm border-l-2 pl-3" style={{ borderColor: item.context === 'red-flag' ? 'hsl(var(--destructive))' : undefined }}>
+                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                              {seconds !== undefined ? (
+                                <Button variant="link" size="xs" className="h-auto p-0 tabular-nums" onClick={() => handleEvidenceSeek(seconds)}>
+                                  <PlayCircle className="mr-1 h-3 w-3"/>{item.timestamp}
+                                </Button>
+                              ) : (
+                                <span className="text-muted-foreground">{item.timestamp}</span>
+                              )}
+                              <Badge variant={item.context === 'red-flag' ? 'destructive' : 'outline'} className="text-[10px]">{item.context}</Badge>
+                              <span className="text-muted-foreground">{item.speakerName || (item.speaker === 'AGENT' ? 'Agent' : item.speaker === 'USER' ? 'Customer' : 'System')}</span>
+                            </div>
+                            <p className="italic mt-1">&ldquo;{item.quote}&rdquo;</p>
+                            <p className="text-xs text-muted-foreground mt-0.5">{item.explanation}</p>
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                )}
             </TabsContent>
 
             <TabsContent value="metrics" className="mt-4">
-                 <Accordion type="multiple" defaultValue={accordionDefaultValues} className="w-full space-y-2">
-                    {metricCategoryDefinitions.map(({ key }) => {
+                 <Accordion type="multiple" defaultValue={orderedCategories} className="w-full space-y-2">
+                    {orderedCategories.map((key) => {
                       const Icon = categoryIconMap[key] || Trophy;
                       const relevantMetrics = groupedMetrics.get(key) ?? [];
                       if (relevantMetrics.length === 0) return null;
@@ -354,26 +417,6 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
                         </AccordionItem>
                       );
                     })}
-                    {unmatchedMetrics.length > 0 && (
-                      <AccordionItem value={UNCATEGORIZED_CATEGORY_KEY} key={UNCATEGORIZED_CATEGORY_KEY}>
-                        <AccordionTrigger className="text-md font-semibold hover:no-underline bg-muted/30 px-4 py-3 rounded-md">
-                          <div className="flex flex-wrap items-center gap-2 w-full">
-                            <span className="flex items-center gap-2">
-                              <TrendingUp className="h-5 w-5"/>
-                              {UNCATEGORIZED_CATEGORY_KEY}
-                            </span>
-                            <span className="ml-auto text-xs text-muted-foreground">
-                              Avg: {formatCategoryAverage(categoryAverages.get(UNCATEGORIZED_CATEGORY_KEY))}
-                            </span>
-                          </div>
-                        </AccordionTrigger>
-                        <AccordionContent className="pt-3 px-1">
-                          <Card><CardContent className="p-0 divide-y">
-                            {unmatchedMetrics.map((metric) => renderMetric(metric.metric, metric, categoryAverages.get(UNCATEGORIZED_CATEGORY_KEY)))}
-                          </CardContent></Card>
-                        </AccordionContent>
-                      </AccordionItem>
-                    )}
                 </Accordion>
             </TabsContent>
             
@@ -414,10 +457,8 @@ export function CallScoringResultsCard({ results, fileName, agentName, product,
                 <Card><CardContent className="p-3">
                     <ScrollArea className="h-[400px] w-full">
                         <TranscriptViewer 
-                          transcript={normalizeTranscript(
-                            results.transcript || "", 
-                            { source: 'call-scoring', mergeConsecutiveTurns: true }
-                          )} 
+                          transcript={transcriptDoc}
+                          playback={playback}
                           showTimestamps={true}
                           agentPosition="left"
                         />
@@ -0,0 +1,91 @@
+"use client";
+
+import type { ConversationAnalytics } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { formatTimestamp } from "@/types/transcript";
+import { Timer } from "lucide-react";
+
+interface ConversationAnalyticsCardProps {
+  analytics: ConversationAnalytics;
+}
+
+const formatMoment = (seconds?: number) => (seconds === undefined ? "—" : formatTimestamp(seconds));
+
+export function ConversationAnalyticsCard({ analytics }: ConversationAnalyticsCardProps) {
+  const agentPercent = Math.round(analytics.agentTalkRatio * 100);
+  const stats: Array<{ label: string; value: string; hint?: string }> = [
+    { label: "First Question", value: formatMoment(analytics.firstQuestionS), hint: "by the agent" },
+    { label: "First Offer", value: formatMoment(analytics.firstOfferS) },
+    { label: "First Price Mention", value: formatMoment(analytics.firstPriceMentionS) },
+    {
+      label: "Post-CTA Silence",
+      value: analytics.postCtaSilenceS === undefined ? "—" : `${analytics.postCtaSilenceS}s`,
+    },
+    {
+      label: "Longest Monologue",
+      value: analytics.longestMonologue ? `${analytics.longestMonologue.durationS}s` : "—",
+      hint: analytics.longestMonologue
+        ? `${analytics.longestMonologue.speaker} at ${formatTimestamp(analytics.longestMonologue.startS)}`
+        : undefined,
+    },
+    {
+      label: "Interruptions",
+      value: String(analytics.interruptions.agent + analytics.interruptions.customer),
+      hint: `agent ${analytics.interruptions.agent}, customer ${analytics.interruptions.customer}; ${analytics.overlapS}s overlap`,
+    },
+    {
+      label: "Dead Air",
+      value: `${analytics.deadAir.totalS}s`,
+      hint: `${analytics.deadAir.count} silence${analytics.deadAir.count === 1 ? "" : "s"}, longest ${analytics.deadAir.longestS}s`,
+    },
+    {
+      label: "Questions",
+      value: `${analytics.questions.agent} / ${analytics.questions.customer}`,
+      hint: `agent / customer; ${analytics.agentOpenQuestions} open`,
+    },
+    {
+      label: "Speaking Rate",
+      value: `${analytics.wordsPerMinute.agent} wpm`,
+      hint: `customer ${analytics.wordsPerMinute.customer} wpm`,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-md flex items-center gap-2">
+          <Timer className="text-primary" />
+          Conversation Analytics
+          <Badge variant="outline" className="ml-auto text-xs font-normal">
+            {analytics.timing === "measured" ? "Measured" : "Estimated"}
+          </Badge>
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {analytics.timing === "measured"
+            ? "Computed from the transcript timestamps and given to the AI as facts."
+            : "The transcript had no timestamps, so times are estimated from word counts."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Agent {agentPercent}% ({analytics.talkTimeS.agent}s)</span>
+            <span>Customer {100 - agentPercent}% ({analytics.talkTimeS.customer}s)</span>
+          </div>
+          <Progress value={agentPercent} className="h-2" aria-label="Agent share of talk time" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="p-3 border rounded-lg">
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+              <div className="text-lg font-semibold">{stat.value}</div>
+              {stat.hint && <div className="text-[11px] text-muted-foreground">{stat.hint}</div>}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -52,18 +52,23 @@ export function OptimizedPitchesDialog({ isOpen, onClose, product, optimizedPitc
         return content;
     };
 
-    const handleSaveToKB = (cohort: string, pitch: GeneratePitchOutput) => {
+    const handleSaveToKB = async (cohort: string, pitch: GeneratePitchOutput) => {
         const content = formatPitchForKb(pitch);
         const entryName = `Optimized Pitch: ${pitch.pitchTitle}`;
 
-        addFile({
-            name: entryName,
-            product: product,
-            persona: cohort,
-            category: 'Pitch',
-            textContent: content,
-            isTextEntry: true,
-        });
+        try {
+            await addFile({
+                name: entryName,
+                product: product,
+                persona: cohort,
+                category: 'Pitch',
+                textContent: content,
+                isTextEntry: true,
+            });
+        } catch (error) {
+            toast({ variant: 'destructive', title: 'Could Not Save Pitch', description: (error as Error).message });
+            return;
+        }
 
         setSavedCohorts(prev => [...prev, cohort]);
         toast({
@@ -121,7 +126,7 @@ export function OptimizedPitchesDialog({ isOpen, onClose, product, optimizedPitc
                                                         variant="outline"
                                                         onClick={(e) => {
                                                             e.stopPropagation(); // prevent accordion from toggling
-                                                            handleSaveToKB(cohort, pitch);
+                                                            void handleSaveToKB(cohort, pitch);
                                                         }}
                                                         disabled={savedCohorts.includes(cohort)}
                                                     >
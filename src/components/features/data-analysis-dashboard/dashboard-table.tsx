@@ -91,6 +91,17 @@ export function DataAnalysisDashboardTable({ history, selectedIds, onSelectionCh
       output += `\n`;
     });
     
+    if (report.dataProfile && report.dataProfile.tables.length > 0) {
+      output += "--- Data Profile ---\n";
+      report.dataProfile.tables.forEach((table) => {
+        output += `  ${table.sheet ? `${table.source} [${table.sheet}]` : table.source}: ${table.rowCount} rows, headers on row ${table.headerRow}\n`;
+        table.columns.forEach((column) => {
+          output += `    - ${column.name} (${column.type}${column.role ? `, ${column.role}` : ''}): ${column.filled} filled, ${column.missing} missing\n`;
+        });
+      });
+      output += `\n`;
+    }
+
     output += "--- Detailed Analysis ---\n";
     if (report.detailedAnalysis.timeSeriesTrends) output += `Time-Series Trends:\n${report.detailedAnalysis.timeSeriesTrends}\n\n`;
     if (report.detailedAnalysis.comparativePerformance) output += `Comparative Performance:\n${report.detailedAnalysis.comparativePerformance}\n\n`;
@@ -20,7 +20,6 @@ import React from "react";
 import { FileSearch, Lightbulb } from "lucide-react";
 
 const MAX_FILE_SIZE_FOR_UPLOAD_VALIDATION = 1024 * 1024 * 1024; // 1GB for client-side selection validation
-const MAX_TEXT_CONTENT_SAMPLE_LENGTH = 10000; // Max characters from CSV/TXT to pass as sample
 
 const ALLOWED_UPLOAD_FILE_TYPES = [ 
   "text/csv",
@@ -36,23 +35,23 @@ const ALLOWED_UPLOAD_FILE_TYPES = [
 
 const DataAnalysisFormSchema = z.object({
   analysisFiles: z 
-    .custom<FileList>((val) => val instanceof FileList && val.length > 0, "Please select or 'upload' at least one file to provide context (name and type) for your analysis.")
+    .custom<FileList>((val) => val instanceof FileList && val.length > 0, "Please select at least one file to analyze.")
     .refine((fileList) => {
         for (let i = 0; i < fileList.length; i++) {
             if (fileList[i].size > MAX_FILE_SIZE_FOR_UPLOAD_VALIDATION) return false;
         }
         return true;
-    }, `Max file size for selection is ${MAX_FILE_SIZE_FOR_UPLOAD_VALIDATION / (1024*1024*1024)}GB per file. One or more files exceed this limit. Note: For very large files, especially non-text files, the AI analyzes based on your prompt and file metadata, not the full content.`)
+    }, `Max file size for selection is ${MAX_FILE_SIZE_FOR_UPLOAD_VALIDATION / (1024*1024*1024)}GB per file. One or more files exceed this limit. Note: Files over 100MB are not parsed; the AI analyzes them from your prompt and file metadata only.`)
     .refine((fileList) => {
         for (let i = 0; i < fileList.length; i++) {
             // Allow empty type, or check against list, or allow zip by extension.
             if (fileList[i].type !== "" && !ALLOWED_UPLOAD_FILE_TYPES.includes(fileList[i].type) && !fileList[i].name.toLowerCase().endsWith('.zip')) {
-                console.warn(`Potentially unsupported file type for Data Analysis context: ${fileList[i].name}: ${fileList[i].type}. Analysis will rely heavily on your prompt to describe its content.`);
+                console.warn(`File type not parsed for Data Analysis: ${fileList[i].name}: ${fileList[i].type}. Analysis will rely on your prompt to describe its content.`);
             }
         }
-        return true; // Always return true, as this is a soft warning. User description is key.
+        return true; // Always return true, as this is a soft warning.
     }),
-  userAnalysisPrompt: z.string().min(50, "Please provide a detailed analysis prompt (min 50 characters) describing your files, specific file mappings, and any particular focus areas for this analysis run.").max(10000, "Analysis prompt is too long (max 10,000 characters)."),
+  userAnalysisPrompt: z.string().max(10000, "Analysis prompt is too long (max 10,000 characters)."),
 });
 
 export type DataAnalysisFormValues = z.infer<typeof DataAnalysisFormSchema>;
@@ -81,9 +80,8 @@ export function DataAnalysisForm({ onSubmit, isLoading, selectedFileCount }: Dat
       <CardHeader>
         <CardTitle className="text-xl flex items-center"><Lightbulb className="mr-2 h-6 w-6 text-primary"/> AI Data Analyst</CardTitle>
         <UiCardDescription className="text-sm">
-            Describe your data files (Excel, CSV, text reports, etc.) and your specific analysis goals in the prompt below. 
-            "Upload" files to provide their names and types as context for the AI.
-            <br />- Your comprehensive description of the data structure, content, and analysis goals is crucial for the AI to generate insightful reports.
+            Upload your call data (CSV, Excel or a ZIP of CSVs). The files are parsed, each column is profiled and the key metrics are computed from the rows.
+            <br />- Add your analysis goals below to steer the narrative, and describe any files that are not spreadsheets (PDF, DOCX).
         </UiCardDescription>
       </CardHeader>
       <CardContent>
@@ -94,11 +92,11 @@ export function DataAnalysisForm({ onSubmit, isLoading, selectedFileCount }: Dat
               name="analysisFiles"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>"Upload" Context Files (Names & Types)</FormLabel>
+                  <FormLabel>Data Files</FormLabel>
                   <FormControl>
                     <Input 
                       type="file" 
-                      accept="*" // Allow any file type for selection, AI relies on description
+                      accept="*" // Any file can be selected; non-spreadsheets are passed by name and type
                       ref={analysisFileInputRef}
                       multiple 
                       onChange={(e) => field.onChange(e.target.files)} 
@@ -106,7 +104,7 @@ export function DataAnalysisForm({ onSubmit, isLoading, selectedFileCount }: Dat
                     />
                   </FormControl>
                   <FormDescription>
-                    Select one or more files (e.g., Excel, CSV, TXT, PDF, DOCX, ZIP).
+                    CSV, XLSX/XLS and ZIP archives of them are parsed (up to 100MB each). Other files (PDF, DOCX, TXT) are passed to the AI by name and type only.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -117,23 +115,23 @@ export function DataAnalysisForm({ onSubmit, isLoading, selectedFileCount }: Dat
               name="userAnalysisPrompt"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Your Specific Analysis Prompt & Data Description</FormLabel>
+                  <FormLabel>Analysis Goals & Notes (Optional)</FormLabel>
                   <FormControl>
                     <Textarea 
-                        placeholder="CRITICAL: Describe your files, their likely structure, any specific file mappings (e.g., 'File sales_oct.xlsx is the Monthly Revenue Tracker for Oct.'), and your analysis goals for THIS run (e.g., 'Focus the trend analysis on Q1 (Jan-Mar).' or 'Pay special attention to Agent X's performance in April as per APR Report intervention.'). This information is essential for the AI." 
+                        placeholder="What should this run focus on? (e.g., 'Focus the trend analysis on Q1 (Jan-Mar).' or 'Pay special attention to Agent X's performance in April.'). Add decoding rules for unusual disposition codes (e.g., 'ALREAD = already subscribed'), and describe any PDF/DOCX files, which are not parsed." 
                         rows={8} 
                         {...field} 
                     />
                   </FormControl>
                    <FormDescription>
-                    This is your primary input to guide the AI. Be very detailed about your data and what you want analyzed! (Min 50 chars)
+                    Metrics are computed from your spreadsheets; this only guides the narrative. If none of your files is a spreadsheet, describe your data in detail here (min 50 chars).
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? `Analyzing Data...` : `Generate Analysis Report${selectedFileCount > 0 ? ' ('+selectedFileCount+' files context)' : ''}`}
+              {isLoading ? `Analyzing Data...` : `Generate Analysis Report${selectedFileCount > 0 ? ' ('+selectedFileCount+' files)' : ''}`}
             </Button>
           </form>
         </Form>
@@ -1,13 +1,14 @@
 
 "use client";
 
-import type { DataAnalysisReportOutput, DataAnalysisInput } from "@/types";
+import type { ColumnProfile, DataAnalysisReportOutput, DataAnalysisInput, DataProfile } from "@/types";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Lightbulb, ListChecks, Info, FileText, BarChartHorizontalBig, DatabaseZap, MessageCircleWarning, TrendingUp, Target, CheckSquare, AlertTriangle, Brain, MessageSquareQuote, Forward, BookOpen, Settings, Sigma, LineChart, ListTree, SearchCheck, Goal, TestTube2, HandCoins, Users, CalendarDays, Activity, DraftingCompass, TableIcon } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 
 interface DataAnalysisResultsCardProps {
@@ -33,6 +34,9 @@ export function DataAnalysisResultsCard({ reportOutput, userAnalysisPrompt, file
   if (reportOutput.directInsightsFromSampleText) {
     defaultOpenAccordions.push('item-direct-insights');
   }
+  if (reportOutput.dataProfile && reportOutput.dataProfile.tables.length > 0) {
+    defaultOpenAccordions.push('item-data-profile');
+  }
   if (reportOutput.chartsOrTablesSuggestions && reportOutput.chartsOrTablesSuggestions.length > 0) {
     defaultOpenAccordions.push('item-charts-tables');
   }
@@ -45,7 +49,9 @@ export function DataAnalysisResultsCard({ reportOutput, userAnalysisPrompt, file
           <Brain className="mr-3 h-6 w-6" /> {reportOutput.reportTitle || "Data Analysis Report"}
         </CardTitle>
         <CardDescription className="text-xs">
-          AI-Generated analysis based on your prompt and file context. Scroll to view all sections.
+          {reportOutput.dataProfile?.tables.length
+            ? "Metrics computed from your parsed files; narrative AI-generated from those figures. Scroll to view all sections."
+            : "AI-Generated analysis based on your prompt and file context. Scroll to view all sections."}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -115,6 +121,17 @@ export function DataAnalysisResultsCard({ reportOutput, userAnalysisPrompt, file
             </AccordionContent>
           </AccordionItem>
 
+          {reportOutput.dataProfile && reportOutput.dataProfile.files.length > 0 && (
+            <AccordionItem value="item-data-profile">
+              <AccordionTrigger className="text-md font-semibold hover:no-underline py-2 text-foreground/90 [&_svg]:mr-2">
+                  <div className="flex items-center"><DatabaseZap className="mr-2 h-5 w-5 text-accent"/>Data Profile</div>
+              </AccordionTrigger>
+              <AccordionContent className="pt-1 text-sm bg-muted/20 p-3 rounded-b-md space-y-4">
+                  <DataProfileSection profile={reportOutput.dataProfile} />
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
           <AccordionItem value="item-detailed-analysis">
             <AccordionTrigger className="text-md font-semibold hover:no-underline py-2 text-foreground/90 [&_svg]:mr-2">
                 <div className="flex items-center"><DraftingCompass className="mr-2 h-5 w-5 text-accent"/>Detailed Analysis Findings</div>
@@ -192,4 +209,63 @@ export function DataAnalysisResultsCard({ reportOutput, userAnalysisPrompt, file
   );
 }
 
-    
+const formatProfileStat = (column: ColumnProfile): string => {
+  if (column.earliest) return `${column.earliest} to ${column.latest}`;
+  if (column.mean !== undefined) {
+    return column.type === 'duration'
+      ? `avg ${Math.round(column.mean)}s, range ${column.min}-${column.max}s`
+      : `avg ${column.mean}, range ${column.min} to ${column.max}, sum ${column.sum}`;
+  }
+  return (column.topValues ?? []).map((entry) => `${entry.value} (${entry.count})`).join(', ');
+};
+
+function DataProfileSection({ profile }: { profile: DataProfile }) {
+  const unparsedFiles = profile.files.filter((file) => file.status !== 'parsed');
+  return (
+    <>
+      {unparsedFiles.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          {unparsedFiles.map((file) => (
+            <p key={file.fileName}><AlertTriangle className="inline mr-1 h-3 w-3 text-amber-600"/>{file.fileName}: {file.message}</p>
+          ))}
+        </div>
+      )}
+      {profile.tables.map((table) => (
+        <div key={`${table.source}-${table.sheet ?? ''}`}>
+          <h4 className="font-medium text-sm text-foreground/90 mb-1">
+            {table.sheet ? `${table.source} [${table.sheet}]` : table.source}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {table.rowCount.toLocaleString()} rows, headers on row {table.headerRow}{table.skippedRows > 0 ? `, ${table.skippedRows} rows skipped` : ''}
+            </span>
+          </h4>
+          <div className="rounded-md border bg-background/50 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8 text-xs">Column</TableHead>
+                  <TableHead className="h-8 text-xs">Type</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Filled</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Missing</TableHead>
+                  <TableHead className="h-8 text-xs">Values</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.columns.map((column) => (
+                  <TableRow key={column.name}>
+                    <TableCell className="py-1 text-xs font-medium">{column.name}</TableCell>
+                    <TableCell className="py-1 text-xs">
+                      {column.type}{column.role && <Badge variant="secondary" className="ml-1 text-[10px] px-1 py-0">{column.role}</Badge>}
+                    </TableCell>
+                    <TableCell className="py-1 text-xs text-right">{column.filled}</TableCell>
+                    <TableCell className="py-1 text-xs text-right">{column.missing}</TableCell>
+                    <TableCell className="py-1 text-xs text-muted-foreground max-w-[280px] truncate" title={formatProfileStat(column)}>{formatProfileStat(column)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -143,7 +143,7 @@ export function KnowledgeBaseForm({ onSingleEntrySubmit, onMultipleFilesSubmit }
 
       toast({
         title: `${filesToUpload.length} File(s) Submitted`,
-        description: `Metadata for ${filesToUpload.map(f => f.file.name).join(', ')} has been saved.`,
+        description: `${filesToUpload.map(f => f.file.name).join(', ')} added. Text from PDF, Word, PowerPoint, Excel and text files is extracted for the AI.`,
       });
 
     } else if (data.entryType === "text" && data.textContent && data.textEntryName) {
@@ -293,7 +293,7 @@ export function KnowledgeBaseForm({ onSingleEntrySubmit, onMultipleFilesSubmit }
                       />
                     </FormControl>
                     <FormDescription>
-                      The application will store file metadata (name, type, size) to use as context. File content is not stored in your browser to avoid storage quota errors.
+                      Text is extracted from PDF, DOCX, PPTX, XLSX, CSV and plain-text files and used as context. Other files are stored by name, type and size only; original file content is not kept in your browser to avoid storage quota errors.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -340,7 +340,7 @@ export function KnowledgeBaseForm({ onSingleEntrySubmit, onMultipleFilesSubmit }
             )}
             
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Adding..." : entryType === "file" ? "Add File Metadata to KB" : "Add Text Entry"}
+              {isLoading ? "Adding..." : entryType === "file" ? "Add File(s) to KB" : "Add Text Entry"}
             </Button>
           </form>
         </Form>
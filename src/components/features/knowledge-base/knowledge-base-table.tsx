@@ -202,9 +202,10 @@ export function KnowledgeBaseTable({ files, onDeleteFile }: KnowledgeBaseTablePr
                   sortedFiles.map((file) => (
                     <TableRow key={file.id}>
                       <TableCell>{getFileIcon(file)}</TableCell>
-                      <TableCell className="font-medium max-w-[300px] truncate" title={file.isTextEntry && file.textContent ? file.textContent : file.name}>
+                      <TableCell className="font-medium max-w-[300px] truncate" title={file.textContent ? file.textContent.substring(0, 500) : file.name}>
                         {file.isTextEntry ? `(Text) ${file.name}` : file.name}
-                        {file.isTextEntry && file.textContent && <p className="text-xs text-muted-foreground truncate italic">"{file.textContent.substring(0,50)}..."</p>}
+                        {file.textContent && <p className="text-xs text-muted-foreground truncate italic">"{file.textContent.substring(0,50)}..."</p>}
+                        <ExtractionStatus file={file} />
                       </TableCell>
                       <TableCell>
                         {file.product ? <Badge variant="secondary">{file.product}</Badge> : <span className="text-muted-foreground text-xs">N/A</span>}
@@ -296,6 +297,31 @@ export function KnowledgeBaseTable({ files, onDeleteFile }: KnowledgeBaseTablePr
 }
 
 
+function ExtractionStatus({ file }: { file: KnowledgeFile }) {
+    const { extraction } = file;
+    if (file.isTextEntry || !extraction) return null;
+    if (extraction.status === 'failed') {
+        return (
+            <TooltipProvider>
+                <Tooltip>
+                    <TooltipTrigger asChild>
+                        <Badge variant="destructive" className="mt-1 cursor-help">Extraction failed</Badge>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs"><p>{extraction.error || "Text could not be extracted from this file."}</p></TooltipContent>
+                </Tooltip>
+            </TooltipProvider>
+        );
+    }
+    return (
+        <div className="mt-1 flex items-center gap-1">
+            <Badge variant="outline" className="font-normal">
+                Text extracted{extraction.sectionCount ? ` (${extraction.sectionCount} section${extraction.sectionCount === 1 ? '' : 's'})` : ''}
+            </Badge>
+            {extraction.truncated && <Badge variant="outline" className="font-normal text-amber-700 border-amber-300">Truncated</Badge>}
+        </div>
+    );
+}
+
 function FilePreviewer({ file }: { file: KnowledgeFile | null }) {
     const previewContainerRef = useRef<HTMLDivElement>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -303,6 +329,15 @@ function FilePreviewer({ file }: { file: KnowledgeFile | null }) {
 
     useEffect(() => {
         const renderPreview = async () => {
+            if (file && !file.dataUri && file.textContent && previewContainerRef.current) {
+                // Uploads keep only their extracted text, so show that instead of the original.
+                setError(null);
+                const pre = document.createElement('pre');
+                pre.className = "whitespace-pre-wrap break-words text-sm";
+                pre.textContent = file.textContent;
+                previewContainerRef.current.replaceChildren(pre);
+                return;
+            }
             if (!file || !file.dataUri) {
                 const message = file?.isTextEntry 
                   ? "Text content is available for this entry." 
@@ -0,0 +1,158 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { CRITICAL_FAIL_MAX_SCORE } from "@/lib/scoring-rubrics";
+import type { RubricCategory, RubricMetric } from "@/types";
+
+interface RubricEditorProps {
+  categories: RubricCategory[];
+  onChange: (categories: RubricCategory[]) => void;
+  readOnly?: boolean;
+}
+
+const NEW_METRIC: RubricMetric = { name: '', guidance: '', weight: 1 };
+
+const parseWeight = (value: string) => {
+  const weight = Number(value);
+  return Number.isFinite(weight) ? Math.min(10, Math.max(0, weight)) : 1;
+};
+
+export function RubricEditor({ categories, onChange, readOnly = false }: RubricEditorProps) {
+  const updateCategory = (index: number, changes: Partial<RubricCategory>) =>
+    onChange(categories.map((category, i) => (i === index ? { ...category, ...changes } : category)));
+
+  const updateMetric = (categoryIndex: number, metricIndex: number, changes: Partial<RubricMetric>) =>
+    updateCategory(categoryIndex, {
+      metrics: categories[categoryIndex].metrics.map((metric, i) => (i === metricIndex ? { ...metric, ...changes } : metric)),
+    });
+
+  const removeMetric = (categoryIndex: number, metricIndex: number) =>
+    updateCategory(categoryIndex, {
+      metrics: categories[categoryIndex].metrics.filter((_, i) => i !== metricIndex),
+    });
+
+  return (
+    <div className="space-y-4">
+      {categories.map((category, categoryIndex) => (
+        <Card key={categoryIndex}>
+          <CardHeader className="pb-3">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[220px] space-y-1">
+                <Label htmlFor={`category-${categoryIndex}-name`}>Category</Label>
+                <Input
+                  id={`category-${categoryIndex}-name`}
+                  value={category.name}
+                  disabled={readOnly}
+                  onChange={(event) => updateCategory(categoryIndex, { name: event.target.value })}
+                />
+              </div>
+              <div className="w-28 space-y-1">
+                <Label htmlFor={`category-${categoryIndex}-weight`}>Weight</Label>
+                <Input
+                  id={`category-${categoryIndex}-weight`}
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={category.weight}
+                  disabled={readOnly}
+                  onChange={(event) => updateCategory(categoryIndex, { weight: parseWeight(event.target.value) })}
+                />
+              </div>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove category"
+                  onClick={() => onChange(categories.filter((_, i) => i !== categoryIndex))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {category.metrics.map((metric, metricIndex) => (
+              <div key={metricIndex} className="grid gap-2 rounded-md border p-3 md:grid-cols-[1fr_2fr_auto]">
+                <Input
+                  aria-label="Metric name"
+                  placeholder="Metric name"
+                  value={metric.name}
+                  disabled={readOnly}
+                  onChange={(event) => updateMetric(categoryIndex, metricIndex, { name: event.target.value })}
+                />
+                <Textarea
+                  aria-label="Scoring guidance"
+                  placeholder="What should the scorer look for?"
+                  rows={2}
+                  value={metric.guidance}
+                  disabled={readOnly}
+                  onChange={(event) => updateMetric(categoryIndex, metricIndex, { guidance: event.target.value })}
+                />
+                <div className="flex items-center gap-3">
+                  <Input
+                    aria-label="Metric weight"
+                    className="w-20"
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.5}
+                    value={metric.weight}
+                    disabled={readOnly}
+                    onChange={(event) => updateMetric(categoryIndex, metricIndex, { weight: parseWeight(event.target.value) })}
+                  />
+                  <div className="flex items-center gap-1.5" title="Only scored when the call audio is available">
+                    <Switch
+                      id={`metric-${categoryIndex}-${metricIndex}-audio`}
+                      checked={!!metric.requiresAudio}
+                      disabled={readOnly}
+                      onCheckedChange={(checked) => updateMetric(categoryIndex, metricIndex, { requiresAudio: checked || undefined })}
+                    />
+                    <Label htmlFor={`metric-${categoryIndex}-${metricIndex}-audio`} className="text-xs">Audio</Label>
+                  </div>
+                  <div className="flex items-center gap-1.5" title={`Scoring this metric ${CRITICAL_FAIL_MAX_SCORE} or lower makes the whole call Poor`}>
+                    <Switch
+                      id={`metric-${categoryIndex}-${metricIndex}-critical`}
+                      checked={!!metric.critical}
+                      disabled={readOnly}
+                      onCheckedChange={(checked) => updateMetric(categoryIndex, metricIndex, { critical: checked || undefined })}
+                    />
+                    <Label htmlFor={`metric-${categoryIndex}-${metricIndex}-critical`} className="text-xs">Critical</Label>
+                  </div>
+                  {!readOnly && (
+                    <Button variant="ghost" size="icon" title="Remove metric" onClick={() => removeMetric(categoryIndex, metricIndex)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateCategory(categoryIndex, { metrics: [...category.metrics, { ...NEW_METRIC }] })}
+              >
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Metric
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+      {!readOnly && (
+        <Button
+          variant="secondary"
+          onClick={() => onChange([...categories, { name: 'New Category', weight: 1, metrics: [{ ...NEW_METRIC }] }])}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Category
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -19,11 +19,12 @@ import { format, parseISO } from 'date-fns';
 import type { ActivityLogEntry, HistoricalMaterialItem, TrainingMaterialActivityDetails, GenerateTrainingDeckInput, GenerateTrainingDeckOutput, TrainingDeckFlowKnowledgeBaseItem } from '@/types'; 
 import { useToast } from '@/hooks/use-toast';
 import { exportTextContentToPdf } from '@/lib/pdf-utils';
-import { exportPlainTextFile, exportToCsv, exportTableDataToPdf, exportTableDataForDoc } from '@/lib/export';
+import { downloadBlobFile, exportToCsv, exportTableDataToPdf, exportTableDataForDoc } from '@/lib/export';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { useProductContext } from '@/hooks/useProductContext';
+import { createTrainingMaterialOfficeFile } from '@/lib/office-export';
 
 
 interface TrainingMaterialDashboardTableProps {
@@ -40,7 +41,7 @@ export function TrainingMaterialDashboardTable({ history }: TrainingMaterialDash
   const { toast } = useToast();
   const [sortKey, setSortKey] = useState<SortKey>('timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const { selectedProduct } = useProductContext();
+  const { selectedProduct, getProductByName } = useProductContext();
 
   const handleViewDetails = (item: HistoricalMaterialItem) => {
     setSelectedItem(item);
@@ -76,7 +77,7 @@ export function TrainingMaterialDashboardTable({ history }: TrainingMaterialDash
     return output;
   };
 
-  const handleDownloadMaterial = (item: HistoricalMaterialItem, formatType: "pdf" | "doc") => {
+  const handleDownloadMaterial = async (item: HistoricalMaterialItem, formatType: "pdf" | "office") => {
     if (!item.details.materialOutput || item.details.error) {
       toast({ variant: "destructive", title: "Download Error", description: "Material content is not available due to a generation error." });
       return;
@@ -86,7 +87,7 @@ export function TrainingMaterialDashboardTable({ history }: TrainingMaterialDash
     const inputData = item.details.inputData;
     // Use the original generated format hint for consistent naming, even if downloading as a different type (e.g. PDF of a PPT outline)
     const originalFormatHint = inputData.deckFormatHint; 
-    const materialTypeName = originalFormatHint === "Brochure" ? "Brochure" : (originalFormatHint === "PDF" ? "Document" : "Outline");
+    const materialTypeName = originalFormatHint === "Brochure" ? "Brochure" : (originalFormatHint === "PPT" ? "Deck" : "Document");
     
     const filenameBase = `Training_${materialTypeName}_${inputData.product.replace(/\s+/g, '_')}_${format(parseISO(item.timestamp), 'yyyyMMddHHmmss')}`;
     const textContent = formatMaterialForTextExport(material, inputData);
@@ -95,10 +96,22 @@ export function TrainingMaterialDashboardTable({ history }: TrainingMaterialDash
       const pdfFilename = `${filenameBase}.pdf`;
       exportTextContentToPdf(textContent, pdfFilename);
       toast({ title: `${originalFormatHint} Content Exported as PDF`, description: `${pdfFilename} has been downloaded.` });
-    } else if (formatType === "doc") {
-      const docFilename = `${filenameBase}.doc`;
-      exportPlainTextFile(docFilename, textContent);
-      toast({ title: `${originalFormatHint} Content Exported as Text for Word (.doc)`, description: `${docFilename} has been downloaded.` });
+    } else if (formatType === "office") {
+      // PPT decks download as .pptx, brochures as a tri-fold .docx and documents as .docx.
+      const officeFormat = originalFormatHint === "PDF" ? "Word Doc" : originalFormatHint;
+      try {
+        const { blob, extension } = await createTrainingMaterialOfficeFile(material, {
+          format: officeFormat,
+          productName: inputData.product,
+          brandName: getProductByName(inputData.product)?.brandName,
+        });
+        const officeFilename = `${filenameBase}.${extension}`;
+        downloadBlobFile(blob, officeFilename);
+        toast({ title: `${originalFormatHint} Content Exported as .${extension}`, description: `${officeFilename} has been downloaded.` });
+      } catch (error) {
+        console.error("Failed to build Office file:", error);
+        toast({ variant: "destructive", title: "Download Error", description: "Could not create the Office file." });
+      }
     }
   };
 
@@ -212,10 +225,10 @@ export function TrainingMaterialDashboardTable({ history }: TrainingMaterialDash
                        <Button variant="ghost" size="icon" onClick={() => handleCopyToClipboard(item)} disabled={!!item.details.error || !item.details.materialOutput} title={item.details.error ? "Cannot copy, error in generation" : "Copy Material Content"} className="h-8 w-8">
                         <Copy className="h-4 w-4" />
                       </Button>
-                       <Button variant="ghost" size="icon" onClick={() => handleDownloadMaterial(item, "pdf")} disabled={!!item.details.error || !item.details.materialOutput} title={item.details.error ? "Cannot download, error in generation" : "Download Content as PDF"} className="h-8 w-8">
+                       <Button variant="ghost" size="icon" onClick={() => void handleDownloadMaterial(item, "pdf")} disabled={!!item.details.error || !item.details.materialOutput} title={item.details.error ? "Cannot download, error in generation" : "Download Content as PDF"} className="h-8 w-8">
                         <FileText className="h-4 w-4" />
                       </Button>
-                      <Button variant="ghost" size="icon" onClick={() => handleDownloadMaterial(item, "doc")} disabled={!!item.details.error || !item.details.materialOutput} title={item.details.error ? "Cannot download, error in generation" : "Download Content as Text for Word (.doc)"} className="h-8 w-8">
+                      <Button variant="ghost" size="icon" onClick={() => void handleDownloadMaterial(item, "office")} disabled={!!item.details.error || !item.details.materialOutput} title={item.details.error ? "Cannot download, error in generation" : item.details.inputData.deckFormatHint === "PPT" ? "Download as PowerPoint (.pptx)" : "Download as Word (.docx)"} className="h-8 w-8">
                         <Download className="h-4 w-4" />
                       </Button>
                       <Button variant="outline" size="sm" onClick={() => handleViewDetails(item)} title={"View Generated Material & Inputs"}>
@@ -9,7 +9,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { MessageSquarePlus, ThumbsUp, ThumbsDown, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import type { ActivityLogEntry, TranscriptFeedback } from '@/types';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import type { TranscriptFeedback } from '@/types';
 
 interface TranscriptFeedbackProps {
   transcriptId: string;
@@ -27,6 +28,7 @@ export function TranscriptFeedbackComponent({
   compact = false,
 }: TranscriptFeedbackProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const { saveActivityFeedback } = useActivityLogger();
   const [rating, setRating] = useState<'excellent' | 'good' | 'fair' | 'poor'>(
     existingFeedback?.rating || 'good'
   );
@@ -53,13 +55,7 @@ export function TranscriptFeedbackComponent({
 
     try {
       // Save feedback to activity log
-      const activities: ActivityLogEntry[] = JSON.parse(localStorage.getItem('activities') || '[]');
-      const activityIndex = activities.findIndex(activity => activity.id === activityId);
-      
-      if (activityIndex !== -1) {
-        activities[activityIndex].userFeedback = feedback;
-        localStorage.setItem('activities', JSON.stringify(activities));
-      }
+      saveActivityFeedback(activityId, feedback);
 
       // Call optional callback
       if (onFeedbackSubmit) {
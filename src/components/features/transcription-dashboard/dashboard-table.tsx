@@ -14,7 +14,10 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranscriptCorrections } from '@/hooks/use-transcript-corrections';
 import { exportPlainTextFile, downloadDataUriFile } from '@/lib/export';
 import { exportTextContentToPdf } from '@/lib/pdf-utils';
 import { Badge } from "@/components/ui/badge";
@@ -32,9 +35,11 @@ import {
 import { useActivityLogger } from '@/hooks/use-activity-logger';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { TranscriptViewer } from '@/components/transcript/TranscriptViewer';
+import { TranscriptCorrectionEditor } from '@/components/transcript/TranscriptCorrectionEditor';
 import { normalizeTranscript } from '@/lib/transcript/normalize';
 import { TranscriptFeedbackComponent, TranscriptFeedbackBadge } from '../transcript-feedback';
 import { formatTranscriptSegments } from '@/lib/transcript-utils';
+import { RescoreCorrectedTranscript } from './rescore-corrected-transcript';
 
 interface TranscriptionDashboardTableProps {
   history: HistoricalTranscriptionItem[];
@@ -52,6 +57,8 @@ export function TranscriptionDashboardTable({ history, selectedIds, onSelectionC
   const { toast } = useToast();
   const [sortKey, setSortKey] = useState<SortKey>('timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const { hasPermission } = useAuth();
+  const corrections = useTranscriptCorrections(isDialogOpen && selectedItem ? selectedItem.id : null);
 
   const isAllSelected = history.length > 0 && selectedIds.length === history.length;
 
@@ -309,9 +316,14 @@ export function TranscriptionDashboardTable({ history, selectedIds, onSelectionC
                 <div className="mb-4">
                   <h3 className="text-sm font-semibold flex items-center gap-2 text-foreground"><FileText className="h-4 w-4 text-primary"/>Original Audio</h3>
                   <div className="flex items-center gap-2 mt-2">
-                    <audio controls src={selectedItem.details.audioDataUri} className="h-9 w-full">
-                      Your browser does not support the audio element.
-                    </audio>
+                    {/* With a transcript, the recording plays in the transcript viewer below */}
+                    {selectedItem.details.error || !selectedItem.details.transcriptionOutput?.segments ? (
+                      <audio controls src={selectedItem.details.audioDataUri} className="h-9 w-full">
+                        Your browser does not support the audio element.
+                      </audio>
+                    ) : (
+                      <p className="text-xs text-muted-foreground flex-1">Play the recording from the transcript below; click a turn to jump to it.</p>
+                    )}
                     <Button
                       variant="outline"
                       size="icon"
@@ -329,14 +341,44 @@ export function TranscriptionDashboardTable({ history, selectedIds, onSelectionC
                         <p className="text-destructive text-center p-4">Error during transcription: {selectedItem.details.error}</p>
                     </div>
                   ) : selectedItem.details.transcriptionOutput?.segments ? (
-                    <TranscriptViewer 
-                      transcript={normalizeTranscript(
-                        { segments: selectedItem.details.transcriptionOutput.segments }, 
-                        { source: 'transcription-dashboard', mergeConsecutiveTurns: true }
-                      )} 
-                      showTimestamps={true}
-                      agentPosition="left"
-                    />
+                    <Tabs defaultValue="transcript" className="w-full">
+                      <TabsList>
+                        <TabsTrigger value="transcript">Transcript</TabsTrigger>
+                        <TabsTrigger value="corrections">
+                          Corrections
+                          {!!corrections.latest?.version && <Badge variant="secondary" className="ml-1.5">v{corrections.latest.version}</Badge>}
+                        </TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="transcript" className="mt-3">
+                        {/* Reviewer corrections replace the machine transcript once saved */}
+                        <TranscriptViewer 
+                          transcript={corrections.latest?.version
+                            ? corrections.latest.transcript
+                            : normalizeTranscript(
+                                { segments: selectedItem.details.transcriptionOutput.segments }, 
+                                { source: 'transcription-dashboard', mergeConsecutiveTurns: true }
+                              )} 
+                          showTimestamps={true}
+                          agentPosition="left"
+                          audioSrc={selectedItem.details.audioDataUri}
+                        />
+                      </TabsContent>
+                      <TabsContent value="corrections" className="mt-3 space-y-4">
+                        <TranscriptCorrectionEditor
+                          corrections={corrections}
+                          canEdit={hasPermission('activity:write')}
+                          audioSrc={selectedItem.details.audioDataUri}
+                        />
+                        {corrections.latest && hasPermission('ai:use') && (
+                          <RescoreCorrectedTranscript
+                            activityId={selectedItem.id}
+                            fileName={selectedItem.details.fileName}
+                            version={corrections.latest}
+                            defaultAgentName={selectedItem.agentName}
+                          />
+                        )}
+                      </TabsContent>
+                    </Tabs>
                   ) : (
                     <div className="h-full flex items-center justify-center">
                       <p className="text-muted-foreground text-center">Transcript data is not available for this entry.</p>
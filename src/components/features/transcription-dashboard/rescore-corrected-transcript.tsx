@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from '@/components/ui/input';
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Star } from 'lucide-react';
+import { LoadingSpinner } from '@/components/common/loading-spinner';
+import { useToast } from '@/hooks/use-toast';
+import { useActivityLogger } from '@/hooks/use-activity-logger';
+import { useProductContext } from '@/hooks/useProductContext';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { buildProductKnowledgeBaseContext } from '@/lib/knowledge-base-context';
+import { transcriptToDiarizedText } from '@/lib/transcript/normalize';
+import type { TranscriptVersion } from '@/lib/transcript-corrections-store';
+import type { ScoreCallInput, ScoreCallOutput } from '@/types';
+
+interface RescoreCorrectedTranscriptProps {
+  activityId: string;
+  fileName: string;
+  /** The latest version of the transcript, which is what gets scored */
+  version: TranscriptVersion;
+  defaultAgentName?: string;
+}
+
+/**
+ * Scores a call from its latest corrected transcript instead of re-transcribing
+ * the recording, and logs the result as a Call Scoring activity that records
+ * which version was used.
+ */
+export function RescoreCorrectedTranscript({ activityId, fileName, version, defaultAgentName }: RescoreCorrectedTranscriptProps) {
+  const [product, setProduct] = useState<string | undefined>(undefined);
+  const [agentName, setAgentName] = useState(defaultAgentName ?? '');
+  const [isScoring, setIsScoring] = useState(false);
+  const [result, setResult] = useState<{ version: number; output: ScoreCallOutput } | null>(null);
+
+  const { logActivity } = useActivityLogger();
+  const { availableProducts, getProductByName } = useProductContext();
+  const { files: knowledgeBaseFiles } = useKnowledgeBase();
+  const { toast } = useToast();
+
+  const handleRescore = async () => {
+    if (!product) return;
+    setIsScoring(true);
+    try {
+      const productObject = getProductByName(product);
+      if (!productObject) {
+        throw new Error("Could not find product details for scoring context.");
+      }
+      const scoreInput: ScoreCallInput = {
+        product,
+        agentName: agentName || undefined,
+        transcriptOverride: transcriptToDiarizedText(version.transcript),
+        productContext: buildProductKnowledgeBaseContext(knowledgeBaseFiles ?? [], productObject),
+      };
+
+      const response = await fetch('/api/call-scoring', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scoreInput),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const output = (await response.json()) as ScoreCallOutput;
+      setResult({ version: version.version, output });
+
+      logActivity({
+        module: "Call Scoring",
+        product,
+        details: {
+          fileName,
+          scoreOutput: output,
+          agentNameFromForm: agentName || "N/A (from transcription)",
+          error: output.callCategorisation === "Error" ? output.summary : undefined,
+          transcriptCorrection: { activityId, version: version.version },
+        },
+      });
+
+      toast({
+        title: "Scoring Complete",
+        description: version.version === 0
+          ? `Scored the machine transcript against ${product} product context.`
+          : `Scored corrected version ${version.version} against ${product} product context.`,
+      });
+    } catch (e) {
+      const error = e as Error;
+      toast({ variant: "destructive", title: "Scoring Failed", description: error.message });
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/30">
+      <h4 className="font-semibold text-md mb-1">Re-score from this Transcript</h4>
+      <p className="text-xs text-muted-foreground mb-2">
+        Scores the latest version ({version.version === 0 ? 'machine transcript' : `version ${version.version}`}); the result is saved to the activity log.
+      </p>
+      <div className="flex items-center gap-2 flex-wrap">
+        <Input
+          placeholder="Agent Name (Optional)"
+          value={agentName}
+          onChange={(e) => setAgentName(e.target.value)}
+          className="w-[180px] h-9"
+        />
+        <Select onValueChange={setProduct} value={product}>
+          <SelectTrigger className="w-[220px] h-9">
+            <SelectValue placeholder="Select Product for Scoring" />
+          </SelectTrigger>
+          <SelectContent>
+            {availableProducts.map(p => <SelectItem key={p.name} value={p.name}>{p.displayName}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => void handleRescore()} disabled={isScoring || !product}>
+          {isScoring ? <LoadingSpinner size={16} className="mr-2"/> : <Star className="mr-2 h-4 w-4"/>}
+          {isScoring ? "Scoring..." : "Re-score"}
+        </Button>
+      </div>
+      {result && (
+        <div className="flex items-center gap-2 mt-3 text-sm">
+          <span className="text-muted-foreground">Version {result.version}:</span>
+          <Badge variant="outline">{result.output.overallScore.toFixed(1)} / 5</Badge>
+          <Badge variant="secondary">{result.output.callCategorisation}</Badge>
+        </div>
+      )}
+    </div>
+  );
+}
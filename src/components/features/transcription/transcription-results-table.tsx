@@ -82,7 +82,7 @@ const prepareProductContext = (
       combinedContext += "\n--- Associated Knowledge Base Entries ---\n";
       productSpecificKb.forEach(file => {
           combinedContext += `\nItem: ${file.name}\nType: ${file.isTextEntry ? 'Text Entry' : file.type}\n`;
-          if (file.isTextEntry && file.textContent) {
+          if (file.textContent) {
               combinedContext += `Content: ${file.textContent.substring(0, 2000)}...\n`;
           }
       });
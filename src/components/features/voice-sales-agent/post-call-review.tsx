@@ -37,7 +37,7 @@ const _prepareKnowledgeBaseContext = (
     const productSpecificFiles = knowledgeBaseFiles.filter(f => f.product === productObject.name);
 
     for (const file of productSpecificFiles) {
-        if (file.isTextEntry && file.textContent) {
+        if (file.textContent) {
             const itemContext = `\n--- Item: ${file.name} (Category: ${file.category || 'General'})\nContent:\n${file.textContent}\n---`;
              if (combinedContext.length + itemContext.length <= MAX_CONTEXT_LENGTH) {
                 combinedContext += itemContext;
@@ -75,7 +75,7 @@ const prepareKnowledgeBaseContext = (
         .sort((a, b) => b.score - a.score);
 
     for (const file of sortedFiles) {
-        if (file.isTextEntry && file.textContent) {
+        if (file.textContent) {
             const itemContext = `\n--- Item: ${file.name} (Category: ${file.category || 'General'})\nContent:\n${file.textContent}\n---`;
             if (combinedContext.length + itemContext.length <= MAX_TOTAL_CONTEXT_LENGTH) {
                 combinedContext += itemContext;
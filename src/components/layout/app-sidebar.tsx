@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname, useRouter } from "next/navigation";
+import { usePathname } from "next/navigation";
 import React, { useState, useEffect, useMemo } from "react";
 import {
   Sidebar,
@@ -19,15 +19,15 @@ import {
     Home, Lightbulb, MessageSquareReply, LayoutDashboard, Database, BookOpen, 
     ListChecks, Mic2, AreaChart, UserCircle, FileSearch, BarChart3, 
     Presentation, ListTree, Voicemail, Ear, Users as UsersIcon,
-    Briefcase, Headset, CodeSquare, Settings2, PieChart, ShoppingBag, Activity, Server, Workflow, Bot, DownloadCloud, BarChartBig, Folder, LogOut
+    Briefcase, Headset, CodeSquare, Settings2, PieChart, ShoppingBag, Activity, Server, Workflow, Bot, DownloadCloud, BarChartBig, Folder, LogOut, ClipboardList, GraduationCap, Radio, CloudDownload, GitCompare, Webhook, KeyRound
 } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import { LoadingSpinner } from "@/components/common/loading-spinner";
-import { useUserProfile } from '@/hooks/useUserProfile';
+import { useAuth } from '@/hooks/useAuth';
+import { requiredPermission, ROLE_LABELS } from '@/lib/auth/roles';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useFeatureLogger } from '@/lib/feature-logger';
 import { Button } from "@/components/ui/button";
-import { USER_PROFILES } from "@/types";
 
 interface AppSidebarProps {
   setIsPageLoading: (isLoading: boolean) => void;
@@ -57,8 +57,6 @@ type SidebarNavSeparator = { type: 'separator' };
 
 type SidebarNavEntry = SidebarNavItem | SidebarNavGroup | SidebarNavSeparator;
 
-const AUTH_STORAGE_KEY = 'aiTeleSuiteDemoAuth';
-
 const navStructure: SidebarNavEntry[] = [
   { type: 'item', href: "/home", label: "Home", icon: Home },
   { type: 'item', href: "/products", label: "Products", icon: ShoppingBag },
@@ -71,6 +69,7 @@ const navStructure: SidebarNavEntry[] = [
     items: [
       { href: "/pitch-generator", label: "AI Pitch Generator", icon: Lightbulb },
       { href: "/rebuttal-generator", label: "AI Rebuttal Assistant", icon: MessageSquareReply },
+      { href: "/live-assist", label: "Live Call Assist", icon: Radio },
     ]
   },
   { 
@@ -81,7 +80,9 @@ const navStructure: SidebarNavEntry[] = [
       { href: "/transcription", label: "Audio Transcription", icon: Mic2 },
       { href: "/transcription-dashboard", label: "Transcription DB", icon: ListTree },
       { href: "/call-scoring", label: "AI Call Scoring", icon: ListChecks },
+      { href: "/scoring-rubrics", label: "Scoring Rubrics", icon: ClipboardList },
       { href: "/call-scoring-dashboard", label: "Call Scoring DB", icon: AreaChart },
+      { href: "/disposition-reconciliation", label: "Disposition Reconciliation", icon: GitCompare },
       { href: "/combined-call-analysis", label: "Combined Call Analysis", icon: PieChart },
       { href: "/combined-call-analysis-dashboard", label: "Combined Analysis DB", icon: BarChart3 },
     ]
@@ -95,6 +96,7 @@ const navStructure: SidebarNavEntry[] = [
       { href: "/voice-sales-dashboard", label: "Voice Sales DB", icon: LayoutDashboard },
       { href: "/voice-support-agent", label: "AI Voice Support Agent", icon: Ear },
       { href: "/voice-support-dashboard", label: "Voice Support DB", icon: LayoutDashboard },
+      { href: "/agent-training", label: "Agent Role-Play Training", icon: GraduationCap },
     ]
   },
   { 
@@ -116,6 +118,10 @@ const navStructure: SidebarNavEntry[] = [
     icon: Settings2,
     items: [
       { href: "/activity-dashboard", label: "Global Activity Log", icon: Activity },
+      { href: "/admin/users", label: "User Management", icon: UsersIcon },
+      { href: "/admin/ingestion", label: "Recording Ingestion", icon: CloudDownload },
+      { href: "/admin/webhooks", label: "Webhooks", icon: Webhook },
+      { href: "/admin/api-keys", label: "API Keys", icon: KeyRound },
       { href: "/clone-app", label: "Clone Full App", icon: Server },
       { href: "/n8n-workflow", label: "n8n Workflow", icon: Workflow },
     ]
@@ -135,11 +141,22 @@ const getItemIsActive = (itemHref: string, currentPath: string): boolean => {
 
 export function AppSidebar({ setIsPageLoading }: AppSidebarProps) {
   const pathname = usePathname();
-  const router = useRouter();
   const [isTransitioningTo, setIsTransitioningTo] = useState<string | null>(null);
-  const { currentProfile, setCurrentProfile } = useUserProfile();
+  const { user, workspace, logout, hasPermission } = useAuth();
+  const currentProfile = user?.displayName ?? 'Guest';
   const { logNavigation, logComponent } = useFeatureLogger();
 
+  // Hide pages the current role would be turned away from by middleware.ts.
+  const visibleNav = useMemo(() => {
+    const canOpen = (href: string) => {
+      const permission = requiredPermission(href, 'GET');
+      return !permission || hasPermission(permission);
+    };
+    return navStructure
+      .map((entry) => (entry.type === 'group' ? { ...entry, items: entry.items.filter((item) => canOpen(item.href)) } : entry))
+      .filter((entry) => (entry.type === 'item' ? canOpen(entry.href) : entry.type !== 'group' || entry.items.length > 0));
+  }, [hasPermission]);
+
   const activeGroupLabel = useMemo(() => {
     if (!pathname) return null;
     const activeGroup = navStructure.find(group => 
@@ -192,12 +209,7 @@ export function AppSidebar({ setIsPageLoading }: AppSidebarProps) {
     });
     setIsTransitioningTo(null);
     setIsPageLoading(true);
-    if (typeof window !== 'undefined') {
-      window.localStorage.removeItem('aiTeleSuiteActiveUserProfile');
-      window.localStorage.removeItem(AUTH_STORAGE_KEY);
-    }
-    setCurrentProfile(USER_PROFILES[0] ?? "Anchit");
-    router.push('/login');
+    void logout();
   };
 
   const renderNavItem = (item: SidebarNavLeaf, isSubItem = false) => {
@@ -270,7 +282,7 @@ export function AppSidebar({ setIsPageLoading }: AppSidebarProps) {
                 onValueChange={setOpenAccordionItems} 
                 className="w-full group-data-[collapsible=icon]:hidden"
             >
-            {navStructure.map((navSection, idx) => {
+            {visibleNav.map((navSection, idx) => {
                 if (navSection.type === 'separator') {
                     return <SidebarSeparator key={`sep-${idx}`} className="my-1 group-data-[collapsible=icon]:hidden"/>
                 }
@@ -301,7 +313,7 @@ export function AppSidebar({ setIsPageLoading }: AppSidebarProps) {
             </Accordion>
             
             <div className="hidden group-data-[collapsible=icon]:flex group-data-[collapsible=icon]:flex-col group-data-[collapsible=icon]:gap-1">
-                 {navStructure.map((navSection, idx) => {
+                 {visibleNav.map((navSection, idx) => {
                     if(navSection.type === 'separator') return <SidebarSeparator key={`isep-${idx}`} />;
                     if (navSection.type === 'item') {
                         return renderNavItem(navSection);
@@ -326,6 +338,11 @@ export function AppSidebar({ setIsPageLoading }: AppSidebarProps) {
               <UserCircle size={14} />
               Profile: {currentProfile}
           </Label>
+          {user && (
+            <p className="text-xs text-sidebar-foreground/60 pl-5">
+              {ROLE_LABELS[user.role]} · {workspace?.name ?? user.workspaceId}
+            </p>
+          )}
         </div>
         <div className="group-data-[collapsible=icon]:flex group-data-[collapsible=icon]:justify-center group-data-[collapsible=icon]:items-center hidden">
           <UserCircle size={20} />
@@ -0,0 +1,26 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { ProductProvider } from '@/hooks/useProductContext';
+import { KnowledgeBaseProvider } from '@/hooks/use-knowledge-base';
+import { ActivityLogProvider } from '@/hooks/use-activity-logger';
+
+/**
+ * Providers whose data belongs to a workspace. They are keyed on the signed-in
+ * user and workspace so signing in as someone else starts from a clean state
+ * instead of briefly showing the previous user's products, KB or history.
+ */
+export function WorkspaceProviders({ children }: { children: ReactNode }) {
+  const { user, workspaceId } = useAuth();
+
+  return (
+    <ProductProvider key={`products:${workspaceId}`}>
+      <KnowledgeBaseProvider key={`kb:${workspaceId}`}>
+        <ActivityLogProvider key={`activity:${workspaceId}:${user?.id ?? 'anonymous'}`}>
+          {children}
+        </ActivityLogProvider>
+      </KnowledgeBaseProvider>
+    </ProductProvider>
+  );
+}
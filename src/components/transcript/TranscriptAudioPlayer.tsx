@@ -0,0 +1,268 @@
+/**
+ * @fileOverview Recording player that drives TranscriptViewer
+ *
+ * Plays the call recording with a waveform strip coloured by who is speaking
+ * (agent, customer) and a shaded pre-call section (IVR, hold, ringing).
+ * Clicking the strip or an evidence marker seeks the recording, and the
+ * shared TranscriptPlayback keeps the transcript highlight in step.
+ *
+ * Keyboard shortcuts (ignored while typing in a field):
+ * - Space or K: play / pause
+ * - J / L: back / forward 5 seconds
+ * - N / Shift+N: next / previous red-flag evidence
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Pause, Play } from 'lucide-react';
+import type { TranscriptDoc } from '@/types/transcript';
+import { formatTimestamp } from '@/types/transcript';
+import type { TranscriptPlayback } from '@/hooks/use-transcript-playback';
+import {
+  findAdjacentMarker,
+  timelineRegions,
+  type TimelineMarker,
+  type TimelineMarkerKind,
+  type TimelineRegionKind,
+} from '@/lib/transcript/timeline';
+
+interface TranscriptAudioPlayerProps {
+  /** Recording URL or data URI */
+  src: string;
+  transcript: TranscriptDoc;
+  playback: TranscriptPlayback;
+  /** Optional: Evidence markers to show on the strip; red flags can be jumped to with N */
+  markers?: TimelineMarker[];
+  className?: string;
+}
+
+const BAR_COUNT = 160;
+
+/** Decoding at a low sample rate keeps memory small for long calls; peaks need no more */
+const PEAK_SAMPLE_RATE = 8000;
+
+const SKIP_SECONDS = 5;
+
+const REGION_COLORS: Record<TimelineRegionKind | 'silence', string> = {
+  agent: 'var(--tx-agent-bg)',
+  customer: 'var(--tx-user-bg)',
+  'pre-call': 'var(--tx-system-bg)',
+  event: 'var(--tx-system-bg)',
+  silence: 'hsl(var(--muted-foreground) / 0.35)',
+};
+
+/** Bar heights when the recording cannot be decoded */
+const FALLBACK_LEVELS: Record<TimelineRegionKind | 'silence', number> = {
+  agent: 0.7,
+  customer: 0.7,
+  'pre-call': 0.35,
+  event: 0.35,
+  silence: 0.08,
+};
+
+const MARKER_COLORS: Record<TimelineMarkerKind, string> = {
+  'red-flag': 'bg-destructive',
+  weakness: 'bg-amber-500',
+  strength: 'bg-green-600',
+  'key-moment': 'bg-sky-500',
+};
+
+const REGION_LABELS: Array<{ kind: TimelineRegionKind; label: string }> = [
+  { kind: 'agent', label: 'Agent' },
+  { kind: 'customer', label: 'Customer' },
+  { kind: 'pre-call', label: 'Pre-call' },
+];
+
+/**
+ * Peak amplitude per bar across all channels, scaled so the loudest bar is 1
+ */
+async function decodePeaks(src: string, barCount: number, signal: AbortSignal): Promise<number[]> {
+  const response = await fetch(src, { signal });
+  const encoded = await response.arrayBuffer();
+  const decoded = await new OfflineAudioContext(1, 1, PEAK_SAMPLE_RATE).decodeAudioData(encoded);
+  const samplesPerBar = Math.max(1, Math.floor(decoded.length / barCount));
+  const peaks = new Array<number>(barCount).fill(0);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const samples = decoded.getChannelData(channel);
+    for (let bar = 0; bar < barCount; bar++) {
+      const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+      for (let index = bar * samplesPerBar; index < end; index++) {
+        const amplitude = Math.abs(samples[index]);
+        if (amplitude > peaks[bar]) peaks[bar] = amplitude;
+      }
+    }
+  }
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export function TranscriptAudioPlayer({ src, transcript, playback, markers = [], className }: TranscriptAudioPlayerProps) {
+  const { attachAudio, currentTimeS, durationS: audioDurationS, isPlaying, seek, togglePlay } = playback;
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+
+  const regions = useMemo(() => timelineRegions(transcript), [transcript]);
+  const durationS = audioDurationS
+    || transcript.metadata.durationS
+    || Math.max(0, ...transcript.turns.map(turn => turn.endS));
+
+  useEffect(() => {
+    setPeaks(null);
+    if (typeof OfflineAudioContext === 'undefined') return;
+    const controller = new AbortController();
+    decodePeaks(src, BAR_COUNT, controller.signal)
+      .then(setPeaks)
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) console.warn('Could not draw the waveform; showing speech regions only:', error);
+      });
+    return () => controller.abort();
+  }, [src]);
+
+  const bars = useMemo(() => {
+    return Array.from({ length: BAR_COUNT }, (_, bar) => {
+      const timeS = ((bar + 0.5) / BAR_COUNT) * durationS;
+      // Speech turns are listed after the pre-call region, so the last match wins
+      const region = regions.reduce<TimelineRegionKind | 'silence'>(
+        (found, candidate) => (timeS >= candidate.startS && timeS < candidate.endS ? candidate.kind : found),
+        'silence'
+      );
+      const level = peaks ? Math.max(0.04, peaks[bar]) : FALLBACK_LEVELS[region];
+      return { region, level, timeS };
+    });
+  }, [regions, peaks, durationS]);
+
+  const preCall = regions.find(region => region.kind === 'pre-call');
+  const redFlags = markers.filter(marker => marker.kind === 'red-flag');
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+      // Only the player on screen answers, e.g. not one in a closed tab
+      if (!container || container.offsetParent === null) return;
+      const key = event.key.toLowerCase();
+      if (key === ' ' || key === 'k') {
+        // Space on a focused button already clicks it
+        if (key === ' ' && event.target instanceof HTMLElement && event.target.closest('button, a, [role="button"]')) return;
+        togglePlay();
+      } else if (key === 'j' || key === 'l') {
+        seek(currentTimeS + (key === 'l' ? SKIP_SECONDS : -SKIP_SECONDS));
+      } else if (key === 'n') {
+        const marker = findAdjacentMarker(markers, currentTimeS, 'red-flag', event.shiftKey ? 'previous' : 'next');
+        if (!marker) return;
+        seek(marker.timeS);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [container, currentTimeS, markers, seek, togglePlay]);
+
+  const percent = (seconds: number) => (durationS > 0 ? Math.min(100, Math.max(0, (seconds / durationS) * 100)) : 0);
+
+  const handleStripClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - rect.left) / rect.width) * durationS);
+  };
+
+  return (
+    <div ref={setContainer} className={cn("space-y-2 rounded-lg border p-3", className)}>
+      <audio ref={attachAudio} src={src} preload="metadata" className="hidden" />
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={togglePlay}
+          aria-label={isPlaying ? 'Pause recording' : 'Play recording'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <span className="text-xs tabular-nums text-muted-foreground">
+          {formatTimestamp(currentTimeS)} / {formatTimestamp(durationS)}
+        </span>
+        <div className="ml-auto flex items-center gap-3 text-[11px] text-muted-foreground">
+          {REGION_LABELS.filter(({ kind }) => kind !== 'pre-call' || preCall).map(({ kind, label }) => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-sm" style={{ backgroundColor: REGION_COLORS[kind] }} />
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div
+        className="relative h-14 cursor-pointer select-none"
+        onClick={handleStripClick}
+        role="slider"
+        tabIndex={0}
+        aria-label="Recording position"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(durationS)}
+        aria-valuenow={Math.round(currentTimeS)}
+        aria-valuetext={formatTimestamp(currentTimeS)}
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+            event.preventDefault();
+            seek(currentTimeS + (event.key === 'ArrowRight' ? SKIP_SECONDS : -SKIP_SECONDS));
+          }
+        }}
+      >
+        {preCall && (
+          <div
+            className="absolute inset-y-0 rounded-sm bg-muted/60"
+            style={{ left: 0, width: `${percent(preCall.endS)}%` }}
+            title={`Pre-call: ${formatTimestamp(preCall.endS)}`}
+          >
+            <span className="absolute left-1 top-0 text-[10px] text-muted-foreground">Pre-call</span>
+          </div>
+        )}
+        <div className="absolute inset-0 flex items-center gap-px">
+          {bars.map((bar, index) => (
+            <div
+              key={index}
+              className="flex-1 rounded-full"
+              style={{
+                height: `${Math.round(bar.level * 100)}%`,
+                backgroundColor: REGION_COLORS[bar.region],
+                opacity: bar.timeS <= currentTimeS ? 1 : 0.45,
+              }}
+            />
+          ))}
+        </div>
+        {markers.map((marker, index) => (
+          <button
+            key={`${marker.kind}-${index}`}
+            type="button"
+            className={cn("absolute top-0 h-2 w-2 -translate-x-1/2 rounded-full ring-1 ring-background", MARKER_COLORS[marker.kind])}
+            style={{ left: `${percent(marker.timeS)}%` }}
+            title={`${formatTimestamp(marker.timeS)} ${marker.label}`}
+            aria-label={`Jump to ${marker.kind} at ${formatTimestamp(marker.timeS)}`}
+            onClick={(event) => {
+              event.stopPropagation();
+              seek(marker.timeS);
+            }}
+          />
+        ))}
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-primary"
+          style={{ left: `${percent(currentTimeS)}%` }}
+        />
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Space: play/pause · J/L: back/forward {SKIP_SECONDS}s
+        {redFlags.length > 0 && ` · N / Shift+N: next/previous red flag (${redFlags.length})`}
+        {' · '}Click a turn to jump to it
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+/**
+ * @fileOverview Human-in-the-loop transcript correction editor
+ *
+ * Reviewers correct the latest version of a call's transcript: fix the words
+ * of a turn, reassign or rename its speaker, relabel its profile (e.g. IVR →
+ * Agent), split it at the cursor, merge it with the next turn or delete it.
+ * Edits stay local until saved; saving sends them to
+ * /api/transcript-corrections, which stores the result as a new version with
+ * the list of changes. Earlier versions can be opened read-only from the
+ * history, each with its changes and the machine transcript's word error rate.
+ */
+
+"use client";
+
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { History, Loader2, Merge, Save, Scissors, Trash2, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTranscriptPlayback } from '@/hooks/use-transcript-playback';
+import type { TranscriptCorrections } from '@/hooks/use-transcript-corrections';
+import type { TranscriptVersion, TranscriptVersionSummary } from '@/lib/transcript-corrections-store';
+import {
+  EDIT_TYPE_LABELS,
+  PROFILE_LABELS,
+  TRANSCRIPT_PROFILES,
+  applyTranscriptEdits,
+  diffWords,
+  speakerAttributedWordErrorRate,
+  wordErrorRate,
+  type TranscriptAccuracy,
+  type TranscriptChange,
+  type TranscriptEdit,
+} from '@/lib/transcript/corrections';
+import { activeTurnIndexAt } from '@/lib/transcript/timeline';
+import type { Profile, TranscriptTurn } from '@/types/transcript';
+import { formatTimestamp, isInteractiveProfile } from '@/types/transcript';
+import { TranscriptAudioPlayer } from './TranscriptAudioPlayer';
+import { TranscriptViewer } from './TranscriptViewer';
+
+interface TranscriptCorrectionEditorProps {
+  corrections: TranscriptCorrections;
+  /** Whether the reviewer may save corrections; otherwise versions are read-only */
+  canEdit: boolean;
+  /** Optional: Recording to play while correcting */
+  audioSrc?: string;
+  className?: string;
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+function AccuracySummary({ accuracy }: { accuracy?: TranscriptAccuracy }) {
+  if (!accuracy) {
+    return <p className="text-xs text-muted-foreground">The machine transcript, as produced by transcription.</p>;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span>Machine transcript against this version:</span>
+      <Badge variant="outline" title="Word error rate: (substitutions + deletions + insertions) / words">
+        WER {percent(wordErrorRate(accuracy))}
+      </Badge>
+      <Badge variant="outline" title="Word error rate counting words given to the wrong speaker">
+        Speaker WER {percent(speakerAttributedWordErrorRate(accuracy))}
+      </Badge>
+      <span>
+        {accuracy.substitutions} substituted, {accuracy.deletions} missed, {accuracy.insertions} added of {accuracy.referenceWords} words
+      </span>
+    </div>
+  );
+}
+
+function WordDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="leading-relaxed">
+      {diffWords(before, after).map((part, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ' '}
+          {part.type === 'same' ? (
+            <span>{part.text}</span>
+          ) : part.type === 'removed' ? (
+            <del className="rounded-sm bg-destructive/15 px-0.5 text-destructive">{part.text}</del>
+          ) : (
+            <ins className="rounded-sm bg-green-600/15 px-0.5 text-green-700 no-underline dark:text-green-400">{part.text}</ins>
+          )}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * The changes of a version (or of the unsaved draft), word-diffed where words changed
+ */
+export function TranscriptChangeList({ changes }: { changes: TranscriptChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes.</p>;
+  }
+  return (
+    <ol className="space-y-2 text-sm">
+      {changes.map((change, index) => (
+        <li key={index} className="rounded-md border p-2">
+          <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="tabular-nums">{formatTimestamp(change.startS)}</span>
+            <Badge variant="secondary">{EDIT_TYPE_LABELS[change.type]}</Badge>
+            <span>Turn {change.turn + 1}</span>
+          </div>
+          {change.type === 'text' ? (
+            <WordDiff before={change.before[0] ?? ''} after={change.after[0] ?? ''} />
+          ) : (
+            <div className="space-y-0.5">
+              {change.before.map((line, lineIndex) => (
+                <p key={`before-${lineIndex}`} className="text-muted-foreground line-through">{line}</p>
+              ))}
+              {change.after.map((line, lineIndex) => (
+                <p key={`after-${lineIndex}`}>{line}</p>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface TurnEditorProps {
+  turn: TranscriptTurn;
+  index: number;
+  isLast: boolean;
+  isOnly: boolean;
+  isActive: boolean;
+  onEdit: (edit: TranscriptEdit) => void;
+  onSeek?: (seconds: number) => void;
+}
+
+const TurnEditor = memo(function TurnEditor({ turn, index, isLast, isOnly, isActive, onEdit, onSeek }: TurnEditorProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState(turn.text);
+  const [name, setName] = useState(turn.speakerName ?? '');
+  const [synced, setSynced] = useState(turn);
+  const caret = useRef<number | null>(null);
+
+  // Splits and merges shift turns between rows, so follow the applied turn
+  if (synced !== turn) {
+    setSynced(turn);
+    setText(turn.text);
+    setName(turn.speakerName ?? '');
+  }
+
+  const commitText = () => {
+    const corrected = text.trim();
+    if (!corrected) {
+      setText(turn.text);
+      toast({ variant: 'destructive', title: 'Text Cannot Be Empty', description: 'Delete the turn instead of clearing its text.' });
+    } else if (corrected !== turn.text) {
+      onEdit({ type: 'text', turn: index, text: corrected });
+    }
+  };
+
+  const commitName = () => {
+    if (name.trim() === (turn.speakerName ?? '')) return;
+    onEdit({ type: 'speaker', turn: index, speaker: turn.speaker === 'AGENT' ? 'AGENT' : 'USER', speakerName: name.trim() || undefined });
+  };
+
+  const changeProfile = (profile: Profile) => {
+    if (profile === turn.profile) return;
+    // Between agent and customer this is a speaker reassignment; anything else relabels the turn
+    if (isInteractiveProfile(profile) && isInteractiveProfile(turn.profile)) {
+      onEdit({ type: 'speaker', turn: index, speaker: profile === 'agent' ? 'AGENT' : 'USER' });
+    } else {
+      onEdit({ type: 'profile', turn: index, profile });
+    }
+  };
+
+  const split = () => {
+    const atWord = caret.current === null ? 0 : wordCount(turn.text.slice(0, caret.current));
+    if (atWord < 1 || atWord >= wordCount(turn.text)) {
+      toast({ title: 'Place the Cursor First', description: 'Click in the text where the turn should be split, then split it.' });
+      return;
+    }
+    onEdit({ type: 'split', turn: index, atWord });
+  };
+
+  const rememberCaret = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    caret.current = event.currentTarget.selectionStart;
+  };
+
+  return (
+    <div className={cn("space-y-2 rounded-md border p-2", isActive && "ring-2 ring-primary/60")}>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="text-xs tabular-nums text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground"
+          onClick={() => onSeek?.(turn.startS)}
+          disabled={!onSeek}
+          title={onSeek ? 'Play from here' : undefined}
+        >
+          {formatTimestamp(turn.startS)}
+        </button>
+        <Select value={turn.profile} onValueChange={(value) => changeProfile(value as Profile)}>
+          <SelectTrigger className="h-8 w-[150px] text-xs" aria-label={`Speaker of turn ${index + 1}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSCRIPT_PROFILES.map((profile) => (
+              <SelectItem key={profile} value={profile}>{PROFILE_LABELS[profile]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isInteractiveProfile(turn.profile) && (
+          <Input
+            className="h-8 w-[140px] text-xs"
+            placeholder="Name (optional)"
+            aria-label={`Speaker name of turn ${index + 1}`}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onBlur={commitName}
+          />
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button type="button" variant="ghost" size="xs" onClick={split} title="Split the turn at the cursor">
+            <Scissors className="mr-1 h-3 w-3" /> Split
+          </Button>
+          <Button type="button" variant="ghost" size="xs" onClick={() => onEdit({ type: 'merge', turn: index })} disabled={isLast} title="Merge with the next turn">
+            <Merge className="mr-1 h-3 w-3" /> Merge
+          </Button>
+          <Button type="button" variant="ghost" size="xs" onClick={() => onEdit({ type: 'delete', turn: index })} disabled={isOnly} title="Delete the turn">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <Textarea
+        className="min-h-[60px] text-sm"
+        aria-label={`Text of turn ${index + 1}`}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commitText}
+        onSelect={rememberCaret}
+        onKeyUp={rememberCaret}
+        onClick={rememberCaret}
+      />
+    </div>
+  );
+});
+
+interface CorrectionDraftProps {
+  base: TranscriptVersion;
+  save: TranscriptCorrections['save'];
+  audioSrc?: string;
+}
+
+function CorrectionDraft({ base, save, audioSrc }: CorrectionDraftProps) {
+  const { toast } = useToast();
+  const playback = useTranscriptPlayback();
+  const [edits, setEdits] = useState<TranscriptEdit[]>([]);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const draft = useMemo(() => applyTranscriptEdits(base.transcript, edits), [base, edits]);
+  const { turns } = draft.transcript;
+  const activeIndex = playback.hasAudio && playback.currentTimeS > 0 ? activeTurnIndexAt(turns, playback.currentTimeS) : -1;
+
+  const addEdit = useCallback((edit: TranscriptEdit) => {
+    setEdits((previous) => [...previous, edit]);
+  }, []);
+
+  const seek = useCallback((seconds: number) => playback.seek(seconds, { play: true }), [playback]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await save({ baseVersion: base.version, edits, note: note.trim() || undefined });
+      toast({ title: 'Corrections Saved', description: `Saved as version ${base.version + 1}. Re-scoring uses this version.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could Not Save Corrections', description: (error as Error).message });
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {audioSrc && <TranscriptAudioPlayer src={audioSrc} transcript={draft.transcript} playback={playback} />}
+      <div className="space-y-2">
+        {turns.map((turn, index) => (
+          <TurnEditor
+            key={index}
+            turn={turn}
+            index={index}
+            isLast={index === turns.length - 1}
+            isOnly={turns.length === 1}
+            isActive={index === activeIndex}
+            onEdit={addEdit}
+            onSeek={audioSrc ? seek : undefined}
+          />
+        ))}
+      </div>
+      <div className="sticky bottom-0 space-y-2 rounded-md border bg-background p-3 shadow-sm">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold">Unsaved changes ({draft.changes.length})</h4>
+          <div className="flex gap-1">
+            <Button type="button" variant="outline" size="xs" onClick={() => setEdits((previous) => previous.slice(0, -1))} disabled={edits.length === 0 || isSaving}>
+              <Undo2 className="mr-1 h-3 w-3" /> Undo
+            </Button>
+            <Button type="button" variant="outline" size="xs" onClick={() => setEdits([])} disabled={edits.length === 0 || isSaving}>
+              Discard
+            </Button>
+          </div>
+        </div>
+        {draft.changes.length > 0 && (
+          <div className="max-h-48 overflow-y-auto">
+            <TranscriptChangeList changes={draft.changes} />
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="correction-note" className="text-xs">Note (optional)</Label>
+            <Input
+              id="correction-note"
+              className="h-8 text-xs"
+              placeholder="e.g. Fixed product names, IVR turn was the agent"
+              value={note}
+              maxLength={500}
+              onChange={(event) => setNote(event.target.value)}
+            />
+          </div>
+          <Button type="button" size="sm" onClick={() => void handleSave()} disabled={edits.length === 0 || isSaving}>
+            {isSaving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}
+            Save as version {base.version + 1}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function VersionHistory({
+  versions,
+  viewing,
+  onSelect,
+}: {
+  versions: TranscriptVersionSummary[];
+  viewing: number;
+  onSelect: (version: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center text-sm font-semibold"><History className="mr-1.5 h-4 w-4 text-primary" /> Versions</h4>
+      <ul className="space-y-1">
+        {versions.map((summary) => (
+          <li key={summary.version}>
+            <button
+              type="button"
+              onClick={() => onSelect(summary.version)}
+              className={cn(
+                "w-full rounded-md border px-2 py-1.5 text-left text-xs hover:bg-muted",
+                summary.version === viewing && "border-primary bg-primary/5"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{summary.version === 0 ? 'Machine transcript' : `Version ${summary.version}`}</span>
+                {summary.wordErrorRate !== undefined && <span className="text-muted-foreground">WER {percent(summary.wordErrorRate)}</span>}
+              </div>
+              <div className="text-muted-foreground">
+                {summary.updatedAt ? format(parseISO(summary.updatedAt), 'PP p') : 'Not corrected yet'}
+                {summary.updatedBy && ` · ${summary.updatedBy}`}
+                {summary.version > 0 && ` · ${summary.changeCount} change${summary.changeCount === 1 ? '' : 's'}`}
+              </div>
+              {summary.note && <div className="truncate italic text-muted-foreground" title={summary.note}>{summary.note}</div>}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function TranscriptCorrectionEditor({ corrections, canEdit, audioSrc, className }: TranscriptCorrectionEditorProps) {
+  const { data, latest, isLoading, error, loadVersion, save } = corrections;
+
+  if (!data) {
+    return (
+      <div className={cn("flex h-40 items-center justify-center text-sm text-muted-foreground", className)}>
+        {error ? <span className="text-destructive">{error}</span> : <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading transcript versions…</>}
+      </div>
+    );
+  }
+
+  const viewing = data.version;
+  const isLatest = latest !== null && viewing.version === latest.version;
+
+  return (
+    <div className={cn("grid gap-4 lg:grid-cols-[1fr_15rem]", className)}>
+      <div className="min-w-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge>{viewing.version === 0 ? 'Machine transcript' : `Version ${viewing.version}`}</Badge>
+          {isLatest ? (
+            <span className="text-xs text-muted-foreground">Latest version, used for re-scoring{canEdit ? '. Edits are saved as a new version.' : '.'}</span>
+          ) : (
+            <>
+              <span className="text-xs text-muted-foreground">An earlier version, read-only.</span>
+              <Button type="button" variant="outline" size="xs" onClick={() => void loadVersion()} disabled={isLoading}>Back to latest</Button>
+            </>
+          )}
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <AccuracySummary accuracy={viewing.accuracy} />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        {isLatest && canEdit ? (
+          <CorrectionDraft key={viewing.version} base={viewing} save={save} audioSrc={audioSrc} />
+        ) : (
+          <>
+            {viewing.version > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Changes in this version</h4>
+                <TranscriptChangeList changes={viewing.changes} />
+              </div>
+            )}
+            <TranscriptViewer transcript={viewing.transcript} showTimestamps={true} agentPosition="left" />
+          </>
+        )}
+      </div>
+      <VersionHistory versions={data.versions} viewing={viewing.version} onSelect={(version) => void loadVersion(version)} />
+    </div>
+  );
+}
@@ -11,6 +11,8 @@
  * - Clean chat bubble UI with timestamps
  * - No "Unknown" name injection (uses role-based defaults)
  * - Handles SYSTEM events with distinct styling
+ * - Optional synced playback: click a turn to seek the recording, the active
+ *   turn highlights and its words fill in as they are spoken (karaoke)
  * 
  * Design Philosophy:
  * - Alignment (left/right) determined by first speaker
@@ -22,12 +24,15 @@
 
 "use client";
 
-import React, { useMemo } from 'react';
+import React, { memo, useCallback, useEffect, useMemo, useRef } from 'react';
 import { cn } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Bot, User, Info } from 'lucide-react';
-import type { TranscriptDoc, SpeakerRole } from '@/types/transcript';
+import type { TranscriptDoc, TranscriptTurn, SpeakerRole } from '@/types/transcript';
 import { getSpeakerDisplayName, formatTimestamp } from '@/types/transcript';
+import { useTranscriptPlayback, type TranscriptPlayback } from '@/hooks/use-transcript-playback';
+import { activeTurnIndexAt, spokenWordCount, type TimelineMarker } from '@/lib/transcript/timeline';
+import { TranscriptAudioPlayer } from './TranscriptAudioPlayer';
 
 interface TranscriptViewerProps {
   /** The canonical transcript document to display */
@@ -49,8 +54,179 @@ interface TranscriptViewerProps {
   
   /** Optional: Highlight a specific turn by index */
   highlightTurnIndex?: number;
+  
+  /**
+   * Optional: Recording to play above the transcript, with the turns synced to it
+   * Ignored when `playback` is given; the owner of that playback renders the player
+   */
+  audioSrc?: string;
+  
+  /**
+   * Optional: Playback shared with a TranscriptAudioPlayer rendered elsewhere,
+   * e.g. so evidence timestamps outside the transcript can seek the same recording
+   */
+  playback?: TranscriptPlayback;
+  
+  /** Optional: Evidence markers for the built-in player (see audioSrc) */
+  markers?: TimelineMarker[];
+}
+
+interface TurnRowProps {
+  turn: TranscriptTurn;
+  index: number;
+  alignment: 'left' | 'right';
+  showTimestamps: boolean;
+  isHighlighted: boolean;
+  /** Words of the turn already spoken; undefined unless this is the playing turn */
+  spokenWords?: number;
+  onSeek?: (seconds: number) => void;
+  registerRow: (index: number, element: HTMLDivElement | null) => void;
 }
 
+/**
+ * Turn text with the spoken words emphasised and the rest dimmed
+ */
+function KaraokeText({ words, spokenWords }: { words: string[]; spokenWords?: number }) {
+  if (spokenWords === undefined) return <>{words.join('')}</>;
+  return (
+    <>
+      {words.map((word, index) => (
+        <span
+          key={index}
+          className={cn(
+            "transition-opacity",
+            index < spokenWords * 2 ? "opacity-100" : "opacity-50"
+          )}
+        >
+          {word}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/**
+ * One turn; memoised so only the playing turn re-renders as playback advances
+ */
+const TurnRow = memo(function TurnRow({
+  turn,
+  index,
+  alignment,
+  showTimestamps,
+  isHighlighted,
+  spokenWords,
+  onSeek,
+  registerRow,
+}: TurnRowProps) {
+  const displayName = getSpeakerDisplayName(turn);
+  // Words and the whitespace between them, so joining them gives back the text
+  const words = useMemo(() => turn.text.split(/(\s+)/), [turn.text]);
+  const seekProps = onSeek
+    ? {
+        onClick: () => onSeek(turn.startS),
+        onKeyDown: (event: React.KeyboardEvent) => {
+          if (event.key === 'Enter') onSeek(turn.startS);
+        },
+        tabIndex: 0,
+        title: `Play from ${formatTimestamp(turn.startS)}`,
+      }
+    : {};
+  
+  // SYSTEM turns use special styling
+  if (turn.speaker === 'SYSTEM') {
+    return (
+      <div
+        ref={(element) => registerRow(index, element)}
+        className={cn(
+          "flex items-center justify-center gap-2 text-sm text-muted-foreground italic",
+          isHighlighted && "ring-2 ring-yellow-400 rounded-md p-2",
+          onSeek && "cursor-pointer"
+        )}
+        role="status"
+        aria-label={`System event: ${turn.text}`}
+        aria-current={isHighlighted || undefined}
+        {...seekProps}
+      >
+        <Info className="h-4 w-4 flex-shrink-0" />
+        <span>{turn.text}</span>
+        {showTimestamps && (
+          <span className="text-xs opacity-70">
+            {formatTimestamp(turn.startS)}
+          </span>
+        )}
+      </div>
+    );
+  }
+  
+  // Regular AGENT/USER turns with chat bubbles
+  return (
+    <div
+      ref={(element) => registerRow(index, element)}
+      className={cn(
+        "flex gap-3",
+        alignment === 'right' ? "flex-row-reverse" : "flex-row",
+        isHighlighted && "bg-yellow-50 dark:bg-yellow-950/20 p-2 rounded-lg",
+        onSeek && "cursor-pointer"
+      )}
+      role="article"
+      aria-label={`${displayName} said: ${turn.text}`}
+      aria-current={isHighlighted || undefined}
+      {...seekProps}
+    >
+      {/* Avatar */}
+      <Avatar className="h-8 w-8 flex-shrink-0 mt-1">
+        <AvatarFallback
+          className={cn(
+            "transcript-avatar-" + (turn.speaker === 'AGENT' ? 'agent' : 'user')
+          )}
+        >
+          {turn.speaker === 'AGENT' ? (
+            <Bot className="h-4 w-4" />
+          ) : (
+            <User className="h-4 w-4" />
+          )}
+        </AvatarFallback>
+      </Avatar>
+      
+      {/* Message bubble */}
+      <div
+        className={cn(
+          "flex flex-col gap-1 max-w-[75%]",
+          alignment === 'right' ? "items-end" : "items-start"
+        )}
+      >
+        {/* Speaker name and timestamp */}
+        <div
+          className={cn(
+            "flex items-center gap-2 text-xs text-muted-foreground px-1",
+            alignment === 'right' ? "flex-row-reverse" : "flex-row"
+          )}
+        >
+          <span className="font-medium">{displayName}</span>
+          {showTimestamps && (
+            <span className="transcript-timestamp">
+              {formatTimestamp(turn.startS)}
+            </span>
+          )}
+        </div>
+        
+        {/* Message content - Using CSS variables for colors */}
+        <div
+          className={
+            turn.speaker === 'AGENT'
+              ? "transcript-bubble-agent"
+              : "transcript-bubble-user"
+          }
+        >
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">
+            <KaraokeText words={words} spokenWords={spokenWords} />
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+});
+
 /**
  * TranscriptViewer - Universal transcript renderer
  * 
@@ -63,7 +239,13 @@ export function TranscriptViewer({
   showTimestamps = true,
   className,
   highlightTurnIndex,
+  audioSrc,
+  playback,
+  markers,
 }: TranscriptViewerProps) {
+  const ownPlayback = useTranscriptPlayback();
+  const activePlayback = playback ?? (audioSrc ? ownPlayback : undefined);
+  const rowsRef = useRef(new Map<number, HTMLDivElement>());
   
   // Determine alignment logic based on first speaker
   const alignmentMap = useMemo(() => {
@@ -96,6 +278,24 @@ export function TranscriptViewer({
     return alignmentMap.get(speaker) || 'left';
   };
   
+  // Follow playback once it has started or been moved; before that nothing is "playing"
+  const currentTimeS = activePlayback?.currentTimeS ?? 0;
+  const following = Boolean(activePlayback && (activePlayback.isPlaying || currentTimeS > 0));
+  const activeTurnIndex = following && transcript?.turns ? activeTurnIndexAt(transcript.turns, currentTimeS) : -1;
+  
+  const seek = activePlayback?.seek;
+  const handleSeek = useCallback((seconds: number) => seek?.(seconds), [seek]);
+  const registerRow = useCallback((index: number, element: HTMLDivElement | null) => {
+    if (element) rowsRef.current.set(index, element);
+    else rowsRef.current.delete(index);
+  }, []);
+  
+  // Keep the active turn in view as playback moves on
+  useEffect(() => {
+    if (activeTurnIndex < 0) return;
+    rowsRef.current.get(activeTurnIndex)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeTurnIndex]);
+  
   if (!transcript || !transcript.turns || transcript.turns.length === 0) {
     return (
       <div className="flex items-center justify-center p-8 text-muted-foreground">
@@ -107,97 +307,30 @@ export function TranscriptViewer({
   
   return (
     <div className={cn("transcript-viewer space-y-4 p-4", className)}>
+      {audioSrc && !playback && (
+        <TranscriptAudioPlayer
+          src={audioSrc}
+          transcript={transcript}
+          playback={ownPlayback}
+          markers={markers}
+          className="sticky top-0 z-10 bg-background"
+        />
+      )}
+      
       {transcript.turns.map((turn, index) => {
-        const alignment = getAlignment(turn.speaker);
-        const isHighlighted = highlightTurnIndex === index;
-        const displayName = getSpeakerDisplayName(turn);
-        
-        // SYSTEM turns use special styling
-        if (turn.speaker === 'SYSTEM') {
-          return (
-            <div
-              key={index}
-              className={cn(
-                "flex items-center justify-center gap-2 text-sm text-muted-foreground italic",
-                isHighlighted && "ring-2 ring-yellow-400 rounded-md p-2"
-              )}
-              role="status"
-              aria-label={`System event: ${turn.text}`}
-            >
-              <Info className="h-4 w-4 flex-shrink-0" />
-              <span>{turn.text}</span>
-              {showTimestamps && (
-                <span className="text-xs opacity-70">
-                  {formatTimestamp(turn.startS)}
-                </span>
-              )}
-            </div>
-          );
-        }
-        
-        // Regular AGENT/USER turns with chat bubbles
+        const isActive = index === activeTurnIndex;
         return (
-          <div
+          <TurnRow
             key={index}
-            className={cn(
-              "flex gap-3",
-              alignment === 'right' ? "flex-row-reverse" : "flex-row",
-              isHighlighted && "bg-yellow-50 dark:bg-yellow-950/20 p-2 rounded-lg"
-            )}
-            role="article"
-            aria-label={`${displayName} said: ${turn.text}`}
-          >
-            {/* Avatar */}
-            <Avatar className="h-8 w-8 flex-shrink-0 mt-1">
-              <AvatarFallback
-                className={cn(
-                  "transcript-avatar-" + (turn.speaker === 'AGENT' ? 'agent' : 'user')
-                )}
-              >
-                {turn.speaker === 'AGENT' ? (
-                  <Bot className="h-4 w-4" />
-                ) : (
-                  <User className="h-4 w-4" />
-                )}
-              </AvatarFallback>
-            </Avatar>
-            
-            {/* Message bubble */}
-            <div
-              className={cn(
-                "flex flex-col gap-1 max-w-[75%]",
-                alignment === 'right' ? "items-end" : "items-start"
-              )}
-            >
-              {/* Speaker name and timestamp */}
-              <div
-                className={cn(
-                  "flex items-center gap-2 text-xs text-muted-foreground px-1",
-                  alignment === 'right' ? "flex-row-reverse" : "flex-row"
-                )}
-              >
-                <span className="font-medium">{displayName}</span>
-                {showTimestamps && (
-                  <span className="transcript-timestamp">
-                    {formatTimestamp(turn.startS)}
-                  </span>
-                )}
-              </div>
-              
-              {/* Message content - Using CSS variables for colors */}
-              <div
-                className={
-                  turn.speaker === 'AGENT'
-                    ? "transcript-bubble-agent"
-                    : "transcript-bubble-user"
-                }
-              >
-                <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                  {turn.text}
-                </p>
-              </div>
-            </div>
-          </div>
+            turn={turn}
+            index={index}
+            alignment={getAlignment(turn.speaker)}
+            showTimestamps={showTimestamps}
+            isHighlighted={highlightTurnIndex === index || isActive}
+            spokenWords={isActive ? spokenWordCount(turn, turn.text.split(/\s+/).length, currentTimeS) : undefined}
+            onSeek={activePlayback ? handleSeek : undefined}
+            registerRow={registerRow}
+          />
         );
       })}
       
@@ -1,12 +1,17 @@
 
 "use client";
 
-import type { ActivityLogEntry } from '@/types';
+import type { ActivityLogEntry, TranscriptFeedback } from '@/types';
+import type { ApiResult, Paginated } from '@/types/common';
 import { useLocalStorage } from './use-local-storage';
-import { useUserProfile } from './useUserProfile';
-import { useCallback, createContext, useContext, ReactNode } from 'react';
+import { useAuth, workspaceStorageKey } from './useAuth';
+import { useCallback, useEffect, useRef, useState, createContext, useContext, ReactNode } from 'react';
 
 const ACTIVITY_LOG_KEY = 'aiTeleSuiteActivityLog';
+const ACTIVITIES_API = '/api/activities';
+const ACTIVITY_PAGE_SIZE = 100;
+// The full history lives in the server-side store (`/api/activities`). Only the most
+// recent entries are cached in localStorage so dashboards can paint before the first fetch.
 export const MAX_ACTIVITIES_TO_STORE = 50;
 const MODULES_WITH_FULL_DETAILS = new Set([
     'AI Voice Sales Agent',
@@ -14,7 +19,7 @@ const MODULES_WITH_FULL_DETAILS = new Set([
     'AI Voice Support Agent',
 ]);
 
-// Helper to remove large, non-essential data from details before saving to localStorage
+// Helper to remove large, non-essential data from details before caching them in localStorage
 const stripLargePayloads = (details: ActivityLogEntry['details']): ActivityLogEntry['details'] => {
     if (typeof details !== 'object' || details === null) {
         return details;
@@ -48,37 +53,135 @@ const stripLargePayloads = (details: ActivityLogEntry['details']): ActivityLogEn
 const sanitizeDetailsForModule = (module: string, details: ActivityLogEntry['details']) =>
     MODULES_WITH_FULL_DETAILS.has(module) ? details : stripLargePayloads(details);
 
+// --- Server sync ---
+// Writes are chained so that an update or delete never reaches the server before
+// the create it depends on.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function enqueueServerWrite(description: string, request: () => Promise<Response>) {
+    pendingWrite = pendingWrite.then(async () => {
+        try {
+            const response = await request();
+            if (!response.ok) {
+                throw new Error(`${response.status} ${await response.text()}`);
+            }
+        } catch (error) {
+            console.error(`Failed to ${description} on the server:`, error);
+        }
+    });
+}
+
+const jsonRequest = (method: string, url: string, body: unknown) =>
+    fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+async function fetchActivityPage(cursor?: string | null): Promise<Paginated<ActivityLogEntry>> {
+    const params = new URLSearchParams({ limit: String(ACTIVITY_PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+    const response = await fetch(`${ACTIVITIES_API}?${params.toString()}`, { cache: 'no-store' });
+    const result = (await response.json()) as ApiResult<Paginated<ActivityLogEntry>>;
+    if (!result.ok) {
+        throw new Error(result.error);
+    }
+    return result.data;
+}
+
+const mergeById = (current: ActivityLogEntry[], incoming: ActivityLogEntry[]): ActivityLogEntry[] => {
+    const seen = new Set(current.map(activity => activity.id));
+    return [...current, ...incoming.filter(activity => !seen.has(activity.id))];
+};
+// --- End Server sync ---
+
 interface ActivityLogContextType {
   activities: ActivityLogEntry[];
   logActivity: (activityPayload: Omit<ActivityLogEntry, 'id' | 'timestamp' | 'agentName'>) => string;
   logBatchActivities: (activityPayloads: Omit<ActivityLogEntry, 'id' | 'timestamp' | 'agentName'>[]) => void;
   updateActivity: (activityId: string, updatedDetails: Partial<ActivityLogEntry['details']>) => void;
+  saveActivityFeedback: (activityId: string, feedback: TranscriptFeedback) => void;
   deleteActivities: (activityIds: string[]) => void;
   clearAllActivities: () => void;
   setActivities: React.Dispatch<React.SetStateAction<ActivityLogEntry[]>>;
+  /** True until the first page of server history has been loaded (or failed to load). */
+  isLoadingHistory: boolean;
+  /** Whether older entries are available on the server. */
+  hasMoreHistory: boolean;
+  loadMoreHistory: () => Promise<void>;
+  refreshHistory: () => Promise<void>;
 }
 
 const ActivityLogContext = createContext<ActivityLogContextType | undefined>(undefined);
 
 export const ActivityLogProvider = ({ children }: { children: ReactNode }) => {
-    const [activities, setActivities] = useLocalStorage<ActivityLogEntry[]>(ACTIVITY_LOG_KEY, []);
-    const { currentProfile } = useUserProfile();
+    const { user, workspaceId } = useAuth();
+    // The cache is per user because agents only see their own history on the server.
+    const [cachedActivities, setCachedActivities] = useLocalStorage<ActivityLogEntry[]>(
+        user ? `${workspaceStorageKey(ACTIVITY_LOG_KEY, workspaceId)}:${user.id}` : ACTIVITY_LOG_KEY,
+        []
+    );
+    const [activities, setActivities] = useState<ActivityLogEntry[]>(() => cachedActivities || []);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const nextCursorRef = useRef<string | null>(null);
+    const userId = user?.id;
+
+    useEffect(() => {
+        nextCursorRef.current = nextCursor;
+    }, [nextCursor]);
+
+    const refreshHistory = useCallback(async () => {
+        if (!userId) {
+            setIsLoadingHistory(false);
+            return;
+        }
+        setIsLoadingHistory(true);
+        try {
+            await pendingWrite;
+            const page = await fetchActivityPage();
+            setActivities(page.items);
+            setNextCursor(page.nextCursor ?? null);
+        } catch (error) {
+            console.error('Could not load activity history from the server; showing the local cache.', error);
+        } finally {
+            setIsLoadingHistory(false);
+        }
+    }, [userId]);
+
+    const loadMoreHistory = useCallback(async () => {
+        const cursor = nextCursorRef.current;
+        if (!cursor) return;
+        try {
+            const page = await fetchActivityPage(cursor);
+            setActivities(prev => mergeById(prev, page.items));
+            setNextCursor(page.nextCursor ?? null);
+        } catch (error) {
+            console.error('Could not load older activity history:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        void refreshHistory();
+    }, [refreshHistory]);
+
+    useEffect(() => {
+        setCachedActivities(
+            activities
+                .slice(0, MAX_ACTIVITIES_TO_STORE)
+                .map(activity => ({ ...activity, details: sanitizeDetailsForModule(activity.module, activity.details) }))
+        );
+    }, [activities, setCachedActivities]);
 
     const logActivity = useCallback((activityPayload: Omit<ActivityLogEntry, 'id' | 'timestamp' | 'agentName'>): string => {
         const newActivity: ActivityLogEntry = {
             ...activityPayload,
             id: Date.now().toString() + Math.random().toString(36).substring(2,9),
             timestamp: new Date().toISOString(),
-            agentName: currentProfile,
-            details: sanitizeDetailsForModule(activityPayload.module, activityPayload.details),
+            agentName: user?.displayName,
+            agentId: user?.id,
+            workspaceId,
         };
-        setActivities(prevActivities => {
-            const currentItems = prevActivities || [];
-            const updatedActivities = [newActivity, ...currentItems];
-            return updatedActivities.slice(0, MAX_ACTIVITIES_TO_STORE);
-        });
+        setActivities(prevActivities => [newActivity, ...(prevActivities || [])]);
+        enqueueServerWrite('save activity', () => jsonRequest('POST', ACTIVITIES_API, newActivity));
         return newActivity.id;
-    }, [setActivities, currentProfile]);
+    }, [user, workspaceId]);
 
     const logBatchActivities = useCallback((activityPayloads: Omit<ActivityLogEntry, 'id' | 'timestamp' | 'agentName'>[]) => {
         if (!activityPayloads || activityPayloads.length === 0) {
@@ -88,45 +191,69 @@ export const ActivityLogProvider = ({ children }: { children: ReactNode }) => {
             ...payload,
             id: Date.now().toString() + Math.random().toString(36).substring(2,9) + (payload.details?.fileName || payload.module),
             timestamp: new Date().toISOString(),
-            agentName: currentProfile,
-            details: sanitizeDetailsForModule(payload.module, payload.details),
+            agentName: user?.displayName,
+            agentId: user?.id,
+            workspaceId,
         }));
 
-        setActivities(prevActivities => {
-            const currentItems = prevActivities || [];
-            const updatedActivities = [...newActivities.reverse(), ...currentItems];
-            return updatedActivities.slice(0, MAX_ACTIVITIES_TO_STORE);
-        });
-    }, [setActivities, currentProfile]);
+        setActivities(prevActivities => [...[...newActivities].reverse(), ...(prevActivities || [])]);
+        enqueueServerWrite('save activities', () => jsonRequest('POST', ACTIVITIES_API, newActivities));
+    }, [user, workspaceId]);
     
     const updateActivity = useCallback((activityId: string, updatedDetails: Partial<ActivityLogEntry['details']>) => {
         setActivities(prevActivities => {
           const currentItems = prevActivities || [];
           return currentItems.map(activity => {
             if (activity.id === activityId) {
-              const mergedDetails = {
-                  ...activity.details,
-                  ...updatedDetails,
-                };
               return {
                 ...activity,
-                details: sanitizeDetailsForModule(activity.module, mergedDetails),
+                details: {
+                  ...activity.details,
+                  ...updatedDetails,
+                },
               };
             }
             return activity;
           });
         });
-    }, [setActivities]);
+        enqueueServerWrite('update activity', () =>
+            jsonRequest('PATCH', `${ACTIVITIES_API}/${encodeURIComponent(activityId)}`, { details: updatedDetails })
+        );
+    }, []);
+
+    const saveActivityFeedback = useCallback((activityId: string, feedback: TranscriptFeedback) => {
+        setActivities(prev => prev.map(activity => (activity.id === activityId ? { ...activity, userFeedback: feedback } : activity)));
+        enqueueServerWrite('save transcript feedback', () =>
+            jsonRequest('PATCH', `${ACTIVITIES_API}/${encodeURIComponent(activityId)}`, { userFeedback: feedback })
+        );
+    }, []);
 
     const deleteActivities = useCallback((activityIds: string[]) => {
+      if (activityIds.length === 0) return;
       setActivities(prev => (prev || []).filter(activity => !activityIds.includes(activity.id)));
-    }, [setActivities]);
+      enqueueServerWrite('delete activities', () => jsonRequest('DELETE', ACTIVITIES_API, { ids: activityIds }));
+    }, []);
 
     const clearAllActivities = useCallback(() => {
       setActivities([]);
-    }, [setActivities]);
+      setNextCursor(null);
+      enqueueServerWrite('clear activities', () => jsonRequest('DELETE', ACTIVITIES_API, { all: true }));
+    }, []);
 
-    const value = { activities: activities || [], logActivity, logBatchActivities, updateActivity, deleteActivities, clearAllActivities, setActivities };
+    const value = {
+      activities: activities || [],
+      logActivity,
+      logBatchActivities,
+      updateActivity,
+      saveActivityFeedback,
+      deleteActivities,
+      clearAllActivities,
+      setActivities,
+      isLoadingHistory,
+      hasMoreHistory: nextCursor !== null,
+      loadMoreHistory,
+      refreshHistory,
+    };
     
     return <ActivityLogContext.Provider value={value}>{children}</ActivityLogContext.Provider>;
 };
@@ -1,11 +1,87 @@
 "use client";
 
 import type { KnowledgeFile, CustomerCohort, Product } from '@/types';
-import { useLocalStorage } from './use-local-storage';
 import { useCallback, useEffect, createContext, useContext, ReactNode } from 'react';
 import { fileToDataUrl } from '@/lib/file-utils';
+import { detectDocumentFormat } from '@/lib/document-extraction/sections';
+import type { FileExtractionResult } from '@/lib/document-extraction';
+import type { KnowledgeIndexDocument, KnowledgeSyncResult } from '@/lib/knowledge-retrieval';
+import type { ApiResult } from '@/types/common';
+import { useToast } from './use-toast';
+import { useAuth } from './useAuth';
+import { useWorkspaceCatalog } from './use-workspace-catalog';
 
 const KNOWLEDGE_BASE_KEY = 'aiTeleSuiteKnowledgeBase_v5_with_data_uri';
+const CATALOG_WRITE_DENIED = 'Your role cannot change the knowledge base.';
+
+// --- Retrieval index sync ---
+// The knowledge base lives in the browser, so editors push it to the server-side
+// retrieval index. Uploads are only readable while their data URI is in memory,
+// which is why addFilesBatch indexes them immediately; the debounced snapshot
+// sync afterwards keeps metadata current and prunes deleted entries.
+const KNOWLEDGE_INDEX_API = '/api/knowledge-base/index';
+const INDEX_SYNC_DELAY_MS = 1500;
+
+// Truncated extractions are indexed from the original file at upload time instead.
+const toIndexDocument = (file: KnowledgeFile): KnowledgeIndexDocument => {
+    const text = file.extraction?.truncated ? undefined : file.textContent;
+    const needsFile = !file.isTextEntry && !text && file.extraction?.status !== 'failed'
+        && detectDocumentFormat(file.name, file.type) !== null;
+    return {
+        id: file.id,
+        name: file.name,
+        type: file.type,
+        product: file.product,
+        category: file.category,
+        text,
+        dataUri: needsFile ? file.dataUri : undefined,
+    };
+};
+
+async function syncKnowledgeIndex(files: KnowledgeFile[], prune: boolean): Promise<KnowledgeSyncResult> {
+    const response = await fetch(KNOWLEDGE_INDEX_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documents: files.map(toIndexDocument), prune }),
+        cache: 'no-store',
+    });
+    const result = (await response.json()) as ApiResult<KnowledgeSyncResult>;
+    if (!result.ok) {
+        throw new Error(result.error);
+    }
+    return result.data;
+}
+// --- End Retrieval index sync ---
+
+// --- Upload text extraction ---
+const EXTRACTION_API = '/api/knowledge-base/extract';
+const EXTRACTION_BATCH_SIZE = 10;
+
+/**
+ * Extracts the text of uploads on the server, in batches to keep requests small.
+ * Files the server cannot read come back as failed rather than rejecting the batch.
+ */
+async function extractUploadedText(files: File[]): Promise<FileExtractionResult[]> {
+    const results: FileExtractionResult[] = [];
+    for (let start = 0; start < files.length; start += EXTRACTION_BATCH_SIZE) {
+        const batch = files.slice(start, start + EXTRACTION_BATCH_SIZE);
+        const body = new FormData();
+        batch.forEach(file => body.append('files', file));
+        try {
+            const response = await fetch(EXTRACTION_API, { method: 'POST', body, cache: 'no-store' });
+            const result = (await response.json()) as ApiResult<FileExtractionResult[]>;
+            if (!result.ok) {
+                throw new Error(result.error);
+            }
+            results.push(...result.data);
+        } catch (error) {
+            const message = `Text extraction request failed: ${error instanceof Error ? error.message : String(error)}`;
+            results.push(...batch.map(file => ({ name: file.name, extraction: { status: 'failed' as const, error: message } })));
+        }
+    }
+    return results;
+}
+// --- End Upload text extraction ---
 
 // --- Default Knowledge Base Content ---
 const defaultKnowledgeBase: KnowledgeFile[] = [
@@ -204,7 +280,10 @@ interface KnowledgeBaseContextType {
 const KnowledgeBaseContext = createContext<KnowledgeBaseContextType | undefined>(undefined);
 
 export const KnowledgeBaseProvider = ({ children }: { children: ReactNode }) => {
-    const [files, setFiles] = useLocalStorage<KnowledgeFile[]>(KNOWLEDGE_BASE_KEY, defaultKnowledgeBase);
+    const { workspaceId, hasPermission } = useAuth();
+    const { toast } = useToast();
+    const [files, setFiles] = useWorkspaceCatalog('knowledge-files', KNOWLEDGE_BASE_KEY, defaultKnowledgeBase);
+    const canEditCatalog = hasPermission('catalog:write');
 
     // --- DATA MIGRATION ---
     useEffect(() => {
@@ -224,10 +303,22 @@ export const KnowledgeBaseProvider = ({ children }: { children: ReactNode }) =>
             setFiles(migratedFiles);
         }
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [files, setFiles]);
+
+    useEffect(() => {
+        if (!canEditCatalog || !files) return;
+        const timer = setTimeout(() => {
+            syncKnowledgeIndex(files, true).catch(error =>
+                console.warn('Failed to sync the knowledge base retrieval index:', error)
+            );
+        }, INDEX_SYNC_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [files, canEditCatalog, workspaceId]);
 
     const addFile = useCallback(async (entryData: RawTextKnowledgeEntry): Promise<KnowledgeFile> => {
+        if (!canEditCatalog) {
+            throw new Error(CATALOG_WRITE_DENIED);
+        }
         const textFile = new File(
           [entryData.textContent],
           `${(entryData.name || 'text-entry').replace(/[^a-z0-9_\-]/gi, '_')}.txt`,
@@ -254,10 +345,13 @@ export const KnowledgeBaseProvider = ({ children }: { children: ReactNode }) =>
         });
         
         return newEntry;
-    }, [setFiles]);
+    }, [setFiles, canEditCatalog]);
 
 
     const addFilesBatch = useCallback(async (entriesData: RawKnowledgeEntry[]): Promise<KnowledgeFile[]> => {
+        if (!canEditCatalog) {
+            throw new Error(CATALOG_WRITE_DENIED);
+        }
         const newEntriesPromises = entriesData.map(async (entryData, index) => {
             const file = entryData.file;
             const sessionDataUri = await fileToDataUrl(file);
@@ -279,6 +373,21 @@ export const KnowledgeBaseProvider = ({ children }: { children: ReactNode }) =>
 
         const newEntriesWithDataUri = await Promise.all(newEntriesPromises);
 
+        const extractable = entriesData
+            .map((entryData, index) => ({ file: entryData.file, entry: newEntriesWithDataUri[index] }))
+            .filter(({ file }) => detectDocumentFormat(file.name, file.type) !== null);
+        if (extractable.length > 0) {
+            const results = await extractUploadedText(extractable.map(({ file }) => file));
+            extractable.forEach(({ entry }, index) => {
+                entry.textContent = results[index]?.textContent;
+                entry.extraction = results[index]?.extraction;
+            });
+        }
+
+        syncKnowledgeIndex(newEntriesWithDataUri, false).catch(error =>
+            console.warn('Failed to index the uploaded knowledge base files:', error)
+        );
+
         const newEntriesForStorage = newEntriesWithDataUri.map(entry => {
             const { dataUri, ...rest } = entry;
             return rest;
@@ -291,14 +400,18 @@ export const KnowledgeBaseProvider = ({ children }: { children: ReactNode }) =>
         });
         
         return newEntriesWithDataUri;
-    }, [setFiles]);
+    }, [setFiles, canEditCatalog]);
 
 
     const deleteFile = useCallback((id: string) => {
+        if (!canEditCatalog) {
+            toast({ variant: "destructive", title: "Not Allowed", description: CATALOG_WRITE_DENIED });
+            return;
+        }
         setFiles(prevFiles => {
         return (prevFiles || []).filter(file => file.id !== id);
         });
-    }, [setFiles]);
+    }, [setFiles, canEditCatalog, toast]);
     
     const value = { files: files || [], addFile, addFilesBatch, deleteFile, setFiles };
 
@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TranscriptCorrectionsResponse } from '@/lib/transcript-corrections-store';
+import type { SaveTranscriptCorrectionInput } from '@/lib/transcript/corrections';
+import type { ApiResult } from '@/types/common';
+
+async function correctionsRequest(url: string, init?: RequestInit): Promise<TranscriptCorrectionsResponse> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<TranscriptCorrectionsResponse>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+const correctionsUrl = (activityId: string, version?: number) =>
+  `/api/transcript-corrections/${encodeURIComponent(activityId)}${version === undefined ? '' : `?version=${version}`}`;
+
+export interface TranscriptCorrections {
+  /** The version being viewed and the list of all versions; null until loaded */
+  data: TranscriptCorrectionsResponse | null;
+  /** The newest version; edits are only made on it */
+  latest: TranscriptCorrectionsResponse['version'] | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Show an earlier version, or the latest one when `version` is omitted */
+  loadVersion: (version?: number) => Promise<void>;
+  /** Save edits as the next version; throws with the server's message on failure */
+  save: (input: SaveTranscriptCorrectionInput) => Promise<void>;
+}
+
+/**
+ * Versions of a call's corrected transcript (see /api/transcript-corrections).
+ * Pass null while no call is selected.
+ */
+export function useTranscriptCorrections(activityId: string | null): TranscriptCorrections {
+  const [data, setData] = useState<TranscriptCorrectionsResponse | null>(null);
+  const [latest, setLatest] = useState<TranscriptCorrectionsResponse['version'] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersion = useCallback(async (version?: number) => {
+    if (!activityId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await correctionsRequest(correctionsUrl(activityId, version));
+      setData(response);
+      if (response.version.version === response.versions[0]?.version) setLatest(response.version);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activityId]);
+
+  useEffect(() => {
+    setData(null);
+    setLatest(null);
+    void loadVersion();
+  }, [loadVersion]);
+
+  const save = useCallback(async (input: SaveTranscriptCorrectionInput) => {
+    if (!activityId) return;
+    const response = await correctionsRequest(correctionsUrl(activityId), { method: 'PUT', body: JSON.stringify(input) });
+    setData(response);
+    setLatest(response.version);
+  }, [activityId]);
+
+  return { data, latest, isLoading, error, loadVersion, save };
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+
+/** How often the playback position is published while playing; enough for word highlighting */
+const POSITION_UPDATE_INTERVAL_MS = 100;
+
+export interface TranscriptPlayback {
+  /** Ref callback for the <audio> element that plays the recording */
+  attachAudio: (element: HTMLAudioElement | null) => void;
+  currentTimeS: number;
+  durationS: number;
+  isPlaying: boolean;
+  /** Whether a recording is attached; without one, seeking only moves the highlight */
+  hasAudio: boolean;
+  seek: (seconds: number, options?: { play?: boolean }) => void;
+  togglePlay: () => void;
+}
+
+/**
+ * Playback state shared by a transcript and its recording, so the transcript
+ * can follow the audio and clicks on turns or evidence can seek it. Create it
+ * in the component that owns both, and pass it to TranscriptAudioPlayer and
+ * TranscriptViewer.
+ */
+export function useTranscriptPlayback(): TranscriptPlayback {
+  const [audio, attachAudio] = useState<HTMLAudioElement | null>(null);
+  const [currentTimeS, setCurrentTimeS] = useState(0);
+  const [durationS, setDurationS] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!audio) return;
+    const syncDuration = () => setDurationS(Number.isFinite(audio.duration) ? audio.duration : 0);
+    const syncTime = () => setCurrentTimeS(audio.currentTime);
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => {
+      setIsPlaying(false);
+      syncTime();
+    };
+    syncDuration();
+    audio.addEventListener('loadedmetadata', syncDuration);
+    audio.addEventListener('durationchange', syncDuration);
+    audio.addEventListener('seeked', syncTime);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
+    audio.addEventListener('ended', onPause);
+    return () => {
+      audio.removeEventListener('loadedmetadata', syncDuration);
+      audio.removeEventListener('durationchange', syncDuration);
+      audio.removeEventListener('seeked', syncTime);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+      audio.removeEventListener('ended', onPause);
+    };
+  }, [audio]);
+
+  // `timeupdate` fires only about four times a second, too coarse for word highlighting
+  useEffect(() => {
+    if (!isPlaying || !audio) return;
+    const timer = window.setInterval(() => setCurrentTimeS(audio.currentTime), POSITION_UPDATE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isPlaying, audio]);
+
+  const seek = useCallback((seconds: number, options: { play?: boolean } = {}) => {
+    const target = Math.max(0, seconds);
+    setCurrentTimeS(target);
+    if (!audio) return;
+    audio.currentTime = target;
+    if (options.play) {
+      audio.play().catch((error: unknown) => console.warn('Playback could not start:', error));
+    }
+  }, [audio]);
+
+  const togglePlay = useCallback(() => {
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error: unknown) => console.warn('Playback could not start:', error));
+    } else {
+      audio.pause();
+    }
+  }, [audio]);
+
+  return { attachAudio, currentTimeS, durationS, isPlaying, hasAudio: audio !== null, seek, togglePlay };
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { CatalogItems, CatalogKind, CatalogResponse } from '@/lib/catalog-store';
+import type { ApiResult } from '@/types/common';
+import { useAuth, workspaceStorageKey } from './useAuth';
+import { useToast } from './use-toast';
+
+/** Edits are saved once they settle, so typing in a form does not send a request per keystroke. */
+const SAVE_DELAY_MS = 500;
+
+async function catalogRequest<K extends CatalogKind>(kind: K, init?: RequestInit): Promise<CatalogResponse<K>> {
+  const response = await fetch(`/api/catalog/${kind}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    cache: 'no-store',
+  });
+  const result = (await response.json()) as ApiResult<CatalogResponse<K>>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+/** The list this browser kept before the catalog moved to the server, if any. */
+function readLegacyItems<K extends CatalogKind>(storageKey: string): CatalogItems[K] | null {
+  try {
+    const item = window.localStorage.getItem(storageKey);
+    return item ? (JSON.parse(item) as CatalogItems[K]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A workspace catalog list (products or knowledge base files) stored on the
+ * server via /api/catalog, so every member of the workspace shares it. Works
+ * like `useState`; changes by users with `catalog:write` are saved to the
+ * server. A workspace without a saved list starts from what this browser had
+ * in localStorage under `legacyStorageKey`, else from `defaults`.
+ */
+export function useWorkspaceCatalog<K extends CatalogKind>(
+  kind: K,
+  legacyStorageKey: string,
+  defaults: CatalogItems[K]
+): [CatalogItems[K], Dispatch<SetStateAction<CatalogItems[K]>>] {
+  const { user, workspaceId, hasPermission } = useAuth();
+  const { toast } = useToast();
+  const canWrite = hasPermission('catalog:write');
+  const [items, setItemsState] = useState<CatalogItems[K]>(defaults);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const hasUnsavedChanges = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    catalogRequest(kind)
+      .then((catalog) => {
+        if (cancelled) return;
+        if (catalog.items) {
+          hasUnsavedChanges.current = false;
+          setItemsState(catalog.items);
+        } else {
+          setItemsState(readLegacyItems<K>(workspaceStorageKey(legacyStorageKey, workspaceId)) ?? defaults);
+          hasUnsavedChanges.current = true;
+        }
+        setIsLoaded(true);
+      })
+      .catch((error: Error) => console.error(`Failed to load the workspace ${kind}:`, error.message));
+    return () => {
+      cancelled = true;
+    };
+    // `defaults` is a fallback only; reloading when its identity changes would discard edits
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, kind, legacyStorageKey, workspaceId]);
+
+  useEffect(() => {
+    if (!isLoaded || !canWrite || !hasUnsavedChanges.current) return;
+    const timer = setTimeout(() => {
+      hasUnsavedChanges.current = false;
+      catalogRequest(kind, { method: 'PUT', body: JSON.stringify({ items }) }).catch((error: Error) => {
+        hasUnsavedChanges.current = true;
+        toast({ variant: 'destructive', title: 'Changes Not Saved', description: error.message });
+      });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [items, isLoaded, canWrite, kind, toast]);
+
+  const setItems = useCallback<Dispatch<SetStateAction<CatalogItems[K]>>>((action) => {
+    hasUnsavedChanges.current = true;
+    setItemsState(action);
+  }, []);
+
+  return [items, setItems];
+}
@@ -1,27 +1,121 @@
+"use client";
 
-// Authentication functionality has been removed due to persistent parsing errors.
-// This file is kept to prevent build errors from potential lingering imports,
-// but it should ideally be deleted if no longer imported anywhere.
-// For user context, please use useUserProfile.ts.
-
-export const PREDEFINED_AGENTS: never[] = [];
-
-export const useAuth = () => {
-  console.warn("useAuth hook is deprecated and authentication has been removed. Use useUserProfile instead for profile switching.");
-  return {
-    loggedInAgent: null,
-    login: async () => {
-      console.warn("Login functionality is disabled.");
-      return false;
-    },
-    logout: () => {
-      console.warn("Logout functionality is disabled.");
-    },
-    isLoading: false,
-  };
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { DEFAULT_WORKSPACE_ID, type AuthUser, type Workspace } from '@/types';
+import type { ApiResult } from '@/types/common';
+import type { Permission, SessionInfo } from '@/lib/auth/roles';
+
+const SESSION_API = '/api/auth/session';
+
+type LoginResult = { ok: true } | { ok: false; error: string };
+
+interface AuthContextType {
+  user: AuthUser | null;
+  workspace: Workspace | null;
+  /** Workspace of the signed-in user, or the default workspace while signed out. */
+  workspaceId: string;
+  oidcEnabled: boolean;
+  /** True until the first session check has completed. */
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  logout: () => Promise<void>;
+  refreshSession: () => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
+}
+
+const EMPTY_SESSION: SessionInfo = { user: null, workspace: null, permissions: [], oidcEnabled: false };
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * localStorage key for browser-local data of a workspace, and for finding the
+ * products and knowledge base this browser kept before they moved to the
+ * server. The default workspace keeps the original key so data saved before
+ * workspaces existed is still picked up.
+ */
+export const workspaceStorageKey = (baseKey: string, workspaceId: string): string =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? baseKey : `${baseKey}:${workspaceId}`;
+
+async function fetchSession(): Promise<SessionInfo> {
+  const response = await fetch(SESSION_API, { cache: 'no-store' });
+  const result = (await response.json()) as ApiResult<SessionInfo>;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<SessionInfo>(EMPTY_SESSION);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshSession = useCallback(async () => {
+    try {
+      setSession(await fetchSession());
+    } catch (error) {
+      console.error('Could not load the current session:', error);
+      setSession(EMPTY_SESSION);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshSession();
+  }, [refreshSession]);
+
+  const login = useCallback(async (username: string, password: string): Promise<LoginResult> => {
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const result = (await response.json()) as ApiResult<{ user: AuthUser }>;
+      if (!result.ok) {
+        return { ok: false, error: result.error };
+      }
+      await refreshSession();
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message || 'Sign in failed. Please try again.' };
+    }
+  }, [refreshSession]);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout request failed:', error);
+    }
+    setSession((prev) => ({ ...EMPTY_SESSION, oidcEnabled: prev.oidcEnabled }));
+    window.location.assign('/login');
+  }, []);
+
+  const hasPermission = useCallback(
+    (permission: Permission) => session.permissions.includes(permission),
+    [session.permissions]
+  );
+
+  const value = useMemo<AuthContextType>(() => ({
+    user: session.user,
+    workspace: session.workspace,
+    workspaceId: session.user?.workspaceId ?? DEFAULT_WORKSPACE_ID,
+    oidcEnabled: session.oidcEnabled,
+    isLoading,
+    login,
+    logout,
+    refreshSession,
+    hasPermission,
+  }), [session, isLoading, login, logout, refreshSession, hasPermission]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
-export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  console.warn("AuthProvider is deprecated and has no effect. UserProfileProvider should be used if profile context is needed.");
-  return <>{children}</>;
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
 };
@@ -2,9 +2,10 @@
 "use client";
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
-import { useLocalStorage } from './use-local-storage';
 import { ProductObject } from '@/types';
 import { useToast } from './use-toast';
+import { useAuth } from './useAuth';
+import { useWorkspaceCatalog } from './use-workspace-catalog';
 
 const AVAILABLE_PRODUCTS_KEY = 'aiTeleSuiteAvailableProducts_v3';
 
@@ -87,8 +88,9 @@ const DEFAULT_PRODUCT_NAMES = defaultProducts.map(p => p.name);
 
 export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { toast } = useToast();
+  const { hasPermission } = useAuth();
   
-  const [storedProducts, setStoredProducts] = useLocalStorage<ProductObject[]>(AVAILABLE_PRODUCTS_KEY, defaultProducts);
+  const [storedProducts, setStoredProducts] = useWorkspaceCatalog('products', AVAILABLE_PRODUCTS_KEY, defaultProducts);
   const [selectedProduct, setSelectedProduct] = useState<string | undefined>(undefined);
   
   useEffect(() => {
@@ -142,7 +144,14 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, [storedProducts, setStoredProducts]);
 
+  const ensureCanEditCatalog = useCallback((): boolean => {
+    if (hasPermission('catalog:write')) return true;
+    toast({ variant: "destructive", title: "Not Allowed", description: "Your role cannot change the product catalog." });
+    return false;
+  }, [hasPermission, toast]);
+
   const addProduct = useCallback((product: Omit<ProductObject, 'name'>): boolean => {
+    if (!ensureCanEditCatalog()) return false;
     if (!product.displayName || !product.displayName.trim()) {
         toast({ variant: "destructive", title: "Invalid Name", description: "Display name cannot be empty." });
         return false;
@@ -161,10 +170,11 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setStoredProducts(newProductList);
     toast({ title: "Product Added", description: `"${product.displayName}" has been added.` });
     return true;
-  }, [storedProducts, setStoredProducts, toast]);
+  }, [storedProducts, setStoredProducts, toast, ensureCanEditCatalog]);
 
 
   const editProduct = useCallback((originalName: string, updatedProductData: Omit<ProductObject, 'name'>): boolean => {
+    if (!ensureCanEditCatalog()) return false;
     if (!updatedProductData.displayName.trim()) {
       toast({ variant: "destructive", title: "Invalid Name", description: "Display name cannot be empty." });
       return false;
@@ -177,9 +187,10 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     toast({ title: "Product Updated", description: `"${updatedProductData.displayName}" has been updated.` });
     return true;
 
-  }, [setStoredProducts, toast]);
+  }, [setStoredProducts, toast, ensureCanEditCatalog]);
   
   const deleteProduct = useCallback((nameToDelete: string): boolean => {
+    if (!ensureCanEditCatalog()) return false;
     if (DEFAULT_PRODUCT_NAMES.includes(nameToDelete)) {
       toast({ variant: "destructive", title: "Action Forbidden", description: "Default products cannot be deleted." });
       return false;
@@ -187,7 +198,7 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setStoredProducts(prev => prev.filter(p => p.name !== nameToDelete));
     toast({ title: "Product Deleted", description: `A product has been removed.` });
     return true;
-  }, [setStoredProducts, toast]);
+  }, [setStoredProducts, toast, ensureCanEditCatalog]);
 
   const getProductByName = useCallback((name: string) => {
     return storedProducts.find(p => p.name === name);
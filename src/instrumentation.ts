@@ -0,0 +1,19 @@
+/**
+ * Runs once when the Next.js server starts. Starts the batch call-scoring and
+ * voice simulation workers so jobs queued before a restart resume without
+ * waiting for the next request, and the scheduler that polls recording
+ * ingestion sources. Webhook deliveries cut short by the restart are marked
+ * failed so they can be replayed.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScoringWorkers } = await import('@/lib/jobs/worker');
+    startScoringWorkers();
+    const { startSimulationWorkers } = await import('@/lib/jobs/simulation-worker');
+    startSimulationWorkers();
+    const { startIngestionScheduler } = await import('@/lib/ingestion/scheduler');
+    startIngestionScheduler();
+    const { failInterruptedWebhookDeliveries } = await import('@/lib/webhooks/store');
+    failInterruptedWebhookDeliveries();
+  }
+}
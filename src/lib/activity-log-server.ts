@@ -1,24 +1,104 @@
-
 /**
  * THIS IS A SERVER-SIDE-ONLY MODULE.
- * It is designed to be a placeholder for a true server-side storage mechanism (like Firestore).
- * This file is now deprecated because the application has reverted to a synchronous workflow
- * and no longer uses a background orchestrator.
- *
- * This file can be safely deleted.
- */import { ActivityLogEntry } from '@/types';
+ * Repository for the shared activity history. All `/api/activities` routes and
+ * any server-side flow that records or updates activity go through here, so the
+ * storage adapter (see `src/lib/activity-store`) can be swapped in one place.
+ */
+import type { ActivityLogEntry } from '@/types';
+import type { Paginated } from '@/types/common';
+import { getActivityStore, entryInScope, type ActivityQuery, type ActivityScope } from '@/lib/activity-store';
+import { hasPermission } from '@/lib/auth/roles';
+import type { RequestIdentity } from '@/lib/auth/server';
+
+/**
+ * The part of the history a caller may see: their workspace, narrowed to their
+ * own entries unless their role can review the whole workspace.
+ */
+export const activityScopeFor = (identity: RequestIdentity): ActivityScope => ({
+  workspaceId: identity.workspaceId,
+  agentId: hasPermission(identity.role, 'activity:read:workspace') ? undefined : identity.userId,
+});
+
+/** Entries are written by their owner only, even for roles that can read the whole workspace. */
+export const ownershipScopeFor = (identity: RequestIdentity): ActivityScope => ({
+  workspaceId: identity.workspaceId,
+  agentId: identity.role === 'admin' ? undefined : identity.userId,
+});
+
+/** Stamps entries with the caller's identity so clients cannot record activity on someone else's behalf. */
+export const attributeActivities = (entries: ActivityLogEntry[], identity: RequestIdentity): ActivityLogEntry[] =>
+  entries.map((entry) => ({
+    ...entry,
+    agentId: identity.userId,
+    agentName: identity.displayName || entry.agentName,
+    workspaceId: identity.workspaceId,
+  }));
+
+export async function listActivities(query: ActivityQuery): Promise<Paginated<ActivityLogEntry>> {
+  const store = await getActivityStore();
+  return store.list(query);
+}
+
+export async function getActivity(activityId: string): Promise<ActivityLogEntry | null> {
+  const store = await getActivityStore();
+  return store.get(activityId);
+}
 
 /**
- * A server-side function to simulate updating an activity log entry.
- * In a real application, this would write to Firestore, Redis, or another shared database.
- * This function is deprecated.
- * @param activityId The ID of the activity to update.
- * @param updatedDetails The details to merge into the existing activity.
+ * Upserts entries. With a `scope`, ids that already belong to an entry outside
+ * the scope are rejected instead of being overwritten.
  */
-export async function updateActivityInLocalStorage(
+export async function saveActivities(entries: ActivityLogEntry[], scope?: ActivityScope): Promise<ActivityLogEntry[]> {
+  const store = await getActivityStore();
+  if (scope) {
+    for (const entry of entries) {
+      const existing = await store.get(entry.id);
+      if (existing && !entryInScope(existing, scope)) {
+        throw new Error(`Activity '${entry.id}' belongs to another user or workspace.`);
+      }
+    }
+  }
+  await store.upsert(entries);
+  return entries;
+}
+
+/**
+ * Shallow-merges `updatedDetails` into the stored entry's details, mirroring
+ * `updateActivity` in the client-side `ActivityLogProvider`.
+ */
+export async function updateActivityDetails(
   activityId: string,
   updatedDetails: Partial<ActivityLogEntry['details']>
-): Promise<void> {
-  console.log(`[Server-Side Simulation - DEPRECATED] Would have updated activity '${activityId}' with status:`, updatedDetails.status);
-  return Promise.resolve();
+): Promise<ActivityLogEntry | null> {
+  const store = await getActivityStore();
+  const existing = await store.get(activityId);
+  if (!existing) return null;
+  const currentDetails =
+    typeof existing.details === 'object' && existing.details !== null ? existing.details : {};
+  return store.patch(activityId, { details: { ...currentDetails, ...(updatedDetails as object) } });
+}
+
+export async function updateActivityFeedback(
+  activityId: string,
+  userFeedback: NonNullable<ActivityLogEntry['userFeedback']>
+): Promise<ActivityLogEntry | null> {
+  const store = await getActivityStore();
+  return store.patch(activityId, { userFeedback });
+}
+
+/** Deletes the given entries; with a `scope`, ids outside it are skipped. */
+export async function deleteActivities(activityIds: string[], scope?: ActivityScope): Promise<number> {
+  const store = await getActivityStore();
+  if (!scope) return store.delete(activityIds);
+  const allowed: string[] = [];
+  for (const id of activityIds) {
+    const existing = await store.get(id);
+    if (existing && entryInScope(existing, scope)) allowed.push(id);
+  }
+  return allowed.length ? store.delete(allowed) : 0;
+}
+
+export async function clearActivities(scope?: ActivityScope): Promise<number> {
+  const store = await getActivityStore();
+  return store.clear(scope);
 }
@@ -0,0 +1,55 @@
+/**
+ * Server-side activity store selection.
+ *
+ * `ACTIVITY_STORE_DRIVER` picks the adapter (`sqlite` by default, or `memory`).
+ * `ACTIVITY_STORE_PATH` sets the SQLite file (defaults to `.data/activity-log.db`).
+ * Other backends can be plugged in with `registerActivityStoreAdapter`.
+ */
+
+import path from 'path';
+import type { ActivityStoreAdapter } from './types';
+
+export * from './types';
+
+type AdapterFactory = () => Promise<ActivityStoreAdapter>;
+
+const DEFAULT_SQLITE_PATH = path.join(process.cwd(), '.data', 'activity-log.db');
+
+const factories = new Map<string, AdapterFactory>([
+  [
+    'sqlite',
+    async () => {
+      const { SqliteActivityStore } = await import('./sqlite-adapter');
+      return new SqliteActivityStore(process.env.ACTIVITY_STORE_PATH || DEFAULT_SQLITE_PATH);
+    },
+  ],
+  [
+    'memory',
+    async () => {
+      const { MemoryActivityStore } = await import('./memory-adapter');
+      return new MemoryActivityStore();
+    },
+  ],
+]);
+
+let activeStore: Promise<ActivityStoreAdapter> | null = null;
+
+export function registerActivityStoreAdapter(name: string, factory: AdapterFactory): void {
+  factories.set(name, factory);
+  activeStore = null;
+}
+
+export function getActivityStore(): Promise<ActivityStoreAdapter> {
+  if (!activeStore) {
+    const driver = process.env.ACTIVITY_STORE_DRIVER || 'sqlite';
+    const factory = factories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown ACTIVITY_STORE_DRIVER "${driver}". Registered drivers: ${[...factories.keys()].join(', ')}`);
+    }
+    activeStore = factory().catch((error: unknown) => {
+      activeStore = null;
+      throw error;
+    });
+  }
+  return activeStore;
+}
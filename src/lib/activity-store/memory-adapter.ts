@@ -0,0 +1,80 @@
+import type { ActivityLogEntry } from '@/types';
+import type { Paginated } from '@/types/common';
+import {
+  clampPageSize,
+  decodeCursor,
+  encodeCursor,
+  entryInScope,
+  type ActivityPatch,
+  type ActivityQuery,
+  type ActivityScope,
+  type ActivityStoreAdapter,
+} from './types';
+
+const compareNewestFirst = (a: ActivityLogEntry, b: ActivityLogEntry): number => {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+};
+
+/**
+ * Process-local adapter. History is lost on restart; intended for read-only
+ * hosts (serverless deployments without a writable disk) and local experiments.
+ */
+export class MemoryActivityStore implements ActivityStoreAdapter {
+  readonly name = 'memory';
+  private entries = new Map<string, ActivityLogEntry>();
+
+  list(query: ActivityQuery): Promise<Paginated<ActivityLogEntry>> {
+    const limit = clampPageSize(query.limit);
+    const after = decodeCursor(query.cursor);
+
+    const matching = [...this.entries.values()]
+      .filter((entry) => entryInScope(entry, query))
+      .filter((entry) => !query.module?.length || query.module.includes(entry.module))
+      .filter((entry) => !query.product || entry.product === query.product)
+      .filter((entry) => !query.agentName || entry.agentName === query.agentName)
+      .filter(
+        (entry) =>
+          !after ||
+          entry.timestamp < after.timestamp ||
+          (entry.timestamp === after.timestamp && entry.id < after.id)
+      )
+      .sort(compareNewestFirst);
+
+    const items = matching.slice(0, limit);
+    return Promise.resolve({
+      items,
+      nextCursor: matching.length > limit ? encodeCursor(items[items.length - 1]) : null,
+    });
+  }
+
+  get(id: string): Promise<ActivityLogEntry | null> {
+    return Promise.resolve(this.entries.get(id) ?? null);
+  }
+
+  upsert(entries: ActivityLogEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.id, entry);
+    }
+    return Promise.resolve();
+  }
+
+  patch(id: string, patch: ActivityPatch): Promise<ActivityLogEntry | null> {
+    const existing = this.entries.get(id);
+    if (!existing) return Promise.resolve(null);
+    const updated = { ...existing, ...patch };
+    this.entries.set(id, updated);
+    return Promise.resolve(updated);
+  }
+
+  delete(ids: string[]): Promise<number> {
+    return Promise.resolve(ids.filter((id) => this.entries.delete(id)).length);
+  }
+
+  clear(scope?: ActivityScope): Promise<number> {
+    const toRemove = [...this.entries.values()].filter((entry) => entryInScope(entry, scope));
+    toRemove.forEach((entry) => this.entries.delete(entry.id));
+    return Promise.resolve(toRemove.length);
+  }
+}
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DEFAULT_WORKSPACE_ID, type ActivityLogEntry, type TranscriptFeedback } from '@/types';
+import type { Paginated } from '@/types/common';
+import {
+  clampPageSize,
+  decodeCursor,
+  encodeCursor,
+  type ActivityPatch,
+  type ActivityQuery,
+  type ActivityScope,
+  type ActivityStoreAdapter,
+} from './types';
+
+type ActivityRow = {
+  id: string;
+  timestamp: string;
+  module: string;
+  product: string | null;
+  agent_name: string | null;
+  agent_id: string | null;
+  workspace_id: string | null;
+  details: string | null;
+  user_feedback: string | null;
+};
+
+const parseJsonColumn = <T>(value: string | null): T | undefined =>
+  value === null ? undefined : (JSON.parse(value) as T);
+
+const rowToEntry = (row: ActivityRow): ActivityLogEntry => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  module: row.module,
+  product: row.product ?? undefined,
+  agentName: row.agent_name ?? undefined,
+  agentId: row.agent_id ?? undefined,
+  workspaceId: row.workspace_id ?? undefined,
+  details: parseJsonColumn<unknown>(row.details),
+  userFeedback: parseJsonColumn<TranscriptFeedback>(row.user_feedback),
+});
+
+const entryToRow = (entry: ActivityLogEntry): ActivityRow => ({
+  id: entry.id,
+  timestamp: entry.timestamp,
+  module: entry.module,
+  product: entry.product ?? null,
+  agent_name: entry.agentName ?? null,
+  agent_id: entry.agentId ?? null,
+  workspace_id: entry.workspaceId ?? null,
+  details: entry.details === undefined ? null : JSON.stringify(entry.details),
+  user_feedback: entry.userFeedback === undefined ? null : JSON.stringify(entry.userFeedback),
+});
+
+/**
+ * Default adapter: a single SQLite file on local disk.
+ * Details and feedback are stored as JSON text so no payload is truncated.
+ */
+export class SqliteActivityStore implements ActivityStoreAdapter {
+  readonly name = 'sqlite';
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS activities (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        module TEXT NOT NULL,
+        product TEXT,
+        agent_name TEXT,
+        details TEXT,
+        user_feedback TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_activities_order ON activities (timestamp DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_activities_module ON activities (module, timestamp DESC);
+    `);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const columns = new Set(
+      (this.db.prepare('PRAGMA table_info(activities)').all() as Array<{ name: string }>).map((column) => column.name)
+    );
+    if (!columns.has('agent_id')) {
+      this.db.exec('ALTER TABLE activities ADD COLUMN agent_id TEXT');
+    }
+    if (!columns.has('workspace_id')) {
+      // Entries recorded before workspaces existed belong to the default workspace.
+      this.db.exec(`ALTER TABLE activities ADD COLUMN workspace_id TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE_ID}'`);
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_activities_workspace ON activities (workspace_id, timestamp DESC)');
+  }
+
+  private scopeClauses(scope: ActivityScope | undefined, params: Record<string, string | number>): string[] {
+    const where: string[] = [];
+    if (scope?.workspaceId) {
+      where.push('workspace_id = @workspaceId');
+      params.workspaceId = scope.workspaceId;
+    }
+    if (scope?.agentId) {
+      where.push('agent_id = @agentId');
+      params.agentId = scope.agentId;
+    }
+    return where;
+  }
+
+  list(query: ActivityQuery): Promise<Paginated<ActivityLogEntry>> {
+    const limit = clampPageSize(query.limit);
+    const after = decodeCursor(query.cursor);
+    const params: Record<string, string | number> = { limit: limit + 1 };
+    const where = this.scopeClauses(query, params);
+
+    if (query.module?.length) {
+      const keys = query.module.map((module, index) => {
+        params[`module${index}`] = module;
+        return `@module${index}`;
+      });
+      where.push(`module IN (${keys.join(', ')})`);
+    }
+    if (query.product) {
+      where.push('product = @product');
+      params.product = query.product;
+    }
+    if (query.agentName) {
+      where.push('agent_name = @agentName');
+      params.agentName = query.agentName;
+    }
+    if (after) {
+      where.push('(timestamp < @afterTimestamp OR (timestamp = @afterTimestamp AND id < @afterId))');
+      params.afterTimestamp = after.timestamp;
+      params.afterId = after.id;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM activities ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+         ORDER BY timestamp DESC, id DESC LIMIT @limit`
+      )
+      .all(params) as ActivityRow[];
+
+    const items = rows.slice(0, limit).map(rowToEntry);
+    return Promise.resolve({
+      items,
+      nextCursor: rows.length > limit ? encodeCursor(items[items.length - 1]) : null,
+    });
+  }
+
+  get(id: string): Promise<ActivityLogEntry | null> {
+    const row = this.db.prepare('SELECT * FROM activities WHERE id = ?').get(id) as ActivityRow | undefined;
+    return Promise.resolve(row ? rowToEntry(row) : null);
+  }
+
+  upsert(entries: ActivityLogEntry[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO activities (id, timestamp, module, product, agent_name, agent_id, workspace_id, details, user_feedback)
+      VALUES (@id, @timestamp, @module, @product, @agent_name, @agent_id, COALESCE(@workspace_id, '${DEFAULT_WORKSPACE_ID}'), @details, @user_feedback)
+    `);
+    this.db.transaction((rows: ActivityRow[]) => {
+      for (const row of rows) insert.run(row);
+    })(entries.map(entryToRow));
+    return Promise.resolve();
+  }
+
+  async patch(id: string, patch: ActivityPatch): Promise<ActivityLogEntry | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+    const updated: ActivityLogEntry = { ...existing, ...patch };
+    await this.upsert([updated]);
+    return updated;
+  }
+
+  delete(ids: string[]): Promise<number> {
+    if (ids.length === 0) return Promise.resolve(0);
+    const remove = this.db.prepare('DELETE FROM activities WHERE id = ?');
+    const removed = this.db.transaction((toRemove: string[]) =>
+      toRemove.reduce((count, id) => count + remove.run(id).changes, 0)
+    )(ids);
+    return Promise.resolve(removed);
+  }
+
+  clear(scope?: ActivityScope): Promise<number> {
+    const params: Record<string, string | number> = {};
+    const where = this.scopeClauses(scope, params);
+    const sql = `DELETE FROM activities ${where.length ? `WHERE ${where.join(' AND ')}` : ''}`;
+    return Promise.resolve(this.db.prepare(sql).run(params).changes);
+  }
+}
@@ -0,0 +1,65 @@
+import type { ActivityLogEntry } from '@/types';
+import type { Paginated } from '@/types/common';
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 50;
+export const MAX_ACTIVITY_PAGE_SIZE = 200;
+
+/** Restricts reads and bulk deletes to one workspace and, optionally, one user's entries. */
+export interface ActivityScope {
+  workspaceId?: string;
+  agentId?: string;
+}
+
+export interface ActivityQuery extends ActivityScope {
+  module?: string[];
+  product?: string;
+  agentName?: string;
+  /** Opaque cursor returned as `nextCursor` by the previous page. */
+  cursor?: string | null;
+  limit?: number;
+}
+
+export type ActivityPatch = Partial<Pick<ActivityLogEntry, 'details' | 'userFeedback' | 'product'>>;
+
+export const entryInScope = (entry: ActivityLogEntry, scope: ActivityScope | undefined): boolean =>
+  (!scope?.workspaceId || entry.workspaceId === scope.workspaceId) && (!scope?.agentId || entry.agentId === scope.agentId);
+
+/**
+ * Storage backend for the server-side activity history.
+ * Entries are always returned newest first (timestamp, then id, descending).
+ */
+export interface ActivityStoreAdapter {
+  readonly name: string;
+  list(_query: ActivityQuery): Promise<Paginated<ActivityLogEntry>>;
+  get(_id: string): Promise<ActivityLogEntry | null>;
+  /** Inserts entries, replacing any existing entry with the same id. */
+  upsert(_entries: ActivityLogEntry[]): Promise<void>;
+  /** Replaces the given top-level fields. Returns null if the entry does not exist. */
+  patch(_id: string, _patch: ActivityPatch): Promise<ActivityLogEntry | null>;
+  delete(_ids: string[]): Promise<number>;
+  /** Deletes every entry inside the scope (everything when the scope is empty). */
+  clear(_scope?: ActivityScope): Promise<number>;
+}
+
+type CursorPosition = { timestamp: string; id: string };
+
+export const encodeCursor = (entry: Pick<ActivityLogEntry, 'timestamp' | 'id'>): string =>
+  Buffer.from(JSON.stringify([entry.timestamp, entry.id]), 'utf8').toString('base64url');
+
+export const decodeCursor = (cursor: string | null | undefined): CursorPosition | null => {
+  if (!cursor) return null;
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(parsed) && typeof parsed[0] === 'string' && typeof parsed[1] === 'string') {
+      return { timestamp: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid pagination cursor.');
+};
+
+export const clampPageSize = (limit: number | undefined): number => {
+  if (!limit || !Number.isFinite(limit) || limit <= 0) return DEFAULT_ACTIVITY_PAGE_SIZE;
+  return Math.min(Math.floor(limit), MAX_ACTIVITY_PAGE_SIZE);
+};
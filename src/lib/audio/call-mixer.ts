@@ -0,0 +1,97 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Assembles one recording from the turns of a voice agent session: each
+ * turn's audio is decoded, resampled to a common rate and laid end to end
+ * with a gap between turns, the agent on the left channel and the customer
+ * on the right. Turns without decodable audio keep their place in the
+ * timeline as silence of their estimated speaking time.
+ */
+import type { ConversationTurn, FullCallAudioSegment } from '@/types';
+import { RAW_PCM_MIME_TYPES, decodeRawPcm, decodeWav, encodeWav, isWav, resample, type DecodedAudio } from './wav';
+
+export const DEFAULT_MIX_SAMPLE_RATE = 16000;
+export const DEFAULT_INTER_TURN_GAP_MS = 400;
+const MAX_CALL_SECONDS = 60 * 60;
+const SPOKEN_WORDS_PER_SECOND = 2.5;
+
+export interface CallMixOptions {
+  sampleRate?: number;
+  interTurnGapMs?: number;
+}
+
+export interface CallMixResult {
+  /** Stereo 16-bit PCM WAV file. */
+  wav: Uint8Array;
+  sampleRate: number;
+  durationSeconds: number;
+  segments: FullCallAudioSegment[];
+  /** Turns whose own audio is in the mix, as opposed to silence standing in for them. */
+  mixedTurns: number;
+}
+
+/** Throws with the reason when the audio cannot be decoded. */
+export function decodeAudioDataUri(dataUri: string): DecodedAudio {
+  const comma = dataUri.indexOf(',');
+  if (!dataUri.startsWith('data:') || comma < 0) throw new Error('Only data URIs can be mixed.');
+  const header = dataUri.slice(5, comma);
+  const isBase64 = header.endsWith(';base64');
+  const mimeType = isBase64 ? header.slice(0, -';base64'.length) : header;
+  const payload = dataUri.slice(comma + 1);
+  const bytes = isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload), 'latin1');
+  if (isWav(bytes)) return decodeWav(bytes);
+  if (RAW_PCM_MIME_TYPES.includes(mimeType.split(';')[0].trim().toLowerCase())) return decodeRawPcm(bytes, mimeType);
+  throw new Error(`${mimeType || 'Untyped'} audio is not supported; only WAV and raw PCM can be mixed.`);
+}
+
+const estimatedSpeakingSeconds = (text: string): number =>
+  Math.max(0.5, text.trim().split(/\s+/).filter(Boolean).length / SPOKEN_WORDS_PER_SECOND);
+
+export function mixCallAudio(turns: ConversationTurn[], options: CallMixOptions = {}): CallMixResult {
+  const sampleRate = options.sampleRate ?? DEFAULT_MIX_SAMPLE_RATE;
+  const gap = Math.round(((options.interTurnGapMs ?? DEFAULT_INTER_TURN_GAP_MS) / 1000) * sampleRate);
+
+  const prepared = turns
+    .filter((turn) => !turn.isLive && (turn.audioDataUri || turn.text.trim()))
+    .map((turn) => {
+      if (turn.audioDataUri) {
+        try {
+          return { turn, samples: resample(decodeAudioDataUri(turn.audioDataUri), sampleRate) };
+        } catch (error) {
+          return { turn, length: Math.round(estimatedSpeakingSeconds(turn.text) * sampleRate), note: (error as Error).message };
+        }
+      }
+      return { turn, length: Math.round(estimatedSpeakingSeconds(turn.text) * sampleRate), note: 'The turn has no audio.' };
+    });
+
+  const totalLength = prepared.reduce((total, entry) => total + (entry.samples?.length ?? entry.length ?? 0), 0) + gap * Math.max(0, prepared.length - 1);
+  if (totalLength / sampleRate > MAX_CALL_SECONDS) {
+    throw new Error(`Calls longer than ${MAX_CALL_SECONDS / 60} minutes cannot be mixed.`);
+  }
+
+  const agent = new Float32Array(totalLength);
+  const customer = new Float32Array(totalLength);
+  const segments: FullCallAudioSegment[] = [];
+  let position = 0;
+  for (const [index, entry] of prepared.entries()) {
+    if (index > 0) position += gap;
+    const length = entry.samples?.length ?? entry.length ?? 0;
+    if (entry.samples) (entry.turn.speaker === 'AI' ? agent : customer).set(entry.samples, position);
+    segments.push({
+      turnId: entry.turn.id,
+      speaker: entry.turn.speaker,
+      startSeconds: Math.round((position / sampleRate) * 1000) / 1000,
+      endSeconds: Math.round(((position + length) / sampleRate) * 1000) / 1000,
+      source: entry.samples ? 'audio' : 'silence',
+      note: entry.note,
+    });
+    position += length;
+  }
+
+  return {
+    wav: encodeWav([agent, customer], sampleRate),
+    sampleRate,
+    durationSeconds: Math.round((totalLength / sampleRate) * 1000) / 1000,
+    segments,
+    mixedTurns: prepared.filter((entry) => entry.samples).length,
+  };
+}
@@ -0,0 +1,2 @@
+export { DEFAULT_INTER_TURN_GAP_MS, DEFAULT_MIX_SAMPLE_RATE, decodeAudioDataUri, mixCallAudio, type CallMixOptions, type CallMixResult } from './call-mixer';
+export { decodeWav, encodeWav, resample, type DecodedAudio } from './wav';
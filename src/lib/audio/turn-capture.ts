@@ -0,0 +1,81 @@
+"use client";
+
+/**
+ * Captures the microphone as PCM so each customer turn of a voice agent
+ * session can carry its own audio into the full-call mix, which only reads
+ * WAV and raw PCM (MediaRecorder produces WebM/Ogg).
+ */
+import { encodeWav, resample } from './wav';
+
+/** Rate of the captured turns; matches the full-call mix so the server does not resample them. */
+const TURN_SAMPLE_RATE = 16000;
+/** Longest turn kept; earlier audio is dropped so a forgotten open mic cannot grow without bound. */
+const MAX_TURN_SECONDS = 60;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+export interface TurnAudioCapture {
+  /** Drops what has been captured so far, e.g. while the agent is speaking. */
+  reset(): void;
+  /** The audio captured since the last reset or take, as a WAV data URI; null when nothing was captured. */
+  take(): string | null;
+  stop(): void;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function createTurnAudioCapture(context: AudioContext, source: AudioNode): TurnAudioCapture {
+  const maxSamples = MAX_TURN_SECONDS * context.sampleRate;
+  let chunks: Float32Array[] = [];
+  let length = 0;
+
+  const processor = context.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+  // A script processor only runs while connected to the destination; the zero gain keeps the mic inaudible.
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  processor.onaudioprocess = (event) => {
+    const chunk = new Float32Array(event.inputBuffer.getChannelData(0));
+    chunks.push(chunk);
+    length += chunk.length;
+    while (length - chunks[0].length >= maxSamples) {
+      length -= chunks.shift()!.length;
+    }
+  };
+  source.connect(processor);
+  processor.connect(mute);
+  mute.connect(context.destination);
+
+  const reset = () => {
+    chunks = [];
+    length = 0;
+  };
+
+  return {
+    reset,
+    take() {
+      if (!length) return null;
+      const samples = new Float32Array(length);
+      let offset = 0;
+      for (const chunk of chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+      }
+      reset();
+      const wav = encodeWav([resample({ sampleRate: context.sampleRate, samples }, TURN_SAMPLE_RATE)], TURN_SAMPLE_RATE);
+      return `data:audio/wav;base64,${bytesToBase64(wav)}`;
+    },
+    stop() {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+      mute.disconnect();
+      reset();
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * WAV and raw PCM decoding to mono float samples, linear resampling, and
+ * 16-bit PCM WAV encoding. Pure TypeScript: compressed formats (MP3, WebM,
+ * Ogg) are not decoded and are reported as unsupported.
+ */
+
+export interface DecodedAudio {
+  sampleRate: number;
+  /** Mono samples in [-1, 1]; multi-channel input is averaged. */
+  samples: Float32Array;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+function mulawToLinear(value: number): number {
+  const byte = ~value & 0xff;
+  const exponent = (byte >> 4) & 0x07;
+  const magnitude = (((byte & 0x0f) << 3) + 0x84) << exponent;
+  return (byte & 0x80 ? 0x84 - magnitude : magnitude - 0x84) / 32768;
+}
+
+function alawToLinear(value: number): number {
+  const byte = value ^ 0x55;
+  const exponent = (byte >> 4) & 0x07;
+  let magnitude = (byte & 0x0f) << 4;
+  magnitude = exponent === 0 ? magnitude + 8 : (magnitude + 0x108) << (exponent - 1);
+  return (byte & 0x80 ? magnitude : -magnitude) / 32768;
+}
+
+type SampleReader = (view: DataView, offset: number) => number;
+
+function sampleReader(format: number, bitsPerSample: number): SampleReader | null {
+  if (format === WAVE_FORMAT_PCM) {
+    if (bitsPerSample === 8) return (view, offset) => (view.getUint8(offset) - 128) / 128;
+    if (bitsPerSample === 16) return (view, offset) => view.getInt16(offset, true) / 32768;
+    if (bitsPerSample === 24) {
+      return (view, offset) => (view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)) / 8388608;
+    }
+    if (bitsPerSample === 32) return (view, offset) => view.getInt32(offset, true) / 2147483648;
+  }
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return (view, offset) => view.getFloat32(offset, true);
+    if (bitsPerSample === 64) return (view, offset) => view.getFloat64(offset, true);
+  }
+  if (format === WAVE_FORMAT_MULAW && bitsPerSample === 8) return (view, offset) => mulawToLinear(view.getUint8(offset));
+  if (format === WAVE_FORMAT_ALAW && bitsPerSample === 8) return (view, offset) => alawToLinear(view.getUint8(offset));
+  return null;
+}
+
+function decodeInterleaved(
+  bytes: Uint8Array,
+  read: SampleReader,
+  channels: number,
+  bytesPerSample: number,
+  sampleRate: number
+): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frameSize = channels * bytesPerSample;
+  const frames = Math.floor(bytes.byteLength / frameSize);
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(view, frame * frameSize + channel * bytesPerSample);
+    }
+    samples[frame] = Math.max(-1, Math.min(1, sum / channels));
+  }
+  return { sampleRate, samples };
+}
+
+export const isWav = (bytes: Uint8Array): boolean =>
+  bytes.byteLength >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE';
+
+/** Throws when the file is not a WAV file or uses an encoding that cannot be decoded. */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  if (!isWav(bytes)) throw new Error('Not a WAV file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: { code: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = ascii(bytes, offset, 4);
+    const declaredSize = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    // Streamed WAVs leave the data size at 0 or 0xFFFFFFFF; the data then runs to the end of the file.
+    const size = id === 'data' && (declaredSize === 0 || start + declaredSize > bytes.byteLength) ? bytes.byteLength - start : declaredSize;
+    if (id === 'fmt ') {
+      let code = view.getUint16(start, true);
+      if (code === WAVE_FORMAT_EXTENSIBLE && size >= 26) code = view.getUint16(start + 24, true);
+      format = { code, channels: view.getUint16(start + 2, true), sampleRate: view.getUint32(start + 4, true), bitsPerSample: view.getUint16(start + 14, true) };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk comes before its format chunk.');
+      const read = sampleReader(format.code, format.bitsPerSample);
+      if (!read || format.channels < 1 || format.sampleRate < 1) {
+        throw new Error(`Unsupported WAV encoding (format ${format.code}, ${format.bitsPerSample}-bit).`);
+      }
+      return decodeInterleaved(bytes.subarray(start, start + size), read, format.channels, format.bitsPerSample / 8, format.sampleRate);
+    }
+    offset = start + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data.');
+}
+
+/**
+ * Raw PCM with its layout in the MIME type parameters, as in `audio/L16;rate=24000;channels=1`
+ * (big-endian, per RFC 2586) or `audio/pcm;rate=16000` (little-endian 16-bit).
+ */
+export function decodeRawPcm(bytes: Uint8Array, mimeType: string): DecodedAudio {
+  const [type, ...parameters] = mimeType.toLowerCase().split(';').map((part) => part.trim());
+  const options = new Map(parameters.map((parameter) => parameter.split('=') as [string, string]));
+  const sampleRate = Number(options.get('rate'));
+  const channels = Number(options.get('channels') ?? 1);
+  if (!Number.isFinite(sampleRate) || sampleRate < 1) throw new Error(`${type} audio needs a rate parameter.`);
+  const littleEndian = type !== 'audio/l16';
+  const read: SampleReader = (view, offset) => view.getInt16(offset, littleEndian) / 32768;
+  return decodeInterleaved(bytes, read, channels, 2, sampleRate);
+}
+
+export const RAW_PCM_MIME_TYPES = ['audio/l16', 'audio/pcm', 'audio/x-pcm'];
+
+/** Linear interpolation, averaging over the source span when downsampling so speech does not alias. */
+export function resample(audio: DecodedAudio, targetRate: number): Float32Array {
+  if (audio.sampleRate === targetRate) return audio.samples;
+  const { samples } = audio;
+  const ratio = audio.sampleRate / targetRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let index = 0; index < output.length; index++) {
+    const position = index * ratio;
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.max(start + 1, Math.floor(position + ratio)));
+      let sum = 0;
+      for (let source = start; source < end; source++) sum += samples[source];
+      output[index] = sum / (end - start);
+    } else {
+      const base = Math.floor(position);
+      const next = Math.min(base + 1, samples.length - 1);
+      const fraction = position - base;
+      output[index] = samples[base] * (1 - fraction) + samples[next] * fraction;
+    }
+  }
+  return output;
+}
+
+/** A 16-bit PCM WAV file from one sample array per channel, all the same length. */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Uint8Array {
+  const frames = channels[0]?.length ?? 0;
+  const dataSize = frames * channels.length * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let index = 0; index < text.length; index++) bytes[offset + index] = text.charCodeAt(index);
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels.length * 2, true);
+  view.setUint16(32, channels.length * 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+  let offset = 44;
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
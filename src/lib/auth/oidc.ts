@@ -0,0 +1,181 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * OpenID Connect authorization-code flow with PKCE. Enabled when
+ * `OIDC_ISSUER`, `OIDC_CLIENT_ID` and `OIDC_CLIENT_SECRET` are set.
+ */
+import { createHash, randomBytes } from 'crypto';
+import jwt, { type JwtPayload } from 'jsonwebtoken';
+import jwksClient, { type JwksClient } from 'jwks-rsa';
+import type { UserRole } from '@/types';
+
+export const OIDC_STATE_COOKIE = 'telesuite_oidc';
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export type OidcPendingLogin = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next: string;
+};
+
+export type OidcIdentity = {
+  issuer: string;
+  subject: string;
+  email?: string;
+  /** Whether the provider vouches for `email`; only a verified email may link to an existing account. */
+  emailVerified: boolean;
+  name?: string;
+  role?: UserRole;
+};
+
+const OIDC_SCOPES = process.env.OIDC_SCOPES || 'openid profile email';
+const OIDC_ROLE_CLAIM = process.env.OIDC_ROLE_CLAIM || 'roles';
+
+// Highest privilege first so a user holding several roles gets the strongest one.
+const ROLE_PRIORITY: readonly UserRole[] = ['admin', 'team_lead', 'qa_auditor', 'agent'];
+
+let discoveryCache: Promise<DiscoveryDocument> | null = null;
+let jwks: JwksClient | null = null;
+
+export const isOidcEnabled = (): boolean =>
+  Boolean(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET);
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+function discover(): Promise<DiscoveryDocument> {
+  if (!discoveryCache) {
+    const issuer = process.env.OIDC_ISSUER!.replace(/\/$/, '');
+    discoveryCache = fetch(`${issuer}/.well-known/openid-configuration`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed with status ${response.status}`);
+        }
+        return (await response.json()) as DiscoveryDocument;
+      })
+      .catch((error: unknown) => {
+        discoveryCache = null;
+        throw error;
+      });
+  }
+  return discoveryCache;
+}
+
+export const getRedirectUri = (origin: string): string =>
+  process.env.OIDC_REDIRECT_URI || `${origin}/api/auth/oidc/callback`;
+
+export async function createAuthorizationRequest(
+  origin: string,
+  next: string
+): Promise<{ url: string; pending: OidcPendingLogin }> {
+  const discovery = await discover();
+  const pending: OidcPendingLogin = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    next,
+  };
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', process.env.OIDC_CLIENT_ID!);
+  url.searchParams.set('redirect_uri', getRedirectUri(origin));
+  url.searchParams.set('scope', OIDC_SCOPES);
+  url.searchParams.set('state', pending.state);
+  url.searchParams.set('nonce', pending.nonce);
+  url.searchParams.set('code_challenge', createHash('sha256').update(pending.codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return { url: url.toString(), pending };
+}
+
+const roleFromClaim = (value: unknown): UserRole | undefined => {
+  const values = (Array.isArray(value) ? value : [value]).filter((entry): entry is string => typeof entry === 'string');
+  return ROLE_PRIORITY.find((role) => values.includes(role));
+};
+
+async function verifyIdToken(idToken: string, discovery: DiscoveryDocument, nonce: string): Promise<JwtPayload> {
+  if (!jwks) {
+    jwks = jwksClient({ jwksUri: discovery.jwks_uri, cache: true, rateLimit: true });
+  }
+  const client = jwks;
+  const payload = await new Promise<JwtPayload>((resolve, reject) => {
+    jwt.verify(
+      idToken,
+      (header, callback) => {
+        client
+          .getSigningKey(header.kid)
+          .then((key) => callback(null, key.getPublicKey()))
+          .catch((error: Error) => callback(error));
+      },
+      { audience: process.env.OIDC_CLIENT_ID, issuer: discovery.issuer },
+      (error, decoded) => {
+        if (error || !decoded || typeof decoded === 'string') {
+          reject(error ?? new Error('Invalid ID token.'));
+          return;
+        }
+        resolve(decoded);
+      }
+    );
+  });
+  if (payload.nonce !== nonce) {
+    throw new Error('OIDC nonce mismatch.');
+  }
+  return payload;
+}
+
+export async function completeAuthorization(
+  origin: string,
+  code: string,
+  pending: OidcPendingLogin
+): Promise<OidcIdentity> {
+  const discovery = await discover();
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(origin),
+      client_id: process.env.OIDC_CLIENT_ID!,
+      client_secret: process.env.OIDC_CLIENT_SECRET!,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`OIDC token exchange failed with status ${response.status}: ${await response.text()}`);
+  }
+  const tokens = (await response.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error('OIDC provider did not return an ID token.');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, discovery, pending.nonce);
+  if (!claims.sub) {
+    throw new Error('ID token is missing the subject claim.');
+  }
+  const claimRecord = claims as Record<string, unknown>;
+  return {
+    issuer: discovery.issuer,
+    subject: claims.sub,
+    email: typeof claimRecord.email === 'string' ? claimRecord.email : undefined,
+    emailVerified: claimRecord.email_verified === true,
+    name: typeof claimRecord.name === 'string' ? claimRecord.name : undefined,
+    role: roleFromClaim(claimRecord[OIDC_ROLE_CLAIM]),
+  };
+}
+
+export const parsePendingLogin = (raw: string | undefined): OidcPendingLogin | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<OidcPendingLogin>;
+    return parsed.state && parsed.nonce && parsed.codeVerifier
+      ? { state: parsed.state, nonce: parsed.nonce, codeVerifier: parsed.codeVerifier, next: parsed.next || '/home' }
+      : null;
+  } catch {
+    return null;
+  }
+};
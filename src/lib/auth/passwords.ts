@@ -0,0 +1,23 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)));
+  });
+
+/** Returns `scrypt$<salt>$<hash>` (both base64). */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, hashB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await deriveKey(password, Buffer.from(saltB64, 'base64'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
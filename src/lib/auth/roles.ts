@@ -0,0 +1,117 @@
+/**
+ * Role-based access rules shared by `middleware.ts`, API route handlers and the UI.
+ * This module must stay free of Node-only imports because it runs on the Edge runtime.
+ */
+import { USER_ROLES, type AuthUser, type UserRole, type Workspace } from '@/types';
+
+export type Permission =
+  | 'ai:use'
+  | 'activity:read:own'
+  | 'activity:read:workspace'
+  | 'activity:write'
+  | 'activity:delete'
+  | 'catalog:write'
+  | 'users:manage'
+  | 'system:admin';
+
+/** Payload of `GET /api/auth/session`. */
+export type SessionInfo = {
+  user: AuthUser | null;
+  workspace: Workspace | null;
+  permissions: Permission[];
+  oidcEnabled: boolean;
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  agent: 'Agent',
+  team_lead: 'Team Lead',
+  qa_auditor: 'QA Auditor',
+  admin: 'Admin',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  agent: ['ai:use', 'activity:read:own', 'activity:write', 'activity:delete'],
+  team_lead: ['ai:use', 'activity:read:own', 'activity:read:workspace', 'activity:write', 'activity:delete', 'catalog:write'],
+  qa_auditor: ['ai:use', 'activity:read:own', 'activity:read:workspace', 'activity:write'],
+  admin: [
+    'ai:use',
+    'activity:read:own',
+    'activity:read:workspace',
+    'activity:write',
+    'activity:delete',
+    'catalog:write',
+    'users:manage',
+    'system:admin',
+  ],
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+/** Paths reachable without a session. The `/api/v1` routes authenticate with API keys instead. */
+const PUBLIC_PATH_PREFIXES = ['/login', '/api/auth/', '/api/v1/'];
+
+export const isPublicPath = (pathname: string): boolean =>
+  PUBLIC_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(prefix));
+
+type RouteRule = { prefix: string; methods?: readonly string[]; permission: Permission };
+
+// First match wins, so more specific prefixes must come first.
+const API_ROUTE_RULES: readonly RouteRule[] = [
+  { prefix: '/api/admin/ingestion', permission: 'system:admin' },
+  { prefix: '/api/admin/webhooks', permission: 'system:admin' },
+  { prefix: '/api/admin/api-keys', permission: 'system:admin' },
+  { prefix: '/api/admin/', permission: 'users:manage' },
+  { prefix: '/api/dev/', permission: 'system:admin' },
+  { prefix: '/api/clone-app', permission: 'system:admin' },
+  { prefix: '/api/clone-docs', permission: 'system:admin' },
+  { prefix: '/api/cleanup-cache', permission: 'system:admin' },
+  { prefix: '/api/diagnose', permission: 'system:admin' },
+  { prefix: '/api/cost-dashboard', permission: 'system:admin' },
+  { prefix: '/api/activities', methods: ['DELETE'], permission: 'activity:delete' },
+  { prefix: '/api/activities', methods: ['POST', 'PATCH', 'PUT'], permission: 'activity:write' },
+  { prefix: '/api/activities', permission: 'activity:read:own' },
+  { prefix: '/api/scoring-rubrics', methods: ['POST', 'PUT', 'DELETE'], permission: 'catalog:write' },
+  { prefix: '/api/knowledge-base/', methods: ['POST', 'PUT', 'DELETE'], permission: 'catalog:write' },
+  { prefix: '/api/catalog/', methods: ['PUT'], permission: 'catalog:write' },
+  { prefix: '/api/dispositions', methods: ['POST'], permission: 'activity:write' },
+  { prefix: '/api/dispositions', permission: 'activity:read:workspace' },
+  { prefix: '/api/transcript-corrections/dataset', permission: 'activity:read:workspace' },
+  { prefix: '/api/transcript-corrections', methods: ['POST', 'PUT'], permission: 'activity:write' },
+  { prefix: '/api/transcript-corrections', permission: 'activity:read:own' },
+  { prefix: '/api/', permission: 'ai:use' },
+];
+
+const PAGE_ROUTE_RULES: readonly RouteRule[] = [
+  { prefix: '/admin/ingestion', permission: 'system:admin' },
+  { prefix: '/admin/webhooks', permission: 'system:admin' },
+  { prefix: '/admin/api-keys', permission: 'system:admin' },
+  { prefix: '/admin', permission: 'users:manage' },
+  { prefix: '/clone-app', permission: 'system:admin' },
+  { prefix: '/replication-generator', permission: 'system:admin' },
+  { prefix: '/n8n-workflow', permission: 'system:admin' },
+  { prefix: '/disposition-reconciliation', permission: 'activity:read:workspace' },
+];
+
+/**
+ * Permission required to access a path, or null when any signed-in user may.
+ */
+export function requiredPermission(pathname: string, method: string): Permission | null {
+  const rules = pathname.startsWith('/api/') ? API_ROUTE_RULES : PAGE_ROUTE_RULES;
+  const rule = rules.find(
+    (candidate) =>
+      pathname.startsWith(candidate.prefix) && (!candidate.methods || candidate.methods.includes(method.toUpperCase()))
+  );
+  return rule?.permission ?? null;
+}
+
+/**
+ * The path to return to after sign-in: same-origin relative paths only.
+ * Browsers treat `\` like `/` and drop tabs and newlines, so `/\evil.com` would leave the site.
+ */
+export const safeNextPath = (value: string | null): string =>
+  // eslint-disable-next-line no-control-regex
+  value && value.startsWith('/') && !value.startsWith('//') && !/[\\\u0000-\u001f\u007f]/.test(value) ? value : '/home';
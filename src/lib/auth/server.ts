@@ -0,0 +1,91 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Helpers for route handlers. `middleware.ts` verifies the session cookie and
+ * forwards the identity in `x-telesuite-*` request headers (stripping any
+ * client-supplied copies), so handlers can trust them without re-verifying.
+ */
+import { NextResponse, type NextRequest } from 'next/server';
+import type { AuthUser, UserRole } from '@/types';
+import type { ApiResult } from '@/types/common';
+import { hasPermission, isUserRole, type Permission } from './roles';
+import { getAuthSecret, signSession, SESSION_COOKIE, SESSION_TTL_SECONDS, type SessionClaims } from './session';
+import { getActiveSessionVersion } from './user-store';
+
+export const IDENTITY_HEADERS = {
+  userId: 'x-telesuite-user-id',
+  userName: 'x-telesuite-user-name',
+  role: 'x-telesuite-role',
+  workspaceId: 'x-telesuite-workspace-id',
+} as const;
+
+export interface RequestIdentity {
+  userId: string;
+  displayName: string;
+  role: UserRole;
+  workspaceId: string;
+}
+
+export const identityFromClaims = (claims: SessionClaims): RequestIdentity => ({
+  userId: claims.sub,
+  displayName: claims.name,
+  role: claims.role,
+  workspaceId: claims.ws,
+});
+
+export function getRequestIdentity(request: NextRequest | Request): RequestIdentity | null {
+  const headers = request.headers;
+  const userId = headers.get(IDENTITY_HEADERS.userId);
+  const role = headers.get(IDENTITY_HEADERS.role);
+  const workspaceId = headers.get(IDENTITY_HEADERS.workspaceId);
+  if (!userId || !workspaceId || !isUserRole(role)) return null;
+  return {
+    userId,
+    displayName: decodeURIComponent(headers.get(IDENTITY_HEADERS.userName) ?? ''),
+    role,
+    workspaceId,
+  };
+}
+
+/**
+ * Returns the caller's identity, or an error response to return as-is when the
+ * caller is unauthenticated or lacks `permission`.
+ */
+export function requireIdentity(
+  request: NextRequest | Request,
+  permission?: Permission
+): { identity: RequestIdentity; response?: never } | { identity?: never; response: NextResponse } {
+  const identity = getRequestIdentity(request);
+  if (!identity) {
+    return { response: NextResponse.json<ApiResult<never>>({ ok: false, error: 'Authentication required.' }, { status: 401 }) };
+  }
+  if (permission && !hasPermission(identity.role, permission)) {
+    return { response: NextResponse.json<ApiResult<never>>({ ok: false, error: 'You do not have permission to perform this action.' }, { status: 403 }) };
+  }
+  return { identity };
+}
+
+export async function setSessionCookie(response: NextResponse, user: AuthUser): Promise<void> {
+  const secret = getAuthSecret();
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured.');
+  }
+  const version = getActiveSessionVersion(user.id);
+  if (version === null) {
+    throw new Error('This account is disabled.');
+  }
+  const token = await signSession(
+    { sub: user.id, name: user.displayName, role: user.role, ws: user.workspaceId, ver: version },
+    secret
+  );
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,96 @@
+/**
+ * Signed session tokens (HMAC-SHA256 via Web Crypto). Each token carries the
+ * user's session version; the middleware rejects tokens whose version no
+ * longer matches the user store, so disabling or changing a user ends the
+ * sessions issued before.
+ */
+import { USER_ROLES, type UserRole } from '@/types';
+
+export const SESSION_COOKIE = 'telesuite_session';
+export const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL_SECONDS) || 60 * 60 * 12;
+
+const DEV_FALLBACK_SECRET = 'telesuite-insecure-development-secret';
+
+export interface SessionClaims {
+  sub: string; // user id
+  name: string; // display name
+  role: UserRole;
+  ws: string; // workspace id
+  ver: number; // session version of the user when signed
+  exp: number; // unix seconds
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+let warnedAboutDevSecret = false;
+
+/**
+ * Returns the signing secret. Outside production a fixed development secret is
+ * used when `AUTH_SECRET` is missing; in production it is required.
+ */
+export function getAuthSecret(): string | null {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') return null;
+  if (!warnedAboutDevSecret) {
+    console.warn('⚠️ AUTH_SECRET is not set. Using an insecure development secret for session signing.');
+    warnedAboutDevSecret = true;
+  }
+  return DEV_FALLBACK_SECRET;
+}
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export async function signSession(claims: Omit<SessionClaims, 'exp'>, secret: string): Promise<string> {
+  const payload: SessionClaims = { ...claims, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySession(token: string | undefined, secret: string): Promise<SessionClaims | null> {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<SessionClaims>;
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.name !== 'string' ||
+      typeof claims.ws !== 'string' ||
+      typeof claims.ver !== 'number' ||
+      typeof claims.exp !== 'number' ||
+      !USER_ROLES.includes(claims.role as UserRole)
+    ) {
+      return null;
+    }
+    if (claims.exp * 1000 < Date.now()) return null;
+    return claims as SessionClaims;
+  } catch {
+    return null;
+  }
+}
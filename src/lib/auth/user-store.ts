@@ -0,0 +1,329 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Users and workspaces, persisted in SQLite next to the activity store.
+ * `AUTH_STORE_PATH` overrides the file location (defaults to `.data/auth.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { DEFAULT_WORKSPACE_ID, type AuthUser, type UserRole, type Workspace } from '@/types';
+import { hashPassword, verifyPassword } from './passwords';
+
+type UserRow = {
+  id: string;
+  username: string;
+  display_name: string;
+  email: string | null;
+  role: UserRole;
+  workspace_id: string;
+  auth_provider: AuthUser['authProvider'];
+  external_issuer: string | null;
+  external_subject: string | null;
+  password_hash: string | null;
+  disabled: number;
+  /** Bumped whenever existing sessions must stop working; sessions carry the version they were issued with. */
+  session_version: number;
+  created_at: string;
+};
+
+export interface CreateUserInput {
+  username: string;
+  displayName?: string;
+  email?: string;
+  role: UserRole;
+  workspaceId?: string;
+  password?: string;
+  authProvider?: AuthUser['authProvider'];
+  externalIssuer?: string;
+  externalSubject?: string;
+}
+
+export type UpdateUserInput = Partial<Pick<AuthUser, 'displayName' | 'email' | 'role' | 'workspaceId' | 'disabled'>> & {
+  password?: string;
+};
+
+const DEFAULT_AUTH_DB_PATH = path.join(process.cwd(), '.data', 'auth.db');
+
+const rowToUser = (row: UserRow): AuthUser => ({
+  id: row.id,
+  username: row.username,
+  displayName: row.display_name,
+  email: row.email ?? undefined,
+  role: row.role,
+  workspaceId: row.workspace_id,
+  authProvider: row.auth_provider,
+  disabled: row.disabled === 1,
+  createdAt: row.created_at,
+});
+
+let database: Database.Database | null = null;
+let bootstrapped: Promise<void> | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.AUTH_STORE_PATH || DEFAULT_AUTH_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        display_name TEXT NOT NULL,
+        email TEXT,
+        role TEXT NOT NULL,
+        workspace_id TEXT NOT NULL REFERENCES workspaces(id),
+        auth_provider TEXT NOT NULL DEFAULT 'local',
+        external_issuer TEXT,
+        external_subject TEXT,
+        password_hash TEXT,
+        disabled INTEGER NOT NULL DEFAULT 0,
+        session_version INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        UNIQUE (external_issuer, external_subject)
+      );
+    `);
+    migrate(database);
+    database
+      .prepare('INSERT OR IGNORE INTO workspaces (id, name, created_at) VALUES (?, ?, ?)')
+      .run(DEFAULT_WORKSPACE_ID, 'Default Workspace', new Date().toISOString());
+  }
+  return database;
+}
+
+/** Adds columns introduced after the first release to existing databases. */
+function migrate(db: Database.Database) {
+  const columns = new Set((db.prepare('PRAGMA table_info(users)').all() as { name: string }[]).map((column) => column.name));
+  if (!columns.has('external_issuer')) {
+    db.exec('ALTER TABLE users ADD COLUMN external_issuer TEXT');
+  }
+  if (!columns.has('session_version')) {
+    db.exec('ALTER TABLE users ADD COLUMN session_version INTEGER NOT NULL DEFAULT 0');
+  }
+}
+
+/**
+ * Creates the first admin from `AUTH_BOOTSTRAP_ADMIN_USERNAME` /
+ * `AUTH_BOOTSTRAP_ADMIN_PASSWORD` when the user table is empty.
+ */
+function ensureBootstrapAdmin(): Promise<void> {
+  if (!bootstrapped) {
+    bootstrapped = (async () => {
+      const db = getDb();
+      const { count } = db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+      if (count > 0) return;
+      const password = process.env.AUTH_BOOTSTRAP_ADMIN_PASSWORD;
+      if (!password) {
+        console.warn('⚠️ No users exist and AUTH_BOOTSTRAP_ADMIN_PASSWORD is not set. Local sign-in is unavailable until an admin is created.');
+        return;
+      }
+      await createUser({
+        username: process.env.AUTH_BOOTSTRAP_ADMIN_USERNAME || 'admin',
+        displayName: 'Administrator',
+        role: 'admin',
+        password,
+      });
+    })().catch((error: unknown) => {
+      bootstrapped = null;
+      throw error;
+    });
+  }
+  return bootstrapped;
+}
+
+export async function listUsers(workspaceId?: string): Promise<AuthUser[]> {
+  await ensureBootstrapAdmin();
+  const db = getDb();
+  const rows = (
+    workspaceId
+      ? db.prepare('SELECT * FROM users WHERE workspace_id = ? ORDER BY username').all(workspaceId)
+      : db.prepare('SELECT * FROM users ORDER BY username').all()
+  ) as UserRow[];
+  return rows.map(rowToUser);
+}
+
+export async function getUserById(id: string): Promise<AuthUser | null> {
+  await ensureBootstrapAdmin();
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row ? rowToUser(row) : null;
+}
+
+export async function createUser(input: CreateUserInput): Promise<AuthUser> {
+  const db = getDb();
+  const workspaceId = input.workspaceId || DEFAULT_WORKSPACE_ID;
+  if (!db.prepare('SELECT 1 FROM workspaces WHERE id = ?').get(workspaceId)) {
+    throw new Error(`Workspace '${workspaceId}' does not exist.`);
+  }
+  const row: UserRow = {
+    id: randomUUID(),
+    username: input.username.trim(),
+    display_name: (input.displayName || input.username).trim(),
+    email: input.email ?? null,
+    role: input.role,
+    workspace_id: workspaceId,
+    auth_provider: input.authProvider ?? 'local',
+    external_issuer: input.externalIssuer ?? null,
+    external_subject: input.externalSubject ?? null,
+    password_hash: input.password ? await hashPassword(input.password) : null,
+    disabled: 0,
+    session_version: 0,
+    created_at: new Date().toISOString(),
+  };
+  try {
+    db.prepare(`
+      INSERT INTO users (id, username, display_name, email, role, workspace_id, auth_provider, external_issuer, external_subject, password_hash, disabled, session_version, created_at)
+      VALUES (@id, @username, @display_name, @email, @role, @workspace_id, @auth_provider, @external_issuer, @external_subject, @password_hash, @disabled, @session_version, @created_at)
+    `).run(row);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error(`A user named '${row.username}' already exists.`);
+    }
+    throw error;
+  }
+  return rowToUser(row);
+}
+
+/**
+ * The session version a user's sessions must carry, or null when the user no
+ * longer exists or is disabled. Synchronous so the middleware can check every
+ * request against it.
+ */
+export function getActiveSessionVersion(id: string): number | null {
+  const row = getDb().prepare('SELECT session_version, disabled FROM users WHERE id = ?').get(id) as
+    | Pick<UserRow, 'session_version' | 'disabled'>
+    | undefined;
+  return row && row.disabled !== 1 ? row.session_version : null;
+}
+
+/**
+ * Changing the role, workspace or disabled flag ends the user's existing
+ * sessions, which carry the old values; they sign in again to get new ones.
+ */
+export async function updateUser(id: string, input: UpdateUserInput): Promise<AuthUser | null> {
+  const existing = await getUserById(id);
+  if (!existing) return null;
+  const db = getDb();
+  if (input.workspaceId && !db.prepare('SELECT 1 FROM workspaces WHERE id = ?').get(input.workspaceId)) {
+    throw new Error(`Workspace '${input.workspaceId}' does not exist.`);
+  }
+  const role = input.role ?? existing.role;
+  const workspaceId = input.workspaceId ?? existing.workspaceId;
+  const disabled = input.disabled ?? existing.disabled ?? false;
+  const revokeSessions = role !== existing.role || workspaceId !== existing.workspaceId || disabled !== (existing.disabled ?? false);
+  db.prepare(`
+    UPDATE users SET display_name = @display_name, email = @email, role = @role, workspace_id = @workspace_id, disabled = @disabled,
+      session_version = session_version + @revoke
+    WHERE id = @id
+  `).run({
+    id,
+    display_name: input.displayName ?? existing.displayName,
+    email: input.email ?? existing.email ?? null,
+    role,
+    workspace_id: workspaceId,
+    disabled: disabled ? 1 : 0,
+    revoke: revokeSessions ? 1 : 0,
+  });
+  if (input.password) {
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(await hashPassword(input.password), id);
+  }
+  return getUserById(id);
+}
+
+/**
+ * Verifies local credentials. Returns null for unknown users, wrong passwords,
+ * disabled accounts and OIDC-only accounts alike.
+ */
+export async function authenticateLocalUser(username: string, password: string): Promise<AuthUser | null> {
+  await ensureBootstrapAdmin();
+  const row = getDb().prepare('SELECT * FROM users WHERE username = ?').get(username.trim()) as UserRow | undefined;
+  if (!row || row.disabled === 1 || !row.password_hash) return null;
+  return (await verifyPassword(password, row.password_hash)) ? rowToUser(row) : null;
+}
+
+/**
+ * Finds the user linked to an OIDC issuer and subject, creating the account on
+ * first sign-in. An existing account is linked by email only when the provider
+ * has verified that email, so an IdP account that merely claims someone's
+ * address cannot take over their account.
+ */
+export async function upsertOidcUser(claims: {
+  issuer: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  role?: UserRole;
+}): Promise<AuthUser> {
+  await ensureBootstrapAdmin();
+  const db = getDb();
+  // Accounts linked before issuers were recorded belong to the one configured issuer; record it on their next sign-in
+  const bySubject = db
+    .prepare('SELECT * FROM users WHERE external_subject = ? AND (external_issuer = ? OR external_issuer IS NULL)')
+    .get(claims.subject, claims.issuer) as UserRow | undefined;
+  if (bySubject) {
+    if (!bySubject.external_issuer) {
+      db.prepare('UPDATE users SET external_issuer = ? WHERE id = ?').run(claims.issuer, bySubject.id);
+    }
+    if (claims.role && claims.role !== bySubject.role) {
+      db.prepare('UPDATE users SET role = ?, session_version = session_version + 1 WHERE id = ?').run(claims.role, bySubject.id);
+      bySubject.role = claims.role;
+    }
+    return rowToUser(bySubject);
+  }
+
+  if (claims.email && claims.emailVerified) {
+    const byEmail = db
+      .prepare('SELECT * FROM users WHERE email = ? COLLATE NOCASE AND external_subject IS NULL')
+      .get(claims.email) as UserRow | undefined;
+    if (byEmail) {
+      db.prepare('UPDATE users SET external_issuer = ?, external_subject = ? WHERE id = ?').run(claims.issuer, claims.subject, byEmail.id);
+      return rowToUser(byEmail);
+    }
+  }
+
+  return createUser({
+    username: claims.email || claims.subject,
+    displayName: claims.name || claims.email || claims.subject,
+    email: claims.email,
+    role: claims.role ?? 'agent',
+    workspaceId: process.env.OIDC_DEFAULT_WORKSPACE || DEFAULT_WORKSPACE_ID,
+    authProvider: 'oidc',
+    externalIssuer: claims.issuer,
+    externalSubject: claims.subject,
+  });
+}
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  await ensureBootstrapAdmin();
+  const rows = getDb().prepare('SELECT * FROM workspaces ORDER BY name').all() as Array<{ id: string; name: string; created_at: string }>;
+  return rows.map((row) => ({ id: row.id, name: row.name, createdAt: row.created_at }));
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  const workspaces = await listWorkspaces();
+  return workspaces.find((workspace) => workspace.id === id) ?? null;
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  await ensureBootstrapAdmin();
+  const workspace: Workspace = {
+    id: name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || randomUUID(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  const result = getDb()
+    .prepare('INSERT OR IGNORE INTO workspaces (id, name, created_at) VALUES (?, ?, ?)')
+    .run(workspace.id, workspace.name, workspace.createdAt);
+  if (result.changes === 0) {
+    throw new Error(`A workspace with id '${workspace.id}' already exists.`);
+  }
+  return workspace;
+}
@@ -1,5 +1,3 @@
-"use client";
-
 import type { ScoreCallOutput } from '@/types';
 
 export type MetricScore = ScoreCallOutput['metricScores'][number];
@@ -37,11 +35,28 @@ const categoryLookup = (() => {
 export const getCategoryForMetric = (metricName: string): string =>
   categoryLookup.get(normalizeMetricLabel(metricName)) ?? UNCATEGORIZED_CATEGORY_KEY;
 
+/** The rubric category recorded on the score, falling back to the legacy metric map for older results. */
+export const getMetricCategory = (metric: Pick<MetricScore, 'metric' | 'category'>): string =>
+  metric.category || getCategoryForMetric(metric.metric);
+
+/**
+ * Display order for categories: the standard categories first, then any
+ * rubric-specific ones in the order given, with uncategorized metrics last.
+ */
+export const orderMetricCategories = (categories: Iterable<string>): string[] => {
+  const present = new Set(categories);
+  const standard = metricCategoryDefinitions.map(({ key }) => key).filter((key) => present.has(key));
+  const custom = [...present].filter(
+    (key) => key !== UNCATEGORIZED_CATEGORY_KEY && !standard.includes(key)
+  );
+  return [...standard, ...custom, ...(present.has(UNCATEGORIZED_CATEGORY_KEY) ? [UNCATEGORIZED_CATEGORY_KEY] : [])];
+};
+
 export const groupMetricScoresByCategory = (metricScores: ScoreCallOutput['metricScores'] = []) => {
   const grouped = new Map<string, MetricScore[]>();
 
   metricScores.forEach((metric) => {
-    const category = getCategoryForMetric(metric.metric);
+    const category = getMetricCategory(metric);
     if (!grouped.has(category)) grouped.set(category, []);
     grouped.get(category)!.push(metric);
   });
@@ -49,15 +64,24 @@ export const groupMetricScoresByCategory = (metricScores: ScoreCallOutput['metri
   return grouped;
 };
 
-export const computeMetricCategoryAverages = (metricScores: ScoreCallOutput['metricScores'] = []) => {
+/**
+ * Average score per category. `weightFor` lets rubric weights count some metrics
+ * more than others; metrics with a weight of 0 are left out.
+ */
+export const computeMetricCategoryAverages = (
+  metricScores: ScoreCallOutput['metricScores'] = [],
+  weightFor: (metric: MetricScore) => number = () => 1
+) => {
   const totals = new Map<string, { sum: number; count: number }>();
 
   metricScores.forEach((metric) => {
     if (typeof metric.score !== 'number') return;
-    const category = getCategoryForMetric(metric.metric);
+    const weight = weightFor(metric);
+    if (!(weight > 0)) return;
+    const category = getMetricCategory(metric);
     const record = totals.get(category) ?? { sum: 0, count: 0 };
-    record.sum += metric.score;
-    record.count += 1;
+    record.sum += metric.score * weight;
+    record.count += weight;
     totals.set(category, record);
   });
 
@@ -71,5 +95,11 @@ export const computeMetricCategoryAverages = (metricScores: ScoreCallOutput['met
   return averages;
 };
 
+/** Category averages of a scored call: the stored weighted breakdown, or plain averages for older results. */
+export const getCategoryAverages = (results: Pick<Partial<ScoreCallOutput>, 'categoryScores' | 'metricScores'>) =>
+  results.categoryScores
+    ? new Map(results.categoryScores.map(({ category, score }) => [category, score]))
+    : computeMetricCategoryAverages(results.metricScores ?? []);
+
 export const formatCategoryAverage = (value?: number) =>
   typeof value === 'number' ? `${value.toFixed(1)}/5` : 'N/A';
@@ -0,0 +1,95 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Each workspace's product catalog and knowledge base, persisted in SQLite so
+ * every member of the workspace sees the same products and documents.
+ * `CATALOG_STORE_PATH` overrides the file location (defaults to `.data/catalog.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { KnowledgeFile, ProductObject } from '@/types';
+
+export const CATALOG_KINDS = ['products', 'knowledge-files'] as const;
+export type CatalogKind = (typeof CATALOG_KINDS)[number];
+
+export type CatalogItems = {
+  products: ProductObject[];
+  'knowledge-files': KnowledgeFile[];
+};
+
+/** Payload of `GET`/`PUT /api/catalog/:kind`; `items` is null until the workspace first saves one. */
+export type CatalogResponse<K extends CatalogKind> = {
+  items: CatalogItems[K] | null;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+type CatalogRow = {
+  workspace_id: string;
+  kind: CatalogKind;
+  items: string;
+  updated_by: string | null;
+  updated_at: string;
+};
+
+const DEFAULT_CATALOG_DB_PATH = path.join(process.cwd(), '.data', 'catalog.db');
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.CATALOG_STORE_PATH || DEFAULT_CATALOG_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS workspace_catalogs (
+        workspace_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        items TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, kind)
+      );
+    `);
+  }
+  return database;
+}
+
+const rowToResponse = <K extends CatalogKind>(row: CatalogRow | undefined): CatalogResponse<K> =>
+  row
+    ? { items: JSON.parse(row.items) as CatalogItems[K], updatedAt: row.updated_at, updatedBy: row.updated_by ?? undefined }
+    : { items: null };
+
+export function getCatalog<K extends CatalogKind>(workspaceId: string, kind: K): CatalogResponse<K> {
+  const row = getDb()
+    .prepare('SELECT * FROM workspace_catalogs WHERE workspace_id = ? AND kind = ?')
+    .get(workspaceId, kind) as CatalogRow | undefined;
+  return rowToResponse<K>(row);
+}
+
+/** Replaces the workspace's whole list, as the catalog editors work on the full list. */
+export function saveCatalog<K extends CatalogKind>(
+  workspaceId: string,
+  kind: K,
+  items: CatalogItems[K],
+  updatedBy: string
+): CatalogResponse<K> {
+  const row: CatalogRow = {
+    workspace_id: workspaceId,
+    kind,
+    items: JSON.stringify(items),
+    updated_by: updatedBy,
+    updated_at: new Date().toISOString(),
+  };
+  getDb()
+    .prepare(`
+      INSERT INTO workspace_catalogs (workspace_id, kind, items, updated_by, updated_at)
+      VALUES (@workspace_id, @kind, @items, @updated_by, @updated_at)
+      ON CONFLICT (workspace_id, kind) DO UPDATE SET items = excluded.items, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+    `)
+    .run(row);
+  return rowToResponse<K>(row);
+}
@@ -0,0 +1,87 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Deterministic ingestion for the data analysis flow: uploads are parsed into
+ * tables (`./parse`), their columns profiled (`./profile`) and KPIs and
+ * breakdowns computed (`./metrics`). The model only sees the aggregates from
+ * `formatDatasetSummary`, so the numbers in a report come from the data.
+ */
+import type { DataProfile, KeyMetric } from '@/types';
+import { computeTableMetrics, formatDuration } from './metrics';
+import { parseDataFile, type DataTable, type UploadedDataFile } from './parse';
+import { profileTable, tableLabel } from './profile';
+
+export { detectTabularFormat, type UploadedDataFile } from './parse';
+
+export const MAX_PARSED_FILE_BYTES = 100 * 1024 * 1024;
+const MAX_SUMMARY_CHARS = 24_000;
+
+export interface DataIngestionResult {
+  profile: DataProfile;
+  keyMetrics: KeyMetric[];
+}
+
+export async function ingestDataFiles(files: UploadedDataFile[]): Promise<DataIngestionResult> {
+  const profile: DataProfile = { files: [], tables: [], breakdowns: [] };
+  const parsed: DataTable[] = [];
+  for (const file of files) {
+    if (file.data.length > MAX_PARSED_FILE_BYTES) {
+      profile.files.push({
+        fileName: file.name,
+        status: 'skipped',
+        tableCount: 0,
+        message: `Files over ${MAX_PARSED_FILE_BYTES / (1024 * 1024)}MB are not parsed; this file is used by name only.`,
+      });
+      continue;
+    }
+    const result = await parseDataFile(file);
+    profile.files.push({ fileName: file.name, status: result.status, tableCount: result.tables.length, message: result.message });
+    parsed.push(...result.tables);
+  }
+
+  const keyMetrics: KeyMetric[] = [];
+  for (const table of parsed) {
+    const tableProfile = profileTable(table);
+    const computed = computeTableMetrics(table, tableProfile, parsed.length > 1);
+    profile.tables.push(tableProfile);
+    profile.breakdowns.push(...computed.breakdowns);
+    keyMetrics.push(...computed.keyMetrics);
+  }
+  return { profile, keyMetrics };
+}
+
+const describeColumn = (column: DataProfile['tables'][number]['columns'][number]): string => {
+  const facts = [`${column.type}${column.role ? `, ${column.role}` : ''}`, `${column.filled} filled`, `${column.missing} missing`, `${column.distinct} distinct`];
+  if (column.type === 'duration' && column.mean !== undefined) {
+    facts.push(`mean ${formatDuration(column.mean)}, median ${formatDuration(column.median ?? 0)}, range ${formatDuration(column.min ?? 0)}-${formatDuration(column.max ?? 0)}`);
+  } else if (column.mean !== undefined && column.role !== 'leadId' && column.role !== 'callId') {
+    facts.push(`sum ${column.sum}, mean ${column.mean}, median ${column.median}, range ${column.min}-${column.max}`);
+  }
+  if (column.earliest) facts.push(`${column.earliest} to ${column.latest}`);
+  if (column.topValues?.length) facts.push(`top: ${column.topValues.map((entry) => `${entry.value} (${entry.count})`).join(', ')}`);
+  return `- ${column.name}: ${facts.join('; ')}`;
+};
+
+/** The aggregates the model writes its narrative from, as plain text with markdown tables. */
+export function formatDatasetSummary({ profile, keyMetrics }: DataIngestionResult): string {
+  const lines: string[] = [];
+  for (const file of profile.files.filter((entry) => entry.status !== 'parsed')) {
+    lines.push(`File ${file.fileName} was ${file.status === 'skipped' ? 'not parsed' : 'unreadable'}: ${file.message}`);
+  }
+  for (const table of profile.tables) {
+    lines.push('', `TABLE ${tableLabel(table)}: ${table.rowCount} rows, headers on row ${table.headerRow}, ${table.skippedRows} rows skipped.`);
+    lines.push(...table.columns.map(describeColumn));
+  }
+  if (keyMetrics.length > 0) {
+    lines.push('', 'COMPUTED KPIs:');
+    lines.push(...keyMetrics.map((metric) => `- ${metric.metricName}: ${metric.value}${metric.trendOrComparison ? ` (${metric.trendOrComparison})` : ''}`));
+  }
+  for (const entry of profile.breakdowns) {
+    const columns = (['records', 'connected', 'converted', 'followUps', 'revenue', 'avgDurationSeconds'] as const)
+      .filter((key) => entry.rows.some((row) => row[key] !== undefined));
+    lines.push('', `BY ${entry.dimension.toUpperCase()} (${entry.column}, ${entry.table}):`);
+    lines.push(`| ${entry.column} | ${columns.join(' | ')} |`, `|${' --- |'.repeat(columns.length + 1)}`);
+    lines.push(...entry.rows.map((row) => `| ${row.key} | ${columns.map((key) => row[key] ?? '').join(' | ')} |`));
+  }
+  const summary = lines.join('\n').trim();
+  return summary.length > MAX_SUMMARY_CHARS ? `${summary.slice(0, MAX_SUMMARY_CHARS)}\n(Summary truncated.)` : summary;
+}
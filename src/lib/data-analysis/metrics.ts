@@ -0,0 +1,257 @@
+/**
+ * KPIs and breakdowns computed from a profiled table. The definitions match
+ * the ones the data analysis prompt has always used:
+ *
+ * - Connection Rate = connected outcomes / calls with an outcome
+ * - Conversion Rate = interested or subscribed outcomes / calls with an outcome
+ * - Lead Follow-up Rate = call-back outcomes / leads (or calls when there is no lead ID)
+ * - Avg Revenue per Connected Call = total revenue / connected calls
+ *
+ * Outcomes are classified from common disposition codes (`NR`, `CALLB`,
+ * `INT`, ...) and their spelled-out forms.
+ */
+import type { ColumnRole, DataBreakdown, KeyMetric, TableProfile } from '@/types';
+import type { CellValue, DataTable } from './parse';
+import { cellText, isMissing, tableLabel, toDurationSeconds, toIsoDate, toNumber } from './profile';
+
+export type OutcomeClass = 'notConnected' | 'followUp' | 'converted' | 'connected';
+
+const NOT_CONNECTED_PATTERNS = [
+  /^nr$/, /not ?reach/, /unreachable/, /no ?answer/, /^rnr$/, /ringing/, /busy/, /switch(ed)? ?off/,
+  /not ?connected/, /invalid/, /wrong ?(no|number)/, /out of (coverage|service)/, /no ?response/, /^failed$/, /^dnc$/,
+];
+const FOLLOW_UP_PATTERNS = [/^callb/, /call ?back/, /follow ?up/, /^fu$/, /^cb$/];
+const CONVERTED_PATTERNS = [/^int$/, /^interested\b/, /^subs?$/, /^subscri/, /^(sale|sold)\b/, /convert/, /^paid$/, /purchas/, /^won$|closed won/, /^success/];
+
+const BREAKDOWN_LIMIT = 20;
+const MONTH_LIMIT = 24;
+/** Calls shorter than this are flagged in the duration insight. */
+const SHORT_CALL_SECONDS = 30;
+
+export function classifyOutcome(outcome: string): OutcomeClass {
+  const text = outcome.toLowerCase().replace(/[_-]+/g, ' ').trim();
+  if (NOT_CONNECTED_PATTERNS.some((pattern) => pattern.test(text))) return 'notConnected';
+  if (FOLLOW_UP_PATTERNS.some((pattern) => pattern.test(text))) return 'followUp';
+  if (CONVERTED_PATTERNS.some((pattern) => pattern.test(text))) return 'converted';
+  return 'connected';
+}
+
+interface RowFacts {
+  outcome?: OutcomeClass;
+  revenue?: number;
+  duration?: number;
+  lead?: string;
+  agent?: string;
+  cohort?: string;
+  source?: string;
+  month?: string;
+}
+
+interface Totals {
+  records: number;
+  withOutcome: number;
+  connected: number;
+  converted: number;
+  followUps: number;
+  revenue: number;
+  revenueCount: number;
+  durationTotal: number;
+  durationCount: number;
+}
+
+const emptyTotals = (): Totals => ({
+  records: 0, withOutcome: 0, connected: 0, converted: 0, followUps: 0, revenue: 0, revenueCount: 0, durationTotal: 0, durationCount: 0,
+});
+
+function addFacts(totals: Totals, facts: RowFacts): void {
+  totals.records++;
+  if (facts.outcome) {
+    totals.withOutcome++;
+    if (facts.outcome !== 'notConnected') totals.connected++;
+    if (facts.outcome === 'converted') totals.converted++;
+    if (facts.outcome === 'followUp') totals.followUps++;
+  }
+  if (facts.revenue !== undefined) {
+    totals.revenue += facts.revenue;
+    totals.revenueCount++;
+  }
+  if (facts.duration !== undefined) {
+    totals.durationTotal += facts.duration;
+    totals.durationCount++;
+  }
+}
+
+const formatNumber = (value: number): string => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+const formatPercent = (part: number, whole: number): string => `${((part / whole) * 100).toFixed(1)}%`;
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const [hours, minutes, secs] = [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60];
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
+
+const monthLabel = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+function readFacts(table: DataTable, profile: TableProfile): RowFacts[] {
+  const column = (role: ColumnRole) => profile.columns.findIndex((candidate) => candidate.role === role);
+  const indexes = {
+    outcome: column('outcome'), revenue: column('revenue'), duration: column('duration'), lead: column('leadId'),
+    agent: column('agent'), cohort: column('cohort'), source: column('source'), date: column('date'),
+  };
+  const text = (row: CellValue[], index: number) => (index >= 0 && !isMissing(row[index]) ? cellText(row[index]) : undefined);
+  return table.rows.map((row) => {
+    const outcome = text(row, indexes.outcome);
+    const revenue = indexes.revenue >= 0 && !isMissing(row[indexes.revenue]) ? toNumber(row[indexes.revenue]) : null;
+    const duration = indexes.duration >= 0 && !isMissing(row[indexes.duration]) ? toDurationSeconds(row[indexes.duration]) : null;
+    const date = indexes.date >= 0 ? toIsoDate(row[indexes.date]) : null;
+    return {
+      outcome: outcome ? classifyOutcome(outcome) : undefined,
+      revenue: revenue ?? undefined,
+      duration: duration ?? undefined,
+      lead: text(row, indexes.lead),
+      agent: text(row, indexes.agent),
+      cohort: text(row, indexes.cohort),
+      source: text(row, indexes.source),
+      month: date?.slice(0, 7),
+    };
+  });
+}
+
+function breakdown(
+  label: string,
+  profile: TableProfile,
+  facts: RowFacts[],
+  dimension: DataBreakdown['dimension'],
+  role: ColumnRole,
+  keyOf: (row: RowFacts) => string | undefined
+): DataBreakdown | null {
+  const column = profile.columns.find((candidate) => candidate.role === role);
+  if (!column) return null;
+  const groups = new Map<string, Totals>();
+  for (const row of facts) {
+    const key = keyOf(row);
+    if (key === undefined) continue;
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addFacts(groups.get(key)!, row);
+  }
+  if (groups.size < 2) return null;
+  const entries = [...groups.entries()];
+  const ordered = dimension === 'month'
+    ? entries.sort((a, b) => a[0].localeCompare(b[0])).slice(-MONTH_LIMIT)
+    : entries.sort((a, b) => b[1].records - a[1].records).slice(0, BREAKDOWN_LIMIT);
+  const hasOutcome = profile.columns.some((candidate) => candidate.role === 'outcome');
+  return {
+    table: label,
+    dimension,
+    column: column.name,
+    rows: ordered.map(([key, totals]) => ({
+      key: dimension === 'month' ? monthLabel(key) : key,
+      records: totals.records,
+      ...(hasOutcome ? { connected: totals.connected, converted: totals.converted, followUps: totals.followUps } : {}),
+      ...(totals.revenueCount > 0 ? { revenue: Math.round(totals.revenue * 100) / 100 } : {}),
+      ...(totals.durationCount > 0 ? { avgDurationSeconds: Math.round(totals.durationTotal / totals.durationCount) } : {}),
+    })),
+  };
+}
+
+function topAgentMetric(agents: DataBreakdown, label: string): KeyMetric {
+  const byConversions = agents.rows.some((row) => (row.converted ?? 0) > 0);
+  const byRevenue = !byConversions && agents.rows.some((row) => (row.revenue ?? 0) > 0);
+  const score = (row: DataBreakdown['rows'][number]) => (byConversions ? row.converted ?? 0 : byRevenue ? row.revenue ?? 0 : row.records);
+  const [top] = [...agents.rows].sort((a, b) => score(b) - score(a));
+  const basis = byConversions
+    ? `${top.converted} conversions from ${top.records} calls (${formatPercent(top.converted ?? 0, top.records)})`
+    : byRevenue ? `${formatNumber(top.revenue ?? 0)} revenue from ${top.records} records` : `${top.records} records`;
+  return {
+    metricName: `Top Agent by ${byConversions ? 'Conversions' : byRevenue ? 'Revenue' : 'Volume'}${label}`,
+    value: top.key,
+    trendOrComparison: `${basis}; ${agents.rows.length} agents compared.`,
+  };
+}
+
+/** Key metrics and breakdowns for one table. `labelled` suffixes metric names with the table when several tables are analysed. */
+export function computeTableMetrics(table: DataTable, profile: TableProfile, labelled: boolean): { keyMetrics: KeyMetric[]; breakdowns: DataBreakdown[] } {
+  const label = tableLabel(profile);
+  const suffix = labelled ? ` (${label})` : '';
+  const facts = readFacts(table, profile);
+  const totals = emptyTotals();
+  facts.forEach((row) => addFacts(totals, row));
+
+  const keyMetrics: KeyMetric[] = [{
+    metricName: `Records Analysed${suffix}`,
+    value: formatNumber(totals.records),
+    trendOrComparison: `${profile.columns.length} columns, headers on row ${profile.headerRow}${profile.skippedRows ? `; ${profile.skippedRows} blank, title or repeated header rows skipped` : ''}.`,
+  }];
+
+  if (totals.withOutcome > 0) {
+    keyMetrics.push(
+      {
+        metricName: `Connection Rate${suffix}`,
+        value: formatPercent(totals.connected, totals.withOutcome),
+        trendOrComparison: `${formatNumber(totals.connected)} of ${formatNumber(totals.withOutcome)} calls with an outcome were connected.`,
+      },
+      {
+        metricName: `Conversion Rate${suffix}`,
+        value: formatPercent(totals.converted, totals.withOutcome),
+        trendOrComparison: `${formatNumber(totals.converted)} interested or subscribed outcomes.`,
+      }
+    );
+    const leads = new Set(facts.map((row) => row.lead).filter(Boolean)).size;
+    const base = leads > 0 ? leads : totals.withOutcome;
+    keyMetrics.push({
+      metricName: `Lead Follow-up Rate${suffix}`,
+      value: formatPercent(totals.followUps, base),
+      trendOrComparison: `${formatNumber(totals.followUps)} call-back outcomes across ${formatNumber(base)} ${leads > 0 ? 'leads' : 'calls'}.`,
+    });
+  }
+
+  if (totals.revenueCount > 0) {
+    keyMetrics.push({
+      metricName: `Total Revenue${suffix}`,
+      value: formatNumber(totals.revenue),
+      trendOrComparison: `Sum of ${formatNumber(totals.revenueCount)} values.`,
+    });
+    const perCallBase = totals.withOutcome > 0 ? totals.connected : totals.records;
+    if (perCallBase > 0) {
+      keyMetrics.push({
+        metricName: `${totals.withOutcome > 0 ? 'Avg Revenue per Connected Call' : 'Avg Revenue per Record'}${suffix}`,
+        value: formatNumber(totals.revenue / perCallBase),
+      });
+    }
+  }
+
+  if (totals.durationCount > 0) {
+    const durations = facts.map((row) => row.duration).filter((value): value is number => value !== undefined);
+    const shortCalls = durations.filter((value) => value < SHORT_CALL_SECONDS).length;
+    keyMetrics.push({
+      metricName: `Avg Call Duration${suffix}`,
+      value: formatDuration(totals.durationTotal / totals.durationCount),
+      trendOrComparison: `${formatPercent(shortCalls, durations.length)} of calls are shorter than ${SHORT_CALL_SECONDS} seconds.`,
+    });
+  }
+
+  const breakdowns = [
+    breakdown(label, profile, facts, 'agent', 'agent', (row) => row.agent),
+    breakdown(label, profile, facts, 'month', 'date', (row) => row.month),
+    breakdown(label, profile, facts, 'cohort', 'cohort', (row) => row.cohort),
+    breakdown(label, profile, facts, 'source', 'source', (row) => row.source),
+  ].filter((entry): entry is DataBreakdown => entry !== null);
+
+  const agents = breakdowns.find((entry) => entry.dimension === 'agent');
+  if (agents) keyMetrics.push(topAgentMetric(agents, suffix));
+
+  const months = breakdowns.find((entry) => entry.dimension === 'month');
+  if (months) {
+    const [previous, latest] = months.rows.slice(-2);
+    const change = previous.records > 0 ? ((latest.records - previous.records) / previous.records) * 100 : 0;
+    keyMetrics.push({
+      metricName: `Latest Month Volume${suffix}`,
+      value: `${formatNumber(latest.records)} (${latest.key})`,
+      trendOrComparison: `${change >= 0 ? '+' : ''}${change.toFixed(1)}% vs ${previous.key} (${formatNumber(previous.records)}).`,
+    });
+  }
+
+  return { keyMetrics, breakdowns };
+}
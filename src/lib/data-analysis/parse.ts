@@ -0,0 +1,255 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Reads uploaded CSV, XLSX/XLS and ZIP archives of those into plain tables.
+ * Header rows are detected rather than assumed to be the first row, so title
+ * rows above a report are skipped, and repeated header or section-title rows
+ * inside the data are left out.
+ */
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import { parseCsv, sniffDelimiter } from '@/lib/csv';
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface DataTable {
+  /** File name, or `archive.zip/entry.csv` for files read from a ZIP. */
+  source: string;
+  sheet?: string;
+  /** 1-based row the headers were read from. */
+  headerRow: number;
+  columns: string[];
+  rows: CellValue[][];
+  skippedRows: number;
+}
+
+export interface UploadedDataFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+export interface ParsedDataFile {
+  fileName: string;
+  status: 'parsed' | 'skipped' | 'failed';
+  tables: DataTable[];
+  message?: string;
+}
+
+type TabularFormat = 'csv' | 'spreadsheet' | 'zip';
+
+const MAX_ZIP_ENTRIES = 200;
+/** Decompressed bytes allowed per upload, so a small archive cannot expand to fill memory (a zip bomb). */
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+const HEADER_SEARCH_ROWS = 20;
+
+export function detectTabularFormat(fileName: string, mimeType: string): TabularFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  if (['csv', 'tsv'].includes(extension) || mimeType === 'text/csv' || mimeType === 'text/tab-separated-values') return 'csv';
+  if (['xlsx', 'xlsm', 'xls', 'ods'].includes(extension) || mimeType.includes('spreadsheet') || mimeType === 'application/vnd.ms-excel') {
+    return 'spreadsheet';
+  }
+  if (extension === 'zip' || mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed') return 'zip';
+  return null;
+}
+
+function decodeText(data: Buffer): string {
+  const utf8 = data.toString('utf8');
+  // Excel's "CSV" export on Windows is often cp1252; latin1 keeps those bytes readable.
+  const text = utf8.includes('\uFFFD') ? data.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const isLabel = (value: CellValue | undefined): boolean =>
+  typeof value === 'string' && value.trim() !== '' && !/^[-+]?[\d,.\s%₹$€£:/]+$/.test(value.trim());
+
+const filledCount = (row: CellValue[]): number => row.filter((cell) => !isBlank(cell)).length;
+
+function findHeaderRow(grid: CellValue[][]): number {
+  const widest = Math.max(0, ...grid.slice(0, 50).map(filledCount));
+  const threshold = Math.max(Math.min(2, widest), Math.ceil(widest * 0.5));
+  for (let index = 0; index < Math.min(grid.length, HEADER_SEARCH_ROWS); index++) {
+    if (grid[index].filter(isLabel).length >= threshold) return index;
+  }
+  return grid.findIndex((row) => filledCount(row) > 0);
+}
+
+function uniqueColumnNames(header: CellValue[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const raw = header[index];
+    const base = isBlank(raw) ? `Column ${index + 1}` : String(raw instanceof Date ? raw.toISOString().slice(0, 10) : raw).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+/** Builds a table from raw rows, or returns null when the grid holds no data. `firstRow` is the grid's 1-based offset in the sheet. */
+export function tableFromGrid(grid: CellValue[][], source: string, sheet?: string, firstRow = 1): DataTable | null {
+  const headerIndex = findHeaderRow(grid);
+  if (headerIndex < 0) return null;
+  const header = grid[headerIndex];
+  let width = 0;
+  for (const row of grid.slice(headerIndex)) {
+    for (let column = row.length - 1; column >= width; column--) {
+      if (!isBlank(row[column])) {
+        width = column + 1;
+        break;
+      }
+    }
+  }
+  const columns = uniqueColumnNames(header, width);
+  const headerKey = header.slice(0, width).map((cell) => String(cell ?? '').trim().toLowerCase()).join('\u0000');
+
+  const rows: CellValue[][] = [];
+  let skippedRows = 0;
+  for (const raw of grid.slice(headerIndex + 1)) {
+    const row = Array.from({ length: width }, (_, column) => {
+      const cell = raw[column];
+      if (cell === undefined || isBlank(cell)) return null;
+      return typeof cell === 'string' ? cell.trim() : cell;
+    });
+    const filled = filledCount(row);
+    const isRepeatedHeader = row.map((cell) => String(cell ?? '').toLowerCase()).join('\u0000') === headerKey;
+    const isSectionTitle = filled === 1 && width >= 3 && isLabel(row.find((cell) => cell !== null));
+    if (filled === 0 || isRepeatedHeader || isSectionTitle) {
+      skippedRows++;
+      continue;
+    }
+    rows.push(row);
+  }
+  return { source, sheet, headerRow: firstRow + headerIndex, columns, rows, skippedRows };
+}
+
+function parseCsvFile(data: Buffer, source: string): DataTable[] {
+  const text = decodeText(data);
+  const delimiter = source.toLowerCase().endsWith('.tsv') ? '\t' : sniffDelimiter(text);
+  const table = tableFromGrid(parseCsv(text, delimiter), source);
+  return table ? [table] : [];
+}
+
+/** What is left of an upload's `MAX_UNCOMPRESSED_BYTES`, shared by every archive read from it. */
+type InflateBudget = { remaining: number };
+
+const newInflateBudget = (): InflateBudget => ({ remaining: MAX_UNCOMPRESSED_BYTES });
+
+const isZipData = (data: Buffer): boolean => data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+
+const overBudgetError = () =>
+  new Error(`Archive expands to more than ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)}MB when decompressed.`);
+
+/**
+ * Decompresses one archive entry, stopping as soon as the budget is spent. The
+ * size the archive declares is checked first, but it can be forged, so the
+ * inflated bytes are counted too. With `keep` false the bytes are only counted.
+ */
+function inflateEntry(entry: JSZip.JSZipObject, budget: InflateBudget, keep = true): Promise<Buffer> {
+  // JSZip keeps the sizes from the central directory on a private field.
+  const declaredSize = (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+  if (declaredSize > budget.remaining) return Promise.reject(overBudgetError());
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      if (budget.remaining < 0) return;
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        stream.pause();
+        reject(overBudgetError());
+        return;
+      }
+      if (keep) chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+async function parseSpreadsheetFile(data: Buffer, source: string, budget: InflateBudget): Promise<DataTable[]> {
+  if (isZipData(data)) {
+    // XLSX and ODS are ZIP archives that SheetJS inflates whole; measure them first.
+    const archive = await JSZip.loadAsync(data);
+    for (const entry of Object.values(archive.files)) {
+      if (!entry.dir) await inflateEntry(entry, budget, false);
+    }
+  }
+  const workbook = XLSX.read(data, { type: 'buffer', cellDates: true });
+  const tables: DataTable[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet?.['!ref']) continue;
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const grid = XLSX.utils.sheet_to_json<CellValue[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+    const table = tableFromGrid(grid, source, sheetName, range.s.r + 1);
+    if (table) tables.push(table);
+  }
+  return tables;
+}
+
+/** Tables from the same upload with the same columns (a ZIP of daily CDR dumps, say) are analysed as one. */
+function mergeMatchingTables(tables: DataTable[], archiveName: string): DataTable[] {
+  const groups = new Map<string, DataTable[]>();
+  for (const table of tables) {
+    const key = table.columns.map((column) => column.toLowerCase()).join('\u0000');
+    groups.set(key, [...(groups.get(key) ?? []), table]);
+  }
+  return [...groups.values()].map((group) => {
+    if (group.length === 1) return group[0];
+    return {
+      source: `${archiveName} (${group.length} files)`,
+      headerRow: group[0].headerRow,
+      columns: group[0].columns,
+      rows: group.flatMap((table) => table.rows),
+      skippedRows: group.reduce((total, table) => total + table.skippedRows, 0),
+    };
+  });
+}
+
+async function parseZipFile(data: Buffer, source: string, budget: InflateBudget): Promise<DataTable[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files).filter(
+    (entry) => !entry.dir && !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()?.startsWith('.')
+  );
+  const tables: DataTable[] = [];
+  let parsedEntries = 0;
+  for (const entry of entries) {
+    const format = detectTabularFormat(entry.name, '');
+    if (!format || format === 'zip') continue;
+    if (++parsedEntries > MAX_ZIP_ENTRIES) {
+      throw new Error(`Archive has more than ${MAX_ZIP_ENTRIES} CSV/XLSX files.`);
+    }
+    const entryData = await inflateEntry(entry, budget);
+    const entrySource = `${source}/${entry.name}`;
+    tables.push(...(format === 'csv' ? parseCsvFile(entryData, entrySource) : await parseSpreadsheetFile(entryData, entrySource, budget)));
+  }
+  if (parsedEntries === 0) throw new Error('Archive contains no CSV or XLSX files.');
+  return mergeMatchingTables(tables, source);
+}
+
+/** Never throws: unsupported or unreadable files are reported in the result instead. */
+export async function parseDataFile(file: UploadedDataFile): Promise<ParsedDataFile> {
+  const format = detectTabularFormat(file.name, file.type);
+  if (!format) {
+    return {
+      fileName: file.name,
+      status: 'skipped',
+      tables: [],
+      message: 'Only CSV, XLSX/XLS and ZIP archives of them are parsed; this file is used by name only.',
+    };
+  }
+  try {
+    const tables =
+      format === 'csv' ? parseCsvFile(file.data, file.name)
+      : format === 'spreadsheet' ? await parseSpreadsheetFile(file.data, file.name, newInflateBudget())
+      : await parseZipFile(file.data, file.name, newInflateBudget());
+    if (tables.length === 0) {
+      return { fileName: file.name, status: 'failed', tables, message: 'No data rows were found.' };
+    }
+    return { fileName: file.name, status: 'parsed', tables };
+  } catch (error) {
+    return { fileName: file.name, status: 'failed', tables: [], message: (error as Error).message };
+  }
+}
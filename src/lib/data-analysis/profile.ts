@@ -0,0 +1,189 @@
+/**
+ * Column typing and profiling for parsed tables. Values are typed per column
+ * (a column is numeric when nearly all of its filled cells are numbers), and
+ * the columns the KPIs need (agent, outcome, duration, revenue, ...) are
+ * recognised from their headers.
+ */
+import type { ColumnProfile, ColumnRole, TableProfile } from '@/types';
+import type { CellValue, DataTable } from './parse';
+
+type ColumnType = ColumnProfile['type'];
+
+const NULL_MARKERS = new Set(['', 'na', 'n/a', 'n.a.', 'null', 'nil', 'none', 'nan', '#n/a', '-', '--', '—', '–', 'undefined']);
+/** Share of filled cells that must parse for a column to get a type other than text. */
+const TYPE_THRESHOLD = 0.9;
+const TOP_VALUES = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Header patterns per role, strongest first. A column needs a compatible type
+ * too: revenue must be numeric, an outcome must not be.
+ */
+const ROLE_PATTERNS: Array<{ role: ColumnRole; types: ColumnType[]; patterns: RegExp[] }> = [
+  { role: 'outcome', types: ['category', 'text'], patterns: [/disposition/, /outcome/, /call status|call result|lead status|^status$|^result$/] },
+  { role: 'agent', types: ['category', 'text'], patterns: [/^agent|agent name|agent$/, /telecaller|tele caller|caller name|executive|sales rep|^rep$|employee|^user ?name$/] },
+  { role: 'duration', types: ['duration', 'number'], patterns: [/talk ?time|talk duration|bill ?sec|billable/, /duration|call time|handle time|^aht$/] },
+  { role: 'revenue', types: ['number'], patterns: [/revenue|sales? amount|sale value|amount paid|collection/, /amount|price|payment|value|\binr\b|\brs\b/] },
+  { role: 'date', types: ['date'], patterns: [/call date|date ?time|^date$|timestamp|called at|start time/, /date|time|created|day/] },
+  { role: 'cohort', types: ['category', 'text'], patterns: [/cohort|segment/] },
+  { role: 'source', types: ['category', 'text'], patterns: [/source|campaign|channel|utm/] },
+  { role: 'leadId', types: ['number', 'category', 'text'], patterns: [/lead ?id|lead ?no|customer ?id/, /^mobile|phone|msisdn|contact ?no/] },
+  { role: 'callId', types: ['number', 'category', 'text'], patterns: [/call ?id|unique ?id|cdr ?id|^uid$/] },
+];
+
+export function isMissing(value: CellValue): value is null | string {
+  return value === null || (typeof value === 'string' && NULL_MARKERS.has(value.trim().toLowerCase()));
+}
+
+/** Accepts `1,23,456.50`, `₹350`, `$1,200`, `15%` and `Rs. 99`. */
+export function toNumber(value: CellValue): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = /^([-+])?\s*(?:[₹$€£]|rs\.?|inr)?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*%?$/i.exec(value.trim());
+  if (!match) return null;
+  const number = Number(match[2].replace(/,/g, ''));
+  return match[1] === '-' ? -number : number;
+}
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 2200) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const fullYear = (year: string): number => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+/**
+ * The calendar date of a cell as `yyyy-mm-dd`. Numeric dates are read day
+ * first (`05/03/2025` is 5 March) unless the second part cannot be a month.
+ */
+export function toIsoDate(value: CellValue): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : isoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ t]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})?)?$/.exec(text);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:,?\s+\d{1,2}:\d{2}(?::\d{2})?\s*(?:am|pm)?)?$/.exec(text);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    return second > 12 ? isoDate(fullYear(match[3]), first, second) : isoDate(fullYear(match[3]), second, first);
+  }
+  match = /^(\d{1,2})[\s-]([a-z]{3})[a-z]*[\s,-]+(\d{4}|\d{2})\b/.exec(text);
+  if (match && MONTHS.includes(match[2])) return isoDate(fullYear(match[3]), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+  match = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/.exec(text);
+  if (match && MONTHS.includes(match[1])) return isoDate(Number(match[3]), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+  return null;
+}
+
+/** `h:mm:ss` or `m:ss` text, or an Excel time-of-day cell (dated 1899-12-30). */
+function clockToSeconds(value: CellValue): number | null {
+  if (value instanceof Date) {
+    if (value.getFullYear() > 1900) return null;
+    return value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds();
+  }
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{1,3}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  return match[3] === undefined
+    ? Number(match[1]) * 60 + Number(match[2])
+    : Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/** Seconds for a duration cell; plain numbers are taken to be seconds. */
+export function toDurationSeconds(value: CellValue): number | null {
+  return clockToSeconds(value) ?? toNumber(value);
+}
+
+const isBooleanLike = (value: CellValue): boolean =>
+  typeof value === 'boolean' || (typeof value === 'string' && ['true', 'false', 'yes', 'no', 'y', 'n'].includes(value.trim().toLowerCase()));
+
+export const cellText = (value: CellValue): string =>
+  value instanceof Date ? (toIsoDate(value) ?? value.toISOString()) : String(value ?? '').trim();
+
+function inferType(values: CellValue[], distinct: number): ColumnType {
+  if (values.length === 0) return 'empty';
+  const share = (test: (value: CellValue) => boolean) => values.filter(test).length / values.length;
+  if (share(isBooleanLike) === 1) return 'boolean';
+  if (share((value) => toNumber(value) !== null) >= TYPE_THRESHOLD) return 'number';
+  if (share((value) => clockToSeconds(value) !== null) >= TYPE_THRESHOLD) return 'duration';
+  if (share((value) => toIsoDate(value) !== null) >= TYPE_THRESHOLD) return 'date';
+  return distinct <= 50 && distinct <= values.length * 0.5 ? 'category' : 'text';
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+function numericStats(numbers: number[]): Pick<ColumnProfile, 'min' | 'max' | 'mean' | 'median' | 'sum'> {
+  if (numbers.length === 0) return {};
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return { min: round(sorted[0]), max: round(sorted[sorted.length - 1]), mean: round(sum / sorted.length), median: round(median), sum: round(sum) };
+}
+
+function topValues(values: CellValue[]): ColumnProfile['topValues'] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const text = cellText(value).slice(0, 80);
+    counts.set(text, (counts.get(text) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+}
+
+function profileColumn(name: string, values: CellValue[]): ColumnProfile {
+  const filled = values.filter((value) => !isMissing(value));
+  const distinct = new Set(filled.map(cellText)).size;
+  const type = inferType(filled, distinct);
+  const profile: ColumnProfile = { name, type, filled: filled.length, missing: values.length - filled.length, distinct };
+  if (type === 'number' || type === 'duration') {
+    const parse = type === 'number' ? toNumber : toDurationSeconds;
+    return { ...profile, ...numericStats(filled.map(parse).filter((value): value is number => value !== null)) };
+  }
+  if (type === 'date') {
+    const dates = filled.map(toIsoDate).filter((value): value is string => value !== null).sort();
+    return { ...profile, earliest: dates[0], latest: dates[dates.length - 1] };
+  }
+  if (type === 'category' || type === 'text' || type === 'boolean') {
+    return { ...profile, topValues: topValues(filled) };
+  }
+  return profile;
+}
+
+const normalizeHeader = (name: string): string => name.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+function assignRoles(columns: ColumnProfile[]): void {
+  const taken = new Set<number>();
+  for (const { role, types, patterns } of ROLE_PATTERNS) {
+    for (const pattern of patterns) {
+      const index = columns.findIndex(
+        (column, position) => !taken.has(position) && types.includes(column.type) && pattern.test(normalizeHeader(column.name))
+      );
+      if (index >= 0) {
+        columns[index].role = role;
+        taken.add(index);
+        break;
+      }
+    }
+  }
+}
+
+export function profileTable(table: DataTable): TableProfile {
+  const columns = table.columns.map((name, index) => profileColumn(name, table.rows.map((row) => row[index])));
+  assignRoles(columns);
+  return {
+    source: table.source,
+    sheet: table.sheet,
+    headerRow: table.headerRow,
+    rowCount: table.rows.length,
+    skippedRows: table.skippedRows,
+    columns,
+  };
+}
+
+export const tableLabel = (table: Pick<TableProfile, 'source' | 'sheet'>): string =>
+  table.sheet ? `${table.source} [${table.sheet}]` : table.source;
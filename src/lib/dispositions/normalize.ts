@@ -0,0 +1,38 @@
+/**
+ * Translates the codes and labels agents pick in a dialer or CRM ("NI",
+ * "CALLBK", "Sale - Paid", ...) to the dispositions the AI assigns, so the two
+ * can be compared. Rules are checked in order, most specific first: "not
+ * interested" has to be tried before "interested".
+ */
+import { CALL_DISPOSITIONS, type CallDisposition } from './types';
+
+const DISPOSITION_RULES: { disposition: CallDisposition; pattern: RegExp }[] = [
+  { disposition: 'DNC - Do Not Call', pattern: /\b(dnc|dncl|do not call|dont call|never call)\b/ },
+  { disposition: 'Wrong Number', pattern: /\b(wrong (number|no|party|person)|wn|wrongnum)\b/ },
+  { disposition: 'Invalid Number', pattern: /\b(invalid|disconnected|dc|adc|not in service|does not exist)\b/ },
+  { disposition: 'Switched Off', pattern: /\b(switch(ed)? off|not reachable|unreachable|out of coverage)\b/ },
+  { disposition: 'Voicemail', pattern: /\b(voice ?mail|vm|answering machine|am|aa|amd)\b/ },
+  { disposition: 'No Answer', pattern: /\b(no answer|not answered|na|rna|ring no answer|noans)\b/ },
+  { disposition: 'Busy', pattern: /\b(busy|b|ab|line busy)\b/ },
+  { disposition: 'Language Barrier', pattern: /\b(language|lang|lb)\b/ },
+  { disposition: 'Already Subscribed', pattern: /\b(already (subscribed|a customer|customer|member|have)|existing (customer|subscriber))\b/ },
+  { disposition: 'Price Too High', pattern: /\b(price|pricing|expensive|costly|too high|budget)\b/ },
+  { disposition: 'Callback Requested', pattern: /\b(call ?back|cb|callbk|cbhold|call later)\b/ },
+  { disposition: 'Wants More Information', pattern: /\b(more info(rmation)?|send (details|info)|info|information)\b/ },
+  { disposition: 'Follow-up Required', pattern: /\b(follow ?up|fu|followup)\b/ },
+  { disposition: 'Not Interested', pattern: /\b(not interested|ni|nint|notint|nq|not qualified|declined|rejected|refused)\b/ },
+  { disposition: 'Sale Completed', pattern: /\b(sale|sold|converted|conv|closed won|paid|payment (done|received)|subscribed|purchase[ds]?)\b/ },
+  { disposition: 'Interested', pattern: /\b(interested|int|hot|warm|lead|prospect)\b/ },
+];
+
+const normalizeText = (value: string): string =>
+  value.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const EXACT_MATCHES = new Map(CALL_DISPOSITIONS.map((disposition) => [normalizeText(disposition), disposition]));
+
+/** The AI disposition a dialer code stands for, or undefined when it is not recognised. */
+export function normalizeDisposition(value: string): CallDisposition | undefined {
+  const text = normalizeText(value);
+  if (!text) return undefined;
+  return EXACT_MATCHES.get(text) ?? DISPOSITION_RULES.find(({ pattern }) => pattern.test(text))?.disposition;
+}
@@ -0,0 +1,100 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Compares the disposition the AI gave each scored call (`callDisposition`)
+ * with what the agent tagged in the dialer. The dialer's side comes from
+ * imported dispositions, matched by call id, or failing that from the CDR row
+ * ingestion attached to the recording. Calls are matched by the call id
+ * ingestion recorded or, for uploads, by a call id in the file name.
+ */
+import { buildCdrIndex, matchRecording } from '@/lib/ingestion/cdr';
+import type { ActivityLogEntry, CallScoringActivityDetails } from '@/types';
+import { normalizeDisposition } from './normalize';
+import {
+  RECOVERABLE_DISPOSITIONS,
+  type DialerDisposition,
+  type DispositionMismatchGroup,
+  type DispositionReconciliationReport,
+  type ReconciledCall,
+} from './types';
+
+interface DialerSide {
+  callId: string;
+  disposition: string;
+  agentName?: string;
+}
+
+function findDialerSide(
+  details: CallScoringActivityDetails,
+  byCallId: Map<string, DialerDisposition>,
+  index: ReturnType<typeof buildCdrIndex>
+): DialerSide | null {
+  const metadata = details.callMetadata;
+  const imported = metadata?.callId ? byCallId.get(metadata.callId.toLowerCase()) : undefined;
+  if (imported) return imported;
+  if (metadata?.callId && metadata.disposition) {
+    return { callId: metadata.callId, disposition: metadata.disposition, agentName: metadata.agentName };
+  }
+  const matched = matchRecording(index, details.fileName);
+  return matched?.callId && matched.disposition ? { callId: matched.callId, disposition: matched.disposition, agentName: matched.agentName } : null;
+}
+
+export function reconcileDispositions(entries: ActivityLogEntry[], dispositions: DialerDisposition[]): DispositionReconciliationReport {
+  const byCallId = new Map(dispositions.map((record) => [record.callId.toLowerCase(), record]));
+  const index = buildCdrIndex(dispositions.map(({ callId, disposition, agentName }) => ({ callId, disposition, agentName })));
+  const calls: ReconciledCall[] = [];
+  const groups = new Map<string, DispositionMismatchGroup>();
+  let scoredCalls = 0;
+  let matched = 0;
+
+  for (const entry of entries) {
+    const details = entry.details as CallScoringActivityDetails;
+    const scoreOutput = details.scoreOutput;
+    if (entry.module !== 'Call Scoring' || !scoreOutput || details.status === 'Failed' || scoreOutput.callCategorisation === 'Error') continue;
+    scoredCalls++;
+    const dialer = findDialerSide(details, byCallId, index);
+    if (!dialer) continue;
+
+    const dialerCategory = normalizeDisposition(dialer.disposition);
+    const aiDisposition = scoreOutput.callDisposition;
+    if (dialerCategory === aiDisposition) {
+      matched++;
+      continue;
+    }
+    const agentName = dialer.agentName || details.callMetadata?.agentName || details.agentNameFromForm || entry.agentName || 'Unknown';
+    calls.push({
+      activityId: entry.id,
+      callId: dialer.callId,
+      fileName: details.fileName,
+      agentName,
+      product: entry.product,
+      scoredAt: entry.timestamp,
+      dialerDisposition: dialer.disposition,
+      dialerCategory,
+      aiDisposition,
+      suggestedDisposition: scoreOutput.suggestedDisposition,
+      conversionReadiness: scoreOutput.conversionReadiness,
+      overallScore: scoreOutput.overallScore,
+      summary: scoreOutput.summary,
+      status: dialerCategory ? 'MISMATCH' : 'UNMAPPED',
+      leadRecovery: RECOVERABLE_DISPOSITIONS.includes(aiDisposition) && !(dialerCategory && RECOVERABLE_DISPOSITIONS.includes(dialerCategory)),
+    });
+
+    const dialerLabel = dialerCategory ?? dialer.disposition;
+    const key = [agentName.toLowerCase(), dialerLabel, aiDisposition].join('\u0000');
+    const group = groups.get(key) ?? { agentName, dialerDisposition: dialerLabel, aiDisposition, count: 0 };
+    group.count++;
+    groups.set(key, group);
+  }
+
+  const unmapped = calls.filter((call) => call.status === 'UNMAPPED').length;
+  return {
+    scoredCalls,
+    compared: matched + calls.length,
+    matched,
+    mismatched: calls.length - unmapped,
+    unmapped,
+    groups: [...groups.values()].sort((a, b) => b.count - a.count || a.agentName.localeCompare(b.agentName)),
+    calls: calls.sort((a, b) => b.scoredAt.localeCompare(a.scoredAt)),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Reads a disposition import from a request body, either JSON records or a
+ * dialer CSV export (`Content-Type: text/csv`). Shared by the session route
+ * and the public `/api/v1` route.
+ */
+import { parseCdr } from '@/lib/ingestion/cdr';
+import {
+  DialerDispositionImportSchema,
+  MAX_DISPOSITIONS_PER_IMPORT,
+  type DialerDisposition,
+  type DialerDispositionInput,
+} from './types';
+
+const MAX_CSV_BYTES = 20 * 1024 * 1024;
+
+/** The records to import, or the error to answer with. */
+export type DispositionImportRequest =
+  | { records: DialerDispositionInput[]; skipped: number; source: DialerDisposition['source'] }
+  | { error: string; status: number };
+
+export async function readDispositionImport(request: Request): Promise<DispositionImportRequest> {
+  if (!(request.headers.get('content-type') ?? '').includes('text/csv')) {
+    const parsed = DialerDispositionImportSchema.safeParse(await request.json().catch(() => undefined));
+    if (!parsed.success) {
+      return { error: `Invalid disposition payload: ${parsed.error.message}`, status: 400 };
+    }
+    return { records: parsed.data.records, skipped: 0, source: 'API' };
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+  if (data.length > MAX_CSV_BYTES) {
+    return { error: `CSV imports are limited to ${MAX_CSV_BYTES / (1024 * 1024)}MB.`, status: 413 };
+  }
+  const rows = parseCdr(data);
+  const records = rows.flatMap((row): DialerDispositionInput[] =>
+    row.callId && row.disposition
+      ? [{ callId: row.callId, disposition: row.disposition, agentName: row.agentName, campaign: row.campaign, calledAt: row.calledAt }]
+      : []
+  );
+  if (records.length === 0) {
+    return { error: 'No rows with both a call id and a disposition were found. Check the CSV headers.', status: 400 };
+  }
+  if (records.length > MAX_DISPOSITIONS_PER_IMPORT) {
+    return { error: `Import at most ${MAX_DISPOSITIONS_PER_IMPORT} rows at a time.`, status: 413 };
+  }
+  return { records, skipped: rows.length - records.length, source: 'CSV' };
+}
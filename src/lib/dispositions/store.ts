@@ -0,0 +1,108 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Dispositions agents tagged in the dialer or CRM, imported from CSV exports
+ * or pushed over the API, persisted in SQLite and keyed by workspace and call
+ * id. A later import for the same call replaces the earlier one.
+ * `DISPOSITION_STORE_PATH` overrides the file location (defaults to `.data/dispositions.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { DialerDisposition, DialerDispositionInput } from './types';
+
+type DispositionRow = {
+  workspace_id: string;
+  call_id: string;
+  disposition: string;
+  agent_name: string | null;
+  campaign: string | null;
+  called_at: string | null;
+  source: DialerDisposition['source'];
+  imported_at: string;
+};
+
+const DEFAULT_DISPOSITION_DB_PATH = path.join(process.cwd(), '.data', 'dispositions.db');
+
+const rowToDisposition = (row: DispositionRow): DialerDisposition => ({
+  workspaceId: row.workspace_id,
+  callId: row.call_id,
+  disposition: row.disposition,
+  agentName: row.agent_name ?? undefined,
+  campaign: row.campaign ?? undefined,
+  calledAt: row.called_at ?? undefined,
+  source: row.source,
+  importedAt: row.imported_at,
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.DISPOSITION_STORE_PATH || DEFAULT_DISPOSITION_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS dialer_dispositions (
+        workspace_id TEXT NOT NULL,
+        call_id TEXT NOT NULL,
+        disposition TEXT NOT NULL,
+        agent_name TEXT,
+        campaign TEXT,
+        called_at TEXT,
+        source TEXT NOT NULL,
+        imported_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, call_id)
+      );
+    `);
+  }
+  return database;
+}
+
+/** Upserts the records in one transaction and returns how many were written. */
+export function importDialerDispositions(
+  workspaceId: string,
+  records: DialerDispositionInput[],
+  source: DialerDisposition['source']
+): number {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const upsert = db.prepare(`
+    INSERT INTO dialer_dispositions (workspace_id, call_id, disposition, agent_name, campaign, called_at, source, imported_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (workspace_id, call_id) DO UPDATE SET
+      disposition = excluded.disposition, agent_name = excluded.agent_name, campaign = excluded.campaign,
+      called_at = excluded.called_at, source = excluded.source, imported_at = excluded.imported_at
+  `);
+  db.transaction(() => {
+    for (const record of records) {
+      upsert.run(
+        workspaceId,
+        record.callId,
+        record.disposition,
+        record.agentName ?? null,
+        record.campaign ?? null,
+        record.calledAt ?? null,
+        source,
+        now
+      );
+    }
+  })();
+  return records.length;
+}
+
+export function listDialerDispositions(workspaceId: string): DialerDisposition[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM dialer_dispositions WHERE workspace_id = ?')
+    .all(workspaceId) as DispositionRow[];
+  return rows.map(rowToDisposition);
+}
+
+export function countDialerDispositions(workspaceId: string): number {
+  const row = getDb()
+    .prepare('SELECT COUNT(*) AS total FROM dialer_dispositions WHERE workspace_id = ?')
+    .get(workspaceId) as { total: number };
+  return row.total;
+}
@@ -0,0 +1,101 @@
+/**
+ * Shapes shared by disposition reconciliation, its API routes and the report
+ * page. Kept free of Node-only imports so the page can use them.
+ */
+import { z } from 'zod';
+import { ScoreCallOutputSchema, type ScoreCallOutput } from '@/types';
+
+export type CallDisposition = ScoreCallOutput['callDisposition'];
+
+export const CALL_DISPOSITIONS: readonly CallDisposition[] = ScoreCallOutputSchema.shape.callDisposition.options;
+
+/**
+ * Outcomes that leave a lead worth calling again. A call the AI puts here but
+ * the dialer closed with anything else belongs on the lead-recovery list.
+ */
+export const RECOVERABLE_DISPOSITIONS: readonly CallDisposition[] = [
+  'Interested',
+  'Callback Requested',
+  'Wants More Information',
+  'Follow-up Required',
+  'Price Too High',
+  'Sale Completed',
+];
+
+export const DialerDispositionInputSchema = z.object({
+  callId: z.string().trim().min(1, 'Every record needs a callId.'),
+  disposition: z.string().trim().min(1, 'Every record needs a disposition.'),
+  agentName: z.string().trim().optional(),
+  campaign: z.string().trim().optional(),
+  calledAt: z.string().datetime().optional(),
+});
+export type DialerDispositionInput = z.infer<typeof DialerDispositionInputSchema>;
+
+export const MAX_DISPOSITIONS_PER_IMPORT = 20_000;
+
+export const DialerDispositionImportSchema = z.object({
+  records: z.array(DialerDispositionInputSchema).min(1).max(MAX_DISPOSITIONS_PER_IMPORT),
+});
+
+/** What the agent tagged in the dialer or CRM for one call. */
+export interface DialerDisposition extends DialerDispositionInput {
+  workspaceId: string;
+  source: 'CSV' | 'API';
+  importedAt: string;
+}
+
+export const DispositionImportResultSchema = z.object({
+  imported: z.number().int(),
+  /** Rows without a call id or disposition. */
+  skipped: z.number().int(),
+});
+export type DispositionImportResult = z.infer<typeof DispositionImportResultSchema>;
+
+/**
+ * `UNMAPPED` means the dialer's code could not be translated to one of the
+ * AI's dispositions, so the two were not compared.
+ */
+export type ReconciliationStatus = 'MATCH' | 'MISMATCH' | 'UNMAPPED';
+
+export interface ReconciledCall {
+  activityId: string;
+  callId: string;
+  fileName: string;
+  agentName: string;
+  product?: string;
+  scoredAt: string;
+  dialerDisposition: string;
+  /** The dialer's code translated to an AI disposition. */
+  dialerCategory?: CallDisposition;
+  aiDisposition: CallDisposition;
+  suggestedDisposition?: string;
+  conversionReadiness?: ScoreCallOutput['conversionReadiness'];
+  overallScore?: number;
+  summary?: string;
+  status: ReconciliationStatus;
+  leadRecovery: boolean;
+}
+
+/** One "agent said X, AI says Y" pair. */
+export interface DispositionMismatchGroup {
+  agentName: string;
+  /** The translated category, or the dialer's raw code when it has none. */
+  dialerDisposition: string;
+  aiDisposition: CallDisposition;
+  count: number;
+}
+
+export interface DispositionReconciliationReport {
+  /** Scored calls read from the history. */
+  scoredCalls: number;
+  /** Scored calls with a dialer disposition to compare against. */
+  compared: number;
+  matched: number;
+  mismatched: number;
+  unmapped: number;
+  /** Most frequent pairs first. */
+  groups: DispositionMismatchGroup[];
+  /** Mismatched and unmapped calls, newest first. */
+  calls: ReconciledCall[];
+  generatedAt: string;
+}
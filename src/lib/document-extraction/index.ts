@@ -0,0 +1,87 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Turns uploaded documents into anchored text sections. Every extractor throws
+ * an `Error` whose message can be shown to the user as the reason a file's
+ * text could not be read.
+ */
+import { extractPdf } from './pdf';
+import { extractDocx, extractPptx, extractSpreadsheet } from './office';
+import { detectDocumentFormat, formatSectionsAsText, type DocumentFormat, type ExtractedSection } from './sections';
+import type { KnowledgeFileExtraction } from '@/types';
+
+export { detectDocumentFormat, formatSectionsAsText, parseSectionedText } from './sections';
+export type { DocumentFormat, ExtractedSection } from './sections';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  sections: ExtractedSection[];
+}
+
+const stripHtml = (html: string): string =>
+  html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+
+function extractPlainText(data: Buffer, fileName: string): ExtractedSection[] {
+  let text = data.toString('utf8').replace(/^\uFEFF/, '');
+  if (/\.html?$/i.test(fileName)) text = stripHtml(text);
+  if (!text.trim()) throw new Error('The file is empty.');
+  return [{ text: text.trim() }];
+}
+
+export async function extractDocument(
+  data: Buffer,
+  { fileName, mimeType }: { fileName: string; mimeType?: string }
+): Promise<ExtractedDocument> {
+  const format = detectDocumentFormat(fileName, mimeType);
+  if (!format) {
+    throw new Error(`Text cannot be extracted from ${mimeType || 'this file type'}.`);
+  }
+  switch (format) {
+    case 'pdf':
+      return { format, sections: extractPdf(data) };
+    case 'docx':
+      return { format, sections: await extractDocx(data) };
+    case 'pptx':
+      return { format, sections: await extractPptx(data) };
+    case 'xlsx':
+      return { format, sections: extractSpreadsheet(data) };
+    case 'csv':
+    case 'text':
+      return { format, sections: extractPlainText(data, fileName) };
+  }
+}
+
+/** Longest text kept per file; it is stored in browser local storage with the KB entry. */
+export const MAX_EXTRACTED_TEXT_CHARS = 200_000;
+
+/** Per-file payload of `POST /api/knowledge-base/extract`. */
+export interface FileExtractionResult {
+  name: string;
+  textContent?: string;
+  extraction: KnowledgeFileExtraction;
+}
+
+/** Extracts one upload, reporting failures in the result instead of throwing. */
+export async function extractUploadedFile(file: File): Promise<FileExtractionResult> {
+  try {
+    const { sections } = await extractDocument(Buffer.from(await file.arrayBuffer()), {
+      fileName: file.name,
+      mimeType: file.type,
+    });
+    const text = formatSectionsAsText(sections);
+    const truncated = text.length > MAX_EXTRACTED_TEXT_CHARS;
+    return {
+      name: file.name,
+      textContent: truncated ? text.slice(0, MAX_EXTRACTED_TEXT_CHARS) : text,
+      extraction: { status: 'extracted', sectionCount: sections.length, truncated: truncated || undefined },
+    };
+  } catch (error) {
+    return { name: file.name, extraction: { status: 'failed', error: (error as Error).message } };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Text extraction for Office Open XML documents (DOCX, PPTX) and spreadsheets.
+ * DOCX pages are counted from the page breaks Word records in the file, so
+ * anchors match the last layout Word saved; PPTX anchors follow slide order.
+ */
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import type { ExtractedSection } from './sections';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) =>
+    entity.startsWith('#x')
+      ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+      : entity.startsWith('#')
+        ? String.fromCodePoint(Number(entity.slice(1)))
+        : XML_ENTITIES[entity]
+  );
+
+const collapse = (lines: string[]): string =>
+  lines
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+async function openPackage(data: Buffer, kind: string): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new Error(`The file is not a valid ${kind} document.`);
+  }
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+}
+
+/** Text of one DrawingML/WordprocessingML paragraph. */
+const paragraphText = (xml: string, textTag: 'w:t' | 'a:t'): string =>
+  [...xml.matchAll(new RegExp(`<${textTag}(?:\\s[^>]*)?>([^<]*)</${textTag}>|<(?:w:tab|a:tab)\\b[^>]*/>|<(?:w:br|a:br)\\b[^>]*/>`, 'g'))]
+    .map((match) => (match[1] !== undefined ? decodeXml(match[1]) : match[0].includes('tab') ? '\t' : '\n'))
+    .join('');
+
+export async function extractDocx(data: Buffer): Promise<ExtractedSection[]> {
+  const zip = await openPackage(data, 'Word');
+  const xml = await readPart(zip, 'word/document.xml');
+  if (!xml) throw new Error('The Word document has no main body (word/document.xml).');
+
+  const pages: string[][] = [[]];
+  let sawPageBreak = false;
+  for (const paragraph of xml.match(/<w:p\b[\s\S]*?<\/w:p>/g) ?? []) {
+    // A paragraph that spans a page break is attributed to the page it ends on.
+    const breaks = paragraph.match(/<w:lastRenderedPageBreak\/>|<w:br\b[^>]*w:type="page"[^>]*\/>|<w:pageBreakBefore\/>/g);
+    if (breaks) {
+      sawPageBreak = true;
+      pages.push([]);
+    }
+    pages[pages.length - 1].push(paragraphText(paragraph, 'w:t'));
+  }
+
+  const sections = pages
+    .map((lines, index) => ({ text: collapse(lines), anchor: sawPageBreak ? `Page ${index + 1}` : undefined }))
+    .filter((section) => section.text);
+  if (sections.length === 0) throw new Error('The Word document contains no text.');
+  return sections;
+}
+
+const relationshipTargets = (relsXml: string | null): Map<string, { target: string; type: string }> =>
+  new Map(
+    [...(relsXml ?? '').matchAll(/<Relationship\b[^>]*>/g)].map((match) => {
+      const attribute = (name: string) => new RegExp(`\\b${name}="([^"]*)"`).exec(match[0])?.[1] ?? '';
+      return [attribute('Id'), { target: attribute('Target'), type: attribute('Type') }];
+    })
+  );
+
+const resolvePartPath = (baseDir: string, target: string): string => {
+  const parts = target.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+  for (const segment of target.replace(/^\//, '').split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const slideText = (xml: string): string =>
+  collapse((xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? []).map((paragraph) => paragraphText(paragraph, 'a:t')));
+
+/** Slide paths in presentation order, falling back to slide number order. */
+async function slidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await readPart(zip, 'ppt/presentation.xml');
+  const rels = relationshipTargets(await readPart(zip, 'ppt/_rels/presentation.xml.rels'));
+  const ordered = [...(presentation ?? '').matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+    .map((match) => rels.get(match[1])?.target)
+    .filter((target): target is string => Boolean(target))
+    .map((target) => resolvePartPath('ppt', target))
+    .filter((path) => zip.file(path));
+  if (ordered.length) return ordered;
+  const slideNumber = (path: string) => Number(/slide(\d+)\.xml$/.exec(path)?.[1] ?? 0);
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+export async function extractPptx(data: Buffer): Promise<ExtractedSection[]> {
+  const zip = await openPackage(data, 'PowerPoint');
+  const paths = await slidePaths(zip);
+  if (paths.length === 0) throw new Error('The presentation has no slides.');
+
+  const sections: ExtractedSection[] = [];
+  for (const [index, path] of paths.entries()) {
+    const text = slideText((await readPart(zip, path)) ?? '');
+    const fileName = path.split('/').pop() ?? '';
+    const rels = relationshipTargets(await readPart(zip, `ppt/slides/_rels/${fileName}.rels`));
+    const notesTarget = [...rels.values()].find((rel) => rel.type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesTarget ? await readPart(zip, resolvePartPath('ppt/slides', notesTarget)) : null;
+    // Notes slides repeat the slide number placeholder; keep only real notes text.
+    const notes = notesXml ? slideText(notesXml).replace(/^\d+$/gm, '').trim() : '';
+    const body = [text, notes && `Speaker notes:\n${notes}`].filter(Boolean).join('\n\n');
+    if (body) sections.push({ text: body, anchor: `Slide ${index + 1}` });
+  }
+  if (sections.length === 0) throw new Error('The presentation contains no text.');
+  return sections;
+}
+
+export function extractSpreadsheet(data: Buffer): ExtractedSection[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: 'buffer', cellDates: true });
+  } catch {
+    throw new Error('The file is not a readable spreadsheet.');
+  }
+  const sections = workbook.SheetNames.map((name) => ({
+    text: XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false }).trim(),
+    anchor: `Sheet ${name}`,
+  })).filter((section) => section.text);
+  if (sections.length === 0) throw new Error('The spreadsheet contains no data.');
+  return sections;
+}
@@ -0,0 +1,753 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Minimal PDF text extraction: enough of the file format to walk the page
+ * tree, inflate content streams and decode text-showing operators through the
+ * fonts' ToUnicode maps. Layout is approximated from text positioning
+ * operators. Scanned PDFs (no text layer) and encrypted PDFs are rejected.
+ */
+import zlib from 'zlib';
+import type { ExtractedSection } from './sections';
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | Buffer | PdfName | PdfRef | PdfValue[] | PdfDict;
+type PdfToken = PdfValue | PdfOperator;
+type Delimiter = '[' | ']' | '<<' | '>>';
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface FontDecoder {
+  /** Bytes per character code (2 for Identity-H CID fonts). */
+  codeLength: number;
+  map?: Map<number, string>;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isDict = (value: PdfValue | undefined): value is PdfDict => value instanceof Map;
+const nameOf = (value: PdfValue | undefined): string | undefined => (value instanceof PdfName ? value.name : undefined);
+
+/** Tokenizer for both the file's object syntax and content streams. */
+class PdfLexer {
+  pos: number;
+
+  constructor(private data: Buffer, start = 0) {
+    this.pos = start;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !WHITESPACE.has(this.data[this.pos]) &&
+      !DELIMITERS.has(this.data[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.data.toString('latin1', start, this.pos);
+  }
+
+  private readLiteralString(): Buffer {
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++];
+      if (byte === 0x5c) {
+        const next = this.data[this.pos++];
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (escapes[next] !== undefined) {
+          bytes.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + (this.data[this.pos++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (this.data[this.pos] === 0x0a) this.pos++;
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private readHexString(): Buffer {
+    const end = this.data.indexOf(0x3e, this.pos);
+    const hex = this.data.toString('latin1', this.pos + 1, end < 0 ? this.data.length : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end < 0 ? this.data.length : end + 1;
+    return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+  }
+
+  /** Next raw token; `undefined` at the end of input. */
+  next(): PdfToken | Delimiter | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) return undefined;
+    const byte = this.data[this.pos];
+    if (byte === 0x28) return this.readLiteralString();
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return '<<';
+      }
+      return this.readHexString();
+    }
+    if (byte === 0x3e) {
+      this.pos += this.data[this.pos + 1] === 0x3e ? 2 : 1;
+      return '>>';
+    }
+    if (byte === 0x5b || byte === 0x5d) {
+      this.pos++;
+      return byte === 0x5b ? '[' : ']';
+    }
+    if (byte === 0x7b || byte === 0x7d) {
+      this.pos++;
+      return this.next();
+    }
+    if (byte === 0x2f) {
+      this.pos++;
+      return new PdfName(this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+    }
+    const word = this.readRegular();
+    if (word === '') {
+      this.pos++;
+      return this.next();
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return new PdfOperator(word);
+  }
+
+  /**
+   * Parses one value. Numbers followed by `G R` become references; operators
+   * are returned as-is so content streams can be interpreted.
+   */
+  readValue(): PdfToken | ']' | '>>' | undefined {
+    const token = this.next();
+    if (token === '<<') {
+      const dict: PdfDict = new Map();
+      for (;;) {
+        const key = this.readValue();
+        if (key === undefined || key === '>>' || !(key instanceof PdfName)) break;
+        const value = this.readValue();
+        if (value === undefined || value instanceof PdfOperator) break;
+        dict.set(key.name, value as PdfValue);
+      }
+      return dict;
+    }
+    if (token === '[') {
+      const items: PdfValue[] = [];
+      for (;;) {
+        const item = this.readValue();
+        if (item === undefined || item === ']') break;
+        if (!(item instanceof PdfOperator)) items.push(item as PdfValue);
+      }
+      return items;
+    }
+    if (typeof token === 'number' && Number.isInteger(token)) {
+      const saved = this.pos;
+      const gen = this.next();
+      const marker = this.next();
+      if (typeof gen === 'number' && marker instanceof PdfOperator && marker.op === 'R') {
+        return new PdfRef(token, gen);
+      }
+      this.pos = saved;
+    }
+    return token as PdfToken | ']' | '>>' | undefined;
+  }
+}
+
+/** Where a cross-reference section puts an object: at a file offset, inside an object stream, or nowhere (freed). */
+type XrefEntry = { offset: number } | { stream: number; index: number } | null;
+
+interface XrefSection {
+  entries: Map<number, XrefEntry>;
+  trailer: PdfDict;
+}
+
+const isObjectValue = (value: PdfToken | ']' | '>>' | undefined): value is PdfValue =>
+  value !== undefined && value !== ']' && value !== '>>' && !(value instanceof PdfOperator);
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  /** Every `N G obj` found by scanning, keyed by the offset cross-reference tables point at. */
+  private objectsAt = new Map<number, { num: number; object: PdfObject }>();
+  private fontCache = new Map<PdfDict, FontDecoder>();
+  private trailer: PdfDict = new Map();
+
+  constructor(private data: Buffer) {
+    this.scanObjects();
+    if (!this.loadXref()) this.expandObjectStreams();
+  }
+
+  /**
+   * Finds every object in the file. Later definitions replace earlier ones,
+   * which is right for files whose cross-reference data cannot be read.
+   */
+  private scanObjects(): void {
+    const text = this.data.toString('latin1');
+    const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = objectPattern.exec(text))) {
+      const lexer = new PdfLexer(this.data, match.index + match[0].length);
+      const value = lexer.readValue();
+      if (!isObjectValue(value)) continue;
+      const object: PdfObject = { value };
+      const after = new PdfLexer(this.data, lexer.pos);
+      const keyword = after.next();
+      if (keyword instanceof PdfOperator && keyword.op === 'stream' && isDict(value)) {
+        let start = after.pos;
+        if (this.data[start] === 0x0d) start++;
+        if (this.data[start] === 0x0a) start++;
+        const declared = value.get('Length');
+        let end = typeof declared === 'number' ? start + declared : -1;
+        if (end < 0 || end > this.data.length || text.indexOf('endstream', end) - end > 4) {
+          end = text.indexOf('endstream', start);
+          if (end < 0) end = this.data.length;
+          while (end > start && (this.data[end - 1] === 0x0a || this.data[end - 1] === 0x0d)) end--;
+        }
+        object.stream = this.data.subarray(start, end);
+        objectPattern.lastIndex = end;
+        if (nameOf(value.get('Type')) === 'XRef') this.mergeTrailer(value);
+      }
+      this.objects.set(Number(match[1]), object);
+      this.objectsAt.set(match.index, { num: Number(match[1]), object });
+    }
+    const trailerPattern = /trailer\s*<</g;
+    while ((match = trailerPattern.exec(text))) {
+      const value = new PdfLexer(this.data, match.index + 'trailer'.length).readValue();
+      if (isDict(value as PdfValue)) this.mergeTrailer(value as PdfDict);
+    }
+  }
+
+  private mergeTrailer(dict: PdfDict): void {
+    for (const key of ['Root', 'Encrypt']) {
+      const value = dict.get(key);
+      if (value !== undefined) this.trailer.set(key, value);
+    }
+  }
+
+  /**
+   * Resolves objects through the cross-reference sections, newest first
+   * (`startxref`, then each `Prev`), so objects replaced or freed by
+   * incremental updates resolve to their latest revision. Returns false when
+   * the chain cannot be read, leaving the scanned objects in place.
+   */
+  private loadXref(): boolean {
+    const startxref = this.data.lastIndexOf('startxref');
+    if (startxref < 0) return false;
+    const entries = new Map<number, XrefEntry>();
+    const trailer: PdfDict = new Map();
+    const visited = new Set<number>();
+    let offset = new PdfLexer(this.data, startxref + 'startxref'.length).next();
+    while (typeof offset === 'number' && !visited.has(offset)) {
+      visited.add(offset);
+      const section = this.readXrefSection(offset);
+      if (!section) return false;
+      for (const [num, entry] of section.entries) {
+        if (!entries.has(num)) entries.set(num, entry);
+      }
+      for (const key of ['Root', 'Encrypt']) {
+        const value = section.trailer.get(key);
+        if (value !== undefined && !trailer.has(key)) trailer.set(key, value);
+      }
+      offset = section.trailer.get('Prev');
+    }
+    if (entries.size === 0 || !trailer.has('Root')) return false;
+
+    const streams = new Map<number, { num: number; value?: PdfValue }[]>();
+    const objectStream = (num: number) => {
+      let packed = streams.get(num);
+      if (!packed) {
+        const entry = entries.get(num);
+        const object = entry && 'offset' in entry ? this.objectAt(num, entry.offset) : this.objects.get(num);
+        packed = object ? this.objectStreamEntries(object) : [];
+        streams.set(num, packed);
+      }
+      return packed;
+    };
+    const resolved = new Map<number, PdfObject>();
+    for (const [num, entry] of entries) {
+      if (!entry) continue;
+      if ('offset' in entry) {
+        const object = this.objectAt(num, entry.offset);
+        if (object) resolved.set(num, object);
+      } else {
+        const packed = objectStream(entry.stream);
+        const value = (packed[entry.index]?.num === num ? packed[entry.index] : packed.find((item) => item.num === num))?.value;
+        if (value !== undefined) resolved.set(num, { value });
+      }
+    }
+    for (const [num, object] of resolved) this.objects.set(num, object);
+    // Freed in a newer revision: the scanned older definition must not be used.
+    for (const [num, entry] of entries) {
+      if (!entry) this.objects.delete(num);
+    }
+    this.trailer = trailer;
+    return true;
+  }
+
+  /** The object a cross-reference entry points at; the scanned one when the offset is slightly off. */
+  private objectAt(num: number, offset: number): PdfObject | undefined {
+    let start = offset;
+    while (WHITESPACE.has(this.data[start])) start++;
+    const found = this.objectsAt.get(start);
+    return found?.num === num ? found.object : this.objects.get(num);
+  }
+
+  private readXrefSection(offset: number): XrefSection | null {
+    const lexer = new PdfLexer(this.data, offset);
+    const first = lexer.next();
+    if (!(first instanceof PdfOperator && first.op === 'xref')) {
+      return this.readXrefStream(offset);
+    }
+    const entries = new Map<number, XrefEntry>();
+    for (;;) {
+      const start = lexer.next();
+      if (start instanceof PdfOperator && start.op === 'trailer') break;
+      const count = lexer.next();
+      if (typeof start !== 'number' || typeof count !== 'number') return null;
+      for (let i = 0; i < count; i++) {
+        const entryOffset = lexer.next();
+        const gen = lexer.next();
+        const kind = lexer.next();
+        if (typeof entryOffset !== 'number' || typeof gen !== 'number' || !(kind instanceof PdfOperator)) return null;
+        entries.set(start + i, kind.op === 'n' ? { offset: entryOffset } : null);
+      }
+    }
+    const trailer = lexer.readValue();
+    if (!isDict(trailer as PdfValue)) return null;
+    const section = { entries, trailer: trailer as PdfDict };
+    // Hybrid files list objects kept in object streams only in the XRefStm of the same section.
+    const xrefStm = section.trailer.get('XRefStm');
+    if (typeof xrefStm === 'number') {
+      const stream = this.readXrefStream(xrefStm);
+      for (const [num, entry] of stream?.entries ?? []) {
+        if (entry) entries.set(num, entry);
+      }
+    }
+    return section;
+  }
+
+  /** A cross-reference stream (PDF 1.5+): binary rows of `W` widths for the `Index` ranges. */
+  private readXrefStream(offset: number): XrefSection | null {
+    let start = offset;
+    while (WHITESPACE.has(this.data[start])) start++;
+    const object = this.objectsAt.get(start)?.object;
+    if (!object || !isDict(object.value) || nameOf(object.value.get('Type')) !== 'XRef') return null;
+    const data = this.decodeStream(object);
+    const widths = object.value.get('W');
+    if (!data || !Array.isArray(widths) || widths.length !== 3 || !widths.every((width) => typeof width === 'number')) {
+      return null;
+    }
+    const [typeWidth, fieldWidth, extraWidth] = widths;
+    const rowLength = typeWidth + fieldWidth + extraWidth;
+    const size = Number(object.value.get('Size'));
+    const index = object.value.get('Index');
+    const ranges = Array.isArray(index) ? index.map(Number) : [0, size];
+    const readField = (position: number, width: number) => {
+      let value = 0;
+      for (let i = 0; i < width; i++) value = value * 256 + data[position + i];
+      return value;
+    };
+    const entries = new Map<number, XrefEntry>();
+    let row = 0;
+    for (let r = 0; r + 1 < ranges.length; r += 2) {
+      for (let i = 0; i < ranges[r + 1] && (row + 1) * rowLength <= data.length; i++, row++) {
+        const position = row * rowLength;
+        const type = typeWidth ? readField(position, typeWidth) : 1;
+        const field = readField(position + typeWidth, fieldWidth);
+        const extra = readField(position + typeWidth + fieldWidth, extraWidth);
+        entries.set(ranges[r] + i, type === 1 ? { offset: field } : type === 2 ? { stream: field, index: extra } : null);
+      }
+    }
+    return { entries, trailer: object.value };
+  }
+
+  /** The objects packed in a compressed object stream (PDF 1.5+), in stream order. */
+  private objectStreamEntries(object: PdfObject): { num: number; value?: PdfValue }[] {
+    if (!isDict(object.value) || nameOf(object.value.get('Type')) !== 'ObjStm' || !object.stream) return [];
+    const data = this.decodeStream(object);
+    if (!data) return [];
+    const count = Number(object.value.get('N'));
+    const first = Number(object.value.get('First'));
+    const header = new PdfLexer(data);
+    const entries: { num: number; value?: PdfValue }[] = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.next();
+      const offset = header.next();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      const value = new PdfLexer(data, first + offset).readValue();
+      entries.push({ num, value: isObjectValue(value) ? value : undefined });
+    }
+    return entries;
+  }
+
+  /**
+   * Without cross-reference data, objects in object streams are placed by
+   * position like the scanned ones: the definition latest in the file wins.
+   */
+  private expandObjectStreams(): void {
+    const positions = new Map<number, number>();
+    for (const [offset, { num }] of this.objectsAt) positions.set(num, offset);
+    for (const [offset, { object }] of this.objectsAt) {
+      for (const { num, value } of this.objectStreamEntries(object)) {
+        if (value === undefined || (positions.get(num) ?? -1) > offset) continue;
+        this.objects.set(num, { value });
+        positions.set(num, offset);
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 16) return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    return value;
+  }
+
+  private objectFor(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+  }
+
+  private dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  decodeStream(object: PdfObject): Buffer | null {
+    if (!object.stream || !isDict(object.value)) return null;
+    const filterValue = this.resolve(object.value.get('Filter'));
+    const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : []).map(nameOf);
+    const parmsValue = this.resolve(object.value.get('DecodeParms') ?? object.value.get('DP'));
+    let data = object.stream;
+    for (const [i, filter] of filters.entries()) {
+      if (filter === 'FlateDecode' || filter === 'Fl') {
+        try {
+          data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+        } catch {
+          return null;
+        }
+        const parms = this.dict(Array.isArray(parmsValue) ? parmsValue[i] : parmsValue);
+        const predictor = Number(parms?.get('Predictor') ?? 1);
+        if (predictor >= 10) {
+          data = undoPngPredictor(data, parms!);
+        } else if (predictor !== 1) {
+          return null;
+        }
+      } else if (filter === 'ASCIIHexDecode' || filter === 'AHx') {
+        data = Buffer.from(data.toString('latin1').replace(/[^0-9a-fA-F]/g, ''), 'hex');
+      } else {
+        // Image and legacy filters (DCT, LZW, ASCII85...) never carry extractable text here.
+        return null;
+      }
+    }
+    return data;
+  }
+
+  get isEncrypted(): boolean {
+    return this.trailer.has('Encrypt');
+  }
+
+  /** Page dictionaries in reading order, each with its inherited resources. */
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(this.dict(kid), resources));
+      } else if (nameOf(node.get('Type')) === 'Page' || node.has('Contents')) {
+        pages.push({ page: node, resources });
+      }
+    };
+    const root = this.dict(this.trailer.get('Root'));
+    walk(this.dict(root?.get('Pages')), undefined);
+    if (pages.length === 0) {
+      // Damaged page tree: fall back to every page object in file order.
+      for (const object of this.objects.values()) {
+        if (isDict(object.value) && nameOf(object.value.get('Type')) === 'Page') {
+          pages.push({ page: object.value, resources: this.dict(object.value.get('Resources')) });
+        }
+      }
+    }
+    return pages;
+  }
+
+  contentStreams(page: PdfDict): Buffer[] {
+    const contents = page.get('Contents');
+    const refs = Array.isArray(this.resolve(contents)) ? (this.resolve(contents) as PdfValue[]) : [contents];
+    return refs
+      .map((ref) => this.objectFor(ref))
+      .map((object) => (object ? this.decodeStream(object) : null))
+      .filter((data): data is Buffer => data !== null);
+  }
+
+  xObject(resources: PdfDict | undefined, name: string): { data: Buffer; resources?: PdfDict } | null {
+    const ref = this.dict(resources?.get('XObject'))?.get(name);
+    const object = this.objectFor(ref);
+    if (!object || !isDict(object.value) || nameOf(object.value.get('Subtype')) !== 'Form') return null;
+    const data = this.decodeStream(object);
+    return data ? { data, resources: this.dict(object.value.get('Resources')) ?? resources } : null;
+  }
+
+  font(resources: PdfDict | undefined, name: string): FontDecoder {
+    const font = this.dict(this.dict(resources?.get('Font'))?.get(name));
+    if (!font) return { codeLength: 1 };
+    const cached = this.fontCache.get(font);
+    if (cached) return cached;
+    const decoder: FontDecoder = { codeLength: nameOf(font.get('Subtype')) === 'Type0' ? 2 : 1 };
+    const toUnicode = this.objectFor(font.get('ToUnicode'));
+    const cmap = toUnicode ? this.decodeStream(toUnicode) : null;
+    if (cmap) decoder.map = parseToUnicode(cmap.toString('latin1'), decoder);
+    this.fontCache.set(font, decoder);
+    return decoder;
+  }
+}
+
+const utf16 = (hex: string): string => {
+  const bytes = Buffer.from(hex.length % 4 ? hex.padStart(Math.ceil(hex.length / 4) * 4, '0') : hex, 'hex');
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) result += String.fromCharCode(bytes.readUInt16BE(i));
+  return result;
+};
+
+/**
+ * Reverses the PNG row filters (`Predictor` 10-15) that cross-reference
+ * streams are usually compressed with.
+ */
+function undoPngPredictor(data: Buffer, parms: PdfDict): Buffer {
+  const colors = Number(parms.get('Colors') ?? 1);
+  const bitsPerComponent = Number(parms.get('BitsPerComponent') ?? 8);
+  const columns = Number(parms.get('Columns') ?? 1);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((columns * colors * bitsPerComponent) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+  let previous = Buffer.alloc(rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const line = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const current = out.subarray(row * rowLength, (row + 1) * rowLength);
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const [toLeft, toUp, toUpLeft] = [left, up, upLeft].map((value) => Math.abs(estimate - value));
+        predicted = toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+      }
+      current[i] = (line[i] + predicted) & 0xff;
+    }
+    previous = current;
+  }
+  return out;
+}
+
+function parseToUnicode(cmap: string, decoder: FontDecoder): Map<number, string> {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  if (codespace) decoder.codeLength = Math.max(1, codespace[1].length / 2);
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(entry[1], 16), utf16(entry[2]));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+      if (entry[3].startsWith('[')) {
+        [...entry[3].matchAll(/<([0-9a-fA-F]*)>/g)].forEach((target, index) => map.set(low + index, utf16(target[1])));
+      } else {
+        const base = entry[3].slice(1, -1);
+        const prefix = base.slice(0, -4);
+        const start = parseInt(base.slice(-4) || '0', 16);
+        for (let code = low; code <= high; code++) {
+          map.set(code, utf16(prefix + (start + code - low).toString(16).padStart(4, '0')));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+function decodeText(bytes: Buffer, font: FontDecoder): string {
+  if (!font.map) {
+    // No ToUnicode map: assume a Latin (WinAnsi/Standard) encoding.
+    return font.codeLength === 1 ? bytes.toString('latin1') : '';
+  }
+  let result = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 1 ? bytes[i] : bytes.readUIntBE(i, Math.min(font.codeLength, 6));
+    result += font.map.get(code) ?? (font.codeLength === 1 ? String.fromCharCode(code) : '');
+  }
+  return result;
+}
+
+/** Interprets a content stream, writing text to `out` with approximate line breaks. */
+function extractContentText(
+  pdf: PdfDocument,
+  data: Buffer,
+  resources: PdfDict | undefined,
+  out: string[],
+  depth = 0
+): void {
+  const lexer = new PdfLexer(data);
+  const operands: PdfValue[] = [];
+  let font: FontDecoder = { codeLength: 1 };
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out.length && !out[out.length - 1].endsWith('\n')) out.push('\n');
+  };
+  const write = (text: string) => {
+    if (text) out.push(text);
+  };
+
+  for (let token = lexer.readValue(); token !== undefined; token = lexer.readValue()) {
+    if (!(token instanceof PdfOperator)) {
+      if (token !== ']' && token !== '>>') operands.push(token as PdfValue);
+      continue;
+    }
+    switch (token.op) {
+      case 'BI': {
+        // Inline image data is binary; skip to the end marker.
+        const end = data.indexOf('EI', lexer.pos);
+        lexer.pos = end < 0 ? data.length : end + 2;
+        break;
+      }
+      case 'Tf':
+        font = pdf.font(resources, nameOf(operands[operands.length - 2]) ?? '');
+        break;
+      case 'Td':
+      case 'TD': {
+        const [tx, ty] = operands.slice(-2) as number[];
+        if (Math.abs(ty) > 0.01) newline();
+        else if (tx > 1) write(' ');
+        if (lastY !== null) lastY += ty;
+        break;
+      }
+      case 'Tm': {
+        const y = operands[operands.length - 1] as number;
+        if (lastY !== null && Math.abs(y - lastY) > 0.01) newline();
+        else if (lastY !== null) write(' ');
+        lastY = y;
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case "'":
+      case '"':
+        newline();
+        write(decodeText(operands[operands.length - 1] as Buffer, font));
+        break;
+      case 'Tj':
+        if (Buffer.isBuffer(operands[operands.length - 1])) write(decodeText(operands[operands.length - 1] as Buffer, font));
+        break;
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (Buffer.isBuffer(item)) write(decodeText(item, font));
+            else if (typeof item === 'number' && item < -200) write(' ');
+          }
+        }
+        break;
+      }
+      case 'ET':
+        write(' ');
+        break;
+      case 'Do': {
+        const form = depth < 4 ? pdf.xObject(resources, nameOf(operands[operands.length - 1]) ?? '') : null;
+        if (form) {
+          newline();
+          extractContentText(pdf, form.data, form.resources, out, depth + 1);
+          newline();
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+}
+
+const tidy = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export function extractPdf(data: Buffer): ExtractedSection[] {
+  if (data.subarray(0, 1024).indexOf('%PDF-') < 0) {
+    throw new Error('The file is not a valid PDF.');
+  }
+  const pdf = new PdfDocument(data);
+  if (pdf.isEncrypted) {
+    throw new Error('Encrypted PDFs are not supported. Remove the password and upload again.');
+  }
+  const pages = pdf.pages();
+  if (pages.length === 0) {
+    throw new Error('No pages were found in the PDF.');
+  }
+  const sections = pages
+    .map(({ page, resources }, index) => {
+      const out: string[] = [];
+      for (const stream of pdf.contentStreams(page)) extractContentText(pdf, stream, resources, out);
+      return { text: tidy(out.join('')), anchor: `Page ${index + 1}` };
+    })
+    .filter((section) => section.text);
+  if (sections.length === 0) {
+    throw new Error('The PDF has no text layer (it may be a scan). Run OCR on it and upload again.');
+  }
+  return sections;
+}
@@ -0,0 +1,70 @@
+/**
+ * Plain-text representation of extracted documents. Each section is written
+ * under a `--- Page 3 ---` style marker so anchors survive being stored as a
+ * single `textContent` string and can be recovered for chunking and citations.
+ * Safe to import from client components.
+ */
+
+export interface ExtractedSection {
+  text: string;
+  /** Location in the source document, e.g. "Page 3", "Slide 2" or "Sheet Pricing". */
+  anchor?: string;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv' | 'text';
+
+const ANCHOR_MARKER = /^--- ((?:Page|Slide|Sheet) [^\n]+?) ---$/gm;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  xlsm: 'xlsx',
+  xls: 'xlsx',
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'text',
+  md: 'text',
+  json: 'text',
+  xml: 'text',
+  html: 'text',
+  htm: 'text',
+};
+
+/** The extractor that handles a file, or `null` when its text cannot be extracted. */
+export function detectDocumentFormat(fileName: string, mimeType = ''): DocumentFormat | null {
+  const type = mimeType.toLowerCase();
+  if (type === 'application/pdf') return 'pdf';
+  if (type.includes('wordprocessingml')) return 'docx';
+  if (type.includes('presentationml')) return 'pptx';
+  if (type.includes('spreadsheetml') || type === 'application/vnd.ms-excel') return 'xlsx';
+  if (type === 'text/csv' || type === 'text/tab-separated-values') return 'csv';
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  if (type.startsWith('text/') || type === 'application/json') return 'text';
+  return null;
+}
+
+export function formatSectionsAsText(sections: ExtractedSection[]): string {
+  return sections
+    .map(({ text, anchor }) => (anchor ? `--- ${anchor} ---\n${text.trim()}` : text.trim()))
+    .join('\n\n');
+}
+
+/** Inverse of `formatSectionsAsText`; text without markers is a single section. */
+export function parseSectionedText(text: string): ExtractedSection[] {
+  const markers = [...text.matchAll(ANCHOR_MARKER)];
+  if (markers.length === 0) return text.trim() ? [{ text: text.trim() }] : [];
+
+  const sections: ExtractedSection[] = [];
+  const preamble = text.slice(0, markers[0].index).trim();
+  if (preamble) sections.push({ text: preamble });
+  markers.forEach((marker, index) => {
+    const start = marker.index + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index : text.length;
+    const body = text.slice(start, end).trim();
+    if (body) sections.push({ text: body, anchor: marker[1] });
+  });
+  return sections;
+}
@@ -64,6 +64,25 @@ export function exportPlainTextFile(filenameWithExtension: string, textContent:
   }
 }
 
+/**
+ * Downloads a generated file, such as a .pptx or .docx Blob, under the given filename.
+ * @param blob The file content.
+ * @param filenameWithExtension The full desired filename, e.g., "deck.pptx".
+ */
+export function downloadBlobFile(blob: Blob, filenameWithExtension: string) {
+  const link = document.createElement('a');
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filenameWithExtension);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
 // Helper to convert data URI to blob
 function dataURItoBlob(dataURI: string): Blob | null {
   if (!dataURI || !dataURI.includes(',')) return null;
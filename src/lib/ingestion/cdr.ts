@@ -0,0 +1,132 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Reads dialer CDR exports (call detail records, one CSV row per call) and
+ * matches recordings to them. Dialers name their columns differently, so each
+ * field is looked up under a list of common header names. A recording matches
+ * a row when the row's recording column names the file, or when the file name
+ * contains the row's call id, which is how most dialers name recordings.
+ */
+import path from 'path';
+import { parseCsv } from '@/lib/csv';
+import type { CallRecordingMetadata } from '@/types';
+
+export interface CdrRecord extends CallRecordingMetadata {
+  recording?: string;
+}
+
+export interface CdrIndex {
+  byRecording: Map<string, CdrRecord>;
+  byCallId: Map<string, CdrRecord>;
+}
+
+type CdrField = keyof CdrRecord;
+
+const HEADER_ALIASES: Record<CdrField, string[]> = {
+  recording: ['recording', 'recording_file', 'recording_filename', 'recordingfile', 'recording_url', 'recording_path', 'file_name', 'filename', 'file', 'location'],
+  callId: ['call_id', 'callid', 'uniqueid', 'unique_id', 'call_uuid', 'uuid', 'session_id'],
+  agentName: ['agent_name', 'agentname', 'agent', 'full_name', 'user_name', 'username', 'user', 'rep', 'agent_id'],
+  campaign: ['campaign', 'campaign_name', 'campaign_id', 'queue', 'list_name'],
+  disposition: ['disposition', 'dispo', 'call_disposition', 'status', 'call_status', 'outcome', 'result'],
+  durationSeconds: ['duration_seconds', 'duration', 'length_in_sec', 'talk_time', 'talk_sec', 'billsec', 'call_duration'],
+  calledAt: ['call_date', 'calldate', 'start_time', 'started_at', 'call_start', 'timestamp', 'date'],
+};
+
+/** Call ids shorter than this are too likely to appear in unrelated file names. */
+const MIN_CALL_ID_LENGTH = 5;
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/** Base name without extension or directories, lower-cased, for comparing file names. */
+export const recordingKey = (fileName: string): string => {
+  const base = path.posix.basename(fileName.replace(/\\/g, '/').split('?')[0]);
+  return base.replace(/\.[a-z0-9]{2,4}$/i, '').toLowerCase();
+};
+
+/** Seconds from `95`, `95.4`, `1:35` or `00:01:35`. */
+function parseDuration(value: string): number | undefined {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text));
+  const parts = text.split(':');
+  if (parts.length >= 2 && parts.length <= 3 && parts.every((part) => /^\d+$/.test(part))) {
+    return parts.reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return undefined;
+}
+
+function parseCallDate(value: string): string | undefined {
+  const timestamp = Date.parse(value.trim());
+  return Number.isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+}
+
+/** Column index of each field, taking the first alias present. */
+function mapColumns(headers: string[]): Partial<Record<CdrField, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<CdrField, number>> = {};
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [CdrField, string[]][]) {
+    const alias = aliases.find((candidate) => normalized.includes(candidate));
+    if (alias) columns[field] = normalized.indexOf(alias);
+  }
+  return columns;
+}
+
+/** Rows of one CDR export. Files without a recording or call id column yield nothing. */
+export function parseCdr(data: Buffer): CdrRecord[] {
+  const rows = parseCsv(data.toString('utf8').replace(/^\uFEFF/, ''));
+  if (rows.length < 2) return [];
+  const columns = mapColumns(rows[0]);
+  if (columns.recording === undefined && columns.callId === undefined) return [];
+
+  const cell = (row: string[], field: CdrField): string | undefined => {
+    const index = columns[field];
+    const value = index === undefined ? undefined : row[index]?.trim();
+    return value || undefined;
+  };
+  return rows.slice(1).flatMap((row): CdrRecord[] => {
+    const recording = cell(row, 'recording');
+    const callId = cell(row, 'callId');
+    if (!recording && !callId) return [];
+    const duration = cell(row, 'durationSeconds');
+    const calledAt = cell(row, 'calledAt');
+    return [
+      {
+        recording,
+        callId,
+        agentName: cell(row, 'agentName'),
+        campaign: cell(row, 'campaign'),
+        disposition: cell(row, 'disposition'),
+        durationSeconds: duration ? parseDuration(duration) : undefined,
+        calledAt: calledAt ? parseCallDate(calledAt) : undefined,
+      },
+    ];
+  });
+}
+
+export function buildCdrIndex(records: CdrRecord[]): CdrIndex {
+  const index: CdrIndex = { byRecording: new Map(), byCallId: new Map() };
+  for (const record of records) {
+    if (record.recording) index.byRecording.set(recordingKey(record.recording), record);
+    if (record.callId && record.callId.length >= MIN_CALL_ID_LENGTH) index.byCallId.set(record.callId.toLowerCase(), record);
+  }
+  return index;
+}
+
+/** The CDR fields for a recording, or undefined when no row refers to it. */
+export function matchRecording(index: CdrIndex, fileName: string): CallRecordingMetadata | undefined {
+  const key = recordingKey(fileName);
+  let record = index.byRecording.get(key) ?? index.byCallId.get(key);
+  if (!record) {
+    // Prefer the longest id found in the name so `12345` does not shadow `123456`.
+    let longest = '';
+    for (const [callId, candidate] of index.byCallId) {
+      if (callId.length > longest.length && key.includes(callId)) {
+        longest = callId;
+        record = candidate;
+      }
+    }
+  }
+  if (!record) return undefined;
+  return Object.fromEntries(
+    Object.entries(record).filter(([field, value]) => field !== 'recording' && value !== undefined)
+  ) as CallRecordingMetadata;
+}
@@ -0,0 +1,153 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Read-only access to the places a dialer drops its recordings: an
+ * S3-compatible bucket (AWS, MinIO, ...), an SFTP server or a local folder.
+ * Each connector lists every file under its root, recursively, and reads one
+ * file at a time into memory.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { GetObjectCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
+import SftpClient from 'ssh2-sftp-client';
+import type { IngestionConnection } from './types';
+
+export interface RemoteFile {
+  /** Full path or object key, unique within the source. */
+  path: string;
+  name: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface IngestionConnector {
+  list(): Promise<RemoteFile[]>;
+  read(file: RemoteFile): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+/** Guards against runaway listings, e.g. a root that points at the whole bucket. */
+const MAX_LISTED_FILES = 20_000;
+
+function s3Connector(connection: Extract<IngestionConnection, { kind: 'S3' }>): IngestionConnector {
+  const client = new S3Client({
+    region: connection.region,
+    endpoint: connection.endpoint,
+    forcePathStyle: connection.forcePathStyle ?? !!connection.endpoint,
+    credentials: { accessKeyId: connection.accessKeyId, secretAccessKey: connection.secretAccessKey ?? '' },
+  });
+  return {
+    async list() {
+      const files: RemoteFile[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({ Bucket: connection.bucket, Prefix: connection.prefix || undefined, ContinuationToken: continuationToken })
+        );
+        for (const object of page.Contents ?? []) {
+          if (!object.Key || object.Key.endsWith('/')) continue;
+          files.push({
+            path: object.Key,
+            name: path.posix.basename(object.Key),
+            size: object.Size ?? 0,
+            modifiedAt: (object.LastModified ?? new Date(0)).toISOString(),
+          });
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken && files.length < MAX_LISTED_FILES);
+      return files;
+    },
+    async read(file) {
+      const object = await client.send(new GetObjectCommand({ Bucket: connection.bucket, Key: file.path }));
+      if (!object.Body) {
+        throw new Error(`Object '${file.path}' has no body.`);
+      }
+      return Buffer.from(await object.Body.transformToByteArray());
+    },
+    close: () => {
+      client.destroy();
+      return Promise.resolve();
+    },
+  };
+}
+
+function sftpConnector(connection: Extract<IngestionConnection, { kind: 'SFTP' }>): IngestionConnector {
+  const client = new SftpClient();
+  let connected: Promise<unknown> | null = null;
+  const ensureConnected = () => {
+    connected ??= client.connect({
+      host: connection.host,
+      port: connection.port ?? 22,
+      username: connection.username,
+      password: connection.password,
+      privateKey: connection.privateKey,
+      readyTimeout: 20_000,
+    });
+    return connected;
+  };
+
+  async function walk(directory: string, files: RemoteFile[]) {
+    for (const entry of await client.list(directory)) {
+      if (files.length >= MAX_LISTED_FILES) return;
+      const entryPath = path.posix.join(directory, entry.name);
+      if (entry.type === 'd') {
+        await walk(entryPath, files);
+      } else if (entry.type === '-') {
+        files.push({ path: entryPath, name: entry.name, size: entry.size, modifiedAt: new Date(entry.modifyTime).toISOString() });
+      }
+    }
+  }
+
+  return {
+    async list() {
+      await ensureConnected();
+      const files: RemoteFile[] = [];
+      await walk(connection.directory, files);
+      return files;
+    },
+    async read(file) {
+      await ensureConnected();
+      return (await client.get(file.path)) as Buffer;
+    },
+    async close() {
+      if (connected) await client.end();
+    },
+  };
+}
+
+function localConnector(connection: Extract<IngestionConnection, { kind: 'LOCAL' }>): IngestionConnector {
+  const root = path.resolve(connection.directory);
+
+  async function walk(directory: string, files: RemoteFile[]) {
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      if (files.length >= MAX_LISTED_FILES) return;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath, files);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(entryPath);
+        files.push({ path: entryPath, name: entry.name, size: stats.size, modifiedAt: stats.mtime.toISOString() });
+      }
+    }
+  }
+
+  return {
+    async list() {
+      const files: RemoteFile[] = [];
+      await walk(root, files);
+      return files;
+    },
+    read: (file) => fs.readFile(file.path),
+    close: () => Promise.resolve(),
+  };
+}
+
+export function openConnector(connection: IngestionConnection): IngestionConnector {
+  switch (connection.kind) {
+    case 'S3':
+      return s3Connector(connection);
+    case 'SFTP':
+      return sftpConnector(connection);
+    case 'LOCAL':
+      return localConnector(connection);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Polls ingestion sources on their schedule. A run lists the source, reads its
+ * CDR exports, downloads recordings it has not taken in before and queues them
+ * as one batch scoring job, with each item carrying the CDR fields matched to
+ * its recording. Transcription and scoring then happen in the job workers.
+ *
+ * Like the job workers, the scheduler state lives on `globalThis` because
+ * Next.js loads `instrumentation.ts` and route handlers as separate module
+ * instances.
+ */
+import { createHash } from 'crypto';
+import { attachScoringItemAudio, createScoringJob } from '@/lib/jobs/store';
+import { pumpScoringQueue } from '@/lib/jobs/worker';
+import type { CallRecordingMetadata } from '@/types';
+import { buildCdrIndex, matchRecording, parseCdr, type CdrRecord } from './cdr';
+import { openConnector, type IngestionConnector, type RemoteFile } from './connectors';
+import {
+  failInterruptedIngestionRuns,
+  finishIngestionRun,
+  isFileUnchanged,
+  isRecordingIngested,
+  listDueIngestionSources,
+  markFileSeen,
+  recordIngestedRecording,
+  startIngestionRun,
+  type IngestionRunResult,
+} from './store';
+import type { IngestionRun, IngestionSource } from './types';
+
+const TICK_MS = 60_000;
+/**
+ * Recordings are held in memory until the run queues them, so a run stops
+ * collecting at either limit; the rest are picked up by the next run.
+ */
+const MAX_RECORDINGS_PER_RUN = 50;
+const MAX_BYTES_PER_RUN = 500 * 1024 * 1024;
+/** Only the most recent CDR exports are read on each run. */
+const MAX_CDR_FILES = 20;
+/** Same limit as a manual upload. */
+const MAX_RECORDING_BYTES = 100 * 1024 * 1024;
+/** Files modified more recently than this may still be uploading. */
+const SETTLE_MS = 2 * 60_000;
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+};
+
+interface SchedulerState {
+  started: boolean;
+  timer: ReturnType<typeof setInterval> | null;
+  /** Ids of sources with a run in progress. */
+  running: Set<string>;
+}
+
+interface PendingRecording {
+  file: RemoteFile;
+  audio: Buffer;
+  contentHash: string;
+  metadata?: CallRecordingMetadata;
+}
+
+const globalScope = globalThis as typeof globalThis & { __ingestionScheduler?: SchedulerState };
+
+function getState(): SchedulerState {
+  globalScope.__ingestionScheduler ??= { started: false, timer: null, running: new Set() };
+  return globalScope.__ingestionScheduler;
+}
+
+const extensionOf = (name: string): string => name.toLowerCase().split('.').pop() ?? '';
+
+const isCdrFile = (file: RemoteFile): boolean => ['csv', 'tsv'].includes(extensionOf(file.name));
+
+async function readCdrIndex(connector: IngestionConnector, files: RemoteFile[]) {
+  const recent = files
+    .filter(isCdrFile)
+    .sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt))
+    .slice(0, MAX_CDR_FILES);
+  const records: CdrRecord[] = [];
+  // Oldest first, so a call exported twice takes the newer row.
+  for (const file of recent.reverse()) {
+    try {
+      records.push(...parseCdr(await connector.read(file)));
+    } catch (error) {
+      console.warn(`Could not read CDR export '${file.path}':`, (error as Error).message);
+    }
+  }
+  return buildCdrIndex(records);
+}
+
+async function collectRecordings(source: IngestionSource, connector: IngestionConnector, files: RemoteFile[]) {
+  const recordings = files.filter((file) => extensionOf(file.name) in AUDIO_MIME_TYPES);
+  const settledBefore = new Date(Date.now() - SETTLE_MS).toISOString();
+  const cdrIndex = await readCdrIndex(connector, files);
+  const pending: PendingRecording[] = [];
+  let skipped = 0;
+  let pendingBytes = 0;
+
+  for (const file of recordings.sort((a, b) => a.modifiedAt.localeCompare(b.modifiedAt))) {
+    if (isFileUnchanged(source.id, file) || file.modifiedAt > settledBefore || file.size > MAX_RECORDING_BYTES) {
+      skipped++;
+      continue;
+    }
+    if (pending.length >= MAX_RECORDINGS_PER_RUN || (pending.length > 0 && pendingBytes + file.size > MAX_BYTES_PER_RUN)) break;
+    const audio = await connector.read(file);
+    const contentHash = createHash('sha256').update(audio).digest('hex');
+    if (isRecordingIngested(source.workspaceId, contentHash) || pending.some((entry) => entry.contentHash === contentHash)) {
+      markFileSeen(source.id, file, contentHash);
+      skipped++;
+      continue;
+    }
+    pending.push({ file, audio, contentHash, metadata: matchRecording(cdrIndex, file.name) });
+    pendingBytes += audio.length;
+  }
+  return { found: recordings.length, skipped, pending };
+}
+
+function enqueueRecordings(source: IngestionSource, pending: PendingRecording[]): string {
+  const job = createScoringJob(
+    {
+      product: source.product,
+      productContext: source.productContext,
+      brandUrl: source.brandUrl,
+      fileNames: pending.map(({ file }) => file.name),
+      callMetadata: pending.map(({ metadata }) => metadata),
+      source: 'Ingestion',
+    },
+    { userId: source.createdBy, displayName: source.createdByName, workspaceId: source.workspaceId }
+  );
+  job.items.forEach((item, index) => {
+    const { file, audio, contentHash } = pending[index];
+    attachScoringItemAudio(job.id, item.id, audio, AUDIO_MIME_TYPES[extensionOf(file.name)]);
+    recordIngestedRecording(source, file, contentHash, job.id);
+    markFileSeen(source.id, file, contentHash);
+  });
+  pumpScoringQueue();
+  return job.id;
+}
+
+/**
+ * Runs one poll of `source`. Throws when a run of the same source is already
+ * in progress; any other failure is recorded on the returned run.
+ */
+export async function runIngestion(source: IngestionSource, trigger: IngestionRun['trigger']): Promise<IngestionRun> {
+  const state = getState();
+  if (state.running.has(source.id)) {
+    throw new Error(`'${source.name}' is already being polled.`);
+  }
+  const run = startIngestionRun(source, trigger);
+  state.running.add(source.id);
+  const result: IngestionRunResult = { filesFound: 0, filesQueued: 0, filesSkipped: 0, cdrMatched: 0 };
+  let connector: IngestionConnector | null = null;
+  try {
+    connector = openConnector(source.connection);
+    const { found, skipped, pending } = await collectRecordings(source, connector, await connector.list());
+    result.filesFound = found;
+    result.filesSkipped = skipped;
+    if (pending.length > 0) {
+      result.jobId = enqueueRecordings(source, pending);
+      result.filesQueued = pending.length;
+      result.cdrMatched = pending.filter(({ metadata }) => metadata).length;
+    }
+  } catch (error) {
+    result.error = (error as Error).message || 'Ingestion failed.';
+    console.error(`Ingestion from '${source.name}' failed:`, result.error);
+  } finally {
+    await connector?.close().catch(() => undefined);
+    state.running.delete(source.id);
+  }
+  return finishIngestionRun(run.id, result);
+}
+
+export const isIngestionRunning = (sourceId: string): boolean => getState().running.has(sourceId);
+
+function tick() {
+  let due: IngestionSource[];
+  try {
+    due = listDueIngestionSources();
+  } catch (error) {
+    console.error('Could not load ingestion sources:', (error as Error).message);
+    return;
+  }
+  for (const source of due) {
+    if (isIngestionRunning(source.id)) continue;
+    runIngestion(source, 'Schedule')
+      .then((run) => {
+        if (run.filesQueued > 0) {
+          console.log(`📥 Queued ${run.filesQueued} recording(s) from '${source.name}' for scoring.`);
+        }
+      })
+      .catch((error) => console.error(`Could not poll '${source.name}':`, (error as Error).message));
+  }
+}
+
+/** Starts polling once per process. Safe to call more than once. */
+export function startIngestionScheduler() {
+  const state = getState();
+  if (state.started) return;
+  state.started = true;
+  const interrupted = failInterruptedIngestionRuns();
+  if (interrupted > 0) {
+    console.log(`⚠️ Marked ${interrupted} ingestion run(s) interrupted by a restart as failed.`);
+  }
+  state.timer = setInterval(tick, TICK_MS);
+  state.timer.unref?.();
+  tick();
+}
@@ -0,0 +1,357 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Ingestion sources, their run history and the recordings already taken in,
+ * persisted in SQLite. `INGESTION_STORE_PATH` overrides the file location
+ * (defaults to `.data/ingestion.db`).
+ *
+ * A recording is tracked twice: by its path, size and modification time, so an
+ * unchanged file is skipped without downloading it again, and by the SHA-256 of
+ * its content, so the same call copied to another folder or source is never
+ * scored twice in a workspace.
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { RequestIdentity } from '@/lib/auth/server';
+import type { RemoteFile } from './connectors';
+import {
+  INGESTION_SECRET_FIELDS,
+  type IngestionConnection,
+  type IngestionRun,
+  type IngestionRunStatus,
+  type IngestionSource,
+  type IngestionSourceInput,
+} from './types';
+
+type SourceRow = {
+  id: string;
+  name: string;
+  workspace_id: string;
+  created_by: string;
+  created_by_name: string;
+  product: string;
+  product_context: string | null;
+  brand_url: string | null;
+  connection: string;
+  interval_minutes: number;
+  enabled: number;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type RunRow = {
+  id: string;
+  source_id: string;
+  status: IngestionRunStatus;
+  trigger: IngestionRun['trigger'];
+  started_at: string;
+  finished_at: string | null;
+  files_found: number;
+  files_queued: number;
+  files_skipped: number;
+  cdr_matched: number;
+  job_id: string | null;
+  error: string | null;
+};
+
+export type IngestionRunResult = Pick<IngestionRun, 'filesFound' | 'filesQueued' | 'filesSkipped' | 'cdrMatched' | 'jobId' | 'error'>;
+
+const DEFAULT_INGESTION_DB_PATH = path.join(process.cwd(), '.data', 'ingestion.db');
+
+const rowToSource = (row: SourceRow): IngestionSource => ({
+  id: row.id,
+  name: row.name,
+  workspaceId: row.workspace_id,
+  createdBy: row.created_by,
+  createdByName: row.created_by_name,
+  product: row.product,
+  productContext: row.product_context ?? undefined,
+  brandUrl: row.brand_url ?? undefined,
+  connection: JSON.parse(row.connection) as IngestionConnection,
+  intervalMinutes: row.interval_minutes,
+  enabled: row.enabled === 1,
+  lastRunAt: row.last_run_at ?? undefined,
+  nextRunAt: row.next_run_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const rowToRun = (row: RunRow): IngestionRun => ({
+  id: row.id,
+  sourceId: row.source_id,
+  status: row.status,
+  trigger: row.trigger,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at ?? undefined,
+  filesFound: row.files_found,
+  filesQueued: row.files_queued,
+  filesSkipped: row.files_skipped,
+  cdrMatched: row.cdr_matched,
+  jobId: row.job_id ?? undefined,
+  error: row.error ?? undefined,
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.INGESTION_STORE_PATH || DEFAULT_INGESTION_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS ingestion_sources (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_by_name TEXT NOT NULL,
+        product TEXT NOT NULL,
+        product_context TEXT,
+        brand_url TEXT,
+        connection TEXT NOT NULL,
+        interval_minutes INTEGER NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_run_at TEXT,
+        next_run_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS ingestion_runs (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL REFERENCES ingestion_sources(id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        files_found INTEGER NOT NULL DEFAULT 0,
+        files_queued INTEGER NOT NULL DEFAULT 0,
+        files_skipped INTEGER NOT NULL DEFAULT 0,
+        cdr_matched INTEGER NOT NULL DEFAULT 0,
+        job_id TEXT,
+        error TEXT
+      );
+      CREATE TABLE IF NOT EXISTS ingested_recordings (
+        workspace_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        source_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        job_id TEXT,
+        ingested_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, content_hash)
+      );
+      CREATE TABLE IF NOT EXISTS seen_files (
+        source_id TEXT NOT NULL REFERENCES ingestion_sources(id) ON DELETE CASCADE,
+        path TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        modified_at TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        PRIMARY KEY (source_id, path)
+      );
+      CREATE INDEX IF NOT EXISTS idx_ingestion_runs_source ON ingestion_runs (source_id, started_at DESC);
+    `);
+    database.pragma('foreign_keys = ON');
+  }
+  return database;
+}
+
+/** The source without passwords or keys, for API responses. */
+export function redactIngestionSource<T extends IngestionSource>(source: T): T {
+  const connection = { ...source.connection } as Record<string, unknown>;
+  INGESTION_SECRET_FIELDS.forEach((field) => delete connection[field]);
+  return { ...source, connection: connection as IngestionConnection };
+}
+
+/** Secrets left out of an update keep their stored value, as long as the connection kind is unchanged. */
+function mergeSecrets(next: IngestionConnection, previous: IngestionConnection): IngestionConnection {
+  if (next.kind !== previous.kind) return next;
+  const merged = { ...next } as Record<string, unknown>;
+  for (const field of INGESTION_SECRET_FIELDS) {
+    if (merged[field] === undefined && field in previous) {
+      merged[field] = (previous as Record<string, unknown>)[field];
+    }
+  }
+  return merged as IngestionConnection;
+}
+
+const nextRunAfter = (from: Date, intervalMinutes: number): string =>
+  new Date(from.getTime() + intervalMinutes * 60_000).toISOString();
+
+export function listIngestionSources(workspaceId: string): IngestionSource[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM ingestion_sources WHERE workspace_id = ? ORDER BY name COLLATE NOCASE')
+    .all(workspaceId) as SourceRow[];
+  return rows.map(rowToSource);
+}
+
+/** The source, or null when it does not exist in `workspaceId`. */
+export function getIngestionSource(id: string, workspaceId: string): IngestionSource | null {
+  const row = getDb()
+    .prepare('SELECT * FROM ingestion_sources WHERE id = ? AND workspace_id = ?')
+    .get(id, workspaceId) as SourceRow | undefined;
+  return row ? rowToSource(row) : null;
+}
+
+/** The first run is due straight away. */
+export function createIngestionSource(input: IngestionSourceInput, identity: RequestIdentity): IngestionSource {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  getDb()
+    .prepare(`
+      INSERT INTO ingestion_sources (id, name, workspace_id, created_by, created_by_name, product, product_context, brand_url, connection, interval_minutes, enabled, next_run_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      id,
+      input.name,
+      identity.workspaceId,
+      identity.userId,
+      identity.displayName,
+      input.product,
+      input.productContext ?? null,
+      input.brandUrl ?? null,
+      JSON.stringify(input.connection),
+      input.intervalMinutes,
+      input.enabled ? 1 : 0,
+      now,
+      now,
+      now
+    );
+  return getIngestionSource(id, identity.workspaceId)!;
+}
+
+export function updateIngestionSource(id: string, workspaceId: string, input: IngestionSourceInput): IngestionSource | null {
+  const existing = getIngestionSource(id, workspaceId);
+  if (!existing) return null;
+  const now = new Date();
+  const nextRunAt = existing.lastRunAt ? nextRunAfter(new Date(existing.lastRunAt), input.intervalMinutes) : now.toISOString();
+  getDb()
+    .prepare(`
+      UPDATE ingestion_sources
+      SET name = ?, product = ?, product_context = ?, brand_url = ?, connection = ?, interval_minutes = ?, enabled = ?, next_run_at = ?, updated_at = ?
+      WHERE id = ?
+    `)
+    .run(
+      input.name,
+      input.product,
+      input.productContext ?? null,
+      input.brandUrl ?? null,
+      JSON.stringify(mergeSecrets(input.connection, existing.connection)),
+      input.intervalMinutes,
+      input.enabled ? 1 : 0,
+      nextRunAt,
+      now.toISOString(),
+      id
+    );
+  return getIngestionSource(id, workspaceId);
+}
+
+/**
+ * Removes the source in `workspaceId` and its run history. Recordings it took in
+ * stay recorded, so they are not scored again.
+ */
+export function deleteIngestionSource(id: string, workspaceId: string): boolean {
+  return getDb().prepare('DELETE FROM ingestion_sources WHERE id = ? AND workspace_id = ?').run(id, workspaceId).changes > 0;
+}
+
+/** Enabled sources whose next run is due, across all workspaces. */
+export function listDueIngestionSources(now = new Date()): IngestionSource[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM ingestion_sources WHERE enabled = 1 AND (next_run_at IS NULL OR next_run_at <= ?)')
+    .all(now.toISOString()) as SourceRow[];
+  return rows.map(rowToSource);
+}
+
+export function startIngestionRun(source: IngestionSource, trigger: IngestionRun['trigger']): IngestionRun {
+  const db = getDb();
+  const id = randomUUID();
+  const now = new Date();
+  db.transaction(() => {
+    db.prepare(`INSERT INTO ingestion_runs (id, source_id, status, trigger, started_at) VALUES (?, ?, 'Running', ?, ?)`).run(
+      id,
+      source.id,
+      trigger,
+      now.toISOString()
+    );
+    db.prepare('UPDATE ingestion_sources SET last_run_at = ?, next_run_at = ? WHERE id = ?').run(
+      now.toISOString(),
+      nextRunAfter(now, source.intervalMinutes),
+      source.id
+    );
+  })();
+  return rowToRun(db.prepare('SELECT * FROM ingestion_runs WHERE id = ?').get(id) as RunRow);
+}
+
+export function finishIngestionRun(runId: string, result: IngestionRunResult): IngestionRun {
+  const db = getDb();
+  db.prepare(`
+    UPDATE ingestion_runs
+    SET status = ?, finished_at = ?, files_found = ?, files_queued = ?, files_skipped = ?, cdr_matched = ?, job_id = ?, error = ?
+    WHERE id = ?
+  `).run(
+    result.error ? 'Failed' : 'Complete',
+    new Date().toISOString(),
+    result.filesFound,
+    result.filesQueued,
+    result.filesSkipped,
+    result.cdrMatched,
+    result.jobId ?? null,
+    result.error ?? null,
+    runId
+  );
+  return rowToRun(db.prepare('SELECT * FROM ingestion_runs WHERE id = ?').get(runId) as RunRow);
+}
+
+export function listIngestionRuns(sourceId: string, limit = 20): IngestionRun[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM ingestion_runs WHERE source_id = ? ORDER BY started_at DESC LIMIT ?')
+    .all(sourceId, Math.min(Math.max(limit, 1), 100)) as RunRow[];
+  return rows.map(rowToRun);
+}
+
+/**
+ * Called once at start-up: runs cut short by a restart are marked failed so
+ * the history does not show them as running forever.
+ */
+export function failInterruptedIngestionRuns(): number {
+  return getDb()
+    .prepare(`UPDATE ingestion_runs SET status = 'Failed', finished_at = ?, error = 'Interrupted by a server restart' WHERE status = 'Running'`)
+    .run(new Date().toISOString()).changes;
+}
+
+/** True when this file was seen at the source before with the same size and modification time. */
+export function isFileUnchanged(sourceId: string, file: RemoteFile): boolean {
+  const row = getDb()
+    .prepare('SELECT size, modified_at FROM seen_files WHERE source_id = ? AND path = ?')
+    .get(sourceId, file.path) as { size: number; modified_at: string } | undefined;
+  return !!row && row.size === file.size && row.modified_at === file.modifiedAt;
+}
+
+export function markFileSeen(sourceId: string, file: RemoteFile, contentHash: string) {
+  getDb()
+    .prepare(`
+      INSERT INTO seen_files (source_id, path, size, modified_at, content_hash) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (source_id, path) DO UPDATE SET size = excluded.size, modified_at = excluded.modified_at, content_hash = excluded.content_hash
+    `)
+    .run(sourceId, file.path, file.size, file.modifiedAt, contentHash);
+}
+
+export function isRecordingIngested(workspaceId: string, contentHash: string): boolean {
+  return !!getDb()
+    .prepare('SELECT 1 FROM ingested_recordings WHERE workspace_id = ? AND content_hash = ?')
+    .get(workspaceId, contentHash);
+}
+
+export function recordIngestedRecording(source: IngestionSource, file: RemoteFile, contentHash: string, jobId: string) {
+  getDb()
+    .prepare(`
+      INSERT OR IGNORE INTO ingested_recordings (workspace_id, content_hash, source_id, path, job_id, ingested_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    .run(source.workspaceId, contentHash, source.id, file.path, jobId, new Date().toISOString());
+}
@@ -0,0 +1,99 @@
+/**
+ * Shapes shared by the recording ingestion scheduler, its API routes and the
+ * admin page. Kept free of Node-only imports so the page can use them.
+ */
+import { z } from 'zod';
+
+export const INGESTION_SOURCE_KINDS = ['S3', 'SFTP', 'LOCAL'] as const;
+export type IngestionSourceKind = (typeof INGESTION_SOURCE_KINDS)[number];
+
+export const MIN_INGESTION_INTERVAL_MINUTES = 5;
+
+const S3ConnectionSchema = z.object({
+  kind: z.literal('S3'),
+  /** Leave empty for AWS; set to e.g. `http://localhost:9000` for MinIO. */
+  endpoint: z.string().url().optional(),
+  region: z.string().trim().min(1).default('us-east-1'),
+  bucket: z.string().trim().min(1),
+  prefix: z.string().trim().optional(),
+  accessKeyId: z.string().trim().min(1),
+  secretAccessKey: z.string().min(1).optional(),
+  /** MinIO and most self-hosted stores need path-style URLs. */
+  forcePathStyle: z.boolean().optional(),
+});
+
+const SftpConnectionSchema = z.object({
+  kind: z.literal('SFTP'),
+  host: z.string().trim().min(1),
+  port: z.number().int().min(1).max(65535).optional(),
+  username: z.string().trim().min(1),
+  password: z.string().min(1).optional(),
+  privateKey: z.string().min(1).optional(),
+  directory: z.string().trim().min(1).default('/'),
+});
+
+const LocalConnectionSchema = z.object({
+  kind: z.literal('LOCAL'),
+  directory: z.string().trim().min(1),
+});
+
+export const IngestionConnectionSchema = z.discriminatedUnion('kind', [
+  S3ConnectionSchema,
+  SftpConnectionSchema,
+  LocalConnectionSchema,
+]);
+export type IngestionConnection = z.infer<typeof IngestionConnectionSchema>;
+
+/** Fields that are never returned by the API; omitting them on update keeps the stored value. */
+export const INGESTION_SECRET_FIELDS = ['secretAccessKey', 'password', 'privateKey'] as const;
+
+export const IngestionSourceInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  product: z.string().trim().min(1),
+  productContext: z.string().optional(),
+  brandUrl: z.string().url().optional(),
+  connection: IngestionConnectionSchema,
+  intervalMinutes: z
+    .number()
+    .int()
+    .min(MIN_INGESTION_INTERVAL_MINUTES, `Poll at most every ${MIN_INGESTION_INTERVAL_MINUTES} minutes.`)
+    .max(7 * 24 * 60),
+  enabled: z.boolean().default(true),
+});
+export type IngestionSourceInput = z.infer<typeof IngestionSourceInputSchema>;
+
+export interface IngestionSource extends IngestionSourceInput {
+  id: string;
+  /** Scoring jobs are created in this workspace, on behalf of `createdBy`. */
+  workspaceId: string;
+  createdBy: string;
+  createdByName: string;
+  lastRunAt?: string;
+  nextRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type IngestionRunStatus = 'Running' | 'Complete' | 'Failed';
+
+export interface IngestionRun {
+  id: string;
+  sourceId: string;
+  status: IngestionRunStatus;
+  trigger: 'Schedule' | 'Manual';
+  startedAt: string;
+  finishedAt?: string;
+  /** Recordings found at the source, including ones seen before. */
+  filesFound: number;
+  filesQueued: number;
+  /** Already ingested (same path or same content), still being written, or too large. */
+  filesSkipped: number;
+  /** Queued recordings that matched a CDR row. */
+  cdrMatched: number;
+  jobId?: string;
+  error?: string;
+}
+
+export interface IngestionSourceWithRuns extends IngestionSource {
+  runs: IngestionRun[];
+}
@@ -0,0 +1,234 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Headless voice simulation batches, persisted next to the call-scoring jobs
+ * (`JOBS_STORE_PATH`, default `.data/jobs.db`) so a batch keeps running after
+ * the request that started it ends and resumes after a server restart. A batch
+ * is stored as its spec plus one row per planned call; `planSimulationCalls`
+ * turns a row's position back into the call to run.
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { ActivityScope } from '@/lib/activity-store';
+import type { RequestIdentity } from '@/lib/auth/server';
+import { planSimulationCalls, summarizeSimulations, type SimulatedCallOptions, type SimulatedCallResult, type SimulationBatchSpec } from '@/lib/voice-simulation';
+import type { SimulationJob, SimulationJobStatus, SimulationJobWithResults } from './types';
+
+type SimulationJobRow = {
+  id: string;
+  status: SimulationJobStatus;
+  product: string;
+  spec: string;
+  total_calls: number;
+  created_by: string;
+  created_by_name: string;
+  workspace_id: string;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+type SimulationRunStatus = 'Queued' | 'Running' | 'Complete';
+
+type SimulationRunRow = {
+  job_id: string;
+  position: number;
+  status: SimulationRunStatus;
+  result: string | null;
+  updated_at: string;
+};
+
+/** Everything a worker needs to run one planned call. */
+export interface ClaimedSimulationRun {
+  jobId: string;
+  position: number;
+  call: SimulatedCallOptions;
+}
+
+const DEFAULT_JOBS_DB_PATH = path.join(process.cwd(), '.data', 'jobs.db');
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.JOBS_STORE_PATH || DEFAULT_JOBS_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS simulation_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        product TEXT NOT NULL,
+        spec TEXT NOT NULL,
+        total_calls INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        created_by_name TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS simulation_runs (
+        job_id TEXT NOT NULL REFERENCES simulation_jobs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        result TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (job_id, position)
+      );
+      CREATE INDEX IF NOT EXISTS idx_simulation_jobs_workspace ON simulation_jobs (workspace_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_simulation_runs_queue ON simulation_runs (status);
+    `);
+  }
+  return database;
+}
+
+function jobFromRow(row: SimulationJobRow): SimulationJob {
+  const { completed } = getDb()
+    .prepare(`SELECT COUNT(*) AS completed FROM simulation_runs WHERE job_id = ? AND status = 'Complete'`)
+    .get(row.id) as { completed: number };
+  return {
+    id: row.id,
+    status: row.status,
+    product: row.product,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    workspaceId: row.workspace_id,
+    totalCalls: row.total_calls,
+    completedCalls: completed,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+const jobInScope = (row: Pick<SimulationJobRow, 'workspace_id' | 'created_by'>, scope?: ActivityScope) =>
+  !scope ||
+  ((!scope.workspaceId || row.workspace_id === scope.workspaceId) && (!scope.agentId || row.created_by === scope.agentId));
+
+/** Queues one run per call of `planSimulationCalls(spec)`; callers enforce the batch size limit. */
+export function createSimulationJob(
+  spec: SimulationBatchSpec,
+  owner: Pick<RequestIdentity, 'userId' | 'displayName' | 'workspaceId'>
+): SimulationJobWithResults {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const jobId = randomUUID();
+  const totalCalls = planSimulationCalls(spec).length;
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO simulation_jobs (id, status, product, spec, total_calls, created_by, created_by_name, workspace_id, created_at, updated_at)
+      VALUES (?, 'Queued', ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(jobId, spec.agent.product, JSON.stringify(spec), totalCalls, owner.userId, owner.displayName, owner.workspaceId, now, now);
+    const insertRun = db.prepare(`INSERT INTO simulation_runs (job_id, position, status, updated_at) VALUES (?, ?, 'Queued', ?)`);
+    for (let position = 0; position < totalCalls; position++) {
+      insertRun.run(jobId, position, now);
+    }
+  })();
+  return getSimulationJob(jobId)!;
+}
+
+/** The job with its finished calls, or null when it does not exist or lies outside `scope`. */
+export function getSimulationJob(jobId: string, scope?: ActivityScope): SimulationJobWithResults | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM simulation_jobs WHERE id = ?').get(jobId) as SimulationJobRow | undefined;
+  if (!row || !jobInScope(row, scope)) return null;
+  const runs = db
+    .prepare(`SELECT * FROM simulation_runs WHERE job_id = ? AND status = 'Complete' ORDER BY position`)
+    .all(jobId) as SimulationRunRow[];
+  const results = runs.map((run) => JSON.parse(run.result!) as SimulatedCallResult);
+  return { ...jobFromRow(row), results, summary: summarizeSimulations(results) };
+}
+
+export function listSimulationJobs(scope: ActivityScope, limit = 20): SimulationJob[] {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (scope.workspaceId) {
+    clauses.push('workspace_id = ?');
+    params.push(scope.workspaceId);
+  }
+  if (scope.agentId) {
+    clauses.push('created_by = ?');
+    params.push(scope.agentId);
+  }
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  const rows = getDb()
+    .prepare(`SELECT * FROM simulation_jobs ${where} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params, Math.min(Math.max(limit, 1), 100)) as SimulationJobRow[];
+  return rows.map(jobFromRow);
+}
+
+/** Atomically takes the oldest queued call and marks it `Running`, so two workers never run the same call. */
+export function claimNextSimulationRun(): ClaimedSimulationRun | null {
+  const db = getDb();
+  return db.transaction((): ClaimedSimulationRun | null => {
+    const row = db.prepare(`
+      SELECT r.job_id, r.position, j.spec FROM simulation_runs r JOIN simulation_jobs j ON j.id = r.job_id
+      WHERE r.status = 'Queued' AND j.status IN ('Queued', 'Running')
+      ORDER BY j.created_at, r.position
+      LIMIT 1
+    `).get() as { job_id: string; position: number; spec: string } | undefined;
+    if (!row) return null;
+    const now = new Date().toISOString();
+    db.prepare(`UPDATE simulation_runs SET status = 'Running', updated_at = ? WHERE job_id = ? AND position = ?`).run(now, row.job_id, row.position);
+    db.prepare(`UPDATE simulation_jobs SET status = 'Running', updated_at = ? WHERE id = ? AND status = 'Queued'`).run(now, row.job_id);
+    const call = planSimulationCalls(JSON.parse(row.spec) as SimulationBatchSpec)[row.position];
+    return { jobId: row.job_id, position: row.position, call };
+  })();
+}
+
+export function completeSimulationRun(jobId: string, position: number, result: SimulatedCallResult): void {
+  getDb()
+    .prepare(`UPDATE simulation_runs SET status = 'Complete', result = ?, updated_at = ? WHERE job_id = ? AND position = ?`)
+    .run(JSON.stringify(result), new Date().toISOString(), jobId, position);
+}
+
+/**
+ * Marks the job `Complete` once every call has finished. Returns the job when
+ * its status changed, otherwise null.
+ */
+export function settleSimulationJob(jobId: string): SimulationJob | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM simulation_jobs WHERE id = ?').get(jobId) as SimulationJobRow | undefined;
+  if (!row || row.status === 'Complete' || row.status === 'Cancelled') return null;
+  const job = jobFromRow(row);
+  if (job.completedCalls < job.totalCalls) return null;
+  const now = new Date().toISOString();
+  db.prepare(`UPDATE simulation_jobs SET status = 'Complete', updated_at = ?, finished_at = ? WHERE id = ?`).run(now, now, jobId);
+  return { ...job, status: 'Complete', updatedAt: now, finishedAt: now };
+}
+
+/**
+ * Stops a job: calls not yet started are dropped, calls already running still
+ * finish and keep their results.
+ */
+export function cancelSimulationJob(jobId: string, scope?: ActivityScope): SimulationJobWithResults | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM simulation_jobs WHERE id = ?').get(jobId) as SimulationJobRow | undefined;
+  if (!row || !jobInScope(row, scope)) return null;
+  if (row.status === 'Complete' || row.status === 'Cancelled') return getSimulationJob(jobId);
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`DELETE FROM simulation_runs WHERE job_id = ? AND status = 'Queued'`).run(jobId);
+    db.prepare(`UPDATE simulation_jobs SET status = 'Cancelled', updated_at = ?, finished_at = ? WHERE id = ?`).run(now, now, jobId);
+  })();
+  return getSimulationJob(jobId);
+}
+
+/**
+ * Called once at start-up: calls that were running when the previous process
+ * stopped go back to the queue so they are run again.
+ */
+export function requeueInterruptedSimulationRuns(): number {
+  const result = getDb()
+    .prepare(`
+      UPDATE simulation_runs SET status = 'Queued', updated_at = ?
+      WHERE status = 'Running' AND job_id IN (SELECT id FROM simulation_jobs WHERE status IN ('Queued', 'Running'))
+    `)
+    .run(new Date().toISOString());
+  return result.changes;
+}
@@ -0,0 +1,100 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * In-process workers for headless voice simulation batches. Each worker claims
+ * a queued call from the simulation store, runs it and records the result;
+ * progress is broadcast to subscribers of the job (the SSE route). Like the
+ * call-scoring pool, the pool and its event bus live on `globalThis` because
+ * Next.js loads each route handler as a separate module instance.
+ */
+import { EventEmitter } from 'events';
+import { getSimulationConcurrency, runPlannedSimulationCall } from '@/lib/voice-simulation';
+import {
+  claimNextSimulationRun,
+  completeSimulationRun,
+  requeueInterruptedSimulationRuns,
+  settleSimulationJob,
+  type ClaimedSimulationRun,
+} from './simulation-store';
+import type { SimulationJob, SimulationJobEvent } from './types';
+
+interface SimulationPoolState {
+  started: boolean;
+  active: number;
+  events: EventEmitter;
+}
+
+const globalScope = globalThis as typeof globalThis & { __simulationJobWorkers?: SimulationPoolState };
+
+function getPool(): SimulationPoolState {
+  if (!globalScope.__simulationJobWorkers) {
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    globalScope.__simulationJobWorkers = { started: false, active: 0, events };
+  }
+  return globalScope.__simulationJobWorkers;
+}
+
+function emit(jobId: string, event: SimulationJobEvent) {
+  getPool().events.emit(jobId, event);
+}
+
+/** Listens to progress of one job; returns the unsubscribe function. */
+export function subscribeToSimulationJob(jobId: string, listener: (event: SimulationJobEvent) => void): () => void {
+  const { events } = getPool();
+  events.on(jobId, listener);
+  return () => {
+    events.off(jobId, listener);
+  };
+}
+
+/** Broadcasts a change made outside the workers, such as a cancellation. */
+export function publishSimulationJobChange(job: SimulationJob) {
+  emit(job.id, { type: 'job', job });
+}
+
+async function runClaimedCall(claim: ClaimedSimulationRun): Promise<void> {
+  const result = await runPlannedSimulationCall(claim.call);
+  try {
+    completeSimulationRun(claim.jobId, claim.position, result);
+    emit(claim.jobId, { type: 'call', jobId: claim.jobId, result });
+  } finally {
+    const settled = settleSimulationJob(claim.jobId);
+    if (settled) publishSimulationJobChange(settled);
+  }
+}
+
+/** Starts as many calls as there are free workers. */
+export function pumpSimulationQueue() {
+  const pool = getPool();
+  if (!pool.started) {
+    startSimulationWorkers();
+    return;
+  }
+  const concurrency = getSimulationConcurrency();
+  while (pool.active < concurrency) {
+    const claim = claimNextSimulationRun();
+    if (!claim) break;
+    pool.active++;
+    void runClaimedCall(claim)
+      .catch((error: Error) => console.error(`Simulation call ${claim.jobId}#${claim.position} could not be recorded:`, error.message))
+      .finally(() => {
+        pool.active--;
+        pumpSimulationQueue();
+      });
+  }
+}
+
+/**
+ * Starts the worker pool once per process, first putting calls interrupted by
+ * a restart back in the queue. Safe to call from every route.
+ */
+export function startSimulationWorkers() {
+  const pool = getPool();
+  if (pool.started) return;
+  pool.started = true;
+  const resumed = requeueInterruptedSimulationRuns();
+  if (resumed > 0) {
+    console.log(`🔁 Resuming ${resumed} simulated call(s) interrupted by a restart.`);
+  }
+  pumpSimulationQueue();
+}
@@ -0,0 +1,464 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Batch call-scoring jobs, persisted in SQLite so queued work survives a server
+ * restart. `JOBS_STORE_PATH` overrides the file location (defaults to
+ * `.data/jobs.db`); uploaded audio is kept next to it in `scoring-jobs/` until
+ * its item finishes.
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { ActivityScope } from '@/lib/activity-store';
+import type { RequestIdentity } from '@/lib/auth/server';
+import type { CallRecordingMetadata, ScoreCallOutput } from '@/types';
+import {
+  TERMINAL_ITEM_STATUSES,
+  type ScoringJob,
+  type ScoringJobItem,
+  type ScoringJobItemStatus,
+  type ScoringJobSource,
+  type ScoringJobStatus,
+  type ScoringJobWithItems,
+} from './types';
+
+type JobRow = {
+  id: string;
+  status: ScoringJobStatus;
+  product: string;
+  agent_name: string | null;
+  product_context: string | null;
+  brand_url: string | null;
+  source: ScoringJobSource;
+  created_by: string;
+  created_by_name: string;
+  workspace_id: string;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+type ItemRow = {
+  id: string;
+  job_id: string;
+  position: number;
+  file_name: string;
+  call_metadata: string | null;
+  status: ScoringJobItemStatus;
+  progress: number;
+  message: string | null;
+  error: string | null;
+  score_output: string | null;
+  audio_path: string | null;
+  mime_type: string | null;
+  attempts: number;
+  available_at: string | null;
+  updated_at: string;
+};
+
+type CountRow = { total: number; completed: number | null; failed: number | null };
+
+export interface CreateScoringJobInput {
+  product: string;
+  agentName?: string;
+  productContext?: string;
+  brandUrl?: string;
+  fileNames: string[];
+  /** CDR fields per file, in the same order as `fileNames`. */
+  callMetadata?: (CallRecordingMetadata | undefined)[];
+  /** Defaults to `Manual`. */
+  source?: ScoringJobSource;
+}
+
+/** Everything a worker needs to process one item. */
+export interface ClaimedScoringItem {
+  item: ScoringJobItem;
+  job: ScoringJob & { productContext?: string; brandUrl?: string };
+  audioPath: string;
+  mimeType: string;
+}
+
+export type ScoringItemUpdate = Partial<Pick<ScoringJobItem, 'status' | 'progress' | 'message' | 'error' | 'scoreOutput'>>;
+
+const DEFAULT_JOBS_DB_PATH = path.join(process.cwd(), '.data', 'jobs.db');
+
+const rowToItem = (row: ItemRow): ScoringJobItem => ({
+  id: row.id,
+  jobId: row.job_id,
+  index: row.position,
+  fileName: row.file_name,
+  callMetadata: row.call_metadata ? (JSON.parse(row.call_metadata) as CallRecordingMetadata) : undefined,
+  status: row.status,
+  progress: row.progress,
+  message: row.message ?? undefined,
+  error: row.error ?? undefined,
+  scoreOutput: row.score_output ? (JSON.parse(row.score_output) as ScoreCallOutput) : undefined,
+  attempts: row.attempts,
+  updatedAt: row.updated_at,
+});
+
+let database: Database.Database | null = null;
+let audioDirectory = '';
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.JOBS_STORE_PATH || DEFAULT_JOBS_DB_PATH;
+    audioDirectory = path.join(filePath === ':memory:' ? path.dirname(DEFAULT_JOBS_DB_PATH) : path.dirname(filePath), 'scoring-jobs');
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS scoring_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        product TEXT NOT NULL,
+        agent_name TEXT,
+        product_context TEXT,
+        brand_url TEXT,
+        created_by TEXT NOT NULL,
+        created_by_name TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS scoring_job_items (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL REFERENCES scoring_jobs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        file_name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        message TEXT,
+        error TEXT,
+        score_output TEXT,
+        audio_path TEXT,
+        mime_type TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        available_at TEXT,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_scoring_jobs_workspace ON scoring_jobs (workspace_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_scoring_job_items_job ON scoring_job_items (job_id, position);
+      CREATE INDEX IF NOT EXISTS idx_scoring_job_items_queue ON scoring_job_items (status, available_at);
+    `);
+    migrate(database);
+  }
+  return database;
+}
+
+/** Adds columns introduced after the first release to existing databases. */
+function migrate(db: Database.Database) {
+  const columnsOf = (table: string) =>
+    new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((column) => column.name));
+  if (!columnsOf('scoring_jobs').has('source')) {
+    db.exec(`ALTER TABLE scoring_jobs ADD COLUMN source TEXT NOT NULL DEFAULT 'Manual'`);
+  }
+  if (!columnsOf('scoring_job_items').has('call_metadata')) {
+    db.exec('ALTER TABLE scoring_job_items ADD COLUMN call_metadata TEXT');
+  }
+}
+
+function jobFromRow(row: JobRow): ScoringJob {
+  const counts = getDb()
+    .prepare(`
+      SELECT COUNT(*) AS total,
+        SUM(status = 'Complete') AS completed,
+        SUM(status = 'Failed') AS failed
+      FROM scoring_job_items WHERE job_id = ?
+    `)
+    .get(row.id) as CountRow;
+  return {
+    id: row.id,
+    status: row.status,
+    product: row.product,
+    agentName: row.agent_name ?? undefined,
+    source: row.source,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    workspaceId: row.workspace_id,
+    totalItems: counts.total,
+    completedItems: counts.completed ?? 0,
+    failedItems: counts.failed ?? 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+const jobInScope = (row: Pick<JobRow, 'workspace_id' | 'created_by'>, scope?: ActivityScope) =>
+  !scope ||
+  ((!scope.workspaceId || row.workspace_id === scope.workspaceId) && (!scope.agentId || row.created_by === scope.agentId));
+
+const removeAudioFile = (audioPath: string | null) => {
+  if (audioPath) fs.rmSync(audioPath, { force: true });
+};
+
+/** `owner` is the uploader, or for ingested recordings the admin who set up the source. */
+export function createScoringJob(
+  input: CreateScoringJobInput,
+  owner: Pick<RequestIdentity, 'userId' | 'displayName' | 'workspaceId'>
+): ScoringJobWithItems {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const jobId = randomUUID();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO scoring_jobs (id, status, product, agent_name, product_context, brand_url, source, created_by, created_by_name, workspace_id, created_at, updated_at)
+      VALUES (?, 'Queued', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      jobId,
+      input.product,
+      input.agentName ?? null,
+      input.productContext ?? null,
+      input.brandUrl ?? null,
+      input.source ?? 'Manual',
+      owner.userId,
+      owner.displayName,
+      owner.workspaceId,
+      now,
+      now
+    );
+    const insertItem = db.prepare(`
+      INSERT INTO scoring_job_items (id, job_id, position, file_name, call_metadata, status, progress, message, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'Pending', 0, 'Waiting for audio upload', ?)
+    `);
+    input.fileNames.forEach((fileName, index) => {
+      const metadata = input.callMetadata?.[index];
+      insertItem.run(randomUUID(), jobId, index, fileName, metadata ? JSON.stringify(metadata) : null, now);
+    });
+  })();
+  return getScoringJob(jobId)!;
+}
+
+/** The job with its items, or null when it does not exist or lies outside `scope`. */
+export function getScoringJob(jobId: string, scope?: ActivityScope): ScoringJobWithItems | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM scoring_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+  if (!row || !jobInScope(row, scope)) return null;
+  const items = db.prepare('SELECT * FROM scoring_job_items WHERE job_id = ? ORDER BY position').all(jobId) as ItemRow[];
+  return { ...jobFromRow(row), items: items.map(rowToItem) };
+}
+
+export function listScoringJobs(scope: ActivityScope, limit = 20): ScoringJob[] {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (scope.workspaceId) {
+    clauses.push('workspace_id = ?');
+    params.push(scope.workspaceId);
+  }
+  if (scope.agentId) {
+    clauses.push('created_by = ?');
+    params.push(scope.agentId);
+  }
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  const rows = getDb()
+    .prepare(`SELECT * FROM scoring_jobs ${where} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params, Math.min(Math.max(limit, 1), 100)) as JobRow[];
+  return rows.map(jobFromRow);
+}
+
+export function getScoringJobItem(itemId: string): ScoringJobItem | null {
+  const row = getDb().prepare('SELECT * FROM scoring_job_items WHERE id = ?').get(itemId) as ItemRow | undefined;
+  return row ? rowToItem(row) : null;
+}
+
+/** Stores the uploaded recording for a `Pending` item and queues it for the workers. */
+export function attachScoringItemAudio(jobId: string, itemId: string, audio: Buffer, mimeType: string): ScoringJobItem {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM scoring_job_items WHERE id = ? AND job_id = ?').get(itemId, jobId) as ItemRow | undefined;
+  if (!row) {
+    throw new Error(`Item '${itemId}' does not exist in job '${jobId}'.`);
+  }
+  const job = db.prepare('SELECT status FROM scoring_jobs WHERE id = ?').get(jobId) as Pick<JobRow, 'status'>;
+  if (job.status === 'Cancelled') {
+    throw new Error('This job has been cancelled.');
+  }
+  if (row.status !== 'Pending') {
+    throw new Error(`Audio for '${row.file_name}' has already been uploaded.`);
+  }
+  const audioPath = path.join(audioDirectory, jobId, itemId);
+  fs.mkdirSync(path.dirname(audioPath), { recursive: true });
+  fs.writeFileSync(audioPath, audio);
+  const now = new Date().toISOString();
+  db.prepare(`
+    UPDATE scoring_job_items
+    SET status = 'Queued', audio_path = ?, mime_type = ?, message = 'Waiting for a worker', available_at = ?, updated_at = ?
+    WHERE id = ?
+  `).run(audioPath, mimeType, now, now, itemId);
+  return getScoringJobItem(itemId)!;
+}
+
+/**
+ * Gives up on a `Pending` item whose audio could not be uploaded, so the rest of
+ * the job can still complete.
+ */
+export function skipScoringItem(jobId: string, itemId: string, reason: string): ScoringJobItem {
+  const result = getDb()
+    .prepare(`
+      UPDATE scoring_job_items SET status = 'Failed', error = ?, message = ?, progress = 100, updated_at = ?
+      WHERE id = ? AND job_id = ? AND status = 'Pending'
+    `)
+    .run(reason, reason, new Date().toISOString(), itemId, jobId);
+  if (result.changes === 0) {
+    throw new Error(`Item '${itemId}' is not waiting for an upload.`);
+  }
+  return getScoringJobItem(itemId)!;
+}
+
+/**
+ * Atomically takes the oldest queued item that is due and marks it
+ * `Transcribing`, so two workers never process the same recording.
+ */
+export function claimNextScoringItem(): ClaimedScoringItem | null {
+  const db = getDb();
+  return db.transaction((): ClaimedScoringItem | null => {
+    const now = new Date().toISOString();
+    const row = db.prepare(`
+      SELECT i.* FROM scoring_job_items i JOIN scoring_jobs j ON j.id = i.job_id
+      WHERE i.status = 'Queued' AND j.status <> 'Cancelled' AND (i.available_at IS NULL OR i.available_at <= ?)
+      ORDER BY j.created_at, i.position
+      LIMIT 1
+    `).get(now) as ItemRow | undefined;
+    if (!row || !row.audio_path) return null;
+    db.prepare(`
+      UPDATE scoring_job_items SET status = 'Transcribing', attempts = attempts + 1, progress = 10, message = 'Starting transcription', updated_at = ?
+      WHERE id = ?
+    `).run(now, row.id);
+    db.prepare(`UPDATE scoring_jobs SET status = 'Running', updated_at = ? WHERE id = ? AND status = 'Queued'`).run(now, row.job_id);
+    const jobRow = db.prepare('SELECT * FROM scoring_jobs WHERE id = ?').get(row.job_id) as JobRow;
+    return {
+      item: getScoringJobItem(row.id)!,
+      job: { ...jobFromRow(jobRow), productContext: jobRow.product_context ?? undefined, brandUrl: jobRow.brand_url ?? undefined },
+      audioPath: row.audio_path,
+      mimeType: row.mime_type || 'audio/mpeg',
+    };
+  })();
+}
+
+/** Earliest time a queued item becomes due, used to schedule the next poll. */
+export function nextQueuedItemDueAt(): number | null {
+  const row = getDb()
+    .prepare(`
+      SELECT MIN(i.available_at) AS due FROM scoring_job_items i JOIN scoring_jobs j ON j.id = i.job_id
+      WHERE i.status = 'Queued' AND j.status <> 'Cancelled'
+    `)
+    .get() as { due: string | null };
+  return row.due ? Date.parse(row.due) : null;
+}
+
+export function updateScoringItem(itemId: string, update: ScoringItemUpdate): ScoringJobItem {
+  const db = getDb();
+  const existing = db.prepare('SELECT * FROM scoring_job_items WHERE id = ?').get(itemId) as ItemRow;
+  const status = update.status ?? existing.status;
+  db.prepare(`
+    UPDATE scoring_job_items SET status = ?, progress = ?, message = ?, error = ?, score_output = ?, updated_at = ? WHERE id = ?
+  `).run(
+    status,
+    update.progress ?? existing.progress,
+    update.message ?? existing.message,
+    update.error ?? existing.error,
+    update.scoreOutput ? JSON.stringify(update.scoreOutput) : existing.score_output,
+    new Date().toISOString(),
+    itemId
+  );
+  if (TERMINAL_ITEM_STATUSES.includes(status)) {
+    removeAudioFile(existing.audio_path);
+    db.prepare('UPDATE scoring_job_items SET audio_path = NULL WHERE id = ?').run(itemId);
+  }
+  return getScoringJobItem(itemId)!;
+}
+
+/** Puts an item back in the queue, not to be picked up again before `delayMs` has passed. */
+export function requeueScoringItem(itemId: string, delayMs: number, message: string): ScoringJobItem {
+  const now = Date.now();
+  getDb()
+    .prepare(`UPDATE scoring_job_items SET status = 'Queued', progress = 0, message = ?, available_at = ?, updated_at = ? WHERE id = ?`)
+    .run(message, new Date(now + delayMs).toISOString(), new Date(now).toISOString(), itemId);
+  return getScoringJobItem(itemId)!;
+}
+
+/**
+ * Marks the job `Complete` once every item has finished. Returns the job when
+ * its status changed, otherwise null.
+ */
+export function settleScoringJob(jobId: string): ScoringJob | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM scoring_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+  if (!row || row.status === 'Complete' || row.status === 'Cancelled') return null;
+  const job = jobFromRow(row);
+  if (job.completedItems + job.failedItems < job.totalItems) return null;
+  const now = new Date().toISOString();
+  db.prepare(`UPDATE scoring_jobs SET status = 'Complete', updated_at = ?, finished_at = ? WHERE id = ?`).run(now, now, jobId);
+  return { ...job, status: 'Complete', updatedAt: now, finishedAt: now };
+}
+
+/**
+ * Stops a job: unfinished items are marked failed and their audio removed. An
+ * item a worker is processing right now still finishes, but nothing new starts.
+ */
+export function cancelScoringJob(jobId: string, scope?: ActivityScope): ScoringJobWithItems | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM scoring_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+  if (!row || !jobInScope(row, scope)) return null;
+  if (row.status === 'Complete' || row.status === 'Cancelled') return getScoringJob(jobId);
+  const now = new Date().toISOString();
+  const waiting = db
+    .prepare(`SELECT * FROM scoring_job_items WHERE job_id = ? AND status IN ('Pending', 'Queued')`)
+    .all(jobId) as ItemRow[];
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE scoring_job_items SET status = 'Failed', error = 'Cancelled', message = 'Cancelled before processing', progress = 100, audio_path = NULL, updated_at = ?
+      WHERE job_id = ? AND status IN ('Pending', 'Queued')
+    `).run(now, jobId);
+    db.prepare(`UPDATE scoring_jobs SET status = 'Cancelled', updated_at = ?, finished_at = ? WHERE id = ?`).run(now, now, jobId);
+  })();
+  waiting.forEach((item) => removeAudioFile(item.audio_path));
+  return getScoringJob(jobId);
+}
+
+/**
+ * Fails the `Pending` items of jobs that have had no upload for `maxAgeMs`, such
+ * as when the uploading tab was closed, so those jobs can still finish. A job
+ * whose uploads are still arriving keeps waiting. Returns the failed items.
+ */
+export function failAbandonedUploads(maxAgeMs: number): ScoringJobItem[] {
+  const db = getDb();
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - maxAgeMs).toISOString();
+  const reason = 'The recording was never uploaded';
+  const stale = db
+    .prepare(`
+      SELECT i.* FROM scoring_job_items i JOIN scoring_jobs j ON j.id = i.job_id
+      WHERE i.status = 'Pending' AND j.status IN ('Queued', 'Running')
+        AND (SELECT MAX(updated_at) FROM scoring_job_items WHERE job_id = i.job_id) < ?
+    `)
+    .all(cutoff) as ItemRow[];
+  if (stale.length === 0) return [];
+  const fail = db.prepare(`
+    UPDATE scoring_job_items SET status = 'Failed', error = ?, message = ?, progress = 100, updated_at = ?
+    WHERE id = ? AND status = 'Pending'
+  `);
+  db.transaction(() => {
+    stale.forEach((row) => fail.run(reason, reason, now.toISOString(), row.id));
+  })();
+  return stale.map((row) => getScoringJobItem(row.id)!);
+}
+
+/**
+ * Called once at start-up: items that were mid-flight when the previous process
+ * stopped go back to the queue so they are processed again.
+ */
+export function requeueInterruptedItems(): number {
+  const now = new Date().toISOString();
+  const result = getDb()
+    .prepare(`
+      UPDATE scoring_job_items SET status = 'Queued', progress = 0, message = 'Resumed after server restart', available_at = ?, updated_at = ?
+      WHERE status IN ('Transcribing', 'Scoring') AND audio_path IS NOT NULL
+        AND job_id IN (SELECT id FROM scoring_jobs WHERE status <> 'Cancelled')
+    `)
+    .run(now, now);
+  return result.changes;
+}
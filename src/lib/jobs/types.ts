@@ -0,0 +1,94 @@
+import type { CallRecordingMetadata, CallScoringActivityDetails, ScoreCallOutput } from '@/types';
+import type { SimulatedCallResult, SimulationSummaryRow } from '@/lib/voice-simulation';
+
+/**
+ * `Pending` items are waiting for their audio upload; workers only pick up
+ * `Queued` items. The remaining states mirror `CallScoringActivityDetails`.
+ */
+export type ScoringJobItemStatus = NonNullable<CallScoringActivityDetails['status']>;
+
+export type ScoringJobStatus = 'Queued' | 'Running' | 'Complete' | 'Cancelled';
+
+/** Who submitted the job: a user uploading files, or a scheduled ingestion source. */
+export type ScoringJobSource = 'Manual' | 'Ingestion';
+
+export const TERMINAL_ITEM_STATUSES: readonly ScoringJobItemStatus[] = ['Complete', 'Failed'];
+
+export interface ScoringJobItem {
+  id: string;
+  jobId: string;
+  /** Position of the file in the submitted batch. */
+  index: number;
+  fileName: string;
+  /** Dialer CDR fields for recordings picked up by ingestion. */
+  callMetadata?: CallRecordingMetadata;
+  status: ScoringJobItemStatus;
+  /** 0-100, for the batch progress list. */
+  progress: number;
+  message?: string;
+  error?: string;
+  scoreOutput?: ScoreCallOutput;
+  /** Processing attempts so far; rate-limited items are retried with backoff. */
+  attempts: number;
+  updatedAt: string;
+}
+
+export interface ScoringJob {
+  id: string;
+  status: ScoringJobStatus;
+  product: string;
+  agentName?: string;
+  source: ScoringJobSource;
+  createdBy: string;
+  createdByName: string;
+  workspaceId: string;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface ScoringJobWithItems extends ScoringJob {
+  items: ScoringJobItem[];
+}
+
+/** Payload of the `/api/call-scoring/jobs/[id]/events` stream. */
+export type ScoringJobEvent =
+  | { type: 'snapshot'; job: ScoringJobWithItems }
+  | { type: 'job'; job: ScoringJob }
+  | { type: 'item'; item: ScoringJobItem };
+
+export const isJobFinished = (job: Pick<ScoringJob, 'status'>): boolean =>
+  job.status === 'Complete' || job.status === 'Cancelled';
+
+export type SimulationJobStatus = 'Queued' | 'Running' | 'Complete' | 'Cancelled';
+
+/** A batch of headless voice sales calls, run by the simulation workers. */
+export interface SimulationJob {
+  id: string;
+  status: SimulationJobStatus;
+  product: string;
+  createdBy: string;
+  createdByName: string;
+  workspaceId: string;
+  totalCalls: number;
+  completedCalls: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface SimulationJobWithResults extends SimulationJob {
+  /** Finished calls, in the order they were planned. */
+  results: SimulatedCallResult[];
+  /** Sale rate and mean score per pitch version and persona over `results`. */
+  summary: SimulationSummaryRow[];
+}
+
+/** Payload of the `/api/voice-sales-agent/simulations/[id]/events` stream. */
+export type SimulationJobEvent =
+  | { type: 'snapshot'; job: SimulationJobWithResults }
+  | { type: 'job'; job: SimulationJob }
+  | { type: 'call'; jobId: string; result: SimulatedCallResult };
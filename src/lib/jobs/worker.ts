@@ -0,0 +1,329 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * In-process workers for batch call-scoring jobs. Each worker claims a queued
+ * item from the job store, transcribes it, scores it with `scoreCall` and
+ * records the result in the shared activity history. Progress is broadcast to
+ * subscribers of the job (the SSE route).
+ *
+ * Next.js loads `instrumentation.ts` and each route handler as separate module
+ * instances, so the pool and the event bus live on `globalThis`.
+ */
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { transcribeAudio } from '@/ai/flows/transcription-flow';
+import { scoreCall } from '@/ai/flows/call-scoring';
+import { saveActivities } from '@/lib/activity-log-server';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import { getActiveRubric } from '@/lib/rubric-store';
+import { formatTranscriptSegments } from '@/lib/transcript-utils';
+import { emitCallScoredEvents, emitWebhookEvent } from '@/lib/webhooks/dispatcher';
+import type { ActivityLogEntry, ScoreCallOutput } from '@/types';
+import {
+  claimNextScoringItem,
+  failAbandonedUploads,
+  getScoringJobItem,
+  nextQueuedItemDueAt,
+  requeueInterruptedItems,
+  requeueScoringItem,
+  settleScoringJob,
+  updateScoringItem,
+  type ClaimedScoringItem,
+  type ScoringItemUpdate,
+} from './store';
+import type { ScoringJob, ScoringJobEvent, ScoringJobItem } from './types';
+
+const DEFAULT_CONCURRENCY = 2;
+/** A rate-limited item is attempted this many times before it is marked failed. */
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 60_000;
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+/** Upper bound between queue checks while retries are waiting to become due. */
+const IDLE_POLL_MS = 60_000;
+const DEFAULT_UPLOAD_TIMEOUT_MINUTES = 30;
+const UPLOAD_SWEEP_INTERVAL_MS = 5 * 60_000;
+
+interface WorkerPoolState {
+  started: boolean;
+  active: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  sweepTimer: ReturnType<typeof setInterval> | null;
+  events: EventEmitter;
+}
+
+const globalScope = globalThis as typeof globalThis & { __scoringJobWorkers?: WorkerPoolState };
+
+function getPool(): WorkerPoolState {
+  if (!globalScope.__scoringJobWorkers) {
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    globalScope.__scoringJobWorkers = { started: false, active: 0, timer: null, sweepTimer: null, events };
+  }
+  return globalScope.__scoringJobWorkers;
+}
+
+const getConcurrency = (): number => {
+  const configured = Number(process.env.SCORING_JOB_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+};
+
+/** How long a job waits for an item's recording before giving up on it. */
+const getUploadTimeoutMs = (): number => {
+  const configured = Number(process.env.SCORING_UPLOAD_TIMEOUT_MINUTES);
+  return (configured > 0 ? configured : DEFAULT_UPLOAD_TIMEOUT_MINUTES) * 60_000;
+};
+
+const isQuotaError = (message: string): boolean => {
+  const lower = message.toLowerCase();
+  return ['429', 'quota', 'rate limit', 'resource has been exhausted'].some((marker) => lower.includes(marker));
+};
+
+const transcriptionRateLimit = {
+  identifier: 'transcription',
+  maxRequests: parseInt(process.env.TRANSCRIPTION_CALLS_PER_HOUR || process.env.MAX_EXPENSIVE_CALLS_PER_HOUR || '5', 10) || 5,
+  windowMs: RATE_LIMITS.EXPENSIVE.windowMs,
+};
+
+function emit(jobId: string, event: ScoringJobEvent) {
+  getPool().events.emit(jobId, event);
+}
+
+function publishItem(item: ScoringJobItem) {
+  emit(item.jobId, { type: 'item', item });
+}
+
+function publishJob(job: ScoringJob) {
+  emit(job.id, { type: 'job', job });
+}
+
+/** Listens to progress of one job; returns the unsubscribe function. */
+export function subscribeToScoringJob(jobId: string, listener: (event: ScoringJobEvent) => void): () => void {
+  const { events } = getPool();
+  events.on(jobId, listener);
+  return () => {
+    events.off(jobId, listener);
+  };
+}
+
+/** Broadcasts a change made outside the workers, such as a cancellation or an upload. */
+export function publishScoringJobChange(job: ScoringJob, items: ScoringJobItem[] = []) {
+  items.forEach(publishItem);
+  publishJob(job);
+}
+
+const errorScoreOutput = (fileName: string, error: string): ScoreCallOutput => ({
+  transcript: error.includes('Transcription failed:') ? error : `[Error processing ${fileName}. Raw Error: ${error}]`,
+  transcriptAccuracy: 'System Error',
+  overallScore: 0,
+  callCategorisation: 'Error',
+  summary: `Processing failed: ${error}`,
+  strengths: [],
+  areasForImprovement: ['Investigate and resolve the processing error.'],
+  redFlags: [`System-level error during processing: ${error.substring(0, 100)}...`],
+  metricScores: [],
+  improvementSituations: [],
+  conversionReadiness: 'Low',
+  suggestedDisposition: 'Error',
+  // Not a real outcome; the call needs to be scored again.
+  callDisposition: 'Follow-up Required',
+  evidence: [],
+});
+
+async function recordActivity(claim: ClaimedScoringItem, item: ScoringJobItem) {
+  const entry: ActivityLogEntry = {
+    id: item.id,
+    timestamp: new Date().toISOString(),
+    module: 'Call Scoring',
+    product: claim.job.product,
+    agentName: claim.job.createdByName,
+    agentId: claim.job.createdBy,
+    workspaceId: claim.job.workspaceId,
+    details: {
+      fileName: item.fileName,
+      status: item.status,
+      agentNameFromForm: item.callMetadata?.agentName ?? claim.job.agentName,
+      scoreOutput: item.scoreOutput,
+      error: item.error,
+      source: claim.job.source,
+      callMetadata: item.callMetadata,
+    },
+  };
+  try {
+    await saveActivities([entry]);
+  } catch (error) {
+    console.error(`Could not record activity for scoring item ${item.id}:`, (error as Error).message);
+  }
+}
+
+function emitCallScored(claim: ClaimedScoringItem, item: ScoringJobItem, scoreOutput: ScoreCallOutput) {
+  const { job } = claim;
+  emitCallScoredEvents(job.workspaceId, {
+    activityId: item.id,
+    jobId: job.id,
+    fileName: item.fileName,
+    product: job.product,
+    agentName: item.callMetadata?.agentName ?? job.agentName,
+    source: job.source === 'Ingestion' ? 'Ingestion' : 'Batch',
+    callMetadata: item.callMetadata,
+    overallScore: scoreOutput.overallScore,
+    callCategorisation: scoreOutput.callCategorisation,
+    callDisposition: scoreOutput.callDisposition,
+    conversionReadiness: scoreOutput.conversionReadiness,
+    summary: scoreOutput.summary,
+    redFlags: scoreOutput.redFlags,
+  });
+}
+
+function emitJobCompleted(job: ScoringJob) {
+  emitWebhookEvent(job.workspaceId, 'batch.analysis.completed', {
+    kind: 'ScoringJob',
+    product: job.product,
+    jobId: job.id,
+    totalCalls: job.totalItems,
+    completedCalls: job.completedItems,
+    failedCalls: job.failedItems,
+  });
+}
+
+async function processItem(claim: ClaimedScoringItem): Promise<void> {
+  const { job } = claim;
+  const itemId = claim.item.id;
+  const update = (changes: ScoringItemUpdate) => publishItem(updateScoringItem(itemId, changes));
+  publishItem(claim.item);
+
+  try {
+    const audio = fs.readFileSync(claim.audioPath);
+    const audioDataUri = `data:${claim.mimeType};base64,${audio.toString('base64')}`;
+
+    update({ status: 'Transcribing', progress: 20, message: 'Requesting transcript' });
+    const transcription = await transcribeAudio({ audioDataUri });
+    rateLimiter.incrementOnly(transcriptionRateLimit);
+    const transcript = formatTranscriptSegments(transcription);
+    const accuracyAssessment = transcription.summary.overview.includes('Error') ? 'Error' : 'High';
+    if (accuracyAssessment === 'Error' || transcript.includes('[Critical Transcription System Error')) {
+      throw new Error(`Transcription failed: ${transcript}`);
+    }
+
+    update({ status: 'Scoring', progress: 55, message: 'Transcription complete, scoring call' });
+    const scoreOutput = await scoreCall({
+      product: job.product,
+      // The dialer's CDR names the agent on each call; a form value applies to the whole batch.
+      agentName: claim.item.callMetadata?.agentName ?? job.agentName,
+      audioDataUri,
+      transcriptOverride: transcript,
+      productContext: job.productContext,
+      brandUrl: job.brandUrl,
+      rubric: getActiveRubric(job.workspaceId, job.product),
+    });
+    rateLimiter.incrementOnly({ identifier: 'call-scoring', ...RATE_LIMITS.EXPENSIVE });
+    // Keep the transcript from the transcription step, as the interactive flow does.
+    scoreOutput.transcript = transcript;
+    scoreOutput.transcriptAccuracy = accuracyAssessment;
+    if (scoreOutput.callCategorisation === 'Error') {
+      throw new Error(scoreOutput.summary);
+    }
+
+    const completed = updateScoringItem(itemId, {
+      status: 'Complete',
+      progress: 100,
+      message: `Overall score: ${scoreOutput.overallScore.toFixed(1)}`,
+      scoreOutput,
+    });
+    publishItem(completed);
+    await recordActivity(claim, completed);
+    emitCallScored(claim, completed, scoreOutput);
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)) || 'An unexpected error occurred.';
+    const attempts = getScoringJobItem(itemId)?.attempts ?? MAX_ATTEMPTS;
+    if (isQuotaError(message) && attempts < MAX_ATTEMPTS) {
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+      console.warn(`⚠️ Scoring item ${itemId} hit a rate limit; retrying in ${Math.round(delayMs / 1000)}s.`);
+      publishItem(requeueScoringItem(itemId, delayMs, `Rate limited, retrying at ${new Date(Date.now() + delayMs).toLocaleTimeString()}`));
+      return;
+    }
+    console.error(`Scoring item ${itemId} failed:`, message);
+    const failed = updateScoringItem(itemId, {
+      status: 'Failed',
+      progress: 100,
+      message,
+      error: message,
+      scoreOutput: errorScoreOutput(claim.item.fileName, message),
+    });
+    publishItem(failed);
+    await recordActivity(claim, failed);
+  } finally {
+    const settled = settleScoringJob(job.id);
+    if (settled) {
+      publishJob(settled);
+      emitJobCompleted(settled);
+    }
+  }
+}
+
+function scheduleNextPoll() {
+  const pool = getPool();
+  if (pool.timer) clearTimeout(pool.timer);
+  const dueAt = nextQueuedItemDueAt();
+  if (dueAt === null) {
+    pool.timer = null;
+    return;
+  }
+  const delay = Math.min(Math.max(dueAt - Date.now(), 1000), IDLE_POLL_MS);
+  pool.timer = setTimeout(() => {
+    pool.timer = null;
+    pumpScoringQueue();
+  }, delay);
+  pool.timer.unref?.();
+}
+
+/** Starts as many items as there are free workers. */
+export function pumpScoringQueue() {
+  const pool = getPool();
+  if (!pool.started) {
+    startScoringWorkers();
+    return;
+  }
+  const concurrency = getConcurrency();
+  while (pool.active < concurrency) {
+    const claim = claimNextScoringItem();
+    if (!claim) break;
+    pool.active++;
+    void processItem(claim).finally(() => {
+      pool.active--;
+      pumpScoringQueue();
+    });
+  }
+  scheduleNextPoll();
+}
+
+/** Fails items whose recording never arrived and completes the jobs that were only waiting on them. */
+function sweepAbandonedUploads() {
+  const failed = failAbandonedUploads(getUploadTimeoutMs());
+  if (failed.length === 0) return;
+  console.warn(`⚠️ Gave up on ${failed.length} call-scoring item(s) whose recording was never uploaded.`);
+  failed.forEach(publishItem);
+  new Set(failed.map((item) => item.jobId)).forEach((jobId) => {
+    const settled = settleScoringJob(jobId);
+    if (settled) {
+      publishJob(settled);
+      emitJobCompleted(settled);
+    }
+  });
+}
+
+/**
+ * Starts the worker pool once per process, first putting items interrupted by
+ * a restart back in the queue. Safe to call from every route.
+ */
+export function startScoringWorkers() {
+  const pool = getPool();
+  if (pool.started) return;
+  pool.started = true;
+  const resumed = requeueInterruptedItems();
+  if (resumed > 0) {
+    console.log(`🔁 Resuming ${resumed} call-scoring item(s) interrupted by a restart.`);
+  }
+  sweepAbandonedUploads();
+  pool.sweepTimer = setInterval(sweepAbandonedUploads, UPLOAD_SWEEP_INTERVAL_MS);
+  pool.sweepTimer.unref?.();
+  pumpScoringQueue();
+}
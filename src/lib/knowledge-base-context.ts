@@ -11,6 +11,10 @@ interface BuildContextOptions {
  * Normalizes the product knowledge base entries into a single context string.
  * This helper is shared between pitch generation flows and voice agents so that
  * both surfaces rely on the exact same source of truth.
+ *
+ * Items that do not fit in `maxLength` are listed by name at the end rather than
+ * dropped silently. On the server, flows replace this string with passages from
+ * the retrieval index when the workspace has one (see `@/lib/knowledge-retrieval`).
  */
 export function buildProductKnowledgeBaseContext(
   knowledgeBaseFiles: KnowledgeFile[],
@@ -32,10 +36,16 @@ export function buildProductKnowledgeBaseContext(
     (file) => file.product === productObject.name
   );
 
-  const cappedAppend = (section: string) => {
-    if (combinedContext.length + section.length <= maxLength) {
-      combinedContext += section;
+  const omittedItems: string[] = [];
+  // Room kept for the omitted-items note and the closing marker.
+  const reservedLength = 1000;
+
+  const cappedAppend = (section: string): boolean => {
+    if (combinedContext.length + section.length > maxLength - reservedLength) {
+      return false;
     }
+    combinedContext += section;
+    return true;
   };
 
   const addSection = (title: string, files: KnowledgeFile[]) => {
@@ -43,12 +53,14 @@ export function buildProductKnowledgeBaseContext(
     cappedAppend(`--- ${title.toUpperCase()} ---\n`);
     files.forEach((file) => {
       let itemContext = `\n--- Item: ${file.name} ---\n`;
-      if (file.isTextEntry && file.textContent) {
+      if (file.textContent) {
         itemContext += `Content:\n${file.textContent}\n`;
       } else {
-        itemContext += `(Reference: ${file.type || 'asset'} - ${file.name}). Derive intent from file metadata.\n`;
+        itemContext += `(Reference: ${file.type || 'asset'} - ${file.name}). Its text is not available; derive intent from the file name and category.\n`;
+      }
+      if (!cappedAppend(itemContext)) {
+        omittedItems.push(file.name);
       }
-      cappedAppend(itemContext);
     });
     cappedAppend(`--- END ${title.toUpperCase()} ---\n\n`);
   };
@@ -73,8 +85,10 @@ export function buildProductKnowledgeBaseContext(
     combinedContext += "No specific knowledge base files or text entries were found for this product.\n";
   }
 
-  if (combinedContext.length >= maxLength) {
-    console.warn("Knowledge base context truncated due to length limit.");
+  if (omittedItems.length > 0) {
+    console.warn(`Knowledge base context omitted ${omittedItems.length} item(s) due to length limit:`, omittedItems);
+    const note = `(Omitted for length: ${omittedItems.join('; ')})`;
+    combinedContext += `${note.length > reservedLength - 100 ? `${note.slice(0, reservedLength - 104)}...)` : note}\n`;
   }
 
   combinedContext += `--- END OF KNOWLEDGE BASE CONTEXT ---`;
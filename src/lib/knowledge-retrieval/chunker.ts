@@ -0,0 +1,82 @@
+/**
+ * Splits knowledge base documents into overlapping passages for embedding.
+ * Passages are packed from paragraphs (then sentences for long paragraphs) so
+ * a chunk rarely cuts a sentence in half.
+ */
+
+export interface DocumentSection {
+  text: string;
+  /** Where the section lives in the source document, e.g. "page 3" or "slide 2". */
+  anchor?: string;
+}
+
+export interface TextChunk {
+  position: number;
+  text: string;
+  anchor?: string;
+}
+
+export interface ChunkOptions {
+  /** Target chunk length in characters. */
+  maxChars?: number;
+  /** Characters carried over from the end of the previous chunk. */
+  overlapChars?: number;
+}
+
+export const DEFAULT_CHUNK_CHARS = 1200;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+const splitUnits = (text: string, maxChars: number): string[] =>
+  text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      if (paragraph.length <= maxChars) return [paragraph];
+      const sentences = paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [paragraph];
+      // A single sentence longer than a chunk is hard-split.
+      return sentences
+        .map((sentence) => sentence.trim())
+        .filter(Boolean)
+        .flatMap((sentence) => {
+          const pieces: string[] = [];
+          for (let start = 0; start < sentence.length; start += maxChars) {
+            pieces.push(sentence.slice(start, start + maxChars));
+          }
+          return pieces;
+        });
+    });
+
+const overlapTail = (text: string, overlapChars: number): string => {
+  if (overlapChars <= 0 || text.length <= overlapChars) return '';
+  const tail = text.slice(-overlapChars);
+  const boundary = tail.search(/\s/);
+  return boundary >= 0 ? tail.slice(boundary + 1) : tail;
+};
+
+export function chunkDocument(
+  sections: DocumentSection[],
+  { maxChars = DEFAULT_CHUNK_CHARS, overlapChars = DEFAULT_CHUNK_OVERLAP }: ChunkOptions = {}
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  sections.forEach(({ text, anchor }) => {
+    let current = '';
+    // Whether `current` holds anything beyond the overlap copied from the previous chunk.
+    let hasNewText = false;
+    const push = () => chunks.push({ position: chunks.length, text: current, ...(anchor ? { anchor } : {}) });
+
+    splitUnits(text, maxChars).forEach((unit) => {
+      if (hasNewText && current.length + unit.length + 2 > maxChars) {
+        push();
+        current = overlapTail(current, overlapChars);
+        hasNewText = false;
+      }
+      current = current ? `${current}\n\n${unit}` : unit;
+      hasNewText = true;
+    });
+    if (hasNewText) push();
+  });
+
+  return chunks;
+}
@@ -0,0 +1,169 @@
+/**
+ * Pluggable text embedders for knowledge base retrieval.
+ *
+ * `KB_EMBEDDING_MODEL` picks the backend, using the same model references as
+ * the LLM providers:
+ *   - `local` (default): a hashed bag-of-words embedder that runs in-process,
+ *     needs no API key and gives solid keyword-level recall.
+ *   - `text-embedding-004` / `googleai/<model>`: Gemini embeddings.
+ *   - `ollama/<model>`: a local Ollama embedding model, e.g. `ollama/nomic-embed-text`.
+ *
+ * Vectors from different embedders are not comparable, so every stored chunk
+ * records the `id` of the embedder that produced it.
+ */
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseModelRef } from '@/ai/providers';
+import { DEFAULT_OLLAMA_ENDPOINT } from '@/ai/providers/ollama';
+
+export interface Embedder {
+  /** Stable identifier stored with each vector, e.g. `local/hash-512`. */
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set(
+  'a an and are as at be but by can do for from has have i if in is it its me my not of on or our so that the their them they this to was we were what when which who will with you your'.split(
+    ' '
+  )
+);
+
+/** Folds simple plurals so "plans" matches "plan"; anything smarter belongs in a real embedding model. */
+const stem = (token: string): string =>
+  token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+
+/** 32-bit FNV-1a. */
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: Float32Array): Float32Array => {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+/**
+ * Feature-hashed unigrams and bigrams with sublinear term frequency. Words
+ * hash into a fixed number of signed buckets, so no vocabulary is stored.
+ */
+class LocalHashingEmbedder implements Embedder {
+  readonly id = `local/hash-${LOCAL_DIMENSIONS}`;
+
+  embed(texts: string[]): Promise<Float32Array[]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    tokens.forEach((token, index) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      if (index > 0) {
+        const bigram = `${tokens[index - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) ?? 0) + 0.5);
+      }
+    });
+    const vector = new Float32Array(LOCAL_DIMENSIONS);
+    counts.forEach((count, feature) => {
+      const hash = hashToken(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+    return normalize(vector);
+  }
+}
+
+/** Gemini embeddings through the same SDK as the Google LLM provider. */
+class GoogleEmbedder implements Embedder {
+  readonly id: string;
+  private static readonly BATCH_SIZE = 100;
+
+  constructor(private model: string) {
+    this.id = `googleai/${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new Error('GOOGLE_API_KEY is not configured, so Gemini embeddings are unavailable.');
+    }
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.model });
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += GoogleEmbedder.BATCH_SIZE) {
+      const batch = texts.slice(start, start + GoogleEmbedder.BATCH_SIZE);
+      const { embeddings } = await model.batchEmbedContents({
+        requests: batch.map((text) => ({ content: { role: 'user', parts: [{ text }] } })),
+      });
+      embeddings.forEach((embedding) => vectors.push(normalize(Float32Array.from(embedding.values))));
+    }
+    return vectors;
+  }
+}
+
+class OllamaEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private model: string, private endpoint: string = DEFAULT_OLLAMA_ENDPOINT) {
+    this.id = `ollama/${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const response = await fetch(`${this.endpoint.replace(/\/$/, '')}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama embedding request failed (${response.status}): ${await response.text()}`);
+    }
+    const data = (await response.json()) as { embeddings?: number[][] };
+    if (!data.embeddings || data.embeddings.length !== texts.length) {
+      throw new Error('Ollama returned an unexpected number of embeddings.');
+    }
+    return data.embeddings.map((values) => normalize(Float32Array.from(values)));
+  }
+}
+
+let configuredEmbedder: Embedder | null = null;
+
+export function createEmbedder(modelRef: string): Embedder {
+  if (modelRef === 'local') return new LocalHashingEmbedder();
+  const { providerId, model } = parseModelRef(modelRef);
+  switch (providerId) {
+    case 'googleai':
+      return new GoogleEmbedder(model);
+    case 'ollama':
+      return new OllamaEmbedder(model);
+    default:
+      throw new Error(`Embeddings are not supported for provider '${providerId}'. Use local, googleai or ollama.`);
+  }
+}
+
+/** The embedder selected by `KB_EMBEDDING_MODEL`. */
+export function getEmbedder(): Embedder {
+  if (!configuredEmbedder) {
+    configuredEmbedder = createEmbedder(process.env.KB_EMBEDDING_MODEL || 'local');
+  }
+  return configuredEmbedder;
+}
+
+/** Replaces the configured embedder, e.g. to plug in another model at runtime. */
+export function registerEmbedder(embedder: Embedder): void {
+  configuredEmbedder = embedder;
+}
@@ -0,0 +1,41 @@
+/**
+ * Turns a knowledge base entry into anchored text sections for chunking.
+ * Entries carry their text directly (text entries, and uploads whose text was
+ * extracted at upload time); otherwise uploads are extracted from the data URI
+ * sent at upload time.
+ */
+import { detectDocumentFormat, extractDocument, parseSectionedText } from '@/lib/document-extraction';
+import type { DocumentSection } from './chunker';
+
+export interface KnowledgeSource {
+  name: string;
+  type: string;
+  text?: string;
+  dataUri?: string;
+}
+
+/** Splits a `data:` URI into its MIME type and decoded bytes. */
+export function decodeDataUri(dataUri: string): { mimeType: string; data: Buffer } | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?),(.*)$/s.exec(dataUri);
+  if (!match) return null;
+  const isBase64 = match[2].split(';').includes('base64');
+  return {
+    mimeType: match[1] || 'application/octet-stream',
+    data: isBase64 ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]), 'utf8'),
+  };
+}
+
+/**
+ * The sections of a source, or `null` when it carries no content we can read
+ * (e.g. an upload whose data URI was not sent, or an image).
+ */
+export async function extractSections(source: KnowledgeSource): Promise<DocumentSection[] | null> {
+  if (source.text?.trim()) return parseSectionedText(source.text);
+  if (!source.dataUri) return null;
+  const decoded = decodeDataUri(source.dataUri);
+  if (!decoded) throw new Error('The upload is not a valid data URI.');
+  const mimeType = source.type || decoded.mimeType;
+  if (!detectDocumentFormat(source.name, mimeType)) return null;
+  const { sections } = await extractDocument(decoded.data, { fileName: source.name, mimeType });
+  return sections;
+}
@@ -0,0 +1,244 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Knowledge base retrieval: documents are split into overlapping chunks,
+ * embedded with the configured embedder and stored in the on-disk vector
+ * index; flows then ask for the chunks most relevant to the conversation
+ * instead of receiving the whole knowledge base as one truncated string.
+ */
+import crypto from 'crypto';
+import { formatSectionsAsText } from '@/lib/document-extraction';
+import { chunkDocument, type DocumentSection } from './chunker';
+import { getEmbedder } from './embedders';
+import { extractSections, type KnowledgeSource } from './extract';
+import {
+  getIndexedDocument,
+  listIndexedDocuments,
+  removeDocuments,
+  replaceDocumentChunks,
+  searchChunks,
+  updateDocumentMetadata,
+  type IndexedDocument,
+} from './vector-index';
+
+export type { IndexedDocument } from './vector-index';
+
+/** A knowledge base entry as sent by the client for indexing. */
+export interface KnowledgeIndexDocument extends KnowledgeSource {
+  id: string;
+  product?: string;
+  category?: string;
+}
+
+export interface KnowledgeSyncResult {
+  indexed: string[];
+  unchanged: string[];
+  /** Entries with no readable content that are not already indexed. */
+  skipped: string[];
+  removed: number;
+  failed: { id: string; name: string; error: string }[];
+}
+
+export interface RetrievedChunk {
+  /** `<fileId>#<position>`, reported back to callers in `sourcesUsed`. */
+  chunkId: string;
+  fileId: string;
+  fileName: string;
+  category?: string;
+  text: string;
+  anchor?: string;
+  score: number;
+}
+
+export const DEFAULT_RETRIEVAL_TOP_K = 6;
+
+/** Header of the section the pitch pages build from knowledge items the agent picked explicitly. */
+const USER_SELECTED_CONTEXT_HEADER = '--- START OF USER-SELECTED KB CONTEXT';
+const USER_SELECTED_CONTEXT_FOOTER = '--- END OF USER-SELECTED KB CONTEXT ---';
+
+/** Hash of the extracted text, so an upload indexed from its file and later from its stored text matches. */
+const hashSections = (sections: DocumentSection[]): string =>
+  crypto.createHash('sha256').update(formatSectionsAsText(sections)).digest('hex');
+
+async function indexDocument(
+  workspaceId: string,
+  document: KnowledgeIndexDocument,
+  sections: DocumentSection[],
+  contentHash: string
+): Promise<void> {
+  const embedder = getEmbedder();
+  const chunks = chunkDocument(sections);
+  const embeddings = chunks.length ? await embedder.embed(chunks.map((chunk) => chunk.text)) : [];
+  replaceDocumentChunks(
+    workspaceId,
+    {
+      fileId: document.id,
+      name: document.name,
+      product: document.product,
+      category: document.category,
+      contentHash,
+      embedder: embedder.id,
+      status: 'indexed',
+    },
+    chunks.map((chunk, index) => ({
+      chunkId: `${document.id}#${chunk.position}`,
+      fileId: document.id,
+      position: chunk.position,
+      text: chunk.text,
+      anchor: chunk.anchor,
+      embedding: embeddings[index],
+    }))
+  );
+}
+
+/**
+ * Brings the index in line with the given knowledge base entries. Entries
+ * whose content and embedder are unchanged are not re-embedded; entries sent
+ * without content (uploads after their data URI was dropped) keep their
+ * existing chunks. With `prune`, indexed documents missing from `documents`
+ * are removed, so pass the complete knowledge base when pruning.
+ */
+export async function syncKnowledgeIndex(
+  workspaceId: string,
+  documents: KnowledgeIndexDocument[],
+  options: { prune?: boolean } = {}
+): Promise<KnowledgeSyncResult> {
+  const result: KnowledgeSyncResult = { indexed: [], unchanged: [], skipped: [], removed: 0, failed: [] };
+  const embedderId = getEmbedder().id;
+
+  for (const document of documents) {
+    const existing = getIndexedDocument(workspaceId, document.id);
+    try {
+      const sections = await extractSections(document);
+      if (!sections) {
+        if (existing) {
+          updateDocumentMetadata(workspaceId, document.id, document);
+          result.unchanged.push(document.id);
+        } else {
+          result.skipped.push(document.id);
+        }
+        continue;
+      }
+      const contentHash = hashSections(sections);
+      if (existing && existing.contentHash === contentHash && existing.embedder === embedderId) {
+        updateDocumentMetadata(workspaceId, document.id, document);
+        result.unchanged.push(document.id);
+        continue;
+      }
+      await indexDocument(workspaceId, document, sections, contentHash);
+      result.indexed.push(document.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      console.warn(`Knowledge index: failed to index '${document.name}':`, message);
+      result.failed.push({ id: document.id, name: document.name, error: message });
+    }
+  }
+
+  if (options.prune) {
+    const keep = new Set(documents.map((document) => document.id));
+    const stale = listIndexedDocuments(workspaceId)
+      .filter((document) => !keep.has(document.fileId))
+      .map((document) => document.fileId);
+    result.removed = removeDocuments(workspaceId, stale);
+  }
+  return result;
+}
+
+export function listKnowledgeIndex(workspaceId: string, product?: string): IndexedDocument[] {
+  return listIndexedDocuments(workspaceId, product);
+}
+
+/**
+ * The chunks most relevant to `query` for a product. Retrieval is best-effort:
+ * on any failure it logs and returns no chunks so callers fall back to the
+ * context they were given.
+ */
+export async function retrieveKnowledge(options: {
+  workspaceId: string;
+  product?: string;
+  query: string;
+  topK?: number;
+}): Promise<RetrievedChunk[]> {
+  const { workspaceId, product, query, topK = DEFAULT_RETRIEVAL_TOP_K } = options;
+  if (!query.trim()) return [];
+  try {
+    const embedder = getEmbedder();
+    const [vector] = await embedder.embed([query]);
+    return searchChunks({ workspaceId, product, embedder: embedder.id, query: vector, topK });
+  } catch (error) {
+    console.warn('Knowledge retrieval failed, falling back to the provided context:', (error as Error).message);
+    return [];
+  }
+}
+
+/** Merges several result lists, keeping each chunk's best score. */
+export function mergeRetrievedChunks(...lists: RetrievedChunk[][]): RetrievedChunk[] {
+  const best = new Map<string, RetrievedChunk>();
+  for (const chunk of lists.flat()) {
+    const current = best.get(chunk.chunkId);
+    if (!current || current.score < chunk.score) best.set(chunk.chunkId, chunk);
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Builds the knowledge context for a prompt from retrieved chunks. A
+ * "USER-SELECTED KB CONTEXT" section in `baseContext` is kept ahead of the
+ * passages, since the agent chose those items deliberately.
+ */
+export function buildRetrievedKnowledgeContext(chunks: RetrievedChunk[], baseContext = ''): string {
+  const sections: string[] = [];
+  const selectedStart = baseContext.indexOf(USER_SELECTED_CONTEXT_HEADER);
+  if (selectedStart >= 0) {
+    const selectedEnd = baseContext.indexOf(USER_SELECTED_CONTEXT_FOOTER, selectedStart);
+    sections.push(
+      selectedEnd >= 0
+        ? baseContext.slice(selectedStart, selectedEnd + USER_SELECTED_CONTEXT_FOOTER.length)
+        : baseContext.slice(selectedStart)
+    );
+  }
+  sections.push(
+    '--- START OF RETRIEVED KNOWLEDGE BASE PASSAGES (most relevant first) ---',
+    ...chunks.map((chunk) => {
+      const location = [chunk.fileName, chunk.category, chunk.anchor].filter(Boolean).join(' | ');
+      return `[${chunk.chunkId}] ${location}\n${chunk.text}`;
+    }),
+    '--- END OF RETRIEVED KNOWLEDGE BASE PASSAGES ---'
+  );
+  return sections.join('\n\n');
+}
+
+/** Passed by API routes so flows can search the caller's workspace index. */
+export interface KnowledgeRetrievalOptions {
+  workspaceId?: string;
+}
+
+export interface GroundedKnowledgeContext {
+  knowledgeBaseContext: string;
+  /** Chunk IDs of the passages in `knowledgeBaseContext`. */
+  sourcesUsed: string[];
+}
+
+/**
+ * Retrieves passages for each query and builds the prompt context from them.
+ * Returns `null` when there is no workspace to search or nothing relevant is
+ * indexed, in which case flows keep the context the client sent.
+ */
+export async function groundKnowledgeContext(options: {
+  workspaceId?: string;
+  product?: string;
+  queries: string[];
+  baseContext?: string;
+  topK?: number;
+}): Promise<GroundedKnowledgeContext | null> {
+  const { workspaceId, product, queries, baseContext, topK = DEFAULT_RETRIEVAL_TOP_K } = options;
+  if (!workspaceId) return null;
+  const results = await Promise.all(
+    queries.filter((query) => query.trim()).map((query) => retrieveKnowledge({ workspaceId, product, query, topK }))
+  );
+  const chunks = mergeRetrievedChunks(...results).slice(0, topK);
+  if (chunks.length === 0) return null;
+  return {
+    knowledgeBaseContext: buildRetrievedKnowledgeContext(chunks, baseContext),
+    sourcesUsed: chunks.map((chunk) => chunk.chunkId),
+  };
+}
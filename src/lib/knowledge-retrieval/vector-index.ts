@@ -0,0 +1,267 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * On-disk vector index of knowledge base chunks, one row per chunk with its
+ * embedding stored as a Float32 blob. Search is an exact dot-product scan over
+ * a product's chunks, which stays fast for knowledge bases of a few thousand
+ * documents and needs no native vector extension.
+ * `KB_INDEX_PATH` overrides the file location (defaults to `.data/kb-index.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type IndexedDocumentStatus = 'indexed' | 'failed';
+
+export interface IndexedDocument {
+  fileId: string;
+  name: string;
+  product?: string;
+  category?: string;
+  contentHash: string;
+  embedder: string;
+  chunkCount: number;
+  status: IndexedDocumentStatus;
+  error?: string;
+  indexedAt: string;
+}
+
+export interface StoredChunk {
+  chunkId: string;
+  fileId: string;
+  position: number;
+  text: string;
+  anchor?: string;
+  embedding: Float32Array;
+}
+
+export interface ChunkMatch {
+  chunkId: string;
+  fileId: string;
+  fileName: string;
+  category?: string;
+  text: string;
+  anchor?: string;
+  score: number;
+}
+
+type DocumentRow = {
+  workspace_id: string;
+  file_id: string;
+  name: string;
+  product: string | null;
+  category: string | null;
+  content_hash: string;
+  embedder: string;
+  chunk_count: number;
+  status: IndexedDocumentStatus;
+  error: string | null;
+  indexed_at: string;
+};
+
+type ChunkSearchRow = {
+  chunk_id: string;
+  file_id: string;
+  text: string;
+  anchor: string | null;
+  embedding: Buffer;
+  name: string;
+  category: string | null;
+};
+
+const DEFAULT_INDEX_DB_PATH = path.join(process.cwd(), '.data', 'kb-index.db');
+
+const rowToDocument = (row: DocumentRow): IndexedDocument => ({
+  fileId: row.file_id,
+  name: row.name,
+  product: row.product ?? undefined,
+  category: row.category ?? undefined,
+  contentHash: row.content_hash,
+  embedder: row.embedder,
+  chunkCount: row.chunk_count,
+  status: row.status,
+  error: row.error ?? undefined,
+  indexedAt: row.indexed_at,
+});
+
+const toBlob = (vector: Float32Array): Buffer => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+
+const fromBlob = (blob: Buffer): Float32Array =>
+  new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.KB_INDEX_PATH || DEFAULT_INDEX_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS kb_documents (
+        workspace_id TEXT NOT NULL,
+        file_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        product TEXT,
+        category TEXT,
+        content_hash TEXT NOT NULL,
+        embedder TEXT NOT NULL,
+        chunk_count INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        indexed_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, file_id)
+      );
+      CREATE TABLE IF NOT EXISTS kb_chunks (
+        workspace_id TEXT NOT NULL,
+        chunk_id TEXT NOT NULL,
+        file_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        anchor TEXT,
+        embedding BLOB NOT NULL,
+        PRIMARY KEY (workspace_id, chunk_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_kb_chunks_file ON kb_chunks (workspace_id, file_id);
+    `);
+  }
+  return database;
+}
+
+export function getIndexedDocument(workspaceId: string, fileId: string): IndexedDocument | null {
+  const row = getDb()
+    .prepare('SELECT * FROM kb_documents WHERE workspace_id = ? AND file_id = ?')
+    .get(workspaceId, fileId) as DocumentRow | undefined;
+  return row ? rowToDocument(row) : null;
+}
+
+/** Indexed documents of a workspace, optionally limited to one product (plus product-agnostic documents). */
+export function listIndexedDocuments(workspaceId: string, product?: string): IndexedDocument[] {
+  const rows = (
+    product
+      ? getDb()
+          .prepare('SELECT * FROM kb_documents WHERE workspace_id = ? AND (product = ? OR product IS NULL) ORDER BY name')
+          .all(workspaceId, product)
+      : getDb().prepare('SELECT * FROM kb_documents WHERE workspace_id = ? ORDER BY name').all(workspaceId)
+  ) as DocumentRow[];
+  return rows.map(rowToDocument);
+}
+
+/** Replaces a document and all of its chunks in one transaction. */
+export function replaceDocumentChunks(
+  workspaceId: string,
+  document: Omit<IndexedDocument, 'chunkCount' | 'indexedAt'>,
+  chunks: StoredChunk[]
+): IndexedDocument {
+  const db = getDb();
+  const row: DocumentRow = {
+    workspace_id: workspaceId,
+    file_id: document.fileId,
+    name: document.name,
+    product: document.product ?? null,
+    category: document.category ?? null,
+    content_hash: document.contentHash,
+    embedder: document.embedder,
+    chunk_count: chunks.length,
+    status: document.status,
+    error: document.error ?? null,
+    indexed_at: new Date().toISOString(),
+  };
+  db.transaction(() => {
+    db.prepare('DELETE FROM kb_chunks WHERE workspace_id = ? AND file_id = ?').run(workspaceId, document.fileId);
+    db.prepare(`
+      INSERT OR REPLACE INTO kb_documents
+        (workspace_id, file_id, name, product, category, content_hash, embedder, chunk_count, status, error, indexed_at)
+      VALUES
+        (@workspace_id, @file_id, @name, @product, @category, @content_hash, @embedder, @chunk_count, @status, @error, @indexed_at)
+    `).run(row);
+    const insertChunk = db.prepare(`
+      INSERT INTO kb_chunks (workspace_id, chunk_id, file_id, position, text, anchor, embedding)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const chunk of chunks) {
+      insertChunk.run(
+        workspaceId,
+        chunk.chunkId,
+        chunk.fileId,
+        chunk.position,
+        chunk.text,
+        chunk.anchor ?? null,
+        toBlob(chunk.embedding)
+      );
+    }
+  })();
+  return rowToDocument(row);
+}
+
+/** Updates name/product/category of an indexed document without re-embedding it. */
+export function updateDocumentMetadata(
+  workspaceId: string,
+  fileId: string,
+  metadata: Pick<IndexedDocument, 'name' | 'product' | 'category'>
+): void {
+  getDb()
+    .prepare('UPDATE kb_documents SET name = ?, product = ?, category = ? WHERE workspace_id = ? AND file_id = ?')
+    .run(metadata.name, metadata.product ?? null, metadata.category ?? null, workspaceId, fileId);
+}
+
+export function removeDocuments(workspaceId: string, fileIds: string[]): number {
+  const db = getDb();
+  return db.transaction(() => {
+    let removed = 0;
+    for (const fileId of fileIds) {
+      db.prepare('DELETE FROM kb_chunks WHERE workspace_id = ? AND file_id = ?').run(workspaceId, fileId);
+      removed += db.prepare('DELETE FROM kb_documents WHERE workspace_id = ? AND file_id = ?').run(workspaceId, fileId).changes;
+    }
+    return removed;
+  })();
+}
+
+/**
+ * The `topK` chunks closest to `query` among a product's documents (and
+ * product-agnostic ones) that were embedded by `embedder`. Embeddings are
+ * L2-normalized, so the dot product is the cosine similarity.
+ */
+export function searchChunks(options: {
+  workspaceId: string;
+  product?: string;
+  embedder: string;
+  query: Float32Array;
+  topK: number;
+  minScore?: number;
+}): ChunkMatch[] {
+  const { workspaceId, product, embedder, query, topK, minScore = 0 } = options;
+  const rows = getDb()
+    .prepare(`
+      SELECT c.chunk_id, c.file_id, c.text, c.anchor, c.embedding, d.name, d.category
+      FROM kb_chunks c
+      JOIN kb_documents d ON d.workspace_id = c.workspace_id AND d.file_id = c.file_id
+      WHERE c.workspace_id = @workspaceId AND d.embedder = @embedder AND d.status = 'indexed'
+        AND (@product IS NULL OR d.product = @product OR d.product IS NULL)
+    `)
+    .all({ workspaceId, embedder, product: product ?? null }) as ChunkSearchRow[];
+
+  const matches: ChunkMatch[] = [];
+  for (const row of rows) {
+    const score = dot(query, fromBlob(row.embedding));
+    if (score <= minScore) continue;
+    matches.push({
+      chunkId: row.chunk_id,
+      fileId: row.file_id,
+      fileName: row.name,
+      category: row.category ?? undefined,
+      text: row.text,
+      anchor: row.anchor ?? undefined,
+      score,
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+}
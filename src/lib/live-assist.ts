@@ -0,0 +1,85 @@
+/**
+ * Cue detection for the live assist panel. Each finalized utterance of an
+ * ongoing call is checked for an objection or a question, which the panel
+ * turns into a rebuttal or knowledge base lookup, and for phrases that call
+ * for a compliance reminder. Everything here is keyword based so it runs in
+ * the browser on every utterance without a model call.
+ */
+import type { LiveAssistCue, SalesObjectionCategory } from '@/types';
+
+const OBJECTION_PATTERNS: { category: SalesObjectionCategory; pattern: RegExp }[] = [
+  { category: 'PRICE', pattern: /\b(too (expensive|costly|much)|expensive|costly|can'?t afford|cannot afford|out of (my )?budget|cheaper|price is (too )?high|lot of money)\b/i },
+  { category: 'TIME', pattern: /\b(i'?m busy|am busy|no time|don'?t have (the )?time|call (me )?(back )?later|not (right )?now|in a meeting)\b/i },
+  { category: 'COMPETITOR', pattern: /\b(already (have|use|subscribe|pay)|another (app|service|subscription)|for free (online|elsewhere)|free alternatives?)\b/i },
+  { category: 'TRUST', pattern: /\b(scam|fraud|don'?t trust|spam call|how do i know|is this (legit|genuine|real))\b/i },
+  { category: 'THINK_ABOUT_IT', pattern: /\b(think about it|let me think|get back to you|discuss (it )?with|ask my (wife|husband|family|partner)|not sure yet)\b/i },
+  { category: 'NEED', pattern: /\b(not interested|don'?t need|no need|not useful|not for me)\b/i },
+];
+
+const QUESTION_START = /^(what|how|why|when|where|which|who|is|are|can|could|do|does|did|will|would|should|may)\b/i;
+const MIN_QUESTION_WORDS = 3;
+
+/**
+ * The cue in an utterance, if any. An objection wins over a question, since
+ * "why is it so expensive?" needs a rebuttal more than a lookup.
+ */
+export function detectAssistCue(utterance: string): LiveAssistCue | null {
+  const text = utterance.trim();
+  if (!text) return null;
+  const objection = OBJECTION_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (objection) return { kind: 'OBJECTION', category: objection.category, utterance: text };
+  const words = text.split(/\s+/).length;
+  if (text.endsWith('?') || (QUESTION_START.test(text) && words >= MIN_QUESTION_WORDS)) {
+    return { kind: 'QUESTION', utterance: text };
+  }
+  return null;
+}
+
+/** Identifies a cue for de-duplication: one suggestion per objection category, one per distinct question. */
+export const assistCueKey = (cue: LiveAssistCue): string =>
+  cue.kind === 'OBJECTION'
+    ? `OBJECTION:${cue.category ?? 'OTHER'}`
+    : `QUESTION:${cue.utterance.toLowerCase().replace(/[^a-z0-9 ]/g, '').trim()}`;
+
+export interface ComplianceRule {
+  id: string;
+  reminder: string;
+  /** Rules without a pattern are shown when the call starts. */
+  pattern?: RegExp;
+}
+
+export const LIVE_ASSIST_COMPLIANCE_RULES: ComplianceRule[] = [
+  { id: 'recording-disclosure', reminder: 'Tell the customer the call is being recorded for quality and training.' },
+  {
+    id: 'price-terms',
+    reminder: 'State the full price, the billing period and whether the plan renews automatically.',
+    pattern: /\b(price|cost|plan|rupees|per (month|year)|annual|monthly|discount|offer)\b|₹/i,
+  },
+  {
+    id: 'no-guarantees',
+    reminder: 'Do not promise guaranteed returns, results or outcomes.',
+    pattern: /\b(guarantee[ds]?|assured returns?|sure ?shot|risk[- ]free|double your money)\b/i,
+  },
+  {
+    id: 'cancellation-policy',
+    reminder: 'Explain the cancellation and refund policy exactly as published.',
+    pattern: /\b(cancel(lation)?|refund|money back)\b/i,
+  },
+  {
+    id: 'payment-details',
+    reminder: 'Never ask for or repeat an OTP, CVV, PIN or full card number on the call.',
+    pattern: /\b(otp|cvv|pin|card number|password)\b/i,
+  },
+  {
+    id: 'do-not-call',
+    reminder: 'Honour the do-not-call request: confirm the number will be removed and end the pitch.',
+    pattern: /\b(don'?t call|stop calling|remove my number|do not call)\b/i,
+  },
+];
+
+/** Rules the utterance triggers that have not been shown on this call yet. */
+export function complianceRemindersFor(utterance: string, alreadyShown: ReadonlySet<string>): ComplianceRule[] {
+  return LIVE_ASSIST_COMPLIANCE_RULES.filter(
+    (rule) => rule.pattern && !alreadyShown.has(rule.id) && rule.pattern.test(utterance)
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Turns the free text the training deck flow writes for a section into
+ * blocks the builders can lay out: paragraphs, bullets (`-`, `*` or `•`
+ * lines) and the visual suggestions the model inlines as `(Visual: ...)`.
+ */
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+}
+
+export type ContentBlock =
+  | { kind: 'paragraph'; runs: TextRun[] }
+  | { kind: 'bullet'; level: 0 | 1; runs: TextRun[] }
+  | { kind: 'visual'; description: string };
+
+const BULLET_MARKER = /^(\s*)[-*•▪◦‣]\s+/;
+const VISUAL_SUGGESTION = /[([]\s*(?:visual|image|graphic|photo)(?:\s+suggestion)?\s*:\s*([^)\]]+)[)\]]/gi;
+
+/** Splits `**bold**` markdown into runs; other markdown is left as typed. */
+function parseRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const pattern = /\*\*(.+?)\*\*/g;
+  let last = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index) });
+    runs.push({ text: match[1], bold: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+export function parseSectionContent(content: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const visuals = [...rawLine.matchAll(VISUAL_SUGGESTION)].map((match) => match[1].trim());
+    const line = rawLine.replace(VISUAL_SUGGESTION, '').replace(/^\s*#{1,6}\s+/, '').trimEnd();
+    const bullet = BULLET_MARKER.exec(line);
+    const text = (bullet ? line.slice(bullet[0].length) : line).trim();
+    if (text) {
+      blocks.push(bullet ? { kind: 'bullet', level: bullet[1].length >= 2 ? 1 : 0, runs: parseRuns(text) } : { kind: 'paragraph', runs: parseRuns(text) });
+    }
+    blocks.push(...visuals.filter(Boolean).map((description): ContentBlock => ({ kind: 'visual', description })));
+  }
+  return blocks;
+}
+
+export const plainText = (runs: TextRun[]): string => runs.map((run) => run.text).join('');
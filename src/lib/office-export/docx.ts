@@ -0,0 +1,177 @@
+/**
+ * Builds a Word (.docx) package for training material. A document gets a
+ * title, a brand subtitle and one Heading 1 per section; a brochure is laid out
+ * as a landscape tri-fold, one panel per column, with each visual suggestion
+ * shown as a framed placeholder to drop the image into. The header, footer
+ * and heading colour carry the product's brand name.
+ */
+import JSZip from 'jszip';
+import { parseSectionContent, type ContentBlock, type TextRun } from './content';
+import {
+  RELATIONSHIP_TYPES,
+  XML_DECLARATION,
+  appPropertiesXml,
+  brandPalette,
+  contentTypesXml,
+  corePropertiesXml,
+  escapeXml,
+  packageRelationshipsXml,
+  relationshipsXml,
+  type BrandPalette,
+} from './ooxml';
+
+export interface DocumentSection {
+  title: string;
+  content: string;
+  notes?: string;
+}
+
+export interface WordDocumentSpec {
+  title: string;
+  productName: string;
+  brandName: string;
+  layout: 'document' | 'brochure';
+  sections: DocumentSection[];
+  /** Heading for the section notes, e.g. "Speaker Notes". */
+  notesLabel: string;
+}
+
+export const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+export const WML = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+export const runXml = ({ text, bold }: TextRun): string =>
+  `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+export const paragraphXml = (style: string | null, runs: string, properties = ''): string =>
+  `<w:p>${style || properties ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${properties}</w:pPr>` : ''}${runs}</w:p>`;
+
+const COLUMN_BREAK = '<w:r><w:br w:type="column"/></w:r>';
+
+function blockXml(block: ContentBlock): string {
+  if (block.kind === 'visual') {
+    return paragraphXml('VisualPlaceholder', runXml({ text: 'Image placeholder', bold: true }) + '<w:r><w:br/></w:r>' + runXml({ text: block.description }));
+  }
+  const runs = block.runs.map((run) => runXml(run)).join('');
+  if (block.kind === 'bullet') {
+    return paragraphXml('ListParagraph', runs, `<w:numPr><w:ilvl w:val="${block.level}"/><w:numId w:val="1"/></w:numPr>`);
+  }
+  return paragraphXml(null, runs);
+}
+
+function sectionXml(section: DocumentSection, spec: WordDocumentSpec, index: number): string {
+  const startsPanel = spec.layout === 'brochure' && index > 0;
+  const parts = [paragraphXml('Heading1', (startsPanel ? COLUMN_BREAK : '') + runXml({ text: section.title }))];
+  parts.push(...parseSectionContent(section.content).map(blockXml));
+  const notes = section.notes?.trim();
+  if (notes) {
+    parts.push(paragraphXml('NotesHeading', runXml({ text: spec.notesLabel })));
+    parts.push(...notes.split(/\r?\n/).filter((line) => line.trim()).map((line) => paragraphXml('Notes', runXml({ text: line.trim() }))));
+  }
+  return parts.join('');
+}
+
+function documentXml(spec: WordDocumentSpec): string {
+  const subtitle = spec.brandName === spec.productName ? spec.brandName : `${spec.brandName} | ${spec.productName}`;
+  const body = [
+    paragraphXml('Title', runXml({ text: spec.title })),
+    paragraphXml('Subtitle', runXml({ text: subtitle })),
+    ...spec.sections.map((section, index) => sectionXml(section, spec, index)),
+  ].join('');
+  // Letter size, in twentieths of a point; the brochure is landscape with three equal panels.
+  const page =
+    spec.layout === 'brochure'
+      ? '<w:pgSz w:w="15840" w:h="12240" w:orient="landscape"/><w:pgMar w:top="720" w:right="720" w:bottom="720" w:left="720" w:header="360" w:footer="360" w:gutter="0"/><w:cols w:num="3" w:space="720"/>'
+      : '<w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>';
+  return (
+    `${XML_DECLARATION}<w:document ${NS}><w:body>${body}` +
+    `<w:sectPr><w:headerReference w:type="default" r:id="rId4"/><w:footerReference w:type="default" r:id="rId5"/>${page}</w:sectPr>` +
+    '</w:body></w:document>'
+  );
+}
+
+function stylesXml(palette: BrandPalette, layout: WordDocumentSpec['layout']): string {
+  const rightTab = `<w:tabs><w:tab w:val="right" w:pos="${layout === 'brochure' ? 14400 : 9360}"/></w:tabs>`;
+  const style = (id: string, name: string, pPr: string, rPr: string, extra = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+  const border = (side: string) => `<w:${side} w:val="dashed" w:sz="8" w:space="8" w:color="${palette.muted}"/>`;
+  return (
+    `${XML_DECLARATION}<w:styles ${NS}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="${palette.dark}"/></w:rPr></w:style>` +
+    style('Title', 'Title', '<w:spacing w:after="60"/>', `<w:rFonts w:ascii="Calibri Light" w:hAnsi="Calibri Light"/><w:b/><w:color w:val="${palette.accent}"/><w:sz w:val="48"/><w:szCs w:val="48"/>`, '<w:next w:val="Normal"/>') +
+    style('Subtitle', 'Subtitle', `<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="${palette.accent}"/></w:pBdr><w:spacing w:after="240"/>`, `<w:color w:val="${palette.muted}"/><w:sz w:val="26"/><w:szCs w:val="26"/>`, '<w:next w:val="Normal"/>') +
+    style('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/>', `<w:rFonts w:ascii="Calibri Light" w:hAnsi="Calibri Light"/><w:b/><w:color w:val="${palette.accent}"/><w:sz w:val="30"/><w:szCs w:val="30"/>`, '<w:next w:val="Normal"/>') +
+    style('ListParagraph', 'List Paragraph', '<w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/>', '') +
+    style('NotesHeading', 'Notes Heading', '<w:keepNext/><w:spacing w:before="120" w:after="40"/>', `<w:b/><w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    style('Notes', 'Notes', `<w:shd w:val="clear" w:color="auto" w:fill="${palette.light}"/><w:spacing w:after="40"/>`, `<w:i/><w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    style(
+      'VisualPlaceholder',
+      'Visual Placeholder',
+      `<w:keepLines/><w:pBdr>${['top', 'left', 'bottom', 'right'].map(border).join('')}</w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="${palette.light}"/><w:spacing w:before="360" w:after="360"/><w:ind w:left="160" w:right="160"/><w:jc w:val="center"/>`,
+      `<w:i/><w:color w:val="${palette.muted}"/><w:sz w:val="20"/><w:szCs w:val="20"/>`
+    ) +
+    style('Header', 'header', `${rightTab}<w:spacing w:after="0"/>`, `<w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    style('Footer', 'footer', `${rightTab}<w:spacing w:after="0"/>`, `<w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    '</w:styles>'
+  );
+}
+
+const NUMBERING_XML =
+  `${XML_DECLARATION}<w:numbering ${NS}><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>` +
+  [['•', 720], ['◦', 1440]]
+    .map(([text, indent], level) =>
+      `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/></w:rPr></w:lvl>`
+    )
+    .join('') +
+  '</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>';
+
+const SETTINGS_XML = `${XML_DECLARATION}<w:settings ${NS}><w:defaultTabStop w:val="720"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`;
+
+const headerXml = (spec: WordDocumentSpec): string =>
+  `${XML_DECLARATION}<w:hdr ${NS}>${paragraphXml('Header', runXml({ text: spec.brandName, bold: true }) + '<w:r><w:tab/></w:r>' + runXml({ text: spec.productName }))}</w:hdr>`;
+
+const footerXml = (spec: WordDocumentSpec): string =>
+  `${XML_DECLARATION}<w:ftr ${NS}>${paragraphXml(
+    'Footer',
+    runXml({ text: `${spec.brandName} | ${spec.title}` }) +
+      '<w:r><w:tab/></w:r><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+      '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>'
+  )}</w:ftr>`;
+
+export function buildWordDocument(spec: WordDocumentSpec): JSZip {
+  const palette = brandPalette(spec.brandName);
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    contentTypesXml([
+      { partName: '/word/document.xml', contentType: `${WML}.document.main+xml` },
+      { partName: '/word/styles.xml', contentType: `${WML}.styles+xml` },
+      { partName: '/word/numbering.xml', contentType: `${WML}.numbering+xml` },
+      { partName: '/word/settings.xml', contentType: `${WML}.settings+xml` },
+      { partName: '/word/header1.xml', contentType: `${WML}.header+xml` },
+      { partName: '/word/footer1.xml', contentType: `${WML}.footer+xml` },
+    ])
+  );
+  zip.file('_rels/.rels', packageRelationshipsXml('word/document.xml'));
+  const properties = { title: spec.title, subject: spec.productName, brandName: spec.brandName };
+  zip.file('docProps/core.xml', corePropertiesXml(properties));
+  zip.file('docProps/app.xml', appPropertiesXml(properties));
+  zip.file(
+    'word/_rels/document.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' },
+      { id: 'rId3', type: RELATIONSHIP_TYPES.settings, target: 'settings.xml' },
+      { id: 'rId4', type: RELATIONSHIP_TYPES.header, target: 'header1.xml' },
+      { id: 'rId5', type: RELATIONSHIP_TYPES.footer, target: 'footer1.xml' },
+    ])
+  );
+  zip.file('word/document.xml', documentXml(spec));
+  zip.file('word/styles.xml', stylesXml(palette, spec.layout));
+  zip.file('word/numbering.xml', NUMBERING_XML);
+  zip.file('word/settings.xml', SETTINGS_XML);
+  zip.file('word/header1.xml', headerXml(spec));
+  zip.file('word/footer1.xml', footerXml(spec));
+  return zip;
+}
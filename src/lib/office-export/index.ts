@@ -0,0 +1,51 @@
+/**
+ * Native Office files for generated training material. Decks become .pptx
+ * (one slide per section, notes as speaker notes), documents and brochures
+ * become .docx. Call transcripts are exported as .docx too (see
+ * `src/lib/transcript/export.ts`). Packages are assembled with JSZip, so this
+ * runs in the browser.
+ */
+import type { GenerateTrainingDeckOutput } from '@/types';
+import { buildWordDocument } from './docx';
+import { buildPresentation } from './pptx';
+
+export { buildPresentation, type PresentationSpec } from './pptx';
+export { buildWordDocument, type WordDocumentSpec } from './docx';
+export { buildTranscriptDocument, type TranscriptDocumentLine, type TranscriptDocumentSpec } from './transcript-docx';
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export type TrainingMaterialOfficeFormat = 'PPT' | 'Word Doc' | 'Brochure';
+
+export interface TrainingMaterialOfficeOptions {
+  format: TrainingMaterialOfficeFormat;
+  productName: string;
+  /** Falls back to the product name when the product has no brand name. */
+  brandName?: string;
+}
+
+export interface OfficeFile {
+  blob: Blob;
+  extension: 'pptx' | 'docx';
+}
+
+export async function createTrainingMaterialOfficeFile(
+  material: GenerateTrainingDeckOutput,
+  { format, productName, brandName }: TrainingMaterialOfficeOptions
+): Promise<OfficeFile> {
+  const brand = brandName?.trim() || productName;
+  if (format === 'PPT') {
+    const zip = buildPresentation({ title: material.deckTitle, productName, brandName: brand, slides: material.sections });
+    return { blob: await zip.generateAsync({ type: 'blob', mimeType: PPTX_MIME_TYPE, compression: 'DEFLATE' }), extension: 'pptx' };
+  }
+  const zip = buildWordDocument({
+    title: material.deckTitle,
+    productName,
+    brandName: brand,
+    layout: format === 'Brochure' ? 'brochure' : 'document',
+    sections: material.sections,
+    notesLabel: format === 'Brochure' ? 'Internal Notes/Suggestions' : 'Speaker Notes',
+  });
+  return { blob: await zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' }), extension: 'docx' };
+}
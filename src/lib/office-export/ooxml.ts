@@ -0,0 +1,102 @@
+/**
+ * Package parts shared by the PPTX and DOCX builders: XML escaping,
+ * relationship and document property parts, and the brand colours.
+ */
+
+export const RELATIONSHIP_TYPES = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+  theme: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme',
+  slide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide',
+  slideLayout: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout',
+  slideMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideMaster',
+  notesMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesMaster',
+  notesSlide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide',
+  presProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/presProps',
+  viewProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/viewProps',
+  tableStyles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/tableStyles',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  settings: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings',
+  header: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header',
+  footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer',
+} as const;
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Escapes text for element content and attributes, dropping characters XML 1.0 does not allow. */
+export function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+export const relationshipsXml = (relationships: Relationship[]): string =>
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships
+    .map((rel) => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+    .join('')}</Relationships>`;
+
+/** `[Content_Types].xml` with the defaults every package needs plus one override per part. */
+export const contentTypesXml = (overrides: Array<{ partName: string; contentType: string }>): string =>
+  `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>' +
+  overrides.map((part) => `<Override PartName="${part.partName}" ContentType="${part.contentType}"/>`).join('') +
+  '</Types>';
+
+export const packageRelationshipsXml = (mainPart: string): string =>
+  relationshipsXml([
+    { id: 'rId1', type: RELATIONSHIP_TYPES.officeDocument, target: mainPart },
+    { id: 'rId2', type: RELATIONSHIP_TYPES.coreProperties, target: 'docProps/core.xml' },
+    { id: 'rId3', type: RELATIONSHIP_TYPES.extendedProperties, target: 'docProps/app.xml' },
+  ]);
+
+export interface DocumentProperties {
+  title: string;
+  subject: string;
+  brandName: string;
+}
+
+export function corePropertiesXml({ title, subject, brandName }: DocumentProperties): string {
+  const created = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return (
+    `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:subject>${escapeXml(subject)}</dc:subject><dc:creator>${escapeXml(brandName)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>` +
+    '</cp:coreProperties>'
+  );
+}
+
+export const appPropertiesXml = ({ brandName }: DocumentProperties): string =>
+  `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+  `<Application>AI_TeleSuite</Application><Company>${escapeXml(brandName)}</Company></Properties>`;
+
+/** Accent colours a brand can be given; the same brand always gets the same one. */
+const BRAND_ACCENTS = ['1D4ED8', '0F766E', '7C3AED', 'B45309', 'BE123C', '0369A1'];
+
+export interface BrandPalette {
+  accent: string;
+  dark: string;
+  light: string;
+  muted: string;
+}
+
+export function brandPalette(brandName: string): BrandPalette {
+  let hash = 0;
+  for (const char of brandName) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return { accent: BRAND_ACCENTS[hash % BRAND_ACCENTS.length], dark: '1F2937', light: 'F3F4F6', muted: '6B7280' };
+}
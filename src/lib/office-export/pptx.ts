@@ -0,0 +1,377 @@
+/**
+ * Builds a PowerPoint (.pptx) package for a training deck: a title slide,
+ * then one slide per section with the section title, its content as
+ * bullets and its notes as speaker notes. The theme, footer and accent
+ * colour carry the product's brand name.
+ */
+import JSZip from 'jszip';
+import { parseSectionContent, plainText, type ContentBlock, type TextRun } from './content';
+import {
+  RELATIONSHIP_TYPES,
+  XML_DECLARATION,
+  appPropertiesXml,
+  brandPalette,
+  contentTypesXml,
+  corePropertiesXml,
+  escapeXml,
+  packageRelationshipsXml,
+  relationshipsXml,
+  type BrandPalette,
+} from './ooxml';
+
+export interface DeckSlide {
+  title: string;
+  content: string;
+  notes?: string;
+}
+
+export interface PresentationSpec {
+  title: string;
+  productName: string;
+  brandName: string;
+  slides: DeckSlide[];
+}
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const PML = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+/** 16:9, in EMU (914400 per inch). */
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 457200;
+const CONTENT_WIDTH = SLIDE_WIDTH - 2 * MARGIN;
+const VISUAL_WIDTH = 3749040;
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+const xfrm = ({ x, y, cx, cy }: Box): string => `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`;
+
+const GROUP_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const spTree = (shapes: string[]): string => `<p:spTree>${GROUP_HEADER}${shapes.join('')}</p:spTree>`;
+
+interface ShapeOptions {
+  id: number;
+  name: string;
+  /** `<p:ph .../>` attributes, for placeholders. */
+  placeholder?: string;
+  box?: Box;
+  fill?: string;
+  outline?: string;
+  dashed?: boolean;
+  anchor?: 't' | 'ctr' | 'b';
+  paragraphs?: string[];
+}
+
+function shape({ id, name, placeholder, box, fill, outline, dashed, anchor, paragraphs }: ShapeOptions): string {
+  const nvPr = placeholder ? `<p:nvPr><p:ph ${placeholder}/></p:nvPr>` : '<p:nvPr/>';
+  const locks = placeholder ? '<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' : '<p:cNvSpPr txBox="1"/>';
+  const geometry = box && !placeholder ? '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>' : '';
+  const fillXml = fill ? `<a:solidFill><a:srgbClr val="${fill}"/></a:solidFill>` : box && !placeholder ? '<a:noFill/>' : '';
+  const lineXml = outline
+    ? `<a:ln w="19050"><a:solidFill><a:srgbClr val="${outline}"/></a:solidFill>${dashed ? '<a:prstDash val="dash"/>' : ''}</a:ln>`
+    : '';
+  const body = paragraphs
+    ? `<p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720"${anchor ? ` anchor="${anchor}"` : ''}><a:normAutofit/></a:bodyPr><a:lstStyle/>${
+        paragraphs.length > 0 ? paragraphs.join('') : '<a:p><a:endParaRPr lang="en-US"/></a:p>'
+      }</p:txBody>`
+    : '';
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/>${locks}${nvPr}</p:nvSpPr><p:spPr>${box ? xfrm(box) : ''}${geometry}${fillXml}${lineXml}</p:spPr>${body}</p:sp>`;
+}
+
+interface RunStyle {
+  size: number;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+const runXml = (run: TextRun, style: RunStyle): string =>
+  `<a:r><a:rPr lang="en-US" sz="${style.size}"${run.bold || style.bold ? ' b="1"' : ''}${style.italic ? ' i="1"' : ''} dirty="0">${
+    style.color ? `<a:solidFill><a:srgbClr val="${style.color}"/></a:solidFill>` : ''
+  }</a:rPr><a:t>${escapeXml(run.text)}</a:t></a:r>`;
+
+function paragraphXml(runs: TextRun[], style: RunStyle, options: { bullet?: 0 | 1; align?: 'l' | 'ctr' } = {}): string {
+  const pPr =
+    options.bullet !== undefined
+      ? `<a:pPr marL="${342900 + options.bullet * 457200}" indent="-342900"${options.bullet ? ' lvl="1"' : ''}><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buFont typeface="Arial"/><a:buChar char="${options.bullet ? '–' : '•'}"/></a:pPr>`
+      : `<a:pPr marL="0" indent="0"${options.align ? ` algn="${options.align}"` : ''}><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buNone/></a:pPr>`;
+  return `<a:p>${pPr}${runs.map((run) => runXml(run, style)).join('')}</a:p>`;
+}
+
+/** Smaller type for longer slides, so the body fits without relying on autofit. */
+function bodySize(blocks: ContentBlock[]): number {
+  const characters = blocks.reduce((total, block) => total + (block.kind === 'visual' ? 0 : plainText(block.runs).length), 0);
+  const lines = blocks.filter((block) => block.kind !== 'visual').length;
+  if (characters > 900 || lines > 12) return 1400;
+  if (characters > 500 || lines > 8) return 1600;
+  return 2000;
+}
+
+function contentSlideXml(slide: DeckSlide, palette: BrandPalette): string {
+  const blocks = parseSectionContent(slide.content);
+  const visuals = blocks.filter((block): block is Extract<ContentBlock, { kind: 'visual' }> => block.kind === 'visual');
+  const size = bodySize(blocks);
+  const paragraphs = blocks.flatMap((block) =>
+    block.kind === 'visual' ? [] : [paragraphXml(block.runs, { size, color: palette.dark }, block.kind === 'bullet' ? { bullet: block.level } : {})]
+  );
+  const bodyTop = 1463040;
+  const bodyHeight = SLIDE_HEIGHT - bodyTop - 822960;
+  const shapes = [
+    shape({
+      id: 2,
+      name: 'Title 1',
+      placeholder: 'type="title"',
+      box: { x: MARGIN, y: 365760, cx: CONTENT_WIDTH, cy: 1005840 },
+      anchor: 'b',
+      paragraphs: [paragraphXml([{ text: slide.title }], { size: 3200, bold: true, color: palette.accent })],
+    }),
+    shape({
+      id: 3,
+      name: 'Content Placeholder 2',
+      placeholder: 'idx="1"',
+      box: { x: MARGIN, y: bodyTop, cx: visuals.length ? CONTENT_WIDTH - VISUAL_WIDTH - MARGIN / 2 : CONTENT_WIDTH, cy: bodyHeight },
+      anchor: 't',
+      paragraphs,
+    }),
+  ];
+  if (visuals.length) {
+    shapes.push(
+      shape({
+        id: 4,
+        name: 'Visual Placeholder',
+        box: { x: SLIDE_WIDTH - MARGIN - VISUAL_WIDTH, y: bodyTop, cx: VISUAL_WIDTH, cy: Math.min(bodyHeight, 3200400) },
+        fill: palette.light,
+        outline: palette.muted,
+        dashed: true,
+        anchor: 'ctr',
+        paragraphs: [
+          paragraphXml([{ text: 'Visual' }], { size: 1400, bold: true, color: palette.muted }, { align: 'ctr' }),
+          ...visuals.map((visual) => paragraphXml([{ text: visual.description }], { size: 1200, italic: true, color: palette.muted }, { align: 'ctr' })),
+        ],
+      })
+    );
+  }
+  return `${XML_DECLARATION}<p:sld ${NS}><p:cSld>${spTree(shapes)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+function titleSlideXml(spec: PresentationSpec, palette: BrandPalette): string {
+  const subtitle = spec.brandName === spec.productName ? spec.brandName : `${spec.brandName} | ${spec.productName}`;
+  const shapes = [
+    shape({
+      id: 2,
+      name: 'Title 1',
+      placeholder: 'type="ctrTitle"',
+      box: { x: MARGIN * 2, y: 2057400, cx: SLIDE_WIDTH - MARGIN * 4, cy: 1600200 },
+      anchor: 'b',
+      paragraphs: [paragraphXml([{ text: spec.title }], { size: 4000, bold: true, color: palette.accent }, { align: 'ctr' })],
+    }),
+    shape({
+      id: 3,
+      name: 'Subtitle 2',
+      placeholder: 'type="subTitle" idx="1"',
+      box: { x: MARGIN * 2, y: 3749040, cx: SLIDE_WIDTH - MARGIN * 4, cy: 914400 },
+      anchor: 't',
+      paragraphs: [paragraphXml([{ text: subtitle }], { size: 2000, color: palette.muted }, { align: 'ctr' })],
+    }),
+  ];
+  return `${XML_DECLARATION}<p:sld ${NS}><p:cSld>${spTree(shapes)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+function notesSlideXml(notes: string): string {
+  const paragraphs = notes
+    .split(/\r?\n/)
+    .map((line) => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`);
+  const shapes = [
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>',
+    `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs.join('')}</p:txBody></p:sp>`,
+  ];
+  return `${XML_DECLARATION}<p:notes ${NS}><p:cSld>${spTree(shapes)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+}
+
+function themeXml(name: string, palette: BrandPalette): string {
+  const accents = [palette.accent, '0EA5E9', '10B981', 'F59E0B', 'EF4444', '8B5CF6'];
+  const phFill = (modifier = '') => `<a:solidFill><a:schemeClr val="phClr">${modifier}</a:schemeClr></a:solidFill>`;
+  const line = (width: number) => `<a:ln w="${width}" cap="flat" cmpd="sng" algn="ctr">${phFill()}<a:prstDash val="solid"/></a:ln>`;
+  return (
+    `${XML_DECLARATION}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="${escapeXml(name)}"><a:themeElements>` +
+    `<a:clrScheme name="${escapeXml(name)}">` +
+    '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>' +
+    `<a:dk2><a:srgbClr val="${palette.dark}"/></a:dk2><a:lt2><a:srgbClr val="${palette.light}"/></a:lt2>` +
+    accents.map((color, index) => `<a:accent${index + 1}><a:srgbClr val="${color}"/></a:accent${index + 1}>`).join('') +
+    '<a:hlink><a:srgbClr val="0563C1"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink></a:clrScheme>' +
+    `<a:fontScheme name="${escapeXml(name)}">` +
+    '<a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+    '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+    `<a:fmtScheme name="${escapeXml(name)}">` +
+    `<a:fillStyleLst>${phFill()}${phFill('<a:tint val="50000"/>')}${phFill('<a:shade val="80000"/>')}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>` +
+    '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+    `<a:bgFillStyleLst>${phFill()}${phFill('<a:tint val="95000"/>')}${phFill('<a:shade val="90000"/>')}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>'
+  );
+}
+
+const CLR_MAP =
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+const textStyle = (tag: string, size: number, color: string): string =>
+  `<p:${tag}><a:lvl1pPr><a:defRPr sz="${size}"><a:solidFill><a:schemeClr val="${color}"/></a:solidFill><a:latin typeface="+${tag === 'titleStyle' ? 'mj' : 'mn'}-lt"/></a:defRPr></a:lvl1pPr></p:${tag}>`;
+
+/** The accent band across the top and the brand footer and slide number at the bottom appear on every slide. */
+function slideMasterXml(brandName: string, title: string): string {
+  const footerY = SLIDE_HEIGHT - 502920;
+  const shapes = [
+    shape({ id: 2, name: 'Title Placeholder 1', placeholder: 'type="title"', box: { x: MARGIN, y: 365760, cx: CONTENT_WIDTH, cy: 1005840 } }),
+    shape({ id: 3, name: 'Text Placeholder 2', placeholder: 'type="body" idx="1"', box: { x: MARGIN, y: 1463040, cx: CONTENT_WIDTH, cy: 4572000 } }),
+    `<p:sp><p:nvSpPr><p:cNvPr id="4" name="Brand Band"/><p:cNvSpPr/><p:nvPr userDrawn="1"/></p:nvSpPr><p:spPr>${xfrm({ x: 0, y: 0, cx: SLIDE_WIDTH, cy: 137160 })}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill><a:schemeClr val="accent1"/></a:solidFill><a:ln><a:noFill/></a:ln></p:spPr></p:sp>`,
+    shape({
+      id: 5,
+      name: 'Brand Footer',
+      box: { x: MARGIN, y: footerY, cx: CONTENT_WIDTH - 1371600, cy: 320040 },
+      anchor: 'ctr',
+      paragraphs: [paragraphXml([{ text: brandName, bold: true }, { text: `  |  ${title}` }], { size: 1100, color: '6B7280' })],
+    }),
+    `<p:sp><p:nvSpPr><p:cNvPr id="6" name="Slide Number"/><p:cNvSpPr txBox="1"/><p:nvPr userDrawn="1"/></p:nvSpPr><p:spPr>${xfrm({ x: SLIDE_WIDTH - MARGIN - 1188720, y: footerY, cx: 1188720, cy: 320040 })}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+      '<p:txBody><a:bodyPr anchor="ctr"/><a:lstStyle/><a:p><a:pPr algn="r"/><a:fld id="{B6F15528-21DE-4FAA-801E-634DDDAF4B2B}" type="slidenum"><a:rPr lang="en-US" sz="1100"><a:solidFill><a:srgbClr val="6B7280"/></a:solidFill></a:rPr><a:t>‹#›</a:t></a:fld><a:endParaRPr lang="en-US" sz="1100"/></a:p></p:txBody></p:sp>',
+  ];
+  return (
+    `${XML_DECLARATION}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${spTree(shapes)}</p:cSld>${CLR_MAP}` +
+    '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/><p:sldLayoutId id="2147483650" r:id="rId2"/></p:sldLayoutIdLst>' +
+    `<p:txStyles>${textStyle('titleStyle', 3200, 'accent1')}${textStyle('bodyStyle', 2000, 'tx2')}${textStyle('otherStyle', 1800, 'tx1')}</p:txStyles></p:sldMaster>`
+  );
+}
+
+function slideLayoutXml(kind: 'title' | 'content'): string {
+  const shapes =
+    kind === 'title'
+      ? [shape({ id: 2, name: 'Title 1', placeholder: 'type="ctrTitle"' }), shape({ id: 3, name: 'Subtitle 2', placeholder: 'type="subTitle" idx="1"' })]
+      : [shape({ id: 2, name: 'Title 1', placeholder: 'type="title"' }), shape({ id: 3, name: 'Content Placeholder 2', placeholder: 'idx="1"' })];
+  const attributes = kind === 'title' ? 'type="title" preserve="1"' : 'type="obj" preserve="1"';
+  const name = kind === 'title' ? 'Title Slide' : 'Title and Content';
+  return `${XML_DECLARATION}<p:sldLayout ${NS} ${attributes}><p:cSld name="${name}">${spTree(shapes)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+}
+
+function notesMasterXml(): string {
+  const shapes = [
+    `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm({ x: 685800, y: 1143000, cx: 5486400, cy: 3086100 })}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/><a:ln w="12700"><a:solidFill><a:prstClr val="black"/></a:solidFill></a:ln></p:spPr></p:sp>`,
+    `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm({ x: 685800, y: 4400550, cx: 5486400, cy: 3600450 })}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>`,
+  ];
+  return `${XML_DECLARATION}<p:notesMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${spTree(shapes)}</p:cSld>${CLR_MAP}</p:notesMaster>`;
+}
+
+export function buildPresentation(spec: PresentationSpec): JSZip {
+  const palette = brandPalette(spec.brandName);
+  const themeName = `${spec.brandName} Theme`;
+  const zip = new JSZip();
+  const slideCount = spec.slides.length + 1;
+  const slideNumbers = Array.from({ length: slideCount }, (_, index) => index + 1);
+
+  zip.file(
+    '[Content_Types].xml',
+    contentTypesXml([
+      { partName: '/ppt/presentation.xml', contentType: `${PML}.presentation.main+xml` },
+      { partName: '/ppt/slideMasters/slideMaster1.xml', contentType: `${PML}.slideMaster+xml` },
+      { partName: '/ppt/slideLayouts/slideLayout1.xml', contentType: `${PML}.slideLayout+xml` },
+      { partName: '/ppt/slideLayouts/slideLayout2.xml', contentType: `${PML}.slideLayout+xml` },
+      { partName: '/ppt/notesMasters/notesMaster1.xml', contentType: `${PML}.notesMaster+xml` },
+      { partName: '/ppt/theme/theme1.xml', contentType: 'application/vnd.openxmlformats-officedocument.theme+xml' },
+      { partName: '/ppt/theme/theme2.xml', contentType: 'application/vnd.openxmlformats-officedocument.theme+xml' },
+      { partName: '/ppt/presProps.xml', contentType: `${PML}.presProps+xml` },
+      { partName: '/ppt/viewProps.xml', contentType: `${PML}.viewProps+xml` },
+      { partName: '/ppt/tableStyles.xml', contentType: `${PML}.tableStyles+xml` },
+      ...slideNumbers.flatMap((number) => [
+        { partName: `/ppt/slides/slide${number}.xml`, contentType: `${PML}.slide+xml` },
+        { partName: `/ppt/notesSlides/notesSlide${number}.xml`, contentType: `${PML}.notesSlide+xml` },
+      ]),
+    ])
+  );
+  zip.file('_rels/.rels', packageRelationshipsXml('ppt/presentation.xml'));
+  const properties = { title: spec.title, subject: spec.productName, brandName: spec.brandName };
+  zip.file('docProps/core.xml', corePropertiesXml(properties));
+  zip.file('docProps/app.xml', appPropertiesXml(properties));
+
+  // rId1 master, rId2 notes master, rId3-5 properties, rId6 theme, then one per slide.
+  zip.file(
+    'ppt/_rels/presentation.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.notesMaster, target: 'notesMasters/notesMaster1.xml' },
+      { id: 'rId3', type: RELATIONSHIP_TYPES.presProps, target: 'presProps.xml' },
+      { id: 'rId4', type: RELATIONSHIP_TYPES.viewProps, target: 'viewProps.xml' },
+      { id: 'rId5', type: RELATIONSHIP_TYPES.tableStyles, target: 'tableStyles.xml' },
+      { id: 'rId6', type: RELATIONSHIP_TYPES.theme, target: 'theme/theme1.xml' },
+      ...slideNumbers.map((number) => ({ id: `rId${number + 6}`, type: RELATIONSHIP_TYPES.slide, target: `slides/slide${number}.xml` })),
+    ])
+  );
+  zip.file(
+    'ppt/presentation.xml',
+    `${XML_DECLARATION}<p:presentation ${NS} saveSubsetFonts="1">` +
+      '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+      '<p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>' +
+      `<p:sldIdLst>${slideNumbers.map((number) => `<p:sldId id="${255 + number}" r:id="rId${number + 6}"/>`).join('')}</p:sldIdLst>` +
+      `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+      '<p:defaultTextStyle><a:lvl1pPr><a:defRPr lang="en-US"/></a:lvl1pPr></p:defaultTextStyle></p:presentation>'
+  );
+  zip.file('ppt/presProps.xml', `${XML_DECLARATION}<p:presentationPr ${NS}/>`);
+  zip.file(
+    'ppt/viewProps.xml',
+    `${XML_DECLARATION}<p:viewPr ${NS}><p:normalViewPr><p:restoredLeft sz="15620"/><p:restoredTop sz="94660"/></p:normalViewPr><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>`
+  );
+  zip.file(
+    'ppt/tableStyles.xml',
+    `${XML_DECLARATION}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`
+  );
+  zip.file('ppt/theme/theme1.xml', themeXml(themeName, palette));
+  zip.file('ppt/theme/theme2.xml', themeXml(`${themeName} Notes`, palette));
+
+  zip.file('ppt/slideMasters/slideMaster1.xml', slideMasterXml(spec.brandName, spec.title));
+  zip.file(
+    'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.slideLayout, target: '../slideLayouts/slideLayout2.xml' },
+      { id: 'rId3', type: RELATIONSHIP_TYPES.theme, target: '../theme/theme1.xml' },
+    ])
+  );
+  for (const [number, kind] of [[1, 'title'], [2, 'content']] as const) {
+    zip.file(`ppt/slideLayouts/slideLayout${number}.xml`, slideLayoutXml(kind));
+    zip.file(
+      `ppt/slideLayouts/_rels/slideLayout${number}.xml.rels`,
+      relationshipsXml([{ id: 'rId1', type: RELATIONSHIP_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' }])
+    );
+  }
+  zip.file('ppt/notesMasters/notesMaster1.xml', notesMasterXml());
+  zip.file(
+    'ppt/notesMasters/_rels/notesMaster1.xml.rels',
+    relationshipsXml([{ id: 'rId1', type: RELATIONSHIP_TYPES.theme, target: '../theme/theme2.xml' }])
+  );
+
+  for (const number of slideNumbers) {
+    const slide = number === 1 ? undefined : spec.slides[number - 2];
+    zip.file(`ppt/slides/slide${number}.xml`, slide ? contentSlideXml(slide, palette) : titleSlideXml(spec, palette));
+    zip.file(
+      `ppt/slides/_rels/slide${number}.xml.rels`,
+      relationshipsXml([
+        { id: 'rId1', type: RELATIONSHIP_TYPES.slideLayout, target: `../slideLayouts/slideLayout${slide ? 2 : 1}.xml` },
+        { id: 'rId2', type: RELATIONSHIP_TYPES.notesSlide, target: `../notesSlides/notesSlide${number}.xml` },
+      ])
+    );
+    zip.file(`ppt/notesSlides/notesSlide${number}.xml`, notesSlideXml(slide?.notes?.trim() || ''));
+    zip.file(
+      `ppt/notesSlides/_rels/notesSlide${number}.xml.rels`,
+      relationshipsXml([
+        { id: 'rId1', type: RELATIONSHIP_TYPES.notesMaster, target: '../notesMasters/notesMaster1.xml' },
+        { id: 'rId2', type: RELATIONSHIP_TYPES.slide, target: `../slides/slide${number}.xml` },
+      ])
+    );
+  }
+  return zip;
+}
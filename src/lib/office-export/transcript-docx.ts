@@ -0,0 +1,166 @@
+/**
+ * Builds a Word (.docx) package for a call transcript: a title, a call summary
+ * header (call details, overview, key points and action items), then one
+ * paragraph per turn with its timestamp and speaker. System events such as
+ * IVR prompts, hold and ringing are set in italics, and the pre-call part of
+ * the recording gets its own heading when it is included.
+ */
+import JSZip from 'jszip';
+import { NS, WML, paragraphXml, runXml } from './docx';
+import {
+  RELATIONSHIP_TYPES,
+  XML_DECLARATION,
+  appPropertiesXml,
+  brandPalette,
+  contentTypesXml,
+  corePropertiesXml,
+  escapeXml,
+  packageRelationshipsXml,
+  relationshipsXml,
+  type BrandPalette,
+} from './ooxml';
+
+export interface TranscriptDocumentLine {
+  /** e.g. "00:01:05" */
+  time: string;
+  /** e.g. "Agent (Riya)" or "IVR" */
+  speaker: string;
+  text: string;
+  role: 'agent' | 'customer' | 'event';
+}
+
+export interface TranscriptDocumentSpec {
+  title: string;
+  /** Shown under the title, e.g. the recording's file name. */
+  subtitle?: string;
+  details: Array<{ label: string; value: string }>;
+  summary?: { overview?: string; keyPoints?: string[]; actions?: string[] };
+  sections: Array<{ heading?: string; lines: TranscriptDocumentLine[] }>;
+}
+
+/** Transcripts are not product material, so they carry the app's name and colours. */
+const APP_BRAND = 'AI-TeleSuite';
+
+const styledRunXml = (text: string, style: string): string =>
+  `<w:r><w:rPr><w:rStyle w:val="${style}"/></w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const SPEAKER_STYLES: Record<TranscriptDocumentLine['role'], string> = {
+  agent: 'AgentSpeaker',
+  customer: 'CustomerSpeaker',
+  event: 'EventSpeaker',
+};
+
+function lineXml(line: TranscriptDocumentLine): string {
+  return paragraphXml(
+    line.role === 'event' ? 'Event' : 'Turn',
+    styledRunXml(`[${line.time}]`, 'Timestamp') +
+      '<w:r><w:tab/></w:r>' +
+      styledRunXml(`${line.speaker}: `, SPEAKER_STYLES[line.role]) +
+      runXml({ text: line.text })
+  );
+}
+
+function summaryXml(spec: TranscriptDocumentSpec): string {
+  const parts = [paragraphXml('Heading1', runXml({ text: 'Call Summary' }))];
+  parts.push(...spec.details.map(({ label, value }) => paragraphXml('Detail', runXml({ text: `${label}: `, bold: true }) + runXml({ text: value }))));
+  const overview = spec.summary?.overview?.trim();
+  if (overview) parts.push(paragraphXml(null, runXml({ text: overview })));
+  const lists: Array<[string, string[] | undefined]> = [
+    ['Key Points', spec.summary?.keyPoints],
+    ['Action Items', spec.summary?.actions],
+  ];
+  for (const [heading, items] of lists) {
+    const entries = (items ?? []).map((item) => item.trim()).filter(Boolean);
+    if (entries.length === 0) continue;
+    parts.push(paragraphXml('Heading2', runXml({ text: heading })));
+    parts.push(...entries.map((item) => paragraphXml('SummaryItem', runXml({ text: `•\t${item}` }))));
+  }
+  return parts.join('');
+}
+
+function documentXml(spec: TranscriptDocumentSpec): string {
+  const body = [
+    paragraphXml('Title', runXml({ text: spec.title })),
+    spec.subtitle ? paragraphXml('Subtitle', runXml({ text: spec.subtitle })) : '',
+    summaryXml(spec),
+    paragraphXml('Heading1', runXml({ text: 'Transcript' })),
+    ...spec.sections.map(
+      (section) => (section.heading ? paragraphXml('Heading2', runXml({ text: section.heading })) : '') + section.lines.map(lineXml).join('')
+    ),
+  ].join('');
+  return (
+    `${XML_DECLARATION}<w:document ${NS}><w:body>${body}` +
+    '<w:sectPr><w:footerReference w:type="default" r:id="rId3"/><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>'
+  );
+}
+
+function stylesXml(palette: BrandPalette): string {
+  const style = (id: string, name: string, pPr: string, rPr: string, extra = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+  const characterStyle = (id: string, name: string, rPr: string) =>
+    `<w:style w:type="character" w:styleId="${id}"><w:name w:val="${name}"/><w:rPr>${rPr}</w:rPr></w:style>`;
+  // The timestamp column is 1.1 inches wide, and wrapped lines of a turn start under its text.
+  const turnIndent = '<w:tabs><w:tab w:val="left" w:pos="1584"/></w:tabs><w:spacing w:after="100"/><w:ind w:left="1584" w:hanging="1584"/>';
+  return (
+    `${XML_DECLARATION}<w:styles ${NS}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="${palette.dark}"/></w:rPr></w:style>` +
+    style('Title', 'Title', '<w:spacing w:after="60"/>', `<w:rFonts w:ascii="Calibri Light" w:hAnsi="Calibri Light"/><w:b/><w:color w:val="${palette.accent}"/><w:sz w:val="44"/><w:szCs w:val="44"/>`, '<w:next w:val="Normal"/>') +
+    style('Subtitle', 'Subtitle', `<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="${palette.accent}"/></w:pBdr><w:spacing w:after="240"/>`, `<w:color w:val="${palette.muted}"/><w:sz w:val="24"/><w:szCs w:val="24"/>`, '<w:next w:val="Normal"/>') +
+    style('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/>', `<w:rFonts w:ascii="Calibri Light" w:hAnsi="Calibri Light"/><w:b/><w:color w:val="${palette.accent}"/><w:sz w:val="30"/><w:szCs w:val="30"/>`, '<w:next w:val="Normal"/>') +
+    style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/>', `<w:b/><w:color w:val="${palette.muted}"/><w:sz w:val="24"/><w:szCs w:val="24"/>`, '<w:next w:val="Normal"/>') +
+    style('Detail', 'Call Detail', '<w:spacing w:after="40"/>', '') +
+    style('SummaryItem', 'Summary Item', '<w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/>', '') +
+    style('Turn', 'Transcript Turn', turnIndent, '') +
+    style('Event', 'Transcript Event', turnIndent, `<w:i/><w:color w:val="${palette.muted}"/>`) +
+    characterStyle('Timestamp', 'Timestamp', `<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    characterStyle('AgentSpeaker', 'Agent Speaker', `<w:b/><w:color w:val="${palette.accent}"/>`) +
+    characterStyle('CustomerSpeaker', 'Customer Speaker', '<w:b/>') +
+    characterStyle('EventSpeaker', 'Event Speaker', `<w:b/><w:i/><w:color w:val="${palette.muted}"/>`) +
+    style('Footer', 'footer', '<w:tabs><w:tab w:val="right" w:pos="9360"/></w:tabs><w:spacing w:after="0"/>', `<w:color w:val="${palette.muted}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`) +
+    '</w:styles>'
+  );
+}
+
+const SETTINGS_XML = `${XML_DECLARATION}<w:settings ${NS}><w:defaultTabStop w:val="720"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`;
+
+const footerXml = (spec: TranscriptDocumentSpec): string =>
+  `${XML_DECLARATION}<w:ftr ${NS}>${paragraphXml(
+    'Footer',
+    runXml({ text: spec.subtitle ? `${spec.title} | ${spec.subtitle}` : spec.title }) +
+      '<w:r><w:tab/></w:r><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+      '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>'
+  )}</w:ftr>`;
+
+export function buildTranscriptDocument(spec: TranscriptDocumentSpec): JSZip {
+  const palette = brandPalette(APP_BRAND);
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    contentTypesXml([
+      { partName: '/word/document.xml', contentType: `${WML}.document.main+xml` },
+      { partName: '/word/styles.xml', contentType: `${WML}.styles+xml` },
+      { partName: '/word/settings.xml', contentType: `${WML}.settings+xml` },
+      { partName: '/word/footer1.xml', contentType: `${WML}.footer+xml` },
+    ])
+  );
+  zip.file('_rels/.rels', packageRelationshipsXml('word/document.xml'));
+  const properties = { title: spec.title, subject: spec.subtitle ?? spec.title, brandName: APP_BRAND };
+  zip.file('docProps/core.xml', corePropertiesXml(properties));
+  zip.file('docProps/app.xml', appPropertiesXml(properties));
+  zip.file(
+    'word/_rels/document.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.settings, target: 'settings.xml' },
+      { id: 'rId3', type: RELATIONSHIP_TYPES.footer, target: 'footer1.xml' },
+    ])
+  );
+  zip.file('word/document.xml', documentXml(spec));
+  zip.file('word/styles.xml', stylesXml(palette));
+  zip.file('word/settings.xml', SETTINGS_XML);
+  zip.file('word/footer1.xml', footerXml(spec));
+  return zip;
+}
@@ -7,10 +7,11 @@ import type { UserOptions } from 'jspdf-autotable';
 import type { HistoricalScoreItem, ScoreCallOutput } from '@/types';
 import { format, parseISO } from 'date-fns';
 import {
-  computeMetricCategoryAverages,
-  getCategoryForMetric,
+  getCategoryAverages,
+  getMetricCategory,
   formatCategoryAverage,
 } from '@/lib/call-scoring-categories';
+import { formatRubricReference } from '@/lib/scoring-rubrics';
 
 // Augment jsPDF with autoTable plugin
 declare module 'jspdf' {
@@ -153,7 +154,8 @@ export async function generateCallScoreReportPdfBlob(item: HistoricalScoreItem):
     const metadataLeft = [
       `File Name: ${fileName}`,
       `Agent Name: ${agentName || 'N/A'}`,
-      `Product Focus: ${product || 'General'}`
+      `Product Focus: ${product || 'General'}`,
+      ...(scoreOutput.rubric ? [`Rubric: ${formatRubricReference(scoreOutput.rubric)}`] : []),
     ];
     const metadataRight = [
       `Date Scored: ${format(parseISO(timestamp), 'PP p')}`,
@@ -165,7 +167,7 @@ export async function generateCallScoreReportPdfBlob(item: HistoricalScoreItem):
     pdf.text(metadataLeft, margin, cursorY);
     pdf.text(metadataRight, pageWidth - margin, cursorY, { align: 'right' });
     
-    cursorY += (metadataRight.length * 12) + 15;
+    cursorY += (Math.max(metadataLeft.length, metadataRight.length) * 12) + 15;
     pdf.setDrawColor(200);
     pdf.line(margin, cursorY, pageWidth - margin, cursorY);
     cursorY += 20;
@@ -216,10 +218,10 @@ export async function generateCallScoreReportPdfBlob(item: HistoricalScoreItem):
     cursorY += 5;
 
     if (scoreOutput.metricScores && scoreOutput.metricScores.length > 0) {
-      const categoryAverages = computeMetricCategoryAverages(scoreOutput.metricScores);
+      const categoryAverages = getCategoryAverages(scoreOutput);
       const tableHead = [['Category', 'Metric', 'Score', 'Category Avg', 'Feedback']];
       const tableBody = scoreOutput.metricScores.map(m => {
-        const category = getCategoryForMetric(m.metric);
+        const category = getMetricCategory(m);
         const avgLabel = formatCategoryAverage(categoryAverages.get(category));
         return [
           category,
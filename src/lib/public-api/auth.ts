@@ -0,0 +1,64 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Authentication for the public `/api/v1` routes. `middleware.ts` lets these
+ * paths through without a session; each handler calls `requireApiKey`, which
+ * checks the key, its scope and its hourly quota.
+ *
+ * Quotas use the shared in-memory `rateLimiter`, so they reset on restart and
+ * are counted per server process.
+ */
+import { NextResponse, type NextRequest } from 'next/server';
+import { rateLimiter } from '@/lib/rate-limiter';
+import type { ApiResult } from '@/types/common';
+import { findApiKeyBySecret } from './store';
+import { API_KEY_HEADER, type ApiKey, type ApiKeyScope } from './types';
+
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+const errorResponse = (error: string, status: number, headers?: HeadersInit) =>
+  NextResponse.json<ApiResult<never>>({ ok: false, error }, { status, headers });
+
+function readPresentedKey(request: NextRequest | Request): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? request.headers.get(API_KEY_HEADER)?.trim() ?? null;
+}
+
+/**
+ * Returns the API key the request was made with, or an error response to
+ * return as-is: 401 without a valid key, 403 when the key lacks `scope` and
+ * 429 once the key has used up its hourly quota.
+ */
+export function requireApiKey(
+  request: NextRequest | Request,
+  scope: ApiKeyScope
+): { key: ApiKey; response?: never } | { key?: never; response: NextResponse } {
+  const presented = readPresentedKey(request);
+  if (!presented) {
+    return {
+      response: errorResponse(`API key required. Send it as "Authorization: Bearer <key>" or in the ${API_KEY_HEADER} header.`, 401, {
+        'WWW-Authenticate': 'Bearer',
+      }),
+    };
+  }
+  const key = findApiKeyBySecret(presented);
+  if (!key) {
+    return { response: errorResponse('Invalid or revoked API key.', 401, { 'WWW-Authenticate': 'Bearer' }) };
+  }
+  if (!key.scopes.includes(scope)) {
+    return { response: errorResponse(`This API key does not have the '${scope}' scope.`, 403) };
+  }
+  const quota = rateLimiter.check({ identifier: `api-key:${key.id}`, maxRequests: key.quotaPerHour, windowMs: QUOTA_WINDOW_MS });
+  if (!quota.allowed) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000));
+    return {
+      response: errorResponse(`Hourly quota of ${key.quotaPerHour} requests exceeded. Retry after ${retryAfterSeconds}s.`, 429, {
+        'Retry-After': String(retryAfterSeconds),
+        'X-RateLimit-Limit': String(key.quotaPerHour),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': quota.resetAt.toISOString(),
+      }),
+    };
+  }
+  return { key };
+}
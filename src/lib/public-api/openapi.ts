@@ -0,0 +1,213 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Builds the OpenAPI 3 document for the public `/api/v1` routes from the same
+ * zod schemas the routes validate with, so the spec cannot drift from them.
+ * Every operation answers with an `ApiResult` envelope: `{ ok: true, data }` or
+ * `{ ok: false, error }`.
+ */
+import { z, type ZodType } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  DataAnalysisInputSchema,
+  DataAnalysisReportSchema,
+  GeneratePitchInputSchema,
+  GeneratePitchOutputSchema,
+  GenerateRebuttalInputSchema,
+  GenerateRebuttalOutputSchema,
+  GenerateTrainingDeckInputSchema,
+  GenerateTrainingDeckOutputSchema,
+  ScoreCallInputSchema,
+  ScoreCallOutputSchema,
+  TranscriptionInputSchema,
+  TranscriptionOutputSchema,
+  VoiceSupportAgentFlowInputSchema,
+  VoiceSupportAgentFlowOutputSchema,
+} from '@/types';
+import { DialerDispositionImportSchema, DispositionImportResultSchema } from '@/lib/dispositions/types';
+import { API_KEY_HEADER, type ApiKeyScope } from './types';
+
+interface PublicApiOperation {
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  scope: ApiKeyScope;
+  tag: string;
+  request: { name: string; schema: ZodType };
+  response: { name: string; schema: ZodType };
+  /** Alternative request body, for routes that also take file uploads. */
+  multipart?: Record<string, unknown>;
+}
+
+const PUBLIC_API_OPERATIONS: PublicApiOperation[] = [
+  {
+    path: '/api/v1/call-scoring',
+    operationId: 'scoreCall',
+    summary: 'Score a call',
+    description:
+      "Transcribes the audio (unless `transcriptOverride` is given) and scores it against the workspace's active rubric for the product, unless a rubric is sent.",
+    scope: 'calls:score',
+    tag: 'Calls',
+    request: { name: 'ScoreCallInput', schema: ScoreCallInputSchema },
+    response: { name: 'ScoreCallOutput', schema: ScoreCallOutputSchema },
+  },
+  {
+    path: '/api/v1/transcription',
+    operationId: 'transcribeAudio',
+    summary: 'Transcribe a recording',
+    description: 'Returns diarized segments with timestamps, speaker labels and a call summary.',
+    scope: 'transcripts:create',
+    tag: 'Calls',
+    request: { name: 'TranscriptionInput', schema: TranscriptionInputSchema },
+    response: { name: 'TranscriptionOutput', schema: TranscriptionOutputSchema },
+  },
+  {
+    path: '/api/v1/pitch-generator',
+    operationId: 'generatePitch',
+    summary: 'Generate a sales pitch',
+    description: "Grounded in the workspace's indexed knowledge base; `knowledgeBaseContext` adds to it.",
+    scope: 'pitches:generate',
+    tag: 'Sales',
+    request: { name: 'GeneratePitchInput', schema: GeneratePitchInputSchema },
+    response: { name: 'GeneratePitchOutput', schema: GeneratePitchOutputSchema },
+  },
+  {
+    path: '/api/v1/rebuttal-generator',
+    operationId: 'generateRebuttal',
+    summary: 'Generate a rebuttal to an objection',
+    scope: 'rebuttals:generate',
+    tag: 'Sales',
+    request: { name: 'GenerateRebuttalInput', schema: GenerateRebuttalInputSchema },
+    response: { name: 'GenerateRebuttalOutput', schema: GenerateRebuttalOutputSchema },
+  },
+  {
+    path: '/api/v1/training-deck',
+    operationId: 'generateTrainingDeck',
+    summary: 'Generate training material',
+    scope: 'training-decks:generate',
+    tag: 'Training',
+    request: { name: 'GenerateTrainingDeckInput', schema: GenerateTrainingDeckInputSchema },
+    response: { name: 'GenerateTrainingDeckOutput', schema: GenerateTrainingDeckOutputSchema },
+  },
+  {
+    path: '/api/v1/data-analysis',
+    operationId: 'analyzeData',
+    summary: 'Analyse call-centre data',
+    description:
+      'Upload CSV, XLSX/XLS or ZIP files as multipart form data to have them parsed and profiled on the server, or send a JSON body that describes the files.',
+    scope: 'data:analyze',
+    tag: 'Analysis',
+    request: { name: 'DataAnalysisInput', schema: DataAnalysisInputSchema },
+    response: { name: 'DataAnalysisReport', schema: DataAnalysisReportSchema },
+    multipart: {
+      type: 'object',
+      required: ['files'],
+      properties: {
+        files: { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: 20 },
+        userAnalysisPrompt: { type: 'string', maxLength: 10000 },
+      },
+    },
+  },
+  {
+    path: '/api/v1/voice-support-agent',
+    operationId: 'querySupportAgent',
+    summary: 'Answer a customer support query',
+    description: 'Answers from the knowledge base and reports whether the query should be escalated to a human.',
+    scope: 'support:query',
+    tag: 'Support',
+    request: { name: 'VoiceSupportAgentInput', schema: VoiceSupportAgentFlowInputSchema },
+    response: { name: 'VoiceSupportAgentOutput', schema: VoiceSupportAgentFlowOutputSchema },
+  },
+  {
+    path: '/api/v1/dispositions',
+    operationId: 'importDispositions',
+    summary: 'Push dialer dispositions',
+    description:
+      'Records what the agent tagged in the dialer or CRM, for disposition reconciliation. A later record for the same `callId` replaces the earlier one. A dialer CSV export can be sent instead with `Content-Type: text/csv`.',
+    scope: 'dispositions:write',
+    tag: 'Calls',
+    request: { name: 'DialerDispositionImport', schema: DialerDispositionImportSchema },
+    response: { name: 'DispositionImportResult', schema: DispositionImportResultSchema },
+  },
+];
+
+const toJsonSchema = (schema: ZodType) =>
+  zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none', effectStrategy: 'input' });
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const ApiErrorSchema = z.object({ ok: z.literal(false), error: z.string() });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('ApiError') } },
+});
+
+function buildOperation(operation: PublicApiOperation) {
+  return {
+    post: {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      description: [operation.description, `Requires the \`${operation.scope}\` scope.`].filter(Boolean).join('\n\n'),
+      tags: [operation.tag],
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: ref(operation.request.name) },
+          ...(operation.multipart && { 'multipart/form-data': { schema: operation.multipart } }),
+        },
+      },
+      responses: {
+        200: {
+          description: 'Success',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['ok', 'data'],
+                properties: { ok: { type: 'boolean', enum: [true] }, data: ref(operation.response.name) },
+              },
+            },
+          },
+        },
+        400: errorResponse('The request body is invalid.'),
+        401: errorResponse('The API key is missing, unknown or revoked.'),
+        403: errorResponse(`The API key lacks the \`${operation.scope}\` scope.`),
+        429: errorResponse("The API key's hourly quota is used up. See the `Retry-After` header."),
+        500: errorResponse('The AI flow failed.'),
+      },
+    },
+  };
+}
+
+let cachedDocument: Record<string, unknown> | null = null;
+
+export function buildOpenApiDocument(): Record<string, unknown> {
+  if (cachedDocument) return cachedDocument;
+  const schemas: Record<string, unknown> = { ApiError: toJsonSchema(ApiErrorSchema) };
+  for (const operation of PUBLIC_API_OPERATIONS) {
+    schemas[operation.request.name] = toJsonSchema(operation.request.schema);
+    schemas[operation.response.name] = toJsonSchema(operation.response.schema);
+  }
+  cachedDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: 'AI-TeleSuite Public API',
+      version: '1.0.0',
+      description:
+        'Scoring, transcription and content generation for CRM and dialer integrations. Requests run in the workspace the API key was issued in. Each key has scopes and an hourly request quota.',
+    },
+    servers: [{ url: '/' }],
+    tags: [...new Set(PUBLIC_API_OPERATIONS.map((operation) => operation.tag))].map((name) => ({ name })),
+    paths: Object.fromEntries(PUBLIC_API_OPERATIONS.map((operation) => [operation.path, buildOperation(operation)])),
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      },
+      schemas,
+    },
+  };
+  return cachedDocument;
+}
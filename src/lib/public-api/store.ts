@@ -0,0 +1,139 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * API keys for the public `/api/v1` routes, persisted in SQLite.
+ * `API_KEY_STORE_PATH` overrides the file location (defaults to `.data/api-keys.db`).
+ *
+ * Only the SHA-256 of each key is stored. The key is returned once, when it is
+ * created, and cannot be recovered afterwards.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { RequestIdentity } from '@/lib/auth/server';
+import type { ApiKey, ApiKeyInput, ApiKeyScope, ApiKeyWithSecret } from './types';
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;
+  quota_per_hour: number;
+  workspace_id: string;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+const DEFAULT_API_KEY_DB_PATH = path.join(process.cwd(), '.data', 'api-keys.db');
+const KEY_PREFIX = 'tsk_';
+const DISPLAYED_PREFIX_LENGTH = 12;
+
+const rowToApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.prefix,
+  scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+  quotaPerHour: row.quota_per_hour,
+  workspaceId: row.workspace_id,
+  createdBy: row.created_by,
+  createdByName: row.created_by_name,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at ?? undefined,
+});
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.API_KEY_STORE_PATH || DEFAULT_API_KEY_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        quota_per_hour INTEGER NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_by_name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT
+      );
+    `);
+  }
+  return database;
+}
+
+export function listApiKeys(workspaceId: string): ApiKey[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM api_keys WHERE workspace_id = ? ORDER BY created_at DESC')
+    .all(workspaceId) as ApiKeyRow[];
+  return rows.map(rowToApiKey);
+}
+
+export function getApiKey(id: string): ApiKey | null {
+  const row = getDb().prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+  return row ? rowToApiKey(row) : null;
+}
+
+/** The key is issued in the creator's workspace. */
+export function createApiKey(input: ApiKeyInput, identity: RequestIdentity): ApiKeyWithSecret {
+  const id = randomUUID();
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  getDb()
+    .prepare(`
+      INSERT INTO api_keys (id, name, prefix, key_hash, scopes, quota_per_hour, workspace_id, created_by, created_by_name, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      id,
+      input.name,
+      key.slice(0, DISPLAYED_PREFIX_LENGTH),
+      hashKey(key),
+      JSON.stringify(input.scopes),
+      input.quotaPerHour,
+      identity.workspaceId,
+      identity.userId,
+      identity.displayName,
+      new Date().toISOString()
+    );
+  return { ...getApiKey(id)!, key };
+}
+
+/**
+ * Changes the name, scopes and quota; the key itself stays the same. Returns null
+ * when the key does not exist in `workspaceId`.
+ */
+export function updateApiKey(id: string, workspaceId: string, input: ApiKeyInput): ApiKey | null {
+  const changes = getDb()
+    .prepare('UPDATE api_keys SET name = ?, scopes = ?, quota_per_hour = ? WHERE id = ? AND workspace_id = ?')
+    .run(input.name, JSON.stringify(input.scopes), input.quotaPerHour, id, workspaceId).changes;
+  return changes > 0 ? getApiKey(id) : null;
+}
+
+/** Revokes the key in `workspaceId`. */
+export function revokeApiKey(id: string, workspaceId: string): boolean {
+  return getDb().prepare('DELETE FROM api_keys WHERE id = ? AND workspace_id = ?').run(id, workspaceId).changes > 0;
+}
+
+/** The key a request presented, or null when it is unknown or revoked. Records when it was last used. */
+export function findApiKeyBySecret(key: string): ApiKey | null {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(hashKey(key)) as ApiKeyRow | undefined;
+  if (!row) return null;
+  const now = new Date().toISOString();
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now, row.id);
+  return rowToApiKey({ ...row, last_used_at: now });
+}
@@ -0,0 +1,58 @@
+/**
+ * Shapes shared by the public `/api/v1` routes, the API key admin routes and
+ * the admin page. Kept free of Node-only imports so the page can use them.
+ */
+import { z } from 'zod';
+
+export const API_KEY_SCOPES = [
+  'calls:score',
+  'transcripts:create',
+  'pitches:generate',
+  'rebuttals:generate',
+  'training-decks:generate',
+  'data:analyze',
+  'support:query',
+  'dispositions:write',
+] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'calls:score': 'POST /api/v1/call-scoring',
+  'transcripts:create': 'POST /api/v1/transcription',
+  'pitches:generate': 'POST /api/v1/pitch-generator',
+  'rebuttals:generate': 'POST /api/v1/rebuttal-generator',
+  'training-decks:generate': 'POST /api/v1/training-deck',
+  'data:analyze': 'POST /api/v1/data-analysis',
+  'support:query': 'POST /api/v1/voice-support-agent',
+  'dispositions:write': 'POST /api/v1/dispositions',
+};
+
+/** Keys are sent as `Authorization: Bearer <key>` or in this header. */
+export const API_KEY_HEADER = 'X-API-Key';
+
+export const DEFAULT_API_KEY_QUOTA_PER_HOUR = 60;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Grant at least one scope.'),
+  /** Requests per rolling hour, across all scopes. */
+  quotaPerHour: z.number().int().min(1).max(100_000).default(DEFAULT_API_KEY_QUOTA_PER_HOUR),
+});
+export type ApiKeyInput = z.infer<typeof ApiKeyInputSchema>;
+
+export interface ApiKey extends ApiKeyInput {
+  id: string;
+  /** The first characters of the key, to tell keys apart; the key itself is only stored hashed. */
+  prefix: string;
+  /** Requests are made in this workspace: its rubrics, knowledge base and webhooks apply. */
+  workspaceId: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/** Returned once, when the key is created. */
+export interface ApiKeyWithSecret extends ApiKey {
+  key: string;
+}
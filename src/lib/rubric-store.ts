@@ -0,0 +1,132 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Versioned scoring rubrics per workspace and product, persisted in SQLite.
+ * Saving never overwrites: each save adds the next version, so a score's
+ * `rubric` reference can always be resolved to the exact rubric it used.
+ * `RUBRIC_STORE_PATH` overrides the file location (defaults to `.data/rubrics.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getBuiltInRubric } from '@/lib/scoring-rubrics';
+import type { RubricCategory, ScoringRubric } from '@/types';
+
+type RubricRow = {
+  workspace_id: string;
+  product: string;
+  version: number;
+  name: string;
+  categories: string;
+  updated_by: string | null;
+  updated_at: string;
+};
+
+export interface RubricVersionSummary {
+  version: number;
+  name: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  metricCount: number;
+}
+
+/** Payload of `GET`/`PUT /api/scoring-rubrics`. */
+export type ScoringRubricResponse = { rubric: ScoringRubric; versions: RubricVersionSummary[] };
+
+export interface SaveRubricInput {
+  product: string;
+  name: string;
+  categories: RubricCategory[];
+}
+
+const DEFAULT_RUBRIC_DB_PATH = path.join(process.cwd(), '.data', 'rubrics.db');
+
+const rowToRubric = (row: RubricRow): ScoringRubric => ({
+  product: row.product,
+  version: row.version,
+  name: row.name,
+  categories: JSON.parse(row.categories) as RubricCategory[],
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by ?? undefined,
+});
+
+const toSummary = (rubric: ScoringRubric): RubricVersionSummary => ({
+  version: rubric.version,
+  name: rubric.name,
+  updatedAt: rubric.updatedAt,
+  updatedBy: rubric.updatedBy,
+  metricCount: rubric.categories.reduce((total, category) => total + category.metrics.length, 0),
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.RUBRIC_STORE_PATH || DEFAULT_RUBRIC_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS scoring_rubrics (
+        workspace_id TEXT NOT NULL,
+        product TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        categories TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, product, version)
+      );
+    `);
+  }
+  return database;
+}
+
+/** The rubric new calls for `product` are scored against: the latest saved version, else the built-in one. */
+export function getActiveRubric(workspaceId: string, product: string): ScoringRubric {
+  const row = getDb()
+    .prepare('SELECT * FROM scoring_rubrics WHERE workspace_id = ? AND product = ? ORDER BY version DESC LIMIT 1')
+    .get(workspaceId, product) as RubricRow | undefined;
+  return row ? rowToRubric(row) : getBuiltInRubric(product);
+}
+
+/** A specific version, including version 0 (the built-in rubric). */
+export function getRubricVersion(workspaceId: string, product: string, version: number): ScoringRubric | null {
+  const row = getDb()
+    .prepare('SELECT * FROM scoring_rubrics WHERE workspace_id = ? AND product = ? AND version = ?')
+    .get(workspaceId, product, version) as RubricRow | undefined;
+  if (row) return rowToRubric(row);
+  return version === 0 ? getBuiltInRubric(product) : null;
+}
+
+/** All versions of a product's rubric, newest first, ending with the built-in one. */
+export function listRubricVersions(workspaceId: string, product: string): RubricVersionSummary[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM scoring_rubrics WHERE workspace_id = ? AND product = ? ORDER BY version DESC')
+    .all(workspaceId, product) as RubricRow[];
+  return [...rows.map((row) => toSummary(rowToRubric(row))), toSummary(getBuiltInRubric(product))];
+}
+
+export function saveRubric(workspaceId: string, input: SaveRubricInput, updatedBy: string): ScoringRubric {
+  const db = getDb();
+  return db.transaction((): ScoringRubric => {
+    const { latest } = db
+      .prepare('SELECT MAX(version) AS latest FROM scoring_rubrics WHERE workspace_id = ? AND product = ?')
+      .get(workspaceId, input.product) as { latest: number | null };
+    const row: RubricRow = {
+      workspace_id: workspaceId,
+      product: input.product,
+      version: (latest ?? 0) + 1,
+      name: input.name.trim(),
+      categories: JSON.stringify(input.categories),
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString(),
+    };
+    db.prepare(`
+      INSERT INTO scoring_rubrics (workspace_id, product, version, name, categories, updated_by, updated_at)
+      VALUES (@workspace_id, @product, @version, @name, @categories, @updated_by, @updated_at)
+    `).run(row);
+    return rowToRubric(row);
+  })();
+}
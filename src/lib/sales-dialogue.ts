@@ -0,0 +1,232 @@
+/**
+ * Dialogue manager for the AI voice sales agent. A call moves through
+ * opening, discovery, the pitch sections, an objection loop, pricing, the
+ * close and wrap-up. The state travels with each turn of the flow; the only
+ * thing a model decides is the intent of the customer's reply, so every
+ * transition here is a pure function of the state and that intent.
+ */
+import {
+  SALES_PITCH_SECTIONS,
+  type GeneratePitchOutput,
+  type SalesDialogueState,
+  type SalesObjectionCategory,
+  type SalesPitchSection,
+} from '@/types';
+
+export const SALES_DIALOGUE_INTENTS = [
+  'CONTINUE',
+  'SHARE_NEEDS',
+  'SALES_QUESTION',
+  'PRICE_QUESTION',
+  'SUPPORT_QUESTION',
+  'OBJECTION',
+  'BUYING_SIGNAL',
+  'AGREE',
+  'DECLINE',
+  'CALLBACK',
+  'END_CALL',
+  'UNCLEAR',
+] as const;
+export type SalesDialogueIntent = (typeof SALES_DIALOGUE_INTENTS)[number];
+
+export interface SalesDialogueEvent {
+  intent: SalesDialogueIntent;
+  /** Only read for OBJECTION; defaults to OTHER. */
+  objectionCategory?: SalesObjectionCategory;
+  /** What the customer said. */
+  text: string;
+}
+
+export type SalesDialogueOutcome = NonNullable<SalesDialogueState['outcome']>;
+
+export type SalesDialogueAction =
+  | { type: 'ASK_DISCOVERY_QUESTION'; questionIndex: number }
+  | { type: 'SPEAK_PITCH_SECTION'; section: SalesPitchSection }
+  | { type: 'ANSWER_SALES_QUESTION' }
+  | { type: 'ANSWER_SUPPORT_QUESTION' }
+  | { type: 'HANDLE_OBJECTION'; category: SalesObjectionCategory }
+  /** On the first mention the pitch's deal explanation is spoken; afterwards the question is answered from the knowledge base. */
+  | { type: 'PRESENT_PRICING'; firstMention: boolean }
+  /** Attempt 1 is the pitch's call to action. */
+  | { type: 'ATTEMPT_CLOSE'; attempt: number }
+  | { type: 'ACKNOWLEDGE' }
+  | { type: 'WRAP_UP'; outcome: SalesDialogueOutcome };
+
+export interface SalesDialogueTransition {
+  state: SalesDialogueState;
+  action: SalesDialogueAction;
+}
+
+export const MAX_DISCOVERY_QUESTIONS = 2;
+export const MAX_CLOSE_ATTEMPTS = 3;
+/** The same objection coming back after this many rebuttals ends the call. */
+export const MAX_OBJECTION_RAISES = 2;
+
+/** The state after the warm introduction, before the customer has replied. */
+export function createSalesDialogueState(): SalesDialogueState {
+  return {
+    stage: 'OPENING',
+    userTurns: 0,
+    discoveryQuestionsAsked: 0,
+    pitchSectionsDelivered: [],
+    benefitsCovered: [],
+    objections: [],
+    pricingDiscussed: false,
+    closeAttempts: 0,
+  };
+}
+
+const wrapUp = (state: SalesDialogueState, outcome: SalesDialogueOutcome): SalesDialogueTransition => ({
+  state: { ...state, stage: 'WRAP_UP', resumeStage: undefined, outcome },
+  action: { type: 'WRAP_UP', outcome },
+});
+
+function attemptClose(state: SalesDialogueState): SalesDialogueTransition {
+  if (state.closeAttempts >= MAX_CLOSE_ATTEMPTS) return wrapUp(state, 'NO_DECISION');
+  const attempt = state.closeAttempts + 1;
+  return {
+    state: { ...state, stage: 'CLOSE', resumeStage: undefined, closeAttempts: attempt },
+    action: { type: 'ATTEMPT_CLOSE', attempt },
+  };
+}
+
+const presentPricing = (state: SalesDialogueState): SalesDialogueTransition => ({
+  state: { ...state, stage: 'PRICING', resumeStage: undefined, pricingDiscussed: true },
+  action: { type: 'PRESENT_PRICING', firstMention: !state.pricingDiscussed },
+});
+
+function continuePitch(state: SalesDialogueState): SalesDialogueTransition {
+  const section = SALES_PITCH_SECTIONS.find((candidate) => !state.pitchSectionsDelivered.includes(candidate));
+  if (!section) return state.pricingDiscussed ? attemptClose(state) : presentPricing(state);
+  return {
+    state: { ...state, stage: 'PITCH', pitchSectionsDelivered: [...state.pitchSectionsDelivered, section] },
+    action: { type: 'SPEAK_PITCH_SECTION', section },
+  };
+}
+
+function askDiscoveryQuestion(state: SalesDialogueState): SalesDialogueTransition {
+  return {
+    state: { ...state, stage: 'DISCOVERY', discoveryQuestionsAsked: state.discoveryQuestionsAsked + 1 },
+    action: { type: 'ASK_DISCOVERY_QUESTION', questionIndex: state.discoveryQuestionsAsked },
+  };
+}
+
+function raiseObjection(state: SalesDialogueState, category: SalesObjectionCategory, text: string): SalesDialogueTransition {
+  const existing = state.objections.find((objection) => objection.category === category);
+  const timesRaised = (existing?.timesRaised ?? 0) + 1;
+  if (timesRaised > MAX_OBJECTION_RAISES) return wrapUp(state, 'DECLINED');
+  const objections = existing
+    ? state.objections.map((objection) => (objection === existing ? { category, text, timesRaised, resolved: false } : objection))
+    : [...state.objections, { category, text, timesRaised, resolved: false }];
+  return {
+    state: {
+      ...state,
+      stage: 'OBJECTION',
+      resumeStage: state.stage === 'OBJECTION' ? state.resumeStage : state.stage,
+      objections,
+    },
+    action: { type: 'HANDLE_OBJECTION', category },
+  };
+}
+
+/** The customer is happy to go on: move to the next step of the current stage. */
+function progress(state: SalesDialogueState, intent: SalesDialogueIntent): SalesDialogueTransition {
+  switch (state.stage) {
+    case 'OPENING':
+      return askDiscoveryQuestion(state);
+    case 'DISCOVERY':
+      return intent === 'SHARE_NEEDS' && state.discoveryQuestionsAsked < MAX_DISCOVERY_QUESTIONS
+        ? askDiscoveryQuestion(state)
+        : continuePitch(state);
+    case 'PITCH':
+      return continuePitch(state);
+    case 'OBJECTION': {
+      // Going on after a rebuttal settles the open objections.
+      const resumed: SalesDialogueState = {
+        ...state,
+        stage: state.resumeStage ?? 'PITCH',
+        resumeStage: undefined,
+        objections: state.objections.map((objection) => ({ ...objection, resolved: true })),
+      };
+      return progress(resumed, 'CONTINUE');
+    }
+    case 'PRICING':
+    case 'CLOSE':
+      return attemptClose(state);
+    case 'WRAP_UP':
+      return wrapUp(state, state.outcome ?? 'NO_DECISION');
+  }
+}
+
+export function advanceSalesDialogue(state: SalesDialogueState, event: SalesDialogueEvent): SalesDialogueTransition {
+  if (state.stage === 'WRAP_UP') return wrapUp(state, state.outcome ?? 'NO_DECISION');
+  const next: SalesDialogueState = { ...state, userTurns: state.userTurns + 1 };
+  const pitchStarted = next.pitchSectionsDelivered.length > 0 || next.pricingDiscussed;
+
+  switch (event.intent) {
+    case 'END_CALL':
+      return wrapUp(next, 'NO_DECISION');
+    case 'CALLBACK':
+      return wrapUp(next, 'CALLBACK');
+    case 'AGREE':
+      // Agreeing before anything has been offered is agreeing to talk.
+      return pitchStarted ? wrapUp(next, 'SALE') : progress(next, 'CONTINUE');
+    case 'DECLINE':
+      // A first "not interested" is handled as a need objection; a second one ends the call.
+      if (next.objections.some((objection) => objection.category === 'NEED')) return wrapUp(next, 'DECLINED');
+      return raiseObjection(next, 'NEED', event.text);
+    case 'OBJECTION':
+      return raiseObjection(next, event.objectionCategory ?? 'OTHER', event.text);
+    case 'SUPPORT_QUESTION':
+      return { state: next, action: { type: 'ANSWER_SUPPORT_QUESTION' } };
+    case 'SALES_QUESTION':
+      return { state: next, action: { type: 'ANSWER_SALES_QUESTION' } };
+    case 'PRICE_QUESTION':
+      return presentPricing(next);
+    case 'BUYING_SIGNAL':
+      return next.pricingDiscussed ? attemptClose(next) : presentPricing(next);
+    case 'UNCLEAR':
+      return { state: next, action: { type: 'ACKNOWLEDGE' } };
+    case 'CONTINUE':
+    case 'SHARE_NEEDS':
+      return progress(next, event.intent);
+  }
+}
+
+const MAX_TRACKED_BENEFITS = 8;
+const STOP_WORDS = new Set([
+  'with', 'your', 'you', 'that', 'this', 'from', 'have', 'will', 'also', 'into', 'more', 'their',
+  'they', 'them', 'than', 'which', 'what', 'when', 'where', 'about', 'just', 'only', 'every', 'each',
+  'plus', 'like', 'over', 'such', 'most', 'much', 'very', 'can', 'get', 'and', 'the', 'for', 'our',
+]);
+
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+
+/** The individual benefits in the pitch's benefits section, one per line, bullet or sentence. */
+export function extractPitchBenefits(pitch: Pick<GeneratePitchOutput, 'keyBenefitsAndBundles'>): string[] {
+  const benefits = pitch.keyBenefitsAndBundles
+    .split(/\n+|(?<=[.!?])\s+|;\s*|•/)
+    .map((part) => part.replace(/^[\s\-*\d.)]+/, '').trim())
+    .filter((part) => contentWords(part).length >= 2);
+  return [...new Set(benefits)].slice(0, MAX_TRACKED_BENEFITS);
+}
+
+/** A benefit counts as covered once most of its content words have been said. */
+function mentionsBenefit(spokenWords: Set<string>, benefit: string): boolean {
+  const words = contentWords(benefit);
+  return words.filter((word) => spokenWords.has(word)).length / words.length >= 0.6;
+}
+
+/** Records the benefits the agent just put to the customer. */
+export function recordAgentUtterance(
+  state: SalesDialogueState,
+  text: string,
+  pitch: Pick<GeneratePitchOutput, 'keyBenefitsAndBundles'>
+): SalesDialogueState {
+  const spokenWords = new Set(contentWords(text));
+  const covered = extractPitchBenefits(pitch).filter(
+    (benefit) => !state.benefitsCovered.includes(benefit) && mentionsBenefit(spokenWords, benefit)
+  );
+  return covered.length > 0 ? { ...state, benefitsCovered: [...state.benefitsCovered, ...covered] } : state;
+}
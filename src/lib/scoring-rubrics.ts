@@ -0,0 +1,319 @@
+/**
+ * Built-in call-scoring rubrics and the helpers that turn a rubric into prompt
+ * text. Shared by the scoring flow (server) and the rubric editor (client), so
+ * this module must stay free of server-only imports.
+ *
+ * Workspaces can replace the built-in rubric for any product from the Scoring
+ * Rubrics page; saved versions live in the rubric store (`src/lib/rubric-store.ts`).
+ */
+import { computeMetricCategoryAverages, getMetricCategory } from '@/lib/call-scoring-categories';
+import type {
+  CallScoreCategory,
+  CategoryScore,
+  RubricCategory,
+  RubricMetric,
+  RubricReference,
+  ScoreCallOutput,
+  ScoringRubric,
+} from '@/types';
+
+export const BUILT_IN_RUBRIC_VERSION = 0;
+
+/** A critical metric scored at or below this fails the whole call. */
+export const CRITICAL_FAIL_MAX_SCORE = 2;
+
+const metric = (
+  name: string,
+  guidance: string,
+  options: Partial<Pick<RubricMetric, 'weight' | 'requiresAudio' | 'critical'>> = {}
+): RubricMetric => ({
+  name,
+  guidance,
+  weight: options.weight ?? 1,
+  ...(options.requiresAudio ? { requiresAudio: true } : {}),
+  ...(options.critical ? { critical: true } : {}),
+});
+
+const audio = { requiresAudio: true } as const;
+const critical = { critical: true } as const;
+
+/** Product-agnostic rubric, applied to every product without its own rubric. */
+const BASE_CATEGORIES: RubricCategory[] = [
+  {
+    name: 'Introduction & Rapport Building',
+    weight: 1,
+    metrics: [
+      metric('Introduction Quality', 'Overall effectiveness of the opening.'),
+      metric('Intro Hook Line', 'Was the opening line attention-grabbing and relevant?'),
+      metric('Opening Greeting (Tone & Words)', 'Analyze tone and word choice. Was it confident, energetic, and engaging?', audio),
+      metric('Purpose of Call Statement', 'Was the reason for the call stated clearly and compellingly?'),
+      metric('Rapport Building (Initial)', "Did the agent's voice sound genuine and empathetic?"),
+      metric('Energy and Enthusiasm (Opening)', 'Did the agent sound motivated and positive?', audio),
+      metric('Clarity & Pacing (Opening)', "Was the agent's initial speech clear and well-paced, or rushed/mumbled?", audio),
+    ],
+  },
+  {
+    name: 'Pitch & Product Communication',
+    weight: 1,
+    metrics: [
+      metric('Pitch Adherence', 'Did the agent follow the core structure of the expected pitch?'),
+      metric('Feature-to-Benefit Translation', 'Did the agent sell benefits (e.g., "save 2 hours a day") or just list features (e.g., "it has a dashboard")?'),
+      metric('Value Justification (ROI)', 'Did the agent effectively communicate the value to justify the price? Was there a clear return on investment communicated?'),
+      metric('Monetary Value Communication (Benefits vs. Cost)', 'Was the agent able to effectively articulate the monetary value and justify the cost?'),
+      metric('Clarity of Product Explanation', 'Was the explanation of the product simple and easy to understand?'),
+      metric('Premium Content Explained', 'Was the value of premium content clearly articulated?'),
+      metric('Cross-Sell/Up-sell Opportunity', 'Did the agent identify and act on any opportunities to cross-sell or up-sell?'),
+    ],
+  },
+  {
+    name: 'Customer Engagement & Control',
+    weight: 1,
+    metrics: [
+      metric('Talk-Listen Ratio', 'Analyze the balance of speech. Ideal is often agent speaking 40-50%.'),
+      metric('Talk Ratio (Agent vs User)', 'Similar to above, assess the balance of dialogue.'),
+      metric('Engagement Duration % (User vs Agent)', 'What percentage of the engagement was driven by the user vs the agent?'),
+      metric('Active Listening Cues', "Did the agent use verbal cues ('I see', 'that makes sense') to show they were listening?"),
+      metric('Questioning Skills (Open vs Closed)', 'Did the agent use a mix of open-ended and closed-ended questions effectively?'),
+      metric('Questions Asked by Customer', 'How many questions did the customer ask? Does this indicate engagement or confusion?'),
+      metric('User Interest (Offer/Feature)', "Assess the user's level of interest when offers or features were mentioned."),
+      metric('Premium Content Interest', 'Did the user show specific interest in Premium Content?'),
+    ],
+  },
+  {
+    name: "Agent's Tonality & Soft Skills",
+    weight: 1,
+    metrics: [
+      metric('Conviction & Enthusiasm (Tone)', "Did the agent sound convinced and enthusiastic about the product's value?", audio),
+      metric('Clarity & Articulation', "Was the agent's speech clear and easy to understand throughout the call?", audio),
+      metric('Pacing and Pauses', 'Did the agent use strategic pauses, or did they speak too quickly or slowly?', audio),
+      metric("Agent's Tone (Overall)", 'Assess the overall tone - was it professional, friendly, aggressive, or passive?', audio),
+      metric('Empathy Demonstration (Tone)', "Did the agent's tone convey genuine empathy when required?", audio),
+      metric('Confidence Level (Vocal)', "Did the agent's voice project confidence?", audio),
+      metric('Friendliness & Politeness', 'Was the agent polite and friendly in their language and tone?'),
+      metric('Active Listening (Vocal Cues)', "Did the agent use vocal affirmations ('mm-hmm', 'I see') to signal they were listening?", audio),
+      metric("User's Perceived Sentiment (from Tone)", "From the user's tone, gauge their level of interest, frustration, or engagement.", audio),
+    ],
+  },
+  {
+    name: 'Needs Discovery & Qualification',
+    weight: 1,
+    metrics: [
+      metric('Situation Questions', "Did the agent effectively understand the customer's current situation?"),
+      metric('Problem Identification & Probing', 'Did the agent successfully uncover or highlight a problem the product solves?'),
+      metric('Implication/Impact Questions', 'Did the agent make the customer feel the pain of their problem?'),
+      metric('Need-Payoff (Value Proposition)', "Did the agent connect the product's benefits directly to solving the customer's stated problem?"),
+      metric('Budget & Authority Qualification', 'Did the agent subtly qualify if the user has the authority and financial capacity to purchase?'),
+      metric('First Discovery Question Time (sec)', 'How long did it take to ask the first discovery question?'),
+      metric('First Question Time (sec)', 'How long did it take to ask the first question of any kind?'),
+    ],
+  },
+  {
+    name: 'Sales Process & Hygiene',
+    weight: 1,
+    metrics: [
+      metric('Misleading Information by Agent', 'Did the agent provide any information that was factually incorrect or misleading? Score 1 if they did.', critical),
+      metric('Call Control', "Did the agent maintain control of the conversation's direction?"),
+      metric('Time to First Offer (sec)', 'How long did it take for the agent to present the first offer?'),
+      metric('First Price Mention (sec)', 'How long into the call was price first mentioned?'),
+      metric('Compliance & Adherence', 'Did the agent adhere to all required compliance scripts and procedures?', critical),
+      metric('Call Opening (Satisfactory/Unsatisfactory)', 'A binary judgment on the overall opening.'),
+      metric('Call Closing (Satisfactory/Unsatisfactory)', 'A binary judgment on the overall closing.'),
+      metric('Agent Professionalism', 'Did the agent maintain a professional demeanor throughout?'),
+    ],
+  },
+  {
+    name: 'Objection Handling & Closing',
+    weight: 1,
+    metrics: [
+      metric('Objection Recognition & Tone', "How did the agent's tone shift when faced with an objection?", audio),
+      metric('Empathize, Clarify, Isolate, Respond (ECIR)', "Assess the agent's technique. Did they show empathy, understand the real issue, confirm it was the main blocker, and then respond?"),
+      metric('Price Objection Response', 'Was the price objection handled by reinforcing value or by immediately offering a discount?'),
+      metric("\"I'm Not Interested\" Handling", 'How did the agent handle this classic stall?'),
+      metric('"Send Me Details" Handling', 'How did the agent manage the request to just send details?'),
+      metric('Competition Mention Handling', 'How did the agent respond when a competitor was mentioned?'),
+      metric('Handling "I need to think about it"', 'Did the agent have an effective response to this common stall?'),
+      metric('Trial Closes', 'Did the agent use trial closes (e.g., "If we could handle that, would you be interested?") to gauge interest?'),
+      metric('Urgency Creation', 'Did the agent effectively create a sense of urgency for the offer?'),
+      metric('Final Call to Action (CTA)', 'Was the closing CTA clear, confident, and specific?'),
+      metric('Next Steps Definition', 'Were the next steps, if any, clearly defined?'),
+      metric('Closing Strength (Tone)', "Did the agent's tone convey confidence or weakness during the close?", audio),
+      metric('Assumptive Close Attempt', 'Did the agent attempt an assumptive close?'),
+      metric('Benefit-driven Close', "Was the close tied back to the customer's key needs/benefits?"),
+      metric('Handling Final Questions', "How were the customer's final questions before the close handled?"),
+      metric('Post-CTA Silence', 'Did the agent use silence effectively after asking for the sale?', audio),
+      metric('Payment Process Explanation', 'Was the payment process explained clearly and simply?'),
+      metric('Confirmation of Sale/Next Step', 'Did the agent confirm the final outcome clearly?'),
+    ],
+  },
+];
+
+/** Product-specific metrics added to the base rubric, keyed by product name and then category. */
+const BUILT_IN_PRODUCT_METRICS: Record<string, Record<string, RubricMetric[]>> = {
+  ET: {
+    'Pitch & Product Communication': [
+      metric('Epaper Explained', 'If applicable, was the Epaper feature explained well?'),
+      metric('Times Prime Explained', 'If applicable, was the Times Prime value proposition clear?'),
+      metric('Docubay Explained', 'If applicable, was Docubay explained correctly?'),
+      metric('Stock Report Explained', 'If applicable, was the Stock Report feature explained?'),
+      metric('Upside Radar Explained', 'If applicable, was the Upside Radar feature explained?'),
+      metric('Market Mood Explained', 'If applicable, was the Market Mood feature explained?'),
+      metric('Big Bull Explained', 'If applicable, was the Big Bull feature explained?'),
+    ],
+    'Customer Engagement & Control': [
+      metric('Epaper Interest', 'Did the user show specific interest in Epaper?'),
+      metric('Times Prime Interest', 'Did the user show specific interest in Times Prime?'),
+    ],
+  },
+  TOI: {
+    'Pitch & Product Communication': [
+      metric('TOI Plus Explained', 'If applicable, was the TOI Plus value proposition clear?'),
+      metric('Epaper Explained', 'If applicable, was the Epaper feature explained well?'),
+      metric('Times Prime Explained', 'If applicable, was the Times Prime value proposition clear?'),
+    ],
+    'Customer Engagement & Control': [
+      metric('TOI Plus Interest', 'Did the user show specific interest in TOI Plus?'),
+      metric('Epaper Interest', 'Did the user show specific interest in Epaper?'),
+      metric('Times Prime Interest', 'Did the user show specific interest in Times Prime?'),
+    ],
+  },
+};
+
+/** The rubric a product is scored against until its workspace saves its own. */
+export function getBuiltInRubric(product: string): ScoringRubric {
+  const extras = BUILT_IN_PRODUCT_METRICS[product];
+  return {
+    product,
+    version: BUILT_IN_RUBRIC_VERSION,
+    name: extras ? `${product} Sales Rubric` : 'Standard Sales Rubric',
+    categories: BASE_CATEGORIES.map((category) => ({
+      ...category,
+      metrics: [...category.metrics, ...(extras?.[category.name] ?? [])],
+    })),
+  };
+}
+
+export const rubricReference = (rubric: ScoringRubric): RubricReference => ({
+  product: rubric.product,
+  version: rubric.version,
+  name: rubric.name,
+});
+
+export const formatRubricReference = (reference: RubricReference): string =>
+  reference.version === BUILT_IN_RUBRIC_VERSION ? `${reference.name} (built-in)` : `${reference.name} v${reference.version}`;
+
+export const countRubricMetrics = (rubric: ScoringRubric, textOnly = false): number =>
+  rubric.categories.reduce(
+    (total, category) => total + category.metrics.filter((item) => !textOnly || !item.requiresAudio).length,
+    0
+  );
+
+const normalizeMetricName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/** Sets `category` on each metric score from the rubric; unknown metrics are left as they are. */
+export function assignRubricCategories(
+  metricScores: ScoreCallOutput['metricScores'],
+  rubric: ScoringRubric
+): ScoreCallOutput['metricScores'] {
+  const lookup = new Map<string, string>();
+  rubric.categories.forEach((category) =>
+    category.metrics.forEach((item) => lookup.set(normalizeMetricName(item.name), category.name))
+  );
+  return metricScores.map((score) => {
+    const category = lookup.get(normalizeMetricName(score.metric));
+    return category ? { ...score, category } : score;
+  });
+}
+
+/**
+ * The rubric section of the scoring prompt. In text-only mode, metrics that can
+ * only be judged from audio are left out.
+ */
+export function buildRubricPrompt(rubric: ScoringRubric, { textOnly = false }: { textOnly?: boolean } = {}): string {
+  let index = 0;
+  const sections = rubric.categories
+    .map((category, categoryIndex) => {
+      const metrics = category.metrics.filter((item) => !textOnly || !item.requiresAudio);
+      if (metrics.length === 0) return null;
+      const lines = metrics.map((item) => {
+        index++;
+        const notes = [
+          ...(item.weight === 1 ? [] : [`weight ${item.weight}`]),
+          ...(item.critical ? [`CRITICAL: a score of ${CRITICAL_FAIL_MAX_SCORE} or lower fails the call`] : []),
+        ];
+        const suffix = notes.length > 0 ? ` (${notes.join('; ')})` : '';
+        return `${index}. **${item.name}**${suffix}: ${item.guidance || 'Score how well the agent performed on this.'}`;
+      });
+      const categoryWeight = category.weight === 1 ? '' : ` (category weight ${category.weight})`;
+      return `**CATEGORY ${categoryIndex + 1}: ${category.name}**${categoryWeight}\n${lines.join('\n')}`;
+    })
+    .filter(Boolean);
+  return `Rubric: ${rubric.name} (product: ${rubric.product}, version ${rubric.version})\n\n${sections.join('\n\n')}`;
+}
+
+export const categoriseScore = (score: number): CallScoreCategory => {
+  if (score >= 4.5) return 'Excellent';
+  if (score >= 3.5) return 'Good';
+  if (score >= 2.5) return 'Average';
+  if (score >= 1.5) return 'Needs Improvement';
+  return 'Poor';
+};
+
+export interface CallScoreBreakdown {
+  overallScore: number;
+  callCategorisation: CallScoreCategory;
+  categoryScores: CategoryScore[];
+  criticalFailures: string[];
+}
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Computes the overall score from the metric scores instead of trusting the
+ * model's arithmetic: metrics are averaged per category using their weights,
+ * then categories are averaged using theirs. Metrics missing from the rubric
+ * count with weight 1. Expects `category` to be set (see `assignRubricCategories`).
+ */
+export function calculateCallScore(
+  metricScores: ScoreCallOutput['metricScores'],
+  rubric: ScoringRubric
+): CallScoreBreakdown {
+  const rubricMetrics = new Map<string, RubricMetric>();
+  rubric.categories.forEach((category) =>
+    category.metrics.forEach((item) => rubricMetrics.set(normalizeMetricName(item.name), item))
+  );
+  const rubricMetricFor = (score: ScoreCallOutput['metricScores'][number]) =>
+    rubricMetrics.get(normalizeMetricName(score.metric));
+
+  const averages = computeMetricCategoryAverages(metricScores, (score) => rubricMetricFor(score)?.weight ?? 1);
+  const rubricOrder = rubric.categories.map((category) => category.name);
+  const categoryNames = [
+    ...rubricOrder.filter((name) => averages.has(name)),
+    ...[...averages.keys()].filter((name) => !rubricOrder.includes(name)),
+  ];
+  const categoryScores = categoryNames.map((name): CategoryScore => ({
+    category: name,
+    score: roundScore(averages.get(name)!),
+    weight: rubric.categories.find((category) => category.name === name)?.weight ?? 1,
+    metricCount: metricScores.filter((score) => getMetricCategory(score) === name).length,
+  }));
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  categoryNames.forEach((name, index) => {
+    const { weight } = categoryScores[index];
+    weightedSum += averages.get(name)! * weight;
+    totalWeight += weight;
+  });
+  const overallScore = totalWeight > 0 ? roundScore(weightedSum / totalWeight) : 0;
+
+  const criticalFailures = metricScores
+    .filter((score) => rubricMetricFor(score)?.critical && score.score <= CRITICAL_FAIL_MAX_SCORE)
+    .map((score) => rubricMetricFor(score)!.name);
+
+  return {
+    overallScore,
+    callCategorisation: criticalFailures.length > 0 ? 'Poor' : categoriseScore(overallScore),
+    categoryScores,
+    criticalFailures,
+  };
+}
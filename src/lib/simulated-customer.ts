@@ -0,0 +1,180 @@
+/**
+ * Scripted customers for the voice sales agent. A persona belongs to one of
+ * the `CUSTOMER_COHORTS` and carries an objection script, a patience budget
+ * and a purchase intent. What the customer does each turn (raise the next
+ * scripted objection, hang up, or reply with or without being willing to buy)
+ * is decided here from the persona, the customer state and a seed; a model
+ * only puts the reply into words.
+ */
+import {
+  CUSTOMER_COHORTS,
+  type SimulatedCustomerIntent,
+  type SimulatedCustomerObjection,
+  type SimulatedCustomerPersona,
+  type SimulatedCustomerState,
+} from '@/types';
+
+/** Agent turns longer than this cost the customer two units of patience. */
+const LONG_AGENT_TURN_WORDS = 60;
+const FIRST_OBJECTION_TURN = 2;
+const OBJECTION_SPACING_TURNS = 2;
+
+const PRESET_PERSONAS: SimulatedCustomerPersona[] = [
+  {
+    id: 'payment-dropoff',
+    name: 'Payment Dropoff',
+    cohort: 'Payment Dropoff',
+    description: 'Started checkout yesterday but abandoned at the payment step. Mildly interested, a little embarrassed, wants reassurance that payment is safe and simple.',
+    objections: [
+      { category: 'TRUST', line: "Last time the payment page just kept loading. I'm not sure I want to try that again." },
+      { category: 'PRICE' },
+    ],
+    patience: 14,
+    purchaseIntent: 0.6,
+  },
+  {
+    id: 'price-sensitive-student',
+    name: 'Price-sensitive student',
+    cohort: 'Students',
+    description: 'A university student on a tight budget. Curious about the content but compares everything with free alternatives. Talks casually.',
+    objections: [
+      { category: 'PRICE', line: "Honestly that's a lot for me, I'm a student." },
+      { category: 'COMPETITOR', line: 'I can get most of this for free online anyway.' },
+      { category: 'THINK_ABOUT_IT' },
+    ],
+    patience: 10,
+    purchaseIntent: 0.3,
+  },
+  {
+    id: 'free-trial-expired',
+    name: 'Lapsed free trial user',
+    cohort: 'Free Trial Expired',
+    description: 'Used the free trial for a week, liked it, then forgot about it. Friendly but busy; needs a reason to come back now.',
+    objections: [{ category: 'TIME', line: "I liked it, I just didn't really find the time to read." }],
+    patience: 12,
+    purchaseIntent: 0.55,
+  },
+  {
+    id: 'busy-business-owner',
+    name: 'Busy business owner',
+    cohort: 'Business Owners',
+    description: 'Runs a small manufacturing business and picks up between meetings. Impatient, direct and wants the bottom line quickly.',
+    objections: [
+      { category: 'TIME', line: "I've got two minutes. What's in it for me?", afterAgentTurns: 1 },
+      { category: 'NEED' },
+    ],
+    patience: 7,
+    purchaseIntent: 0.4,
+  },
+  {
+    id: 'sceptical-investor',
+    name: 'Sceptical active investor',
+    cohort: 'Active Investors',
+    description: 'Trades actively and already pays for two research services. Knowledgeable, sceptical of marketing claims, asks pointed questions.',
+    objections: [
+      { category: 'COMPETITOR', line: 'I already pay for research. Why would I need yours as well?' },
+      { category: 'TRUST', line: "How do I know your recommendations are any good?" },
+    ],
+    patience: 12,
+    purchaseIntent: 0.35,
+  },
+  {
+    id: 'loyal-renewal',
+    name: 'Loyal subscriber up for renewal',
+    cohort: 'Payment Recovery & Renewals',
+    description: 'A subscriber of several years whose auto-renewal failed. Warm, happy with the product, mostly needs the renewal made easy.',
+    objections: [{ category: 'PRICE', line: 'Is the renewal price going up again?' }],
+    patience: 16,
+    purchaseIntent: 0.85,
+  },
+];
+
+const slug = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/** A neutral persona for cohorts without a preset. */
+export const genericPersonaForCohort = (cohort: string): SimulatedCustomerPersona => ({
+  id: `cohort-${slug(cohort)}`,
+  name: `${cohort} customer`,
+  cohort,
+  description: `A typical customer from the "${cohort}" cohort: polite, moderately interested and careful with money.`,
+  objections: [{ category: 'PRICE' }, { category: 'THINK_ABOUT_IT' }],
+  patience: 12,
+  purchaseIntent: 0.5,
+});
+
+/** The preset personas, then one generic persona for every cohort without a preset. */
+export function getSimulatedCustomerPersonas(cohorts: readonly string[] = CUSTOMER_COHORTS): SimulatedCustomerPersona[] {
+  const covered = new Set(PRESET_PERSONAS.map((persona) => persona.cohort));
+  return [...PRESET_PERSONAS, ...cohorts.filter((cohort) => !covered.has(cohort)).map(genericPersonaForCohort)];
+}
+
+/** Mulberry32: a small, fast PRNG so seeded simulations are reproducible. */
+export function seededRandom(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSimulatedCustomerState(persona: SimulatedCustomerPersona, seed: number): SimulatedCustomerState {
+  return {
+    agentTurnsHeard: 0,
+    patienceLeft: persona.patience,
+    objectionsRaised: 0,
+    willBuy: seededRandom(seed)() < persona.purchaseIntent,
+  };
+}
+
+export type SimulatedCustomerDirective =
+  | { kind: 'RAISE_OBJECTION'; objection: SimulatedCustomerObjection }
+  | { kind: 'HANG_UP' }
+  /** Reply freely; agreeing to buy is only allowed when `willingToBuy`. */
+  | { kind: 'RESPOND'; willingToBuy: boolean };
+
+export interface SimulatedCustomerPlan {
+  state: SimulatedCustomerState;
+  directive: SimulatedCustomerDirective;
+}
+
+const objectionDueTurn = (objection: SimulatedCustomerObjection, index: number): number =>
+  objection.afterAgentTurns ?? FIRST_OBJECTION_TURN + index * OBJECTION_SPACING_TURNS;
+
+/** Decides the customer's next move after hearing `agentText`. */
+export function planSimulatedCustomerTurn(
+  persona: SimulatedCustomerPersona,
+  state: SimulatedCustomerState,
+  agentText: string
+): SimulatedCustomerPlan {
+  const words = agentText.trim().split(/\s+/).filter(Boolean).length;
+  const heard: SimulatedCustomerState = {
+    ...state,
+    agentTurnsHeard: state.agentTurnsHeard + 1,
+    patienceLeft: state.patienceLeft - (words > LONG_AGENT_TURN_WORDS ? 2 : 1),
+  };
+  if (heard.patienceLeft <= 0) {
+    return { state: { ...heard, outcome: 'HUNG_UP' }, directive: { kind: 'HANG_UP' } };
+  }
+  const objection = persona.objections[heard.objectionsRaised];
+  if (objection && heard.agentTurnsHeard >= objectionDueTurn(objection, heard.objectionsRaised)) {
+    return {
+      state: { ...heard, objectionsRaised: heard.objectionsRaised + 1 },
+      directive: { kind: 'RAISE_OBJECTION', objection },
+    };
+  }
+  return {
+    state: heard,
+    directive: { kind: 'RESPOND', willingToBuy: heard.willBuy && heard.objectionsRaised >= persona.objections.length },
+  };
+}
+
+/** Applies what the customer actually said to the state. */
+export function recordSimulatedCustomerReply(state: SimulatedCustomerState, intent: SimulatedCustomerIntent): SimulatedCustomerState {
+  if (intent === 'AGREE') return { ...state, outcome: 'BOUGHT' };
+  if (intent === 'DECLINE') return { ...state, outcome: 'DECLINED' };
+  if (intent === 'HANG_UP') return { ...state, outcome: 'HUNG_UP' };
+  return state;
+}
@@ -0,0 +1,158 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Practice history for role-play training, persisted in SQLite: one row per
+ * scored session, keyed by the trainee who played the agent.
+ * `TRAINING_STORE_PATH` overrides the file location (defaults to `.data/training.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { ActivityScope } from '@/lib/activity-store';
+import type { CallScoreCategory, RubricReference, TrainingImprovementSituation, TrainingSession } from '@/types';
+
+type SessionRow = {
+  id: string;
+  trainee_id: string;
+  trainee_name: string;
+  workspace_id: string;
+  product: string;
+  cohort: string;
+  persona_id: string;
+  persona_name: string;
+  ended_by: TrainingSession['endedBy'];
+  customer_outcome: string | null;
+  trainee_turns: number;
+  started_at: string;
+  ended_at: string;
+  transcript: string;
+  overall_score: number;
+  call_categorisation: CallScoreCategory;
+  summary: string;
+  improvement_situations: string;
+  rubric: string | null;
+};
+
+export interface TrainingHistoryQuery {
+  /** Narrows the history to one trainee; ignored when the scope already does. */
+  traineeId?: string;
+  limit?: number;
+}
+
+const DEFAULT_TRAINING_DB_PATH = path.join(process.cwd(), '.data', 'training.db');
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+const rowToSession = (row: SessionRow): TrainingSession => ({
+  id: row.id,
+  traineeId: row.trainee_id,
+  traineeName: row.trainee_name,
+  workspaceId: row.workspace_id,
+  product: row.product,
+  cohort: row.cohort,
+  personaId: row.persona_id,
+  personaName: row.persona_name,
+  endedBy: row.ended_by,
+  customerOutcome: (row.customer_outcome ?? undefined) as TrainingSession['customerOutcome'],
+  traineeTurns: row.trainee_turns,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  transcript: row.transcript,
+  overallScore: row.overall_score,
+  callCategorisation: row.call_categorisation,
+  summary: row.summary,
+  improvementSituations: JSON.parse(row.improvement_situations) as TrainingImprovementSituation[],
+  rubric: row.rubric ? (JSON.parse(row.rubric) as RubricReference) : undefined,
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.TRAINING_STORE_PATH || DEFAULT_TRAINING_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS training_sessions (
+        id TEXT PRIMARY KEY,
+        trainee_id TEXT NOT NULL,
+        trainee_name TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        product TEXT NOT NULL,
+        cohort TEXT NOT NULL,
+        persona_id TEXT NOT NULL,
+        persona_name TEXT NOT NULL,
+        ended_by TEXT NOT NULL,
+        customer_outcome TEXT,
+        trainee_turns INTEGER NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT NOT NULL,
+        transcript TEXT NOT NULL,
+        overall_score REAL NOT NULL,
+        call_categorisation TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        improvement_situations TEXT NOT NULL,
+        rubric TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_training_sessions_trainee ON training_sessions (workspace_id, trainee_id, ended_at DESC);
+    `);
+  }
+  return database;
+}
+
+export function saveTrainingSession(session: Omit<TrainingSession, 'id'>): TrainingSession {
+  const saved: TrainingSession = { ...session, id: randomUUID() };
+  getDb()
+    .prepare(`
+      INSERT INTO training_sessions (
+        id, trainee_id, trainee_name, workspace_id, product, cohort, persona_id, persona_name, ended_by, customer_outcome,
+        trainee_turns, started_at, ended_at, transcript, overall_score, call_categorisation, summary, improvement_situations, rubric
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      saved.id,
+      saved.traineeId,
+      saved.traineeName,
+      saved.workspaceId,
+      saved.product,
+      saved.cohort,
+      saved.personaId,
+      saved.personaName,
+      saved.endedBy,
+      saved.customerOutcome ?? null,
+      saved.traineeTurns,
+      saved.startedAt,
+      saved.endedAt,
+      saved.transcript,
+      saved.overallScore,
+      saved.callCategorisation,
+      saved.summary,
+      JSON.stringify(saved.improvementSituations),
+      saved.rubric ? JSON.stringify(saved.rubric) : null
+    );
+  return saved;
+}
+
+/** Newest-first sessions visible within `scope`. */
+export function listTrainingSessions(scope: ActivityScope, query: TrainingHistoryQuery = {}): TrainingSession[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (scope.workspaceId) {
+    conditions.push('workspace_id = ?');
+    params.push(scope.workspaceId);
+  }
+  const traineeId = scope.agentId ?? query.traineeId;
+  if (traineeId) {
+    conditions.push('trainee_id = ?');
+    params.push(traineeId);
+  }
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_HISTORY_LIMIT), 1), MAX_HISTORY_LIMIT);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDb()
+    .prepare(`SELECT * FROM training_sessions ${where} ORDER BY ended_at DESC, id DESC LIMIT ?`)
+    .all(...params, limit) as SessionRow[];
+  return rows.map(rowToSession);
+}
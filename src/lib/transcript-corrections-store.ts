@@ -0,0 +1,297 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Versioned reviewer corrections of call transcripts, persisted in SQLite.
+ * Version 0 is the machine transcript, kept as it was when first corrected so
+ * accuracy is always measured against what the ASR produced. Each save applies
+ * the reviewer's edits to the latest version and adds the next one, with the
+ * changes it made and the machine transcript's accuracy against it.
+ * `TRANSCRIPT_CORRECTIONS_STORE_PATH` overrides the file location (defaults to
+ * `.data/transcript-corrections.db`).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { normalizeTranscript } from '@/lib/transcript/normalize';
+import {
+  applyTranscriptEdits,
+  measureTranscriptAccuracy,
+  wordErrorRate,
+  type AgentTranscriptAccuracy,
+  type CallTranscriptAccuracy,
+  type SaveTranscriptCorrectionInput,
+  type TranscriptAccuracy,
+  type TranscriptChange,
+} from '@/lib/transcript/corrections';
+import type { ActivityLogEntry } from '@/types';
+import type { TranscriptDoc } from '@/types/transcript';
+
+type CorrectedTranscriptRow = {
+  workspace_id: string;
+  activity_id: string;
+  file_name: string | null;
+  agent_name: string | null;
+  original: string;
+  created_at: string;
+};
+
+type TranscriptVersionRow = {
+  workspace_id: string;
+  activity_id: string;
+  version: number;
+  transcript: string;
+  changes: string;
+  accuracy: string;
+  note: string | null;
+  updated_by: string | null;
+  updated_at: string;
+};
+
+export interface TranscriptVersion {
+  activityId: string;
+  version: number;
+  transcript: TranscriptDoc;
+  /** What changed since the version before; empty for version 0 */
+  changes: TranscriptChange[];
+  note?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  /** The machine transcript measured against this version */
+  accuracy?: TranscriptAccuracy;
+}
+
+export interface TranscriptVersionSummary {
+  version: number;
+  note?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  changeCount: number;
+  wordErrorRate?: number;
+}
+
+/** Payload of `GET`/`PUT /api/transcript-corrections/:activityId`. */
+export type TranscriptCorrectionsResponse = { version: TranscriptVersion; versions: TranscriptVersionSummary[] };
+
+/** Payload of `GET /api/transcript-corrections/dataset` as JSON. */
+export type TranscriptAccuracyDataset = { calls: CallTranscriptAccuracy[]; agents: AgentTranscriptAccuracy[] };
+
+/** The call a transcript belongs to, recorded with its first correction. */
+export interface CorrectedCall {
+  activityId: string;
+  fileName?: string;
+  agentName?: string;
+  /** The machine transcript, used as version 0 when the call has no corrections yet */
+  machineTranscript: TranscriptDoc;
+}
+
+const DEFAULT_CORRECTIONS_DB_PATH = path.join(process.cwd(), '.data', 'transcript-corrections.db');
+
+/**
+ * The machine transcript of a transcription or call scoring entry, normalized
+ * as the Transcription Dashboard shows it; null when the entry has none
+ */
+export function machineTranscriptFor(entry: ActivityLogEntry): TranscriptDoc | null {
+  const details = (entry.details ?? {}) as {
+    transcriptionOutput?: { segments?: unknown[] };
+    scoreOutput?: { transcript?: unknown };
+  };
+  let transcript: TranscriptDoc | null = null;
+  if (Array.isArray(details.transcriptionOutput?.segments)) {
+    transcript = normalizeTranscript(
+      { segments: details.transcriptionOutput.segments },
+      { source: 'transcription-dashboard', mergeConsecutiveTurns: true }
+    );
+  } else if (typeof details.scoreOutput?.transcript === 'string') {
+    transcript = normalizeTranscript(details.scoreOutput.transcript, { source: 'call-scoring' });
+  }
+  return transcript && transcript.turns.length > 0 ? transcript : null;
+}
+
+/** Version 0 of a call that has not been corrected yet. */
+export const machineVersion = (activityId: string, transcript: TranscriptDoc): TranscriptVersion => ({
+  activityId,
+  version: 0,
+  transcript,
+  changes: [],
+});
+
+const rowToVersion = (row: TranscriptVersionRow): TranscriptVersion => ({
+  activityId: row.activity_id,
+  version: row.version,
+  transcript: JSON.parse(row.transcript) as TranscriptDoc,
+  changes: JSON.parse(row.changes) as TranscriptChange[],
+  note: row.note ?? undefined,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by ?? undefined,
+  accuracy: JSON.parse(row.accuracy) as TranscriptAccuracy,
+});
+
+const originalVersion = (row: CorrectedTranscriptRow): TranscriptVersion => ({
+  ...machineVersion(row.activity_id, JSON.parse(row.original) as TranscriptDoc),
+  updatedAt: row.created_at,
+});
+
+const toSummary = (version: TranscriptVersion): TranscriptVersionSummary => ({
+  version: version.version,
+  note: version.note,
+  updatedAt: version.updatedAt,
+  updatedBy: version.updatedBy,
+  changeCount: version.changes.length,
+  wordErrorRate: version.accuracy ? wordErrorRate(version.accuracy) : undefined,
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.TRANSCRIPT_CORRECTIONS_STORE_PATH || DEFAULT_CORRECTIONS_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS corrected_transcripts (
+        workspace_id TEXT NOT NULL,
+        activity_id TEXT NOT NULL,
+        file_name TEXT,
+        agent_name TEXT,
+        original TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, activity_id)
+      );
+      CREATE TABLE IF NOT EXISTS transcript_versions (
+        workspace_id TEXT NOT NULL,
+        activity_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        transcript TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        accuracy TEXT NOT NULL,
+        note TEXT,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, activity_id, version)
+      );
+    `);
+  }
+  return database;
+}
+
+const getCorrectedTranscript = (workspaceId: string, activityId: string): CorrectedTranscriptRow | undefined =>
+  getDb()
+    .prepare('SELECT * FROM corrected_transcripts WHERE workspace_id = ? AND activity_id = ?')
+    .get(workspaceId, activityId) as CorrectedTranscriptRow | undefined;
+
+/**
+ * A version of a call's transcript, the latest when `version` is omitted;
+ * null when the call has no corrections (its transcript is then the machine one)
+ */
+export function getTranscriptVersion(workspaceId: string, activityId: string, version?: number): TranscriptVersion | null {
+  const original = getCorrectedTranscript(workspaceId, activityId);
+  if (!original) return null;
+  if (version === 0) return originalVersion(original);
+  const row = (
+    version === undefined
+      ? getDb()
+          .prepare('SELECT * FROM transcript_versions WHERE workspace_id = ? AND activity_id = ? ORDER BY version DESC LIMIT 1')
+          .get(workspaceId, activityId)
+      : getDb()
+          .prepare('SELECT * FROM transcript_versions WHERE workspace_id = ? AND activity_id = ? AND version = ?')
+          .get(workspaceId, activityId, version)
+  ) as TranscriptVersionRow | undefined;
+  if (row) return rowToVersion(row);
+  return version === undefined ? originalVersion(original) : null;
+}
+
+/** All versions of a call's transcript, newest first, ending with the machine one; empty before any correction. */
+export function listTranscriptVersions(workspaceId: string, activityId: string): TranscriptVersionSummary[] {
+  const original = getCorrectedTranscript(workspaceId, activityId);
+  if (!original) return [];
+  const rows = getDb()
+    .prepare('SELECT * FROM transcript_versions WHERE workspace_id = ? AND activity_id = ? ORDER BY version DESC')
+    .all(workspaceId, activityId) as TranscriptVersionRow[];
+  return [...rows.map((row) => toSummary(rowToVersion(row))), toSummary(originalVersion(original))];
+}
+
+export function saveTranscriptCorrection(
+  workspaceId: string,
+  call: CorrectedCall,
+  input: SaveTranscriptCorrectionInput,
+  updatedBy: string
+): TranscriptVersion {
+  const db = getDb();
+  return db.transaction((): TranscriptVersion => {
+    const now = new Date().toISOString();
+    let original = getCorrectedTranscript(workspaceId, call.activityId);
+    if (!original) {
+      original = {
+        workspace_id: workspaceId,
+        activity_id: call.activityId,
+        file_name: call.fileName ?? null,
+        agent_name: call.agentName ?? null,
+        original: JSON.stringify(call.machineTranscript),
+        created_at: now,
+      };
+      db.prepare(`
+        INSERT INTO corrected_transcripts (workspace_id, activity_id, file_name, agent_name, original, created_at)
+        VALUES (@workspace_id, @activity_id, @file_name, @agent_name, @original, @created_at)
+      `).run(original);
+    }
+
+    const latest = getTranscriptVersion(workspaceId, call.activityId) ?? originalVersion(original);
+    if (input.baseVersion !== latest.version) {
+      throw new Error(
+        `The transcript has changed since version ${input.baseVersion}: version ${latest.version} was saved` +
+          `${latest.updatedBy ? ` by ${latest.updatedBy}` : ''}. Reload it and make your corrections again.`
+      );
+    }
+    const { transcript, changes } = applyTranscriptEdits(latest.transcript, input.edits);
+    const machine = JSON.parse(original.original) as TranscriptDoc;
+    const row: TranscriptVersionRow = {
+      workspace_id: workspaceId,
+      activity_id: call.activityId,
+      version: latest.version + 1,
+      transcript: JSON.stringify(transcript),
+      changes: JSON.stringify(changes),
+      accuracy: JSON.stringify(measureTranscriptAccuracy(machine, transcript)),
+      note: input.note || null,
+      updated_by: updatedBy,
+      updated_at: now,
+    };
+    db.prepare(`
+      INSERT INTO transcript_versions (workspace_id, activity_id, version, transcript, changes, accuracy, note, updated_by, updated_at)
+      VALUES (@workspace_id, @activity_id, @version, @transcript, @changes, @accuracy, @note, @updated_by, @updated_at)
+    `).run(row);
+    return rowToVersion(row);
+  })();
+}
+
+/**
+ * Accuracy of every corrected call in the workspace against its latest version, newest first
+ */
+export function listTranscriptAccuracy(workspaceId: string): CallTranscriptAccuracy[] {
+  const rows = getDb()
+    .prepare(`
+      SELECT c.file_name, c.agent_name, v.activity_id, v.version, v.accuracy, v.updated_by, v.updated_at
+      FROM corrected_transcripts c
+      JOIN transcript_versions v ON v.workspace_id = c.workspace_id AND v.activity_id = c.activity_id
+      WHERE c.workspace_id = ?
+        AND v.version = (
+          SELECT MAX(version) FROM transcript_versions
+          WHERE workspace_id = c.workspace_id AND activity_id = c.activity_id
+        )
+      ORDER BY v.updated_at DESC
+    `)
+    .all(workspaceId) as Array<
+    Pick<CorrectedTranscriptRow, 'file_name' | 'agent_name'> &
+      Pick<TranscriptVersionRow, 'activity_id' | 'version' | 'accuracy' | 'updated_by' | 'updated_at'>
+  >;
+  return rows.map((row) => ({
+    activityId: row.activity_id,
+    fileName: row.file_name ?? undefined,
+    agentName: row.agent_name ?? undefined,
+    version: row.version,
+    correctedAt: row.updated_at,
+    correctedBy: row.updated_by ?? undefined,
+    ...(JSON.parse(row.accuracy) as TranscriptAccuracy),
+  }));
+}
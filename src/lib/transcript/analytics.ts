@@ -0,0 +1,242 @@
+/**
+ * @fileOverview Deterministic conversation analytics over TranscriptDoc
+ *
+ * Computes talk ratio, monologues, interruptions, dead air, questions,
+ * first-question/price/offer times and speaking rate from turn timestamps,
+ * so scoring can use measured values instead of the model's estimates.
+ *
+ * RULES:
+ * 1. Only interactive turns (agent, customer) are measured; pre-call audio is ignored
+ * 2. Times are seconds from the start of the first interactive turn
+ * 3. Keyword detection (price, offer, call to action) covers English and romanized Hindi
+ */
+
+import type { ConversationAnalytics } from '@/types';
+import type { TranscriptDoc, TranscriptTurn } from '@/types/transcript';
+import { isInteractiveProfile } from '@/types/transcript';
+
+type Speaker = 'agent' | 'customer';
+
+/** Silences at least this long between turns count as dead air */
+const DEAD_AIR_THRESHOLD_S = 3;
+
+/** Overlaps shorter than this are diarization jitter, not interruptions */
+const OVERLAP_TOLERANCE_S = 0.3;
+
+const OPEN_QUESTION_PATTERN = /^(what|why|how|which|tell me|describe|explain|kya|kaise|kyun|kyon|kaun sa|kis)\b/i;
+const INTERROGATIVE_START_PATTERN = /^(what|why|how|when|where|which|who|whom|whose|can|could|would|will|do|does|did|is|are|have|has|may|shall|should|kya|kaise|kyun|kyon|kab|kahan|kaun|kitna|kitne)\b/i;
+const PRICE_PATTERN = /₹|\brs\.?\s?\d|\binr\b|\brupees?\b|\brupaye\b|\d\s?\/-|\b(price|pricing|cost|costs|fee|fees|charges?|amount)\b|\d+\s?(per|a|\/)\s?(month|year|annum)\b/i;
+const OFFER_PATTERN = /\b(offers?|discount(ed)?|\d+\s?(%|percent)\s?off|free trial|trial period|special price|deal|cashback|complimentary|limited[- ]period)\b/i;
+const CTA_PATTERN = /\b((shall|should|can|may) i (go ahead|proceed|book|activate|confirm|send (you )?the (payment )?link)|would you like to (subscribe|go ahead|proceed|take|buy|purchase|activate|renew)|do you want to (subscribe|go ahead|proceed|take|renew)|let'?s (go ahead|proceed)|ready to (subscribe|go ahead|proceed)|payment link|kar (du|doon|dein)|book kar)\b/i;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const speakerOf = (turn: TranscriptTurn): Speaker => (turn.profile === 'agent' ? 'agent' : 'customer');
+
+/** Words actually spoken, without bracketed audio events like "[laughs]" */
+function countWords(text: string): number {
+  return text.replace(/\[[^\]]*\]/g, ' ').split(/\s+/).filter(word => /\w/.test(word)).length;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.?!])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function isQuestion(sentence: string): boolean {
+  return sentence.endsWith('?') || INTERROGATIVE_START_PATTERN.test(sentence);
+}
+
+/**
+ * Compute conversation analytics for a transcript
+ * Returns undefined when the transcript has no agent or customer turns
+ */
+export function computeConversationAnalytics(doc: TranscriptDoc): ConversationAnalytics | undefined {
+  const turns = doc.turns
+    .filter(turn => isInteractiveProfile(turn.profile))
+    .sort((a, b) => a.startS - b.startS);
+  if (turns.length === 0) return undefined;
+
+  const holdTurns = doc.turns.filter(turn => turn.profile === 'hold');
+  const origin = turns[0].startS;
+  const relative = (seconds: number) => round1(Math.max(0, seconds - origin));
+
+  const talkTimeS = { agent: 0, customer: 0 };
+  const words = { agent: 0, customer: 0 };
+  const questions = { agent: 0, customer: 0 };
+  const interruptions = { agent: 0, customer: 0 };
+  const deadAir = { count: 0, totalS: 0, longestS: 0 };
+  let agentOpenQuestions = 0;
+  let overlapS = 0;
+  let firstQuestionS: number | undefined;
+  let firstPriceMentionS: number | undefined;
+  let firstOfferS: number | undefined;
+  let lastCtaTurnIndex: number | undefined;
+  let longestMonologue: ConversationAnalytics['longestMonologue'];
+  let monologue: { speaker: Speaker; startS: number; endS: number } | undefined;
+  let latestEndS = turns[0].startS;
+
+  turns.forEach((turn, index) => {
+    const speaker = speakerOf(turn);
+    const durationS = Math.max(0, turn.endS - turn.startS);
+    talkTimeS[speaker] += durationS;
+    words[speaker] += countWords(turn.text);
+
+    // Silence since everything before this turn had finished
+    const gapS = turn.startS - latestEndS;
+    const onHold = holdTurns.some(hold => hold.startS < turn.startS && hold.endS > latestEndS);
+    if (gapS >= DEAD_AIR_THRESHOLD_S && !onHold) {
+      deadAir.count += 1;
+      deadAir.totalS += gapS;
+      deadAir.longestS = Math.max(deadAir.longestS, gapS);
+    }
+
+    // Starting before the other speaker finished is an interruption by this speaker
+    const previous = turns[index - 1];
+    if (previous && speakerOf(previous) !== speaker && turn.startS < previous.endS - OVERLAP_TOLERANCE_S) {
+      interruptions[speaker] += 1;
+      overlapS += Math.min(previous.endS, turn.endS) - turn.startS;
+    }
+
+    // Consecutive turns of one speaker without dead air form one monologue
+    if (monologue && monologue.speaker === speaker && gapS < DEAD_AIR_THRESHOLD_S) {
+      monologue.endS = Math.max(monologue.endS, turn.endS);
+    } else {
+      monologue = { speaker, startS: turn.startS, endS: turn.endS };
+    }
+    const monologueS = monologue.endS - monologue.startS;
+    if (!longestMonologue || monologueS > longestMonologue.durationS) {
+      longestMonologue = { speaker, startS: relative(monologue.startS), durationS: round1(monologueS) };
+    }
+
+    for (const sentence of splitSentences(turn.text)) {
+      if (!isQuestion(sentence)) continue;
+      questions[speaker] += 1;
+      if (speaker === 'agent') {
+        firstQuestionS ??= relative(turn.startS);
+        if (OPEN_QUESTION_PATTERN.test(sentence)) agentOpenQuestions += 1;
+      }
+    }
+
+    if (firstPriceMentionS === undefined && PRICE_PATTERN.test(turn.text)) {
+      firstPriceMentionS = relative(turn.startS);
+    }
+    if (speaker === 'agent') {
+      if (firstOfferS === undefined && OFFER_PATTERN.test(turn.text)) firstOfferS = relative(turn.startS);
+      if (CTA_PATTERN.test(turn.text)) lastCtaTurnIndex = index;
+    }
+
+    latestEndS = Math.max(latestEndS, turn.endS);
+  });
+
+  let postCtaSilenceS: number | undefined;
+  if (lastCtaTurnIndex !== undefined) {
+    const ctaTurn = turns[lastCtaTurnIndex];
+    const reply = turns.slice(lastCtaTurnIndex + 1).find(turn => speakerOf(turn) === 'customer');
+    if (reply) postCtaSilenceS = round1(Math.max(0, reply.startS - ctaTurn.endS));
+  }
+
+  const totalTalkS = talkTimeS.agent + talkTimeS.customer;
+  const wordsPerMinute = (speaker: Speaker) =>
+    talkTimeS[speaker] > 0 ? Math.round(words[speaker] / (talkTimeS[speaker] / 60)) : 0;
+
+  return {
+    timing: doc.metadata.timing ?? 'measured',
+    durationS: round1(latestEndS - origin),
+    talkTimeS: { agent: round1(talkTimeS.agent), customer: round1(talkTimeS.customer) },
+    agentTalkRatio: totalTalkS > 0 ? Math.round((talkTimeS.agent / totalTalkS) * 100) / 100 : 0,
+    longestMonologue,
+    interruptions,
+    overlapS: round1(overlapS),
+    deadAir: { count: deadAir.count, totalS: round1(deadAir.totalS), longestS: round1(deadAir.longestS) },
+    questions,
+    agentOpenQuestions,
+    firstQuestionS,
+    firstPriceMentionS,
+    firstOfferS,
+    postCtaSilenceS,
+    wordsPerMinute: { agent: wordsPerMinute('agent'), customer: wordsPerMinute('customer') },
+  };
+}
+
+const formatMoment = (seconds: number | undefined, missing: string) =>
+  seconds === undefined ? missing : `${seconds}s`;
+
+const formatTalkSplit = (analytics: ConversationAnalytics) => {
+  const agentPercent = Math.round(analytics.agentTalkRatio * 100);
+  return `Agent ${agentPercent}% / customer ${100 - agentPercent}% of talk time`;
+};
+
+/**
+ * Rubric metrics answered by a measured value, keyed by lowercase metric name
+ * Metrics not listed here are judged by the model alone
+ */
+const MEASURED_METRICS: Record<string, { timed: boolean; describe: (analytics: ConversationAnalytics) => string }> = {
+  'talk-listen ratio': { timed: true, describe: formatTalkSplit },
+  'talk ratio (agent vs user)': { timed: true, describe: formatTalkSplit },
+  'engagement duration % (user vs agent)': { timed: true, describe: formatTalkSplit },
+  'first question time (sec)': {
+    timed: true,
+    describe: a => formatMoment(a.firstQuestionS, 'The agent asked no question'),
+  },
+  'time to first offer (sec)': {
+    timed: true,
+    describe: a => formatMoment(a.firstOfferS, 'No offer was mentioned'),
+  },
+  'first price mention (sec)': {
+    timed: true,
+    describe: a => formatMoment(a.firstPriceMentionS, 'Price was not mentioned'),
+  },
+  'post-cta silence': {
+    timed: true,
+    describe: a => a.postCtaSilenceS === undefined
+      ? 'No call to action followed by a customer reply was found'
+      : `${a.postCtaSilenceS}s before the customer replied`,
+  },
+  'questions asked by customer': {
+    timed: false,
+    describe: a => `${a.questions.customer} question${a.questions.customer === 1 ? '' : 's'}`,
+  },
+  'questioning skills (open vs closed)': {
+    timed: false,
+    describe: a => `${a.agentOpenQuestions} open, ${a.questions.agent - a.agentOpenQuestions} closed questions`,
+  },
+};
+
+/** The measured value shown next to a rubric metric, or undefined if the metric is not measured */
+export function getMeasuredMetricValue(metric: string, analytics: ConversationAnalytics): string | undefined {
+  const measured = MEASURED_METRICS[metric.trim().toLowerCase()];
+  if (!measured) return undefined;
+  const value = measured.describe(analytics);
+  return measured.timed && analytics.timing === 'estimated' ? `${value} (estimated)` : value;
+}
+
+/**
+ * Format analytics as a prompt section for the scoring model
+ * Measured timings are stated as facts; estimated ones as approximations
+ */
+export function formatConversationAnalyticsForPrompt(analytics: ConversationAnalytics): string {
+  const preamble = analytics.timing === 'measured'
+    ? 'These figures were computed from the transcript timestamps. They are ground truth: use them as given, never estimate these values yourself, and quote them in the feedback for the metrics they answer (talk ratio, first question time, time to first offer, first price mention, post-CTA silence, questioning).'
+    : 'The transcript has no timestamps, so the times below were estimated from word counts. Treat them as approximate; the question counts are exact.';
+
+  const lines = [
+    `- Conversation duration: ${analytics.durationS}s`,
+    `- Talk time: agent ${analytics.talkTimeS.agent}s, customer ${analytics.talkTimeS.customer}s (${formatTalkSplit(analytics)})`,
+    analytics.longestMonologue
+      ? `- Longest monologue: ${analytics.longestMonologue.speaker}, ${analytics.longestMonologue.durationS}s starting at ${analytics.longestMonologue.startS}s`
+      : undefined,
+    `- Interruptions: agent cut in ${analytics.interruptions.agent} time(s), customer ${analytics.interruptions.customer} time(s); ${analytics.overlapS}s of overlapping speech`,
+    `- Dead air (silences of ${DEAD_AIR_THRESHOLD_S}s or more): ${analytics.deadAir.count}, ${analytics.deadAir.totalS}s in total, longest ${analytics.deadAir.longestS}s`,
+    `- Questions: agent ${analytics.questions.agent} (${analytics.agentOpenQuestions} open), customer ${analytics.questions.customer}`,
+    `- First agent question: ${formatMoment(analytics.firstQuestionS, 'none')}`,
+    `- First offer mention: ${formatMoment(analytics.firstOfferS, 'none')}`,
+    `- First price mention: ${formatMoment(analytics.firstPriceMentionS, 'none')}`,
+    `- Post-CTA silence: ${analytics.postCtaSilenceS === undefined ? 'no call to action followed by a customer reply' : `${analytics.postCtaSilenceS}s`}`,
+    `- Speaking rate: agent ${analytics.wordsPerMinute.agent} wpm, customer ${analytics.wordsPerMinute.customer} wpm`,
+  ].filter((line): line is string => line !== undefined);
+
+  return `**[MEASURED CONVERSATION ANALYTICS]**\n${preamble}\n${lines.join('\n')}\n**[END MEASURED CONVERSATION ANALYTICS]**`;
+}
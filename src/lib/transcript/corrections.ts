@@ -0,0 +1,422 @@
+/**
+ * @fileOverview Reviewer corrections to a TranscriptDoc and transcription accuracy
+ *
+ * A reviewer fixes a transcript with a list of edits:
+ * - text: correct the words of a turn
+ * - speaker: reassign a turn to the agent or the customer, optionally naming them
+ * - profile: relabel a turn, e.g. an "IVR" turn that is really the agent
+ * - split: break a turn in two after a word
+ * - merge: join a turn with the one after it
+ * - delete: drop a turn the ASR made up
+ *
+ * Edits are applied in order, and each refers to turn indexes as they are
+ * after the edits before it. Applying them also describes each change, which
+ * is kept as the diff of the saved version.
+ *
+ * Measuring the machine transcript against a corrected one gives its word
+ * error rate (WER) and its speaker-attributed WER, where a word given to the
+ * wrong speaker also counts as an error.
+ *
+ * Client-safe: no Node or browser APIs.
+ */
+
+import { z } from 'zod';
+import type { BaseRole, Profile, SpeakerRole, TranscriptDoc, TranscriptTurn } from '@/types/transcript';
+import { csvCell, exportSpeakerLabel } from './export';
+import { detectPreCall } from './normalize';
+
+export const PROFILE_LABELS: Record<Profile, string> = {
+  agent: 'Agent',
+  customer: 'Customer',
+  ivr: 'IVR',
+  system: 'System',
+  hold: 'On Hold',
+  waiting: 'Waiting',
+  noise: 'Background',
+  peerAgent: 'Agent (Internal)',
+  supervisor: 'Supervisor',
+  other: 'Other',
+};
+
+export const TRANSCRIPT_PROFILES = Object.keys(PROFILE_LABELS) as Profile[];
+
+const TurnIndexSchema = z.number().int().min(0);
+
+export const TranscriptEditSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    turn: TurnIndexSchema,
+    text: z.string().trim().min(1, 'Corrected text cannot be empty; delete the turn instead.'),
+  }),
+  z.object({
+    type: z.literal('speaker'),
+    turn: TurnIndexSchema,
+    speaker: z.enum(['AGENT', 'USER']),
+    /** Empty or missing clears the name */
+    speakerName: z.string().trim().max(80).optional(),
+  }),
+  z.object({
+    type: z.literal('profile'),
+    turn: TurnIndexSchema,
+    profile: z.enum(['agent', 'customer', 'ivr', 'system', 'hold', 'waiting', 'noise', 'peerAgent', 'supervisor', 'other']),
+  }),
+  z.object({ type: z.literal('split'), turn: TurnIndexSchema, atWord: z.number().int().min(1) }),
+  z.object({ type: z.literal('merge'), turn: TurnIndexSchema }),
+  z.object({ type: z.literal('delete'), turn: TurnIndexSchema }),
+]);
+export type TranscriptEdit = z.infer<typeof TranscriptEditSchema>;
+export type TranscriptEditType = TranscriptEdit['type'];
+
+export const MAX_EDITS_PER_SAVE = 2000;
+
+export const SaveTranscriptCorrectionSchema = z.object({
+  /** The version the edits were made on; saving fails if a newer one exists */
+  baseVersion: z.number().int().min(0),
+  edits: z.array(TranscriptEditSchema).min(1, 'There are no changes to save.').max(MAX_EDITS_PER_SAVE),
+  note: z.string().trim().max(500).optional(),
+});
+export type SaveTranscriptCorrectionInput = z.infer<typeof SaveTranscriptCorrectionSchema>;
+
+/**
+ * One applied edit, as what it replaced and what it left: the words of a
+ * corrected turn, the old and new label of a speaker or profile change, or
+ * "Speaker: text" for each turn a split, merge or deletion touched
+ */
+export interface TranscriptChange {
+  type: TranscriptEditType;
+  /** Index of the edited turn at the time of the edit */
+  turn: number;
+  /** Where the turn starts in the recording */
+  startS: number;
+  before: string[];
+  after: string[];
+}
+
+export const EDIT_TYPE_LABELS: Record<TranscriptEditType, string> = {
+  text: 'Words corrected',
+  speaker: 'Speaker reassigned',
+  profile: 'Profile relabelled',
+  split: 'Turn split',
+  merge: 'Turns merged',
+  delete: 'Turn deleted',
+};
+
+const wordsOf = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+const turnStartMs = (turn: TranscriptTurn): number => turn.startMs ?? turn.startS * 1000;
+const turnEndMs = (turn: TranscriptTurn): number => turn.endMs ?? turn.endS * 1000;
+
+const roleForProfile = (profile: Profile): { speaker: SpeakerRole; baseRole: BaseRole } => {
+  if (profile === 'agent') return { speaker: 'AGENT', baseRole: 'agent' };
+  if (profile === 'customer') return { speaker: 'USER', baseRole: 'user' };
+  return { speaker: 'SYSTEM', baseRole: 'user' };
+};
+
+const describeTurn = (turn: TranscriptTurn): string => `${exportSpeakerLabel(turn)}: ${turn.text}`;
+
+/**
+ * Apply one edit to the turns in place, returning the change it made
+ */
+function applyEdit(turns: TranscriptTurn[], edit: TranscriptEdit): TranscriptChange {
+  const turn = turns[edit.turn];
+  if (!turn) {
+    throw new Error(`Turn ${edit.turn + 1} does not exist; the transcript has ${turns.length} turns.`);
+  }
+  const change = (before: string[], after: string[]): TranscriptChange => ({
+    type: edit.type,
+    turn: edit.turn,
+    startS: turn.startS,
+    before,
+    after,
+  });
+
+  switch (edit.type) {
+    case 'text': {
+      turns[edit.turn] = { ...turn, text: edit.text };
+      return change([turn.text], [edit.text]);
+    }
+    case 'speaker': {
+      const profile: Profile = edit.speaker === 'AGENT' ? 'agent' : 'customer';
+      const updated: TranscriptTurn = { ...turn, ...roleForProfile(profile), profile, speakerName: edit.speakerName || undefined };
+      turns[edit.turn] = updated;
+      return change([exportSpeakerLabel(turn)], [exportSpeakerLabel(updated)]);
+    }
+    case 'profile': {
+      const role = roleForProfile(edit.profile);
+      // A name belongs to whoever the turn was attributed to before
+      const speakerName = role.speaker === turn.speaker ? turn.speakerName : undefined;
+      const updated: TranscriptTurn = { ...turn, ...role, profile: edit.profile, speakerName };
+      turns[edit.turn] = updated;
+      return change([PROFILE_LABELS[turn.profile]], [PROFILE_LABELS[edit.profile]]);
+    }
+    case 'split': {
+      const words = wordsOf(turn.text);
+      if (edit.atWord >= words.length) {
+        throw new Error(`Turn ${edit.turn + 1} has ${words.length} words, so it can only be split after words 1 to ${words.length - 1}.`);
+      }
+      // Transcripts have turn timings only, so the time is shared out by word count
+      const startMs = turnStartMs(turn);
+      const splitMs = Math.round(startMs + (turnEndMs(turn) - startMs) * (edit.atWord / words.length));
+      const first: TranscriptTurn = { ...turn, text: words.slice(0, edit.atWord).join(' '), endMs: splitMs, endS: splitMs / 1000 };
+      const second: TranscriptTurn = { ...turn, text: words.slice(edit.atWord).join(' '), startMs: splitMs, startS: splitMs / 1000 };
+      turns.splice(edit.turn, 1, first, second);
+      return change([describeTurn(turn)], [describeTurn(first), describeTurn(second)]);
+    }
+    case 'merge': {
+      const next = turns[edit.turn + 1];
+      if (!next) {
+        throw new Error(`Turn ${edit.turn + 1} is the last turn; there is no next turn to merge it with.`);
+      }
+      const merged: TranscriptTurn = {
+        ...turn,
+        text: `${turn.text} ${next.text}`,
+        endS: Math.max(turn.endS, next.endS),
+        endMs: Math.max(turnEndMs(turn), turnEndMs(next)),
+      };
+      // Word-weighted confidence, as when normalization merges turns
+      if (turn.confidence !== undefined && next.confidence !== undefined) {
+        const turnWords = wordsOf(turn.text).length;
+        const nextWords = wordsOf(next.text).length;
+        merged.confidence = (turn.confidence * turnWords + next.confidence * nextWords) / Math.max(1, turnWords + nextWords);
+      }
+      turns.splice(edit.turn, 2, merged);
+      return change([describeTurn(turn), describeTurn(next)], [describeTurn(merged)]);
+    }
+    case 'delete': {
+      if (turns.length === 1) {
+        throw new Error('The only turn of a transcript cannot be deleted.');
+      }
+      turns.splice(edit.turn, 1);
+      return change([describeTurn(turn)], []);
+    }
+  }
+}
+
+/**
+ * Apply reviewer edits to a transcript, in order
+ * Throws when an edit does not fit the transcript, naming the edit
+ */
+export function applyTranscriptEdits(
+  doc: TranscriptDoc,
+  edits: TranscriptEdit[]
+): { transcript: TranscriptDoc; changes: TranscriptChange[] } {
+  const turns = [...doc.turns];
+  const changes = edits.map((edit, index) => {
+    try {
+      return applyEdit(turns, edit);
+    } catch (error) {
+      throw new Error(`Edit ${index + 1} (${EDIT_TYPE_LABELS[edit.type].toLowerCase()}): ${(error as Error).message}`);
+    }
+  });
+  const corrected: TranscriptDoc = { ...doc, turns };
+  // Relabelling IVR or hold turns moves where the conversation starts
+  const { callStartMs, preCallDurationMs } = detectPreCall(corrected);
+  return { transcript: { ...corrected, callStartMs, preCallDurationMs }, changes };
+}
+
+export type WordDiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+/** Longest pair of texts diffed word by word; longer ones show as replaced */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Word-level diff of two texts for display
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = wordsOf(before);
+  const b = wordsOf(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: 'removed' as const, text: a.join(' ') },
+      { type: 'added' as const, text: b.join(' ') },
+    ].filter(part => part.text);
+  }
+
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i++]);
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Word errors of a machine transcript measured against its correction
+ */
+export interface TranscriptAccuracy {
+  /** Words in the corrected transcript */
+  referenceWords: number;
+  substitutions: number;
+  /** Words the machine transcript missed */
+  deletions: number;
+  /** Words the machine transcript added */
+  insertions: number;
+  /** Errors when each word is compared together with its speaker */
+  speakerAttributedErrors: number;
+}
+
+/**
+ * Words scored for accuracy: lower-cased, without punctuation, and without
+ * bracketed annotations such as "[Call ringing - awaiting answer]"
+ */
+export function accuracyTokens(text: string): string[] {
+  return text.replace(/\[[^\]]*\]/g, ' ').toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu) ?? [];
+}
+
+/**
+ * Substitutions, deletions and insertions of the cheapest alignment of the
+ * hypothesis to the reference (Levenshtein over words, two rows of memory)
+ */
+function alignmentErrors(reference: string[], hypothesis: string[]): Pick<TranscriptAccuracy, 'substitutions' | 'deletions' | 'insertions'> {
+  const width = hypothesis.length + 1;
+  let previous = { s: new Uint32Array(width), d: new Uint32Array(width), i: new Uint32Array(width) };
+  let current = { s: new Uint32Array(width), d: new Uint32Array(width), i: new Uint32Array(width) };
+  for (let j = 0; j < width; j++) previous.i[j] = j;
+
+  for (let r = 1; r <= reference.length; r++) {
+    current.s[0] = 0;
+    current.d[0] = r;
+    current.i[0] = 0;
+    for (let j = 1; j < width; j++) {
+      const mismatch = reference[r - 1] === hypothesis[j - 1] ? 0 : 1;
+      const diagonal = previous.s[j - 1] + previous.d[j - 1] + previous.i[j - 1] + mismatch;
+      const deletion = previous.s[j] + previous.d[j] + previous.i[j] + 1;
+      const insertion = current.s[j - 1] + current.d[j - 1] + current.i[j - 1] + 1;
+      if (diagonal <= deletion && diagonal <= insertion) {
+        current.s[j] = previous.s[j - 1] + mismatch;
+        current.d[j] = previous.d[j - 1];
+        current.i[j] = previous.i[j - 1];
+      } else if (deletion <= insertion) {
+        current.s[j] = previous.s[j];
+        current.d[j] = previous.d[j] + 1;
+        current.i[j] = previous.i[j];
+      } else {
+        current.s[j] = current.s[j - 1];
+        current.d[j] = current.d[j - 1];
+        current.i[j] = current.i[j - 1] + 1;
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+  const last = width - 1;
+  return { substitutions: previous.s[last], deletions: previous.d[last], insertions: previous.i[last] };
+}
+
+const transcriptTokens = (doc: TranscriptDoc, withSpeaker: boolean): string[] =>
+  doc.turns.flatMap(turn => accuracyTokens(turn.text).map(word => (withSpeaker ? `${turn.speaker}:${word}` : word)));
+
+/**
+ * Accuracy of a machine transcript, taking the reviewer's correction as the reference
+ */
+export function measureTranscriptAccuracy(machine: TranscriptDoc, corrected: TranscriptDoc): TranscriptAccuracy {
+  const reference = transcriptTokens(corrected, false);
+  const errors = alignmentErrors(reference, transcriptTokens(machine, false));
+  const speakerErrors = alignmentErrors(transcriptTokens(corrected, true), transcriptTokens(machine, true));
+  return {
+    referenceWords: reference.length,
+    ...errors,
+    speakerAttributedErrors: speakerErrors.substitutions + speakerErrors.deletions + speakerErrors.insertions,
+  };
+}
+
+/** (S + D + I) / N; a correction with no words counts its insertions against one word */
+export const wordErrorRate = (accuracy: TranscriptAccuracy): number =>
+  (accuracy.substitutions + accuracy.deletions + accuracy.insertions) / Math.max(1, accuracy.referenceWords);
+
+export const speakerAttributedWordErrorRate = (accuracy: TranscriptAccuracy): number =>
+  accuracy.speakerAttributedErrors / Math.max(1, accuracy.referenceWords);
+
+/** One corrected call in the accuracy dataset, measured against its latest version */
+export interface CallTranscriptAccuracy extends TranscriptAccuracy {
+  activityId: string;
+  fileName?: string;
+  agentName?: string;
+  version: number;
+  correctedAt: string;
+  correctedBy?: string;
+}
+
+export interface AgentTranscriptAccuracy extends TranscriptAccuracy {
+  agentName: string;
+  calls: number;
+}
+
+/** Calls whose agent is not known are grouped under this name */
+export const UNASSIGNED_AGENT = 'Unassigned';
+
+/**
+ * Accuracy per agent, pooling the words of their calls so long calls weigh more
+ */
+export function accuracyByAgent(calls: CallTranscriptAccuracy[]): AgentTranscriptAccuracy[] {
+  const agents = new Map<string, AgentTranscriptAccuracy>();
+  for (const call of calls) {
+    const agentName = call.agentName?.trim() || UNASSIGNED_AGENT;
+    const agent = agents.get(agentName) ?? {
+      agentName,
+      calls: 0,
+      referenceWords: 0,
+      substitutions: 0,
+      deletions: 0,
+      insertions: 0,
+      speakerAttributedErrors: 0,
+    };
+    agent.calls += 1;
+    agent.referenceWords += call.referenceWords;
+    agent.substitutions += call.substitutions;
+    agent.deletions += call.deletions;
+    agent.insertions += call.insertions;
+    agent.speakerAttributedErrors += call.speakerAttributedErrors;
+    agents.set(agentName, agent);
+  }
+  return [...agents.values()].sort((a, b) => a.agentName.localeCompare(b.agentName));
+}
+
+const rate = (value: number) => Number(value.toFixed(4));
+
+const accuracyCells = (accuracy: TranscriptAccuracy) => [
+  accuracy.referenceWords,
+  accuracy.substitutions,
+  accuracy.deletions,
+  accuracy.insertions,
+  rate(wordErrorRate(accuracy)),
+  rate(speakerAttributedWordErrorRate(accuracy)),
+];
+
+const ACCURACY_COLUMNS = ['reference_words', 'substitutions', 'deletions', 'insertions', 'wer', 'speaker_wer'];
+
+export function callAccuracyToCsv(calls: CallTranscriptAccuracy[]): string {
+  const header = ['activity_id', 'file_name', 'agent', 'version', 'corrected_at', 'corrected_by', ...ACCURACY_COLUMNS];
+  const rows = calls.map(call =>
+    [call.activityId, call.fileName, call.agentName, call.version, call.correctedAt, call.correctedBy, ...accuracyCells(call)]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function agentAccuracyToCsv(agents: AgentTranscriptAccuracy[]): string {
+  const header = ['agent', 'calls', ...ACCURACY_COLUMNS];
+  const rows = agents.map(agent => [agent.agentName, agent.calls, ...accuracyCells(agent)].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
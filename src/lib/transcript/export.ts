@@ -0,0 +1,227 @@
+/**
+ * @fileOverview Export a TranscriptDoc to caption, document and data files
+ *
+ * Formats:
+ * - SRT captions, each cue prefixed with its speaker ("Agent (Riya): ...")
+ * - WebVTT captions with voice tags (`<v Agent (Riya)>`), which importers.ts reads back
+ * - DOCX with a call summary header, then the turns with timestamps and speakers
+ * - JSON: the canonical TranscriptDoc
+ * - CSV: one row per turn with times, speaker, profile, confidence and channel
+ *
+ * SYSTEM turns keep their event label ("IVR", "On Hold", "Waiting"). The
+ * pre-call part of the recording, as found by detectPreCall, is included by
+ * default and left out with `includePreCall: false`. Times are always those of
+ * the recording, so captions stay in sync with the audio either way.
+ */
+
+import type { TranscriptionOutput } from '@/types';
+import type { TranscriptDoc, TranscriptTurn } from '@/types/transcript';
+import { formatTimestamp, getSpeakerDisplayName, isInteractiveProfile } from '@/types/transcript';
+import { DOCX_MIME_TYPE, buildTranscriptDocument, type TranscriptDocumentLine } from '@/lib/office-export';
+import { detectPreCall } from './normalize';
+
+export const TRANSCRIPT_EXPORT_FORMATS = ['srt', 'vtt', 'docx', 'json', 'csv'] as const;
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number];
+
+export const TRANSCRIPT_EXPORT_FORMAT_LABELS: Record<TranscriptExportFormat, string> = {
+  srt: 'SRT captions',
+  vtt: 'WebVTT captions',
+  docx: 'Word document',
+  json: 'JSON',
+  csv: 'CSV',
+};
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  docx: DOCX_MIME_TYPE,
+  json: 'application/json',
+  csv: 'text/csv;charset=utf-8;',
+};
+
+export interface TranscriptExportOptions {
+  /** Keep the IVR, hold and ringing before the conversation starts (default true) */
+  includePreCall?: boolean;
+  /** Shown under the DOCX title, e.g. the recording's file name */
+  title?: string;
+  /** Call summary for the DOCX header */
+  summary?: TranscriptionOutput['summary'];
+}
+
+/** Shortest cue written, so zero-length turns still show on screen */
+const MIN_CUE_MS = 500;
+
+const turnStartMs = (turn: TranscriptTurn): number => turn.startMs ?? turn.startS * 1000;
+const turnEndMs = (turn: TranscriptTurn): number => turn.endMs ?? turn.endS * 1000;
+
+/**
+ * Turns to export: all of them, or from the first agent or customer turn on
+ * A transcript with no conversation at all is entirely pre-call
+ */
+export function selectTranscriptTurns(doc: TranscriptDoc, includePreCall = true): TranscriptTurn[] {
+  if (includePreCall) return doc.turns;
+  const { callStartIndex, callStartMs } = detectPreCall(doc);
+  return callStartMs === undefined ? [] : doc.turns.slice(callStartIndex);
+}
+
+/**
+ * Speaker label for exports: "Agent (Riya)", "Customer" or the event for SYSTEM turns
+ */
+export function exportSpeakerLabel(turn: TranscriptTurn): string {
+  if (turn.speaker === 'SYSTEM') return getSpeakerDisplayName(turn);
+  const role = turn.speaker === 'AGENT' ? 'Agent' : 'Customer';
+  return turn.speakerName ? `${role} (${turn.speakerName})` : role;
+}
+
+/**
+ * Format milliseconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+function captionTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Cue text may not contain blank lines (they end the cue) or "-->"
+ */
+const cueText = (text: string): string => text.trim().replace(/\r?\n(\s*\r?\n)+/g, '\n').replace(/-->/g, '->');
+
+const cueTiming = (turn: TranscriptTurn, separator: ',' | '.'): string => {
+  const startMs = turnStartMs(turn);
+  const endMs = Math.max(turnEndMs(turn), startMs + MIN_CUE_MS);
+  return `${captionTime(startMs, separator)} --> ${captionTime(endMs, separator)}`;
+};
+
+export function transcriptToSrt(doc: TranscriptDoc, options: TranscriptExportOptions = {}): string {
+  return selectTranscriptTurns(doc, options.includePreCall)
+    .map((turn, index) => `${index + 1}\n${cueTiming(turn, ',')}\n${exportSpeakerLabel(turn)}: ${cueText(turn.text)}\n`)
+    .join('\n');
+}
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function transcriptToVtt(doc: TranscriptDoc, options: TranscriptExportOptions = {}): string {
+  const turns = selectTranscriptTurns(doc, options.includePreCall);
+  const header = ['WEBVTT'];
+  const notes = [
+    doc.metadata.language && `Language: ${doc.metadata.language}`,
+    (doc.metadata.source ?? doc.source) && `Source: ${doc.metadata.source ?? doc.source}`,
+  ].filter((note): note is string => Boolean(note));
+  if (notes.length > 0) header.push(`NOTE\n${cueText(notes.join('\n'))}`);
+
+  // Mark where the conversation starts when the pre-call part is exported
+  const conversationStart = turns.length > 0 && !isInteractiveProfile(turns[0].profile)
+    ? turns.findIndex(turn => isInteractiveProfile(turn.profile))
+    : -1;
+
+  const cues = turns.map((turn, index) => {
+    const cue = `${index + 1}\n${cueTiming(turn, '.')}\n<v ${escapeVtt(exportSpeakerLabel(turn))}>${escapeVtt(cueText(turn.text))}`;
+    return index === conversationStart
+      ? `NOTE Conversation starts after ${formatTimestamp(turnStartMs(turn) / 1000)} of pre-call audio\n\n${cue}`
+      : cue;
+  });
+
+  return [...header, ...cues].join('\n\n') + '\n';
+}
+
+export function transcriptToJson(doc: TranscriptDoc, options: TranscriptExportOptions = {}): string {
+  return JSON.stringify({ ...doc, turns: selectTranscriptTurns(doc, options.includePreCall) }, null, 2);
+}
+
+export const csvCell = (value: string | number | boolean | undefined): string => {
+  const cell = value === undefined ? '' : String(value).replace(/"/g, '""');
+  return /[",\r\n]/.test(cell) ? `"${cell}"` : cell;
+};
+
+/**
+ * CSV of turns; the start_s, end_s, speaker, text, confidence and channel
+ * columns are the ones the diarized CSV importer reads
+ */
+export function transcriptToCsv(doc: TranscriptDoc, options: TranscriptExportOptions = {}): string {
+  const { callStartIndex, callStartMs } = detectPreCall(doc);
+  const preCallTurns = new Set(doc.turns.slice(0, callStartMs === undefined ? doc.turns.length : callStartIndex));
+  const header = ['turn', 'start_s', 'end_s', 'speaker', 'role', 'profile', 'pre_call', 'text', 'confidence', 'channel'];
+  const rows = selectTranscriptTurns(doc, options.includePreCall).map((turn, index) =>
+    [
+      index + 1,
+      (turnStartMs(turn) / 1000).toFixed(3),
+      (turnEndMs(turn) / 1000).toFixed(3),
+      exportSpeakerLabel(turn),
+      turn.speaker,
+      turn.profile,
+      preCallTurns.has(turn),
+      turn.text,
+      turn.confidence !== undefined ? Number(turn.confidence.toFixed(3)) : undefined,
+      turn.channel,
+    ].map(csvCell).join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Word document with the call details and summary, then the transcript
+ * When the pre-call part is included it gets its own heading
+ */
+export function buildTranscriptDocx(doc: TranscriptDoc, options: TranscriptExportOptions = {}) {
+  const includePreCall = options.includePreCall ?? true;
+  const { callStartIndex, preCallDurationMs } = detectPreCall(doc);
+  const turns = selectTranscriptTurns(doc, includePreCall);
+  const clock = (turn: TranscriptTurn) => captionTime(turnStartMs(turn), '.').slice(0, 8);
+  const toLine = (turn: TranscriptTurn): TranscriptDocumentLine => ({
+    time: clock(turn),
+    speaker: exportSpeakerLabel(turn),
+    text: turn.text,
+    role: turn.speaker === 'AGENT' ? 'agent' : turn.speaker === 'USER' ? 'customer' : 'event',
+  });
+
+  const { metadata } = doc;
+  const preCall = formatTimestamp(preCallDurationMs / 1000);
+  const details = [
+    metadata.durationS !== undefined && { label: 'Duration', value: formatTimestamp(metadata.durationS) },
+    metadata.agentName && { label: 'Agent', value: metadata.agentName },
+    metadata.userName && { label: 'Customer', value: metadata.userName },
+    metadata.language && { label: 'Language', value: metadata.language },
+    preCallDurationMs > 0 && { label: 'Pre-call', value: includePreCall ? `${preCall} (included)` : `${preCall} (not included)` },
+    { label: 'Turns', value: String(turns.length) },
+    metadata.timing === 'estimated' && { label: 'Timing', value: 'Estimated from word counts' },
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail));
+
+  const sections = includePreCall && callStartIndex > 0
+    ? [
+        { heading: 'Pre-call', lines: turns.slice(0, callStartIndex).map(toLine) },
+        { heading: 'Conversation', lines: turns.slice(callStartIndex).map(toLine) },
+      ]
+    : [{ lines: turns.map(toLine) }];
+
+  return buildTranscriptDocument({ title: 'Call Transcript', subtitle: options.title, details, summary: options.summary, sections });
+}
+
+/**
+ * Export a transcript as a file in the given format
+ */
+export async function createTranscriptExportFile(
+  doc: TranscriptDoc,
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): Promise<{ blob: Blob; extension: TranscriptExportFormat }> {
+  const mimeType = MIME_TYPES[format];
+  switch (format) {
+    case 'docx':
+      return {
+        blob: await buildTranscriptDocx(doc, options).generateAsync({ type: 'blob', mimeType, compression: 'DEFLATE' }),
+        extension: format,
+      };
+    case 'srt':
+      return { blob: new Blob([transcriptToSrt(doc, options)], { type: mimeType }), extension: format };
+    case 'vtt':
+      return { blob: new Blob([transcriptToVtt(doc, options)], { type: mimeType }), extension: format };
+    case 'json':
+      return { blob: new Blob([transcriptToJson(doc, options)], { type: mimeType }), extension: format };
+    case 'csv':
+      return { blob: new Blob([transcriptToCsv(doc, options)], { type: mimeType }), extension: format };
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * @fileOverview Importers for third-party transcript formats
+ *
+ * Each importer reads one vendor format into timed segments with the vendor's
+ * raw speaker label, confidence and channel. `normalizeTranscript` turns those
+ * into TranscriptTurns and decides which speaker is the agent.
+ *
+ * Supported formats:
+ * - WebVTT (voice tags `<v Name>` or "Name: text" cue prefixes)
+ * - SRT ("Speaker: text" or "[Speaker]: text" cue prefixes)
+ * - Whisper / faster-whisper / WhisperX JSON
+ * - AWS Transcribe JSON (speaker labels and channel identification)
+ * - Deepgram JSON (utterances, or words grouped by speaker and channel)
+ * - AssemblyAI JSON (utterances, or words grouped by speaker and channel)
+ * - Diarized CSV with speaker, text and start/end columns
+ *
+ * Confidence is the mean of the word-level confidences of a segment.
+ */
+
+import { parseCsv } from '@/lib/csv';
+
+export const TRANSCRIPT_FORMATS = ['webvtt', 'srt', 'whisper', 'aws-transcribe', 'deepgram', 'assemblyai', 'csv'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  webvtt: 'WebVTT',
+  srt: 'SRT',
+  whisper: 'Whisper JSON',
+  'aws-transcribe': 'AWS Transcribe JSON',
+  deepgram: 'Deepgram JSON',
+  assemblyai: 'AssemblyAI JSON',
+  csv: 'Diarized CSV',
+};
+
+/**
+ * A timed segment read from a vendor transcript
+ * speakerLabel is the vendor's label as-is ("spk_0", "A", "SPEAKER_00", "Riya")
+ */
+export interface ImportedSegment {
+  startS: number;
+  endS: number;
+  text: string;
+  speakerLabel?: string;
+  confidence?: number;
+  channel?: number | string;
+}
+
+export interface ImportedTranscript {
+  format: TranscriptFormat;
+  segments: ImportedSegment[];
+  language?: string;
+  durationS?: number;
+}
+
+/** Word-level input to segment grouping */
+interface TimedWord {
+  startS: number;
+  endS: number;
+  text: string;
+  speakerLabel?: string;
+  channel?: number | string;
+  confidence?: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** Words from one speaker separated by at least this much silence start a new segment */
+const SEGMENT_BREAK_S = 1.5;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const mean = (values: Array<number | undefined>): number | undefined => {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : undefined;
+};
+
+/**
+ * Parse "01:02:03.450", "01:02:03,450", "02:03.4" or plain seconds ("123.4")
+ */
+export function parseClockTime(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!clock) return undefined;
+  const [, hours, minutes, seconds, fraction] = clock;
+  return (hours ? parseInt(hours) * 3600 : 0) + parseInt(minutes) * 60 + parseInt(seconds) + (fraction ? parseFloat(`0.${fraction}`) : 0);
+}
+
+/**
+ * Join words into segments: a new segment starts when the speaker or channel
+ * changes or after a pause of SEGMENT_BREAK_S
+ */
+function groupWords(words: TimedWord[]): ImportedSegment[] {
+  const sorted = [...words].sort((a, b) => a.startS - b.startS);
+  const segments: ImportedSegment[] = [];
+  let current: { segment: ImportedSegment; confidences: Array<number | undefined> } | undefined;
+
+  const flush = () => {
+    if (!current) return;
+    segments.push({ ...current.segment, confidence: mean(current.confidences) });
+    current = undefined;
+  };
+
+  for (const word of sorted) {
+    const continues = current
+      && current.segment.speakerLabel === word.speakerLabel
+      && current.segment.channel === word.channel
+      && word.startS - current.segment.endS < SEGMENT_BREAK_S;
+    if (!continues) {
+      flush();
+      current = {
+        segment: { startS: word.startS, endS: word.endS, text: word.text, speakerLabel: word.speakerLabel, channel: word.channel },
+        confidences: [word.confidence],
+      };
+      continue;
+    }
+    current!.segment.text += ` ${word.text}`;
+    current!.segment.endS = Math.max(current!.segment.endS, word.endS);
+    current!.confidences.push(word.confidence);
+  }
+  flush();
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// WebVTT and SRT
+// ---------------------------------------------------------------------------
+
+const CUE_TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d+)\s*-->\s*((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d+)/;
+
+/** "Riya: hello" or "[Speaker 1]: hello"; long prefixes are treated as text */
+const CUE_SPEAKER_PREFIX_PATTERN = /^\[?([^\]:]{1,40}?)\]?:\s+(.+)$/;
+
+function splitCueSpeaker(text: string): { speakerLabel?: string; text: string } {
+  const voice = text.match(/^<v(?:\.[\w.-]+)?\s+([^>]+)>([\s\S]*)$/);
+  if (voice) {
+    return { speakerLabel: voice[1].trim(), text: voice[2].replace(/<\/v>/g, '') };
+  }
+  const prefix = text.match(CUE_SPEAKER_PREFIX_PATTERN);
+  if (prefix && prefix[1].trim().split(/\s+/).length <= 4 && !/^\d+$/.test(prefix[1].trim())) {
+    return { speakerLabel: prefix[1].trim(), text: prefix[2] };
+  }
+  return { text };
+}
+
+/** WebVTT escapes &, < and > in cue text and voice names */
+const decodeVttEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+
+function parseCues(text: string, format: 'webvtt' | 'srt'): ImportedTranscript {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const segments: ImportedSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim().length > 0);
+    const timingIndex = lines.findIndex(line => CUE_TIMING_PATTERN.test(line.trim()));
+    if (timingIndex === -1) continue; // header, NOTE, STYLE or REGION block
+
+    const [, start, end] = lines[timingIndex].trim().match(CUE_TIMING_PATTERN)!;
+    const startS = parseClockTime(start);
+    const endS = parseClockTime(end);
+    if (startS === undefined || endS === undefined) continue;
+
+    const cueText = lines.slice(timingIndex + 1).join(' ').trim();
+    const { speakerLabel, text: spoken } = splitCueSpeaker(cueText);
+    const stripped = spoken.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    const plain = format === 'webvtt' ? decodeVttEntities(stripped) : stripped;
+    if (plain.length === 0) continue;
+
+    segments.push({
+      startS,
+      endS,
+      text: plain,
+      speakerLabel: speakerLabel && format === 'webvtt' ? decodeVttEntities(speakerLabel) : speakerLabel,
+    });
+  }
+
+  return { format, segments };
+}
+
+// ---------------------------------------------------------------------------
+// Whisper
+// ---------------------------------------------------------------------------
+
+const isWhisperSegment = (value: unknown): boolean =>
+  isObject(value)
+  && typeof value.start === 'number'
+  && typeof value.end === 'number'
+  && typeof value.text === 'string'
+  && ('avg_logprob' in value || 'no_speech_prob' in value || 'seek' in value || 'tokens' in value || Array.isArray(value.words)
+    || (typeof value.speaker === 'string' && /^SPEAKER_\d+$/.test(value.speaker)));
+
+function importWhisper(input: unknown): ImportedTranscript {
+  const root = isObject(input) ? input : {};
+  const segments = asArray(Array.isArray(input) ? input : root.segments).filter(isObject).map((segment): ImportedSegment => {
+    const words = asArray(segment.words).filter(isObject);
+    const wordConfidence = mean(words.map(word => asNumber(word.probability) ?? asNumber(word.score)));
+    const logprob = asNumber(segment.avg_logprob);
+    return {
+      startS: asNumber(segment.start) ?? 0,
+      endS: asNumber(segment.end) ?? asNumber(segment.start) ?? 0,
+      text: (asString(segment.text) ?? '').trim(),
+      speakerLabel: asString(segment.speaker),
+      confidence: wordConfidence ?? (logprob !== undefined ? Math.exp(logprob) : undefined),
+    };
+  });
+  return { format: 'whisper', segments, language: asString(root.language), durationS: asNumber(root.duration) };
+}
+
+// ---------------------------------------------------------------------------
+// AWS Transcribe
+// ---------------------------------------------------------------------------
+
+function importAwsTranscribe(input: JsonObject): ImportedTranscript {
+  const results = isObject(input.results) ? input.results : {};
+
+  // Older outputs only list speakers per time range in speaker_labels.segments
+  const speakerByStart = new Map<string, string>();
+  const speakerLabels = isObject(results.speaker_labels) ? results.speaker_labels : {};
+  for (const segment of asArray(speakerLabels.segments).filter(isObject)) {
+    for (const item of asArray(segment.items).filter(isObject)) {
+      const start = asString(item.start_time);
+      const label = asString(item.speaker_label) ?? asString(segment.speaker_label);
+      if (start && label) speakerByStart.set(start, label);
+    }
+  }
+
+  const channelLabels = isObject(results.channel_labels) ? results.channel_labels : undefined;
+  const itemStreams: Array<{ channel?: string; items: JsonObject[] }> = channelLabels
+    ? asArray(channelLabels.channels).filter(isObject).map(channel => ({
+        channel: asString(channel.channel_label),
+        items: asArray(channel.items).filter(isObject),
+      }))
+    : [{ items: asArray(results.items).filter(isObject) }];
+
+  const words: TimedWord[] = [];
+  for (const stream of itemStreams) {
+    let previous: TimedWord | undefined;
+    for (const item of stream.items) {
+      const alternative = asArray(item.alternatives).filter(isObject)[0];
+      const content = asString(alternative?.content) ?? '';
+      if (item.type === 'punctuation') {
+        if (previous) previous.text += content;
+        continue;
+      }
+      const start = asString(item.start_time);
+      const startS = asNumber(item.start_time);
+      if (startS === undefined) continue;
+      previous = {
+        startS,
+        endS: asNumber(item.end_time) ?? startS,
+        text: content,
+        speakerLabel: asString(item.speaker_label) ?? (start ? speakerByStart.get(start) : undefined),
+        channel: stream.channel ?? asString(item.channel_label),
+        confidence: asNumber(alternative?.confidence),
+      };
+      words.push(previous);
+    }
+  }
+
+  return { format: 'aws-transcribe', segments: groupWords(words), language: asString(results.language_code) };
+}
+
+// ---------------------------------------------------------------------------
+// Deepgram
+// ---------------------------------------------------------------------------
+
+function importDeepgram(input: JsonObject): ImportedTranscript {
+  const results = isObject(input.results) ? input.results : {};
+  const metadata = isObject(input.metadata) ? input.metadata : {};
+  const channels = asArray(results.channels).filter(isObject);
+  const language = asString(channels[0]?.detected_language);
+  const durationS = asNumber(metadata.duration);
+  const multichannel = channels.length > 1;
+
+  const utterances = asArray(results.utterances).filter(isObject);
+  if (utterances.length > 0) {
+    const segments = utterances.map((utterance): ImportedSegment => {
+      const words = asArray(utterance.words).filter(isObject);
+      const speaker = asNumber(utterance.speaker);
+      return {
+        startS: asNumber(utterance.start) ?? 0,
+        endS: asNumber(utterance.end) ?? 0,
+        text: (asString(utterance.transcript) ?? '').trim(),
+        speakerLabel: speaker !== undefined ? `Speaker ${speaker}` : undefined,
+        channel: multichannel ? asNumber(utterance.channel) : undefined,
+        confidence: mean(words.map(word => asNumber(word.confidence))) ?? asNumber(utterance.confidence),
+      };
+    });
+    return { format: 'deepgram', segments, language, durationS };
+  }
+
+  const words: TimedWord[] = channels.flatMap((channel, channelIndex) => {
+    const alternative = asArray(channel.alternatives).filter(isObject)[0];
+    return asArray(alternative?.words).filter(isObject).map((word): TimedWord => {
+      const speaker = asNumber(word.speaker);
+      return {
+        startS: asNumber(word.start) ?? 0,
+        endS: asNumber(word.end) ?? 0,
+        text: asString(word.punctuated_word) ?? asString(word.word) ?? '',
+        speakerLabel: speaker !== undefined ? `Speaker ${speaker}` : undefined,
+        channel: multichannel ? channelIndex : undefined,
+        confidence: asNumber(word.confidence),
+      };
+    });
+  });
+  return { format: 'deepgram', segments: groupWords(words), language, durationS };
+}
+
+// ---------------------------------------------------------------------------
+// AssemblyAI (times in milliseconds)
+// ---------------------------------------------------------------------------
+
+function importAssemblyAi(input: JsonObject): ImportedTranscript {
+  const language = asString(input.language_code);
+  const durationS = asNumber(input.audio_duration);
+  const seconds = (value: unknown) => (asNumber(value) ?? 0) / 1000;
+
+  const utterances = asArray(input.utterances).filter(isObject);
+  if (utterances.length > 0) {
+    const segments = utterances.map((utterance): ImportedSegment => {
+      const words = asArray(utterance.words).filter(isObject);
+      return {
+        startS: seconds(utterance.start),
+        endS: seconds(utterance.end),
+        text: (asString(utterance.text) ?? '').trim(),
+        speakerLabel: asString(utterance.speaker),
+        channel: asString(utterance.channel),
+        confidence: mean(words.map(word => asNumber(word.confidence))) ?? asNumber(utterance.confidence),
+      };
+    });
+    return { format: 'assemblyai', segments, language, durationS };
+  }
+
+  const words = asArray(input.words).filter(isObject).map((word): TimedWord => ({
+    startS: seconds(word.start),
+    endS: seconds(word.end),
+    text: asString(word.text) ?? '',
+    speakerLabel: asString(word.speaker),
+    channel: asString(word.channel),
+    confidence: asNumber(word.confidence),
+  }));
+  return { format: 'assemblyai', segments: groupWords(words), language, durationS };
+}
+
+// ---------------------------------------------------------------------------
+// Diarized CSV
+// ---------------------------------------------------------------------------
+
+type CsvField = 'text' | 'speaker' | 'start' | 'end' | 'startMs' | 'endMs' | 'confidence' | 'channel';
+
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  text: ['text', 'transcript', 'utterance', 'content', 'sentence', 'message'],
+  speaker: ['speaker', 'speaker_label', 'speaker_name', 'role', 'participant', 'spk'],
+  start: ['start', 'start_time', 'start_s', 'start_sec', 'start_seconds', 'startseconds', 'begin', 'from'],
+  end: ['end', 'end_time', 'end_s', 'end_sec', 'end_seconds', 'endseconds', 'stop', 'to'],
+  startMs: ['start_ms', 'startms', 'start_millis'],
+  endMs: ['end_ms', 'endms', 'end_millis'],
+  confidence: ['confidence', 'score', 'probability'],
+  channel: ['channel', 'channel_label', 'channel_id'],
+};
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+function mapCsvColumns(headers: string[]): Partial<Record<CsvField, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<CsvField, number>> = {};
+  for (const [field, aliases] of Object.entries(CSV_HEADER_ALIASES) as [CsvField, string[]][]) {
+    const alias = aliases.find(candidate => normalized.includes(candidate));
+    if (alias) columns[field] = normalized.indexOf(alias);
+  }
+  return columns;
+}
+
+/** A CSV is a transcript when it has a text column and a speaker or start column */
+const isTranscriptCsvHeader = (columns: Partial<Record<CsvField, number>>): boolean =>
+  columns.text !== undefined && (columns.speaker !== undefined || columns.start !== undefined || columns.startMs !== undefined);
+
+function importCsv(text: string): ImportedTranscript {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = rows.length > 0 ? mapCsvColumns(rows[0]) : {};
+  const cell = (row: string[], field: CsvField): string | undefined => {
+    const index = columns[field];
+    const value = index === undefined ? undefined : row[index]?.trim();
+    return value || undefined;
+  };
+  const time = (row: string[], field: 'start' | 'end', msField: 'startMs' | 'endMs'): number | undefined => {
+    const ms = cell(row, msField);
+    if (ms !== undefined) return asNumber(ms) !== undefined ? asNumber(ms)! / 1000 : undefined;
+    const value = cell(row, field);
+    return value !== undefined ? parseClockTime(value) : undefined;
+  };
+
+  const segments: ImportedSegment[] = [];
+  let previousEndS = 0;
+  for (const row of rows.slice(1)) {
+    const spoken = cell(row, 'text');
+    if (!spoken) continue;
+    const startS = time(row, 'start', 'startMs') ?? previousEndS;
+    const endS = time(row, 'end', 'endMs') ?? startS;
+    const confidence = asNumber(cell(row, 'confidence'));
+    const channel = cell(row, 'channel');
+    segments.push({
+      startS,
+      endS,
+      text: spoken,
+      speakerLabel: cell(row, 'speaker'),
+      // Percentages are scaled to 0-1
+      confidence: confidence !== undefined && confidence > 1 ? confidence / 100 : confidence,
+      channel: channel !== undefined && /^\d+$/.test(channel) ? parseInt(channel) : channel,
+    });
+    previousEndS = endS;
+  }
+  return { format: 'csv', segments };
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+const SRT_PATTERN = /^\s*\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/;
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+function detectObjectFormat(input: unknown): TranscriptFormat | undefined {
+  if (Array.isArray(input)) {
+    return input.length > 0 && input.every(isWhisperSegment) ? 'whisper' : undefined;
+  }
+  if (!isObject(input)) return undefined;
+
+  const results = isObject(input.results) ? input.results : undefined;
+  if (results && (Array.isArray(results.items) || isObject(results.channel_labels)) && Array.isArray(results.transcripts)) {
+    return 'aws-transcribe';
+  }
+  if (results && (Array.isArray(results.channels) || Array.isArray(results.utterances))) {
+    return 'deepgram';
+  }
+
+  const firstWord = asArray(input.words)[0];
+  const firstUtterance = asArray(input.utterances)[0];
+  if (
+    (isObject(firstUtterance) && typeof firstUtterance.start === 'number' && 'speaker' in firstUtterance)
+    || (isObject(firstWord) && typeof firstWord.text === 'string' && typeof firstWord.start === 'number' && 'confidence' in firstWord)
+  ) {
+    return 'assemblyai';
+  }
+
+  const segments = asArray(input.segments);
+  if (segments.length > 0 && segments.every(isWhisperSegment)) return 'whisper';
+  return undefined;
+}
+
+/**
+ * Detect the vendor format of a transcript file's contents or parsed JSON
+ * Returns undefined for the app's own formats (TranscriptDoc, segments, "AGENT: text")
+ */
+export function detectTranscriptFormat(input: unknown): TranscriptFormat | undefined {
+  if (typeof input !== 'string') return detectObjectFormat(input);
+
+  const text = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trimStart();
+  if (/^WEBVTT\b/.test(text)) return 'webvtt';
+  if (SRT_PATTERN.test(text)) return 'srt';
+  if (text.startsWith('{') || text.startsWith('[')) {
+    const json = parseJson(text);
+    if (json !== undefined) return detectObjectFormat(json);
+  }
+  const headerLine = text.split('\n', 1)[0];
+  if (/[,;\t|]/.test(headerLine) && isTranscriptCsvHeader(mapCsvColumns(parseCsv(headerLine)[0] ?? []))) {
+    return 'csv';
+  }
+  return undefined;
+}
+
+/**
+ * Read a vendor transcript into timed segments
+ * Returns undefined when the input is not in a supported vendor format
+ */
+export function importTranscript(input: unknown, format = detectTranscriptFormat(input)): ImportedTranscript | undefined {
+  if (!format) return undefined;
+
+  if (format === 'webvtt' || format === 'srt' || format === 'csv') {
+    if (typeof input !== 'string') {
+      throw new Error(`${TRANSCRIPT_FORMAT_LABELS[format]} transcripts must be given as text.`);
+    }
+    return format === 'csv' ? importCsv(input) : parseCues(input, format);
+  }
+
+  const json = typeof input === 'string' ? parseJson(input.replace(/^\uFEFF/, '')) : input;
+  if (json === undefined) {
+    throw new Error(`The ${TRANSCRIPT_FORMAT_LABELS[format]} transcript is not valid JSON.`);
+  }
+  switch (format) {
+    case 'whisper':
+      return importWhisper(json);
+    case 'aws-transcribe':
+      return importAwsTranscribe(isObject(json) ? json : {});
+    case 'deepgram':
+      return importDeepgram(isObject(json) ? json : {});
+    case 'assemblyai':
+      return importAssemblyAi(isObject(json) ? json : {});
+  }
+}
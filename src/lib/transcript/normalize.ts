@@ -9,6 +9,8 @@
  * - Manual uploads (plain text, formatted text)
  * - Live conversation logs (turn arrays from voice agents)
  * - Legacy segment-based transcripts
+ * - Third-party exports: WebVTT, SRT, Whisper, AWS Transcribe, Deepgram,
+ *   AssemblyAI and diarized CSV (see importers.ts)
  * 
  * CRITICAL RULES:
  * 1. NEVER inject "Unknown", "N/A", or placeholder names
@@ -19,8 +21,9 @@
  * 6. Detect pre-call section (IVR, hold, noise) and set callStartMs
  */
 
-import type { TranscriptDoc, TranscriptTurn, SpeakerRole } from '@/types/transcript';
+import type { TranscriptDoc, TranscriptTurn, SpeakerRole, Profile } from '@/types/transcript';
 import { isInteractiveProfile, legacyRoleToProfile } from '@/types/transcript';
+import { importTranscript, parseClockTime, type ImportedSegment, type TranscriptFormat } from './importers';
 
 /**
  * Legacy segment format from old TranscriptionOutput
@@ -51,6 +54,8 @@ interface GenericSegment {
   speakerProfile?: string;
   text: string;
   content?: string;
+  confidence?: number;
+  channel?: number | string;
 }
 
 /**
@@ -71,6 +76,15 @@ interface NormalizeOptions {
   
   /** Language code (e.g., "en", "hi", "hi-en") */
   language?: string;
+  
+  /** Read the input as this third-party format instead of detecting it */
+  format?: TranscriptFormat;
+  
+  /**
+   * Speaker label or channel of the agent in third-party transcripts
+   * (e.g., "spk_0", "A", "SPEAKER_01", "1"); defaults to the first speaker heard
+   */
+  agentSpeaker?: string;
 }
 
 /**
@@ -128,6 +142,26 @@ function extractSpeakerName(profile: string | undefined, speaker: SpeakerRole):
   return undefined;
 }
 
+/**
+ * Pre-call profile for a SYSTEM event from its label or description
+ * Examples:
+ * - "IVR", "DTMF Tone" -> "ivr"
+ * - "Call on Hold" -> "hold"
+ * - "Call Ringing", "Busy Signal" -> "waiting"
+ * - "Background Noise - Office" -> "noise"
+ */
+function systemEventProfile(label: string | undefined, text: string): Profile {
+  const description = `${label ?? ''} ${text}`.toLowerCase();
+  
+  if (/\bivr\b|dtmf|automated|recorded (?:message|prompt)/.test(description)) return 'ivr';
+  if (/\bhold\b/.test(description)) return 'hold';
+  if (/ring|busy|dial tone|awaiting answer/.test(description)) return 'waiting';
+  if (/noise|background|static|silence/.test(description)) return 'noise';
+  if (/supervisor/.test(description)) return 'supervisor';
+  if (/pre-call.*agent|peer agent|agent.*internal/.test(description)) return 'peerAgent';
+  return 'system';
+}
+
 /**
  * Normalize a single generic segment to TranscriptTurn
  */
@@ -142,8 +176,15 @@ function normalizeSegment(segment: GenericSegment, options: NormalizeOptions = {
   const speakerStr = segment.speaker ?? segment.role ?? 'USER';
   const speaker = normalizeSpeakerRole(speakerStr);
   
-  // Map legacy role to new profile system
-  const { profile, baseRole } = legacyRoleToProfile(speaker);
+  // Extract text
+  const text = (segment.text ?? segment.content ?? '').trim();
+  
+  // Map legacy role to new profile system, keeping the kind of SYSTEM event
+  const legacy = legacyRoleToProfile(speaker);
+  const { baseRole } = legacy;
+  const profile = speaker === 'SYSTEM'
+    ? systemEventProfile(segment.profile ?? segment.speakerProfile, text)
+    : legacy.profile;
   
   // Extract speaker name (avoid placeholders)
   let speakerName = segment.speakerName ?? segment.name;
@@ -162,9 +203,6 @@ function normalizeSegment(segment: GenericSegment, options: NormalizeOptions = {
     speakerName = options.defaultUserName;
   }
   
-  // Extract text
-  const text = (segment.text ?? segment.content ?? '').trim();
-  
   return {
     profile,
     baseRole,
@@ -175,9 +213,72 @@ function normalizeSegment(segment: GenericSegment, options: NormalizeOptions = {
     endS,
     startMs,
     endMs,
+    confidence: segment.confidence,
+    channel: segment.channel,
   };
 }
 
+/** Vendor speaker labels that say nothing about who is speaking */
+const GENERIC_SPEAKER_LABEL_PATTERN = /^(spk_?\d+|speaker[\s_-]*\w{1,2}|ch_?\d+|channel[\s_-]*\d+|[a-z]|\d+)$/i;
+
+/** Vendor speaker labels that already name a role */
+const ROLE_LABEL_PATTERN = /agent|user|customer|caller|system|ivr/i;
+
+/** Name in a vendor speaker label: "Agent Riya" or "Agent (Riya)" -> "Riya", "spk_0" or "Customer" -> undefined */
+function speakerNameFromLabel(label: string, speaker: SpeakerRole): string | undefined {
+  const name = label
+    .replace(/\b(agent|user|customer|caller|system|ivr)\b/gi, '')
+    .replace(/[()[\]:-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (name.length === 0 || GENERIC_SPEAKER_LABEL_PATTERN.test(name)) return undefined;
+  return extractSpeakerName(name, speaker);
+}
+
+/**
+ * Convert segments from a third-party importer to turns
+ * Labels naming a role ("Agent", "Customer (John)") are used as-is. Otherwise
+ * the speaker or channel given as agentSpeaker, or else the first one heard,
+ * is the agent and every other speaker is the customer.
+ */
+function importedSegmentsToTurns(segments: ImportedSegment[], options: NormalizeOptions): TranscriptTurn[] {
+  const speakerKeys = (segment: ImportedSegment): string[] =>
+    [segment.speakerLabel, segment.channel !== undefined ? String(segment.channel) : undefined]
+      .filter((key): key is string => key !== undefined)
+      .map(key => key.trim().toLowerCase());
+  const firstAnonymous = segments.find(segment => !ROLE_LABEL_PATTERN.test(segment.speakerLabel ?? '') && speakerKeys(segment).length > 0);
+  const agentKey = options.agentSpeaker?.trim().toLowerCase() ?? (firstAnonymous ? speakerKeys(firstAnonymous)[0] : undefined);
+  
+  return segments
+    .filter(segment => segment.text.trim().length > 0)
+    .map(segment => {
+      const label = segment.speakerLabel?.trim();
+      let speaker: SpeakerRole;
+      if (label && ROLE_LABEL_PATTERN.test(label)) {
+        speaker = normalizeSpeakerRole(label);
+      } else if (speakerKeys(segment).length === 0) {
+        // Undiarized mono transcript: no way to tell the agent apart
+        speaker = normalizeSpeakerRole(undefined);
+      } else {
+        speaker = agentKey !== undefined && speakerKeys(segment).includes(agentKey) ? 'AGENT' : 'USER';
+      }
+      
+      const speakerName = label ? speakerNameFromLabel(label, speaker) : undefined;
+      return normalizeSegment(
+        {
+          startS: segment.startS,
+          endS: segment.endS,
+          speaker,
+          speakerName,
+          text: segment.text,
+          confidence: segment.confidence,
+          channel: segment.channel,
+        },
+        options
+      );
+    });
+}
+
 /**
  * Merge consecutive turns from the same speaker
  * This is useful when ASR outputs many small segments for one utterance
@@ -191,15 +292,23 @@ function mergeConsecutiveTurns(turns: TranscriptTurn[]): TranscriptTurn[] {
   for (let i = 1; i < turns.length; i++) {
     const next = turns[i];
     
-    // Merge if same speaker and same name (or both undefined)
+    // Merge if same speaker, profile and name (or both undefined)
     if (
       current.speaker === next.speaker &&
+      current.profile === next.profile &&
       current.speakerName === next.speakerName
     ) {
+      // Word-weighted confidence across the merged turns
+      if (current.confidence !== undefined && next.confidence !== undefined) {
+        const currentWords = current.text.split(/\s+/).length;
+        const nextWords = next.text.split(/\s+/).length;
+        current.confidence = (current.confidence * currentWords + next.confidence * nextWords) / (currentWords + nextWords);
+      }
       // Concatenate text with space
       current.text = current.text + ' ' + next.text;
       // Extend end time
       current.endS = next.endS;
+      current.endMs = next.endMs ?? next.endS * 1000;
     } else {
       // Different speaker, push current and start new
       merged.push(current);
@@ -259,7 +368,39 @@ export function normalizeTranscript(
     return doc;
   }
   
-  // Case 2: Legacy format with segments array
+  // Case 2: Third-party export (WebVTT, SRT, Whisper, AWS Transcribe, Deepgram, AssemblyAI, CSV)
+  const imported = importTranscript(input, options.format);
+  if (imported) {
+    const turns = importedSegmentsToTurns(imported.segments, options);
+    
+    const durationS = imported.durationS ?? (turns.length > 0 ? Math.max(...turns.map(t => t.endS)) : 0);
+    const agentName = options.defaultAgentName ?? turns.find(t => t.speaker === 'AGENT' && t.speakerName)?.speakerName;
+    const userName = options.defaultUserName ?? turns.find(t => t.speaker === 'USER' && t.speakerName)?.speakerName;
+    
+    const finalTurns = options.mergeConsecutiveTurns ? mergeConsecutiveTurns(turns) : turns;
+    
+    const doc: TranscriptDoc = {
+      turns: finalTurns,
+      metadata: {
+        durationS,
+        language: options.language ?? imported.language,
+        agentName,
+        userName,
+        source: options.source ?? imported.format,
+        createdAt: new Date().toISOString(),
+        timing: 'measured',
+      },
+    };
+    
+    // Detect pre-call section
+    const { callStartMs, preCallDurationMs } = detectPreCall(doc);
+    doc.callStartMs = callStartMs;
+    doc.preCallDurationMs = preCallDurationMs;
+    
+    return doc;
+  }
+  
+  // Case 3: Legacy format with segments array
   if (input && typeof input === 'object' && 'segments' in input && Array.isArray((input as { segments: unknown[] }).segments)) {
     const legacy = input as { segments: GenericSegment[] };
     const turns = legacy.segments.map(seg => normalizeSegment(seg, options));
@@ -291,7 +432,7 @@ export function normalizeTranscript(
     return doc;
   }
   
-  // Case 3: Array of segments directly
+  // Case 4: Array of segments directly
   if (Array.isArray(input)) {
     const turns = (input as GenericSegment[]).map(seg => normalizeSegment(seg, options));
     
@@ -321,9 +462,18 @@ export function normalizeTranscript(
     return doc;
   }
   
-  // Case 4: Plain text string - parse it
+  // Case 5: Plain text string - parse it (or JSON of one of the formats above)
   if (typeof input === 'string') {
-    const turns = parseTextTranscript(input, options);
+    const trimmed = input.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return normalizeTranscript(JSON.parse(trimmed) as unknown, options);
+      } catch {
+        // Not JSON after all - parse it as text
+      }
+    }
+
+    const { turns, timed } = parseTextTranscript(input, options);
     const durationS = turns.length > 0 ? Math.max(...turns.map(t => t.endS)) : 0;
     
     const doc: TranscriptDoc = {
@@ -335,6 +485,7 @@ export function normalizeTranscript(
         userName: options.defaultUserName,
         source: options.source ?? 'text-parse',
         createdAt: new Date().toISOString(),
+        timing: timed ? 'measured' : 'estimated',
       },
     };
     
@@ -357,46 +508,76 @@ export function normalizeTranscript(
   };
 }
 
+/**
+ * Parse a transcript time: "1:05", "00:01:05", "00:01:05.500" or the spoken
+ * form "1 minute 5 seconds" written by formatTranscriptSegments
+ */
+function parseTimeValue(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed.includes(':')) return parseClockTime(trimmed);
+  
+  const hours = trimmed.match(/(\d+)\s*hours?/i);
+  const minutes = trimmed.match(/(\d+)\s*minutes?/i);
+  const seconds = trimmed.match(/(\d+(?:\.\d+)?)\s*seconds?/i);
+  if (!hours && !minutes && !seconds) return undefined;
+  return (hours ? parseInt(hours[1]) * 3600 : 0) + (minutes ? parseInt(minutes[1]) * 60 : 0) + (seconds ? parseFloat(seconds[1]) : 0);
+}
+
 /**
  * Parse plain text transcript into turns
  * Supports formats like:
  * - "[timestamp] AGENT: text"
+ * - "[00:00:05 - 00:00:09]" or "[5 seconds - 9 seconds]" on the line before "Agent (Name): text"
  * - "AGENT (Name): text"
  * - "Agent: text"
+ * 
+ * Lines without any timestamp get times estimated from their word count;
+ * `timed` reports whether at least one timestamp was found
  */
-function parseTextTranscript(text: string, options: NormalizeOptions): TranscriptTurn[] {
+function parseTextTranscript(text: string, options: NormalizeOptions): { turns: TranscriptTurn[]; timed: boolean } {
   const lines = text.split('\n').filter(line => line.trim().length > 0);
   const turns: TranscriptTurn[] = [];
   let currentTime = 0;
+  let timed = false;
+  let pendingRange: { startS: number; endS?: number } | undefined;
   const ESTIMATED_WORDS_PER_SECOND = 2.5; // Rough estimate for duration
   
   for (const line of lines) {
-    const trimmed = line.trim();
+    let trimmed = line.trim();
     
-    // Try to extract timestamp [00:12] or [0:12]
-    let timestamp: number | undefined;
-    const timestampMatch = trimmed.match(/^\[(\d+):(\d+)\]/);
-    if (timestampMatch) {
-      const [, mins, secs] = timestampMatch;
-      timestamp = parseInt(mins) * 60 + parseInt(secs);
+    // Try to extract a leading timestamp [00:12] or range [00:00:05 - 00:00:09]
+    const bracketMatch = trimmed.match(/^\[([^\]]+)\]\s*/);
+    if (bracketMatch) {
+      const [startStr, endStr] = bracketMatch[1].split(/\s+-\s+/);
+      const startS = parseTimeValue(startStr);
+      if (startS !== undefined) {
+        const endS = endStr !== undefined ? parseTimeValue(endStr) : undefined;
+        pendingRange = { startS, endS: endS !== undefined && endS >= startS ? endS : undefined };
+        timed = true;
+        trimmed = trimmed.slice(bracketMatch[0].length);
+        if (trimmed.length === 0) continue;
+      }
     }
     
     // Try to extract speaker
-    const speakerMatch = trimmed.match(/^(?:\[\d+:\d+\]\s*)?(AGENT|USER|SYSTEM|Agent|User|Customer|System|IVR)\s*(?:\(([^)]+)\))?\s*:\s*(.+)$/i);
+    const speakerMatch = trimmed.match(/^(AGENT|USER|SYSTEM|Agent|User|Customer|System|IVR)(?:\s+(?:\d+|Primary|Secondary))?\s*(?:\(([^)]+)\))?\s*:\s*(.+)$/i);
     
     if (speakerMatch) {
       const [, speakerStr, nameStr, textContent] = speakerMatch;
       const speaker = normalizeSpeakerRole(speakerStr);
-      const { profile, baseRole } = legacyRoleToProfile(speaker);
+      const legacy = legacyRoleToProfile(speaker);
+      const { baseRole } = legacy;
+      const profile = speaker === 'SYSTEM' ? systemEventProfile(speakerStr, textContent) : legacy.profile;
       const speakerName = extractSpeakerName(nameStr, speaker);
       
       const wordCount = textContent.split(/\s+/).length;
       const estimatedDuration = wordCount / ESTIMATED_WORDS_PER_SECOND;
       
-      const startS = timestamp ?? currentTime;
-      const endS = startS + estimatedDuration;
+      const startS = pendingRange?.startS ?? currentTime;
+      const endS = pendingRange?.endS ?? startS + estimatedDuration;
       const startMs = startS * 1000;
       const endMs = endS * 1000;
+      pendingRange = undefined;
       
       turns.push({
         profile,
@@ -414,7 +595,7 @@ function parseTextTranscript(text: string, options: NormalizeOptions): Transcrip
     }
   }
   
-  return options.mergeConsecutiveTurns ? mergeConsecutiveTurns(turns) : turns;
+  return { turns: options.mergeConsecutiveTurns ? mergeConsecutiveTurns(turns) : turns, timed };
 }
 
 /**
@@ -432,6 +613,27 @@ export function transcriptToText(doc: TranscriptDoc, includeTimestamps = true):
   return text;
 }
 
+/**
+ * Convert TranscriptDoc to the diarized text the app's own transcription
+ * produces ("[00:00:05 - 00:00:09]" then "Agent (Riya): text"), which the
+ * scoring prompts expect and parseTextTranscript reads back with its timings
+ */
+export function transcriptToDiarizedText(doc: TranscriptDoc): string {
+  const clock = (seconds: number) => {
+    const time = new Date(Math.max(0, seconds) * 1000).toISOString().substring(11, 19);
+    const tenths = Math.floor((seconds % 1) * 10);
+    return tenths > 0 ? `${time}.${tenths}` : time;
+  };
+  
+  return doc.turns
+    .map(turn => {
+      const role = turn.speaker === 'AGENT' ? 'Agent' : turn.speaker === 'USER' ? 'User' : 'System';
+      const label = turn.speakerName ? `${role} (${turn.speakerName})` : role;
+      return `[${clock(turn.startS)} - ${clock(turn.endS)}]\n${label}: ${turn.text}`;
+    })
+    .join('\n\n');
+}
+
 /**
  * Format seconds to MM:SS
  */
@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Timeline helpers for synchronized transcript playback
+ *
+ * Maps a playback position to the turn being spoken and the words already
+ * said within it, turns scoring evidence timestamps into seekable markers,
+ * and lays out the speech regions the waveform strip colours.
+ *
+ * Client-safe: no Node or browser APIs.
+ */
+
+import type { ScoreCallOutput } from '@/types';
+import type { TranscriptDoc, TranscriptTurn } from '@/types/transcript';
+import { isInteractiveProfile } from '@/types/transcript';
+import { parseClockTime } from './importers';
+import { detectPreCall } from './normalize';
+
+export type TimelineMarkerKind = ScoreCallOutput['evidence'][number]['context'];
+
+/** A point on the recording to jump to, e.g. a red-flag evidence quote */
+export interface TimelineMarker {
+  timeS: number;
+  kind: TimelineMarkerKind;
+  label: string;
+}
+
+export type TimelineRegionKind = 'agent' | 'customer' | 'pre-call' | 'event';
+
+export interface TimelineRegion {
+  startS: number;
+  endS: number;
+  kind: TimelineRegionKind;
+}
+
+/**
+ * Index of the turn being spoken at timeS
+ * Between turns this is the turn that just ended, so the highlight does not
+ * flicker off during pauses; before the first turn it is -1
+ */
+export function activeTurnIndexAt(turns: TranscriptTurn[], timeS: number): number {
+  let active = -1;
+  for (let index = 0; index < turns.length; index++) {
+    if (turns[index].startS > timeS) break;
+    active = index;
+  }
+  return active;
+}
+
+/**
+ * Number of words of a turn already spoken at timeS, spreading the words
+ * evenly over the turn (transcripts have turn timings, not word timings)
+ */
+export function spokenWordCount(turn: TranscriptTurn, wordCount: number, timeS: number): number {
+  const durationS = turn.endS - turn.startS;
+  if (durationS <= 0 || timeS >= turn.endS) return wordCount;
+  if (timeS <= turn.startS) return 0;
+  return Math.ceil(((timeS - turn.startS) / durationS) * wordCount);
+}
+
+/**
+ * Seconds for an evidence timestamp: "1:23", "01:23:45", "[1:23]", "1:23 - 1:30"
+ * or "83s"; undefined when no time can be read
+ */
+export function parseEvidenceTimestamp(timestamp: string): number | undefined {
+  const clock = timestamp.match(/\d+(?::\d{1,2}){1,2}(?:[.,]\d+)?/);
+  if (clock) return parseClockTime(clock[0]);
+  const seconds = timestamp.match(/^\s*\[?(\d+(?:\.\d+)?)\s*(?:s|sec|secs|seconds?)?\]?\s*$/i);
+  return seconds ? parseFloat(seconds[1]) : undefined;
+}
+
+/**
+ * Markers for the evidence quotes of a scored call, in time order
+ */
+export function evidenceToMarkers(evidence: ScoreCallOutput['evidence'] | undefined): TimelineMarker[] {
+  return (evidence ?? [])
+    .map(item => ({ timeS: parseEvidenceTimestamp(item.timestamp), kind: item.context, label: item.quote }))
+    .filter((marker): marker is TimelineMarker => marker.timeS !== undefined)
+    .sort((a, b) => a.timeS - b.timeS);
+}
+
+/**
+ * The first marker of a kind after timeS (or before it, going back)
+ * A small margin skips the marker playback was just moved to
+ */
+export function findAdjacentMarker(
+  markers: TimelineMarker[],
+  timeS: number,
+  kind: TimelineMarkerKind,
+  direction: 'next' | 'previous'
+): TimelineMarker | undefined {
+  const ofKind = markers.filter(marker => marker.kind === kind);
+  return direction === 'next'
+    ? ofKind.find(marker => marker.timeS > timeS + 0.5)
+    : [...ofKind].reverse().find(marker => marker.timeS < timeS - 0.5);
+}
+
+/**
+ * Regions of the recording by who is speaking; everything before the
+ * conversation starts (IVR, hold, ringing) is one pre-call region
+ */
+export function timelineRegions(doc: TranscriptDoc): TimelineRegion[] {
+  const { callStartIndex, callStartMs } = detectPreCall(doc);
+  const regions: TimelineRegion[] = [];
+  const conversationStartS = callStartMs === undefined ? undefined : callStartMs / 1000;
+  const preCallEndS = conversationStartS ?? Math.max(0, ...doc.turns.map(turn => turn.endS));
+  if (preCallEndS > 0 && (callStartIndex > 0 || conversationStartS === undefined)) {
+    regions.push({ startS: 0, endS: preCallEndS, kind: 'pre-call' });
+  }
+  for (const turn of doc.turns) {
+    if (conversationStartS === undefined || turn.startS < conversationStartS) continue;
+    const kind: TimelineRegionKind = isInteractiveProfile(turn.profile)
+      ? (turn.profile === 'agent' ? 'agent' : 'customer')
+      : 'event';
+    regions.push({ startS: turn.startS, endS: Math.max(turn.endS, turn.startS), kind });
+  }
+  return regions;
+}
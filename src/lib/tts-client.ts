@@ -98,6 +98,25 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
+/** Sample rate of LINEAR16 audio decoded in the browser; speech needs no more, and it keeps turns small. */
+const LINEAR16_SAMPLE_RATE = 16000;
+
+/**
+ * The TTS services answer with MP3 even when LINEAR16 is requested. Browsers
+ * can decode MP3, so decode it here and re-encode it as 16-bit PCM WAV, which
+ * the full-call audio mixer on the server can read.
+ */
+async function toLinear16Wav(audioBlob: Blob): Promise<Blob> {
+  const bytes = await audioBlob.arrayBuffer();
+  const header = new TextDecoder('ascii').decode(bytes.slice(0, 4));
+  if (header === "RIFF") {
+    return new Blob([bytes], { type: "audio/wav" });
+  }
+  const decoder = new OfflineAudioContext(1, 1, LINEAR16_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(bytes);
+  return new Blob([encodeWAV(decoded)], { type: "audio/wav" });
+}
+
 /**
  * Synthesize speech via server-side /api/tts endpoint
  */
@@ -163,10 +182,11 @@ export async function synthesizeSpeechOnClient(request: SynthesisRequest): Promi
     }
 
     // Get audio bytes from response
-    const audioBlob = await response.blob();
-    if (!audioBlob.size) {
+    const responseBlob = await response.blob();
+    if (!responseBlob.size) {
       throw new Error("Received empty audio response");
     }
+    const audioBlob = request.audioEncoding === "LINEAR16" ? await toLinear16Wav(responseBlob) : responseBlob;
 
     // Convert blob to data URI
     const audioDataUri = await new Promise<string>((resolve, reject) => {
@@ -0,0 +1,276 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Headless voice sales calls: the AI sales agent (`runVoiceSalesAgentTurn`) talks
+ * to a simulated customer persona until one side ends the call, and the transcript
+ * is scored with `scoreCall`. Batches run every persona against every pitch
+ * version so the versions can be compared on score and sale rate.
+ */
+import { runVoiceSalesAgentTurn } from '@/ai/flows/voice-sales-agent-flow';
+import { generateSimulatedCustomerTurn } from '@/ai/flows/simulated-customer-flow';
+import { scoreCall } from '@/ai/flows/call-scoring';
+import { rateLimiter, RATE_LIMITS } from '@/lib/rate-limiter';
+import type {
+  CallScoreCategory,
+  ConversationTurn,
+  GeneratePitchOutput,
+  SalesDialogueState,
+  ScoringRubric,
+  SimulatedCustomerPersona,
+  SimulatedCustomerState,
+  VoiceSalesAgentFlowInput,
+} from '@/types';
+
+export const DEFAULT_MAX_AGENT_TURNS = 24;
+const DEFAULT_CONCURRENCY = 2;
+const GENERATED_PITCH_LABEL = 'Generated pitch';
+
+export type SimulationAgentConfig = Omit<
+  VoiceSalesAgentFlowInput,
+  'action' | 'customerCohort' | 'conversationHistory' | 'currentPitchState' | 'dialogueState' | 'currentUserInputText' | 'inactivityCounter'
+>;
+
+export interface PitchVariant {
+  label: string;
+  pitch: GeneratePitchOutput;
+}
+
+export interface SimulatedCallOptions {
+  agent: SimulationAgentConfig;
+  persona: SimulatedCustomerPersona;
+  /** Without one, the agent generates a pitch for the persona's cohort. */
+  pitchVariant?: PitchVariant;
+  seed: number;
+  maxAgentTurns?: number;
+  score?: boolean;
+  rubric?: ScoringRubric;
+}
+
+export interface SimulatedCallResult {
+  personaId: string;
+  pitchLabel: string;
+  seed: number;
+  conversation: ConversationTurn[];
+  transcript: string;
+  endedBy: 'AGENT' | 'CUSTOMER' | 'TURN_LIMIT' | 'ERROR';
+  agentTurns: number;
+  dialogueState: SalesDialogueState | null;
+  customerState: SimulatedCustomerState | null;
+  score?: { overallScore: number; callCategorisation: CallScoreCategory; summary: string };
+  error?: string;
+}
+
+const toTranscript = (turns: ConversationTurn[]): string =>
+  turns.map((turn) => `${turn.speaker === 'AI' ? 'AGENT' : 'USER'}: ${turn.text}`).join('\n');
+
+export async function runSimulatedSalesCall(options: SimulatedCallOptions): Promise<SimulatedCallResult> {
+  const { agent, persona, pitchVariant, seed } = options;
+  const maxAgentTurns = options.maxAgentTurns ?? DEFAULT_MAX_AGENT_TURNS;
+  const conversation: ConversationTurn[] = [];
+  const addTurn = (speaker: ConversationTurn['speaker'], text: string) =>
+    conversation.push({ id: `${speaker === 'AI' ? 'ai' : 'user'}-${conversation.length + 1}`, speaker, text, timestamp: new Date().toISOString() });
+
+  const result: SimulatedCallResult = {
+    personaId: persona.id,
+    pitchLabel: pitchVariant?.label ?? GENERATED_PITCH_LABEL,
+    seed,
+    conversation,
+    transcript: '',
+    endedBy: 'TURN_LIMIT',
+    agentTurns: 0,
+    dialogueState: null,
+    customerState: null,
+  };
+  const baseInput = { ...agent, customerCohort: persona.cohort };
+
+  let agentOutput = await runVoiceSalesAgentTurn({
+    ...baseInput,
+    action: 'START_CONVERSATION',
+    conversationHistory: [],
+    currentPitchState: pitchVariant?.pitch ?? null,
+  });
+  rateLimiter.incrementOnly({ identifier: 'voice-sales-agent', ...RATE_LIMITS.MODERATE });
+  const pitch = agentOutput.generatedPitch;
+
+  while (!agentOutput.errorMessage) {
+    if (agentOutput.currentAiResponseText) addTurn('AI', agentOutput.currentAiResponseText);
+    result.agentTurns += 1;
+    result.dialogueState = agentOutput.dialogueState;
+    if (agentOutput.nextExpectedAction === 'INTERACTION_ENDED') {
+      result.endedBy = 'AGENT';
+      break;
+    }
+    if (result.agentTurns >= maxAgentTurns) break;
+
+    const customer = await generateSimulatedCustomerTurn({
+      persona,
+      productDisplayName: agent.productDisplayName,
+      userName: agent.userName,
+      conversationHistory: conversation,
+      customerState: result.customerState,
+      seed,
+    });
+    if (customer.errorMessage) {
+      result.error = customer.errorMessage;
+      break;
+    }
+    addTurn('User', customer.replyText);
+    result.customerState = customer.customerState;
+    if (customer.endsCall) {
+      result.endedBy = 'CUSTOMER';
+      break;
+    }
+
+    agentOutput = await runVoiceSalesAgentTurn({
+      ...baseInput,
+      action: 'PROCESS_USER_RESPONSE',
+      conversationHistory: conversation,
+      currentPitchState: pitch,
+      dialogueState: result.dialogueState,
+      currentUserInputText: customer.replyText,
+    });
+  }
+  if (agentOutput.errorMessage) result.error = agentOutput.errorMessage;
+  if (result.error) result.endedBy = 'ERROR';
+
+  result.transcript = toTranscript(conversation);
+  if (options.score && !result.error && conversation.length > 1) {
+    try {
+      const scored = await scoreCall({
+        product: agent.product,
+        agentName: agent.agentName,
+        transcriptOverride: result.transcript,
+        productContext: agent.knowledgeBaseContext,
+        brandUrl: agent.brandUrl,
+        rubric: options.rubric,
+      });
+      rateLimiter.incrementOnly({ identifier: 'call-scoring', ...RATE_LIMITS.EXPENSIVE });
+      if (scored.callCategorisation === 'Error') throw new Error(scored.summary);
+      result.score = { overallScore: scored.overallScore, callCategorisation: scored.callCategorisation, summary: scored.summary };
+    } catch (error) {
+      result.error = `Scoring failed: ${(error as Error).message}`;
+    }
+  }
+  return result;
+}
+
+export interface SimulationBatchSpec {
+  agent: SimulationAgentConfig;
+  personas: SimulatedCustomerPersona[];
+  /** Each persona is run against every version; with none, the agent generates the pitch per call. */
+  pitchVariants: PitchVariant[];
+  runsPerPersona: number;
+  seed: number;
+  maxAgentTurns?: number;
+  score: boolean;
+  rubric?: ScoringRubric;
+}
+
+export interface SimulationSummaryRow {
+  pitchLabel: string;
+  personaId: string;
+  conversations: number;
+  errors: number;
+  sales: number;
+  saleRate: number;
+  customerHangUps: number;
+  averageAgentTurns: number;
+  /** Mean over the scored conversations; null when none were scored. */
+  averageScore: number | null;
+}
+
+/** How many simulated calls run at once (`SIMULATION_CONCURRENCY`). */
+export const getSimulationConcurrency = (): number => {
+  const configured = Number(process.env.SIMULATION_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null;
+
+export function summarizeSimulations(results: SimulatedCallResult[]): SimulationSummaryRow[] {
+  const groups = new Map<string, SimulatedCallResult[]>();
+  for (const result of results) {
+    const key = `${result.pitchLabel}\u0000${result.personaId}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+  return [...groups.values()].map((group) => {
+    const sales = group.filter((result) => result.dialogueState?.outcome === 'SALE').length;
+    return {
+      pitchLabel: group[0].pitchLabel,
+      personaId: group[0].personaId,
+      conversations: group.length,
+      errors: group.filter((result) => result.error).length,
+      sales,
+      saleRate: Math.round((sales / group.length) * 1000) / 1000,
+      customerHangUps: group.filter((result) => result.endedBy === 'CUSTOMER').length,
+      averageAgentTurns: average(group.map((result) => result.agentTurns)) ?? 0,
+      averageScore: average(group.flatMap((result) => (result.score ? [result.score.overallScore] : []))),
+    };
+  });
+}
+
+/**
+ * Every call of a batch: each persona against every pitch version `runsPerPersona`
+ * times. Run `n` of a persona uses the same seed for every version, so each version
+ * meets the same customers. The order is stable, so a call can be found again by
+ * its position.
+ */
+export function planSimulationCalls(spec: SimulationBatchSpec): SimulatedCallOptions[] {
+  const variants: (PitchVariant | undefined)[] = spec.pitchVariants.length > 0 ? spec.pitchVariants : [undefined];
+  return variants.flatMap((pitchVariant) =>
+    spec.personas.flatMap((persona, personaIndex) =>
+      Array.from({ length: spec.runsPerPersona }, (_, run) => ({
+        agent: spec.agent,
+        persona,
+        pitchVariant,
+        seed: spec.seed + personaIndex * 10_007 + run,
+        maxAgentTurns: spec.maxAgentTurns,
+        score: spec.score,
+        rubric: spec.rubric,
+      }))
+    )
+  );
+}
+
+/** Like `runSimulatedSalesCall`, but a call that throws is reported as an `ERROR` result. */
+export async function runPlannedSimulationCall(call: SimulatedCallOptions): Promise<SimulatedCallResult> {
+  try {
+    return await runSimulatedSalesCall(call);
+  } catch (error) {
+    return {
+      personaId: call.persona.id,
+      pitchLabel: call.pitchVariant?.label ?? GENERATED_PITCH_LABEL,
+      seed: call.seed,
+      conversation: [],
+      transcript: '',
+      endedBy: 'ERROR',
+      agentTurns: 0,
+      dialogueState: null,
+      customerState: null,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Runs the calls of `planSimulationCalls` in this process. Results are reported as
+ * they finish; the batch stops taking new calls once `signal` aborts.
+ */
+export async function runSimulationBatch(
+  spec: SimulationBatchSpec,
+  onResult: (result: SimulatedCallResult, completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<SimulationSummaryRow[]> {
+  const calls = planSimulationCalls(spec);
+  const results: SimulatedCallResult[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < calls.length && !signal?.aborted) {
+      const result = await runPlannedSimulationCall(calls[next++]);
+      results.push(result);
+      onResult(result, results.length, calls.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(getSimulationConcurrency(), calls.length) }, worker));
+  return summarizeSimulations(results);
+}
@@ -0,0 +1,178 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Sends events to the webhook subscriptions of the workspace they happened in.
+ * Each delivery is an HMAC-signed JSON POST, retried with backoff by a
+ * `RetryManager` of its own subscription, so one receiver that is down opens
+ * only its own circuit breaker. Every delivery is logged, and an admin can
+ * replay it with the same event id.
+ *
+ * Emitting never throws and never waits for delivery: the feature that raised
+ * the event must not fail or slow down because a receiver is unreachable.
+ */
+import { createHmac, randomUUID } from 'crypto';
+import { DEFAULT_RETRY_CONFIG, RetryManager, type RetryConfig } from '@/ai/utils/retry-manager';
+import {
+  createWebhookDelivery,
+  getWebhookDelivery,
+  getWebhookSecret,
+  getWebhookSubscription,
+  listSubscribersFor,
+  updateWebhookDelivery,
+} from './store';
+import {
+  WEBHOOK_HEADERS,
+  type CallScoredPayload,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookEventPayloads,
+  type WebhookEventType,
+  type WebhookSubscription,
+} from './types';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY_CHARS = 1000;
+
+/**
+ * Client errors other than 408 and 429 are not retried: the receiver rejected
+ * the payload and will reject it again.
+ */
+const WEBHOOK_RETRY_CONFIG: RetryConfig = {
+  ...DEFAULT_RETRY_CONFIG,
+  maxRetries: 6,
+  initialDelay: 2000,
+  maxDelay: 60_000,
+  retryableErrors: [
+    '408', '429', '500', '502', '503', '504',
+    'timeout', 'fetch failed', 'network', 'socket hang up',
+    'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN',
+  ],
+  circuitBreakerThreshold: 5,
+  circuitBreakerTimeout: 60_000,
+};
+
+const globalScope = globalThis as typeof globalThis & { __webhookRetryManagers?: Map<string, RetryManager> };
+
+function getRetryManager(subscriptionId: string): RetryManager {
+  globalScope.__webhookRetryManagers ??= new Map();
+  let manager = globalScope.__webhookRetryManagers.get(subscriptionId);
+  if (!manager) {
+    manager = new RetryManager(WEBHOOK_RETRY_CONFIG);
+    globalScope.__webhookRetryManagers.set(subscriptionId, manager);
+  }
+  return manager;
+}
+
+/** `sha256=<hex>` over `${timestamp}.${payload}`; receivers recompute it with their secret. */
+export function signWebhookPayload(secret: string, timestamp: number, payload: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+}
+
+/** Node's fetch hides the socket error code in `cause`; surface it so it can be matched for retries. */
+const describeFetchError = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { cause?: { code?: unknown } })?.cause?.code;
+  return typeof code === 'string' ? `${message} (${code})` : message;
+};
+
+async function postDelivery(subscription: WebhookSubscription, delivery: WebhookDelivery, attempt: number): Promise<void> {
+  const secret = getWebhookSecret(subscription.id);
+  if (!secret) throw new Error('The subscription was deleted.');
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+  updateWebhookDelivery(delivery.id, { attempts: attempt });
+
+  let response: Response;
+  try {
+    response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AI-TeleSuite-Webhooks/1.0',
+        [WEBHOOK_HEADERS.event]: delivery.eventType,
+        [WEBHOOK_HEADERS.id]: delivery.eventId,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+  } catch (error) {
+    const message = describeFetchError(error);
+    updateWebhookDelivery(delivery.id, { responseStatus: undefined, responseBody: undefined, error: message, durationMs: Date.now() - startedAt });
+    throw new Error(message);
+  }
+
+  const body = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_CHARS);
+  const durationMs = Date.now() - startedAt;
+  if (!response.ok) {
+    const message = `Receiver responded with HTTP ${response.status}`;
+    updateWebhookDelivery(delivery.id, { responseStatus: response.status, responseBody: body, error: message, durationMs });
+    throw Object.assign(new Error(message), { status: response.status });
+  }
+  updateWebhookDelivery(delivery.id, { responseStatus: response.status, responseBody: body, error: undefined, durationMs });
+}
+
+async function deliver(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  try {
+    await getRetryManager(subscription.id).execute(
+      (attempt) => postDelivery(subscription, delivery, attempt),
+      `webhook ${delivery.eventType} -> ${subscription.name}`
+    );
+    return updateWebhookDelivery(delivery.id, { status: 'Delivered', completedAt: new Date().toISOString() });
+  } catch (error) {
+    return updateWebhookDelivery(delivery.id, {
+      status: 'Failed',
+      error: (error as Error).message,
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+function startDelivery(subscription: WebhookSubscription, delivery: WebhookDelivery) {
+  void deliver(subscription, delivery).catch((error) => {
+    console.error(`Webhook delivery ${delivery.id} could not be logged:`, (error as Error).message);
+  });
+}
+
+/** Queues a delivery to every enabled subscription in the workspace that listens for `type`. */
+export function emitWebhookEvent<T extends WebhookEventType>(workspaceId: string, type: T, data: WebhookEventPayloads[T]) {
+  try {
+    const subscribers = listSubscribersFor(workspaceId, type);
+    if (subscribers.length === 0) return;
+    const event: WebhookEvent<T> = { id: randomUUID(), type, workspaceId, createdAt: new Date().toISOString(), data };
+    const payload = JSON.stringify(event);
+    for (const subscription of subscribers) {
+      startDelivery(subscription, createWebhookDelivery(subscription.id, event, payload));
+    }
+  } catch (error) {
+    console.error(`Could not dispatch webhook event ${type}:`, (error as Error).message);
+  }
+}
+
+/** `call.scored`, followed by `call.redflag` when the call has red flags. */
+export function emitCallScoredEvents(workspaceId: string, payload: CallScoredPayload) {
+  emitWebhookEvent(workspaceId, 'call.scored', payload);
+  if (payload.redFlags.length > 0) emitWebhookEvent(workspaceId, 'call.redflag', payload);
+}
+
+/**
+ * Sends a logged delivery again, as a new delivery with the same event id and
+ * body, signed with the subscription's current secret. Returns it while pending.
+ * Deliveries of subscriptions outside `workspaceId` are reported as not found.
+ */
+export function replayWebhookDelivery(deliveryId: string, workspaceId: string): WebhookDelivery {
+  const original = getWebhookDelivery(deliveryId);
+  if (!original) throw new Error(`Webhook delivery '${deliveryId}' not found.`);
+  const subscription = getWebhookSubscription(original.subscriptionId);
+  if (!subscription) throw new Error('The subscription for this delivery was deleted.');
+  if (subscription.workspaceId !== workspaceId) throw new Error(`Webhook delivery '${deliveryId}' not found.`);
+  const replay = createWebhookDelivery(
+    subscription.id,
+    { id: original.eventId, type: original.eventType },
+    original.payload,
+    original.id
+  );
+  startDelivery(subscription, replay);
+  return replay;
+}
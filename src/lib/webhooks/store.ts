@@ -0,0 +1,299 @@
+/**
+ * THIS IS A SERVER-SIDE-ONLY MODULE.
+ * Webhook subscriptions and their delivery log, persisted in SQLite.
+ * `WEBHOOKS_STORE_PATH` overrides the file location (defaults to `.data/webhooks.db`).
+ *
+ * Each subscription has its own signing secret. It is generated here, returned
+ * once when the subscription is created or rotated, and never listed.
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { RequestIdentity } from '@/lib/auth/server';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookSubscriptionWithSecret,
+} from './types';
+
+type SubscriptionRow = {
+  id: string;
+  name: string;
+  workspace_id: string;
+  created_by: string;
+  created_by_name: string;
+  url: string;
+  events: string;
+  secret: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type DeliveryRow = {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  replay_of: string | null;
+  created_at: string;
+  completed_at: string | null;
+};
+
+export type WebhookDeliveryUpdate = Partial<
+  Pick<WebhookDelivery, 'status' | 'attempts' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs' | 'completedAt'>
+>;
+
+const DEFAULT_WEBHOOKS_DB_PATH = path.join(process.cwd(), '.data', 'webhooks.db');
+/** Older deliveries are pruned when new ones are logged. */
+const MAX_DELIVERIES_PER_SUBSCRIPTION = 500;
+
+const rowToSubscription = (row: SubscriptionRow): WebhookSubscription => ({
+  id: row.id,
+  name: row.name,
+  workspaceId: row.workspace_id,
+  createdBy: row.created_by,
+  createdByName: row.created_by_name,
+  url: row.url,
+  events: JSON.parse(row.events) as WebhookEventType[],
+  enabled: row.enabled === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const rowToDelivery = (row: DeliveryRow): WebhookDelivery => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  payload: row.payload,
+  status: row.status,
+  attempts: row.attempts,
+  responseStatus: row.response_status ?? undefined,
+  responseBody: row.response_body ?? undefined,
+  error: row.error ?? undefined,
+  durationMs: row.duration_ms ?? undefined,
+  replayOf: row.replay_of ?? undefined,
+  createdAt: row.created_at,
+  completedAt: row.completed_at ?? undefined,
+});
+
+let database: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!database) {
+    const filePath = process.env.WEBHOOKS_STORE_PATH || DEFAULT_WEBHOOKS_DB_PATH;
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    database = new Database(filePath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_by_name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        subscription_id TEXT NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        duration_ms INTEGER,
+        replay_of TEXT,
+        created_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_workspace ON webhook_subscriptions (workspace_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at DESC);
+    `);
+    database.pragma('foreign_keys = ON');
+  }
+  return database;
+}
+
+const generateSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`;
+
+export function listWebhookSubscriptions(workspaceId: string): WebhookSubscription[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM webhook_subscriptions WHERE workspace_id = ? ORDER BY name COLLATE NOCASE')
+    .all(workspaceId) as SubscriptionRow[];
+  return rows.map(rowToSubscription);
+}
+
+export function getWebhookSubscription(id: string): WebhookSubscription | null {
+  const row = getDb().prepare('SELECT * FROM webhook_subscriptions WHERE id = ?').get(id) as SubscriptionRow | undefined;
+  return row ? rowToSubscription(row) : null;
+}
+
+/** The signing secret, for the dispatcher only. */
+export function getWebhookSecret(id: string): string | null {
+  const row = getDb().prepare('SELECT secret FROM webhook_subscriptions WHERE id = ?').get(id) as { secret: string } | undefined;
+  return row?.secret ?? null;
+}
+
+/** Enabled subscriptions in the workspace that listen for `eventType`. */
+export function listSubscribersFor(workspaceId: string, eventType: WebhookEventType): WebhookSubscription[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM webhook_subscriptions WHERE workspace_id = ? AND enabled = 1')
+    .all(workspaceId) as SubscriptionRow[];
+  return rows.map(rowToSubscription).filter((subscription) => subscription.events.includes(eventType));
+}
+
+export function createWebhookSubscription(input: WebhookSubscriptionInput, identity: RequestIdentity): WebhookSubscriptionWithSecret {
+  const id = randomUUID();
+  const secret = generateSecret();
+  const now = new Date().toISOString();
+  getDb()
+    .prepare(`
+      INSERT INTO webhook_subscriptions (id, name, workspace_id, created_by, created_by_name, url, events, secret, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      id,
+      input.name,
+      identity.workspaceId,
+      identity.userId,
+      identity.displayName,
+      input.url,
+      JSON.stringify(input.events),
+      secret,
+      input.enabled ? 1 : 0,
+      now,
+      now
+    );
+  return { ...getWebhookSubscription(id)!, secret };
+}
+
+/**
+ * Returns the new secret as well when `input.rotateSecret` is set, or null when
+ * the subscription does not exist in `workspaceId`.
+ */
+export function updateWebhookSubscription(
+  id: string,
+  workspaceId: string,
+  input: WebhookSubscriptionInput
+): WebhookSubscription | WebhookSubscriptionWithSecret | null {
+  const row = getDb()
+    .prepare('SELECT secret FROM webhook_subscriptions WHERE id = ? AND workspace_id = ?')
+    .get(id, workspaceId) as { secret: string } | undefined;
+  if (!row) return null;
+  const secret = input.rotateSecret ? generateSecret() : row.secret;
+  getDb()
+    .prepare('UPDATE webhook_subscriptions SET name = ?, url = ?, events = ?, secret = ?, enabled = ?, updated_at = ? WHERE id = ?')
+    .run(input.name, input.url, JSON.stringify(input.events), secret, input.enabled ? 1 : 0, new Date().toISOString(), id);
+  const subscription = getWebhookSubscription(id)!;
+  return input.rotateSecret ? { ...subscription, secret } : subscription;
+}
+
+/** Removes the subscription in `workspaceId` and its delivery log. */
+export function deleteWebhookSubscription(id: string, workspaceId: string): boolean {
+  return getDb().prepare('DELETE FROM webhook_subscriptions WHERE id = ? AND workspace_id = ?').run(id, workspaceId).changes > 0;
+}
+
+export function createWebhookDelivery(
+  subscriptionId: string,
+  event: { id: string; type: WebhookEventType },
+  payload: string,
+  replayOf?: string
+): WebhookDelivery {
+  const db = getDb();
+  const id = randomUUID();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO webhook_deliveries (id, subscription_id, event_id, event_type, payload, status, replay_of, created_at)
+      VALUES (?, ?, ?, ?, ?, 'Pending', ?, ?)
+    `).run(id, subscriptionId, event.id, event.type, payload, replayOf ?? null, new Date().toISOString());
+    db.prepare(`
+      DELETE FROM webhook_deliveries WHERE subscription_id = ? AND id NOT IN (
+        SELECT id FROM webhook_deliveries WHERE subscription_id = ? ORDER BY created_at DESC LIMIT ?
+      )
+    `).run(subscriptionId, subscriptionId, MAX_DELIVERIES_PER_SUBSCRIPTION);
+  })();
+  return getWebhookDelivery(id)!;
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | null {
+  const row = getDb().prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as DeliveryRow | undefined;
+  return row ? rowToDelivery(row) : null;
+}
+
+export function updateWebhookDelivery(id: string, changes: WebhookDeliveryUpdate): WebhookDelivery {
+  const current = getWebhookDelivery(id);
+  if (!current) throw new Error(`Webhook delivery '${id}' not found.`);
+  const next = { ...current, ...changes };
+  getDb()
+    .prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?, duration_ms = ?, completed_at = ?
+      WHERE id = ?
+    `)
+    .run(
+      next.status,
+      next.attempts,
+      next.responseStatus ?? null,
+      next.responseBody ?? null,
+      next.error ?? null,
+      next.durationMs ?? null,
+      next.completedAt ?? null,
+      id
+    );
+  return next;
+}
+
+/** Most recent first, for subscriptions in `workspaceId`, optionally for one subscription or status. */
+export function listWebhookDeliveries(
+  workspaceId: string,
+  filter: { subscriptionId?: string; status?: WebhookDeliveryStatus } = {},
+  limit = 50
+): WebhookDelivery[] {
+  const conditions: string[] = ['subscription_id IN (SELECT id FROM webhook_subscriptions WHERE workspace_id = ?)'];
+  const params: unknown[] = [workspaceId];
+  if (filter.subscriptionId) {
+    conditions.push('subscription_id = ?');
+    params.push(filter.subscriptionId);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+  const rows = getDb()
+    .prepare(`SELECT * FROM webhook_deliveries WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params, Math.min(Math.max(limit, 1), 200)) as DeliveryRow[];
+  return rows.map(rowToDelivery);
+}
+
+/**
+ * Called once at start-up: deliveries cut short by a restart are marked
+ * failed, so they can be replayed from the admin page.
+ */
+export function failInterruptedWebhookDeliveries(): number {
+  return getDb()
+    .prepare(`UPDATE webhook_deliveries SET status = 'Failed', completed_at = ?, error = 'Interrupted by a server restart' WHERE status = 'Pending'`)
+    .run(new Date().toISOString()).changes;
+}
@@ -0,0 +1,143 @@
+/**
+ * Shapes shared by the outbound webhook dispatcher, its API routes and the
+ * admin page. Kept free of Node-only imports so the page can use them.
+ */
+import { z } from 'zod';
+import type { CallRecordingMetadata, ScoreCallOutput, TranscriptionOutput } from '@/types';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'call.scored',
+  'call.redflag',
+  'support.escalation',
+  'transcription.completed',
+  'batch.analysis.completed',
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'call.scored': 'A call was scored, from the Call Scoring page, a batch job or ingestion.',
+  'call.redflag': 'A scored call has one or more red flags. Sent in addition to call.scored.',
+  'support.escalation': 'The voice support agent suggested escalating to a human.',
+  'transcription.completed': 'A recording was transcribed on the Transcription page.',
+  'batch.analysis.completed': 'A batch scoring job finished, or a combined call analysis report was generated.',
+};
+
+/** Headers sent with every delivery. The signature covers `${timestamp}.${body}`. */
+export const WEBHOOK_HEADERS = {
+  event: 'X-Webhook-Event',
+  id: 'X-Webhook-Id',
+  timestamp: 'X-Webhook-Timestamp',
+  signature: 'X-Webhook-Signature',
+} as const;
+
+export const WebhookSubscriptionInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z
+    .string()
+    .url()
+    .refine((value) => /^https?:\/\//i.test(value), 'Use an http or https URL.'),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Subscribe to at least one event.'),
+  enabled: z.boolean().default(true),
+  /** Only honoured on update: replaces the signing secret and returns the new one. */
+  rotateSecret: z.boolean().optional(),
+});
+export type WebhookSubscriptionInput = z.infer<typeof WebhookSubscriptionInputSchema>;
+
+export interface WebhookSubscription extends Omit<WebhookSubscriptionInput, 'rotateSecret'> {
+  id: string;
+  /** Receives events from this workspace only. */
+  workspaceId: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Returned when a subscription is created or its secret rotated; the secret is not shown again. */
+export interface WebhookSubscriptionWithSecret extends WebhookSubscription {
+  secret: string;
+}
+
+export interface CallScoredPayload {
+  /** Activity id for batch and ingestion calls; interactive scoring is logged by the browser. */
+  activityId?: string;
+  jobId?: string;
+  fileName?: string;
+  product: string;
+  agentName?: string;
+  source: 'Manual' | 'Batch' | 'Ingestion';
+  callMetadata?: CallRecordingMetadata;
+  overallScore: number;
+  callCategorisation: ScoreCallOutput['callCategorisation'];
+  callDisposition: ScoreCallOutput['callDisposition'];
+  conversionReadiness: ScoreCallOutput['conversionReadiness'];
+  summary: string;
+  redFlags: string[];
+}
+
+export interface SupportEscalationPayload {
+  product: string;
+  userName?: string;
+  userQuery: string;
+  aiResponseText?: string;
+  isUnanswerableFromKB?: boolean;
+  errorMessage?: string;
+}
+
+export interface TranscriptionCompletedPayload {
+  durationSeconds: number | null;
+  segmentCount: number;
+  transcription: TranscriptionOutput;
+}
+
+export interface BatchAnalysisCompletedPayload {
+  kind: 'ScoringJob' | 'CombinedAnalysis';
+  product: string;
+  jobId?: string;
+  totalCalls: number;
+  completedCalls?: number;
+  failedCalls?: number;
+  averageOverallScore?: number;
+  reportTitle?: string;
+  summary?: string;
+}
+
+export interface WebhookEventPayloads {
+  'call.scored': CallScoredPayload;
+  'call.redflag': CallScoredPayload;
+  'support.escalation': SupportEscalationPayload;
+  'transcription.completed': TranscriptionCompletedPayload;
+  'batch.analysis.completed': BatchAnalysisCompletedPayload;
+}
+
+/** The JSON body of a delivery. Redeliveries and replays keep the event id. */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  workspaceId: string;
+  createdAt: string;
+  data: WebhookEventPayloads[T];
+}
+
+export type WebhookDeliveryStatus = 'Pending' | 'Delivered' | 'Failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  /** The event as it was signed and sent. */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  /** Requests made so far, including retries. */
+  attempts: number;
+  responseStatus?: number;
+  /** First 1,000 characters of the last response. */
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  /** Set when an admin replayed an earlier delivery. */
+  replayOf?: string;
+  createdAt: string;
+  completedAt?: string;
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { hasPermission, isPublicPath, requiredPermission } from '@/lib/auth/roles'
+import { getAuthSecret, SESSION_COOKIE, verifySession } from '@/lib/auth/session'
+import { getActiveSessionVersion } from '@/lib/auth/user-store'
+
+// Mirrors IDENTITY_HEADERS in src/lib/auth/server.ts (kept inline so the middleware bundle stays small).
+const IDENTITY_HEADERS = {
+  userId: 'x-telesuite-user-id',
+  userName: 'x-telesuite-user-name',
+  role: 'x-telesuite-role',
+  workspaceId: 'x-telesuite-workspace-id',
+}
+
+const jsonError = (error: string, status: number) =>
+  NextResponse.json({ ok: false, error }, { status })
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const isApi = pathname.startsWith('/api/')
+
+  // Never trust identity headers supplied by the client.
+  const requestHeaders = new Headers(request.headers)
+  Object.values(IDENTITY_HEADERS).forEach((header) => requestHeaders.delete(header))
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next({ request: { headers: requestHeaders } })
+  }
+
+  const secret = getAuthSecret()
+  if (!secret) {
+    return isApi
+      ? jsonError('Authentication is not configured on this server.', 503)
+      : new NextResponse('Authentication is not configured on this server (AUTH_SECRET missing).', { status: 503 })
+  }
+
+  const verified = await verifySession(request.cookies.get(SESSION_COOKIE)?.value, secret)
+  // Sessions of users disabled, or given another role or workspace, since they signed in are no longer valid.
+  const session = verified && getActiveSessionVersion(verified.sub) === verified.ver ? verified : null
+  if (!session) {
+    if (isApi) {
+      return jsonError('Authentication required.', 401)
+    }
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const permission = requiredPermission(pathname, request.method)
+  if (permission && !hasPermission(session.role, permission)) {
+    return isApi
+      ? jsonError('You do not have permission to perform this action.', 403)
+      : NextResponse.redirect(new URL('/home', request.url))
+  }
+
+  requestHeaders.set(IDENTITY_HEADERS.userId, session.sub)
+  requestHeaders.set(IDENTITY_HEADERS.userName, encodeURIComponent(session.name))
+  requestHeaders.set(IDENTITY_HEADERS.role, session.role)
+  requestHeaders.set(IDENTITY_HEADERS.workspaceId, session.ws)
+  return NextResponse.next({ request: { headers: requestHeaders } })
+}
+
+export const config = {
+  // Node.js rather than Edge: every request is checked against the user store (SQLite).
+  runtime: 'nodejs',
+  matcher: [
+    /*
+     * Match all request paths except for the ones starting with:
+     * - _next/static (static files)
+     * - _next/image (image optimization files)
+     * - favicon.ico (favicon file)
+     */
+    '/((?!_next/static|_next/image|favicon.ico).*)',
+  ],
+}
@@ -26,6 +26,17 @@ export interface KnowledgeFile {
   textContent?: string;
   isTextEntry?: boolean;
   dataUri?: string; // To store content of uploaded files for download & preview
+  /** Outcome of server-side text extraction for uploads; the text itself is stored in `textContent`. */
+  extraction?: KnowledgeFileExtraction;
+}
+
+export interface KnowledgeFileExtraction {
+  status: 'extracted' | 'failed';
+  /** Pages, slides or sheets the text was read from. */
+  sectionCount?: number;
+  /** Set when `textContent` holds only the beginning of the document. */
+  truncated?: boolean;
+  error?: string;
 }
 
 export type Product = string;
@@ -73,6 +84,8 @@ export interface ActivityLogEntry {
   module: string;
   product?: string;
   agentName?: string;
+  agentId?: string; // Authenticated user id; set server-side from the session
+  workspaceId?: string; // Workspace the entry belongs to; set server-side from the session
   details?: unknown; // Changed from Json to unknown for flexibility with complex nested types
   userFeedback?: TranscriptFeedback; // User feedback on transcript quality
 }
@@ -89,8 +102,31 @@ export const TranscriptFeedbackSchema = z.object({
 });
 export type TranscriptFeedback = z.infer<typeof TranscriptFeedbackSchema>;
 
-export type UserProfile = "Anchit";
-export const USER_PROFILES: UserProfile[] = ["Anchit"];
+// Display name of the signed-in user.
+export type UserProfile = string;
+
+export const USER_ROLES = ["agent", "team_lead", "qa_auditor", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const DEFAULT_WORKSPACE_ID = "default";
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  email?: string;
+  role: UserRole;
+  workspaceId: string;
+  authProvider: "local" | "oidc";
+  disabled?: boolean;
+  createdAt: string;
+}
 
 
 // =================================================================
@@ -101,7 +137,7 @@ export const TranscriptionInputSchema = z.object({
     "An audio file, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
   ),
   audioUrl: z.string().url().optional().describe(
-    "A public URL to an audio file. Use this for larger files to avoid passing large data URIs."
+    "A public http(s) URL to an audio file. Use this for larger files to avoid passing large data URIs. Hosts that resolve to private, loopback or link-local addresses are refused."
   ),
 }).superRefine((data, ctx) => {
     if (!data.audioDataUri && !data.audioUrl) {
@@ -147,14 +183,98 @@ export type TranscriptionOutput = z.infer<typeof TranscriptionOutputSchema>;
 export const CALL_SCORE_CATEGORIES = ["Excellent", "Good", "Average", "Needs Improvement", "Poor", "Error"] as const;
 export type CallScoreCategory = (typeof CALL_SCORE_CATEGORIES)[number];
 
+export const RubricMetricSchema = z.object({
+  name: z.string().min(1).describe("Metric label, used as `metricScores[].metric`."),
+  guidance: z.string().describe("What the scorer should look for when scoring this metric."),
+  weight: z.number().min(0).max(10).describe("Relative weight of the metric within its category."),
+  requiresAudio: z.boolean().optional().describe("Tonality metrics that cannot be judged from the transcript alone."),
+  critical: z.boolean().optional().describe("Auto-fail metric: a score of 2 or lower forces the call's categorisation to Poor."),
+});
+export type RubricMetric = z.infer<typeof RubricMetricSchema>;
+
+export const RubricCategorySchema = z.object({
+  name: z.string().min(1),
+  weight: z.number().min(0).max(10).describe("Relative weight of the category in the overall score."),
+  metrics: z.array(RubricMetricSchema).min(1),
+});
+export type RubricCategory = z.infer<typeof RubricCategorySchema>;
+
+/**
+ * Scoring rubric for one product. Every saved edit is a new `version`; version 0
+ * is the built-in rubric shipped with the app.
+ */
+export const ScoringRubricSchema = z.object({
+  product: z.string().min(1),
+  version: z.number().int().min(0),
+  name: z.string().min(1),
+  categories: z.array(RubricCategorySchema).min(1),
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+export type ScoringRubric = z.infer<typeof ScoringRubricSchema>;
+
+/** Identifies the rubric a call was scored against. */
+export const RubricReferenceSchema = z.object({
+  product: z.string(),
+  version: z.number().int(),
+  name: z.string(),
+});
+export type RubricReference = z.infer<typeof RubricReferenceSchema>;
+
+/** Weighted average of one rubric category, as used in the overall score. */
+export const CategoryScoreSchema = z.object({
+  category: z.string(),
+  score: z.number().describe("Weighted average of the category's metric scores, from 1 to 5."),
+  weight: z.number().describe("Weight of the category in the overall score."),
+  metricCount: z.number().int(),
+});
+export type CategoryScore = z.infer<typeof CategoryScoreSchema>;
+
+const SpeakerCountsSchema = z.object({
+  agent: z.number(),
+  customer: z.number(),
+});
+
+/**
+ * Conversation analytics measured from the transcript turns rather than judged
+ * by the model. Times are in seconds from the first agent or customer turn.
+ */
+export const ConversationAnalyticsSchema = z.object({
+  timing: z.enum(['measured', 'estimated']).describe("'estimated' when the transcript had no timestamps and turn times were derived from word counts."),
+  durationS: z.number().describe("From the start of the first to the end of the last agent or customer turn."),
+  talkTimeS: SpeakerCountsSchema,
+  agentTalkRatio: z.number().describe("Agent share of the combined agent and customer talk time, from 0 to 1."),
+  longestMonologue: z.object({
+    speaker: z.enum(['agent', 'customer']),
+    startS: z.number(),
+    durationS: z.number(),
+  }).optional(),
+  interruptions: SpeakerCountsSchema.describe("Turns that started before the other speaker had finished, by the speaker who cut in."),
+  overlapS: z.number(),
+  deadAir: z.object({
+    count: z.number().int(),
+    totalS: z.number(),
+    longestS: z.number(),
+  }),
+  questions: SpeakerCountsSchema,
+  agentOpenQuestions: z.number().int(),
+  firstQuestionS: z.number().optional().describe("When the agent asked their first question."),
+  firstPriceMentionS: z.number().optional(),
+  firstOfferS: z.number().optional().describe("When the agent first mentioned an offer, discount or trial."),
+  postCtaSilenceS: z.number().optional().describe("Silence between the agent's last call to action and the customer's reply."),
+  wordsPerMinute: SpeakerCountsSchema,
+});
+export type ConversationAnalytics = z.infer<typeof ConversationAnalyticsSchema>;
+
 export const ScoreCallInputSchema = z.object({
   product: z.string().min(1, "Product is required."),
   agentName: z.string().optional(),
   audioDataUri: z.string().optional().describe("The full audio of the call as a data URI. Used for tonality analysis."),
-  audioUrl: z.string().url().optional().describe("A public URL to an audio file. Use this for larger files to avoid passing large data URIs."),
-  transcriptOverride: z.string().optional().describe("A full, pre-existing transcript of the call. If not provided, a transcript will be generated from audioDataUri."),
+  audioUrl: z.string().url().optional().describe("A public http(s) URL to an audio file. Use this for larger files to avoid passing large data URIs. Hosts that resolve to private, loopback or link-local addresses are refused."),
+  transcriptOverride: z.string().optional().describe("A full, pre-existing transcript of the call: the app's diarized text, or a WebVTT, SRT, Whisper, AWS Transcribe, Deepgram, AssemblyAI or diarized CSV export. If not provided, a transcript will be generated from audioDataUri."),
   productContext: z.string().optional().describe("A string containing concatenated knowledge base and product catalog information."),
   brandUrl: z.string().url().optional().describe("The official URL of the product brand for fallback knowledge retrieval."),
+  rubric: ScoringRubricSchema.optional().describe("The rubric to score against. Defaults to the built-in rubric for the product."),
 }).superRefine((data, ctx) => {
     if (!data.audioDataUri && !data.transcriptOverride && !data.audioUrl) {
         ctx.addIssue({
@@ -169,7 +289,7 @@ export type ScoreCallInput = z.infer<typeof ScoreCallInputSchema>;
 export const ScoreCallOutputSchema = z.object({
   transcript: z.string(),
   transcriptAccuracy: z.string(),
-  overallScore: z.number().describe("The single, overall score for the call, calculated as the average of all individual metric scores. Value is from 1 to 5."),
+  overallScore: z.number().describe("The single, overall score for the call: the weighted average of the rubric category scores, calculated from `metricScores` after scoring. Value is from 1 to 5."),
   callCategorisation: z.enum(CALL_SCORE_CATEGORIES),
   conversionReadiness: z.enum(["High", "Medium", "Low"]).describe("The AI's assessment of the user's likelihood to convert at the end of the call."),
   callDisposition: z.enum([
@@ -207,9 +327,15 @@ export const ScoreCallOutputSchema = z.object({
     metric: z.string().describe("The specific metric being evaluated (e.g., 'Call Opening', 'Probing Depth', 'Price Objection Response')."),
     score: z.number().min(1).max(5).describe("The score for this metric, from 1 to 5."),
     feedback: z.string().describe("Detailed, specific, and actionable feedback for this metric."),
+    category: z.string().optional().describe("Rubric category of the metric. Filled in from the rubric after scoring."),
+    measuredValue: z.string().optional().describe("The value measured from the transcript for timing and talk-ratio metrics. Filled in from `conversationAnalytics` after scoring."),
   })).describe("A comprehensive list of all evaluated metrics with their scores and feedback."),
   improvementSituations: z.array(z.unknown()).optional().describe("This field is defined dynamically in the flow to avoid circular dependencies. It contains specific situations for improvement."),
   timestamp: z.string().optional(),
+  rubric: RubricReferenceSchema.optional().describe("The rubric version this call was scored against. Missing on scores recorded before rubrics were configurable."),
+  categoryScores: z.array(CategoryScoreSchema).optional().describe("Per-category breakdown behind `overallScore`."),
+  criticalFailures: z.array(z.string()).optional().describe("Critical rubric metrics the agent failed. Any entry forces `callCategorisation` to Poor."),
+  conversationAnalytics: ConversationAnalyticsSchema.optional().describe("Talk ratio, interruptions, dead air and timings measured from the transcript. Missing when the transcript had no agent or customer turns."),
 });
 export type ScoreCallOutput = z.infer<typeof ScoreCallOutputSchema>;
 
@@ -224,27 +350,87 @@ const KeyMetricSchema = z.object({
   insight: z.string().optional().describe("A brief insight related to this metric. (e.g. 'Indicates strong product-market fit for this cohort.')")
 });
 
+export type KeyMetric = z.infer<typeof KeyMetricSchema>;
+
 const ChartTableSuggestionSchema = z.object({
   type: z.enum(["Line Chart", "Bar Chart", "Pie Chart", "Table", "Heatmap", "Scatter Plot"]).describe("Suggested type of visualization."),
   title: z.string().describe("Title for the suggested chart/table (e.g., 'Monthly Revenue Trend', 'Agent Performance Comparison')."),
   description: z.string().describe("Brief description of what this chart/table would show and what data it would use from the user's described files (e.g., 'Line chart showing total revenue per month from Oct-May, using 'Revenue' column from ET MIS sheets.' or 'Table comparing Agent Name, Calls Made, Conversion %').")
 });
 
+const ColumnProfileSchema = z.object({
+  name: z.string(),
+  type: z.enum(["number", "date", "duration", "boolean", "category", "text", "empty"]),
+  role: z.enum(["agent", "outcome", "duration", "revenue", "date", "cohort", "source", "leadId", "callId"]).optional(),
+  filled: z.number(),
+  missing: z.number(),
+  distinct: z.number(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  mean: z.number().optional(),
+  median: z.number().optional(),
+  sum: z.number().optional(),
+  earliest: z.string().optional().describe("ISO date (yyyy-mm-dd) of the earliest value of a date column."),
+  latest: z.string().optional(),
+  topValues: z.array(z.object({ value: z.string(), count: z.number() })).optional(),
+});
+export type ColumnProfile = z.infer<typeof ColumnProfileSchema>;
+export type ColumnRole = NonNullable<ColumnProfile['role']>;
+
+const TableProfileSchema = z.object({
+  source: z.string().describe("File name, or 'archive.zip/entry.csv' for files read from a ZIP."),
+  sheet: z.string().optional(),
+  headerRow: z.number().describe("1-based row the column headers were read from."),
+  rowCount: z.number(),
+  skippedRows: z.number().describe("Empty rows, repeated header rows and section-title rows left out of the table."),
+  columns: z.array(ColumnProfileSchema),
+});
+export type TableProfile = z.infer<typeof TableProfileSchema>;
+
+const BreakdownSchema = z.object({
+  table: z.string(),
+  dimension: z.enum(["agent", "month", "cohort", "source"]),
+  column: z.string(),
+  rows: z.array(z.object({
+    key: z.string(),
+    records: z.number(),
+    connected: z.number().optional(),
+    converted: z.number().optional(),
+    followUps: z.number().optional(),
+    revenue: z.number().optional(),
+    avgDurationSeconds: z.number().optional(),
+  })),
+});
+export type DataBreakdown = z.infer<typeof BreakdownSchema>;
+
+export const DataProfileSchema = z.object({
+  files: z.array(z.object({
+    fileName: z.string(),
+    status: z.enum(["parsed", "skipped", "failed"]),
+    tableCount: z.number(),
+    message: z.string().optional(),
+  })),
+  tables: z.array(TableProfileSchema),
+  breakdowns: z.array(BreakdownSchema),
+});
+export type DataProfile = z.infer<typeof DataProfileSchema>;
+
 export const DataAnalysisInputSchema = z.object({
   fileDetails: z.array(z.object({
     fileName: z.string().describe("The name of one of the user's files."),
     fileType: z.string().describe("The MIME type of the file (e.g., 'text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')."),
     fileDataUri: z.string().optional().describe("The data URI of the uploaded file for storage and later download.")
   })).min(1).describe("An array of objects, each describing a file the user intends to analyze. The AI uses these names and types as context alongside the user's detailed prompt."),
-  userAnalysisPrompt: z.string().min(50).describe("The user's detailed prompt (min 50 characters) describing their files (e.g., 'Monthly MIS in Excel with sheets for Oct-May containing columns: Agent Name, Calls Made, Revenue...', 'CDR Dump as ZIP of CSVs...'), their likely data structure (column headers, date formats, numeric vs categorical fields, AND CRITICALLY: any decoding rules for coded fields e.g., 'NR' = Not Reachable, 'CALLB' = Call Back, 'INT' = Interested), specific file mappings ('My file 'sales_oct.xlsx' is the 'Monthly Revenue Tracker for Oct'), and specific analytical goals or areas of focus for THIS run (e.g., 'Focus the trend analysis specifically on Q4 & Q1, identify top agents...'). This supplements the main analysis instructions and is CRITICAL for the AI to understand the data it cannot directly read. Describe any known messiness in the data if you want the AI to address hypothetical cleaning steps.").max(10000),
-  sampledFileContent: z.string().optional().describe("A small text sample (e.g., first 10,000 characters) ONLY if one of the primary files is CSV/TXT. The AI uses this for more concrete initial observations if available. This field is undefined for Excel, DOCX, PDF etc."),
+  userAnalysisPrompt: z.string().describe("The user's analysis goals and, for files that cannot be parsed (PDF, DOCX, ...), a description of (e.g., 'Monthly MIS in Excel with sheets for Oct-May containing columns: Agent Name, Calls Made, Revenue...', 'CDR Dump as ZIP of CSVs...'), their likely data structure (column headers, date formats, numeric vs categorical fields, AND CRITICALLY: any decoding rules for coded fields e.g., 'NR' = Not Reachable, 'CALLB' = Call Back, 'INT' = Interested), specific file mappings ('My file 'sales_oct.xlsx' is the 'Monthly Revenue Tracker for Oct'), and specific analytical goals or areas of focus for THIS run (e.g., 'Focus the trend analysis specifically on Q4 & Q1, identify top agents...'). CSV, XLSX and ZIP-of-CSV files are parsed on the server, so their structure does not need describing.").max(10000),
+  sampledFileContent: z.string().optional().describe("Legacy: a text sample of the first CSV/TXT file, sent by older clients before spreadsheets were parsed on the server."),
+  datasetSummary: z.string().optional().describe("Aggregates computed on the server from the parsed files (table profiles, computed KPIs, per-agent/month/cohort breakdowns). Set by the flow, not the client."),
 });
 export type DataAnalysisInput = z.infer<typeof DataAnalysisInputSchema>;
 
 export const DataAnalysisReportSchema = z.object({
   reportTitle: z.string().describe("A comprehensive title for this specific data analysis report, reflecting the user's file context and analysis goals (e.g., 'Telecalling Performance & Revenue Attribution Analysis (Oct-May)', 'Subscription Renewal Rate Analysis')."),
   executiveSummary: z.string().min(1).describe("A concise overview (2-3 bullet points or a short paragraph) of the most critical findings and actionable insights. This should explain what the data *means* at a high level."),
-  keyMetrics: z.array(KeyMetricSchema).min(1).describe("An array of at least 1-3 key metrics or KPIs derived from the analysis (e.g., Conversion Rate, Lead Follow-up Rate, Connection Rate, Avg Revenue/Call). These should be specific and, where possible, quantified based on the user's description of their data. If revenue is missing, state how performance is being inferred (e.g., from intent outcome distribution)."),
+  keyMetrics: z.array(KeyMetricSchema).min(1).describe("An array of at least 1-3 key metrics or KPIs derived from the analysis (e.g., Conversion Rate, Lead Follow-up Rate, Connection Rate, Avg Revenue/Call). When files were parsed, the computed KPIs from the dataset summary are used verbatim. Otherwise they should be specific and, where possible, quantified based on the user's description of their data. If revenue is missing, state how performance is being inferred (e.g., from intent outcome distribution)."),
   detailedAnalysis: z.object({
     dataReconstructionAndNormalizationSummary: z.string().optional().describe("A brief summary of how the AI *hypothetically* cleaned, reconstructed, or normalized the data tables based on the user's description of the data and its potential messiness. Explicitly mention how the user's detailed prompt (e.g., descriptions of column misalignments, merged rows, or specific null value representations) guided this simulated cleanup process."),
     smartTableRecognitionSummary: z.string().optional().describe("Brief summary of how the AI *inferred* the purpose of different described data tables/sheets (e.g., CDR, Daily MIS, Source Dump) based on the column names, sheet names, and context provided by the user in their detailed prompt."),
@@ -259,6 +445,7 @@ export const DataAnalysisReportSchema = z.object({
     justification: z.string().optional().describe("Briefly mention the analysis findings or data patterns (from user's description) that support this recommendation.")
   })).min(1).describe("At least 1-2 actionable recommendations or next steps derived from the analysis."),
   directInsightsFromSampleText: z.string().optional().describe("If a text sample (CSV/TXT) was provided: 2-3 specific insights, simple calculations (e.g. 'Average X from sample is Y'), or key observations derived *directly* from analyzing that sample content. E.g., 'The provided CSV sample shows an average call duration of X minutes based on a 'Duration' column.' If no sample, or sample is unusable, this field should state that or be omitted."),
+  dataProfile: DataProfileSchema.optional().describe("Column profiles and breakdowns of the parsed files. Computed on the server, not by the model."),
   limitationsAndDisclaimer: z.string().describe("A clear disclaimer: This AI-generated analysis is based on the user's description of their data and any provided text samples. The AI has NOT directly processed or validated the content of complex binary files (Excel, DOCX, PDF, ZIP). The user is responsible for verifying all findings against their actual full datasets and business context. The accuracy and depth of this analysis are directly proportional to the detail provided in the user's input prompt."),
 });
 export type DataAnalysisReportOutput = z.infer<typeof DataAnalysisReportSchema>;
@@ -293,7 +480,8 @@ export const GeneratePitchOutputSchema = z.object({
   finalCallToAction: z.string().describe("A clear and direct call to action, prompting the customer to proceed or request more information. This MUST be specific and actionable, and feel like a natural conclusion to the preceding points."),
   fullPitchScript: z.string().min(50).describe("The complete sales pitch script, formatted as a DIALOGUE primarily from the AGENT's perspective (use 'Agent:' label, or the agent's name if provided). You may include very brief, implied customer interjections or listening cues (e.g., 'Customer: (Listening)', 'Customer: Mm-hmm', or the customer's name if provided) to make it flow naturally. This script MUST smoothly integrate all distinct components above without excessive repetition, creating a natural, flowing conversation. Target 450-600 words for the agent's parts. Use placeholders like {{AGENT_NAME}}, {{USER_NAME}}, {{PRODUCT_NAME}}, {{USER_COHORT}}, {{PLAN_NAME}}, {{OFFER_DETAILS}}, <INSERT_PRICE>."),
   estimatedDuration: z.string().describe("Estimated speaking duration of the agent's parts in the full pitch script (e.g., '3-5 minutes')."),
-  notesForAgent: z.string().optional().describe("Optional brief notes or tips for the agent specific to this pitch, product, and cohort (e.g., 'Emphasize X benefit for this cohort'). Include a note here if the AI could not directly process an uploaded file's content and had to rely on metadata or any general KB.")
+  notesForAgent: z.string().optional().describe("Optional brief notes or tips for the agent specific to this pitch, product, and cohort (e.g., 'Emphasize X benefit for this cohort'). Include a note here if the AI could not directly process an uploaded file's content and had to rely on metadata or any general KB."),
+  sourcesUsed: z.array(z.string()).optional().describe("IDs of the knowledge base chunks retrieved for this pitch. Filled in by the server, not the model."),
 });
 export type GeneratePitchOutput = z.infer<typeof GeneratePitchOutputSchema>;
 
@@ -307,6 +495,7 @@ export type GenerateRebuttalInput = z.infer<typeof GenerateRebuttalInputSchema>;
 
 export const GenerateRebuttalOutputSchema = z.object({
   rebuttal: z.string().describe('A contextual rebuttal to the customer objection. It should be well-structured, empathetic, and directly address the customer\'s concern. Prioritize using KB information. If KB is sparse for the specific objection, use general knowledge to structure a helpful response while still grounding it in the product context.'),
+  sourcesUsed: z.array(z.string()).optional().describe('IDs of the knowledge base chunks retrieved for this rebuttal. Filled in by the server, not the model.'),
 });
 export type GenerateRebuttalOutput = z.infer<typeof GenerateRebuttalOutputSchema>;
 
@@ -357,6 +546,39 @@ export interface ConversationTurn {
   isLive?: boolean;
 }
 
+export const SALES_DIALOGUE_STAGES = ['OPENING', 'DISCOVERY', 'PITCH', 'OBJECTION', 'PRICING', 'CLOSE', 'WRAP_UP'] as const;
+export const SalesDialogueStageSchema = z.enum(SALES_DIALOGUE_STAGES);
+export type SalesDialogueStage = z.infer<typeof SalesDialogueStageSchema>;
+
+export const SALES_OBJECTION_CATEGORIES = ['PRICE', 'TIME', 'NEED', 'TRUST', 'COMPETITOR', 'THINK_ABOUT_IT', 'OTHER'] as const;
+export const SalesObjectionCategorySchema = z.enum(SALES_OBJECTION_CATEGORIES);
+export type SalesObjectionCategory = z.infer<typeof SalesObjectionCategorySchema>;
+
+/** The pitch sections the agent delivers in order, after the warm introduction. */
+export const SALES_PITCH_SECTIONS = ['personalizedHook', 'productExplanation', 'keyBenefitsAndBundles', 'objectionHandlingPreviews'] as const;
+export const SalesPitchSectionSchema = z.enum(SALES_PITCH_SECTIONS);
+export type SalesPitchSection = z.infer<typeof SalesPitchSectionSchema>;
+
+export const SalesDialogueStateSchema = z.object({
+  stage: SalesDialogueStageSchema,
+  /** Stage to return to once the customer accepts an objection rebuttal. */
+  resumeStage: SalesDialogueStageSchema.optional(),
+  userTurns: z.number().int().nonnegative(),
+  discoveryQuestionsAsked: z.number().int().nonnegative(),
+  pitchSectionsDelivered: z.array(SalesPitchSectionSchema),
+  benefitsCovered: z.array(z.string()).describe("Benefits from the pitch's keyBenefitsAndBundles the agent has put to the customer."),
+  objections: z.array(z.object({
+    category: SalesObjectionCategorySchema,
+    text: z.string(),
+    timesRaised: z.number().int().positive(),
+    resolved: z.boolean(),
+  })),
+  pricingDiscussed: z.boolean(),
+  closeAttempts: z.number().int().nonnegative(),
+  outcome: z.enum(['SALE', 'DECLINED', 'CALLBACK', 'NO_DECISION']).optional(),
+});
+export type SalesDialogueState = z.infer<typeof SalesDialogueStateSchema>;
+
 export const VoiceSalesAgentFlowInputSchema = z.object({
   action: z.enum(["START_CONVERSATION", "PROCESS_USER_RESPONSE", "END_CALL"]),
   product: z.string(),
@@ -372,6 +594,8 @@ export const VoiceSalesAgentFlowInputSchema = z.object({
   knowledgeBaseContext: z.string(),
   conversationHistory: z.array(z.custom<ConversationTurn>()),
   currentPitchState: z.custom<GeneratePitchOutput>().nullable(),
+  /** Carried from the previous turn's output; a new call starts without one. */
+  dialogueState: SalesDialogueStateSchema.nullable().optional(),
   currentUserInputText: z.string().optional(),
   inactivityCounter: z.number().optional(),
 });
@@ -381,11 +605,138 @@ export const VoiceSalesAgentFlowOutputSchema = z.object({
     conversationTurns: z.array(z.custom<ConversationTurn>()),
     currentAiResponseText: z.string().optional(),
     generatedPitch: z.custom<GeneratePitchOutput>().nullable(),
+    dialogueState: SalesDialogueStateSchema.nullable(),
     nextExpectedAction: z.enum(['USER_RESPONSE', 'END_CALL_NO_SCORE', 'INTERACTION_ENDED']),
     errorMessage: z.string().optional(),
 });
 export type VoiceSalesAgentFlowOutput = z.infer<typeof VoiceSalesAgentFlowOutputSchema>;
 
+export const SimulatedCustomerObjectionSchema = z.object({
+  category: SalesObjectionCategorySchema,
+  line: z.string().optional().describe("What the customer says. Paraphrased in the persona's voice when omitted."),
+  afterAgentTurns: z.number().int().min(1).optional().describe("Agent turns to hear before raising it. Defaults to spacing the objections two turns apart."),
+});
+export type SimulatedCustomerObjection = z.infer<typeof SimulatedCustomerObjectionSchema>;
+
+export const SimulatedCustomerPersonaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  cohort: z.string().min(1),
+  description: z.string().describe("Who the customer is and how they talk."),
+  objections: z.array(SimulatedCustomerObjectionSchema).max(6),
+  patience: z.number().int().min(2).max(40).describe("Agent turns the customer sits through before hanging up. Long agent turns count double."),
+  purchaseIntent: z.number().min(0).max(1).describe("Chance that the customer buys once all of their objections have been raised."),
+});
+export type SimulatedCustomerPersona = z.infer<typeof SimulatedCustomerPersonaSchema>;
+
+export const SimulatedCustomerStateSchema = z.object({
+  agentTurnsHeard: z.number().int().nonnegative(),
+  patienceLeft: z.number().int(),
+  objectionsRaised: z.number().int().nonnegative(),
+  /** Decided from the seed when the call starts, so a seeded run is reproducible. */
+  willBuy: z.boolean(),
+  outcome: z.enum(['BOUGHT', 'DECLINED', 'HUNG_UP']).optional(),
+});
+export type SimulatedCustomerState = z.infer<typeof SimulatedCustomerStateSchema>;
+
+export const SIMULATED_CUSTOMER_INTENTS = ['ENGAGE', 'SHARE_NEEDS', 'ASK_QUESTION', 'OBJECT', 'AGREE', 'DECLINE', 'HANG_UP'] as const;
+export type SimulatedCustomerIntent = (typeof SIMULATED_CUSTOMER_INTENTS)[number];
+
+export const SimulatedCustomerTurnInputSchema = z.object({
+  persona: SimulatedCustomerPersonaSchema,
+  productDisplayName: z.string(),
+  userName: z.string().optional(),
+  conversationHistory: z.array(z.custom<ConversationTurn>()),
+  /** Which speaker in `conversationHistory` is the sales agent. Defaults to 'AI'; role-play training, where a person plays the agent, sends 'User'. */
+  agentSpeaker: z.enum(['AI', 'User']).optional(),
+  /** Carried from the previous reply; omitted on the customer's first reply. */
+  customerState: SimulatedCustomerStateSchema.nullable().optional(),
+  seed: z.number().int().optional(),
+});
+export type SimulatedCustomerTurnInput = z.infer<typeof SimulatedCustomerTurnInputSchema>;
+
+export const SimulatedCustomerTurnOutputSchema = z.object({
+  replyText: z.string(),
+  intent: z.enum(SIMULATED_CUSTOMER_INTENTS),
+  customerState: SimulatedCustomerStateSchema,
+  /** The customer has hung up; the call should end without another agent turn. */
+  endsCall: z.boolean(),
+  errorMessage: z.string().optional(),
+});
+export type SimulatedCustomerTurnOutput = z.infer<typeof SimulatedCustomerTurnOutputSchema>;
+
+// In role-play training the trainee is the agent ('User' turns) and the simulated customer speaks as 'AI'.
+export const SubmitTrainingSessionInputSchema = z.object({
+  product: z.string().min(1, 'Product is required.'),
+  persona: SimulatedCustomerPersonaSchema,
+  conversation: z.array(z.custom<ConversationTurn>()).min(2, 'The session needs at least one exchange to be scored.'),
+  customerState: SimulatedCustomerStateSchema.nullable().optional(),
+  endedBy: z.enum(['TRAINEE', 'CUSTOMER']),
+  startedAt: z.string().datetime(),
+  productContext: z.string().optional(),
+  brandUrl: z.string().url().optional(),
+});
+export type SubmitTrainingSessionInput = z.infer<typeof SubmitTrainingSessionInputSchema>;
+
+export interface TrainingImprovementSituation {
+  timeInCall?: string;
+  context: string;
+  userDialogue?: string;
+  agentResponse: string;
+  suggestedResponse: string;
+}
+
+/** A scored role-play session in a trainee's practice history. */
+export interface TrainingSession {
+  id: string;
+  traineeId: string;
+  traineeName: string;
+  workspaceId: string;
+  product: string;
+  cohort: string;
+  personaId: string;
+  personaName: string;
+  endedBy: 'TRAINEE' | 'CUSTOMER';
+  customerOutcome?: SimulatedCustomerState['outcome'];
+  traineeTurns: number;
+  startedAt: string;
+  endedAt: string;
+  transcript: string;
+  overallScore: number;
+  callCategorisation: CallScoreCategory;
+  summary: string;
+  improvementSituations: TrainingImprovementSituation[];
+  rubric?: RubricReference;
+}
+
+export const LiveAssistCueSchema = z.object({
+  kind: z.enum(['OBJECTION', 'QUESTION']),
+  category: SalesObjectionCategorySchema.optional().describe("Set for objections."),
+  utterance: z.string().min(1).describe("What was said on the call."),
+});
+export type LiveAssistCue = z.infer<typeof LiveAssistCueSchema>;
+
+export const LiveAssistRequestSchema = z.object({
+  product: z.string().min(1, "Product is required."),
+  cue: LiveAssistCueSchema,
+  knowledgeBaseContext: z.string().optional().describe("Used for the rebuttal when the workspace has no indexed knowledge for the product."),
+  brandUrl: z.string().url().optional(),
+});
+export type LiveAssistRequest = z.infer<typeof LiveAssistRequestSchema>;
+
+export interface LiveAssistKnowledgeSnippet {
+  chunkId: string;
+  fileName: string;
+  text: string;
+}
+
+export interface LiveAssistSuggestion {
+  cue: LiveAssistCue;
+  /** Set for objections. */
+  rebuttal?: string;
+  snippets: LiveAssistKnowledgeSnippet[];
+}
+
 export const VoiceSupportAgentFlowInputSchema = z.object({
   product: z.string(),
   agentName: z.string().optional().describe("Name of the AI agent (for dialogue)."),
@@ -411,11 +762,25 @@ export const GenerateFullCallAudioInputSchema = z.object({
     conversationHistory: z.array(z.custom<ConversationTurn>()).optional().describe("The full history of the conversation, with 'AI' and 'User' speakers."),
     agentVoiceProfile: z.string().optional().describe("The voice profile ID from Google's catalog (e.g., 'en-IN-Wavenet-D')."),
     singleSpeakerText: z.string().optional().describe("If provided, generate audio for this single text string instead of the conversation history."),
+    interTurnGapMs: z.number().int().min(0).max(10000).optional().describe("Silence inserted between turns, in milliseconds. Defaults to 400."),
+    sampleRate: z.number().int().min(8000).max(48000).optional().describe("Sample rate of the mixed recording. Defaults to 16000."),
 });
 export type GenerateFullCallAudioInput = z.infer<typeof GenerateFullCallAudioInputSchema>;
 
+export const FullCallAudioSegmentSchema = z.object({
+    turnId: z.string(),
+    speaker: z.enum(['AI', 'User']),
+    startSeconds: z.number(),
+    endSeconds: z.number(),
+    source: z.enum(['audio', 'silence']).describe("'silence' when the turn had no decodable audio and is held by silence of its estimated speaking time."),
+    note: z.string().optional().describe("Why the turn's audio could not be used."),
+});
+export type FullCallAudioSegment = z.infer<typeof FullCallAudioSegmentSchema>;
+
 export const GenerateFullCallAudioOutputSchema = z.object({
-    audioDataUri: z.string().describe("The Data URI of the generated WAV audio file for the full call."),
+    audioDataUri: z.string().describe("The Data URI of the generated WAV audio file for the full call: stereo, agent on the left channel and customer on the right."),
+    durationSeconds: z.number().optional(),
+    segments: z.array(FullCallAudioSegmentSchema).optional().describe("Where each turn sits in the recording."),
     errorMessage: z.string().optional(),
 });
 export type GenerateFullCallAudioOutput = z.infer<typeof GenerateFullCallAudioOutputSchema>;
@@ -497,7 +862,21 @@ export interface CallScoringActivityDetails {
   error?: string;
   status?: 'Queued' | 'Transcribing' | 'Scoring' | 'Complete' | 'Failed' | 'Pending';
   audioDataUri?: string;
-  source?: 'Manual' | 'Voice Agent';
+  source?: 'Manual' | 'Voice Agent' | 'Ingestion';
+  /** Dialer CDR fields matched to a recording picked up by scheduled ingestion. */
+  callMetadata?: CallRecordingMetadata;
+  /** Set when the call was re-scored from a reviewer-corrected transcript. */
+  transcriptCorrection?: { activityId: string; version: number };
+}
+
+export interface CallRecordingMetadata {
+  callId?: string;
+  agentName?: string;
+  campaign?: string;
+  disposition?: string;
+  durationSeconds?: number;
+  /** ISO timestamp of the call as reported by the dialer. */
+  calledAt?: string;
 }
 
 export interface HistoricalScoreItem extends Omit<ActivityLogEntry, 'details'> {
@@ -544,12 +923,15 @@ export interface VoiceSalesAgentActivityDetails {
     userName?: string;
     voiceName?: string;
     selectedKbIds?: string[];
+    /** Name of the simulated customer persona, when the call was not with a live customer. */
+    simulatedCustomerPersona?: string;
   };
   finalScore?: Partial<ScoreCallOutput>;
   lastCallFeedbackContext?: string;
   fullTranscriptText?: string;
   fullConversation?: ConversationTurn[];
   fullCallAudioDataUri?: string;
+  dialogueState?: SalesDialogueState | null;
   status?: 'In Progress' | 'Completed' | 'Error' | 'Completed (Reset)' | 'Completed (Page Unloaded)' | 'Processing Audio';
   error?: string;
   origin?: 'voice-agent' | 'call-scoring-backfill';
@@ -150,6 +150,12 @@ export interface TranscriptDoc {
     
     /** Source of the transcript (e.g., "whisper-asr", "manual-upload", "live-conversation") */
     source?: string;
+    
+    /**
+     * "estimated" when the source had no timestamps and turn times were
+     * derived from word counts; timing analytics are then approximate
+     */
+    timing?: 'measured' | 'estimated';
   };
 }
 